@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react';
+import { trpc } from '@/lib/trpc';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowDown, ArrowUp, Download, Plus, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+type ExportFormat = 'csv' | 'xlsx' | 'ghl';
+
+interface ColumnRow {
+  field: string;
+  header: string;
+  include: boolean;
+}
+
+interface LeadExportDialogProps {
+  listId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'ghl', label: 'GoHighLevel contact import (CSV)' },
+];
+
+const STATUSES = ['enriched', 'pending', 'failed', 'skipped'] as const;
+
+// Select items need a non-empty value
+const AUTO_FIELD = '__auto__';
+
+export function LeadExportDialog({ listId, open, onOpenChange }: LeadExportDialogProps) {
+  const utils = trpc.useUtils();
+  const { data: profile, isLoading } = trpc.leadEnrichment.getExportProfile.useQuery(
+    { listId },
+    { enabled: open }
+  );
+  const saveProfile = trpc.leadEnrichment.saveExportProfile.useMutation({
+    onSuccess: () => {
+      toast.success('Export mapping saved');
+      utils.leadEnrichment.getExportProfile.invalidate({ listId });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [statuses, setStatuses] = useState<string[]>(['enriched']);
+  const [columns, setColumns] = useState<ColumnRow[]>([]);
+  const [ghlFields, setGhlFields] = useState<Record<string, string>>({});
+  const [customFields, setCustomFields] = useState<{ field: string; name: string }[]>([]);
+
+  // Saved columns first, then the remaining fields unselected
+  useEffect(() => {
+    if (!profile) return;
+
+    const selected = profile.columns.map((column) => ({ ...column, include: true }));
+    const rest = profile.availableFields
+      .filter((field) => !profile.columns.some((column) => column.field === field))
+      .map((field) => ({ field, header: field, include: false }));
+
+    setColumns([...selected, ...rest]);
+    setGhlFields({ ...profile.ghlFields } as Record<string, string>);
+    setCustomFields(profile.ghlCustomFields);
+  }, [profile]);
+
+  const updateColumn = (index: number, changes: Partial<ColumnRow>) => {
+    setColumns((prev) => prev.map((column, i) => (i === index ? { ...column, ...changes } : column)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const toggleStatus = (status: string, checked: boolean) => {
+    setStatuses((prev) => (checked ? [...prev, status] : prev.filter((s) => s !== status)));
+  };
+
+  const handleSave = () => {
+    const included = columns.filter((column) => column.include);
+    if (included.length === 0) {
+      toast.error('Select at least one column');
+      return;
+    }
+
+    saveProfile.mutate({
+      listId,
+      columns: included.map(({ field, header }) => ({ field, header })),
+      ghlFields,
+      ghlCustomFields: customFields.filter((custom) => custom.field && custom.name),
+    });
+  };
+
+  const handleDownload = () => {
+    const params = new URLSearchParams({ format });
+    if (statuses.length > 0 && statuses.length < STATUSES.length) {
+      params.set('status', statuses.join(','));
+    }
+
+    // The server streams the file; the browser downloads it with the session cookie
+    const link = document.createElement('a');
+    link.href = `/api/lead-lists/${listId}/export?${params.toString()}`;
+    link.click();
+    toast.success('Export started');
+  };
+
+  const fields = profile?.availableFields ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Leads</DialogTitle>
+          <DialogDescription>
+            Choose a format and the leads to include. Downloads use the mapping saved for this list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMATS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Enrichment status</Label>
+            <div className="flex flex-wrap gap-4 h-10 items-center">
+              {STATUSES.map((status) => (
+                <label key={status} className="flex items-center gap-2 text-sm capitalize">
+                  <Checkbox
+                    checked={statuses.includes(status)}
+                    onCheckedChange={(checked) => toggleStatus(status, checked === true)}
+                  />
+                  {status}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading fields...</p>
+        ) : (
+          <Tabs defaultValue="columns">
+            <TabsList>
+              <TabsTrigger value="columns">Columns</TabsTrigger>
+              <TabsTrigger value="ghl">GoHighLevel mapping</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="columns" className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Used for CSV and Excel exports. Rename headers and reorder as needed.
+              </p>
+              {columns.map((column, index) => (
+                <div key={column.field} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={column.include}
+                    onCheckedChange={(checked) => updateColumn(index, { include: checked === true })}
+                  />
+                  <span className="w-1/3 truncate font-mono text-xs" title={column.field}>
+                    {column.field}
+                  </span>
+                  <Input
+                    value={column.header}
+                    onChange={(e) => updateColumn(index, { header: e.target.value })}
+                    disabled={!column.include}
+                    className="h-8"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => moveColumn(index, -1)} aria-label="Move up">
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => moveColumn(index, 1)} aria-label="Move down">
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="ghl" className="space-y-4">
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Lead field for each GoHighLevel contact column. Automatic picks the enriched value, then the
+                  uploaded one.
+                </p>
+                {profile?.ghlStandardFields.map((ghlField) => (
+                  <div key={ghlField.key} className="grid grid-cols-2 gap-2 items-center">
+                    <Label className="text-sm">{ghlField.header}</Label>
+                    <Select
+                      value={ghlFields[ghlField.key] ?? AUTO_FIELD}
+                      onValueChange={(value) =>
+                        setGhlFields((prev) => {
+                          const next = { ...prev };
+                          if (value === AUTO_FIELD) delete next[ghlField.key];
+                          else next[ghlField.key] = value;
+                          return next;
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={AUTO_FIELD}>Automatic</SelectItem>
+                        {fields.map((field) => (
+                          <SelectItem key={field} value={field}>
+                            {field}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Custom fields</Label>
+                <p className="text-xs text-muted-foreground">
+                  Use the exact custom field name from GoHighLevel so the import maps it automatically.
+                </p>
+                {customFields.map((custom, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={custom.field || undefined}
+                      onValueChange={(value) =>
+                        setCustomFields((prev) => prev.map((c, i) => (i === index ? { ...c, field: value } : c)))
+                      }
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue placeholder="Lead field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fields.map((field) => (
+                          <SelectItem key={field} value={field}>
+                            {field}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="GHL custom field name"
+                      value={custom.name}
+                      onChange={(e) =>
+                        setCustomFields((prev) =>
+                          prev.map((c, i) => (i === index ? { ...c, name: e.target.value } : c))
+                        )
+                      }
+                      className="h-8"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setCustomFields((prev) => prev.filter((_, i) => i !== index))}
+                      aria-label="Remove custom field"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCustomFields((prev) => [...prev, { field: '', name: '' }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add custom field
+                </Button>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleSave} disabled={saveProfile.isPending || isLoading}>
+            <Save className="h-4 w-4 mr-2" />
+            Save mapping
+          </Button>
+          <Button onClick={handleDownload} disabled={statuses.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ export { LeadTable } from './LeadTable';
 export { CampaignForm } from './CampaignForm';
 export { CallHistoryTable } from './CallHistoryTable';
 export { CreditPackageCard } from './CreditPackageCard';
+export { LeadExportDialog } from './LeadExportDialog';
 
 // Voice Transcript Components
 export { VoiceTranscript } from './VoiceTranscript';
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
@@ -9,12 +9,120 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { X, Copy, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { X, Copy, Trash2, AlertCircle } from 'lucide-react';
 import { useWorkflowStore } from '@/stores/workflowStore';
-import type { WorkflowNodeData } from '@/types/workflow';
+import { getNodeTemplate } from '@/config/nodeTemplates';
+import { getAvailableVariables } from '@/lib/workflowGraph';
+import { VariableInput } from './VariableInput';
+import type { WorkflowIssue, WorkflowStepConfig } from '@/types/workflow';
+
+type ConfigField = keyof WorkflowStepConfig;
+
+// Browser steps can pick the model Stagehand uses
+const MODEL_STEP_TYPES = ['act', 'observe', 'extract'];
+
+const parseOptionalInt = (value: string) => (value === '' ? undefined : parseInt(value, 10));
+
+/**
+ * Field label with its validation messages
+ */
+const Field: React.FC<{
+  id: string;
+  label: string;
+  issues: WorkflowIssue[];
+  hint?: string;
+  children: React.ReactNode;
+}> = ({ id, label, issues, hint, children }) => (
+  <div className="space-y-1">
+    <Label htmlFor={id}>{label}</Label>
+    {children}
+    {hint && issues.length === 0 && <p className="text-xs text-muted-foreground">{hint}</p>}
+    {issues.map((issue, index) => (
+      <p key={index} className="text-xs text-destructive">
+        {issue.message}
+      </p>
+    ))}
+  </div>
+);
+
+/**
+ * JSON editor that only commits valid JSON
+ * Keeps its own text so half-typed JSON isn't lost
+ */
+const JsonField: React.FC<{
+  id: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  placeholder?: string;
+  rows?: number;
+  allowText?: boolean;
+}> = ({ id, value, onChange, placeholder, rows = 4, allowText = false }) => {
+  const serialize = (v: unknown) =>
+    v === undefined ? '' : typeof v === 'string' && allowText ? v : JSON.stringify(v, null, 2);
+  const [text, setText] = useState(serialize(value));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(serialize(value));
+    setError(null);
+    // Only resync when the stored value changes (e.g. undo or another node)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [JSON.stringify(value)]);
+
+  const commit = () => {
+    if (text.trim() === '') {
+      setError(null);
+      onChange(undefined);
+      return;
+    }
+    try {
+      onChange(JSON.parse(text));
+      setError(null);
+    } catch {
+      if (allowText) {
+        onChange(text);
+        setError(null);
+      } else {
+        setError('Invalid JSON');
+      }
+    }
+  };
+
+  return (
+    <>
+      <Textarea
+        id={id}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        placeholder={placeholder}
+        rows={rows}
+        className="font-mono text-xs"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </>
+  );
+};
 
 export const NodeConfigPanel: React.FC = () => {
-  const { selectedNode, updateNode, deleteNode, duplicateNode, selectNode } = useWorkflowStore();
+  const {
+    selectedNode,
+    nodes,
+    edges,
+    issues,
+    variables: inputVariables,
+    updateNode,
+    updateNodeConfig,
+    deleteNode,
+    duplicateNode,
+    selectNode,
+  } = useWorkflowStore();
+
+  const variables = useMemo(
+    () => (selectedNode ? getAvailableVariables(nodes, edges, selectedNode.id, inputVariables) : []),
+    [nodes, edges, selectedNode, inputVariables]
+  );
 
   if (!selectedNode) {
     return (
@@ -26,17 +134,61 @@ export const NodeConfigPanel: React.FC = () => {
     );
   }
 
-  const handleUpdate = (updates: Partial<WorkflowNodeData>) => {
-    updateNode(selectedNode.id, updates);
+  const { type, config } = selectedNode.data;
+  const template = getNodeTemplate(type);
+  const nodeIssues = issues.filter((issue) => issue.nodeId === selectedNode.id);
+  const issuesFor = (field: ConfigField) => nodeIssues.filter((issue) => issue.field === field);
+  const generalIssues = nodeIssues.filter((issue) => !issue.field);
+
+  const update = (updates: Partial<WorkflowStepConfig>) => {
+    updateNodeConfig(selectedNode.id, updates);
   };
 
-  const data = selectedNode.data;
+  const textField = (field: ConfigField, label: string, options: { placeholder?: string; multiline?: boolean; hint?: string } = {}) => (
+    <Field id={field} label={label} issues={issuesFor(field)} hint={options.hint}>
+      <VariableInput
+        id={field}
+        value={(config[field] as string | undefined) ?? ''}
+        onChange={(value) => update({ [field]: value })}
+        variables={variables}
+        placeholder={options.placeholder}
+        multiline={options.multiline}
+        invalid={issuesFor(field).length > 0}
+      />
+    </Field>
+  );
+
+  const numberField = (field: ConfigField, label: string, options: { min?: number; max?: number; hint?: string } = {}) => (
+    <Field id={field} label={label} issues={issuesFor(field)} hint={options.hint}>
+      <Input
+        id={field}
+        type="number"
+        min={options.min}
+        max={options.max}
+        value={(config[field] as number | undefined) ?? ''}
+        onChange={(e) => update({ [field]: parseOptionalInt(e.target.value) })}
+        aria-invalid={issuesFor(field).length > 0 || undefined}
+      />
+    </Field>
+  );
+
+  const stepsField = (field: 'steps' | 'thenSteps' | 'elseSteps', label: string, hint: string) => (
+    <Field id={field} label={label} issues={issuesFor(field)} hint={hint}>
+      <JsonField
+        id={field}
+        value={config[field]}
+        onChange={(value) => update({ [field]: value as WorkflowStepConfig[typeof field] })}
+        placeholder='[{ "type": "apiCall", "order": 0, "config": { "url": "..." } }]'
+        rows={6}
+      />
+    </Field>
+  );
 
   return (
     <Card className="h-full flex flex-col border-l rounded-none">
       {/* Header */}
       <div className="p-4 border-b flex items-center justify-between">
-        <h3 className="font-semibold">Node Configuration</h3>
+        <h3 className="font-semibold">{template?.label || type} Step</h3>
         <div className="flex items-center gap-1">
           <Button
             size="icon"
@@ -69,430 +221,241 @@ export const NodeConfigPanel: React.FC = () => {
 
       <ScrollArea className="flex-1">
         <div className="p-4 space-y-4">
-          {/* Basic Settings */}
-          <div className="space-y-3">
-            <div>
-              <Label htmlFor="label">Label</Label>
-              <Input
-                id="label"
-                value={data.label}
-                onChange={(e) => handleUpdate({ label: e.target.value })}
-                placeholder="Node label"
-              />
-            </div>
-
-            <div>
-              <Label htmlFor="description">Description</Label>
-              <Textarea
-                id="description"
-                value={data.description || ''}
-                onChange={(e) => handleUpdate({ description: e.target.value })}
-                placeholder="Optional description"
-                rows={2}
-              />
-            </div>
+          {generalIssues.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {generalIssues.map((issue, index) => (
+                  <div key={index}>{issue.message}</div>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
 
-            <div className="flex items-center justify-between">
-              <Label htmlFor="enabled">Enabled</Label>
-              <Switch
-                id="enabled"
-                checked={data.enabled}
-                onCheckedChange={(enabled) => handleUpdate({ enabled })}
-              />
+          {/* Type-specific configurations */}
+          {type === 'navigate' && (
+            <div className="space-y-3">
+              {textField('url', 'URL', { placeholder: 'https://example.com' })}
             </div>
-          </div>
-
-          <Separator />
+          )}
 
-          {/* Type-specific configurations */}
-          {data.type === 'navigate' && (
+          {type === 'act' && (
             <div className="space-y-3">
-              <div>
-                <Label htmlFor="url">URL</Label>
-                <Input
-                  id="url"
-                  type="url"
-                  value={data.url}
-                  onChange={(e) => handleUpdate({ url: e.target.value })}
-                  placeholder="https://example.com"
-                />
-              </div>
-              <div className="flex items-center justify-between">
-                <Label htmlFor="waitForLoad">Wait for page load</Label>
-                <Switch
-                  id="waitForLoad"
-                  checked={data.waitForLoad}
-                  onCheckedChange={(waitForLoad) => handleUpdate({ waitForLoad })}
-                />
-              </div>
-              <div>
-                <Label htmlFor="timeout">Timeout (ms)</Label>
-                <Input
-                  id="timeout"
-                  type="number"
-                  value={data.timeout}
-                  onChange={(e) => handleUpdate({ timeout: parseInt(e.target.value) })}
-                />
-              </div>
+              {textField('instruction', 'Instruction', {
+                placeholder: 'Click the "Sign in" button',
+                multiline: true,
+              })}
             </div>
           )}
 
-          {data.type === 'click' && (
+          {type === 'observe' && (
             <div className="space-y-3">
-              <div>
-                <Label htmlFor="selector">CSS Selector</Label>
-                <Input
-                  id="selector"
-                  value={data.selector}
-                  onChange={(e) => handleUpdate({ selector: e.target.value })}
-                  placeholder=".button-class or #button-id"
-                  className="font-mono text-sm"
-                />
-              </div>
-              <div>
-                <Label htmlFor="clickCount">Click Count</Label>
-                <Input
-                  id="clickCount"
-                  type="number"
-                  min="1"
-                  value={data.clickCount}
-                  onChange={(e) => handleUpdate({ clickCount: parseInt(e.target.value) })}
-                />
-              </div>
-              <div className="flex items-center justify-between">
-                <Label htmlFor="waitForNavigation">Wait for navigation</Label>
-                <Switch
-                  id="waitForNavigation"
-                  checked={data.waitForNavigation}
-                  onCheckedChange={(waitForNavigation) => handleUpdate({ waitForNavigation })}
-                />
-              </div>
+              {textField('observeInstruction', 'What to look for', {
+                placeholder: 'Find the search form fields',
+                multiline: true,
+              })}
             </div>
           )}
 
-          {data.type === 'extract' && (
+          {type === 'extract' && (
             <div className="space-y-3">
-              <div>
-                <Label htmlFor="selector">CSS Selector</Label>
-                <Input
-                  id="selector"
-                  value={data.selector}
-                  onChange={(e) => handleUpdate({ selector: e.target.value })}
-                  placeholder=".data-class"
-                  className="font-mono text-sm"
-                />
-              </div>
-              <div>
-                <Label htmlFor="extractType">Extract Type</Label>
+              {textField('extractInstruction', 'Instruction', {
+                placeholder: 'Extract the name, email and phone of each contact',
+                multiline: true,
+              })}
+              <Field id="schemaType" label="Schema" issues={issuesFor('schemaType')}>
                 <Select
-                  value={data.extractType}
-                  onValueChange={(extractType: any) => handleUpdate({ extractType })}
+                  value={config.schemaType ?? 'custom'}
+                  onValueChange={(schemaType) => update({ schemaType: schemaType as WorkflowStepConfig['schemaType'] })}
                 >
-                  <SelectTrigger>
+                  <SelectTrigger id="schemaType">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="text">Text Content</SelectItem>
-                    <SelectItem value="attribute">Attribute</SelectItem>
-                    <SelectItem value="html">HTML</SelectItem>
-                    <SelectItem value="table">Table Data</SelectItem>
-                    <SelectItem value="list">List Items</SelectItem>
                     <SelectItem value="custom">Custom</SelectItem>
+                    <SelectItem value="contactInfo">Contact info</SelectItem>
+                    <SelectItem value="productInfo">Product info</SelectItem>
                   </SelectContent>
                 </Select>
-              </div>
-              {data.extractType === 'attribute' && (
-                <div>
-                  <Label htmlFor="attribute">Attribute Name</Label>
-                  <Input
-                    id="attribute"
-                    value={data.attribute || ''}
-                    onChange={(e) => handleUpdate({ attribute: e.target.value })}
-                    placeholder="href, src, data-id, etc."
-                  />
-                </div>
-              )}
-              <div>
-                <Label htmlFor="variableName">Save to Variable</Label>
-                <Input
-                  id="variableName"
-                  value={data.variableName}
-                  onChange={(e) => handleUpdate({ variableName: e.target.value })}
-                  placeholder="extractedData"
-                  className="font-mono text-sm"
-                />
-              </div>
-              <div className="flex items-center justify-between">
-                <Label htmlFor="multiple">Extract multiple elements</Label>
-                <Switch
-                  id="multiple"
-                  checked={data.multiple}
-                  onCheckedChange={(multiple) => handleUpdate({ multiple })}
-                />
-              </div>
+              </Field>
             </div>
           )}
 
-          {data.type === 'wait' && (
+          {type === 'wait' && (
             <div className="space-y-3">
-              <div>
-                <Label htmlFor="waitCondition">Wait Condition</Label>
-                <Select
-                  value={data.waitCondition}
-                  onValueChange={(waitCondition: any) => handleUpdate({ waitCondition })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="time">Time Delay</SelectItem>
-                    <SelectItem value="element">Element Visible</SelectItem>
-                    <SelectItem value="network">Network Idle</SelectItem>
-                    <SelectItem value="custom">Custom Condition</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              {data.waitCondition === 'time' && (
-                <div>
-                  <Label htmlFor="duration">Duration (ms)</Label>
-                  <Input
-                    id="duration"
-                    type="number"
-                    value={data.duration}
-                    onChange={(e) => handleUpdate({ duration: parseInt(e.target.value) })}
-                  />
-                </div>
-              )}
-              {data.waitCondition === 'element' && (
-                <div>
-                  <Label htmlFor="selector">Element Selector</Label>
-                  <Input
-                    id="selector"
-                    value={data.selector || ''}
-                    onChange={(e) => handleUpdate({ selector: e.target.value })}
-                    className="font-mono text-sm"
-                  />
-                </div>
-              )}
-              <div>
-                <Label htmlFor="timeout">Timeout (ms)</Label>
-                <Input
-                  id="timeout"
-                  type="number"
-                  value={data.timeout}
-                  onChange={(e) => handleUpdate({ timeout: parseInt(e.target.value) })}
-                />
-              </div>
+              {numberField('waitMs', 'Wait (ms)', {
+                min: 0,
+                max: 60000,
+                hint: 'Up to 60000ms. With a selector, this is how long to wait for it',
+              })}
+              {textField('selector', 'Wait for selector', { placeholder: '.results' })}
             </div>
           )}
 
-          {data.type === 'condition' && (
+          {type === 'condition' && (
             <div className="space-y-3">
-              <div>
-                <Label htmlFor="variable">Variable</Label>
-                <Input
-                  id="variable"
-                  value={data.variable}
-                  onChange={(e) => handleUpdate({ variable: e.target.value })}
-                  placeholder="variableName"
-                  className="font-mono text-sm"
-                />
-              </div>
-              <div>
-                <Label htmlFor="operator">Operator</Label>
-                <Select
-                  value={data.operator}
-                  onValueChange={(operator: any) => handleUpdate({ operator })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="equals">Equals (==)</SelectItem>
-                    <SelectItem value="not_equals">Not Equals (!=)</SelectItem>
-                    <SelectItem value="contains">Contains</SelectItem>
-                    <SelectItem value="not_contains">Not Contains</SelectItem>
-                    <SelectItem value="greater_than">Greater Than (&gt;)</SelectItem>
-                    <SelectItem value="less_than">Less Than (&lt;)</SelectItem>
-                    <SelectItem value="exists">Exists</SelectItem>
-                    <SelectItem value="not_exists">Not Exists</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <Label htmlFor="value">Value</Label>
-                <Input
-                  id="value"
-                  value={data.value}
-                  onChange={(e) => handleUpdate({ value: e.target.value })}
-                  placeholder="Comparison value"
-                />
-              </div>
+              {textField('condition', 'Condition', {
+                placeholder: '{{status}} == "active"',
+                hint: 'Connect the green output for when it passes and the red output for when it fails',
+              })}
+              {stepsField('thenSteps', 'Steps when it passes', 'Optional steps run inline before continuing')}
+              {stepsField('elseSteps', 'Steps when it fails', 'Optional steps run inline before continuing')}
             </div>
           )}
 
-          {data.type === 'loop' && (
+          {type === 'loop' && (
             <div className="space-y-3">
-              <div>
-                <Label htmlFor="loopType">Loop Type</Label>
-                <Select
-                  value={data.loopType}
-                  onValueChange={(loopType: any) => handleUpdate({ loopType })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="count">Fixed Count</SelectItem>
-                    <SelectItem value="while">While Condition</SelectItem>
-                    <SelectItem value="foreach">For Each Item</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              {data.loopType === 'count' && (
-                <div>
-                  <Label htmlFor="iterations">Iterations</Label>
+              <Field
+                id="items"
+                label="Items"
+                issues={issuesFor('items')}
+                hint='A {{variable}} holding a list, or a JSON array'
+              >
+                <VariableInput
+                  id="items"
+                  value={typeof config.items === 'string' ? config.items : config.items ? JSON.stringify(config.items) : ''}
+                  onChange={(value) => {
+                    let items: WorkflowStepConfig['items'] = value;
+                    if (value.trim().startsWith('[')) {
+                      try {
+                        items = JSON.parse(value);
+                      } catch {
+                        // Keep the text until it is valid JSON
+                      }
+                    }
+                    update({ items });
+                  }}
+                  variables={variables}
+                  placeholder="{{leads}}"
+                  invalid={issuesFor('items').length > 0}
+                />
+              </Field>
+              <div className="grid grid-cols-2 gap-2">
+                <Field id="itemVariable" label="Item variable" issues={issuesFor('itemVariable')}>
                   <Input
-                    id="iterations"
-                    type="number"
-                    min="1"
-                    value={data.iterations}
-                    onChange={(e) => handleUpdate({ iterations: parseInt(e.target.value) })}
+                    id="itemVariable"
+                    value={config.itemVariable ?? ''}
+                    onChange={(e) => update({ itemVariable: e.target.value })}
+                    className="font-mono text-sm"
                   />
-                </div>
-              )}
-              {data.loopType === 'foreach' && (
-                <>
-                  <div>
-                    <Label htmlFor="arrayVariable">Array Variable</Label>
-                    <Input
-                      id="arrayVariable"
-                      value={data.arrayVariable || ''}
-                      onChange={(e) => handleUpdate({ arrayVariable: e.target.value })}
-                      className="font-mono text-sm"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="itemVariable">Item Variable</Label>
-                    <Input
-                      id="itemVariable"
-                      value={data.itemVariable || ''}
-                      onChange={(e) => handleUpdate({ itemVariable: e.target.value })}
-                      className="font-mono text-sm"
-                    />
-                  </div>
-                </>
-              )}
-              <div>
-                <Label htmlFor="maxIterations">Max Iterations (safety)</Label>
-                <Input
-                  id="maxIterations"
-                  type="number"
-                  value={data.maxIterations}
-                  onChange={(e) => handleUpdate({ maxIterations: parseInt(e.target.value) })}
-                />
+                </Field>
+                <Field id="indexVariable" label="Index variable" issues={issuesFor('indexVariable')}>
+                  <Input
+                    id="indexVariable"
+                    value={config.indexVariable ?? ''}
+                    onChange={(e) => update({ indexVariable: e.target.value })}
+                    className="font-mono text-sm"
+                  />
+                </Field>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {numberField('maxIterations', 'Max iterations', { min: 1, max: 1000 })}
+                {numberField('concurrency', 'Concurrency', { min: 1, max: 10 })}
               </div>
+              {textField('breakCondition', 'Stop when', { placeholder: '{{item.done}} == true' })}
+              {textField('continueCondition', 'Skip item when', { placeholder: '{{item.email}} == ""' })}
+              {stepsField('steps', 'Steps per item', 'Run for each item; parallel loops cannot use browser steps')}
             </div>
           )}
 
-          {data.type === 'input' && (
+          {type === 'apiCall' && (
             <div className="space-y-3">
-              <div>
-                <Label htmlFor="selector">Input Selector</Label>
-                <Input
-                  id="selector"
-                  value={data.selector}
-                  onChange={(e) => handleUpdate({ selector: e.target.value })}
-                  className="font-mono text-sm"
-                />
-              </div>
-              <div>
-                <Label htmlFor="inputType">Input Type</Label>
+              <Field id="method" label="Method" issues={issuesFor('method')}>
                 <Select
-                  value={data.inputType}
-                  onValueChange={(inputType: any) => handleUpdate({ inputType })}
+                  value={config.method ?? 'GET'}
+                  onValueChange={(method) => update({ method: method as WorkflowStepConfig['method'] })}
                 >
-                  <SelectTrigger>
+                  <SelectTrigger id="method">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="text">Text</SelectItem>
-                    <SelectItem value="select">Select/Dropdown</SelectItem>
-                    <SelectItem value="checkbox">Checkbox</SelectItem>
-                    <SelectItem value="radio">Radio Button</SelectItem>
-                    <SelectItem value="file">File Upload</SelectItem>
+                    {['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map((method) => (
+                      <SelectItem key={method} value={method}>{method}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
-              </div>
-              <div>
-                <Label htmlFor="value">Value</Label>
-                <Input
-                  id="value"
-                  value={data.value}
-                  onChange={(e) => handleUpdate({ value: e.target.value })}
+              </Field>
+              {textField('url', 'URL', { placeholder: 'https://api.example.com/leads/{{leadId}}' })}
+              <Field id="headers" label="Headers" issues={issuesFor('headers')}>
+                <JsonField
+                  id="headers"
+                  value={config.headers}
+                  onChange={(headers) => update({ headers: headers as Record<string, string> | undefined })}
+                  placeholder='{ "Authorization": "Bearer {{token}}" }'
+                  rows={3}
                 />
-              </div>
-              <div className="flex items-center justify-between">
-                <Label htmlFor="clearFirst">Clear field first</Label>
-                <Switch
-                  id="clearFirst"
-                  checked={data.clearFirst}
-                  onCheckedChange={(clearFirst) => handleUpdate({ clearFirst })}
-                />
-              </div>
-              <div className="flex items-center justify-between">
-                <Label htmlFor="pressEnter">Press Enter after</Label>
-                <Switch
-                  id="pressEnter"
-                  checked={data.pressEnter}
-                  onCheckedChange={(pressEnter) => handleUpdate({ pressEnter })}
-                />
-              </div>
+              </Field>
+              {config.method && config.method !== 'GET' && (
+                <Field id="body" label="Body" issues={issuesFor('body')} hint="JSON or plain text">
+                  <JsonField
+                    id="body"
+                    value={config.body}
+                    onChange={(body) => update({ body })}
+                    placeholder='{ "email": "{{email}}" }'
+                    allowText
+                  />
+                </Field>
+              )}
             </div>
           )}
 
-          {data.type === 'api_call' && (
+          {type === 'notification' && (
             <div className="space-y-3">
-              <div>
-                <Label htmlFor="method">HTTP Method</Label>
+              {textField('message', 'Message', { placeholder: 'Found {{leads.length}} leads', multiline: true })}
+              <Field id="notificationType" label="Level" issues={issuesFor('notificationType')}>
                 <Select
-                  value={data.method}
-                  onValueChange={(method: any) => handleUpdate({ method })}
+                  value={config.notificationType ?? 'info'}
+                  onValueChange={(notificationType) =>
+                    update({ notificationType: notificationType as WorkflowStepConfig['notificationType'] })
+                  }
                 >
-                  <SelectTrigger>
+                  <SelectTrigger id="notificationType">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="GET">GET</SelectItem>
-                    <SelectItem value="POST">POST</SelectItem>
-                    <SelectItem value="PUT">PUT</SelectItem>
-                    <SelectItem value="DELETE">DELETE</SelectItem>
-                    <SelectItem value="PATCH">PATCH</SelectItem>
+                    <SelectItem value="info">Info</SelectItem>
+                    <SelectItem value="success">Success</SelectItem>
+                    <SelectItem value="warning">Warning</SelectItem>
+                    <SelectItem value="error">Error</SelectItem>
                   </SelectContent>
                 </Select>
-              </div>
-              <div>
-                <Label htmlFor="url">API URL</Label>
-                <Input
-                  id="url"
-                  type="url"
-                  value={data.url}
-                  onChange={(e) => handleUpdate({ url: e.target.value })}
-                  className="font-mono text-sm"
-                />
-              </div>
-              <div>
-                <Label htmlFor="variableName">Save Response To</Label>
-                <Input
-                  id="variableName"
-                  value={data.variableName}
-                  onChange={(e) => handleUpdate({ variableName: e.target.value })}
-                  className="font-mono text-sm"
-                />
-              </div>
+              </Field>
             </div>
           )}
 
+          <Separator />
+
+          {/* Output */}
+          <div className="space-y-3">
+            <Field
+              id="saveAs"
+              label="Save result as"
+              issues={issuesFor('saveAs')}
+              hint="Later steps can use it as {{name}}"
+            >
+              <Input
+                id="saveAs"
+                value={config.saveAs ?? ''}
+                onChange={(e) => update({ saveAs: e.target.value })}
+                placeholder="result"
+                className="font-mono text-sm"
+              />
+            </Field>
+            <Field
+              id="stepId"
+              label="Step ID"
+              issues={[]}
+              hint="Set automatically when a condition jumps to this step"
+            >
+              <Input
+                id="stepId"
+                value={selectedNode.data.stepId ?? ''}
+                onChange={(e) => updateNode(selectedNode.id, { stepId: e.target.value || undefined })}
+                className="font-mono text-sm"
+              />
+            </Field>
+          </div>
+
           {/* Error Handling */}
           <Separator />
           <Accordion type="single" collapsible>
@@ -503,51 +466,67 @@ export const NodeConfigPanel: React.FC = () => {
                   <Label htmlFor="continueOnError">Continue on error</Label>
                   <Switch
                     id="continueOnError"
-                    checked={data.errorHandling?.continueOnError}
-                    onCheckedChange={(continueOnError) =>
-                      handleUpdate({
-                        errorHandling: { ...data.errorHandling, continueOnError },
-                      })
-                    }
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="retryCount">Retry Count</Label>
-                  <Input
-                    id="retryCount"
-                    type="number"
-                    min="0"
-                    max="5"
-                    value={data.errorHandling?.retryCount || 0}
-                    onChange={(e) =>
-                      handleUpdate({
-                        errorHandling: {
-                          continueOnError: data.errorHandling?.continueOnError ?? false,
-                          retryCount: parseInt(e.target.value),
-                          retryDelay: data.errorHandling?.retryDelay,
-                        },
-                      })
-                    }
+                    checked={config.continueOnError ?? false}
+                    onCheckedChange={(continueOnError) => update({ continueOnError })}
                   />
                 </div>
-                <div>
-                  <Label htmlFor="retryDelay">Retry Delay (ms)</Label>
+                <Field id="maxAttempts" label="Attempts" issues={issuesFor('retry')} hint="Including the first run; 1 disables retries">
                   <Input
-                    id="retryDelay"
+                    id="maxAttempts"
                     type="number"
-                    min="0"
-                    value={data.errorHandling?.retryDelay || 1000}
-                    onChange={(e) =>
-                      handleUpdate({
-                        errorHandling: {
-                          continueOnError: data.errorHandling?.continueOnError ?? false,
-                          retryCount: data.errorHandling?.retryCount,
-                          retryDelay: parseInt(e.target.value),
-                        },
-                      })
-                    }
+                    min="1"
+                    max="10"
+                    value={config.retry?.maxAttempts ?? 1}
+                    onChange={(e) => {
+                      const maxAttempts = parseOptionalInt(e.target.value) ?? 1;
+                      update({ retry: maxAttempts > 1 ? { ...config.retry, maxAttempts } : undefined });
+                    }}
                   />
-                </div>
+                </Field>
+                {config.retry && (
+                  <>
+                    <div>
+                      <Label htmlFor="backoff">Backoff</Label>
+                      <Select
+                        value={config.retry.backoff ?? 'exponential'}
+                        onValueChange={(backoff) =>
+                          update({ retry: { ...config.retry!, backoff: backoff as 'fixed' | 'exponential' } })
+                        }
+                      >
+                        <SelectTrigger id="backoff">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="exponential">Exponential</SelectItem>
+                          <SelectItem value="fixed">Fixed</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="delayMs">Retry Delay (ms)</Label>
+                      <Input
+                        id="delayMs"
+                        type="number"
+                        min="0"
+                        value={config.retry.delayMs ?? ''}
+                        placeholder="1000"
+                        onChange={(e) => update({ retry: { ...config.retry!, delayMs: parseOptionalInt(e.target.value) } })}
+                      />
+                    </div>
+                  </>
+                )}
+                {MODEL_STEP_TYPES.includes(type) && (
+                  <div>
+                    <Label htmlFor="modelName">Model</Label>
+                    <Input
+                      id="modelName"
+                      value={config.modelName ?? ''}
+                      onChange={(e) => update({ modelName: e.target.value })}
+                      placeholder="Default model"
+                      className="font-mono text-sm"
+                    />
+                  </div>
+                )}
               </AccordionContent>
             </AccordionItem>
           </Accordion>
@@ -15,6 +15,7 @@ import { FileJson, Zap, FolderOpen } from 'lucide-react';
 import { useWorkflowStore } from '@/stores/workflowStore';
 import { toast } from 'sonner';
 import { trpc } from '@/lib/trpc';
+import { dbToWorkflowFormat } from '@/lib/workflowApi';
 import type { Workflow } from '@/types/workflow';
 
 export const TemplateDialog: React.FC = () => {
@@ -33,38 +34,6 @@ export const TemplateDialog: React.FC = () => {
     toast.success(`Loaded template: ${template.name}`);
   };
 
-  // Convert database workflow to Workflow type
-  const convertToWorkflow = (dbWorkflow: any): Workflow => ({
-    name: dbWorkflow.name,
-    description: dbWorkflow.description || '',
-    category: 'custom',
-    version: 1,
-    isTemplate: true,
-    tags: [],
-    nodes: Array.isArray(dbWorkflow.steps)
-      ? dbWorkflow.steps.map((step: any, index: number) => ({
-          id: String(index + 1),
-          type: 'default',
-          position: { x: 250, y: 50 + (index * 130) },
-          data: {
-            type: step.type,
-            label: step.config?.instruction || step.config?.url || `Step ${index + 1}`,
-            ...step.config,
-            enabled: true,
-          },
-        }))
-      : [],
-    edges: Array.isArray(dbWorkflow.steps)
-      ? dbWorkflow.steps.slice(0, -1).map((_: any, index: number) => ({
-          id: `e${index + 1}-${index + 2}`,
-          source: String(index + 1),
-          target: String(index + 2),
-          animated: true,
-        }))
-      : [],
-    variables: {},
-  });
-
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -97,7 +66,7 @@ export const TemplateDialog: React.FC = () => {
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {workflows.map((dbWorkflow) => {
-                const template = convertToWorkflow(dbWorkflow);
+                const template = dbToWorkflowFormat(dbWorkflow);
                 return (
                   <Card
                     key={dbWorkflow.id}
@@ -123,8 +92,7 @@ export const TemplateDialog: React.FC = () => {
                           </div>
                         )}
                         <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                          <span>{template.nodes.length} nodes</span>
-                          <span>{template.edges.length} connections</span>
+                          <span>{template.nodes.length} steps</span>
                         </div>
                       </div>
                     </div>
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { nanoid } from 'nanoid';
 import {
   Dialog,
   DialogContent,
@@ -26,7 +27,12 @@ import {
   ChevronRight,
 } from 'lucide-react';
 import { trpc } from '@/lib/trpc';
-import type { WorkflowNode, WorkflowEdge } from '@/types/workflow';
+import { useWorkflowStore } from '@/stores/workflowStore';
+import { getNodeLabel, graphToSteps } from '@/lib/workflowGraph';
+import type { WorkflowNode, WorkflowEdge, StepResult } from '@/types/workflow';
+
+// How long to wait for the progress stream before running without it
+const STREAM_CONNECT_TIMEOUT_MS = 3000;
 
 interface TestRunDialogProps {
   nodes: WorkflowNode[];
@@ -36,16 +42,6 @@ interface TestRunDialogProps {
   trigger?: React.ReactNode;
 }
 
-interface StepResult {
-  stepIndex: number;
-  type: string;
-  success: boolean;
-  result?: any;
-  error?: string;
-  timestamp: Date;
-  duration?: number;
-}
-
 interface TestRunResult {
   status: 'completed' | 'failed' | 'running';
   stepResults: StepResult[];
@@ -65,15 +61,22 @@ export const TestRunDialog: React.FC<TestRunDialogProps> = ({
   trigger,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [variables, setVariables] = useState<Record<string, string>>({});
+  const { issues, variables, setVariables } = useWorkflowStore();
   const [stepByStep, setStepByStep] = useState(false);
   const [newVarName, setNewVarName] = useState('');
   const [newVarValue, setNewVarValue] = useState('');
   const [testResult, setTestResult] = useState<TestRunResult | null>(null);
   const [expandedSteps, setExpandedSteps] = useState<Set<number>>(new Set());
+  const [runningStep, setRunningStep] = useState<number | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
 
   const testRunMutation = trpc.workflows.testRun.useMutation();
 
+  // Step order as it will run, to label streamed results
+  const { order } = graphToSteps(nodes, edges);
+
+  useEffect(() => () => eventSourceRef.current?.close(), []);
+
   const handleOpen = (open: boolean) => {
     setIsOpen(open);
     onOpenChange?.(open);
@@ -81,7 +84,6 @@ export const TestRunDialog: React.FC<TestRunDialogProps> = ({
     // Reset state when closing
     if (!open) {
       setTestResult(null);
-      setVariables({});
       setStepByStep(false);
     }
   };
@@ -100,36 +102,72 @@ export const TestRunDialog: React.FC<TestRunDialogProps> = ({
     setVariables(newVars);
   };
 
+  /**
+   * Subscribe to the run's progress stream
+   * Resolves once connected, or after a timeout so the run isn't blocked
+   * when streaming is unavailable
+   */
+  const openProgressStream = (runId: string) =>
+    new Promise<void>((resolve) => {
+      const es = new EventSource(`/api/workflows/test-runs/${runId}/stream`, { withCredentials: true });
+      eventSourceRef.current = es;
+
+      const timeout = setTimeout(resolve, STREAM_CONNECT_TIMEOUT_MS);
+      es.addEventListener('connected', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+      es.addEventListener('step:start', (event) => {
+        setRunningStep(JSON.parse((event as MessageEvent).data).stepIndex);
+      });
+      es.addEventListener('step:complete', (event) => {
+        const step: StepResult = JSON.parse((event as MessageEvent).data);
+        setTestResult((current) => ({
+          status: 'running',
+          stepResults: [...(current?.stepResults || []), step],
+        }));
+      });
+      es.onerror = () => {
+        clearTimeout(timeout);
+        es.close();
+        resolve();
+      };
+    });
+
   const handleTestRun = async () => {
-    if (nodes.length === 0) {
+    if (nodes.length === 0 || issues.length > 0) {
       return;
     }
 
-    // Convert ReactFlow nodes to workflow steps format
-    const steps = nodes.map((node, index) => ({
-      type: node.data.type,
-      order: index,
-      config: {
-        ...node.data,
-        continueOnError: node.data.errorHandling?.continueOnError || false,
-      },
-    }));
+    const { steps } = graphToSteps(nodes, edges);
+    const runId = nanoid();
+
+    setTestResult({ status: 'running', stepResults: [] });
+    setRunningStep(null);
+    setExpandedSteps(new Set());
 
     try {
+      await openProgressStream(runId);
+
       const result = await testRunMutation.mutateAsync({
         steps: steps as any,
         variables,
         stepByStep,
+        runId,
       });
 
       setTestResult(result as any);
     } catch (error) {
       console.error('Test run failed:', error);
-      setTestResult({
+      setTestResult((current) => ({
         status: 'failed',
-        stepResults: [],
+        stepResults: current?.stepResults || [],
         error: error instanceof Error ? error.message : 'Unknown error',
-      });
+      }));
+    } finally {
+      eventSourceRef.current?.close();
+      eventSourceRef.current = null;
+      setRunningStep(null);
     }
   };
 
@@ -163,8 +201,9 @@ export const TestRunDialog: React.FC<TestRunDialogProps> = ({
     return `${(ms / 1000).toFixed(2)}s`;
   };
 
-  const isRunning = testRunMutation.isPending;
+  const isRunning = testResult?.status === 'running' || testRunMutation.isPending;
   const hasResults = testResult !== null;
+  const stepLabel = (stepIndex: number) => (order[stepIndex] ? getNodeLabel(order[stepIndex]) : `Step ${stepIndex + 1}`);
 
   return (
     <Dialog open={open ?? isOpen} onOpenChange={handleOpen}>
@@ -173,7 +212,7 @@ export const TestRunDialog: React.FC<TestRunDialogProps> = ({
         <DialogHeader>
           <DialogTitle>Test Run Workflow</DialogTitle>
           <DialogDescription>
-            Test your workflow without saving it. Configure variables and view step-by-step execution results.
+            Test your workflow without saving it. Configure variables and watch each step&apos;s result as it runs.
           </DialogDescription>
         </DialogHeader>
 
@@ -283,7 +322,9 @@ export const TestRunDialog: React.FC<TestRunDialogProps> = ({
                     <Alert>
                       <Loader2 className="h-4 w-4 animate-spin" />
                       <AlertDescription>
-                        Running workflow... This may take a few moments.
+                        {runningStep !== null
+                          ? `Running step ${runningStep + 1} of ${order.length}: ${stepLabel(runningStep)}`
+                          : 'Starting browser session... This may take a few moments.'}
                       </AlertDescription>
                     </Alert>
                   )}
@@ -298,7 +339,7 @@ export const TestRunDialog: React.FC<TestRunDialogProps> = ({
                   {testResult && testResult.stepResults.length > 0 && (
                     <div className="space-y-2">
                       {testResult.stepResults.map((step, index) => (
-                        <div key={index} className="border rounded-lg">
+                        <div key={`${step.stepIndex}-${index}`} className="border rounded-lg">
                           <button
                             onClick={() => toggleStepExpanded(step.stepIndex)}
                             className="w-full p-3 flex items-center gap-3 hover:bg-muted/50 transition-colors"
@@ -312,7 +353,10 @@ export const TestRunDialog: React.FC<TestRunDialogProps> = ({
                             <div className="flex-1 text-left">
                               <div className="flex items-center gap-2">
                                 <span className="font-medium">Step {step.stepIndex + 1}</span>
-                                <Badge variant="outline" className="text-xs">{step.type}</Badge>
+                                <Badge variant="outline" className="text-xs">{stepLabel(step.stepIndex)}</Badge>
+                                {step.attempts && step.attempts > 1 && (
+                                  <span className="text-xs text-muted-foreground">{step.attempts} attempts</span>
+                                )}
                               </div>
                             </div>
                             <div className="flex items-center gap-2">
@@ -386,13 +430,15 @@ export const TestRunDialog: React.FC<TestRunDialogProps> = ({
 
         <div className="flex justify-between items-center">
           <div className="text-sm text-muted-foreground">
-            {nodes.length} node{nodes.length !== 1 ? 's' : ''} in workflow
+            {issues.length > 0
+              ? `Fix ${issues.length} problem${issues.length !== 1 ? 's' : ''} before running`
+              : `${nodes.length} step${nodes.length !== 1 ? 's' : ''} in workflow`}
           </div>
           <div className="flex gap-2">
             <Button variant="outline" onClick={() => handleOpen(false)} disabled={isRunning}>
               Close
             </Button>
-            <Button onClick={handleTestRun} disabled={isRunning || nodes.length === 0}>
+            <Button onClick={handleTestRun} disabled={isRunning || nodes.length === 0 || issues.length > 0}>
               {isRunning ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
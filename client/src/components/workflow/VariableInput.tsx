@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+
+// An unclosed placeholder right before the cursor, e.g. "Hello {{lea"
+const OPEN_PLACEHOLDER = /\{\{\s*([\w.]*)$/;
+
+interface VariableInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  variables: string[];
+  placeholder?: string;
+  multiline?: boolean;
+  rows?: number;
+  className?: string;
+  invalid?: boolean;
+}
+
+/**
+ * Text input that suggests {{variables}} as you type `{{`
+ */
+export const VariableInput: React.FC<VariableInputProps> = ({
+  id,
+  value,
+  onChange,
+  variables,
+  placeholder,
+  multiline = false,
+  rows = 3,
+  className,
+  invalid = false,
+}) => {
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = query === null
+    ? []
+    : variables.filter((name) => name.toLowerCase().startsWith(query.toLowerCase()));
+
+  const updateQuery = (text: string, cursor: number) => {
+    const match = OPEN_PLACEHOLDER.exec(text.slice(0, cursor));
+    setQuery(match ? match[1] : null);
+    setActiveIndex(0);
+  };
+
+  const insertVariable = (name: string) => {
+    const element = inputRef.current;
+    const cursor = element?.selectionStart ?? value.length;
+    const before = value.slice(0, cursor).replace(OPEN_PLACEHOLDER, `{{${name}}}`);
+    const after = value.slice(cursor).replace(/^[\w.]*\s*\}\}/, '');
+
+    onChange(before + after);
+    setQuery(null);
+
+    requestAnimationFrame(() => {
+      element?.focus();
+      element?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    updateQuery(e.target.value, e.target.selectionStart ?? e.target.value.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertVariable(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setQuery(null);
+    }
+  };
+
+  const sharedProps = {
+    id,
+    ref: inputRef,
+    value,
+    placeholder,
+    onChange: handleChange,
+    onKeyDown: handleKeyDown,
+    onBlur: () => setQuery(null),
+    'aria-invalid': invalid || undefined,
+    className: cn('font-mono text-sm', invalid && 'border-destructive', className),
+  };
+
+  return (
+    <div className="relative">
+      {multiline ? <Textarea rows={rows} {...sharedProps} /> : <Input {...sharedProps} />}
+
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-50 mt-1 max-h-40 w-full overflow-y-auto rounded-md border bg-popover p-1 shadow-md"
+        >
+          {suggestions.map((name, index) => (
+            <li
+              key={name}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown keeps focus in the input so the cursor position survives
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertVariable(name);
+              }}
+              className={cn(
+                'cursor-pointer rounded px-2 py-1 font-mono text-xs',
+                index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+              )}
+            >
+              {`{{${name}}}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
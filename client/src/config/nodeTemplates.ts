@@ -5,62 +5,36 @@ export const NODE_TEMPLATES: NodeTemplate[] = [
   {
     type: 'navigate',
     label: 'Navigate',
-    description: 'Navigate to a URL',
+    description: 'Open a URL in the browser',
     icon: 'Compass',
     category: 'navigation',
     defaultData: {
       type: 'navigate',
-      label: 'Navigate',
-      url: '',
-      waitForLoad: true,
-      timeout: 30000,
-      enabled: true,
-    },
-  },
-  {
-    type: 'scroll',
-    label: 'Scroll',
-    description: 'Scroll the page or to an element',
-    icon: 'ArrowDown',
-    category: 'navigation',
-    defaultData: {
-      type: 'scroll',
-      label: 'Scroll',
-      scrollType: 'bottom',
-      enabled: true,
+      config: { url: '' },
     },
   },
 
   // Interaction nodes
   {
-    type: 'click',
-    label: 'Click',
-    description: 'Click on an element',
+    type: 'act',
+    label: 'Act',
+    description: 'Perform an action described in plain language',
     icon: 'MousePointer2',
     category: 'interaction',
     defaultData: {
-      type: 'click',
-      label: 'Click',
-      selector: '',
-      clickCount: 1,
-      waitForNavigation: false,
-      enabled: true,
+      type: 'act',
+      config: { instruction: '' },
     },
   },
   {
-    type: 'input',
-    label: 'Input',
-    description: 'Fill in form fields',
-    icon: 'Keyboard',
+    type: 'observe',
+    label: 'Observe',
+    description: 'Find the actions available on the page',
+    icon: 'Eye',
     category: 'interaction',
     defaultData: {
-      type: 'input',
-      label: 'Input',
-      selector: '',
-      inputType: 'text',
-      value: '',
-      clearFirst: true,
-      enabled: true,
+      type: 'observe',
+      config: { observeInstruction: '' },
     },
   },
 
@@ -68,45 +42,23 @@ export const NODE_TEMPLATES: NodeTemplate[] = [
   {
     type: 'extract',
     label: 'Extract',
-    description: 'Extract data from the page',
+    description: 'Extract structured data from the page',
     icon: 'Database',
     category: 'data',
     defaultData: {
       type: 'extract',
-      label: 'Extract',
-      selector: '',
-      extractType: 'text',
-      variableName: 'extractedData',
-      multiple: false,
-      enabled: true,
+      config: { extractInstruction: '', schemaType: 'custom' },
     },
   },
   {
-    type: 'screenshot',
-    label: 'Screenshot',
-    description: 'Capture screenshot',
-    icon: 'Camera',
-    category: 'data',
-    defaultData: {
-      type: 'screenshot',
-      label: 'Screenshot',
-      fullPage: false,
-      enabled: true,
-    },
-  },
-  {
-    type: 'api_call',
+    type: 'apiCall',
     label: 'API Call',
-    description: 'Make HTTP request',
+    description: 'Call an HTTP API',
     icon: 'Webhook',
     category: 'data',
     defaultData: {
-      type: 'api_call',
-      label: 'API Call',
-      url: '',
-      method: 'GET',
-      variableName: 'apiResponse',
-      enabled: true,
+      type: 'apiCall',
+      config: { url: '', method: 'GET', saveAs: 'apiResponse' },
     },
   },
 
@@ -114,78 +66,47 @@ export const NODE_TEMPLATES: NodeTemplate[] = [
   {
     type: 'wait',
     label: 'Wait',
-    description: 'Wait for element or time',
+    description: 'Wait for a duration or an element',
     icon: 'Clock',
     category: 'control',
     defaultData: {
       type: 'wait',
-      label: 'Wait',
-      waitCondition: 'time',
-      duration: 1000,
-      timeout: 30000,
-      enabled: true,
+      config: { waitMs: 1000 },
     },
   },
   {
     type: 'condition',
     label: 'Condition',
-    description: 'If/then/else logic',
+    description: 'Branch on an expression',
     icon: 'GitBranch',
     category: 'control',
     defaultData: {
       type: 'condition',
-      label: 'Condition',
-      variable: '',
-      operator: 'equals',
-      value: '',
-      enabled: true,
+      config: { condition: '' },
     },
   },
   {
     type: 'loop',
     label: 'Loop',
-    description: 'Repeat actions',
+    description: 'Run steps for each item in a list',
     icon: 'Repeat',
     category: 'control',
     defaultData: {
       type: 'loop',
-      label: 'Loop',
-      loopType: 'count',
-      iterations: 1,
-      maxIterations: 100,
-      enabled: true,
+      config: { items: '', itemVariable: 'item' },
     },
   },
 
   // Utility nodes
   {
-    type: 'variable',
-    label: 'Variable',
-    description: 'Set a variable value',
-    icon: 'Variable',
-    category: 'utility',
-    defaultData: {
-      type: 'variable',
-      label: 'Variable',
-      variableName: '',
-      value: '',
-      valueType: 'string',
-      enabled: true,
-    },
-  },
-  {
-    type: 'transform',
-    label: 'Transform',
-    description: 'Transform data',
-    icon: 'Wand2',
+    type: 'notification',
+    label: 'Notification',
+    description: 'Log a notification message',
+    icon: 'Bell',
     category: 'utility',
     defaultData: {
-      type: 'transform',
-      label: 'Transform',
-      inputVariable: '',
-      outputVariable: '',
-      transformType: 'map',
-      enabled: true,
+      type: 'notification',
+      config: { message: '', notificationType: 'info' },
     },
   },
 ];
@@ -196,6 +196,7 @@ export function useAgentSSE(options: UseAgentSSEOptions = {}) {
       case 'phase:complete':
       case 'execution:complete':
       case 'execution:error':
+      case 'input:required':
         // Handle all these events through the store's central handler
         handleSSEEvent({
           type: message.type,
@@ -0,0 +1,125 @@
+/**
+ * Workflow Graph Tests
+ *
+ * Unit tests for converting between the builder graph and the server step
+ * list, validation against the step schema, and variable suggestions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { WorkflowStepInput } from '@shared/workflowSteps';
+import {
+  createEdge,
+  getAvailableVariables,
+  graphToSteps,
+  stepsToGraph,
+  validateWorkflowNodes,
+} from '../workflowGraph';
+import type { WorkflowNode } from '@/types/workflow';
+
+const node = (id: string, type: WorkflowNode['data']['type'], config: Record<string, unknown>, y: number): WorkflowNode => ({
+  id,
+  type: 'default',
+  position: { x: 250, y },
+  data: { type, config },
+});
+
+const steps: WorkflowStepInput[] = [
+  { type: 'navigate', order: 0, config: { url: 'https://example.com/leads' } },
+  { type: 'extract', order: 1, config: { extractInstruction: 'Get the leads', saveAs: 'leads' } },
+  { type: 'condition', order: 2, config: { condition: '{{leads.length}} > 0', elseGoto: 'done' } },
+  { type: 'apiCall', order: 3, config: { url: 'https://crm.example.com/import', method: 'POST', body: { leads: '{{leads}}' } } },
+  { id: 'done', type: 'notification', order: 4, config: { message: 'Finished', notificationType: 'success' } },
+];
+
+describe('workflowGraph', () => {
+  describe('round trip', () => {
+    it('should convert a step list to a graph and back unchanged', () => {
+      const { nodes, edges } = stepsToGraph(steps);
+
+      expect(nodes).toHaveLength(5);
+      expect(edges).toContainEqual(expect.objectContaining({ source: 'step-3', target: 'done', sourceHandle: 'else' }));
+      expect(edges).toContainEqual(expect.objectContaining({ source: 'step-3', target: 'step-4', sourceHandle: 'then' }));
+      expect(graphToSteps(nodes, edges)).toMatchObject({ steps, issues: [] });
+    });
+
+    it('should order steps by their connections before their position', () => {
+      const nodes = [
+        node('b', 'act', { instruction: 'Click search' }, 0),
+        node('a', 'navigate', { url: 'https://example.com' }, 100),
+      ];
+
+      const result = graphToSteps(nodes, [createEdge('a', 'b', 'next')]);
+
+      expect(result.steps.map((step) => step.type)).toEqual(['navigate', 'act']);
+      expect(result.steps.map((step) => step.order)).toEqual([0, 1]);
+    });
+
+    it('should give jump targets a step id', () => {
+      const nodes = [
+        node('check', 'condition', { condition: '{{ok}}' }, 0),
+        node('retry', 'act', { instruction: 'Retry' }, 100),
+        node('end', 'notification', { message: 'Done' }, 200),
+      ];
+      const edges = [
+        createEdge('check', 'retry', 'then'),
+        createEdge('check', 'end', 'else'),
+        createEdge('retry', 'end', 'next'),
+      ];
+
+      const { steps: result } = graphToSteps(nodes, edges);
+
+      expect(result[0].config).toEqual({ condition: '{{ok}}', elseGoto: 'end' });
+      expect(result[2].id).toBe('end');
+      expect(result[1].id).toBeUndefined();
+    });
+  });
+
+  describe('validation', () => {
+    it('should report missing required fields on the field', () => {
+      const { nodes, edges } = stepsToGraph([{ type: 'navigate', order: 0, config: {} }]);
+
+      expect(validateWorkflowNodes(nodes, edges)).toEqual([{ nodeId: 'step-1', field: 'url', message: 'Required' }]);
+    });
+
+    it('should report config values the schema rejects', () => {
+      const { nodes, edges } = stepsToGraph([{ type: 'wait', order: 0, config: { waitMs: 120000 } }]);
+
+      expect(validateWorkflowNodes(nodes, edges)).toEqual([
+        expect.objectContaining({ nodeId: 'step-1', field: 'waitMs' }),
+      ]);
+    });
+
+    it('should reject jumps from steps that always continue in order', () => {
+      const nodes = [
+        node('a', 'navigate', { url: 'https://example.com' }, 0),
+        node('b', 'act', { instruction: 'Click' }, 100),
+        node('c', 'notification', { message: 'Done' }, 200),
+      ];
+      const edges = [createEdge('a', 'c', 'next'), createEdge('b', 'c', 'next')];
+
+      const issues = validateWorkflowNodes(nodes, edges);
+
+      expect(issues).toContainEqual(expect.objectContaining({ nodeId: 'a', message: expect.stringContaining('only condition steps can jump') }));
+    });
+
+    it('should report cycles', () => {
+      const nodes = [
+        node('a', 'act', { instruction: 'One' }, 0),
+        node('b', 'act', { instruction: 'Two' }, 100),
+      ];
+
+      const issues = validateWorkflowNodes(nodes, [createEdge('a', 'b', 'next'), createEdge('b', 'a', 'next')]);
+
+      expect(issues.filter((issue) => issue.message.includes('connect forward'))).toHaveLength(2);
+    });
+  });
+
+  describe('getAvailableVariables', () => {
+    it('should offer inputs and the outputs of earlier steps only', () => {
+      const { nodes, edges } = stepsToGraph(steps);
+
+      expect(getAvailableVariables(nodes, edges, 'step-4', { campaign: 'spring' })).toEqual(['campaign', 'leads']);
+      expect(getAvailableVariables(nodes, edges, 'step-2')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Workflow graph <-> step list conversion
+ *
+ * The builder edits a workflow as a graph; the server stores and runs an
+ * ordered step list (see shared/workflowSteps). Steps run in order, except
+ * that condition steps can jump forward with thenGoto/elseGoto:
+ * - step order is the topological order of the graph, ties broken by
+ *   position (top to bottom, then left to right)
+ * - a condition's then/else edge becomes a jump unless it points at the
+ *   step that runs next anyway
+ * - other steps always continue to the next step, so their `next` edge
+ *   must point at it
+ */
+
+import {
+  REQUIRED_STEP_FIELDS,
+  workflowStepListSchema,
+  workflowStepSchema,
+  type WorkflowStepInput,
+} from '@shared/workflowSteps';
+import { getNodeTemplate } from '@/config/nodeTemplates';
+import type {
+  WorkflowEdge,
+  WorkflowEdgeHandle,
+  WorkflowIssue,
+  WorkflowNode,
+  WorkflowStepConfig,
+} from '@/types/workflow';
+
+const NODE_X = 250;
+const NODE_Y_START = 50;
+const NODE_Y_GAP = 150;
+
+export const getEdgeHandle = (edge: Pick<WorkflowEdge, 'sourceHandle'>): WorkflowEdgeHandle =>
+  edge.sourceHandle === 'then' || edge.sourceHandle === 'else' ? edge.sourceHandle : 'next';
+
+export const createEdge = (source: string, target: string, handle: WorkflowEdgeHandle): WorkflowEdge => ({
+  id: `${source}-${handle}-${target}`,
+  source,
+  target,
+  sourceHandle: handle,
+  ...(handle !== 'next' && { label: handle === 'then' ? 'passes' : 'fails' }),
+});
+
+/**
+ * Short label for a node in messages and results
+ */
+export function getNodeLabel(node: WorkflowNode): string {
+  const label = getNodeTemplate(node.data.type)?.label || node.data.type;
+  return node.data.stepId ? `${label} "${node.data.stepId}"` : label;
+}
+
+// ========================================
+// STEPS -> GRAPH
+// ========================================
+
+/**
+ * Lay out a saved step list as a top-to-bottom graph
+ */
+export function stepsToGraph(steps: WorkflowStepInput[]): { nodes: WorkflowNode[]; edges: WorkflowEdge[] } {
+  const sorted = [...steps].sort((a, b) => a.order - b.order);
+  const nodeIds = sorted.map((step, index) => step.id || `step-${index + 1}`);
+
+  const nodes: WorkflowNode[] = sorted.map((step, index) => {
+    const { thenGoto: _thenGoto, elseGoto: _elseGoto, type: _type, ...config } = step.config;
+    return {
+      id: nodeIds[index],
+      type: 'default',
+      position: { x: NODE_X, y: NODE_Y_START + index * NODE_Y_GAP },
+      data: {
+        type: step.type,
+        ...(step.id && { stepId: step.id }),
+        config,
+      },
+    };
+  });
+
+  const edges: WorkflowEdge[] = [];
+  sorted.forEach((step, index) => {
+    const nextId = nodeIds[index + 1];
+
+    if (step.type !== 'condition') {
+      if (nextId) edges.push(createEdge(nodeIds[index], nextId, 'next'));
+      return;
+    }
+
+    for (const handle of ['then', 'else'] as const) {
+      const goto = handle === 'then' ? step.config.thenGoto : step.config.elseGoto;
+      const target = goto ? nodeIds[sorted.findIndex((candidate) => candidate.id === goto)] : nextId;
+      if (target) edges.push(createEdge(nodeIds[index], target, handle));
+    }
+  });
+
+  return { nodes, edges };
+}
+
+// ========================================
+// GRAPH -> STEPS
+// ========================================
+
+/**
+ * Order nodes the way their steps will run
+ * Nodes caught in a cycle are appended by position and reported
+ */
+export function orderWorkflowNodes(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): { order: WorkflowNode[]; cyclic: WorkflowNode[] } {
+  const byPosition = (a: WorkflowNode, b: WorkflowNode) =>
+    a.position.y - b.position.y || a.position.x - b.position.x;
+
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const graphEdges = edges.filter(
+    (edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target) && edge.source !== edge.target
+  );
+
+  const inDegree = new Map(nodes.map((node) => [node.id, 0]));
+  for (const edge of graphEdges) {
+    inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1);
+  }
+
+  const order: WorkflowNode[] = [];
+  let ready = nodes.filter((node) => inDegree.get(node.id) === 0);
+
+  while (ready.length > 0) {
+    ready.sort(byPosition);
+    const node = ready.shift()!;
+    order.push(node);
+
+    for (const edge of graphEdges) {
+      if (edge.source !== node.id) continue;
+      const remaining = (inDegree.get(edge.target) || 0) - 1;
+      inDegree.set(edge.target, remaining);
+      if (remaining === 0) {
+        ready.push(nodes.find((candidate) => candidate.id === edge.target)!);
+      }
+    }
+  }
+
+  const ordered = new Set(order.map((node) => node.id));
+  const cyclic = nodes.filter((node) => !ordered.has(node.id)).sort(byPosition);
+
+  return { order: [...order, ...cyclic], cyclic };
+}
+
+/**
+ * Convert the graph to the step list the server accepts
+ * Returns the steps in run order alongside the nodes they came from, and
+ * any connection the step list can't express
+ */
+export function graphToSteps(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): { steps: WorkflowStepInput[]; order: WorkflowNode[]; issues: WorkflowIssue[] } {
+  const issues: WorkflowIssue[] = [];
+  const { order, cyclic } = orderWorkflowNodes(nodes, edges);
+
+  for (const node of cyclic) {
+    issues.push({ nodeId: node.id, message: 'Steps can only connect forward; use a loop step to repeat steps' });
+  }
+
+  const outgoing = (nodeId: string, handle: WorkflowEdgeHandle) =>
+    edges.filter((edge) => edge.source === nodeId && getEdgeHandle(edge) === handle);
+
+  // Jump targets need a step id
+  const jumpTargets = new Set<string>();
+  order.forEach((node, index) => {
+    if (node.data.type !== 'condition') return;
+    for (const edge of [...outgoing(node.id, 'then'), ...outgoing(node.id, 'else')]) {
+      if (edge.target !== order[index + 1]?.id) jumpTargets.add(edge.target);
+    }
+  });
+
+  const stepIds = new Map(
+    order.map((node) => [node.id, node.data.stepId || (jumpTargets.has(node.id) ? node.id : undefined)])
+  );
+
+  const steps = order.map((node, index): WorkflowStepInput => {
+    const next = order[index + 1];
+    const { thenGoto: _thenGoto, elseGoto: _elseGoto, type: _type, ...config } = node.data.config;
+    const stepConfig: WorkflowStepConfig = { ...config };
+
+    if (node.data.type === 'condition') {
+      for (const handle of ['then', 'else'] as const) {
+        const branchEdges = outgoing(node.id, handle);
+        if (branchEdges.length > 1) {
+          issues.push({ nodeId: node.id, message: `Connect the "${handle === 'then' ? 'passes' : 'fails'}" output to one step` });
+        }
+        const target = branchEdges[0]?.target;
+        if (target && target !== next?.id) {
+          stepConfig[handle === 'then' ? 'thenGoto' : 'elseGoto'] = stepIds.get(target);
+        }
+      }
+    } else {
+      const nextEdges = outgoing(node.id, 'next');
+      if (nextEdges.length > 1) {
+        issues.push({ nodeId: node.id, message: 'Only condition steps can branch; connect one next step' });
+      } else if (nextEdges.length === 1 && nextEdges[0].target !== next?.id && !cyclic.includes(node)) {
+        issues.push({
+          nodeId: node.id,
+          message: `This step always continues to ${next ? getNodeLabel(next) : 'the end'}; only condition steps can jump`,
+        });
+      }
+    }
+
+    if (nodes.length > 1 && !edges.some((edge) => edge.source === node.id || edge.target === node.id)) {
+      issues.push({ nodeId: node.id, message: 'Connect this step to the workflow' });
+    }
+
+    const stepId = stepIds.get(node.id);
+    return {
+      ...(stepId && { id: stepId }),
+      type: node.data.type,
+      order: index,
+      config: stepConfig,
+    };
+  });
+
+  return { steps, order, issues };
+}
+
+// ========================================
+// VALIDATION
+// ========================================
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Validate the graph against the server step schema
+ * Covers the shape of each step, the fields each step type needs, and the
+ * workflow-wide checks the router runs (jump targets, reachability, size)
+ */
+export function validateWorkflowNodes(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowIssue[] {
+  if (nodes.length === 0) {
+    return [];
+  }
+
+  const { steps, order, issues } = graphToSteps(nodes, edges);
+
+  steps.forEach((step, index) => {
+    const nodeId = order[index].id;
+
+    const parsed = workflowStepSchema.safeParse(step);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const [, field, ...rest] = issue.path.map(String);
+        issues.push({
+          nodeId,
+          field,
+          message: rest.length > 0 ? `${rest.join('.')}: ${issue.message}` : issue.message,
+        });
+      }
+    }
+
+    for (const field of REQUIRED_STEP_FIELDS[step.type]) {
+      if (isBlank(step.config[field])) {
+        issues.push({ nodeId, field, message: 'Required' });
+      }
+    }
+  });
+
+  const list = workflowStepListSchema.safeParse(steps);
+  if (!list.success) {
+    for (const issue of list.error.issues) {
+      if (issue.path.length === 0) issues.push({ message: issue.message });
+    }
+  }
+
+  return issues;
+}
+
+// ========================================
+// VARIABLES
+// ========================================
+
+/**
+ * Variables a step can reference: test run inputs plus the `saveAs`
+ * outputs of the steps that run before it
+ */
+export function getAvailableVariables(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  nodeId: string,
+  inputVariables: Record<string, unknown> = {}
+): string[] {
+  const { order } = orderWorkflowNodes(nodes, edges);
+  const index = order.findIndex((node) => node.id === nodeId);
+  const variables = new Set(Object.keys(inputVariables));
+
+  for (const node of order.slice(0, Math.max(index, 0))) {
+    const saveAs = node.data.config.saveAs?.trim();
+    if (saveAs) variables.add(saveAs);
+  }
+
+  return [...variables].sort();
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -39,11 +39,27 @@ export default function CreditPurchase() {
 
   const purchaseMutation = purchaseCredits;
 
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('checkout') === 'success') {
+      toast.success('Payment received. Your credits will appear shortly.');
+      setLocation('/credits', { replace: true });
+    }
+  }, [setLocation]);
+
   const handlePurchase = async (packageId: string) => {
     try {
       setSelectedPackageId(packageId);
-      await purchaseMutation.mutateAsync({ packageId: parseInt(packageId, 10) });
-      toast.success('Credits purchased successfully!');
+      const result = await purchaseMutation.mutateAsync({
+        packageId: parseInt(packageId, 10),
+        successUrl: `${window.location.origin}/credits?checkout=success`,
+        cancelUrl: `${window.location.origin}/credits`,
+      });
+      // Credits are added by the payment webhook once Stripe confirms the payment
+      if (result.checkoutUrl) {
+        window.location.href = result.checkoutUrl;
+        return;
+      }
+      toast.success('Payment submitted. Credits will appear once it is confirmed.');
       setSelectedPackageId(null);
     } catch (error) {
       toast.error('Failed to purchase credits');
@@ -13,6 +13,7 @@ import {
 import { Breadcrumb } from '@/components/ui/breadcrumb';
 import { LeadTable } from '@/components/leads/LeadTable';
 import { EnrichmentProgress } from '@/components/leads/EnrichmentProgress';
+import { LeadExportDialog } from '@/components/leads/LeadExportDialog';
 import { useLeadEnrichment } from '@/hooks/useLeadEnrichment';
 import {
   ArrowLeft,
@@ -34,8 +35,9 @@ export default function LeadDetails() {
   const [, setLocation] = useLocation();
   const [selectedLead, setSelectedLead] = useState<any>(null);
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
 
-  const { getList, getLeads, exportLeads, enrichLead } =
+  const { getList, getLeads, enrichLead } =
     useLeadEnrichment();
 
   const { data: leadList, isLoading } = getList({ listId: Number(id!) });
@@ -77,62 +79,6 @@ export default function LeadDetails() {
     creditsUsed: leadList.costInCredits || 0,
   };
 
-  const handleExport = async (format: 'csv' | 'json' = 'csv') => {
-    try {
-      // exportLeads is a query - we need to fetch the data
-      const result = await exportLeads({ listId: Number(id!) });
-
-      if (result.data) {
-        const exportData = result.data;
-        let blob: Blob;
-        let filename: string;
-
-        if (format === 'csv') {
-          // Convert to CSV
-          const leads = exportData.leads;
-          if (leads.length === 0) {
-            toast.error('No enriched leads to export');
-            return;
-          }
-
-          // Create CSV headers and rows
-          const headers = ['ID', 'Raw Data', 'Enriched Data', 'Enriched At'];
-          const rows = leads.map((lead: any) => [
-            lead.id,
-            JSON.stringify(lead.rawData),
-            JSON.stringify(lead.enrichedData),
-            lead.enrichedAt,
-          ]);
-
-          const csvContent = [
-            headers.join(','),
-            ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')),
-          ].join('\n');
-
-          blob = new Blob([csvContent], { type: 'text/csv' });
-          filename = `${exportData.list.name}-leads.csv`;
-        } else {
-          // Export as JSON
-          blob = new Blob([JSON.stringify(exportData, null, 2)], {
-            type: 'application/json',
-          });
-          filename = `${exportData.list.name}-leads.json`;
-        }
-
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        a.click();
-        window.URL.revokeObjectURL(url);
-
-        toast.success('Leads exported successfully');
-      }
-    } catch (error) {
-      toast.error('Failed to export leads');
-    }
-  };
-
   const handleLeadAction = async (action: string, lead: any) => {
     switch (action) {
       case 'view':
@@ -233,14 +179,10 @@ export default function LeadDetails() {
               <Phone className="h-4 w-4 mr-2" />
               Create Campaign
             </Button>
-            <Button variant="outline" onClick={() => handleExport('csv')}>
+            <Button variant="outline" onClick={() => setExportDialogOpen(true)}>
               <Download className="h-4 w-4 mr-2" />
               Export
             </Button>
-            <Button variant="outline" onClick={() => handleExport('json')}>
-              <Download className="h-4 w-4 mr-2" />
-              Export JSON
-            </Button>
           </div>
         </div>
       </header>
@@ -503,6 +445,12 @@ export default function LeadDetails() {
           )}
         </DialogContent>
       </Dialog>
+
+      <LeadExportDialog
+        listId={Number(id!)}
+        open={exportDialogOpen}
+        onOpenChange={setExportDialogOpen}
+      />
     </div>
   );
 }
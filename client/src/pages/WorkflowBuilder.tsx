@@ -32,9 +32,9 @@ import {
   Plus,
   Undo2,
   Redo2,
-  Trash2,
   FileJson,
   Zap,
+  AlertCircle,
 } from 'lucide-react';
 import { useWorkflowStore } from '@/stores/workflowStore';
 import { CustomNode } from '@/components/workflow/CustomNode';
@@ -70,8 +70,10 @@ const WorkflowCanvas: React.FC = () => {
     redo,
     canUndo,
     canRedo,
-    clearWorkflow,
+    createWorkflow,
+    loadWorkflow,
     workflow,
+    issues,
     isDirty,
     isSaving,
   } = useWorkflowStore();
@@ -79,6 +81,8 @@ const WorkflowCanvas: React.FC = () => {
   const [newWorkflowName, setNewWorkflowName] = React.useState('');
   const [newWorkflowDescription, setNewWorkflowDescription] = React.useState('');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = React.useState(false);
+  // Saving an unnamed workflow asks for a name and keeps the current steps
+  const [isNamingForSave, setIsNamingForSave] = React.useState(false);
   const [isTestRunDialogOpen, setIsTestRunDialogOpen] = React.useState(false);
 
   // Handle node selection
@@ -134,14 +138,20 @@ const WorkflowCanvas: React.FC = () => {
 
   // Save workflow
   const handleSave = useCallback(async () => {
+    if (!workflow) {
+      setIsNamingForSave(true);
+      setIsCreateDialogOpen(true);
+      return;
+    }
+
     try {
       await saveWorkflow();
       toast.success('Workflow saved successfully');
     } catch (error) {
-      toast.error('Failed to save workflow');
+      toast.error(error instanceof Error ? error.message : 'Failed to save workflow');
       console.error(error);
     }
-  }, [saveWorkflow]);
+  }, [saveWorkflow, workflow]);
 
   // Export workflow
   const handleExport = useCallback(() => {
@@ -172,7 +182,7 @@ const WorkflowCanvas: React.FC = () => {
           importWorkflow(json);
           toast.success('Workflow imported');
         } catch (error) {
-          toast.error('Failed to import workflow');
+          toast.error(error instanceof Error ? error.message : 'Failed to import workflow');
           console.error(error);
         }
       };
@@ -237,6 +247,12 @@ const WorkflowCanvas: React.FC = () => {
                 {workflow?.name || 'Workflow Builder'}
               </h1>
               {isDirty && <span className="text-xs text-muted-foreground">• Unsaved changes</span>}
+              {issues.length > 0 && (
+                <span className="flex items-center gap-1 text-xs text-destructive">
+                  <AlertCircle className="h-3 w-3" />
+                  {issues.length} problem{issues.length !== 1 ? 's' : ''}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -265,7 +281,13 @@ const WorkflowCanvas: React.FC = () => {
           <Separator orientation="vertical" className="h-6" />
 
           {/* New Workflow */}
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <Dialog
+            open={isCreateDialogOpen}
+            onOpenChange={(open) => {
+              setIsCreateDialogOpen(open);
+              if (!open) setIsNamingForSave(false);
+            }}
+          >
             <DialogTrigger asChild>
               <Button size="sm" variant="outline">
                 <Plus className="h-4 w-4 mr-2" />
@@ -274,9 +296,9 @@ const WorkflowCanvas: React.FC = () => {
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Create New Workflow</DialogTitle>
+                <DialogTitle>{isNamingForSave ? 'Save Workflow' : 'Create New Workflow'}</DialogTitle>
                 <DialogDescription>
-                  Start building a new automation workflow
+                  {isNamingForSave ? 'Name this workflow to save it' : 'Start building a new automation workflow'}
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 py-4">
@@ -308,14 +330,28 @@ const WorkflowCanvas: React.FC = () => {
                 </Button>
                 <Button
                   onClick={() => {
-                    if (newWorkflowName.trim()) {
-                      clearWorkflow();
-                      setIsCreateDialogOpen(false);
-                      toast.success('New workflow created');
+                    if (!newWorkflowName.trim()) return;
+
+                    const name = newWorkflowName.trim();
+                    const description = newWorkflowDescription.trim() || undefined;
+                    setNewWorkflowName('');
+                    setNewWorkflowDescription('');
+                    setIsCreateDialogOpen(false);
+
+                    if (isNamingForSave) {
+                      setIsNamingForSave(false);
+                      loadWorkflow({ name, description, nodes, edges, version: 1 });
+                      saveWorkflow()
+                        .then(() => toast.success('Workflow saved successfully'))
+                        .catch((error) => toast.error(error instanceof Error ? error.message : 'Failed to save workflow'));
+                      return;
                     }
+
+                    createWorkflow(name, description);
+                    toast.success('New workflow created');
                   }}
                 >
-                  Create
+                  {isNamingForSave ? 'Save' : 'Create'}
                 </Button>
               </div>
             </DialogContent>
@@ -353,7 +389,7 @@ const WorkflowCanvas: React.FC = () => {
           />
 
           {/* Save */}
-          <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving} data-tour="workflow-save">
+          <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving || issues.length > 0} data-tour="workflow-save">
             <Save className="h-4 w-4 mr-2" />
             {isSaving ? 'Saving...' : 'Save'}
           </Button>
@@ -412,8 +448,8 @@ const WorkflowCanvas: React.FC = () => {
                 <FileJson className="h-12 w-12 text-muted-foreground mx-auto" />
                 <h3 className="text-lg font-semibold">Start Building</h3>
                 <p className="text-sm text-muted-foreground max-w-sm">
-                  Drag nodes from the palette or click on them to add to the canvas.
-                  Connect nodes to create your automation workflow.
+                  Drag steps from the palette or click on them to add to the canvas.
+                  Connect them top to bottom in the order they should run.
                 </p>
               </div>
             </div>
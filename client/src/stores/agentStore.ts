@@ -36,6 +36,7 @@ export interface CurrentExecution {
   iterations: number;
   duration?: number;
   taskDescription?: string;
+  pendingQuestion?: string;
 }
 
 export interface LogEntry {
@@ -354,14 +355,23 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     try {
       const { trpcClient } = await import('@/lib/trpc');
 
+      set({
+        isExecuting: true,
+        currentExecution: {
+          ...currentExecution,
+          status: 'executing',
+          pendingQuestion: undefined,
+        },
+      });
+
       await trpcClient.agent.respondToAgent.mutate({
         executionId: currentExecution.id,
         response,
       });
-
-      set({ isExecuting: true });
     } catch (error) {
       console.error('Failed to respond to agent:', error);
+      // Restore the waiting state so the user can answer again
+      set({ isExecuting: false, currentExecution });
       throw error;
     }
   },
@@ -619,6 +629,24 @@ export const useAgentStore = create<AgentState>((set, get) => ({
         });
         break;
 
+      case 'input:required':
+        set({
+          isExecuting: false,
+          currentExecution: state.currentExecution ? {
+            ...state.currentExecution,
+            status: 'needs_input',
+            pendingQuestion: data.question as string,
+          } : null,
+        });
+        get().addLog({
+          id: `log-${Date.now()}`,
+          timestamp: new Date().toISOString(),
+          level: 'warning',
+          message: 'Agent needs your input',
+          detail: data.question as string,
+        });
+        break;
+
       case 'reasoning':
         set((state) => ({
           reasoningSteps: [...state.reasoningSteps, data as unknown as ReasoningStep],
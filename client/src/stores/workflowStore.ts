@@ -17,9 +17,19 @@ import type {
   Workflow,
   WorkflowNode,
   WorkflowEdge,
+  WorkflowIssue,
   WorkflowNodeData,
   WorkflowNodeType,
+  WorkflowStepConfig,
 } from '@/types/workflow';
+import { getNodeTemplate } from '@/config/nodeTemplates';
+import {
+  createEdge,
+  getEdgeHandle,
+  graphToSteps,
+  stepsToGraph,
+  validateWorkflowNodes,
+} from '@/lib/workflowGraph';
 
 interface WorkflowHistory {
   nodes: WorkflowNode[];
@@ -33,6 +43,12 @@ interface WorkflowStore {
   selectedNode: WorkflowNode | null;
   workflow: Workflow | null;
 
+  // Validation against the server step schema, recomputed on every change
+  issues: WorkflowIssue[];
+
+  // Test run inputs, also offered as {{variables}} while editing
+  variables: Record<string, string>;
+
   // History for undo/redo
   history: WorkflowHistory[];
   historyIndex: number;
@@ -48,6 +64,7 @@ interface WorkflowStore {
   onConnect: OnConnect;
   addNode: (type: WorkflowNodeType, position: { x: number; y: number }) => void;
   updateNode: (nodeId: string, data: Partial<WorkflowNodeData>) => void;
+  updateNodeConfig: (nodeId: string, config: Partial<WorkflowStepConfig>) => void;
   deleteNode: (nodeId: string) => void;
   duplicateNode: (nodeId: string) => void;
   selectNode: (nodeId: string | null) => void;
@@ -59,6 +76,7 @@ interface WorkflowStore {
   clearWorkflow: () => void;
   exportWorkflow: () => string;
   importWorkflow: (json: string) => void;
+  setVariables: (variables: Record<string, string>) => void;
 
   // History operations
   undo: () => void;
@@ -72,52 +90,31 @@ interface WorkflowStore {
   setSaving: (saving: boolean) => void;
 }
 
-const createDefaultNodeData = (type: WorkflowNodeType): Partial<WorkflowNodeData> => {
-  const base = {
-    label: type.charAt(0).toUpperCase() + type.slice(1),
-    enabled: true,
-    errorHandling: {
-      continueOnError: false,
-      retryCount: 0,
-    },
+const createDefaultNodeData = (type: WorkflowNodeType): WorkflowNodeData => {
+  const template = getNodeTemplate(type);
+  return {
+    type,
+    config: { ...template?.defaultData?.config },
   };
-
-  switch (type) {
-    case 'navigate':
-      return { ...base, type, url: 'https://example.com', waitForLoad: true, timeout: 30000 };
-    case 'click':
-      return { ...base, type, selector: '', clickCount: 1, waitForNavigation: false };
-    case 'extract':
-      return { ...base, type, selector: '', extractType: 'text', variableName: 'extractedData', multiple: false };
-    case 'wait':
-      return { ...base, type, waitCondition: 'time', duration: 1000, timeout: 30000 };
-    case 'condition':
-      return { ...base, type, variable: '', operator: 'equals', value: '' };
-    case 'loop':
-      return { ...base, type, loopType: 'count', iterations: 1, maxIterations: 100 };
-    case 'input':
-      return { ...base, type, selector: '', inputType: 'text', value: '', clearFirst: true };
-    case 'scroll':
-      return { ...base, type, scrollType: 'bottom' };
-    case 'screenshot':
-      return { ...base, type, fullPage: false };
-    case 'api_call':
-      return { ...base, type, url: '', method: 'GET', variableName: 'apiResponse' };
-    case 'variable':
-      return { ...base, type, variableName: '', value: '', valueType: 'string' };
-    case 'transform':
-      return { ...base, type, inputVariable: '', outputVariable: '', transformType: 'map' };
-    default:
-      return base as any;
-  }
 };
 
+/**
+ * Node and edge state with its validation issues
+ */
+const withIssues = (nodes: WorkflowNode[], edges: WorkflowEdge[]) => ({
+  nodes,
+  edges,
+  issues: validateWorkflowNodes(nodes, edges),
+});
+
 export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   // Initial state
   nodes: [],
   edges: [],
   selectedNode: null,
   workflow: null,
+  issues: [],
+  variables: {},
   history: [],
   historyIndex: -1,
   isLoading: false,
@@ -126,22 +123,39 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
 
   // ReactFlow handlers
   onNodesChange: (changes: NodeChange[]) => {
+    const nodes = applyNodeChanges(changes, get().nodes) as WorkflowNode[];
+    const removed = changes.some((change) => change.type === 'remove');
+    const moved = changes.some((change) => change.type === 'position' && !change.dragging);
+    const edges = removed
+      ? get().edges.filter((edge) => nodes.some((n) => n.id === edge.source) && nodes.some((n) => n.id === edge.target))
+      : get().edges;
+
+    // Positions decide the order of unconnected steps, so revalidate once a drag ends
     set({
-      nodes: applyNodeChanges(changes, get().nodes) as WorkflowNode[],
+      ...(removed || moved ? withIssues(nodes, edges) : { nodes }),
       isDirty: true,
     });
   },
 
   onEdgesChange: (changes: EdgeChange[]) => {
     set({
-      edges: applyEdgeChanges(changes, get().edges) as WorkflowEdge[],
+      ...withIssues(get().nodes, applyEdgeChanges(changes, get().edges) as WorkflowEdge[]),
       isDirty: true,
     });
   },
 
   onConnect: (connection: Connection) => {
+    if (!connection.source || !connection.target) return;
+
+    // A step has one next step and a condition one step per outcome, so a
+    // new connection replaces the one it competes with
+    const handle = getEdgeHandle(connection);
+    const edges = get().edges.filter(
+      (edge) => !(edge.source === connection.source && getEdgeHandle(edge) === handle)
+    );
+
     set({
-      edges: addEdge(connection, get().edges) as WorkflowEdge[],
+      ...withIssues(get().nodes, [...edges, createEdge(connection.source, connection.target, handle)]),
       isDirty: true,
     });
     get().addToHistory();
@@ -152,35 +166,52 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       id: nanoid(),
       type: 'default',
       position,
-      data: createDefaultNodeData(type) as WorkflowNodeData,
+      data: createDefaultNodeData(type),
     };
 
     set({
-      nodes: [...get().nodes, newNode],
+      ...withIssues([...get().nodes, newNode], get().edges),
       isDirty: true,
     });
     get().addToHistory();
   },
 
   updateNode: (nodeId: string, data: Partial<WorkflowNodeData>) => {
+    const nodes = get().nodes.map((node) =>
+      node.id === nodeId
+        ? { ...node, data: { ...node.data, ...data } }
+        : node
+    ) as WorkflowNode[];
+
     set({
-      nodes: get().nodes.map((node) =>
-        node.id === nodeId
-          ? { ...node, data: { ...node.data, ...data } }
-          : node
-      ) as WorkflowNode[],
+      ...withIssues(nodes, get().edges),
       selectedNode: get().selectedNode?.id === nodeId
-        ? { ...get().selectedNode!, data: { ...get().selectedNode!.data, ...data } } as WorkflowNode
+        ? nodes.find((node) => node.id === nodeId) || null
         : get().selectedNode,
       isDirty: true,
     });
     get().addToHistory();
   },
 
+  updateNodeConfig: (nodeId: string, config: Partial<WorkflowStepConfig>) => {
+    const node = get().nodes.find((n) => n.id === nodeId);
+    if (!node) return;
+
+    // Cleared fields are removed so the saved step stays minimal
+    const merged: Record<string, unknown> = { ...node.data.config, ...config };
+    for (const key of Object.keys(merged)) {
+      if (merged[key] === undefined || merged[key] === '') delete merged[key];
+    }
+
+    get().updateNode(nodeId, { config: merged as WorkflowStepConfig });
+  },
+
   deleteNode: (nodeId: string) => {
     set({
-      nodes: get().nodes.filter((node) => node.id !== nodeId),
-      edges: get().edges.filter((edge) => edge.source !== nodeId && edge.target !== nodeId),
+      ...withIssues(
+        get().nodes.filter((node) => node.id !== nodeId),
+        get().edges.filter((edge) => edge.source !== nodeId && edge.target !== nodeId)
+      ),
       selectedNode: get().selectedNode?.id === nodeId ? null : get().selectedNode,
       isDirty: true,
     });
@@ -198,14 +229,15 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
         x: nodeToDuplicate.position.x + 50,
         y: nodeToDuplicate.position.y + 50,
       },
+      // The copy gets its own step id if something jumps to it
       data: {
-        ...nodeToDuplicate.data,
-        label: `${nodeToDuplicate.data.label} (Copy)`,
+        type: nodeToDuplicate.data.type,
+        config: JSON.parse(JSON.stringify(nodeToDuplicate.data.config)),
       },
     };
 
     set({
-      nodes: [...get().nodes, newNode],
+      ...withIssues([...get().nodes, newNode], get().edges),
       isDirty: true,
     });
     get().addToHistory();
@@ -232,6 +264,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       workflow,
       nodes: [],
       edges: [],
+      issues: [],
       selectedNode: null,
       history: [],
       historyIndex: -1,
@@ -242,8 +275,8 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   loadWorkflow: (workflow: Workflow) => {
     set({
       workflow,
-      nodes: workflow.nodes,
-      edges: workflow.edges,
+      ...withIssues(workflow.nodes, workflow.edges),
+      variables: workflow.variables || {},
       selectedNode: null,
       history: [],
       historyIndex: -1,
@@ -255,27 +288,27 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     const state = get();
     if (!state.workflow) return;
 
+    if (state.issues.length > 0) {
+      throw new Error('Fix the highlighted steps before saving');
+    }
+
     set({ isSaving: true });
 
     try {
       // Dynamically import to avoid circular dependencies
       const { saveWorkflow: saveWorkflowApi } = await import('@/lib/workflowApi');
 
-      const updatedWorkflow: Workflow = {
+      const savedWorkflow = await saveWorkflowApi({
         ...state.workflow,
         nodes: state.nodes,
         edges: state.edges,
-        updatedAt: new Date(),
-      };
-
-      const savedWorkflow = await saveWorkflowApi(updatedWorkflow);
+      });
 
+      // Keep the editor's layout; the server only stores the steps
       set({
-        workflow: savedWorkflow,
+        workflow: { ...savedWorkflow, nodes: state.nodes, edges: state.edges },
         isDirty: false,
       });
-
-      console.log('Workflow saved:', savedWorkflow);
     } catch (error) {
       console.error('Failed to save workflow:', error);
       throw error;
@@ -288,6 +321,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     set({
       nodes: [],
       edges: [],
+      issues: [],
       selectedNode: null,
       workflow: null,
       history: [],
@@ -296,31 +330,53 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     });
   },
 
+  // Exports the step list the workflows API accepts, so it can be sent
+  // straight to workflows.create or edited by hand and imported again
   exportWorkflow: () => {
     const state = get();
-    const exportData: Workflow = {
+    const exportData = {
       name: state.workflow?.name || 'Untitled Workflow',
       description: state.workflow?.description,
-      nodes: state.nodes,
-      edges: state.edges,
-      version: state.workflow?.version || 1,
-      tags: state.workflow?.tags,
-      variables: state.workflow?.variables,
+      steps: graphToSteps(state.nodes, state.edges).steps,
     };
 
     return JSON.stringify(exportData, null, 2);
   },
 
+  // Accepts an exported workflow or a bare step array
   importWorkflow: (json: string) => {
+    let parsed: any;
     try {
-      const workflow: Workflow = JSON.parse(json);
-      get().loadWorkflow(workflow);
+      parsed = JSON.parse(json);
     } catch (error) {
       console.error('Failed to import workflow:', error);
       throw new Error('Invalid workflow JSON');
     }
+
+    const steps = Array.isArray(parsed) ? parsed : parsed?.steps;
+    if (!Array.isArray(steps) || steps.some((step) => !step || typeof step.type !== 'string')) {
+      throw new Error('Invalid workflow JSON: expected a list of steps');
+    }
+
+    const normalized = steps.map((step: any, index: number) => ({
+      ...step,
+      order: typeof step.order === 'number' ? step.order : index,
+      config: step.config || {},
+    }));
+
+    const current = get().workflow;
+    get().loadWorkflow({
+      ...current,
+      name: parsed.name || current?.name || 'Imported Workflow',
+      description: parsed.description ?? current?.description,
+      version: current?.version || 1,
+      ...stepsToGraph(normalized),
+    });
+    set({ isDirty: true });
   },
 
+  setVariables: (variables: Record<string, string>) => set({ variables }),
+
   addToHistory: () => {
     const { nodes, edges, history, historyIndex } = get();
 
@@ -349,8 +405,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     if (historyIndex > 0) {
       const prevState = history[historyIndex - 1];
       set({
-        nodes: JSON.parse(JSON.stringify(prevState.nodes)),
-        edges: JSON.parse(JSON.stringify(prevState.edges)),
+        ...withIssues(JSON.parse(JSON.stringify(prevState.nodes)), JSON.parse(JSON.stringify(prevState.edges))),
         historyIndex: historyIndex - 1,
         isDirty: true,
       });
@@ -362,8 +417,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     if (historyIndex < history.length - 1) {
       const nextState = history[historyIndex + 1];
       set({
-        nodes: JSON.parse(JSON.stringify(nextState.nodes)),
-        edges: JSON.parse(JSON.stringify(nextState.edges)),
+        ...withIssues(JSON.parse(JSON.stringify(nextState.nodes)), JSON.parse(JSON.stringify(nextState.edges))),
         historyIndex: historyIndex + 1,
         isDirty: true,
       });
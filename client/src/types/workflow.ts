@@ -1,222 +1,46 @@
 import { Node, Edge } from 'reactflow';
+import type { WorkflowStepConfigInput, WorkflowStepType } from '@shared/workflowSteps';
 
 /**
  * Workflow node types for automation builder
+ * One node type per server workflow step type
  */
-export type WorkflowNodeType =
-  | 'navigate'
-  | 'click'
-  | 'extract'
-  | 'wait'
-  | 'condition'
-  | 'loop'
-  | 'input'
-  | 'scroll'
-  | 'screenshot'
-  | 'api_call'
-  | 'variable'
-  | 'transform';
+export type WorkflowNodeType = WorkflowStepType;
 
 /**
- * Wait condition types
+ * Step config as accepted by the workflows router
  */
-export type WaitCondition = 'element' | 'time' | 'network' | 'custom';
+export type WorkflowStepConfig = WorkflowStepConfigInput;
 
 /**
- * Extract data types
+ * Workflow node data
+ * Holds the step definition the server runs. Condition jumps
+ * (thenGoto/elseGoto) are kept on the edges rather than in the config.
  */
-export type ExtractType = 'text' | 'attribute' | 'html' | 'table' | 'list' | 'custom';
-
-/**
- * Condition operator types
- */
-export type ConditionOperator =
-  | 'equals'
-  | 'not_equals'
-  | 'contains'
-  | 'not_contains'
-  | 'greater_than'
-  | 'less_than'
-  | 'exists'
-  | 'not_exists';
-
-/**
- * Base configuration for all node types
- */
-export interface BaseNodeData {
-  label: string;
-  description?: string;
-  enabled: boolean;
-  errorHandling?: {
-    continueOnError: boolean;
-    retryCount?: number;
-    retryDelay?: number;
-  };
-}
-
-/**
- * Navigate node configuration
- */
-export interface NavigateNodeData extends BaseNodeData {
-  type: 'navigate';
-  url: string;
-  waitForLoad?: boolean;
-  timeout?: number;
-}
-
-/**
- * Click node configuration
- */
-export interface ClickNodeData extends BaseNodeData {
-  type: 'click';
-  selector: string;
-  waitForNavigation?: boolean;
-  clickCount?: number;
-  delay?: number;
-}
-
-/**
- * Extract node configuration
- */
-export interface ExtractNodeData extends BaseNodeData {
-  type: 'extract';
-  selector: string;
-  extractType: ExtractType;
-  attribute?: string;
-  variableName: string;
-  multiple?: boolean;
-}
-
-/**
- * Wait node configuration
- */
-export interface WaitNodeData extends BaseNodeData {
-  type: 'wait';
-  waitCondition: WaitCondition;
-  selector?: string;
-  duration?: number;
-  timeout?: number;
-}
-
-/**
- * Condition node configuration
- */
-export interface ConditionNodeData extends BaseNodeData {
-  type: 'condition';
-  variable: string;
-  operator: ConditionOperator;
-  value: string;
-  trueLabel?: string;
-  falseLabel?: string;
-}
-
-/**
- * Loop node configuration
- */
-export interface LoopNodeData extends BaseNodeData {
-  type: 'loop';
-  loopType: 'count' | 'while' | 'foreach';
-  iterations?: number;
-  condition?: string;
-  arrayVariable?: string;
-  itemVariable?: string;
-  maxIterations?: number;
-}
-
-/**
- * Input node configuration
- */
-export interface InputNodeData extends BaseNodeData {
-  type: 'input';
-  selector: string;
-  inputType: 'text' | 'select' | 'checkbox' | 'radio' | 'file';
-  value: string;
-  clearFirst?: boolean;
-  pressEnter?: boolean;
-}
-
-/**
- * Scroll node configuration
- */
-export interface ScrollNodeData extends BaseNodeData {
-  type: 'scroll';
-  scrollType: 'element' | 'position' | 'bottom' | 'top';
-  selector?: string;
-  x?: number;
-  y?: number;
-}
-
-/**
- * Screenshot node configuration
- */
-export interface ScreenshotNodeData extends BaseNodeData {
-  type: 'screenshot';
-  fullPage?: boolean;
-  selector?: string;
-  filename?: string;
-}
-
-/**
- * API Call node configuration
- */
-export interface ApiCallNodeData extends BaseNodeData {
-  type: 'api_call';
-  url: string;
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
-  headers?: Record<string, string>;
-  body?: string;
-  variableName: string;
-}
-
-/**
- * Variable node configuration
- */
-export interface VariableNodeData extends BaseNodeData {
-  type: 'variable';
-  variableName: string;
-  value: string;
-  valueType: 'string' | 'number' | 'boolean' | 'object' | 'array';
+export interface WorkflowNodeData {
+  type: WorkflowNodeType;
+  /** Step id, kept from the saved step or assigned when another step jumps here */
+  stepId?: string;
+  config: WorkflowStepConfig;
 }
 
 /**
- * Transform node configuration
+ * Workflow node with ReactFlow typing
  */
-export interface TransformNodeData extends BaseNodeData {
-  type: 'transform';
-  inputVariable: string;
-  outputVariable: string;
-  transformType: 'map' | 'filter' | 'reduce' | 'parse' | 'format' | 'custom';
-  transformFunction?: string;
-}
+export type WorkflowNode = Node<WorkflowNodeData>;
 
 /**
- * Union type for all node data types
+ * Edge source handles
+ * - next: the step that runs after this one
+ * - then/else: where a condition step continues when it passes/fails
  */
-export type WorkflowNodeData =
-  | NavigateNodeData
-  | ClickNodeData
-  | ExtractNodeData
-  | WaitNodeData
-  | ConditionNodeData
-  | LoopNodeData
-  | InputNodeData
-  | ScrollNodeData
-  | ScreenshotNodeData
-  | ApiCallNodeData
-  | VariableNodeData
-  | TransformNodeData;
-
-/**
- * Workflow node with ReactFlow typing
- */
-export type WorkflowNode = Node<WorkflowNodeData>;
+export type WorkflowEdgeHandle = 'next' | 'then' | 'else';
 
 /**
  * Workflow edge with custom data
  */
 export interface WorkflowEdgeData {
   label?: string;
-  condition?: 'true' | 'false';
 }
 
 export type WorkflowEdge = Edge<WorkflowEdgeData>;
@@ -241,32 +65,28 @@ export interface Workflow {
 }
 
 /**
- * Workflow execution result
+ * Test run step result, as returned and streamed by workflows.testRun
  */
-export interface WorkflowExecutionResult {
-  id?: number;
-  workflowId: number;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
-  input?: Record<string, any>;
-  output?: Record<string, any>;
+export interface StepResult {
+  stepIndex: number;
+  type: WorkflowNodeType;
+  success: boolean;
+  result?: any;
   error?: string;
-  stepResults?: StepResult[];
-  startedAt?: Date;
-  completedAt?: Date;
+  attempts?: number;
+  timestamp: Date | string;
   duration?: number;
 }
 
 /**
- * Individual step execution result
+ * Validation problem found while editing
+ * `nodeId` is unset for workflow-wide problems; `field` names the config
+ * field the problem belongs to
  */
-export interface StepResult {
-  nodeId: string;
-  nodeType: WorkflowNodeType;
-  status: 'success' | 'failed' | 'skipped';
-  output?: any;
-  error?: string;
-  duration?: number;
-  timestamp: Date;
+export interface WorkflowIssue {
+  nodeId?: string;
+  field?: string;
+  message: string;
 }
 
 /**
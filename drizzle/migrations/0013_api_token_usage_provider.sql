@@ -0,0 +1,7 @@
+-- Attribute agent LLM token usage to the provider that served the call
+-- Migration: 0013_api_token_usage_provider.sql
+
+-- Existing rows were all Claude API calls
+ALTER TABLE api_token_usage ADD COLUMN IF NOT EXISTS provider varchar(50) NOT NULL DEFAULT 'anthropic';
+
+CREATE INDEX IF NOT EXISTS api_token_usage_provider_idx ON api_token_usage(provider);
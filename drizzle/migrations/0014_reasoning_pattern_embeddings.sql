@@ -0,0 +1,21 @@
+-- Migration: Vector embeddings for reasoning patterns
+-- Converts reasoning_patterns.embedding from a JSON array to a pgvector column
+-- so the ReasoningBank can run semantic similarity search.
+--
+-- Rows without an embedding are filled in by the reasoning embedding backfill job
+-- (queueReasoningEmbeddingBackfill in server/services/memory/memoryCleanup.scheduler.ts).
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Keep embeddings already stored as 1536-dimension JSON arrays; anything else is re-embedded
+ALTER TABLE reasoning_patterns
+  ALTER COLUMN embedding TYPE vector(1536)
+  USING CASE
+    WHEN jsonb_typeof(embedding) <> 'array' THEN NULL
+    WHEN jsonb_array_length(embedding) = 1536 THEN (embedding::text)::vector(1536)
+    ELSE NULL
+  END;
+
+CREATE INDEX IF NOT EXISTS reasoning_embedding_hnsw_idx
+ON reasoning_patterns
+USING hnsw (embedding vector_cosine_ops);
@@ -0,0 +1,23 @@
+-- Migration: Tag stored embeddings with the model that produced them
+-- Embedding providers are now pluggable (EMBEDDING_PROVIDER), so vectors from
+-- different models can share a table. Searches only compare vectors whose
+-- model matches the active provider.
+--
+-- Existing vectors were all produced by OpenAI text-embedding-3-small.
+
+ALTER TABLE documentation_chunks
+  ADD COLUMN IF NOT EXISTS "embeddingModel" VARCHAR(100);
+
+UPDATE documentation_chunks
+  SET "embeddingModel" = 'openai/text-embedding-3-small'
+  WHERE embedding IS NOT NULL AND "embeddingModel" IS NULL;
+
+CREATE INDEX IF NOT EXISTS documentation_chunks_embedding_model_idx
+ON documentation_chunks("embeddingModel");
+
+ALTER TABLE reasoning_patterns
+  ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100);
+
+UPDATE reasoning_patterns
+  SET embedding_model = 'openai/text-embedding-3-small'
+  WHERE embedding IS NOT NULL AND embedding_model IS NULL;
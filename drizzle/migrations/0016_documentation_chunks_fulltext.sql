@@ -0,0 +1,11 @@
+-- Migration: Full-text search for documentation_chunks
+-- Adds a generated tsvector column and GIN index so RAG retrieval can combine
+-- keyword (full-text) matches with vector similarity.
+
+ALTER TABLE documentation_chunks
+  ADD COLUMN IF NOT EXISTS "searchVector" tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS documentation_chunks_search_vector_idx
+ON documentation_chunks
+USING gin ("searchVector");
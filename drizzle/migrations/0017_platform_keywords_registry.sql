@@ -0,0 +1,22 @@
+-- Migration: Platform detection registry
+-- Aligns platform_keywords with the drizzle schema and lets tenants add their
+-- own detection keywords. keywordType is the signal type (keyword, url, dom);
+-- rows with a userId only apply to that tenant's detections.
+
+ALTER TABLE platform_keywords ALTER COLUMN keyword TYPE VARCHAR(255);
+
+ALTER TABLE platform_keywords
+  ADD COLUMN IF NOT EXISTS "keywordType" VARCHAR(30) DEFAULT 'keyword' NOT NULL,
+  ADD COLUMN IF NOT EXISTS weight INTEGER DEFAULT 1 NOT NULL,
+  ADD COLUMN IF NOT EXISTS category VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS "userId" INTEGER REFERENCES users(id) ON DELETE CASCADE;
+
+ALTER TABLE platform_keywords ALTER COLUMN "keywordType" SET DEFAULT 'keyword';
+
+-- Keywords are unique per tenant rather than globally
+ALTER TABLE platform_keywords DROP CONSTRAINT IF EXISTS "platform_keywords_platform_keyword_keywordType_key";
+
+CREATE UNIQUE INDEX IF NOT EXISTS platform_keywords_owner_unique_idx
+ON platform_keywords (platform, keyword, "keywordType", COALESCE("userId", 0));
+
+CREATE INDEX IF NOT EXISTS platform_keywords_user_id_idx ON platform_keywords ("userId");
@@ -0,0 +1,17 @@
+-- Migration: Webhook- and event-triggered workflows
+-- trigger is how a workflow starts (manual, scheduled, webhook, event).
+-- triggerConfig holds the webhook signing secret or the subscribed event and
+-- its filter expression; webhookToken identifies the inbound webhook URL.
+
+ALTER TABLE automation_workflows
+  ADD COLUMN IF NOT EXISTS trigger VARCHAR(20) DEFAULT 'manual' NOT NULL,
+  ADD COLUMN IF NOT EXISTS "triggerConfig" JSONB,
+  ADD COLUMN IF NOT EXISTS "webhookToken" VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS automation_workflows_webhook_token_idx
+ON automation_workflows ("webhookToken");
+
+-- Event dispatch looks up a tenant's active workflows by trigger
+CREATE INDEX IF NOT EXISTS automation_workflows_user_trigger_idx
+ON automation_workflows ("userId", trigger)
+WHERE "isActive" = true;
@@ -0,0 +1,32 @@
+-- Migration: Postgres job queue
+-- Durable fallback for the BullMQ queues when Redis isn't configured. Workers
+-- claim due jobs with FOR UPDATE SKIP LOCKED; lockedUntil is the visibility
+-- timeout after which a crashed worker's job is picked up again.
+
+CREATE TABLE IF NOT EXISTS background_jobs (
+  id SERIAL PRIMARY KEY,
+  queue VARCHAR(50) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  "jobKey" VARCHAR(255),
+  data JSONB NOT NULL,
+  status VARCHAR(20) DEFAULT 'waiting' NOT NULL,
+  priority INTEGER DEFAULT 0 NOT NULL,
+  "attemptsMade" INTEGER DEFAULT 0 NOT NULL,
+  "maxAttempts" INTEGER DEFAULT 1 NOT NULL,
+  "backoffDelay" INTEGER DEFAULT 0 NOT NULL,
+  progress INTEGER DEFAULT 0 NOT NULL,
+  "runAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "lockedUntil" TIMESTAMP,
+  "lockedBy" VARCHAR(100),
+  result JSONB,
+  error TEXT,
+  "completedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS background_jobs_claim_idx
+ON background_jobs (queue, status, "runAt");
+
+CREATE UNIQUE INDEX IF NOT EXISTS background_jobs_queue_job_key_idx
+ON background_jobs (queue, "jobKey");
@@ -0,0 +1,14 @@
+-- Migration: Resumable workflow executions
+-- checkpoint is written after every completed step (next step index, variables
+-- and extracted data) so a failed or interrupted run can resume from where it
+-- stopped. heartbeatAt is refreshed while a worker runs the execution; running
+-- executions with a stale heartbeat are swept as orphans.
+
+ALTER TABLE workflow_executions
+  ADD COLUMN IF NOT EXISTS "currentStep" INTEGER,
+  ADD COLUMN IF NOT EXISTS checkpoint JSONB,
+  ADD COLUMN IF NOT EXISTS "heartbeatAt" TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS "resumeCount" INTEGER DEFAULT 0 NOT NULL;
+
+CREATE INDEX IF NOT EXISTS workflow_executions_status_heartbeat_idx
+ON workflow_executions (status, "heartbeatAt");
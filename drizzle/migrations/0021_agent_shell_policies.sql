@@ -0,0 +1,14 @@
+-- Migration: Per-tenant agent shell policies
+-- Shell commands from agents now run in a sandbox container. Each tenant can
+-- have a policy with the commands it may run, network access and resource
+-- limits. enabled grants shell access to tenants below the admin role.
+
+CREATE TABLE IF NOT EXISTS agent_shell_policies (
+  id SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  enabled BOOLEAN DEFAULT false NOT NULL,
+  policy JSONB NOT NULL,
+  "updatedBy" INTEGER REFERENCES users(id),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
@@ -0,0 +1,12 @@
+-- Migration: Idempotent Stripe credit grants
+-- Credits for Stripe purchases are granted and reversed only from verified
+-- webhook events. Each grant or reversal stores the Stripe event id as its
+-- reference, so a redelivered event can never apply twice.
+
+CREATE UNIQUE INDEX IF NOT EXISTS credit_transactions_stripe_reference_idx
+  ON credit_transactions("referenceType", "referenceId")
+  WHERE "referenceType" IN ('stripe_purchase', 'stripe_refund');
+
+CREATE INDEX IF NOT EXISTS credit_transactions_stripe_payment_intent_idx
+  ON credit_transactions((metadata->>'stripePaymentIntentId'))
+  WHERE "referenceType" IN ('stripe_purchase', 'stripe_refund');
@@ -0,0 +1,18 @@
+-- Migration: Lead export profiles
+-- Lead lists can be exported as CSV, XLSX or a GoHighLevel contact import.
+-- Each list can save one profile with the exported columns (field, header)
+-- and how lead fields map to GHL standard and custom fields.
+
+CREATE TABLE IF NOT EXISTS lead_export_profiles (
+  id SERIAL PRIMARY KEY,
+  "listId" INTEGER NOT NULL UNIQUE REFERENCES lead_lists(id) ON DELETE CASCADE,
+  "userId" INTEGER NOT NULL REFERENCES users(id),
+  columns JSONB NOT NULL,
+  "ghlFields" JSONB,
+  "ghlCustomFields" JSONB,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Streaming exports page through a list's leads by id
+CREATE INDEX IF NOT EXISTS leads_list_id_idx ON leads("listId", id);
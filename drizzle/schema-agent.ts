@@ -121,3 +121,21 @@ export const toolExecutions = pgTable("tool_executions", {
 
 export type ToolExecution = typeof toolExecutions.$inferSelect;
 export type InsertToolExecution = typeof toolExecutions.$inferInsert;
+
+/**
+ * Agent shell policies
+ * Per-tenant settings for sandboxed shell access (ShellTool and MCP shell/execute)
+ * Without an enabled policy only admins get shell access, using the default policy
+ */
+export const agentShellPolicies = pgTable("agent_shell_policies", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  enabled: boolean("enabled").default(false).notNull(), // Grants shell access to non-admin tenants
+  policy: jsonb("policy").notNull(), // ShellSandboxPolicy: allowedCommands, allowNetwork, cpus, memoryMb, timeoutMs, maxProcesses
+  updatedBy: integer("updatedBy").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type AgentShellPolicy = typeof agentShellPolicies.$inferSelect;
+export type InsertAgentShellPolicy = typeof agentShellPolicies.$inferInsert;
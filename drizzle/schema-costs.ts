@@ -28,8 +28,8 @@ import { taskExecutions } from "./schema-webhooks";
 // ========================================
 
 /**
- * Claude API call token usage
- * Tracks token consumption for each Claude API call
+ * LLM API call token usage
+ * Tracks token consumption for each agent LLM call, attributed to the provider that served it
  */
 export const apiTokenUsage = pgTable("api_token_usage", {
   id: serial("id").primaryKey(),
@@ -37,7 +37,8 @@ export const apiTokenUsage = pgTable("api_token_usage", {
   executionId: integer("executionId").references(() => taskExecutions.id, { onDelete: "cascade" }),
 
   // API call identity
-  requestId: varchar("requestId", { length: 255 }), // Claude API request ID
+  requestId: varchar("requestId", { length: 255 }), // Provider request ID
+  provider: varchar("provider", { length: 50 }).default("anthropic").notNull(), // anthropic, openai, google, ollama
   model: varchar("model", { length: 100 }).notNull(), // claude-opus-4-5-20251101, etc.
 
   // Token counts
@@ -68,6 +69,7 @@ export const apiTokenUsage = pgTable("api_token_usage", {
   userIdIdx: index("api_token_usage_user_id_idx").on(table.userId),
   executionIdIdx: index("api_token_usage_execution_id_idx").on(table.executionId),
   modelIdx: index("api_token_usage_model_idx").on(table.model),
+  providerIdx: index("api_token_usage_provider_idx").on(table.provider),
   createdAtIdx: index("api_token_usage_created_at_idx").on(table.createdAt),
   userCreatedIdx: index("api_token_usage_user_created_idx").on(table.userId, table.createdAt),
 }));
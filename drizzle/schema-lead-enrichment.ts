@@ -129,6 +129,26 @@ export const leads = pgTable("leads", {
   enrichedAt: timestamp("enrichedAt"),
 });
 
+/**
+ * Lead export profiles
+ * Saved column mapping used when exporting a lead list (CSV, XLSX, GHL import)
+ */
+export const lead_export_profiles = pgTable("lead_export_profiles", {
+  id: serial("id").primaryKey(),
+  listId: integer("listId")
+    .references(() => lead_lists.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  userId: integer("userId")
+    .references(() => users.id)
+    .notNull(),
+  columns: jsonb("columns").notNull(), // [{ field, header }] in export order
+  ghlFields: jsonb("ghlFields"), // GHL standard field -> lead field overrides
+  ghlCustomFields: jsonb("ghlCustomFields"), // [{ field, name }] extra GHL custom field columns
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
 // ========================================
 // TYPE EXPORTS
 // ========================================
@@ -148,6 +168,9 @@ export type InsertLeadList = typeof lead_lists.$inferInsert;
 export type Lead = typeof leads.$inferSelect;
 export type InsertLead = typeof leads.$inferInsert;
 
+export type LeadExportProfile = typeof lead_export_profiles.$inferSelect;
+export type InsertLeadExportProfile = typeof lead_export_profiles.$inferInsert;
+
 // ========================================
 // AI CALLING TABLES
 // ========================================
@@ -99,7 +99,7 @@ export const executionCheckpoints = pgTable("execution_checkpoints", {
   errorInfo: jsonb("errorInfo"),
 
   // Checkpoint Metadata
-  checkpointReason: varchar("checkpointReason", { length: 100 }), // 'error', 'manual', 'auto', 'phase_complete'
+  checkpointReason: varchar("checkpointReason", { length: 100 }), // 'error', 'manual', 'auto', 'phase_complete', 'awaiting_input'
   canResume: boolean("canResume").default(true).notNull(),
   resumeCount: integer("resumeCount").default(0).notNull(), // How many times resumed from this checkpoint
 
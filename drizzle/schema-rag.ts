@@ -72,6 +72,11 @@ export const documentationChunks = pgTable("documentation_chunks", {
   // Note: The embedding column needs to be added via raw SQL since drizzle-orm
   // doesn't fully support pgvector syntax. See migration 0001_rag_system.sql
   // embedding: vector("embedding", { dimensions: 1536 }), // OpenAI embedding vector
+  embeddingModel: varchar("embeddingModel", { length: 100 }), // Model that produced the embedding (e.g. "openai/text-embedding-3-small")
+
+  // Full-text search vector - generated column maintained by Postgres, see
+  // migration 0016_documentation_chunks_fulltext.sql
+  // searchVector: tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED
 
   // Metadata
   metadata: jsonb("metadata"), // Additional chunk metadata (context, headers, etc.)
@@ -88,8 +93,10 @@ export const platformKeywords = pgTable("platform_keywords", {
   id: serial("id").primaryKey(),
   platform: varchar("platform", { length: 50 }).notNull(),
   keyword: varchar("keyword", { length: 255 }).notNull(),
+  keywordType: varchar("keywordType", { length: 30 }).default("keyword").notNull(), // Signal type: keyword, url or dom
   weight: integer("weight").default(1).notNull(), // Keyword importance weight
-  category: varchar("category", { length: 50 }), // Type of keyword (product_name, feature, etc.)
+  category: varchar("category", { length: 50 }), // Origin of the keyword (built_in, custom)
+  userId: integer("userId").references(() => users.id, { onDelete: "cascade" }), // Tenant that added it (null for global)
   isActive: boolean("isActive").default(true).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
@@ -175,7 +175,7 @@ export const sopExecutions = pgTable("sop_executions", {
   agentSessionId: integer("agentSessionId"), // Link to agent session if AI executed
 
   // Status tracking
-  status: varchar("status", { length: 20 }).default("in_progress").notNull(), // in_progress, completed, failed, aborted
+  status: varchar("status", { length: 20 }).default("in_progress").notNull(), // in_progress, running, awaiting_input, completed, failed, aborted
   currentStepIndex: integer("currentStepIndex").default(0).notNull(),
 
   // Step results
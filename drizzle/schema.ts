@@ -1,4 +1,4 @@
-import { pgTable, serial, text, timestamp, varchar, integer, boolean, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, timestamp, varchar, integer, boolean, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 
 /**
  * Core user table backing auth flow.
@@ -235,6 +235,9 @@ export const automationWorkflows = pgTable("automation_workflows", {
   tags: jsonb("tags"), // Array of tags for categorization
   version: integer("version").default(1).notNull(),
   isActive: boolean("isActive").default(true).notNull(),
+  trigger: varchar("trigger", { length: 20 }).default("manual").notNull(), // manual, scheduled, webhook, event
+  triggerConfig: jsonb("triggerConfig"), // { secret } for webhook, { event, filter } for event triggers
+  webhookToken: varchar("webhookToken", { length: 64 }).unique(), // Inbound webhook URL token
   executionCount: integer("executionCount").default(0).notNull(),
   lastExecutedAt: timestamp("lastExecutedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -261,9 +264,16 @@ export const workflowExecutions = pgTable("workflow_executions", {
   completedAt: timestamp("completedAt"),
   duration: integer("duration"), // Execution time in milliseconds
   stepResults: jsonb("stepResults"), // Results from each step
+  currentStep: integer("currentStep"), // 1-based index of the last step run
+  checkpoint: jsonb("checkpoint"), // Resume point: next step index, variables and extracted data
+  heartbeatAt: timestamp("heartbeatAt"), // Refreshed while a worker is running the execution
+  resumeCount: integer("resumeCount").default(0).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().notNull(),
-});
+}, (table) => ({
+  // Orphan sweep looks up running executions by heartbeat
+  statusHeartbeatIdx: index("workflow_executions_status_heartbeat_idx").on(table.status, table.heartbeatAt),
+}));
 
 export type WorkflowExecution = typeof workflowExecutions.$inferSelect;
 export type InsertWorkflowExecution = typeof workflowExecutions.$inferInsert;
@@ -441,6 +451,38 @@ export const apiRequestLogs = pgTable("api_request_logs", {
 export type ApiRequestLog = typeof apiRequestLogs.$inferSelect;
 export type InsertApiRequestLog = typeof apiRequestLogs.$inferInsert;
 
+/**
+ * Background job queue
+ * Postgres-backed fallback for the BullMQ queues when Redis isn't configured
+ */
+export const backgroundJobs = pgTable("background_jobs", {
+  id: serial("id").primaryKey(),
+  queue: varchar("queue", { length: 50 }).notNull(), // email, voice, seo, ads, enrichment, workflow
+  name: varchar("name", { length: 100 }).notNull(), // JobType
+  jobKey: varchar("jobKey", { length: 255 }), // Caller-supplied job ID; duplicates are ignored
+  data: jsonb("data").notNull(),
+  status: varchar("status", { length: 20 }).default("waiting").notNull(), // waiting, active, completed, failed
+  priority: integer("priority").default(0).notNull(), // Lower runs first, like BullMQ
+  attemptsMade: integer("attemptsMade").default(0).notNull(),
+  maxAttempts: integer("maxAttempts").default(1).notNull(),
+  backoffDelay: integer("backoffDelay").default(0).notNull(), // Base exponential backoff in ms
+  progress: integer("progress").default(0).notNull(),
+  runAt: timestamp("runAt").defaultNow().notNull(), // Delayed and retried jobs wait until this time
+  lockedUntil: timestamp("lockedUntil"), // Visibility timeout; expired active jobs are picked up again
+  lockedBy: varchar("lockedBy", { length: 100 }),
+  result: jsonb("result"),
+  error: text("error"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+}, (table) => ({
+  claimIdx: index("background_jobs_claim_idx").on(table.queue, table.status, table.runAt),
+  jobKeyIdx: uniqueIndex("background_jobs_queue_job_key_idx").on(table.queue, table.jobKey),
+}));
+
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
+export type InsertBackgroundJob = typeof backgroundJobs.$inferInsert;
+
 // ========================================
 // RE-EXPORTS FROM SEPARATE SCHEMA FILES
 // ========================================
@@ -452,6 +494,7 @@ export {
   credit_transactions,
   lead_lists,
   leads as enrichedLeads, // Renamed to avoid conflict with basic leads table above
+  lead_export_profiles,
   ai_call_campaigns,
   ai_calls,
   type UserCredit,
@@ -462,6 +505,8 @@ export {
   type InsertCreditTransaction,
   type LeadList,
   type InsertLeadList,
+  type LeadExportProfile,
+  type InsertLeadExportProfile,
   type AiCallCampaign,
   type InsertAiCallCampaign,
   type AiCall,
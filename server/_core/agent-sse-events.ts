@@ -333,6 +333,30 @@ export function emitExecutionError(
   sendAgentEvent(userId, executionId, event);
 }
 
+/**
+ * Emit input required event when the agent asks the user a question
+ */
+export function emitInputRequired(
+  userId: number,
+  executionId: string,
+  data: {
+    question: string;
+    context?: string;
+  }
+) {
+  const event: AgentSSEEvent = {
+    type: 'input:required',
+    executionId,
+    data: {
+      question: data.question,
+      context: data.context,
+      timestamp: new Date().toISOString(),
+    },
+  };
+
+  sendAgentEvent(userId, executionId, event);
+}
+
 // ========================================
 // CONVENIENCE WRAPPER CLASS
 // ========================================
@@ -406,4 +430,8 @@ export class AgentSSEEmitter {
   executionError(data: Parameters<typeof emitExecutionError>[2]) {
     emitExecutionError(this.userId, this.executionId, data);
   }
+
+  inputRequired(data: Parameters<typeof emitInputRequired>[2]) {
+    emitInputRequired(this.userId, this.executionId, data);
+  }
 }
@@ -15,9 +15,12 @@ import { createContext } from "./context";
 // Only import serveStatic statically - setupVite is loaded dynamically for development only
 import { serveStatic } from "./vite";
 import { webhookEndpointsRouter } from "../api/webhookEndpoints";
+import { leadExportRouter } from "../api/leadExport";
 import stripeWebhookRouter from "../api/webhooks/stripe";
 import { schedulerRunnerService } from "../services/schedulerRunner.service";
-import { memoryCleanupScheduler } from "../services/memory";
+import { memoryCleanupScheduler, queueReasoningEmbeddingBackfill } from "../services/memory";
+import { workflowRecoveryService } from "../services/workflowRecovery.service";
+import { failInterruptedSopExecutions } from "../services/sopRunner.service";
 import { socketIOService } from "../services/socketio.service";
 import { getDb } from "../db";
 import { scheduledBrowserTasks } from "../../drizzle/schema-scheduled-tasks";
@@ -29,6 +32,7 @@ import {
   sentryErrorHandler
 } from "../lib/sentry";
 import { createRestApi } from "../api/rest";
+import { credentialVaultService } from "../services/security/credentialVault.service";
 
 // Initialize Sentry as early as possible
 initSentry();
@@ -108,6 +112,9 @@ export async function createApp() {
   // Stripe webhook route MUST come BEFORE body parsers
   // Stripe needs raw body for signature verification
   app.use("/api/webhooks/stripe", stripeWebhookRouter);
+  // Webhook endpoints (public, token-authenticated) parse their own bodies and
+  // keep the raw bytes for provider signature checks
+  app.use("/api/webhooks", webhookEndpointsRouter);
 
   // On Vercel, the body is already parsed and attached to req.body
   // We need to skip express.json() parsing to avoid "Bad Request" errors
@@ -138,8 +145,8 @@ export async function createApp() {
   app.use("/api/onboarding", onboardingRouter);
   // SSE routes for real-time streaming
   registerSSERoutes(app);
-  // Webhook endpoints (public, token-authenticated)
-  app.use("/api/webhooks", webhookEndpointsRouter);
+  // Lead list exports (CSV, XLSX, GHL contact import), streamed as downloads
+  app.use("/api/lead-lists", leadExportRouter);
 
   // Mount REST API v1 routes (includes /api/v1/health, /api/v1/tasks, etc.)
   const restApi = createRestApi();
@@ -260,12 +267,32 @@ async function initializeMemoryCleanup() {
     });
 
     console.log("Memory cleanup scheduler initialized successfully");
+
+    // Embed reasoning patterns stored before vector search (or whose embedding failed)
+    queueReasoningEmbeddingBackfill().catch((error) => {
+      console.error("Error queueing reasoning embedding backfill:", error);
+    });
   } catch (error) {
     console.error("Error initializing memory cleanup scheduler:", error);
   }
 }
 
+/**
+ * Resume or fail workflow executions orphaned by a stopped process
+ */
+function initializeWorkflowRecovery() {
+  try {
+    const intervalMs = parseInt(process.env.WORKFLOW_RECOVERY_INTERVAL_MS || "60000");
+    workflowRecoveryService.start(intervalMs);
+  } catch (error) {
+    console.error("Error initializing workflow recovery:", error);
+  }
+}
+
 async function startServer() {
+  // Refuse to start with a missing or insecure credential vault master key
+  credentialVaultService.assertKeyConfiguration();
+
   const app = await createApp();
   const server = createServer(app);
 
@@ -289,6 +316,12 @@ async function startServer() {
     // Initialize memory cleanup scheduler
     initializeMemoryCleanup().catch(console.error);
 
+    // Sweep workflow executions orphaned by a restart
+    initializeWorkflowRecovery();
+
+    // SOP runs only live in the process that started them, so fail any left running
+    failInterruptedSopExecutions().catch(console.error);
+
     // Optionally start workers in development mode
     if (process.env.NODE_ENV === "development" && process.env.START_WORKERS === "true") {
       console.log("\nStarting workers in development mode...");
@@ -308,6 +341,7 @@ async function startServer() {
     console.log("SIGTERM received, shutting down gracefully...");
     schedulerRunnerService.stop();
     memoryCleanupScheduler.stop();
+    workflowRecoveryService.stop();
     server.close(() => {
       console.log("Server closed");
       process.exit(0);
@@ -318,6 +352,7 @@ async function startServer() {
     console.log("SIGINT received, shutting down gracefully...");
     schedulerRunnerService.stop();
     memoryCleanupScheduler.stop();
+    workflowRecoveryService.stop();
     server.close(() => {
       console.log("Server closed");
       process.exit(0);
@@ -0,0 +1,189 @@
+/**
+ * Postgres Job Queue Tests
+ * Covers adding jobs, retries with backoff and stalled job handling
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockDb, mockGetDb } = vi.hoisted(() => {
+  const chain: any = {};
+  for (const method of ["insert", "values", "onConflictDoNothing", "select", "from", "where", "update", "set"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.returning = vi.fn();
+  chain.limit = vi.fn();
+  chain.execute = vi.fn();
+
+  return { mockDb: chain, mockGetDb: vi.fn() };
+});
+
+vi.mock("../db", () => ({
+  getDb: mockGetDb,
+}));
+
+import { PostgresQueue, PostgresWorker, getRetryDelay } from "./pgQueue";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const makeRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 5,
+  queue: "workflow",
+  name: "workflow_execution",
+  jobKey: null,
+  data: { userId: "1", workflowId: "7" },
+  status: "active",
+  priority: 0,
+  attemptsMade: 1,
+  maxAttempts: 3,
+  backoffDelay: 2000,
+  progress: 0,
+  runAt: new Date(),
+  lockedUntil: new Date(),
+  lockedBy: "worker",
+  result: null,
+  error: null,
+  completedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+/**
+ * Claim one job and wait for the worker to finish it
+ */
+const runOnce = async (worker: PostgresWorker) => {
+  const done = new Promise((resolve) => {
+    worker.once("completed", resolve);
+    worker.once("failed", resolve);
+  });
+  await worker.poll();
+  await done;
+};
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Postgres Job Queue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    mockGetDb.mockResolvedValue(mockDb);
+    mockDb.execute.mockResolvedValue({ rows: [] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should back off exponentially between attempts", () => {
+    expect([1, 2, 3].map((attempt) => getRetryDelay(attempt, 2000))).toEqual([2000, 4000, 8000]);
+  });
+
+  // ========================================
+  // QUEUE TESTS
+  // ========================================
+
+  describe("PostgresQueue", () => {
+    it("should add a delayed job with the queue's retry defaults", async () => {
+      mockDb.returning.mockResolvedValueOnce([makeRow({ status: "waiting", attemptsMade: 0 })]);
+      const queue = new PostgresQueue("workflow", { attempts: 3, backoff: { type: "exponential", delay: 2000 } });
+
+      const job = await queue.add("workflow_execution", { userId: "1" }, { delay: 5000, jobId: "workflow-execution-42" });
+
+      expect(mockDb.values).toHaveBeenCalledWith(expect.objectContaining({
+        queue: "workflow",
+        jobKey: "workflow-execution-42",
+        maxAttempts: 3,
+        backoffDelay: 2000,
+        runAt: new Date(Date.now() + 5000),
+      }));
+      expect(job).toMatchObject({ id: "5", attemptsMade: 0, opts: { attempts: 3 } });
+    });
+
+    it("should return the existing job for a duplicate job ID", async () => {
+      mockDb.returning.mockResolvedValueOnce([]);
+      mockDb.limit.mockResolvedValueOnce([makeRow({ id: 9 })]);
+
+      const job = await new PostgresQueue("workflow").add("workflow_execution", {}, { jobId: "workflow-execution-42" });
+
+      expect(job?.id).toBe("9");
+    });
+
+    it("should not queue without a database", async () => {
+      mockGetDb.mockResolvedValueOnce(null);
+
+      await expect(new PostgresQueue("email").add("email_sync", {})).resolves.toBeNull();
+    });
+  });
+
+  // ========================================
+  // WORKER TESTS
+  // ========================================
+
+  describe("PostgresWorker", () => {
+    it("should run a claimed job and mark it completed", async () => {
+      mockDb.execute.mockResolvedValueOnce({ rows: [makeRow()] });
+      const processor = vi.fn().mockResolvedValue({ success: true });
+      const worker = new PostgresWorker("workflow", processor);
+
+      await runOnce(worker);
+
+      expect(processor).toHaveBeenCalledWith(expect.objectContaining({ id: "5", attemptsMade: 0, opts: { attempts: 3 } }));
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        status: "completed",
+        result: { success: true },
+        lockedUntil: null,
+      }));
+      await worker.close();
+    });
+
+    it("should schedule a retry with backoff while attempts remain", async () => {
+      mockDb.execute.mockResolvedValueOnce({ rows: [makeRow({ attemptsMade: 2 })] });
+      const worker = new PostgresWorker("workflow", vi.fn().mockRejectedValue(new Error("boom")));
+
+      await runOnce(worker);
+
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        status: "waiting",
+        error: "boom",
+        runAt: new Date(Date.now() + 4000),
+      }));
+      await worker.close();
+    });
+
+    it("should fail the job on its last attempt", async () => {
+      mockDb.execute.mockResolvedValueOnce({ rows: [makeRow({ attemptsMade: 3 })] });
+      const worker = new PostgresWorker("workflow", vi.fn().mockRejectedValue(new Error("boom")));
+      const failed = vi.fn();
+      worker.on("failed", failed);
+
+      await runOnce(worker);
+
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ status: "failed", error: "boom" }));
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ attemptsMade: 2 }), expect.any(Error));
+      await worker.close();
+    });
+
+    it("should fail a job reclaimed after its last attempt stalled", async () => {
+      mockDb.execute.mockResolvedValueOnce({ rows: [makeRow({ attemptsMade: 4 })] });
+      const processor = vi.fn();
+      const worker = new PostgresWorker("workflow", processor);
+
+      await runOnce(worker);
+
+      expect(processor).not.toHaveBeenCalled();
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        status: "failed",
+        error: "Job stalled more than allowable limit",
+      }));
+      await worker.close();
+    });
+  });
+});
@@ -0,0 +1,398 @@
+/**
+ * Postgres Job Queue
+ * Durable fallback for the BullMQ queues when Redis isn't configured
+ *
+ * Jobs are rows in background_jobs. Workers poll for due jobs and claim them
+ * with FOR UPDATE SKIP LOCKED, so several worker processes can share a queue.
+ * A claimed job stays hidden until its visibility timeout (lockedUntil)
+ * passes; workers extend it while a job runs, so only jobs whose worker died
+ * become claimable again. Failed jobs are retried with exponential backoff
+ * until their attempts run out.
+ */
+
+import { EventEmitter } from "events";
+import crypto from "crypto";
+import os from "os";
+import { and, eq, lt, or, sql } from "drizzle-orm";
+import type { Job } from "bullmq";
+import { getDb } from "../db";
+import { backgroundJobs, type BackgroundJob } from "../../drizzle/schema";
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface PgJobOptions {
+    attempts?: number;
+    backoff?: { type: "exponential"; delay: number };
+    delay?: number; // ms before the job becomes due
+    priority?: number; // Lower runs first
+    jobId?: string; // Adding a job with an existing ID returns the existing job
+}
+
+export interface PgWorkerOptions {
+    concurrency?: number;
+    pollInterval?: number; // ms between polls while the queue is empty
+    visibilityTimeout?: number; // ms a claimed job stays hidden from other workers
+}
+
+export interface PgJobCounts {
+    waiting: number;
+    active: number;
+    completed: number;
+    failed: number;
+    delayed: number;
+}
+
+export type PgJobProcessor = (job: Job) => Promise<unknown>;
+
+const DEFAULT_POLL_INTERVAL = Number(process.env.PG_QUEUE_POLL_INTERVAL) || 1000;
+const DEFAULT_VISIBILITY_TIMEOUT = Number(process.env.PG_QUEUE_VISIBILITY_TIMEOUT) || 60000;
+
+// Same retention as the BullMQ queues' removeOnComplete / removeOnFail
+const COMPLETED_RETENTION_MS = 24 * 3600 * 1000;
+const FAILED_RETENTION_MS = 7 * 24 * 3600 * 1000;
+const CLEANUP_INTERVAL_MS = 3600 * 1000;
+
+/**
+ * Delay before retrying a job that failed its nth attempt
+ */
+export function getRetryDelay(attemptsMade: number, backoffDelay: number): number {
+    return backoffDelay * Math.pow(2, Math.max(0, attemptsMade - 1));
+}
+
+// ========================================
+// JOB
+// ========================================
+
+/**
+ * A claimed job, shaped like the parts of a BullMQ Job the processors use
+ */
+export class PgJob<T = any> {
+    readonly id: string;
+    readonly name: string;
+    readonly data: T;
+    readonly attemptsMade: number; // Attempts that failed before this one, as in BullMQ
+    readonly opts: { attempts: number };
+    readonly timestamp: number;
+    progress: number | object = 0;
+
+    constructor(
+        row: BackgroundJob,
+        private onProgress?: (progress: number) => Promise<void>
+    ) {
+        this.id = String(row.id);
+        this.name = row.name;
+        this.data = row.data as T;
+        this.attemptsMade = Math.max(0, row.attemptsMade - 1);
+        this.opts = { attempts: row.maxAttempts };
+        this.timestamp = row.createdAt.getTime();
+    }
+
+    async updateProgress(progress: number | object): Promise<void> {
+        this.progress = progress;
+        if (typeof progress === "number" && this.onProgress) {
+            await this.onProgress(Math.round(progress));
+        }
+    }
+}
+
+// ========================================
+// QUEUE
+// ========================================
+
+export class PostgresQueue {
+    constructor(
+        readonly name: string,
+        private defaultJobOptions: PgJobOptions = {}
+    ) {}
+
+    /**
+     * Add a job
+     * Returns null when the database isn't available
+     */
+    async add<T>(jobName: string, data: T, options: PgJobOptions = {}): Promise<PgJob<T> | null> {
+        const db = await getDb();
+        if (!db) return null;
+
+        const attempts = options.attempts ?? this.defaultJobOptions.attempts ?? 1;
+        const backoff = options.backoff ?? this.defaultJobOptions.backoff;
+        const delay = options.delay ?? this.defaultJobOptions.delay ?? 0;
+
+        const [row] = await db
+            .insert(backgroundJobs)
+            .values({
+                queue: this.name,
+                name: jobName,
+                jobKey: options.jobId,
+                data: data as Record<string, unknown>,
+                priority: options.priority ?? this.defaultJobOptions.priority ?? 0,
+                maxAttempts: attempts,
+                backoffDelay: backoff?.delay ?? 0,
+                runAt: new Date(Date.now() + delay),
+            })
+            .onConflictDoNothing()
+            .returning();
+
+        if (row) return new PgJob<T>(row);
+
+        // Job ID already queued
+        const [existing] = await db
+            .select()
+            .from(backgroundJobs)
+            .where(and(eq(backgroundJobs.queue, this.name), eq(backgroundJobs.jobKey, options.jobId ?? "")))
+            .limit(1);
+
+        return existing ? new PgJob<T>(existing) : null;
+    }
+
+    /**
+     * Job counts by state
+     * Returns null when the database isn't available
+     */
+    async getJobCounts(): Promise<PgJobCounts | null> {
+        const db = await getDb();
+        if (!db) return null;
+
+        const rows = await db
+            .select({
+                status: backgroundJobs.status,
+                delayed: sql<boolean>`${backgroundJobs.runAt} > now()`,
+                count: sql<number>`count(*)::int`,
+            })
+            .from(backgroundJobs)
+            .where(eq(backgroundJobs.queue, this.name))
+            .groupBy(backgroundJobs.status, sql`${backgroundJobs.runAt} > now()`);
+
+        const counts: PgJobCounts = { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0 };
+        for (const row of rows) {
+            if (row.status === "waiting") {
+                counts[row.delayed ? "delayed" : "waiting"] += Number(row.count);
+            } else if (row.status in counts) {
+                counts[row.status as keyof PgJobCounts] += Number(row.count);
+            }
+        }
+        return counts;
+    }
+
+    /**
+     * Delete finished jobs past their retention
+     */
+    async clean(): Promise<void> {
+        const db = await getDb();
+        if (!db) return;
+
+        const now = Date.now();
+        await db
+            .delete(backgroundJobs)
+            .where(and(
+                eq(backgroundJobs.queue, this.name),
+                or(
+                    and(eq(backgroundJobs.status, "completed"), lt(backgroundJobs.updatedAt, new Date(now - COMPLETED_RETENTION_MS))),
+                    and(eq(backgroundJobs.status, "failed"), lt(backgroundJobs.updatedAt, new Date(now - FAILED_RETENTION_MS)))
+                )
+            ));
+    }
+}
+
+// ========================================
+// WORKER
+// ========================================
+
+/**
+ * Polls a Postgres queue and runs jobs through a BullMQ-style processor
+ * Emits the same events as a BullMQ Worker: active, completed, failed, error
+ */
+export class PostgresWorker extends EventEmitter {
+    private readonly workerId = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+    private readonly queue: PostgresQueue;
+    private readonly concurrency: number;
+    private readonly pollInterval: number;
+    private readonly visibilityTimeout: number;
+    private running = 0;
+    private polling = false;
+    private closed = false;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private cleanupTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        readonly name: string,
+        private processor: PgJobProcessor,
+        options: PgWorkerOptions = {}
+    ) {
+        super();
+        this.queue = new PostgresQueue(name);
+        this.concurrency = options.concurrency ?? 1;
+        this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+        this.visibilityTimeout = options.visibilityTimeout ?? DEFAULT_VISIBILITY_TIMEOUT;
+
+        this.cleanupTimer = setInterval(() => {
+            this.queue.clean().catch((error) => this.reportError(error));
+        }, CLEANUP_INTERVAL_MS);
+        this.cleanupTimer.unref();
+
+        this.schedulePoll(0);
+    }
+
+    /**
+     * Stop claiming jobs and wait for running ones to finish
+     */
+    async close(): Promise<void> {
+        this.closed = true;
+        if (this.pollTimer) clearTimeout(this.pollTimer);
+        if (this.cleanupTimer) clearInterval(this.cleanupTimer);
+
+        while (this.running > 0) {
+            await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+    }
+
+    private schedulePoll(ms: number): void {
+        if (this.closed) return;
+        if (this.pollTimer) clearTimeout(this.pollTimer);
+        this.pollTimer = setTimeout(() => void this.poll(), ms);
+    }
+
+    /**
+     * Claim due jobs until the queue is empty or every slot is busy
+     */
+    async poll(): Promise<void> {
+        if (this.polling || this.closed) return;
+        this.polling = true;
+
+        try {
+            while (!this.closed && this.running < this.concurrency) {
+                const row = await this.claim();
+                if (!row) break;
+
+                this.running++;
+                void this.run(row).finally(() => {
+                    this.running--;
+                    this.schedulePoll(0);
+                });
+            }
+        } catch (error) {
+            this.reportError(error);
+        } finally {
+            this.polling = false;
+        }
+
+        this.schedulePoll(this.pollInterval);
+    }
+
+    /**
+     * Claim the next due job: a waiting job whose runAt has passed, or an
+     * active job whose worker stopped extending its visibility timeout
+     */
+    private async claim(): Promise<BackgroundJob | undefined> {
+        const db = await getDb();
+        if (!db) return undefined;
+
+        const result = await db.execute(sql`
+            UPDATE background_jobs
+            SET status = 'active',
+                "attemptsMade" = "attemptsMade" + 1,
+                "lockedUntil" = now() + ${this.visibilityTimeout} * interval '1 millisecond',
+                "lockedBy" = ${this.workerId},
+                "updatedAt" = now()
+            WHERE id = (
+                SELECT id FROM background_jobs
+                WHERE queue = ${this.name}
+                  AND ((status = 'waiting' AND "runAt" <= now())
+                    OR (status = 'active' AND "lockedUntil" < now()))
+                ORDER BY priority, "runAt", id
+                FOR UPDATE SKIP LOCKED
+                LIMIT 1
+            )
+            RETURNING *
+        `);
+
+        // Column names match the schema's property names, so raw rows map directly
+        return result.rows[0] as BackgroundJob | undefined;
+    }
+
+    private async run(row: BackgroundJob): Promise<void> {
+        const job = new PgJob(row, (progress) => this.setProgress(row.id, progress));
+
+        // Reclaimed after its worker died on the final attempt
+        if (row.attemptsMade > row.maxAttempts) {
+            const error = new Error("Job stalled more than allowable limit");
+            await this.finish(row.id, { status: "failed", error: error.message });
+            this.emit("failed", job, error);
+            return;
+        }
+
+        const heartbeat = setInterval(() => {
+            this.extendLock(row.id).catch((error) => this.reportError(error));
+        }, Math.max(1000, this.visibilityTimeout / 2));
+
+        this.emit("active", job);
+
+        try {
+            // Processors only use the parts of Job that PgJob implements
+            const result = await this.processor(job as unknown as Job);
+            await this.finish(row.id, { status: "completed", result: result ?? null, progress: 100, completedAt: new Date() });
+            this.emit("completed", job, result);
+        } catch (error) {
+            const err = error instanceof Error ? error : new Error(String(error));
+
+            if (row.attemptsMade < row.maxAttempts) {
+                const delay = getRetryDelay(row.attemptsMade, row.backoffDelay);
+                await this.finish(row.id, { status: "waiting", error: err.message, runAt: new Date(Date.now() + delay) });
+            } else {
+                await this.finish(row.id, { status: "failed", error: err.message });
+            }
+            this.emit("failed", job, err);
+        } finally {
+            clearInterval(heartbeat);
+        }
+    }
+
+    /**
+     * Release a job this worker holds with its new state
+     */
+    private async finish(id: number, update: Partial<typeof backgroundJobs.$inferInsert>): Promise<void> {
+        const db = await getDb();
+        if (!db) return;
+
+        try {
+            await db
+                .update(backgroundJobs)
+                .set({ ...update, lockedUntil: null, lockedBy: null, updatedAt: new Date() })
+                .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.lockedBy, this.workerId)));
+        } catch (error) {
+            this.reportError(error);
+        }
+    }
+
+    /**
+     * Emit an error without crashing when nothing listens for them
+     */
+    private reportError(error: unknown): void {
+        if (this.listenerCount("error") > 0) {
+            this.emit("error", error);
+        } else {
+            console.error(`[Queue] ${this.name} worker error:`, error);
+        }
+    }
+
+    private async extendLock(id: number): Promise<void> {
+        const db = await getDb();
+        if (!db) return;
+
+        await db
+            .update(backgroundJobs)
+            .set({ lockedUntil: new Date(Date.now() + this.visibilityTimeout) })
+            .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.lockedBy, this.workerId)));
+    }
+
+    private async setProgress(id: number, progress: number): Promise<void> {
+        const db = await getDb();
+        if (!db) return;
+
+        await db
+            .update(backgroundJobs)
+            .set({ progress, updatedAt: new Date() })
+            .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.lockedBy, this.workerId)));
+    }
+}
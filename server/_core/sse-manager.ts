@@ -10,6 +10,9 @@ const connections = new Map<string, Response[]>();
 // Store agent execution connections (keyed by executionId)
 const agentConnections = new Map<string, Map<number, Response[]>>();
 
+// Store workflow test run connections (keyed by user and client-generated run ID)
+const workflowTestConnections = new Map<string, Response[]>();
+
 export interface ProgressUpdate {
   type: 'session_created' | 'live_view_ready' | 'navigation' | 'action_start' | 'action_complete' | 'error' | 'complete';
   sessionId: string;
@@ -29,6 +32,7 @@ export type AgentSSEEventType =
   | 'phase:complete'
   | 'execution:complete'
   | 'execution:error'
+  | 'input:required'
   | 'browser:session';
 
 export interface AgentSSEEvent {
@@ -37,6 +41,13 @@ export interface AgentSSEEvent {
   data: any;
 }
 
+export type WorkflowTestSSEEventType = 'step:start' | 'step:complete' | 'run:complete' | 'run:error';
+
+export interface WorkflowTestSSEEvent {
+  type: WorkflowTestSSEEventType;
+  data: any;
+}
+
 /**
  * Send progress update to all clients listening to a session
  */
@@ -241,3 +252,57 @@ export function getAgentConnectionCount(executionId: string): number {
   });
   return count;
 }
+
+// ==================== WORKFLOW TEST RUN SSE FUNCTIONS ====================
+
+const workflowTestKey = (userId: number, runId: string) => `user-${userId}:${runId}`;
+
+/**
+ * Add SSE client connection for a workflow test run
+ */
+export function addWorkflowTestConnection(userId: number, runId: string, res: Response) {
+  const key = workflowTestKey(userId, runId);
+
+  if (!workflowTestConnections.has(key)) {
+    workflowTestConnections.set(key, []);
+  }
+  workflowTestConnections.get(key)!.push(res);
+
+  console.log(`[Workflow Test SSE] Client connected to test run ${runId} for user ${userId}`);
+}
+
+/**
+ * Remove SSE client connection for a workflow test run
+ */
+export function removeWorkflowTestConnection(userId: number, runId: string, res: Response) {
+  const key = workflowTestKey(userId, runId);
+  const clients = workflowTestConnections.get(key);
+
+  if (clients) {
+    const index = clients.indexOf(res);
+    if (index > -1) {
+      clients.splice(index, 1);
+    }
+
+    if (clients.length === 0) {
+      workflowTestConnections.delete(key);
+    }
+  }
+}
+
+/**
+ * Send workflow test run event to the user's clients listening to the run
+ */
+export function sendWorkflowTestEvent(userId: number, runId: string, event: WorkflowTestSSEEvent) {
+  const clients = workflowTestConnections.get(workflowTestKey(userId, runId)) || [];
+  const eventData = JSON.stringify(event.data);
+
+  clients.forEach(res => {
+    try {
+      res.write(`event: ${event.type}\n`);
+      res.write(`data: ${eventData}\n\n`);
+    } catch (e) {
+      console.error(`[Workflow Test SSE] Error sending event to client:`, e);
+    }
+  });
+}
@@ -1,5 +1,12 @@
 import { Express, Request, Response, NextFunction } from "express";
-import { addConnection, removeConnection, addAgentConnection, removeAgentConnection } from "./sse-manager";
+import {
+  addConnection,
+  removeConnection,
+  addAgentConnection,
+  removeAgentConnection,
+  addWorkflowTestConnection,
+  removeWorkflowTestConnection,
+} from "./sse-manager";
 import { sdk } from "./sdk";
 
 // Middleware to authenticate SSE requests
@@ -122,4 +129,40 @@ export function registerSSERoutes(app: Express) {
       clearInterval(heartbeat);
     });
   });
+
+  /**
+   * SSE endpoint for streaming workflow test run step results
+   * The builder opens this with a client-generated run ID before calling
+   * workflows.testRun with the same ID. Requires authentication
+   */
+  app.get("/api/workflows/test-runs/:runId/stream", authenticateRequest, (req: Request & { user?: any }, res: Response) => {
+    const runId = req.params.runId;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    // Set SSE headers
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+
+    res.write(`event: connected\n`);
+    res.write(`data: ${JSON.stringify({ runId, timestamp: new Date().toISOString() })}\n\n`);
+
+    addWorkflowTestConnection(userId, runId, res);
+
+    // Keep connection alive with periodic heartbeat
+    const heartbeat = setInterval(() => {
+      res.write(`:heartbeat ${Date.now()}\n\n`);
+    }, 30000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      removeWorkflowTestConnection(userId, runId, res);
+      res.end();
+    });
+  });
 }
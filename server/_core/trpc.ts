@@ -2,6 +2,7 @@ import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '../../shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import { getTenantService, TenantIsolationService } from "../services/tenantIsolation.service";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
@@ -27,6 +28,22 @@ const requireUser = t.middleware(async opts => {
 
 export const protectedProcedure = t.procedure.use(requireUser);
 
+/**
+ * Authenticated procedure that runs inside the caller's tenant context, so
+ * tenant-scoped queries (TenantIsolationService) resolve to ctx.user
+ */
+export const tenantProcedure = protectedProcedure.use(async opts => {
+  const { ctx, next } = opts;
+
+  const tenantContext = TenantIsolationService.createContext({
+    id: ctx.user.id,
+    email: ctx.user.email,
+    role: ctx.user.role,
+  });
+
+  return getTenantService().runInTenantContext(tenantContext, () => next());
+});
+
 export const adminProcedure = t.procedure.use(
   t.middleware(async opts => {
     const { ctx, next } = opts;
@@ -0,0 +1,72 @@
+/**
+ * Variable Substitution Tests
+ * Covers property paths, expressions and pipe filters in {{ }} placeholders
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  substituteVariables,
+  extractVariableNames,
+  hasVariables,
+} from "./variableSubstitution";
+
+const variables = {
+  name: "Ada",
+  contact: { email: "Ada@Acme.COM", tags: ["vip", "lead"] },
+  price: 19.9,
+  quantity: 3,
+  items: ["a", "b", "c"],
+  signedUp: "2025-01-31T15:04:05Z",
+};
+
+describe("substituteVariables", () => {
+  it("should keep simple substitution and preserve missing variables", () => {
+    expect(substituteVariables("Hello {{name}}, {{missing}}", variables)).toBe("Hello Ada, {{missing}}");
+  });
+
+  it("should resolve property paths, indexes and expressions", () => {
+    expect(substituteVariables("{{contact.email}} {{items[1]}} {{quantity * 2}}", variables)).toBe(
+      "Ada@Acme.COM b 6"
+    );
+  });
+
+  it("should apply filters left to right", () => {
+    expect(substituteVariables("{{contact.email | lower}}", variables)).toBe("ada@acme.com");
+    expect(substituteVariables("{{price * quantity | number:2}}", variables)).toBe("59.70");
+    expect(substituteVariables("{{items | length}}", variables)).toBe("3");
+    expect(substituteVariables("{{signedUp | format:'YYYY-MM-DD'}}", variables)).toBe("2025-01-31");
+    expect(substituteVariables("{{contact.tags | join:' / ' | upper}}", variables)).toBe("VIP / LEAD");
+  });
+
+  it("should fill missing values with the default filter", () => {
+    expect(substituteVariables("{{nickname | default:'friend'}}", variables)).toBe("friend");
+  });
+
+  it("should not treat || as a filter pipe", () => {
+    expect(substituteVariables("{{missing || name | upper}}", variables)).toBe("ADA");
+  });
+
+  it("should leave placeholders with unknown filters or bad input unchanged", () => {
+    expect(substituteVariables("{{name | shout}}", variables)).toBe("{{name | shout}}");
+    expect(substituteVariables("{{name | number}}", variables)).toBe("{{name | number}}");
+  });
+
+  it("should substitute recursively in objects and arrays", () => {
+    expect(substituteVariables({ to: ["{{contact.email | lower}}"], total: "{{quantity + 1}}" }, variables)).toEqual({
+      to: ["ada@acme.com"],
+      total: "4",
+    });
+  });
+});
+
+describe("template helpers", () => {
+  it("should detect and list placeholder variables", () => {
+    expect(hasVariables("Hi {{ contact.email | lower }}")).toBe(true);
+    expect(extractVariableNames("{{contact.email | lower}} {{price * quantity}} {{name}}")).toEqual([
+      "contact",
+      "price",
+      "quantity",
+      "name",
+    ]);
+  });
+});
@@ -20,7 +20,182 @@
  *
  *   // Missing variables are preserved
  *   substituteVariables("Hello {{name}}", {}); // "Hello {{name}}"
+ *
+ *   // Property paths, indexing and expressions (see lib/safeExpressionParser)
+ *   substituteVariables("{{contact.email}} {{items[0]}} {{price * qty}}", vars);
+ *
+ *   // Pipe filters, applied left to right
+ *   substituteVariables("{{contact.email | lower}}", vars);
+ *   substituteVariables("{{price | number:2}}", vars);          // "19.90"
+ *   substituteVariables("{{items | length}}", vars);            // "3"
+ *   substituteVariables("{{date | format:'YYYY-MM-DD'}}", vars); // "2025-01-31"
+ *
+ * Placeholders that fail to resolve (missing variable, invalid expression,
+ * unknown filter) are left unchanged. Nothing is evaluated with eval().
+ */
+
+import {
+  evaluateExpressionValue,
+  getExpressionVariables,
+} from "../lib/safeExpressionParser";
+
+/**
+ * Matches {{ ... }} placeholders
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+type TemplateFilter = (value: unknown, ...args: Array<string | number>) => unknown;
+
+/**
+ * Format a date with YYYY, MM, DD, HH, mm and ss tokens (UTC)
  */
+function formatDate(value: unknown, pattern: string): string {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${String(value)}`);
+  }
+
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const parts: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+}
+
+/**
+ * Filters available after `|` in a placeholder
+ */
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  lower: (value) => String(value ?? "").toLowerCase(),
+  upper: (value) => String(value ?? "").toUpperCase(),
+  trim: (value) => String(value ?? "").trim(),
+  number: (value, decimals) => {
+    const number = Number(value);
+    if (value === null || value === undefined || value === "" || Number.isNaN(number)) {
+      throw new Error(`Not a number: ${String(value)}`);
+    }
+    return decimals === undefined ? number : number.toFixed(Math.min(Math.max(Number(decimals), 0), 20));
+  },
+  length: (value) => {
+    if (typeof value === "string" || Array.isArray(value)) return value.length;
+    if (value && typeof value === "object") return Object.keys(value).length;
+    return 0;
+  },
+  format: (value, pattern = "YYYY-MM-DD") => formatDate(value, String(pattern)),
+  default: (value, fallback = "") =>
+    value === undefined || value === null || value === "" ? fallback : value,
+  join: (value, separator = ", ") => (Array.isArray(value) ? value.join(String(separator)) : value),
+  first: (value) => (Array.isArray(value) || typeof value === "string" ? value[0] : value),
+  last: (value) => (Array.isArray(value) || typeof value === "string" ? value[value.length - 1] : value),
+  json: (value) => JSON.stringify(value),
+  urlencode: (value) => encodeURIComponent(String(value ?? "")),
+};
+
+/**
+ * Split a placeholder on filter pipes, ignoring `||` and pipes inside quotes
+ */
+function splitPipes(placeholder: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < placeholder.length; i++) {
+    const char = placeholder[i];
+
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "|" && placeholder[i + 1] !== "|" && placeholder[i - 1] !== "|") {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Parse `name:arg1, 'arg 2'` into the filter name and its arguments
+ */
+function parseFilter(segment: string): { name: string; args: Array<string | number> } {
+  const colon = segment.indexOf(":");
+  if (colon === -1) {
+    return { name: segment.trim(), args: [] };
+  }
+
+  const args: Array<string | number> = [];
+  const rest = segment.slice(colon + 1);
+  const argPattern = /\s*(?:"([^"]*)"|'([^']*)'|([^,]+))\s*(?:,|$)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = argPattern.exec(rest)) !== null && match[0] !== "") {
+    if (match[1] !== undefined || match[2] !== undefined) {
+      args.push(match[1] ?? match[2]);
+    } else {
+      const bare = match[3].trim();
+      args.push(bare !== "" && !Number.isNaN(Number(bare)) ? Number(bare) : bare);
+    }
+  }
+
+  return { name: segment.slice(0, colon).trim(), args };
+}
+
+/**
+ * Resolve a placeholder body (expression plus filters)
+ * Returns undefined when it can't be resolved
+ */
+function resolvePlaceholder(body: string, variables: Record<string, unknown>): unknown {
+  const [expression, ...filters] = splitPipes(body);
+
+  let value: unknown;
+  if (/^\w+$/.test(expression)) {
+    value = variables[expression];
+  } else {
+    const result = evaluateExpressionValue(expression, variables);
+    if (!result.success) {
+      return undefined;
+    }
+    value = result.value;
+  }
+
+  for (const segment of filters) {
+    const { name, args } = parseFilter(segment);
+    const filter = Object.prototype.hasOwnProperty.call(TEMPLATE_FILTERS, name)
+      ? TEMPLATE_FILTERS[name]
+      : undefined;
+    if (!filter) {
+      return undefined;
+    }
+
+    try {
+      value = filter(value, ...args);
+    } catch {
+      return undefined;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Replace every placeholder in a string
+ */
+function substituteTemplate(template: string, variables: Record<string, unknown>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, body: string) => {
+    const value = resolvePlaceholder(body, variables);
+    return value !== undefined ? String(value) : match;
+  });
+}
 
 /**
  * Substitute variables in a value using {{variableName}} syntax.
@@ -34,9 +209,7 @@ export function substituteVariables(
   variables: Record<string, unknown>
 ): unknown {
   if (typeof value === "string") {
-    return value.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-      return variables[varName] !== undefined ? String(variables[varName]) : match;
-    });
+    return substituteTemplate(value, variables);
   }
 
   if (typeof value === "object" && value !== null) {
@@ -65,9 +238,7 @@ export function substituteStringVariables(
   template: string,
   variables: Record<string, unknown>
 ): string {
-  return template.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-    return variables[varName] !== undefined ? String(variables[varName]) : match;
-  });
+  return substituteTemplate(template, variables);
 }
 
 /**
@@ -77,22 +248,31 @@ export function substituteStringVariables(
  * @returns True if the string contains variables
  */
 export function hasVariables(value: string): boolean {
-  return /\{\{\w+\}\}/.test(value);
+  return new RegExp(PLACEHOLDER_PATTERN.source).test(value);
 }
 
 /**
  * Extract variable names from a template string
+ * Returns the top-level variables each placeholder reads, e.g.
+ * `{{contact.email | lower}}` -> "contact"
  *
  * @param template - The template string
  * @returns Array of variable names found in the template
  */
 export function extractVariableNames(template: string): string[] {
   const names: string[] = [];
-  const regex = /\{\{(\w+)\}\}/g;
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(template)) !== null) {
-    if (!names.includes(match[1])) {
-      names.push(match[1]);
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const [expression] = splitPipes(match[1]);
+    let variables: string[];
+    try {
+      variables = getExpressionVariables(expression);
+    } catch {
+      continue; // Not a valid expression
+    }
+    for (const name of variables) {
+      if (!names.includes(name)) {
+        names.push(name);
+      }
     }
   }
   return names;
@@ -0,0 +1,89 @@
+/**
+ * Lead Export Endpoint
+ * Streams a lead list as CSV, XLSX or a GoHighLevel contact-import CSV
+ *
+ * GET /api/lead-lists/:listId/export?format=csv|xlsx|ghl&status=enriched,failed
+ *
+ * Authenticates with the session cookie and only exports lists owned by the
+ * caller. Columns follow the list's saved export profile.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { sdk } from "../_core/sdk";
+import { getTenantService, TenantIsolationService } from "../services/tenantIsolation.service";
+import {
+  ENRICHMENT_STATUSES,
+  LEAD_EXPORT_FORMATS,
+  exportContentType,
+  exportFileName,
+  leadExportService,
+} from "../services/leadExport.service";
+
+export const leadExportRouter = Router();
+
+const exportQuerySchema = z.object({
+  format: z.enum(LEAD_EXPORT_FORMATS).default("csv"),
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").map((status) => status.trim()) : []))
+    .pipe(z.array(z.enum(ENRICHMENT_STATUSES))),
+});
+
+leadExportRouter.get("/:listId/export", async (req: Request, res: Response) => {
+  let user;
+  try {
+    user = await sdk.authenticateRequest(req);
+  } catch {
+    res.status(401).json({ error: "Authentication required" });
+    return;
+  }
+
+  const listId = Number(req.params.listId);
+  const query = exportQuerySchema.safeParse(req.query);
+  if (!Number.isInteger(listId) || !query.success) {
+    res.status(400).json({
+      error: "Invalid export request",
+      details: query.success ? undefined : query.error.issues,
+    });
+    return;
+  }
+  const { format, status } = query.data;
+
+  const tenantContext = TenantIsolationService.createContext({ id: user.id, email: user.email ?? undefined, role: user.role });
+
+  await getTenantService().runInTenantContext(tenantContext, async () => {
+    try {
+      const list = await leadExportService.getList(listId);
+      if (!list) {
+        res.status(404).json({ error: "Lead list not found" });
+        return;
+      }
+
+      res.setHeader("Content-Type", exportContentType(format));
+      res.setHeader("Content-Disposition", `attachment; filename="${exportFileName(list.name, format)}"`);
+      res.setHeader("Cache-Control", "no-store");
+
+      const count = await leadExportService.export(res, {
+        listId,
+        format,
+        statuses: status,
+        source: list.name,
+      });
+      res.end();
+
+      console.log(`[LeadExport] Exported ${count} leads from list ${listId} as ${format}`);
+    } catch (error) {
+      console.error(`[LeadExport] Export of list ${listId} failed:`, error);
+
+      if (!res.headersSent) {
+        res.removeHeader("Content-Disposition");
+        res.status(500).json({ error: "Export failed" });
+      } else {
+        // Part of the file is already out; abort so the download is not mistaken for complete
+        res.destroy();
+      }
+    }
+  });
+});
@@ -3,6 +3,7 @@ import { usersRouter } from "./users";
 import { systemRouter } from "./system";
 import { auditRouter } from "./audit";
 import { configRouter } from "./config";
+import { vaultRouter } from "./vault";
 
 /**
  * Admin Router Aggregator
@@ -12,6 +13,7 @@ import { configRouter } from "./config";
  * - system: System health and monitoring
  * - audit: Audit logs and activity tracking
  * - config: Feature flags, system configuration, and maintenance mode
+ * - vault: Credential vault master key rotation and re-keying
  *
  * Usage:
  * ```typescript
@@ -37,6 +39,9 @@ import { configRouter } from "./config";
  * // Manage feature flags
  * await trpc.admin.config.flags.list.query();
  * await trpc.admin.config.flags.toggle.mutate({ id: 1, enabled: true });
+ *
+ * // Rotate the credential vault master key
+ * await trpc.admin.vault.rotateMasterKey.mutate();
  * ```
  *
  * All procedures in this router are protected with adminProcedure middleware,
@@ -47,4 +52,5 @@ export const adminRouter = router({
   system: systemRouter,
   audit: auditRouter,
   config: configRouter,
+  vault: vaultRouter,
 });
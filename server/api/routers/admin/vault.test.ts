@@ -0,0 +1,96 @@
+/**
+ * Admin Vault Router Tests
+ * Covers master key rotation and re-key status for administrators
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockVault } = vi.hoisted(() => ({
+  mockVault: {
+    rotateMasterKey: vi.fn(),
+    startRekeyJob: vi.fn(),
+    getRekeyJobStatus: vi.fn(),
+    getKeyVersionCounts: vi.fn(),
+  },
+}));
+
+vi.mock("../../../services/security/credentialVault.service", () => ({
+  credentialVaultService: mockVault,
+}));
+
+import { vaultRouter } from "./vault";
+import { createMockContext } from "../../../../client/src/__tests__/helpers/test-helpers";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const runningJob = {
+  state: "running" as const,
+  targetKeyId: "k2",
+  total: 3,
+  rekeyed: 0,
+  failures: [],
+  startedAt: new Date(),
+};
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Admin Vault Router", () => {
+  const adminCaller = vaultRouter.createCaller(createMockContext({ id: 1, role: "admin" }));
+  const userCaller = vaultRouter.createCaller(createMockContext({ id: 2, role: "user" }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("should rotate the master key and return the re-key job", async () => {
+    mockVault.rotateMasterKey.mockResolvedValue(runningJob);
+
+    await expect(adminCaller.rotateMasterKey()).resolves.toEqual(runningJob);
+    expect(mockVault.rotateMasterKey).toHaveBeenCalledTimes(1);
+  });
+
+  it("should surface why a master key can't be rotated", async () => {
+    mockVault.rotateMasterKey.mockRejectedValue(new Error("Env master keys are rotated by deployment"));
+
+    await expect(adminCaller.rotateMasterKey()).rejects.toMatchObject({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Env master keys are rotated by deployment",
+    });
+  });
+
+  it("should start a re-key job with the requested batch size", async () => {
+    mockVault.startRekeyJob.mockResolvedValue(runningJob);
+
+    await expect(adminCaller.startRekey({ batchSize: 10 })).resolves.toEqual(runningJob);
+    expect(mockVault.startRekeyJob).toHaveBeenCalledWith({ batchSize: 10 });
+  });
+
+  it("should report the re-key job and credentials per key version", async () => {
+    mockVault.getRekeyJobStatus.mockReturnValue({ ...runningJob, state: "completed", rekeyed: 3 });
+    mockVault.getKeyVersionCounts.mockReturnValue({ k2: 3 });
+
+    await expect(adminCaller.getRekeyStatus()).resolves.toEqual({
+      job: expect.objectContaining({ state: "completed", rekeyed: 3 }),
+      keyVersions: { k2: 3 },
+    });
+  });
+
+  it("should reject non-admin users", async () => {
+    await expect(userCaller.rotateMasterKey()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(userCaller.startRekey()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(userCaller.getRekeyStatus()).rejects.toMatchObject({ code: "FORBIDDEN" });
+
+    expect(mockVault.rotateMasterKey).not.toHaveBeenCalled();
+    expect(mockVault.startRekeyJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { router, adminProcedure } from "../../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { credentialVaultService } from "../../../services/security/credentialVault.service";
+
+/**
+ * Admin Vault Router
+ *
+ * Lets administrators manage the credential vault master key:
+ * - Re-key status and credentials per master key version
+ * - Master key rotation (new key version, then re-key)
+ * - Re-keying to the active key after a deployment-managed rotation
+ *
+ * All procedures are protected with adminProcedure middleware
+ */
+
+// ========================================
+// VALIDATION SCHEMAS
+// ========================================
+
+const startRekeySchema = z.object({
+  batchSize: z.number().int().min(1).max(1000).optional(),
+}).optional();
+
+// ========================================
+// ADMIN VAULT ROUTER
+// ========================================
+
+export const vaultRouter = router({
+  /**
+   * Get the current re-key job and how many credentials use each key version
+   */
+  getRekeyStatus: adminProcedure
+    .query(() => {
+      return {
+        job: credentialVaultService.getRekeyJobStatus(),
+        keyVersions: credentialVaultService.getKeyVersionCounts(),
+      };
+    }),
+
+  /**
+   * Create a new master key version and start re-keying credentials to it
+   * Env-configured keys are rotated by deployment; use startRekey afterwards
+   */
+  rotateMasterKey: adminProcedure
+    .mutation(async ({ ctx }) => {
+      try {
+        const job = await credentialVaultService.rotateMasterKey();
+
+        console.log(`[Admin] Vault master key rotated to ${job.targetKeyId} by admin ${ctx.user.id}`);
+
+        return job;
+      } catch (error) {
+        console.error("[Admin] Failed to rotate vault master key:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to rotate vault master key",
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Re-key credentials that aren't wrapped by the active master key
+   */
+  startRekey: adminProcedure
+    .input(startRekeySchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const job = await credentialVaultService.startRekeyJob({ batchSize: input?.batchSize });
+
+        console.log(`[Admin] Vault re-key to ${job.targetKeyId} started by admin ${ctx.user.id}`);
+
+        return job;
+      } catch (error) {
+        console.error("[Admin] Failed to start vault re-key:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to start vault re-key",
+          cause: error,
+        });
+      }
+    }),
+});
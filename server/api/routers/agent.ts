@@ -7,6 +7,7 @@ import { taskExecutions, agencyTasks } from "../../../drizzle/schema-webhooks";
 import { getAgentOrchestrator } from "../../services/agentOrchestrator.service";
 import { getSubscriptionService } from "../../services/subscription.service";
 import { getCostTrackingService } from "../../services/costTracking.service";
+import type { LLMModel } from "../../providers/types";
 
 /**
  * Agent tRPC Router
@@ -29,6 +30,8 @@ const executeTaskSchema = z.object({
   context: z.record(z.string(), z.unknown()).optional(),
   maxIterations: z.number().min(1).max(100).optional().default(50),
   taskId: z.number().int().positive().optional(), // Link to existing agency task
+  llmProvider: z.enum(["anthropic", "openai", "google", "ollama"]).optional(), // Preferred LLM provider
+  llmModel: z.string().min(1).max(100).optional(), // Model for the preferred provider
 });
 
 const getExecutionSchema = z.object({
@@ -155,6 +158,8 @@ export const agentRouter = router({
           context: input.context || {},
           maxIterations: input.maxIterations,
           taskId: input.taskId,
+          llmProvider: input.llmProvider,
+          llmModel: input.llmModel as LLMModel | undefined,
         });
 
         // Increment execution usage after successful execution
@@ -363,12 +368,9 @@ export const agentRouter = router({
 
   /**
    * Respond to agent question
-   * Provides user input when agent uses 'ask_user' tool and enters 'needs_input' state
-   *
-   * Note: This is a placeholder. Full implementation requires:
-   * - Persistent agent state management
-   * - Execution resumption from needs_input state
-   * - User response integration into conversation history
+   * Provides user input when agent uses 'ask_user' tool and enters 'needs_input' state.
+   * The agent state checkpointed at the question is restored, the answer is
+   * injected into the conversation, and the agent loop continues from there.
    */
   respondToAgent: protectedProcedure
     .input(respondToAgentSchema)
@@ -408,18 +410,35 @@ export const agentRouter = router({
           });
         }
 
-        // TODO: Implement agent resumption with user response
-        // This requires:
-        // 1. Restoring agent state from database
-        // 2. Adding user response to conversation history
-        // 3. Resuming agent loop from where it paused
-        // 4. Updating execution status
-
-        throw new TRPCError({
-          code: "NOT_IMPLEMENTED",
-          message: "Agent resumption not yet implemented. This feature requires persistent agent state management.",
-        });
+        const orchestrator = getAgentOrchestrator();
+        let result;
+        try {
+          result = await orchestrator.resumeWithUserResponse({
+            executionId: input.executionId,
+            userId,
+            response: input.response,
+          });
+        } catch (resumeError) {
+          if (resumeError instanceof Error && resumeError.message.startsWith("No pending question")) {
+            throw new TRPCError({
+              code: "PRECONDITION_FAILED",
+              message: resumeError.message,
+            });
+          }
+          throw resumeError;
+        }
 
+        return {
+          success: true,
+          executionId: result.executionId,
+          status: result.status,
+          plan: result.plan,
+          thinkingSteps: result.thinkingSteps,
+          toolHistory: result.toolHistory,
+          output: result.output,
+          iterations: result.iterations,
+          duration: result.duration,
+        };
       } catch (error) {
         console.error("Failed to respond to agent:", error);
         if (error instanceof TRPCError) throw error;
@@ -7,6 +7,7 @@
  * - Check permission for specific tool execution
  * - Get permission summary for UI display
  * - Admin endpoints for managing permissions
+ * - Per-tenant shell policies for sandboxed shell access
  */
 
 import { router, protectedProcedure, adminProcedure } from "../../_core/trpc";
@@ -15,6 +16,7 @@ import {
   getAgentPermissionsService,
   AgentPermissionLevel,
 } from "../../services/agentPermissions.service";
+import { shellSandboxPolicySchema } from "../../services/shellSandbox.service";
 import { TRPCError } from "@trpc/server";
 
 // ========================================
@@ -30,6 +32,16 @@ const getUserPermissionsSchema = z.object({
   userId: z.number().int().positive().optional().describe("User ID (admin only, defaults to current user)"),
 });
 
+const getShellPolicySchema = z.object({
+  userId: z.number().int().positive().describe("Tenant user ID"),
+});
+
+const setShellPolicySchema = z.object({
+  userId: z.number().int().positive().describe("Tenant user ID"),
+  enabled: z.boolean().optional().describe("Grant shell access to a non-admin tenant"),
+  policy: shellSandboxPolicySchema.partial().optional().describe("Fields to change; others keep their value"),
+});
+
 // ========================================
 // ROUTER DEFINITION
 // ========================================
@@ -169,6 +181,76 @@ export const agentPermissionsRouter = router({
       }
     }),
 
+  /**
+   * Get the shell policy agent shell commands run under for the current user
+   */
+  getMyShellPolicy: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const permissionsService = getAgentPermissionsService();
+      const shellPolicy = await permissionsService.getShellPolicy(ctx.user.id);
+
+      return {
+        success: true,
+        shellPolicy,
+      };
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to get shell policy",
+      });
+    }
+  }),
+
+  /**
+   * Admin: Get a tenant's shell policy
+   */
+  getShellPolicy: adminProcedure
+    .input(getShellPolicySchema)
+    .query(async ({ input }) => {
+      try {
+        const permissionsService = getAgentPermissionsService();
+        const shellPolicy = await permissionsService.getShellPolicy(input.userId);
+
+        return {
+          success: true,
+          userId: input.userId,
+          shellPolicy,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to get shell policy",
+        });
+      }
+    }),
+
+  /**
+   * Admin: Enable shell access for a tenant or change its sandbox policy
+   */
+  setShellPolicy: adminProcedure
+    .input(setShellPolicySchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const permissionsService = getAgentPermissionsService();
+        const shellPolicy = await permissionsService.setShellPolicy(
+          input.userId,
+          { enabled: input.enabled, policy: input.policy },
+          ctx.user.id
+        );
+
+        return {
+          success: true,
+          userId: input.userId,
+          shellPolicy,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update shell policy",
+        });
+      }
+    }),
+
   /**
    * Admin: Get all permission levels and their capabilities
    */
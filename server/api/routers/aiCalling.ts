@@ -6,6 +6,7 @@ import { ai_call_campaigns, ai_calls, leads, lead_lists } from "../../../drizzle
 import { eq, and, desc, sql, count, inArray } from "drizzle-orm";
 import { VapiService } from "../../services/vapi.service";
 import { CreditService } from "../../services/credit.service";
+import { workflowTriggerService } from "../../services/workflowTriggers.service";
 
 /**
  * AI Calling Router
@@ -758,6 +759,18 @@ export const aiCallingRouter = router({
               totalDuration: sql`${ai_call_campaigns.totalDuration} + ${status.duration || 0}`,
             })
             .where(eq(ai_call_campaigns.id, call.campaignId));
+
+          // Only on the transition so repeated syncs don't re-trigger workflows
+          if (call.status !== "completed") {
+            workflowTriggerService.publish(call.userId, "call.completed", {
+              callId: call.id,
+              campaignId: call.campaignId,
+              phoneNumber: call.phoneNumber,
+              duration: status.duration || 0,
+              outcome: status.outcome,
+              transcript: status.transcript,
+            });
+          }
         }
 
         if (status.status === "answered") {
@@ -0,0 +1,210 @@
+/**
+ * Browser Router Local Session Tests
+ * Covers sessions on the local Chromium backend, created through the router,
+ * and driving them through the stagehandService-backed procedures
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { PNG } from "pngjs";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockDb, mockPage, mockStagehand } = vi.hoisted(() => {
+  const chain: any = {};
+  for (const method of ["select", "from", "where", "insert", "values", "update", "set"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.limit = vi.fn();
+  chain.returning = vi.fn();
+
+  const mockPage = {
+    goto: vi.fn(),
+    screenshot: vi.fn(),
+    url: vi.fn(() => "https://app.example.com/contacts"),
+    title: vi.fn(async () => "Contacts"),
+    $: vi.fn(),
+    evaluate: vi.fn(async () => []),
+  };
+
+  return {
+    mockDb: chain,
+    mockPage,
+    mockStagehand: {
+      init: vi.fn(),
+      close: vi.fn(),
+      context: { pages: vi.fn(() => [mockPage]) },
+    },
+  };
+});
+
+vi.mock("../../db", () => ({
+  getDb: vi.fn().mockResolvedValue(mockDb),
+}));
+
+vi.mock("@browserbasehq/stagehand", () => ({
+  Stagehand: vi.fn(function () {
+    return mockStagehand;
+  }),
+}));
+
+vi.mock("../../_core/browserbaseSDK", () => ({
+  browserbaseSDK: { createSession: vi.fn(), getSessionDebug: vi.fn(), terminateSession: vi.fn() },
+}));
+
+vi.mock("../../services/sessionMetrics.service", () => ({
+  sessionMetricsService: { trackSessionStart: vi.fn(), trackOperation: vi.fn(), trackSessionEnd: vi.fn() },
+}));
+
+vi.mock("../../services/websocket.service", () => ({
+  websocketService: { broadcastToUser: vi.fn() },
+}));
+
+import { Stagehand } from "@browserbasehq/stagehand";
+import { browserRouter } from "./browser";
+import { localBrowserPool } from "../../services/browser/browserBackend.service";
+import { createMockContext } from "../../../client/src/__tests__/helpers/test-helpers";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+/**
+ * A 10x10 white PNG, with the top-left corner painted black when changed
+ */
+const screenshot = (changed = false) => {
+  const png = new PNG({ width: 10, height: 10 });
+  png.data.fill(255);
+  if (changed) {
+    for (let y = 0; y < 5; y++) {
+      for (let x = 0; x < 5; x++) {
+        png.data.fill(0, (y * 10 + x) * 4, (y * 10 + x) * 4 + 3);
+      }
+    }
+  }
+  return PNG.sync.write(png);
+};
+
+const createLocalSession = async (caller: ReturnType<typeof browserRouter.createCaller>) => {
+  mockDb.returning.mockResolvedValueOnce([{ expiresAt: new Date(), createdAt: new Date() }]);
+  return caller.createSession({ backend: "local" });
+};
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Browser Router - local sessions", () => {
+  const caller = browserRouter.createCaller(createMockContext({ id: 1 }));
+  const otherCaller = browserRouter.createCaller(createMockContext({ id: 2 }));
+  const originalLocalEnabled = process.env.LOCAL_BROWSER_ENABLED;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    process.env.LOCAL_BROWSER_ENABLED = "true";
+  });
+
+  afterEach(() => {
+    process.env.LOCAL_BROWSER_ENABLED = originalLocalEnabled;
+  });
+
+  it("should create a local session and hold a pool slot", async () => {
+    mockDb.returning.mockResolvedValueOnce([{ expiresAt: new Date(), createdAt: new Date() }]);
+
+    const result = await caller.createSession({ backend: "local" });
+
+    expect(result).toMatchObject({ backend: "local", status: "RUNNING", debugUrl: null });
+    expect(mockStagehand.init).toHaveBeenCalled();
+    expect(localBrowserPool.size).toBe(1);
+
+    await caller.closeSession({ sessionId: result.sessionId });
+    expect(localBrowserPool.size).toBe(0);
+  });
+
+  it("should close the browser and free its slot when the session can't be stored", async () => {
+    mockDb.returning.mockRejectedValueOnce(new Error("insert failed"));
+
+    await expect(caller.createSession({ backend: "local" })).rejects.toThrow("insert failed");
+
+    expect(mockStagehand.close).toHaveBeenCalled();
+    expect(localBrowserPool.size).toBe(0);
+  });
+
+  it("should refuse local sessions unless the operator enables them", async () => {
+    delete process.env.LOCAL_BROWSER_ENABLED;
+
+    await expect(caller.createSession({ backend: "local" })).rejects.toThrow("Local browsers are disabled");
+
+    expect(Stagehand).not.toHaveBeenCalled();
+    expect(localBrowserPool.size).toBe(0);
+  });
+
+  it("should limit how many local browsers one user holds", async () => {
+    const { sessionId } = await createLocalSession(caller);
+
+    await expect(caller.createSession({ backend: "local" })).rejects.toThrow("Local browser limit reached");
+
+    const other = await createLocalSession(otherCaller);
+    expect(localBrowserPool.size).toBe(2);
+
+    await caller.closeSession({ sessionId });
+    await otherCaller.closeSession({ sessionId: other.sessionId });
+  });
+
+  it("should not launch a browser for a local session ID it didn't create", async () => {
+    mockDb.limit.mockResolvedValueOnce([]);
+
+    await expect(
+      caller.navigateTo({ sessionId: "local_1700000000000_abcd1234", url: "https://example.com" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    expect(Stagehand).not.toHaveBeenCalled();
+    expect(localBrowserPool.size).toBe(0);
+  });
+
+  it("should only attach to local sessions owned by the caller", async () => {
+    const { sessionId } = await createLocalSession(caller);
+
+    mockDb.limit.mockResolvedValueOnce([]);
+    await expect(
+      otherCaller.navigateTo({ sessionId, url: "https://example.com" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(mockPage.goto).not.toHaveBeenCalled();
+
+    mockDb.limit.mockResolvedValueOnce([{ id: 10 }]);
+    await expect(caller.navigateTo({ sessionId, url: "https://example.com" })).resolves.toMatchObject({
+      success: true,
+    });
+    expect(mockPage.goto).toHaveBeenCalledWith("https://example.com", expect.anything());
+    expect(Stagehand).toHaveBeenCalledTimes(1);
+
+    await caller.closeSession({ sessionId });
+  });
+
+  it("should capture and verify visual state for a session created through the router", async () => {
+    const { sessionId } = await createLocalSession(caller);
+    mockPage.screenshot.mockResolvedValueOnce(screenshot());
+
+    const { stateId } = await caller.captureVisualState({ sessionId });
+
+    mockPage.screenshot.mockResolvedValue(screenshot(true));
+    mockPage.$.mockResolvedValueOnce({ isVisible: async () => true, isEnabled: async () => true });
+
+    const result = await caller.verifyAction({
+      sessionId,
+      selector: "button.save",
+      actionType: "save",
+      beforeStateId: stateId,
+    });
+
+    expect(result.canProceed).toBe(true);
+    expect(result.actionApplied).toBe(true);
+    expect(result.visualVerification?.changedPixelRatio).toBeCloseTo(0.25);
+
+    await caller.closeSession({ sessionId });
+    await expect(caller.captureVisualState({ sessionId })).rejects.toThrow("Could not capture screenshot");
+  });
+});
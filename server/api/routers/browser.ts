@@ -8,6 +8,16 @@ import { browserbaseSDK } from "../../_core/browserbaseSDK";
 import { Stagehand } from "@browserbasehq/stagehand";
 import { sessionMetricsService } from "../../services/sessionMetrics.service";
 import { websocketService } from "../../services/websocket.service";
+import {
+  BROWSER_BACKENDS,
+  resolveBrowserBackend,
+  createLocalSessionId,
+  isLocalSessionId,
+  getLocalBrowserLaunchOptions,
+  listLocalDownloads,
+  removeLocalDownloads,
+  localBrowserPool,
+} from "../../services/browser/browserBackend.service";
 
 /**
  * Browser Control API Router
@@ -18,6 +28,7 @@ import { websocketService } from "../../services/websocket.service";
  *
  * Features:
  * - Session creation with geolocation support
+ * - Browserbase or local Chromium backend per tenant/session
  * - AI-powered browser actions via Stagehand
  * - Data extraction with schema validation
  * - Screenshot capture
@@ -52,6 +63,15 @@ const createSessionSchema = z.object({
   // Caching options for 10-100x faster subsequent runs
   cacheDir: z.string().optional().describe("Directory for caching agent actions. Enables 10-100x faster subsequent runs."),
   selfHeal: z.boolean().default(false).describe("Enable self-healing to adapt to minor page changes"),
+  // Defaults to the user's preferred backend, then BROWSER_BACKEND
+  backend: z.enum(BROWSER_BACKENDS).optional().describe("Run on Browserbase or a local/self-hosted Chromium"),
+});
+
+const screenRegionSchema = z.object({
+  x: z.number().int().min(0),
+  y: z.number().int().min(0),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
 });
 
 const navigateSchema = z.object({
@@ -242,14 +262,53 @@ const deepLocatorSelectSchema = z.object({
  */
 const stagehandInstances = new Map<string, Stagehand>();
 
+/**
+ * Ensure a local session was created for this user
+ * Local browsers run on this host, so unknown or foreign IDs are NOT_FOUND
+ */
+async function assertLocalSessionOwner(sessionId: string, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Database not initialized",
+    });
+  }
+
+  const [session] = await db.select({ id: browserSessions.id })
+    .from(browserSessions)
+    .where(and(
+      eq(browserSessions.sessionId, sessionId),
+      eq(browserSessions.userId, userId)
+    ))
+    .limit(1);
+
+  if (!session || !stagehandInstances.has(sessionId)) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Browser session not found",
+    });
+  }
+}
+
 /**
  * Get or create Stagehand instance for a session
+ * Local browsers are only launched by createSession (launchLocal); other
+ * callers can only attach to a running local session they own
  */
 async function getStagehandInstance(
   sessionId: string,
   userId: number,
-  browserSettings?: any
+  browserSettings?: any,
+  options: { launchLocal?: boolean } = {}
 ): Promise<{ stagehand: Stagehand; isNew: boolean }> {
+  const isLocal = isLocalSessionId(sessionId);
+
+  if (isLocal && !options.launchLocal) {
+    await assertLocalSessionOwner(sessionId, userId);
+    return { stagehand: stagehandInstances.get(sessionId)!, isNew: false };
+  }
+
   // Check if instance already exists
   if (stagehandInstances.has(sessionId)) {
     return { stagehand: stagehandInstances.get(sessionId)!, isNew: false };
@@ -263,13 +322,23 @@ async function getStagehandInstance(
   const region = process.env.BROWSERBASE_REGION || "us-west-2";
 
   // Build Stagehand config with optional caching for 10-100x faster subsequent runs
-  const stagehandConfig: any = {
+  const stagehandConfig: any = isLocal ? {
+    env: "LOCAL",
+    verbose: 0,
+    disablePino: true,
+    model: modelName,
+    localBrowserLaunchOptions: getLocalBrowserLaunchOptions(sessionId, {
+      viewport: browserSettings?.viewport,
+    }),
+  } : {
     env: "BROWSERBASE",
     verbose: 0,
     disablePino: true,
     model: modelName,
     apiKey: process.env.BROWSERBASE_API_KEY,
     projectId: process.env.BROWSERBASE_PROJECT_ID,
+    // Attach to the session created by createSession instead of starting another
+    browserbaseSessionID: sessionId,
     browserbaseSessionCreateParams: {
       projectId: process.env.BROWSERBASE_PROJECT_ID!,
       proxies: true,
@@ -303,11 +372,32 @@ async function getStagehandInstance(
     console.log(`[Browser] Self-healing enabled`);
   }
 
+  if (isLocal) {
+    localBrowserPool.acquire(sessionId, userId);
+  }
+
   const stagehand = new Stagehand(stagehandConfig);
 
-  await stagehand.init();
+  try {
+    await stagehand.init();
+  } catch (error) {
+    localBrowserPool.release(sessionId);
+    throw error;
+  }
   stagehandInstances.set(sessionId, stagehand);
 
+  // Tabs, uploads and visual verification go through stagehandService
+  try {
+    const { stagehandService } = await import("../../services/stagehand.service");
+    await stagehandService.registerSession(sessionId, stagehand, {
+      backend: isLocal ? "local" : "browserbase",
+      userId,
+    });
+  } catch (error) {
+    await closeStagehandInstance(sessionId);
+    throw error;
+  }
+
   return { stagehand, isNew: true };
 }
 
@@ -317,6 +407,8 @@ async function getStagehandInstance(
 async function closeStagehandInstance(sessionId: string): Promise<void> {
   const stagehand = stagehandInstances.get(sessionId);
   if (stagehand) {
+    const { stagehandService } = await import("../../services/stagehand.service");
+    stagehandService.unregisterSession(sessionId);
     try {
       await stagehand.close();
     } catch (error) {
@@ -324,6 +416,16 @@ async function closeStagehandInstance(sessionId: string): Promise<void> {
     }
     stagehandInstances.delete(sessionId);
   }
+  localBrowserPool.release(sessionId);
+}
+
+/**
+ * Terminate the Browserbase side of a session
+ * Local sessions end when their Stagehand instance closes
+ */
+async function terminateRemoteSession(sessionId: string): Promise<void> {
+  if (isLocalSessionId(sessionId)) return;
+  await browserbaseSDK.terminateSession(sessionId);
 }
 
 // ========================================
@@ -333,7 +435,7 @@ async function closeStagehandInstance(sessionId: string): Promise<void> {
 export const browserRouter = router({
   /**
    * Create a new browser session
-   * Initializes Browserbase session and stores metadata
+   * Initializes a Browserbase session or launches local Chromium, and stores metadata
    */
   createSession: protectedProcedure
     .input(createSessionSchema)
@@ -349,6 +451,57 @@ export const browserRouter = router({
       }
 
       try {
+        const backend = await resolveBrowserBackend({ requested: input.backend, userId });
+
+        if (backend === "local") {
+          // Local Chromium starts with the session; there is no hosted live view or recording
+          const sessionId = createLocalSessionId();
+          await getStagehandInstance(sessionId, userId, {
+            ...input.browserSettings,
+            cacheDir: input.cacheDir,
+            selfHeal: input.selfHeal,
+          }, { launchLocal: true });
+
+          let dbSession: typeof browserSessions.$inferSelect;
+          try {
+            [dbSession] = await db.insert(browserSessions).values({
+              userId,
+              sessionId,
+              status: "active",
+              metadata: {
+                backend,
+                browserSettings: input.browserSettings,
+                createdVia: "api",
+              },
+              expiresAt: new Date(Date.now() + input.timeout * 1000),
+            }).returning();
+          } catch (error) {
+            // Don't leave an untracked browser holding a pool slot
+            await closeStagehandInstance(sessionId);
+            throw error;
+          }
+
+          await sessionMetricsService.trackSessionStart(sessionId, userId);
+
+          websocketService.broadcastToUser(userId, "browser:session:created", {
+            sessionId,
+            debugUrl: null,
+            status: "active",
+          });
+
+          console.log(`[Browser] Local session created: ${sessionId}`);
+
+          return {
+            sessionId,
+            backend,
+            debugUrl: null,
+            wsUrl: null,
+            status: "RUNNING",
+            expiresAt: dbSession.expiresAt,
+            createdAt: dbSession.createdAt,
+          };
+        }
+
         // Create Browserbase session
         // Note: recordSession goes inside browserSettings per Browserbase SDK v2.6+
         const sessionOptions: any = {
@@ -382,6 +535,7 @@ export const browserRouter = router({
           projectId: bbSession.projectId,
           debugUrl: debugInfo.debuggerFullscreenUrl,
           metadata: {
+            backend,
             geolocation: input.geolocation,
             browserSettings: input.browserSettings,
             createdVia: "api",
@@ -403,6 +557,7 @@ export const browserRouter = router({
 
         return {
           sessionId: bbSession.id,
+          backend,
           debugUrl: debugInfo.debuggerFullscreenUrl,
           wsUrl: debugInfo.wsUrl,
           status: bbSession.status,
@@ -465,6 +620,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Navigation failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -532,6 +688,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Click failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -606,6 +763,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Type failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -653,6 +811,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Scroll failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -774,6 +933,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Data extraction failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -827,6 +987,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Screenshot failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -869,6 +1030,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Act failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -904,6 +1066,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Observe failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -994,6 +1157,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Batch actions failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -1077,6 +1241,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] DOM optimization failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -1129,6 +1294,7 @@ export const browserRouter = router({
           failedCount: history.filter((e: any) => e.result && 'error' in e.result).length,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Failed to get history:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -1189,6 +1355,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Fast act failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -1288,6 +1455,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Fast navigate failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -1302,6 +1470,16 @@ export const browserRouter = router({
   getDebugUrl: protectedProcedure
     .input(z.object({ sessionId: z.string() }))
     .query(async ({ input, ctx }) => {
+      // Local Chromium has no hosted live view
+      if (isLocalSessionId(input.sessionId)) {
+        return {
+          sessionId: input.sessionId,
+          debugUrl: null,
+          wsUrl: null,
+          status: stagehandInstances.has(input.sessionId) ? "RUNNING" as const : "COMPLETED" as const,
+        };
+      }
+
       try {
         const debugInfo = await browserbaseSDK.getSessionDebug(input.sessionId);
 
@@ -1326,6 +1504,13 @@ export const browserRouter = router({
   getRecording: protectedProcedure
     .input(z.object({ sessionId: z.string() }))
     .query(async ({ input, ctx }) => {
+      if (isLocalSessionId(input.sessionId)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Recordings are only available for Browserbase sessions",
+        });
+      }
+
       try {
         const recording = await browserbaseSDK.getSessionRecording(input.sessionId);
 
@@ -1357,7 +1542,7 @@ export const browserRouter = router({
         await closeStagehandInstance(input.sessionId);
 
         // Terminate Browserbase session
-        await browserbaseSDK.terminateSession(input.sessionId);
+        await terminateRemoteSession(input.sessionId);
 
         // Update database
         if (db) {
@@ -1415,7 +1600,7 @@ export const browserRouter = router({
 
         // Try to terminate on Browserbase side (ignore errors for already terminated sessions)
         try {
-          await browserbaseSDK.terminateSession(input.sessionId);
+          await terminateRemoteSession(input.sessionId);
         } catch (e) {
           console.log("[Browser] Session may already be terminated:", input.sessionId);
         }
@@ -1437,6 +1622,10 @@ export const browserRouter = router({
           // Delete the browser session
           await db.delete(browserSessions)
             .where(eq(browserSessions.id, session.id));
+
+          if (isLocalSessionId(input.sessionId)) {
+            await removeLocalDownloads(input.sessionId);
+          }
         }
 
         // Emit WebSocket event
@@ -1477,7 +1666,7 @@ export const browserRouter = router({
         try {
           await closeStagehandInstance(sessionId);
           try {
-            await browserbaseSDK.terminateSession(sessionId);
+            await terminateRemoteSession(sessionId);
           } catch (e) {
             // Ignore - session may already be terminated
           }
@@ -1538,7 +1727,7 @@ export const browserRouter = router({
         try {
           await closeStagehandInstance(sessionId);
           try {
-            await browserbaseSDK.terminateSession(sessionId);
+            await terminateRemoteSession(sessionId);
           } catch (e) {
             // Ignore
           }
@@ -1560,6 +1749,10 @@ export const browserRouter = router({
             // Delete the browser session
             await db.delete(browserSessions)
               .where(eq(browserSessions.id, session.id));
+
+            if (isLocalSessionId(sessionId)) {
+              await removeLocalDownloads(sessionId);
+            }
           }
 
           results.success.push(sessionId);
@@ -1699,6 +1892,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Failed to create new page:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -1733,6 +1927,7 @@ export const browserRouter = router({
           totalPages: pages.length,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Failed to list pages:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -1787,6 +1982,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Act on page failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -1833,6 +2029,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Observe on page failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -1983,6 +2180,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Extract from page failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -2068,6 +2266,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] Agent execution failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -2201,6 +2400,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] deepLocator action failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -2247,6 +2447,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] deepLocator count failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -2293,6 +2494,7 @@ export const browserRouter = router({
           timestamp: new Date(),
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         console.error("[Browser] deepLocator centroid failed:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -2627,6 +2829,17 @@ export const browserRouter = router({
       const { stagehandService } = await import('../../services/stagehand.service');
 
       try {
+        // Router-created local sessions save downloads to disk without a service session
+        if (isLocalSessionId(input.sessionId) && !stagehandService.getSession(input.sessionId)) {
+          const downloads = await listLocalDownloads(input.sessionId);
+          return {
+            success: true,
+            downloads,
+            totalDownloads: downloads.length,
+            timestamp: new Date(),
+          };
+        }
+
         const result = await stagehandService.getDownloads(input.sessionId);
 
         if (!result.success) {
@@ -2655,27 +2868,85 @@ export const browserRouter = router({
   // ACTION VERIFICATION
   // ========================================
 
+  /**
+   * Capture a screenshot to compare against after an action
+   * Pass the returned stateId to verifyAction
+   */
+  captureVisualState: protectedProcedure
+    .input(z.object({
+      sessionId: z.string().min(1),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { visualVerificationService } = await import('../../services/browser/visualVerification.service');
+
+      const result = await visualVerificationService.captureBeforeState(input.sessionId);
+      if (!result.success) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to capture visual state: ${result.error || "Unknown error"}`,
+        });
+      }
+
+      return {
+        success: true,
+        stateId: result.stateId!,
+        timestamp: new Date(),
+      };
+    }),
+
   /**
    * Verify action preconditions
+   * With a beforeStateId, also diffs the page against that capture to
+   * confirm the action (e.g. a GHL save) visibly took effect
    */
   verifyAction: protectedProcedure
     .input(z.object({
       sessionId: z.string().min(1),
       selector: z.string().min(1),
-      actionType: z.enum(['click', 'type', 'navigate']),
+      actionType: z.enum(['click', 'type', 'navigate', 'save']),
+      beforeStateId: z.string().optional(),
+      ignoreRegions: z.array(screenRegionSchema).max(50).optional(),
+      ignoreSelectors: z.array(z.string().min(1)).max(50).optional(),
+      minChangedRatio: z.number().min(0).max(1).optional(),
     }))
     .query(async ({ input, ctx }) => {
       const { stagehandService } = await import('../../services/stagehand.service');
 
       try {
+        // A save is a click on the save control
         const result = await stagehandService.verifyActionPreconditions(
           input.sessionId,
           input.selector,
-          input.actionType
+          input.actionType === 'save' ? 'click' : input.actionType
         );
 
+        if (!input.beforeStateId) {
+          return {
+            ...result,
+            timestamp: new Date(),
+          };
+        }
+
+        const { visualVerificationService } = await import('../../services/browser/visualVerification.service');
+        const visual = await visualVerificationService.verify(input.sessionId, {
+          method: 'screenshot_comparison',
+          stateId: input.beforeStateId,
+          ignoreRegions: input.ignoreRegions,
+          ignoreSelectors: input.ignoreSelectors,
+          minChangedRatio: input.minChangedRatio,
+          retries: 1,
+        });
+
         return {
           ...result,
+          actionApplied: visual.success,
+          visualVerification: {
+            confidence: visual.confidence,
+            details: visual.details,
+            changedPixelRatio: visual.evidence?.changedPixelRatio,
+            changedRegions: visual.evidence?.changedRegions,
+            diffImage: visual.evidence?.diffImage,
+          },
           timestamp: new Date(),
         };
       } catch (error) {
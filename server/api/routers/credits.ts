@@ -5,6 +5,11 @@ import { getDb } from "../../db";
 import { user_credits, credit_packages, credit_transactions } from "../../../drizzle/schema";
 import { eq, and, desc, sql, count } from "drizzle-orm";
 import { CreditService, CreditType, TransactionType } from "../../services/credit.service";
+import {
+  StripeNotConfiguredError,
+  createCreditCheckoutSession,
+  createCreditPaymentIntent,
+} from "../../services/stripe.service";
 
 /**
  * Credits Router
@@ -12,7 +17,7 @@ import { CreditService, CreditType, TransactionType } from "../../services/credi
  *
  * Features:
  * - View credit balances by type
- * - Purchase credit packages
+ * - Purchase credit packages through Stripe (credits are granted by the webhook)
  * - Transaction history
  * - Admin: create packages, adjust credits
  * - Usage statistics
@@ -52,6 +57,8 @@ const updatePackageSchema = z.object({
 const purchaseCreditsSchema = z.object({
   packageId: z.number().int(),
   paymentMethodId: z.string().optional(), // Stripe payment method ID
+  successUrl: z.string().url().optional(),
+  cancelUrl: z.string().url().optional(),
 });
 
 const adjustCreditsSchema = z.object({
@@ -253,13 +260,13 @@ export const creditsRouter = router({
 
   /**
    * Purchase credits
-   * PLACEHOLDER: Stripe integration required for actual payment processing
+   * Creates a Stripe PaymentIntent (with a payment method) or Checkout Session.
+   * Credits are granted by the Stripe webhook once the payment succeeds.
    */
-  purchaseCredits: publicProcedure
+  purchaseCredits: protectedProcedure
     .input(purchaseCreditsSchema)
-    .mutation(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id;
 
       const db = await getDb();
       if (!db) {
@@ -292,51 +299,48 @@ export const creditsRouter = router({
         });
       }
 
-      // PLACEHOLDER: Process payment with Stripe
-      // const stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
-      // const paymentIntent = await stripe.paymentIntents.create({
-      //   amount: pkg.price,
-      //   currency: 'usd',
-      //   payment_method: input.paymentMethodId,
-      //   confirm: true,
-      // });
-      //
-      // if (paymentIntent.status !== 'succeeded') {
-      //   throw new TRPCError({
-      //     code: "PAYMENT_REQUIRED",
-      //     message: "Payment failed",
-      //   });
-      // }
-
-      // For now, just add credits without payment processing
-      const creditService = new CreditService();
-
       try {
-        await creditService.addCredits(
-          userId,
-          pkg.creditAmount,
-          pkg.creditType as CreditType,
-          `Purchased ${pkg.name}`,
-          "purchase",
-          {
-            packageId: pkg.id,
-            packageName: pkg.name,
-            price: pkg.price,
-            // paymentIntentId: paymentIntent.id, // PLACEHOLDER
+        if (input.paymentMethodId) {
+          const paymentIntent = await createCreditPaymentIntent(userId, pkg, input.paymentMethodId);
+
+          if (paymentIntent.status === "canceled" || paymentIntent.status === "requires_payment_method") {
+            throw new TRPCError({
+              code: "PRECONDITION_FAILED",
+              message: "Payment failed",
+            });
           }
-        );
 
-        const newBalance = await creditService.getBalance(userId, pkg.creditType as CreditType);
+          return {
+            success: true,
+            paymentIntentId: paymentIntent.id,
+            clientSecret: paymentIntent.client_secret,
+            status: paymentIntent.status,
+            checkoutUrl: null,
+          };
+        }
+
+        const session = await createCreditCheckoutSession(userId, pkg, {
+          successUrl: input.successUrl,
+          cancelUrl: input.cancelUrl,
+        });
 
         return {
           success: true,
-          creditsAdded: pkg.creditAmount,
-          newBalance,
+          sessionId: session.id,
+          checkoutUrl: session.url,
+          status: "requires_payment" as const,
         };
       } catch (error: any) {
+        if (error instanceof TRPCError) throw error;
+        if (error instanceof StripeNotConfiguredError) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: error.message,
+          });
+        }
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to add credits: ${error.message}`,
+          message: `Failed to start payment: ${error.message}`,
         });
       }
     }),
@@ -0,0 +1,131 @@
+/**
+ * Unit Tests for Lead Enrichment Router
+ *
+ * Tests tenant scoping of lead lists and leads
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { TRPCError } from "@trpc/server";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { createMockContext } from "@/__tests__/helpers/test-helpers";
+import { createTestDb } from "@/__tests__/helpers/test-db";
+
+vi.mock("../../db");
+vi.mock("../../services/appify.service");
+vi.mock("../../services/credit.service");
+vi.mock("../../services/workflowTriggers.service", () => ({
+  workflowTriggerService: { onLeadEnriched: vi.fn() },
+}));
+
+import { getDb } from "../../db";
+import { leadEnrichmentRouter } from "./leadEnrichment";
+
+const TENANT_A = 1;
+const TENANT_B = 2;
+
+const dialect = new PgDialect();
+
+const list = (id: number, userId: number) => ({
+  id,
+  userId,
+  name: `List ${id}`,
+  status: "completed",
+  totalLeads: 1,
+  enrichedLeads: 1,
+  failedLeads: 0,
+  costInCredits: 0,
+  uploadedAt: new Date(),
+  total: 1,
+});
+
+/**
+ * The rendered where clause of every select the router ran
+ */
+const selectWheres = (db: ReturnType<typeof createTestDb>) =>
+  (db.select.mock.results as Array<{ value: any }>).map(({ value }) => {
+    const { sql, params } = dialect.sqlToQuery(value.where.mock.calls[0][0] as SQL);
+    return { sql, params };
+  });
+
+describe("Lead Enrichment Router", () => {
+  const callerFor = (userId: number) =>
+    leadEnrichmentRouter.createCaller(createMockContext({ id: userId, email: `tenant${userId}@example.com` }));
+
+  const useDb = (db: ReturnType<typeof createTestDb>) => {
+    vi.mocked(getDb).mockResolvedValue(db as any);
+    return db;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should require authentication", async () => {
+    const caller = leadEnrichmentRouter.createCaller({ ...createMockContext(), user: null });
+
+    await expect(caller.getLists({})).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("should only list the caller's lead lists", async () => {
+    const db = useDb(createTestDb({ selectResponse: [list(20, TENANT_B)] }));
+
+    const result = await callerFor(TENANT_B).getLists({});
+
+    expect(result.lists.map((l: any) => l.id)).toEqual([20]);
+    expect(selectWheres(db)).toEqual([
+      { sql: '"lead_lists"."userId" = $1', params: [TENANT_B] },
+      { sql: '"lead_lists"."userId" = $1', params: [TENANT_B] },
+    ]);
+  });
+
+  it("should create lists for the authenticated user", async () => {
+    const db = useDb(createTestDb({ insertResponse: [list(30, TENANT_B)] }));
+
+    await callerFor(TENANT_B).createList({ name: "Imported" });
+
+    const insert = db.insert.mock.results[0].value;
+    expect(insert.values).toHaveBeenCalledWith(expect.objectContaining({ name: "Imported", userId: TENANT_B }));
+  });
+
+  it.each([
+    ["getList", { listId: 10 }],
+    ["getLeads", { listId: 10 }],
+    ["exportLeads", { listId: 10 }],
+    ["getEnrichmentStatus", { listId: 10 }],
+    ["deleteList", { listId: 10 }],
+    ["uploadLeads", { listId: 10, leads: [{ name: "Injected" }] }],
+  ])("should not let another tenant use %s on a list", async (procedure, input) => {
+    const db = useDb(createTestDb({ selectResponse: [] }));
+    const caller = callerFor(TENANT_B) as any;
+
+    const error = await caller[procedure](input).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toBe("NOT_FOUND");
+    expect(selectWheres(db)[0].params).toEqual([TENANT_B, 10]);
+    expect(db.insert).not.toHaveBeenCalled();
+    expect(db.update).not.toHaveBeenCalled();
+    expect(db.delete).not.toHaveBeenCalled();
+  });
+
+  it("should not let another tenant enrich a lead", async () => {
+    const db = useDb(createTestDb({ selectResponse: [] }));
+
+    await expect(callerFor(TENANT_B).enrichLead({ leadId: 100 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(selectWheres(db)[0].params).toEqual([TENANT_B, 100]);
+  });
+
+  it("should scope the owner's leads to their tenant", async () => {
+    const db = useDb(createTestDb({ selectResponse: [list(10, TENANT_A)] }));
+
+    const result = await callerFor(TENANT_A).getLeads({ listId: 10 });
+
+    expect(result.total).toBe(1);
+    expect(selectWheres(db).map(({ params }) => params)).toEqual([
+      [TENANT_A, 10],
+      [TENANT_A, 10],
+      [TENANT_A, 10],
+    ]);
+  });
+});
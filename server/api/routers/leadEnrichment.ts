@@ -1,11 +1,19 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { publicProcedure, protectedProcedure, router } from "../../_core/trpc";
+import { protectedProcedure, tenantProcedure, router } from "../../_core/trpc";
 import { getDb } from "../../db";
 import { lead_lists, enrichedLeads as leads } from "../../../drizzle/schema";
-import { eq, and, desc, sql, count, inArray } from "drizzle-orm";
+import { eq, desc, sql, count, inArray, type SQL } from "drizzle-orm";
 import { AppifyService } from "../../services/appify.service";
 import { CreditService } from "../../services/credit.service";
+import { workflowTriggerService, buildLeadEnrichedPayload } from "../../services/workflowTriggers.service";
+import { getTenantService } from "../../services/tenantIsolation.service";
+import {
+  GHL_CONTACT_FIELDS,
+  defaultMapping,
+  ghlHeaders,
+  leadExportService,
+} from "../../services/leadExport.service";
 
 /**
  * Lead Enrichment Router
@@ -16,9 +24,12 @@ import { CreditService } from "../../services/credit.service";
  * - Batch enrichment with credit tracking
  * - Lead list management
  * - Individual lead enrichment
- * - Export enriched data
+ * - Export enriched data (files are streamed by /api/lead-lists/:listId/export,
+ *   using the export profile saved here)
  *
- * PLACEHOLDER: userId is hardcoded to 1 until authentication is implemented
+ * Every procedure runs in the caller's tenant context. Lists and leads are
+ * only read or changed through tenant-scoped queries; ids owned by another
+ * tenant are reported as not found.
  */
 
 // ========================================
@@ -59,6 +70,94 @@ const enrichListSchema = z.object({
   batchSize: z.number().int().positive().default(5),
 });
 
+const ghlFieldKeys = GHL_CONTACT_FIELDS.map((field) => field.key) as [
+  (typeof GHL_CONTACT_FIELDS)[number]["key"],
+  ...(typeof GHL_CONTACT_FIELDS)[number]["key"][],
+];
+
+const exportProfileSchema = z
+  .object({
+    listId: z.number().int(),
+    columns: z
+      .array(
+        z.object({
+          field: z.string().min(1).max(255),
+          header: z.string().trim().min(1).max(255),
+        })
+      )
+      .min(1)
+      .max(500),
+    ghlFields: z.partialRecord(z.enum(ghlFieldKeys), z.string().min(1).max(255)).default({}),
+    ghlCustomFields: z
+      .array(
+        z.object({
+          field: z.string().min(1).max(255),
+          name: z.string().trim().min(1).max(255),
+        })
+      )
+      .max(100)
+      .default([]),
+  })
+  .refine((profile) => new Set(ghlHeaders(profile).map((header) => header.toLowerCase())).size === ghlHeaders(profile).length, {
+    message: "GHL custom field names must be unique and differ from the standard GHL headers",
+    path: ["ghlCustomFields"],
+  });
+
+// ========================================
+// TENANT SCOPING
+// ========================================
+
+const tenantService = getTenantService();
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+/**
+ * Load a lead list owned by the current tenant
+ */
+async function requireOwnedList(db: Db, listId: number) {
+  const result = await db
+    .select()
+    .from(lead_lists)
+    .where(tenantService.createTenantWhereClause(lead_lists.userId, eq(lead_lists.id, listId)))
+    .limit(1);
+
+  if (result.length === 0) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Lead list not found",
+    });
+  }
+
+  return result[0];
+}
+
+/**
+ * Load a lead owned by the current tenant
+ */
+async function requireOwnedLead(db: Db, leadId: number) {
+  const result = await db
+    .select()
+    .from(leads)
+    .where(tenantService.createTenantWhereClause(leads.userId, eq(leads.id, leadId)))
+    .limit(1);
+
+  if (result.length === 0) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Lead not found",
+    });
+  }
+
+  return result[0];
+}
+
+/**
+ * Conditions for the current tenant's leads in a list
+ */
+function listLeadsWhere(listId: number, ...conditions: SQL[]): SQL {
+  return tenantService.createTenantWhereClause(leads.userId, eq(leads.listId, listId), ...conditions);
+}
+
 // ========================================
 // LEAD ENRICHMENT ROUTER
 // ========================================
@@ -67,11 +166,10 @@ export const leadEnrichmentRouter = router({
   /**
    * Create a new lead list
    */
-  createList: publicProcedure
+  createList: tenantProcedure
     .input(createLeadListSchema)
-    .mutation(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id;
 
       const db = await getDb();
       if (!db) {
@@ -105,7 +203,7 @@ export const leadEnrichmentRouter = router({
   /**
    * Get all lead lists for user
    */
-  getLists: publicProcedure
+  getLists: tenantProcedure
     .input(
       z.object({
         limit: z.number().int().positive().default(50),
@@ -114,9 +212,6 @@ export const leadEnrichmentRouter = router({
       })
     )
     .query(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
-
       const db = await getDb();
       if (!db) {
         throw new TRPCError({
@@ -128,7 +223,7 @@ export const leadEnrichmentRouter = router({
       let query = db
         .select()
         .from(lead_lists)
-        .where(eq(lead_lists.userId, userId))
+        .where(tenantService.createTenantWhereClause(lead_lists.userId))
         .orderBy(desc(lead_lists.uploadedAt))
         .limit(input.limit)
         .offset(input.offset);
@@ -137,7 +232,7 @@ export const leadEnrichmentRouter = router({
         query = db
           .select()
           .from(lead_lists)
-          .where(and(eq(lead_lists.userId, userId), eq(lead_lists.status, input.status)))
+          .where(tenantService.createTenantWhereClause(lead_lists.userId, eq(lead_lists.status, input.status)))
           .orderBy(desc(lead_lists.uploadedAt))
           .limit(input.limit)
           .offset(input.offset);
@@ -149,7 +244,7 @@ export const leadEnrichmentRouter = router({
       const [{ total }] = await db
         .select({ total: count() })
         .from(lead_lists)
-        .where(eq(lead_lists.userId, userId));
+        .where(tenantService.createTenantWhereClause(lead_lists.userId));
 
       return {
         lists,
@@ -161,12 +256,9 @@ export const leadEnrichmentRouter = router({
   /**
    * Get a single lead list by ID
    */
-  getList: publicProcedure
+  getList: tenantProcedure
     .input(z.object({ listId: z.number().int() }))
     .query(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
-
       const db = await getDb();
       if (!db) {
         throw new TRPCError({
@@ -175,30 +267,16 @@ export const leadEnrichmentRouter = router({
         });
       }
 
-      const result = await db
-        .select()
-        .from(lead_lists)
-        .where(and(eq(lead_lists.id, input.listId), eq(lead_lists.userId, userId)))
-        .limit(1);
-
-      if (result.length === 0) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Lead list not found",
-        });
-      }
-
-      return result[0];
+      return requireOwnedList(db, input.listId);
     }),
 
   /**
    * Upload leads to a list
    */
-  uploadLeads: publicProcedure
+  uploadLeads: tenantProcedure
     .input(uploadLeadsSchema)
-    .mutation(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id;
 
       const db = await getDb();
       if (!db) {
@@ -209,18 +287,7 @@ export const leadEnrichmentRouter = router({
       }
 
       // Verify list exists and belongs to user
-      const listResult = await db
-        .select()
-        .from(lead_lists)
-        .where(and(eq(lead_lists.id, input.listId), eq(lead_lists.userId, userId)))
-        .limit(1);
-
-      if (listResult.length === 0) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Lead list not found",
-        });
-      }
+      await requireOwnedList(db, input.listId);
 
       // Insert leads
       const leadValues = input.leads.map((lead) => ({
@@ -253,7 +320,7 @@ export const leadEnrichmentRouter = router({
   /**
    * Get leads in a list
    */
-  getLeads: publicProcedure
+  getLeads: tenantProcedure
     .input(
       z.object({
         listId: z.number().int(),
@@ -263,9 +330,6 @@ export const leadEnrichmentRouter = router({
       })
     )
     .query(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
-
       const db = await getDb();
       if (!db) {
         throw new TRPCError({
@@ -275,23 +339,12 @@ export const leadEnrichmentRouter = router({
       }
 
       // Verify list exists and belongs to user
-      const listResult = await db
-        .select()
-        .from(lead_lists)
-        .where(and(eq(lead_lists.id, input.listId), eq(lead_lists.userId, userId)))
-        .limit(1);
-
-      if (listResult.length === 0) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Lead list not found",
-        });
-      }
+      await requireOwnedList(db, input.listId);
 
       let query = db
         .select()
         .from(leads)
-        .where(eq(leads.listId, input.listId))
+        .where(listLeadsWhere(input.listId))
         .orderBy(desc(leads.createdAt))
         .limit(input.limit)
         .offset(input.offset);
@@ -301,7 +354,7 @@ export const leadEnrichmentRouter = router({
           .select()
           .from(leads)
           .where(
-            and(eq(leads.listId, input.listId), eq(leads.enrichmentStatus, input.enrichmentStatus))
+            listLeadsWhere(input.listId, eq(leads.enrichmentStatus, input.enrichmentStatus))
           )
           .orderBy(desc(leads.createdAt))
           .limit(input.limit)
@@ -314,7 +367,7 @@ export const leadEnrichmentRouter = router({
       const [{ total }] = await db
         .select({ total: count() })
         .from(leads)
-        .where(eq(leads.listId, input.listId));
+        .where(listLeadsWhere(input.listId));
 
       return {
         leads: leadList,
@@ -326,11 +379,10 @@ export const leadEnrichmentRouter = router({
   /**
    * Enrich a single lead
    */
-  enrichLead: publicProcedure
+  enrichLead: tenantProcedure
     .input(enrichLeadSchema)
-    .mutation(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id;
 
       const db = await getDb();
       if (!db) {
@@ -341,20 +393,7 @@ export const leadEnrichmentRouter = router({
       }
 
       // Get lead
-      const leadResult = await db
-        .select()
-        .from(leads)
-        .where(and(eq(leads.id, input.leadId), eq(leads.userId, userId)))
-        .limit(1);
-
-      if (leadResult.length === 0) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Lead not found",
-        });
-      }
-
-      const lead = leadResult[0];
+      const lead = await requireOwnedLead(db, input.leadId);
 
       // Check if already enriched
       if (lead.enrichmentStatus === "enriched") {
@@ -404,6 +443,8 @@ export const leadEnrichmentRouter = router({
           })
           .where(eq(leads.id, input.leadId));
 
+        workflowTriggerService.publish(userId, "lead.enriched", buildLeadEnrichedPayload(lead, enrichedData));
+
         // Update list stats
         await db
           .update(lead_lists)
@@ -446,11 +487,10 @@ export const leadEnrichmentRouter = router({
   /**
    * Batch enrich all pending leads in a list
    */
-  enrichList: publicProcedure
+  enrichList: tenantProcedure
     .input(enrichListSchema)
-    .mutation(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id;
 
       const db = await getDb();
       if (!db) {
@@ -461,24 +501,13 @@ export const leadEnrichmentRouter = router({
       }
 
       // Verify list exists
-      const listResult = await db
-        .select()
-        .from(lead_lists)
-        .where(and(eq(lead_lists.id, input.listId), eq(lead_lists.userId, userId)))
-        .limit(1);
-
-      if (listResult.length === 0) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Lead list not found",
-        });
-      }
+      await requireOwnedList(db, input.listId);
 
       // Get pending leads
       const pendingLeads = await db
         .select()
         .from(leads)
-        .where(and(eq(leads.listId, input.listId), eq(leads.enrichmentStatus, "pending")));
+        .where(listLeadsWhere(input.listId, eq(leads.enrichmentStatus, "pending")));
 
       if (pendingLeads.length === 0) {
         return {
@@ -541,6 +570,8 @@ export const leadEnrichmentRouter = router({
             })
             .where(eq(leads.id, lead.id));
 
+          workflowTriggerService.publish(userId, "lead.enriched", buildLeadEnrichedPayload(lead, result.data));
+
           // Deduct credits
           await creditService.deductCredits(
             userId,
@@ -590,12 +621,9 @@ export const leadEnrichmentRouter = router({
   /**
    * Delete a lead list
    */
-  deleteList: publicProcedure
+  deleteList: tenantProcedure
     .input(z.object({ listId: z.number().int() }))
     .mutation(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
-
       const db = await getDb();
       if (!db) {
         throw new TRPCError({
@@ -605,18 +633,7 @@ export const leadEnrichmentRouter = router({
       }
 
       // Verify ownership
-      const listResult = await db
-        .select()
-        .from(lead_lists)
-        .where(and(eq(lead_lists.id, input.listId), eq(lead_lists.userId, userId)))
-        .limit(1);
-
-      if (listResult.length === 0) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Lead list not found",
-        });
-      }
+      await requireOwnedList(db, input.listId);
 
       // Delete list (cascade will delete leads)
       await db.delete(lead_lists).where(eq(lead_lists.id, input.listId));
@@ -627,12 +644,9 @@ export const leadEnrichmentRouter = router({
   /**
    * Export enriched leads as JSON
    */
-  exportLeads: publicProcedure
+  exportLeads: tenantProcedure
     .input(z.object({ listId: z.number().int() }))
     .query(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
-
       const db = await getDb();
       if (!db) {
         throw new TRPCError({
@@ -642,27 +656,16 @@ export const leadEnrichmentRouter = router({
       }
 
       // Verify list exists
-      const listResult = await db
-        .select()
-        .from(lead_lists)
-        .where(and(eq(lead_lists.id, input.listId), eq(lead_lists.userId, userId)))
-        .limit(1);
-
-      if (listResult.length === 0) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Lead list not found",
-        });
-      }
+      const list = await requireOwnedList(db, input.listId);
 
       // Get all enriched leads
       const enrichedLeads = await db
         .select()
         .from(leads)
-        .where(and(eq(leads.listId, input.listId), eq(leads.enrichmentStatus, "enriched")));
+        .where(listLeadsWhere(input.listId, eq(leads.enrichmentStatus, "enriched")));
 
       return {
-        list: listResult[0],
+        list,
         leads: enrichedLeads.map((lead) => ({
           id: lead.id,
           rawData: lead.rawData,
@@ -673,14 +676,41 @@ export const leadEnrichmentRouter = router({
     }),
 
   /**
-   * Get batch enrichment status for a list
+   * Get the export profile of a list (the saved one, or the default of every
+   * field found in its leads) and the fields available for mapping
    */
-  getEnrichmentStatus: publicProcedure
+  getExportProfile: tenantProcedure
     .input(z.object({ listId: z.number().int() }))
     .query(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database not available",
+        });
+      }
+
+      await requireOwnedList(db, input.listId);
 
+      const [profile, availableFields] = await Promise.all([
+        leadExportService.getProfile(input.listId),
+        leadExportService.discoverFields(input.listId),
+      ]);
+
+      return {
+        ...(profile ?? defaultMapping(availableFields)),
+        saved: profile !== null,
+        availableFields,
+        ghlStandardFields: GHL_CONTACT_FIELDS.map((field) => ({ ...field })),
+      };
+    }),
+
+  /**
+   * Save the export profile of a list
+   */
+  saveExportProfile: tenantProcedure
+    .input(exportProfileSchema)
+    .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) {
         throw new TRPCError({
@@ -689,21 +719,30 @@ export const leadEnrichmentRouter = router({
         });
       }
 
-      // Get list
-      const listResult = await db
-        .select()
-        .from(lead_lists)
-        .where(and(eq(lead_lists.id, input.listId), eq(lead_lists.userId, userId)))
-        .limit(1);
+      await requireOwnedList(db, input.listId);
+
+      const { listId, ...mapping } = input;
+      await leadExportService.saveProfile(ctx.user.id, listId, mapping);
+
+      return { success: true };
+    }),
 
-      if (listResult.length === 0) {
+  /**
+   * Get batch enrichment status for a list
+   */
+  getEnrichmentStatus: tenantProcedure
+    .input(z.object({ listId: z.number().int() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) {
         throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "Lead list not found",
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database not available",
         });
       }
 
-      const list = listResult[0];
+      // Get list
+      const list = await requireOwnedList(db, input.listId);
 
       // Get lead counts by status
       const statusCounts = await db
@@ -712,7 +751,7 @@ export const leadEnrichmentRouter = router({
           count: count(),
         })
         .from(leads)
-        .where(eq(leads.listId, input.listId))
+        .where(listLeadsWhere(input.listId))
         .groupBy(leads.enrichmentStatus);
 
       const statusMap = statusCounts.reduce((acc, row) => {
@@ -745,7 +784,7 @@ export const leadEnrichmentRouter = router({
   /**
    * Get enrichment history for all lists
    */
-  getEnrichmentHistory: publicProcedure
+  getEnrichmentHistory: tenantProcedure
     .input(
       z.object({
         limit: z.number().int().positive().default(20),
@@ -753,9 +792,6 @@ export const leadEnrichmentRouter = router({
       })
     )
     .query(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
-
       const db = await getDb();
       if (!db) {
         throw new TRPCError({
@@ -778,7 +814,7 @@ export const leadEnrichmentRouter = router({
           processedAt: lead_lists.processedAt,
         })
         .from(lead_lists)
-        .where(eq(lead_lists.userId, userId))
+        .where(tenantService.createTenantWhereClause(lead_lists.userId))
         .orderBy(desc(lead_lists.uploadedAt))
         .limit(input.limit)
         .offset(input.offset);
@@ -787,7 +823,7 @@ export const leadEnrichmentRouter = router({
       const [{ total }] = await db
         .select({ total: count() })
         .from(lead_lists)
-        .where(eq(lead_lists.userId, userId));
+        .where(tenantService.createTenantWhereClause(lead_lists.userId));
 
       // Calculate summary stats
       const summary = lists.reduce(
@@ -817,11 +853,10 @@ export const leadEnrichmentRouter = router({
   /**
    * Re-enrich failed leads in a list
    */
-  reEnrichFailed: publicProcedure
+  reEnrichFailed: tenantProcedure
     .input(z.object({ listId: z.number().int() }))
-    .mutation(async ({ input }) => {
-      // PLACEHOLDER: Replace with actual userId from auth context
-      const userId = 1;
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.user.id;
 
       const db = await getDb();
       if (!db) {
@@ -831,11 +866,13 @@ export const leadEnrichmentRouter = router({
         });
       }
 
+      await requireOwnedList(db, input.listId);
+
       // Get failed leads
       const failedLeads = await db
         .select()
         .from(leads)
-        .where(and(eq(leads.listId, input.listId), eq(leads.enrichmentStatus, "failed")));
+        .where(listLeadsWhere(input.listId, eq(leads.enrichmentStatus, "failed")));
 
       if (failedLeads.length === 0) {
         return {
@@ -886,9 +923,8 @@ export const leadEnrichmentRouter = router({
   /**
    * Get enrichment statistics
    */
-  getEnrichmentStats: publicProcedure.query(async () => {
-    // PLACEHOLDER: Replace with actual userId from auth context
-    const userId = 1;
+  getEnrichmentStats: tenantProcedure.query(async ({ ctx }) => {
+    const userId = ctx.user.id;
 
     const db = await getDb();
     if (!db) {
@@ -913,13 +949,13 @@ export const leadEnrichmentRouter = router({
         totalCreditsUsed: sql<number>`COALESCE(SUM(${lead_lists.costInCredits}), 0)`,
       })
       .from(lead_lists)
-      .where(eq(lead_lists.userId, userId));
+      .where(tenantService.createTenantWhereClause(lead_lists.userId));
 
     // Get active enrichment jobs
     const activeJobs = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(lead_lists)
-      .where(and(eq(lead_lists.userId, userId), eq(lead_lists.status, "processing")));
+      .where(tenantService.createTenantWhereClause(lead_lists.userId, eq(lead_lists.status, "processing")));
 
     return {
       creditsAvailable: balance,
@@ -939,7 +975,7 @@ export const leadEnrichmentRouter = router({
   /**
    * Estimate enrichment cost
    */
-  estimateEnrichmentCost: publicProcedure
+  estimateEnrichmentCost: protectedProcedure
     .input(z.object({ leadCount: z.number().int().positive() }))
     .query(async ({ input }) => {
       const appifyService = new AppifyService();
@@ -955,7 +991,7 @@ export const leadEnrichmentRouter = router({
   /**
    * Validate Apify configuration
    */
-  validateApifyConfig: publicProcedure.query(async () => {
+  validateApifyConfig: protectedProcedure.query(async () => {
     const appifyService = new AppifyService();
 
     try {
@@ -5,18 +5,17 @@ import { credit_packages } from "../../../drizzle/schema";
 import { eq } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
 import { getSubscriptionService } from "../../services/subscription.service";
+import { StripeNotConfiguredError, createCreditCheckoutSession, getStripe } from "../../services/stripe.service";
 
 /**
  * Marketplace Router
  * Handles feature purchases, credit packs, and subscription management
  *
  * Stripe Integration:
- * - Install Stripe SDK: npm install stripe
  * - Set environment variables: STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET
- * - Configure Stripe webhook endpoint in Stripe Dashboard
- * - Create products and prices in Stripe Dashboard
- *
- * NOTE: Requires stripe package to be installed
+ * - Configure Stripe webhook endpoint in Stripe Dashboard (/api/webhooks/stripe)
+ * - Credit packs are paid through Checkout Sessions; credits are granted
+ *   by the webhook, never by this router
  */
 export const marketplaceRouter = router({
     /**
@@ -94,7 +93,7 @@ export const marketplaceRouter = router({
     /**
      * Create Stripe checkout session for credit package purchase
      */
-    createCheckout: publicProcedure
+    createCheckout: protectedProcedure
         .input(
             z.object({
                 packageId: z.number().int().positive(),
@@ -102,9 +101,8 @@ export const marketplaceRouter = router({
                 cancelUrl: z.string().url().optional(),
             })
         )
-        .mutation(async ({ input }) => {
-            // PLACEHOLDER: Replace with actual userId from auth context
-            const userId = 1;
+        .mutation(async ({ ctx, input }) => {
+            const userId = ctx.user.id;
 
             const db = await getDb();
             if (!db) {
@@ -137,47 +135,11 @@ export const marketplaceRouter = router({
                 });
             }
 
-            // Check if Stripe is configured
-            const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-            if (!stripeSecretKey) {
-                throw new TRPCError({
-                    code: "INTERNAL_SERVER_ERROR",
-                    message: "Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.",
-                });
-            }
-
             try {
-                // Dynamically import Stripe (will fail gracefully if not installed)
-                const Stripe = (await import("stripe")).default;
-                const stripe = new Stripe(stripeSecretKey, {
-                    apiVersion: "2025-11-17.clover" as any,
-                });
-
-                // Create Stripe checkout session
-                const session = await stripe.checkout.sessions.create({
-                    payment_method_types: ["card"],
-                    line_items: [
-                        {
-                            price_data: {
-                                currency: "usd",
-                                product_data: {
-                                    name: pkg.name,
-                                    description: `${pkg.creditAmount} ${pkg.creditType} credits`,
-                                },
-                                unit_amount: pkg.price, // Price in cents
-                            },
-                            quantity: 1,
-                        },
-                    ],
-                    mode: "payment",
-                    success_url: input.successUrl || `${process.env.APP_URL || "http://localhost:3000"}/marketplace/success?session_id={CHECKOUT_SESSION_ID}`,
-                    cancel_url: input.cancelUrl || `${process.env.APP_URL || "http://localhost:3000"}/marketplace`,
-                    metadata: {
-                        userId: userId.toString(),
-                        packageId: pkg.id.toString(),
-                        creditType: pkg.creditType,
-                        creditAmount: pkg.creditAmount.toString(),
-                    },
+                // Credits are granted by the Stripe webhook once the session is paid
+                const session = await createCreditCheckoutSession(userId, pkg, {
+                    successUrl: input.successUrl,
+                    cancelUrl: input.cancelUrl,
                 });
 
                 return {
@@ -186,10 +148,10 @@ export const marketplaceRouter = router({
                     sessionId: session.id,
                 };
             } catch (error: any) {
-                if (error.message?.includes("Cannot find module 'stripe'")) {
+                if (error instanceof StripeNotConfiguredError) {
                     throw new TRPCError({
-                        code: "INTERNAL_SERVER_ERROR",
-                        message: "Stripe SDK not installed. Run: npm install stripe",
+                        code: "PRECONDITION_FAILED",
+                        message: error.message,
                     });
                 }
                 throw new TRPCError({
@@ -202,40 +164,41 @@ export const marketplaceRouter = router({
     /**
      * Verify checkout session and return purchase details
      */
-    verifyCheckout: publicProcedure
+    verifyCheckout: protectedProcedure
         .input(
             z.object({
                 sessionId: z.string(),
             })
         )
-        .query(async ({ input }) => {
-            const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-            if (!stripeSecretKey) {
+        .query(async ({ ctx, input }) => {
+            let session;
+            try {
+                session = await getStripe().checkout.sessions.retrieve(input.sessionId);
+            } catch (error: any) {
+                if (error instanceof StripeNotConfiguredError) {
+                    throw new TRPCError({
+                        code: "PRECONDITION_FAILED",
+                        message: error.message,
+                    });
+                }
                 throw new TRPCError({
                     code: "INTERNAL_SERVER_ERROR",
-                    message: "Stripe is not configured",
+                    message: `Failed to verify checkout: ${error.message}`,
                 });
             }
 
-            try {
-                const Stripe = (await import("stripe")).default;
-                const stripe = new Stripe(stripeSecretKey, {
-                    apiVersion: "2025-11-17.clover" as any,
-                });
-
-                const session = await stripe.checkout.sessions.retrieve(input.sessionId);
-
-                return {
-                    success: session.payment_status === "paid",
-                    status: session.payment_status,
-                    metadata: session.metadata,
-                };
-            } catch (error: any) {
+            if (session.client_reference_id !== ctx.user.id.toString() && session.metadata?.userId !== ctx.user.id.toString()) {
                 throw new TRPCError({
-                    code: "INTERNAL_SERVER_ERROR",
-                    message: `Failed to verify checkout: ${error.message}`,
+                    code: "NOT_FOUND",
+                    message: "Checkout session not found",
                 });
             }
+
+            return {
+                success: session.payment_status === "paid",
+                status: session.payment_status,
+                metadata: session.metadata,
+            };
         }),
 
     /**
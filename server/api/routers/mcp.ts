@@ -7,6 +7,8 @@ import { router, protectedProcedure } from '../../_core/trpc';
 import { z } from 'zod';
 import { getMCPServer } from '../../mcp';
 import { TRPCError } from '@trpc/server';
+import { PermissionDeniedError } from '../../services/agentPermissions.service';
+import { ShellCommandNotAllowedError } from '../../services/shellSandbox.service';
 
 /**
  * MCP Router
@@ -77,7 +79,8 @@ export const mcpRouter = router({
 
         const result = await registry.executeTool(
           input.name,
-          input.arguments || {}
+          input.arguments || {},
+          { userId: String(ctx.user.id) }
         );
 
         return {
@@ -201,12 +204,18 @@ export const mcpRouter = router({
           const server = await getMCPServer();
           const registry = (server as any).toolRegistry;
 
-          const result = await registry.executeTool('shell/execute', input);
+          const result = await registry.executeTool('shell/execute', input, {
+            userId: String(ctx.user.id),
+          });
 
           return result;
         } catch (error) {
           throw new TRPCError({
-            code: 'INTERNAL_SERVER_ERROR',
+            code: error instanceof PermissionDeniedError
+              ? 'FORBIDDEN'
+              : error instanceof ShellCommandNotAllowedError
+                ? 'BAD_REQUEST'
+                : 'INTERNAL_SERVER_ERROR',
             message: error instanceof Error ? error.message : 'Command execution failed',
           });
         }
@@ -13,7 +13,13 @@
 import { z } from 'zod';
 import { publicProcedure, router } from '../../_core/trpc';
 import { TRPCError } from '@trpc/server';
-import { getMemorySystem, getAgentMemory, getReasoningBank, memoryCleanupScheduler } from '../../services/memory';
+import {
+  getMemorySystem,
+  getAgentMemory,
+  getReasoningBank,
+  memoryCleanupScheduler,
+  queueReasoningEmbeddingBackfill,
+} from '../../services/memory';
 
 // ========================================
 // ZOD SCHEMAS
@@ -777,6 +783,33 @@ export const memoryRouter = router({
       }
     }),
 
+  /**
+   * Queue embedding of reasoning patterns stored without one
+   */
+  triggerEmbeddingBackfill: publicProcedure
+    .input(z.object({
+      batchSize: z.number().int().min(1).max(500).optional(),
+      maxBatches: z.number().int().min(1).optional(),
+    }).optional())
+    .mutation(async ({ input }) => {
+      try {
+        const result = await queueReasoningEmbeddingBackfill(input);
+
+        return {
+          success: true,
+          queued: result !== null && !('processed' in result),
+          message: result && 'processed' in result
+            ? `Embedded ${result.processed} reasoning patterns (${result.failed} failed)`
+            : 'Reasoning embedding backfill queued',
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to run embedding backfill',
+        });
+      }
+    }),
+
   /**
    * Get memory cleanup scheduler statistics
    */
@@ -0,0 +1,93 @@
+/**
+ * RAG Router Tests
+ * Covers who may request LLM reranking on the public search endpoints
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockRagService } = vi.hoisted(() => ({
+  mockRagService: {
+    retrieve: vi.fn(),
+    buildContext: vi.fn(),
+  },
+}));
+
+vi.mock("../../services/rag.service", () => ({
+  ragService: mockRagService,
+}));
+
+vi.mock("../../services/platformDetection.service", () => ({
+  platformDetectionService: {},
+}));
+
+vi.mock("../../services/document-parser.service", () => ({
+  documentParserService: {},
+}));
+
+vi.mock("../../db", () => ({
+  getDb: vi.fn(),
+}));
+
+import { ragRouter } from "./rag";
+import { createMockContext } from "../../../client/src/__tests__/helpers/test-helpers";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const anonymousContext = () => ({ ...createMockContext(), user: null });
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("RAG Router - reranking", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRagService.retrieve.mockResolvedValue([]);
+    mockRagService.buildContext.mockResolvedValue("");
+  });
+
+  it("should reject LLM reranking from anonymous callers", async () => {
+    const caller = ragRouter.createCaller(anonymousContext());
+
+    await expect(caller.retrieve({ query: "login", rerank: "llm" })).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+    await expect(caller.searchSimilar({ query: "login", rerank: "llm" })).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+    await expect(caller.buildContext({ query: "login", rerank: "llm" })).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+    expect(mockRagService.retrieve).not.toHaveBeenCalled();
+    expect(mockRagService.buildContext).not.toHaveBeenCalled();
+  });
+
+  it("should still serve anonymous searches without LLM reranking", async () => {
+    const caller = ragRouter.createCaller(anonymousContext());
+
+    const result = await caller.searchSimilar({ query: "login", rerank: "cross-encoder" });
+
+    expect(result.success).toBe(true);
+    expect(mockRagService.retrieve).toHaveBeenCalledWith(
+      "login",
+      expect.objectContaining({ rerank: "cross-encoder" })
+    );
+  });
+
+  it("should allow LLM reranking for signed-in callers", async () => {
+    const caller = ragRouter.createCaller(createMockContext({ id: 7 }));
+
+    await caller.retrieve({ query: "login", rerank: "llm" });
+
+    expect(mockRagService.retrieve).toHaveBeenCalledWith(
+      "login",
+      expect.objectContaining({ rerank: "llm" })
+    );
+  });
+});
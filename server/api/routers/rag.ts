@@ -17,6 +17,22 @@ import { documentParserService } from "../../services/document-parser.service";
 import { getDb } from "../../db";
 import { documentationSources, documentationChunks } from "../../../drizzle/schema-rag";
 import { eq, desc, sql, and } from "drizzle-orm";
+import { UNAUTHED_ERR_MSG } from "../../../shared/const";
+import type { TrpcContext } from "../../_core/context";
+
+// Retrieval strategy options shared by the search endpoints
+const retrievalModeSchema = z.enum(["hybrid", "vector", "keyword"]).optional();
+const rerankSchema = z.enum(["llm", "cross-encoder"]).optional();
+
+/**
+ * LLM reranking spends model tokens on every call, so the public search
+ * endpoints only allow it for signed-in callers
+ */
+function assertRerankAllowed(ctx: TrpcContext, rerank: z.infer<typeof rerankSchema>) {
+  if (rerank === "llm" && !ctx.user) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
+  }
+}
 
 export const ragRouter = router({
   /**
@@ -122,12 +138,17 @@ export const ragRouter = router({
         // Use the title from input, parsed metadata, or filename
         const title = input.title || parsed.metadata.title || input.filename;
 
+        // Markdown and HTML are chunked from their original markup so headings,
+        // tables and code blocks survive; PDFs are chunked page by page
+        const keepMarkup = parsed.metadata.format === "markdown" || parsed.metadata.format === "html";
+
         // Ingest the parsed content into RAG system
         const result = await ragService.ingest({
           platform: input.platform,
           category: input.category,
           title,
-          content: parsed.text,
+          content: keepMarkup ? buffer.toString("utf-8") : parsed.text,
+          pages: parsed.pages,
           sourceType: parsed.metadata.format as "markdown" | "html" | "pdf" | "docx",
           userId: ctx.user.id,
           chunkingOptions: {
@@ -172,15 +193,21 @@ export const ragRouter = router({
         platforms: z.array(z.string()).optional(),
         categories: z.array(z.string()).optional(),
         minSimilarity: z.number().min(0).max(1).optional(),
+        mode: retrievalModeSchema,
+        rerank: rerankSchema,
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      assertRerankAllowed(ctx, input.rerank);
+
       try {
         const chunks = await ragService.retrieve(input.query, {
           topK: input.topK,
           platforms: input.platforms,
           categories: input.categories,
           minSimilarity: input.minSimilarity,
+          mode: input.mode,
+          rerank: input.rerank,
         });
 
         return {
@@ -206,15 +233,18 @@ export const ragRouter = router({
       z.object({
         userPrompt: z.string().min(1),
         platform: z.string().optional(),
+        url: z.string().optional(),
         customTemplate: z.string().optional(),
         maxDocumentationTokens: z.number().min(100).max(10000).optional(),
         includeExamples: z.boolean().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
         const result = await ragService.buildSystemPrompt(input.userPrompt, {
           platform: input.platform,
+          url: input.url,
+          userId: ctx.user?.id,
           customTemplate: input.customTemplate,
           maxDocumentationTokens: input.maxDocumentationTokens,
           includeExamples: input.includeExamples,
@@ -245,14 +275,17 @@ export const ragRouter = router({
         prompt: z.string().min(1),
         url: z.string().optional(),
         context: z.string().optional(),
+        html: z.string().max(2_000_000).optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
         const result = await platformDetectionService.detect({
           prompt: input.prompt,
           url: input.url,
           context: input.context,
+          html: input.html,
+          userId: ctx.user?.id,
         });
 
         return {
@@ -261,6 +294,7 @@ export const ragRouter = router({
           primaryPlatform: result.primaryPlatform,
           isDnsRelated: result.isDnsRelated,
           isDomainRelated: result.isDomainRelated,
+          confidence: result.confidence,
         };
       } catch (error) {
         console.error("[RAG Router] Platform detection failed:", error);
@@ -507,6 +541,7 @@ export const ragRouter = router({
 
   /**
    * Search similar documents using RAG
+   * Each chunk reports its per-retriever scores and which retrievers found it
    */
   searchSimilar: publicProcedure
     .input(
@@ -516,15 +551,21 @@ export const ragRouter = router({
         platforms: z.array(z.string()).optional(),
         categories: z.array(z.string()).optional(),
         minSimilarity: z.number().min(0).max(1).optional(),
+        mode: retrievalModeSchema,
+        rerank: rerankSchema,
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      assertRerankAllowed(ctx, input.rerank);
+
       try {
         const chunks = await ragService.retrieve(input.query, {
           topK: input.topK,
           platforms: input.platforms,
           categories: input.categories,
           minSimilarity: input.minSimilarity,
+          mode: input.mode,
+          rerank: input.rerank,
         });
 
         return {
@@ -551,14 +592,20 @@ export const ragRouter = router({
         topK: z.number().min(1).max(20).optional(),
         platforms: z.array(z.string()).optional(),
         categories: z.array(z.string()).optional(),
+        mode: retrievalModeSchema,
+        rerank: rerankSchema,
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      assertRerankAllowed(ctx, input.rerank);
+
       try {
         const context = await ragService.buildContext(input.query, {
           topK: input.topK,
           platforms: input.platforms,
           categories: input.categories,
+          mode: input.mode,
+          rerank: input.rerank,
         });
 
         return {
@@ -580,10 +627,11 @@ export const ragRouter = router({
    */
   seedPlatformKeywords: protectedProcedure.mutation(async () => {
     try {
-      await platformDetectionService.seedPlatformKeywords();
+      const inserted = await platformDetectionService.seedPlatformKeywords();
 
       return {
         success: true,
+        inserted,
         message: "Platform keywords seeded successfully",
       };
     } catch (error) {
@@ -594,4 +642,51 @@ export const ragRouter = router({
       });
     }
   }),
+
+  /**
+   * List platforms known to the detector, including the caller's custom platforms
+   */
+  getSupportedPlatforms: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const platforms = await platformDetectionService.getSupportedPlatforms(ctx.user.id);
+      return { success: true, platforms };
+    } catch (error) {
+      console.error("[RAG Router] Get supported platforms failed:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: `Failed to get platforms: ${error instanceof Error ? error.message : "Unknown error"}`,
+      });
+    }
+  }),
+
+  /**
+   * Add custom detection keywords, URL patterns or DOM fingerprints for a platform
+   * Keywords only apply to the caller's own detections
+   */
+  addPlatformKeywords: protectedProcedure
+    .input(
+      z.object({
+        platform: z.string().min(1).max(50),
+        keywords: z.array(z.string().min(1).max(255)).min(1).max(100),
+        type: z.enum(["keyword", "url", "dom"]).default("keyword"),
+        weight: z.number().int().min(1).max(10).default(3),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const inserted = await platformDetectionService.addPlatformKeywords(input.platform, input.keywords, {
+          userId: ctx.user.id,
+          type: input.type,
+          weight: input.weight,
+        });
+
+        return { success: true, inserted };
+      } catch (error) {
+        console.error("[RAG Router] Add platform keywords failed:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to add platform keywords: ${error instanceof Error ? error.message : "Unknown error"}`,
+        });
+      }
+    }),
 });
@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for SEO Router
+ *
+ * Tests that stored SEO reports are only readable by their owner
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createMockContext } from "@/__tests__/helpers/test-helpers";
+
+vi.mock("../../services/seo.service", () => ({
+  seoService: { getReports: vi.fn(), getReport: vi.fn() },
+}));
+vi.mock("../../services/pdf-report.service", () => ({ pdfReportService: {} }));
+vi.mock("../../services/credit.service");
+
+import { seoService } from "../../services/seo.service";
+import { seoRouter } from "./seo";
+
+const TENANT_A = 1;
+const TENANT_B = 2;
+
+const report = (id: number, url: string) => ({
+  id,
+  url,
+  status: "completed",
+  result: { score: 80 },
+  createdAt: new Date(),
+});
+
+describe("SEO Router", () => {
+  const callerFor = (userId: number) =>
+    seoRouter.createCaller(createMockContext({ id: userId, email: `tenant${userId}@example.com` }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should require authentication", async () => {
+    const caller = seoRouter.createCaller({ ...createMockContext(), user: null });
+
+    await expect(caller.listReports({})).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    expect(seoService.getReports).not.toHaveBeenCalled();
+  });
+
+  it("should only list the caller's reports", async () => {
+    vi.mocked(seoService.getReports).mockResolvedValue([report(2, "https://b.example.com")]);
+
+    const result = await callerFor(TENANT_B).listReports({});
+
+    expect(seoService.getReports).toHaveBeenCalledWith(TENANT_B, 20);
+    expect(result.reports.map((r) => r.url)).toEqual(["https://b.example.com"]);
+  });
+
+  it("should not return another tenant's report", async () => {
+    vi.mocked(seoService.getReport).mockResolvedValue(null);
+
+    await expect(callerFor(TENANT_B).getReport({ reportId: 1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(seoService.getReport).toHaveBeenCalledWith(1, TENANT_B);
+  });
+
+  it("should return the owner's report", async () => {
+    vi.mocked(seoService.getReport).mockResolvedValue(report(1, "https://a.example.com"));
+
+    const result = await callerFor(TENANT_A).getReport({ reportId: 1 });
+
+    expect(seoService.getReport).toHaveBeenCalledWith(1, TENANT_A);
+    expect(result.data).toMatchObject({ id: 1, url: "https://a.example.com", result: { score: 80 } });
+  });
+});
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { publicProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../../_core/trpc";
 import { seoService } from "../../services/seo.service";
 import { pdfReportService } from "../../services/pdf-report.service";
 import { CreditService } from "../../services/credit.service";
@@ -9,45 +10,43 @@ const creditService = new CreditService();
 /**
  * SEO & Reports Router
  * Handles website analysis, keyword research, rankings, backlinks, heatmaps, and PDF reports
+ *
+ * Reports are stored per user and only readable by their owner.
  */
 export const seoRouter = router({
     /**
      * Full SEO audit of a website
      */
-    analyzeWebsite: publicProcedure
+    analyzeWebsite: protectedProcedure
         .input(
             z.object({
                 url: z.string().url(),
-                userId: z.number().optional(),
             })
         )
-        .mutation(async ({ input }) => {
+        .mutation(async ({ ctx, input }) => {
+            const userId = ctx.user.id;
+
             try {
-                // Check credits if userId provided
-                if (input.userId) {
-                    const hasCredits = await creditService.checkBalance(input.userId, "scraping", 1);
-                    if (!hasCredits) {
-                        return {
-                            success: false,
-                            message: "Insufficient credits",
-                            data: null,
-                        };
-                    }
+                const hasCredits = await creditService.checkBalance(userId, "scraping", 1);
+                if (!hasCredits) {
+                    return {
+                        success: false,
+                        message: "Insufficient credits",
+                        data: null,
+                    };
                 }
 
-                const analysis = await seoService.analyzeWebsite(input.url, input.userId);
+                const analysis = await seoService.analyzeWebsite(input.url, userId);
 
                 // Deduct credits
-                if (input.userId) {
-                    await creditService.deductCredits(
-                        input.userId,
-                        1,
-                        "scraping",
-                        `SEO analysis for ${input.url}`,
-                        undefined,
-                        "seo_analysis"
-                    );
-                }
+                await creditService.deductCredits(
+                    userId,
+                    1,
+                    "scraping",
+                    `SEO analysis for ${input.url}`,
+                    undefined,
+                    "seo_analysis"
+                );
 
                 return {
                     success: true,
@@ -67,7 +66,7 @@ export const seoRouter = router({
     /**
      * Get keyword suggestions for a topic
      */
-    getKeywordSuggestions: publicProcedure
+    getKeywordSuggestions: protectedProcedure
         .input(
             z.object({
                 topic: z.string().min(1),
@@ -96,7 +95,7 @@ export const seoRouter = router({
     /**
      * Check keyword rankings for a website
      */
-    checkRankings: publicProcedure
+    checkRankings: protectedProcedure
         .input(
             z.object({
                 url: z.string().url(),
@@ -132,7 +131,7 @@ export const seoRouter = router({
     /**
      * Get backlink analysis
      */
-    getBacklinks: publicProcedure
+    getBacklinks: protectedProcedure
         .input(
             z.object({
                 url: z.string().url(),
@@ -160,11 +159,10 @@ export const seoRouter = router({
     /**
      * Generate PDF SEO report
      */
-    generateReport: publicProcedure
+    generateReport: protectedProcedure
         .input(
             z.object({
                 url: z.string().url(),
-                userId: z.number().optional(),
                 options: z
                     .object({
                         title: z.string().optional(),
@@ -176,22 +174,21 @@ export const seoRouter = router({
                     .optional(),
             })
         )
-        .mutation(async ({ input }) => {
+        .mutation(async ({ ctx, input }) => {
+            const userId = ctx.user.id;
+
             try {
-                // Check credits if userId provided
-                if (input.userId) {
-                    const hasCredits = await creditService.checkBalance(input.userId, "scraping", 2);
-                    if (!hasCredits) {
-                        return {
-                            success: false,
-                            message: "Insufficient credits (2 credits required for report generation)",
-                            reportUrl: null,
-                        };
-                    }
+                const hasCredits = await creditService.checkBalance(userId, "scraping", 2);
+                if (!hasCredits) {
+                    return {
+                        success: false,
+                        message: "Insufficient credits (2 credits required for report generation)",
+                        reportUrl: null,
+                    };
                 }
 
                 // First, analyze the website
-                const analysis = await seoService.analyzeWebsite(input.url, input.userId);
+                const analysis = await seoService.analyzeWebsite(input.url, userId);
 
                 // Generate PDF report
                 const pdfBuffer = await pdfReportService.generateSEOReport(analysis, input.options || {});
@@ -201,16 +198,14 @@ export const seoRouter = router({
                 const reportUrl = `data:application/pdf;base64,${pdfBuffer.toString("base64")}`;
 
                 // Deduct credits
-                if (input.userId) {
-                    await creditService.deductCredits(
-                        input.userId,
-                        2,
-                        "scraping",
-                        `SEO report generation for ${input.url}`,
-                        undefined,
-                        "seo_report"
-                    );
-                }
+                await creditService.deductCredits(
+                    userId,
+                    2,
+                    "scraping",
+                    `SEO report generation for ${input.url}`,
+                    undefined,
+                    "seo_report"
+                );
 
                 return {
                     success: true,
@@ -231,16 +226,15 @@ export const seoRouter = router({
     /**
      * List generated reports
      */
-    listReports: publicProcedure
+    listReports: protectedProcedure
         .input(
             z.object({
-                userId: z.number().optional(),
                 limit: z.number().min(1).max(100).default(20),
             })
         )
-        .query(async ({ input }) => {
+        .query(async ({ ctx, input }) => {
             try {
-                const reports = await seoService.getReports(input.userId, input.limit);
+                const reports = await seoService.getReports(ctx.user.id, input.limit);
 
                 return {
                     success: true,
@@ -260,22 +254,19 @@ export const seoRouter = router({
     /**
      * Get a specific report
      */
-    getReport: publicProcedure
+    getReport: protectedProcedure
         .input(
             z.object({
                 reportId: z.number(),
             })
         )
-        .query(async ({ input }) => {
+        .query(async ({ ctx, input }) => {
             try {
-                const report = await seoService.getReport(input.reportId);
+                const report = await seoService.getReport(input.reportId, ctx.user.id);
 
+                // Reports of other users are indistinguishable from missing ones
                 if (!report) {
-                    return {
-                        success: false,
-                        message: "Report not found",
-                        data: null,
-                    };
+                    throw new TRPCError({ code: "NOT_FOUND", message: "Report not found" });
                 }
 
                 return {
@@ -284,6 +275,7 @@ export const seoRouter = router({
                     data: report,
                 };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error("[SEO Router] getReport error:", error);
                 return {
                     success: false,
@@ -296,11 +288,10 @@ export const seoRouter = router({
     /**
      * Schedule recurring reports
      */
-    scheduleReport: publicProcedure
+    scheduleReport: protectedProcedure
         .input(
             z.object({
                 url: z.string().url(),
-                userId: z.number(),
                 frequency: z.enum(["daily", "weekly", "monthly"]),
                 recipients: z.array(z.string().email()).optional(),
             })
@@ -327,7 +318,7 @@ export const seoRouter = router({
     /**
      * Get heatmap data for a URL
      */
-    getHeatmapData: publicProcedure
+    getHeatmapData: protectedProcedure
         .input(
             z.object({
                 url: z.string().url(),
@@ -368,7 +359,7 @@ export const seoRouter = router({
     /**
      * Setup tracking script for heatmaps
      */
-    setupTracking: publicProcedure
+    setupTracking: protectedProcedure
         .input(
             z.object({
                 url: z.string().url(),
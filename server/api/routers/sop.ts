@@ -16,6 +16,13 @@ import {
   type SopVersion,
   type SopExecution,
 } from "../../../drizzle/schema-sop";
+import {
+  SopExecutionError,
+  confirmManualStep,
+  resolveSopStepOrder,
+  startSopExecutionRun,
+  updateSopSuccessRate,
+} from "../../services/sopRunner.service";
 
 // ========================================
 // VALIDATION SCHEMAS
@@ -158,7 +165,7 @@ const createVersionSchema = z.object({
 
 // Execution Schemas
 const executorTypeEnum = z.enum(["human", "ai_agent", "hybrid"]);
-const executionStatusEnum = z.enum(["in_progress", "completed", "failed", "aborted"]);
+const executionStatusEnum = z.enum(["in_progress", "running", "awaiting_input", "completed", "failed", "aborted"]);
 
 const startExecutionSchema = z.object({
   sopId: z.number().int().positive(),
@@ -182,6 +189,19 @@ const completeExecutionSchema = z.object({
   issues: z.array(z.record(z.string(), z.any())).optional(),
 });
 
+const runSopSchema = z.object({
+  sopId: z.number().int().positive(),
+  context: z.record(z.string(), z.any()).optional(),
+});
+
+const confirmExecutionStepSchema = z.object({
+  executionId: z.number().int().positive(),
+  stepId: z.number().int().positive(),
+  outcome: z.enum(["completed", "failed"]),
+  notes: z.string().max(5000).optional(),
+  output: z.record(z.string(), z.any()).optional(),
+});
+
 const listExecutionsSchema = z.object({
   sopId: z.number().int().positive().optional(),
   status: executionStatusEnum.optional(),
@@ -1692,38 +1712,9 @@ export const sopRouter = router({
           .where(eq(sopExecutions.id, input.id))
           .returning();
 
-        // Update SOP success rate if completed successfully
-        if (input.status === "completed") {
-          const [sop] = await db
-            .select()
-            .from(sopDocuments)
-            .where(eq(sopDocuments.id, execution.sopId))
-            .limit(1);
-
-          if (sop) {
-            // Calculate success rate based on completed executions
-            const allExecutions = await db
-              .select()
-              .from(sopExecutions)
-              .where(and(
-                eq(sopExecutions.sopId, execution.sopId),
-                or(
-                  eq(sopExecutions.status, "completed"),
-                  eq(sopExecutions.status, "failed")
-                )
-              ));
-
-            const successCount = allExecutions.filter(e => e.status === "completed").length;
-            const totalCount = allExecutions.length;
-            const successRate = totalCount > 0 ? (successCount / totalCount) * 100 : 0;
-
-            await db
-              .update(sopDocuments)
-              .set({
-                successRate: successRate.toFixed(2),
-              })
-              .where(eq(sopDocuments.id, execution.sopId));
-          }
+        // Update SOP success rate once the outcome is known
+        if (input.status === "completed" || input.status === "failed") {
+          await updateSopSuccessRate(execution.sopId);
         }
 
         return updated;
@@ -1814,4 +1805,173 @@ export const sopRouter = router({
         });
       }
     }),
+
+  // ========================================
+  // AUTOMATED EXECUTION
+  // ========================================
+
+  /**
+   * Start an automated run of an SOP
+   * Steps run in dependency order in the background; poll getExecution for progress
+   */
+  runSop: protectedProcedure
+    .input(runSopSchema)
+    .mutation(async ({ input, ctx }) => {
+      const userId = ctx.user.id;
+
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database not initialized",
+        });
+      }
+
+      try {
+        const [sop] = await db
+          .select()
+          .from(sopDocuments)
+          .where(and(
+            eq(sopDocuments.id, input.sopId),
+            eq(sopDocuments.userId, userId)
+          ))
+          .limit(1);
+
+        if (!sop) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "SOP not found",
+          });
+        }
+
+        const steps = await db
+          .select()
+          .from(sopSteps)
+          .where(eq(sopSteps.sopId, input.sopId));
+
+        if (steps.length === 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "SOP has no steps",
+          });
+        }
+
+        try {
+          resolveSopStepOrder(steps);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Invalid step dependencies",
+          });
+        }
+
+        const hasManualSteps = steps.some((step) => step.actionType === "manual");
+
+        const [execution] = await db
+          .insert(sopExecutions)
+          .values({
+            sopId: input.sopId,
+            userId,
+            executorType: hasManualSteps ? "hybrid" : "ai_agent",
+            status: "in_progress",
+            currentStepIndex: 0,
+            stepResults: [],
+            context: input.context,
+          })
+          .returning();
+
+        await db
+          .update(sopDocuments)
+          .set({
+            lastExecutedAt: new Date(),
+            executionCount: sop.executionCount + 1,
+          })
+          .where(eq(sopDocuments.id, input.sopId));
+
+        startSopExecutionRun(execution.id, userId);
+
+        return execution;
+      } catch (error) {
+        console.error("Failed to run SOP:", error);
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to run SOP: ${error instanceof Error ? error.message : "Unknown error"}`,
+        });
+      }
+    }),
+
+  /**
+   * Confirm a manual step of an automated run and resume the run
+   */
+  confirmExecutionStep: protectedProcedure
+    .input(confirmExecutionStepSchema)
+    .mutation(async ({ input, ctx }) => {
+      const userId = ctx.user.id;
+
+      try {
+        const execution = await confirmManualStep(input.executionId, userId, input.stepId, {
+          outcome: input.outcome,
+          notes: input.notes,
+          output: input.output,
+        });
+
+        startSopExecutionRun(execution.id, userId);
+
+        return execution;
+      } catch (error) {
+        console.error("Failed to confirm execution step:", error);
+        if (error instanceof SopExecutionError) {
+          throw new TRPCError({ code: error.code, message: error.message });
+        }
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to confirm execution step: ${error instanceof Error ? error.message : "Unknown error"}`,
+        });
+      }
+    }),
+
+  /**
+   * Get an execution with its step results
+   */
+  getExecution: protectedProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .query(async ({ input, ctx }) => {
+      const userId = ctx.user.id;
+
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database not initialized",
+        });
+      }
+
+      try {
+        const [execution] = await db
+          .select()
+          .from(sopExecutions)
+          .where(and(
+            eq(sopExecutions.id, input.id),
+            eq(sopExecutions.userId, userId)
+          ))
+          .limit(1);
+
+        if (!execution) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Execution not found",
+          });
+        }
+
+        return execution;
+      } catch (error) {
+        console.error("Failed to get execution:", error);
+        if (error instanceof TRPCError) throw error;
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to get execution: ${error instanceof Error ? error.message : "Unknown error"}`,
+        });
+      }
+    }),
 });
@@ -231,9 +231,23 @@ export const subscriptionRouter = router({
           ctx.user.id,
           input.tierSlug,
           input.paymentFrequency
-          // TODO: Add Stripe integration
         );
 
+        // Bill through Stripe when the tier has a price; the client confirms
+        // the first invoice with the returned client secret
+        const tier = await service.getTierBySlug(input.tierSlug);
+        if (process.env.STRIPE_SECRET_KEY && tier?.stripePriceId) {
+          const stripeSubscription = await service.createStripeSubscription(ctx.user.id, input.tierSlug);
+
+          return {
+            success: true,
+            subscriptionId: subscription.id,
+            stripeSubscriptionId: stripeSubscription.subscriptionId,
+            clientSecret: stripeSubscription.clientSecret,
+            message: "Subscription created, awaiting payment",
+          };
+        }
+
         return {
           success: true,
           subscriptionId: subscription.id,
@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for Voice Router
+ *
+ * Tests tenant scoping of campaigns, calls and leads
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { createMockContext } from "@/__tests__/helpers/test-helpers";
+import { createTestDb } from "@/__tests__/helpers/test-db";
+
+vi.mock("../../db");
+vi.mock("../../services/vapi.service", () => ({
+  vapiService: { createCall: vi.fn(), getCallStatus: vi.fn(), getTranscript: vi.fn() },
+}));
+vi.mock("../../_core/queue", () => ({
+  addVoiceCallJob: vi.fn(),
+}));
+
+import { getDb } from "../../db";
+import { addVoiceCallJob } from "../../_core/queue";
+import { voiceRouter } from "./voice";
+
+const TENANT_A = 1;
+const TENANT_B = 2;
+
+const dialect = new PgDialect();
+
+const campaign = (id: number, userId: number, listId: number) => ({
+  id,
+  userId,
+  listId,
+  name: `Campaign ${id}`,
+  script: "Hello",
+  status: "draft",
+  settings: {},
+  callsMade: 3,
+  callsSuccessful: 2,
+  callsFailed: 1,
+  callsAnswered: 2,
+  totalDuration: 120,
+  costInCredits: 3,
+  createdAt: new Date(),
+  count: 1,
+});
+
+const call = (id: number, userId: number, campaignId: number) => ({
+  id,
+  userId,
+  campaignId,
+  phoneNumber: "+15550100",
+  status: "completed",
+  transcript: `Transcript ${id}`,
+  vapiCallId: null,
+  calledAt: new Date(),
+  createdAt: new Date(),
+});
+
+/**
+ * The rendered where clause of every select the router ran
+ */
+const selectWheres = (db: ReturnType<typeof createTestDb>) =>
+  (db.select.mock.results as Array<{ value: any }>).map(({ value }) => {
+    const { sql, params } = dialect.sqlToQuery(value.where.mock.calls[0][0] as SQL);
+    return { sql, params };
+  });
+
+describe("Voice Router", () => {
+  const callerFor = (userId: number) =>
+    voiceRouter.createCaller(createMockContext({ id: userId, email: `tenant${userId}@example.com` }));
+
+  const useDb = (db: ReturnType<typeof createTestDb>) => {
+    vi.mocked(getDb).mockResolvedValue(db as any);
+    return db;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("should require authentication", async () => {
+    const caller = voiceRouter.createCaller({ ...createMockContext(), user: null });
+
+    await expect(caller.getCampaigns({})).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("should scope campaign, call and lead listings to the caller", async () => {
+    const db = useDb(createTestDb({ selectResponse: [campaign(2, TENANT_B, 20)] }));
+    const caller = callerFor(TENANT_B);
+
+    await caller.getCampaigns({});
+    await caller.listCalls({});
+    await caller.getLeads({});
+    const status = await caller.getStatus();
+
+    expect(status.stats.totalCalls).toBe(1);
+    const wheres = selectWheres(db);
+    expect(wheres).toHaveLength(10);
+    for (const { sql, params } of wheres) {
+      expect(sql).toMatch(/^\(?"(ai_call_campaigns|ai_calls|leads)"\."userId" = \$1/);
+      expect(params[0]).toBe(TENANT_B);
+    }
+  });
+
+  it.each([
+    ["getCampaign", { campaignId: 1 }, [TENANT_B, 1]],
+    ["getCampaignStats", { campaignId: 1 }, [TENANT_B, 1]],
+    ["startCampaign", { campaignId: 1 }, [TENANT_B, 1]],
+    ["pauseCampaign", { campaignId: 1 }, [TENANT_B, 1]],
+    ["listCalls", { campaignId: 1 }, [TENANT_B, 1]],
+    ["getCallStatus", { callId: 11 }, [TENANT_B, 11]],
+    ["getCallTranscript", { callId: 11 }, [TENANT_B, 11]],
+    ["getLeads", { listId: 10 }, [TENANT_B, 10]],
+  ])("should not let another tenant use %s on foreign ids", async (procedure, input, params) => {
+    const db = useDb(createTestDb({ selectResponse: [] }));
+    const caller = callerFor(TENANT_B) as any;
+
+    await expect(caller[procedure](input)).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(selectWheres(db)[0].params).toEqual(params);
+    expect(db.update).not.toHaveBeenCalled();
+    expect(addVoiceCallJob).not.toHaveBeenCalled();
+  });
+
+  it("should not call leads of another tenant", async () => {
+    // Only one of the two requested leads belongs to the caller
+    const db = useDb(createTestDb({ selectResponse: [campaign(2, TENANT_B, 20)] }));
+
+    await expect(callerFor(TENANT_B).startCampaign({ campaignId: 2, leadIds: [100, 200] })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    expect(selectWheres(db)[1].params).toEqual([TENANT_B, 100, 200]);
+    expect(db.update).not.toHaveBeenCalled();
+    expect(addVoiceCallJob).not.toHaveBeenCalled();
+  });
+
+  it("should not attach a campaign to another tenant's lead list", async () => {
+    const db = useDb(createTestDb({ selectResponse: [] }));
+
+    await expect(
+      callerFor(TENANT_B).createCampaign({ name: "Borrowed", script: "Hi", listId: 10 })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(selectWheres(db)[0].params).toEqual([TENANT_B, 10]);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("should create campaigns for the authenticated user", async () => {
+    const db = useDb(createTestDb({
+      selectResponse: [{ id: 20, userId: TENANT_B }],
+      insertResponse: [campaign(3, TENANT_B, 20)],
+    }));
+
+    await callerFor(TENANT_B).createCampaign({ name: "Outbound", script: "Hi", listId: 20 });
+
+    const insert = db.insert.mock.results[0].value;
+    expect(insert.values).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "Outbound", userId: TENANT_B, listId: 20 })
+    );
+  });
+
+  it("should return the owner's call transcript", async () => {
+    useDb(createTestDb({ selectResponse: [call(11, TENANT_A, 1)] }));
+
+    const result = await callerFor(TENANT_A).getCallTranscript({ callId: 11 });
+
+    expect(result.transcript).toBe("Transcript 11");
+  });
+});
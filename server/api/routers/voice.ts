@@ -1,7 +1,8 @@
 import { z } from "zod";
-import { publicProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { tenantProcedure, router } from "../../_core/trpc";
 import { getDb } from "../../db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, desc, sql, inArray, type SQL } from "drizzle-orm";
 import {
     ai_call_campaigns,
     ai_calls,
@@ -12,16 +13,80 @@ import {
 } from "../../../drizzle/schema";
 import { vapiService } from "../../services/vapi.service";
 import { addVoiceCallJob } from "../../_core/queue";
+import { getTenantService } from "../../services/tenantIsolation.service";
+
+const tenantService = getTenantService();
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+/**
+ * Load a campaign owned by the current tenant
+ */
+async function requireOwnedCampaign(db: Db, campaignId: number) {
+    const [campaign] = await db
+        .select()
+        .from(ai_call_campaigns)
+        .where(tenantService.createTenantWhereClause(ai_call_campaigns.userId, eq(ai_call_campaigns.id, campaignId)))
+        .limit(1);
+
+    if (!campaign) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Campaign not found" });
+    }
+
+    return campaign;
+}
+
+/**
+ * Load a call owned by the current tenant
+ */
+async function requireOwnedCall(db: Db, callId: number) {
+    const [call] = await db
+        .select()
+        .from(ai_calls)
+        .where(tenantService.createTenantWhereClause(ai_calls.userId, eq(ai_calls.id, callId)))
+        .limit(1);
+
+    if (!call) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Call not found" });
+    }
+
+    return call;
+}
+
+/**
+ * Throw unless the lead list belongs to the current tenant
+ */
+async function requireOwnedList(db: Db, listId: number) {
+    const [list] = await db
+        .select({ id: lead_lists.id })
+        .from(lead_lists)
+        .where(tenantService.createTenantWhereClause(lead_lists.userId, eq(lead_lists.id, listId)))
+        .limit(1);
+
+    if (!list) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Lead list not found" });
+    }
+}
+
+/**
+ * Conditions for the current tenant's calls
+ */
+function tenantCalls(...conditions: SQL[]): SQL {
+    return tenantService.createTenantWhereClause(ai_calls.userId, ...conditions);
+}
 
 /**
  * Voice Agent Router
  * Handles telephony integration, lead management, and call orchestration via Vapi.ai
+ *
+ * All procedures are scoped to the caller's tenant: campaigns, calls, lists
+ * and leads of other tenants are reported as not found.
  */
 export const voiceRouter = router({
     /**
      * Get current voice campaign status
      */
-    getStatus: publicProcedure.query(async () => {
+    getStatus: tenantProcedure.query(async () => {
         const db = await getDb();
         if (!db) {
             return {
@@ -41,10 +106,10 @@ export const voiceRouter = router({
             today.setHours(0, 0, 0, 0);
 
             const [totalCallsResult, activeCallsResult, completedTodayResult, successfulCallsResult] = await Promise.all([
-                db.select({ count: sql<number>`count(*)::int` }).from(ai_calls),
-                db.select({ count: sql<number>`count(*)::int` }).from(ai_calls).where(eq(ai_calls.status, "calling")),
-                db.select({ count: sql<number>`count(*)::int` }).from(ai_calls).where(sql`${ai_calls.calledAt} >= ${today}`),
-                db.select({ count: sql<number>`count(*)::int` }).from(ai_calls).where(eq(ai_calls.status, "completed")),
+                db.select({ count: sql<number>`count(*)::int` }).from(ai_calls).where(tenantCalls()),
+                db.select({ count: sql<number>`count(*)::int` }).from(ai_calls).where(tenantCalls(eq(ai_calls.status, "calling"))),
+                db.select({ count: sql<number>`count(*)::int` }).from(ai_calls).where(tenantCalls(sql`${ai_calls.calledAt} >= ${today}`)),
+                db.select({ count: sql<number>`count(*)::int` }).from(ai_calls).where(tenantCalls(eq(ai_calls.status, "completed"))),
             ]);
 
             const totalCalls = totalCallsResult[0]?.count || 0;
@@ -70,7 +135,7 @@ export const voiceRouter = router({
     /**
      * Get list of leads for calling
      */
-    getLeads: publicProcedure
+    getLeads: tenantProcedure
         .input(
             z.object({
                 listId: z.number().optional(),
@@ -86,22 +151,28 @@ export const voiceRouter = router({
             }
 
             try {
-                let query = db.select().from(leads);
+                const conditions: SQL[] = [];
 
                 if (input.listId) {
-                    query = query.where(eq(leads.listId, input.listId)) as any;
+                    await requireOwnedList(db, input.listId);
+                    conditions.push(eq(leads.listId, input.listId));
                 }
 
                 if (input.enrichmentStatus) {
-                    query = query.where(eq(leads.enrichmentStatus, input.enrichmentStatus)) as any;
+                    conditions.push(eq(leads.enrichmentStatus, input.enrichmentStatus));
                 }
 
-                const results = await query
+                const where = tenantService.createTenantWhereClause(leads.userId, ...conditions);
+
+                const results = await db
+                    .select()
+                    .from(leads)
+                    .where(where)
                     .limit(input.limit)
                     .offset(input.offset)
                     .orderBy(desc(leads.createdAt));
 
-                const totalResult = await db.select({ count: sql<number>`count(*)::int` }).from(leads);
+                const totalResult = await db.select({ count: sql<number>`count(*)::int` }).from(leads).where(where);
                 const total = totalResult[0]?.count || 0;
 
                 return {
@@ -109,6 +180,7 @@ export const voiceRouter = router({
                     total,
                 };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error("Error getting leads:", error);
                 throw new Error("Failed to get leads");
             }
@@ -117,10 +189,9 @@ export const voiceRouter = router({
     /**
      * Create a new campaign
      */
-    createCampaign: publicProcedure
+    createCampaign: tenantProcedure
         .input(
             z.object({
-                userId: z.number(),
                 name: z.string().min(1),
                 description: z.string().optional(),
                 script: z.string().min(1),
@@ -138,15 +209,19 @@ export const voiceRouter = router({
                 }).optional(),
             })
         )
-        .mutation(async ({ input }) => {
+        .mutation(async ({ ctx, input }) => {
             const db = await getDb();
             if (!db) {
                 throw new Error("Database not available");
             }
 
             try {
+                if (input.listId) {
+                    await requireOwnedList(db, input.listId);
+                }
+
                 const campaignData: InsertAiCallCampaign = {
-                    userId: input.userId,
+                    userId: ctx.user.id,
                     name: input.name,
                     description: input.description,
                     script: input.script,
@@ -162,6 +237,7 @@ export const voiceRouter = router({
                     campaign: result[0],
                 };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error("Error creating campaign:", error);
                 throw new Error("Failed to create campaign");
             }
@@ -170,10 +246,9 @@ export const voiceRouter = router({
     /**
      * Get all campaigns
      */
-    getCampaigns: publicProcedure
+    getCampaigns: tenantProcedure
         .input(
             z.object({
-                userId: z.number(),
                 status: z.enum(["draft", "running", "paused", "completed", "cancelled"]).optional(),
                 limit: z.number().default(50),
                 offset: z.number().default(0),
@@ -186,7 +261,7 @@ export const voiceRouter = router({
             }
 
             try {
-                const whereConditions = [eq(ai_call_campaigns.userId, input.userId)];
+                const whereConditions: SQL[] = [];
 
                 if (input.status) {
                     whereConditions.push(eq(ai_call_campaigns.status, input.status));
@@ -195,7 +270,7 @@ export const voiceRouter = router({
                 const results = await db
                     .select()
                     .from(ai_call_campaigns)
-                    .where(and(...whereConditions))
+                    .where(tenantService.createTenantWhereClause(ai_call_campaigns.userId, ...whereConditions))
                     .limit(input.limit)
                     .offset(input.offset)
                     .orderBy(desc(ai_call_campaigns.createdAt));
@@ -203,7 +278,7 @@ export const voiceRouter = router({
                 const totalResult = await db
                     .select({ count: sql<number>`count(*)::int` })
                     .from(ai_call_campaigns)
-                    .where(eq(ai_call_campaigns.userId, input.userId));
+                    .where(tenantService.createTenantWhereClause(ai_call_campaigns.userId));
                 const total = totalResult[0]?.count || 0;
 
                 return {
@@ -219,7 +294,7 @@ export const voiceRouter = router({
     /**
      * Get a specific campaign with details
      */
-    getCampaign: publicProcedure
+    getCampaign: tenantProcedure
         .input(z.object({
             campaignId: z.number(),
         }))
@@ -230,18 +305,9 @@ export const voiceRouter = router({
             }
 
             try {
-                const campaign = await db
-                    .select()
-                    .from(ai_call_campaigns)
-                    .where(eq(ai_call_campaigns.id, input.campaignId))
-                    .limit(1);
-
-                if (!campaign[0]) {
-                    throw new Error("Campaign not found");
-                }
-
-                return campaign[0];
+                return await requireOwnedCampaign(db, input.campaignId);
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error("Error getting campaign:", error);
                 throw new Error("Failed to get campaign");
             }
@@ -250,7 +316,7 @@ export const voiceRouter = router({
     /**
      * Start outbound calling campaign
      */
-    startCampaign: publicProcedure
+    startCampaign: tenantProcedure
         .input(
             z.object({
                 campaignId: z.number(),
@@ -265,34 +331,30 @@ export const voiceRouter = router({
 
             try {
                 // Get campaign details
-                const campaign = await db
-                    .select()
-                    .from(ai_call_campaigns)
-                    .where(eq(ai_call_campaigns.id, input.campaignId))
-                    .limit(1);
+                const campaign = await requireOwnedCampaign(db, input.campaignId);
 
-                if (!campaign[0]) {
-                    throw new Error("Campaign not found");
-                }
-
-                // Get leads to call
+                // Get leads to call, only from the tenant's own leads
                 let leadsToCall;
                 if (input.leadIds && input.leadIds.length > 0) {
                     leadsToCall = await db
                         .select()
                         .from(leads)
-                        .where(sql`${leads.id} = ANY(${input.leadIds})`);
-                } else if (campaign[0].listId) {
+                        .where(tenantService.createTenantWhereClause(leads.userId, inArray(leads.id, input.leadIds)));
+
+                    if (leadsToCall.length !== new Set(input.leadIds).size) {
+                        throw new TRPCError({ code: "NOT_FOUND", message: "Lead not found" });
+                    }
+                } else if (campaign.listId) {
                     leadsToCall = await db
                         .select()
                         .from(leads)
-                        .where(eq(leads.listId, campaign[0].listId));
+                        .where(tenantService.createTenantWhereClause(leads.userId, eq(leads.listId, campaign.listId)));
                 } else {
-                    throw new Error("No leads specified for campaign");
+                    throw new TRPCError({ code: "BAD_REQUEST", message: "No leads specified for campaign" });
                 }
 
                 if (leadsToCall.length === 0) {
-                    throw new Error("No leads found for campaign");
+                    throw new TRPCError({ code: "BAD_REQUEST", message: "No leads found for campaign" });
                 }
 
                 // Update campaign status
@@ -317,7 +379,7 @@ export const voiceRouter = router({
                     // Create call record
                     const callResult = await db.insert(ai_calls).values({
                         campaignId: input.campaignId,
-                        userId: campaign[0].userId,
+                        userId: campaign.userId,
                         leadId: lead.id,
                         phoneNumber,
                         status: "pending",
@@ -327,14 +389,14 @@ export const voiceRouter = router({
 
                     // Add to queue
                     const job = await addVoiceCallJob({
-                        userId: campaign[0].userId.toString(),
+                        userId: campaign.userId.toString(),
                         callId: call.id.toString(),
                         phoneNumber,
                         metadata: {
                             campaignId: input.campaignId,
                             leadId: lead.id,
-                            script: campaign[0].script,
-                            settings: campaign[0].settings,
+                            script: campaign.script,
+                            settings: campaign.settings,
                         },
                     });
 
@@ -349,6 +411,7 @@ export const voiceRouter = router({
                     jobIds,
                 };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error("Error starting campaign:", error);
                 throw new Error("Failed to start campaign");
             }
@@ -357,7 +420,7 @@ export const voiceRouter = router({
     /**
      * Pause a campaign
      */
-    pauseCampaign: publicProcedure
+    pauseCampaign: tenantProcedure
         .input(z.object({
             campaignId: z.number(),
         }))
@@ -368,6 +431,8 @@ export const voiceRouter = router({
             }
 
             try {
+                await requireOwnedCampaign(db, input.campaignId);
+
                 await db
                     .update(ai_call_campaigns)
                     .set({
@@ -381,6 +446,7 @@ export const voiceRouter = router({
                     message: "Campaign paused",
                 };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error("Error pausing campaign:", error);
                 throw new Error("Failed to pause campaign");
             }
@@ -389,7 +455,7 @@ export const voiceRouter = router({
     /**
      * Get campaign statistics
      */
-    getCampaignStats: publicProcedure
+    getCampaignStats: tenantProcedure
         .input(z.object({
             campaignId: z.number(),
         }))
@@ -400,25 +466,18 @@ export const voiceRouter = router({
             }
 
             try {
-                const campaign = await db
-                    .select()
-                    .from(ai_call_campaigns)
-                    .where(eq(ai_call_campaigns.id, input.campaignId))
-                    .limit(1);
-
-                if (!campaign[0]) {
-                    throw new Error("Campaign not found");
-                }
+                const campaign = await requireOwnedCampaign(db, input.campaignId);
 
                 return {
-                    callsMade: campaign[0].callsMade,
-                    callsSuccessful: campaign[0].callsSuccessful,
-                    callsFailed: campaign[0].callsFailed,
-                    callsAnswered: campaign[0].callsAnswered,
-                    totalDuration: campaign[0].totalDuration,
-                    costInCredits: campaign[0].costInCredits,
+                    callsMade: campaign.callsMade,
+                    callsSuccessful: campaign.callsSuccessful,
+                    callsFailed: campaign.callsFailed,
+                    callsAnswered: campaign.callsAnswered,
+                    totalDuration: campaign.totalDuration,
+                    costInCredits: campaign.costInCredits,
                 };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error("Error getting campaign stats:", error);
                 throw new Error("Failed to get campaign stats");
             }
@@ -427,10 +486,9 @@ export const voiceRouter = router({
     /**
      * Make a single call
      */
-    makeCall: publicProcedure
+    makeCall: tenantProcedure
         .input(
             z.object({
-                userId: z.number(),
                 phoneNumber: z.string(),
                 script: z.string(),
                 settings: z.object({
@@ -446,16 +504,18 @@ export const voiceRouter = router({
                 }).optional(),
             })
         )
-        .mutation(async ({ input }) => {
+        .mutation(async ({ ctx, input }) => {
             const db = await getDb();
             if (!db) {
                 throw new Error("Database not available");
             }
 
+            const userId = ctx.user.id;
+
             try {
                 // Create a temporary campaign for single call
                 const campaignResult = await db.insert(ai_call_campaigns).values({
-                    userId: input.userId,
+                    userId,
                     name: `Single Call - ${input.phoneNumber}`,
                     script: input.script,
                     settings: input.settings as any,
@@ -468,7 +528,7 @@ export const voiceRouter = router({
                 // Create call record
                 const callResult = await db.insert(ai_calls).values({
                     campaignId: campaign.id,
-                    userId: input.userId,
+                    userId,
                     phoneNumber: input.phoneNumber,
                     status: "pending",
                 } as InsertAiCall).returning();
@@ -477,7 +537,7 @@ export const voiceRouter = router({
 
                 // Add to queue
                 const job = await addVoiceCallJob({
-                    userId: input.userId.toString(),
+                    userId: userId.toString(),
                     callId: call.id.toString(),
                     phoneNumber: input.phoneNumber,
                     metadata: {
@@ -501,7 +561,7 @@ export const voiceRouter = router({
     /**
      * Get call status
      */
-    getCallStatus: publicProcedure
+    getCallStatus: tenantProcedure
         .input(z.object({
             callId: z.number(),
         }))
@@ -512,20 +572,12 @@ export const voiceRouter = router({
             }
 
             try {
-                const call = await db
-                    .select()
-                    .from(ai_calls)
-                    .where(eq(ai_calls.id, input.callId))
-                    .limit(1);
-
-                if (!call[0]) {
-                    throw new Error("Call not found");
-                }
+                const call = await requireOwnedCall(db, input.callId);
 
                 // If call has a Vapi ID and is not completed, fetch latest status
-                if (call[0].vapiCallId && call[0].status !== "completed" && call[0].status !== "failed") {
+                if (call.vapiCallId && call.status !== "completed" && call.status !== "failed") {
                     try {
-                        const vapiStatus = await vapiService.getCallStatus(call[0].vapiCallId);
+                        const vapiStatus = await vapiService.getCallStatus(call.vapiCallId);
 
                         // Update database with latest status
                         await db
@@ -541,14 +593,15 @@ export const voiceRouter = router({
                             })
                             .where(eq(ai_calls.id, input.callId));
 
-                        return { ...call[0], ...vapiStatus };
+                        return { ...call, ...vapiStatus };
                     } catch (error) {
                         console.error("Error fetching Vapi status:", error);
                     }
                 }
 
-                return call[0];
+                return call;
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error("Error getting call status:", error);
                 throw new Error("Failed to get call status");
             }
@@ -557,7 +610,7 @@ export const voiceRouter = router({
     /**
      * Get call transcript
      */
-    getCallTranscript: publicProcedure
+    getCallTranscript: tenantProcedure
         .input(z.object({
             callId: z.number(),
         }))
@@ -568,20 +621,12 @@ export const voiceRouter = router({
             }
 
             try {
-                const call = await db
-                    .select()
-                    .from(ai_calls)
-                    .where(eq(ai_calls.id, input.callId))
-                    .limit(1);
-
-                if (!call[0]) {
-                    throw new Error("Call not found");
-                }
+                const call = await requireOwnedCall(db, input.callId);
 
                 // If no transcript in DB but has Vapi ID, fetch from Vapi
-                if (!call[0].transcript && call[0].vapiCallId) {
+                if (!call.transcript && call.vapiCallId) {
                     try {
-                        const transcript = await vapiService.getTranscript(call[0].vapiCallId);
+                        const transcript = await vapiService.getTranscript(call.vapiCallId);
 
                         // Update database
                         await db
@@ -595,8 +640,9 @@ export const voiceRouter = router({
                     }
                 }
 
-                return { transcript: call[0].transcript || "" };
+                return { transcript: call.transcript || "" };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error("Error getting call transcript:", error);
                 throw new Error("Failed to get call transcript");
             }
@@ -605,10 +651,9 @@ export const voiceRouter = router({
     /**
      * List calls with filters
      */
-    listCalls: publicProcedure
+    listCalls: tenantProcedure
         .input(
             z.object({
-                userId: z.number(),
                 campaignId: z.number().optional(),
                 status: z.enum(["pending", "calling", "answered", "no_answer", "failed", "completed"]).optional(),
                 limit: z.number().default(50),
@@ -622,9 +667,10 @@ export const voiceRouter = router({
             }
 
             try {
-                const conditions = [eq(ai_calls.userId, input.userId)];
+                const conditions: SQL[] = [];
 
                 if (input.campaignId) {
+                    await requireOwnedCampaign(db, input.campaignId);
                     conditions.push(eq(ai_calls.campaignId, input.campaignId));
                 }
 
@@ -635,7 +681,7 @@ export const voiceRouter = router({
                 const results = await db
                     .select()
                     .from(ai_calls)
-                    .where(and(...conditions))
+                    .where(tenantCalls(...conditions))
                     .limit(input.limit)
                     .offset(input.offset)
                     .orderBy(desc(ai_calls.calledAt));
@@ -643,7 +689,7 @@ export const voiceRouter = router({
                 const totalResult = await db
                     .select({ count: sql<number>`count(*)::int` })
                     .from(ai_calls)
-                    .where(eq(ai_calls.userId, input.userId));
+                    .where(tenantCalls());
                 const total = totalResult[0]?.count || 0;
 
                 return {
@@ -651,6 +697,7 @@ export const voiceRouter = router({
                     total,
                 };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error("Error listing calls:", error);
                 throw new Error("Failed to list calls");
             }
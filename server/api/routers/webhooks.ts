@@ -41,6 +41,8 @@ const providerConfigSchema = z.object({
   smtpPassword: z.string().optional(),
   fromAddress: z.string().email().optional(),
   replyToAddress: z.string().email().optional(),
+  mailgunSigningKey: z.string().optional(), // Verifies Mailgun delivery status callbacks
+  sendgridVerificationKey: z.string().optional(), // Verifies SendGrid signed event webhooks
 
   // Custom webhook
   authType: z.enum(["none", "bearer", "api_key", "hmac"]).optional(),
@@ -36,6 +36,9 @@ vi.mock("../../services/workflowExecution.service", () => ({
 vi.mock("../../_core/browserbase", () => ({
   getBrowserbaseService: vi.fn(),
 }));
+vi.mock("../../_core/sse-manager", () => ({
+  sendWorkflowTestEvent: vi.fn(),
+}));
 vi.mock("../../services/cache.service", () => ({
   cacheService: {
     get: vi.fn().mockResolvedValue(null),
@@ -275,6 +278,24 @@ describe("Workflows Router", () => {
       await expect(caller.create(input as any)).rejects.toThrow();
     });
 
+    it("should reject workflow whose condition jumps create a cycle", async () => {
+      const db = createTestDb();
+      const dbModule = await import("../../db");
+      vi.mocked(dbModule.getDb).mockImplementation(() =>
+        Promise.resolve(db as any)
+      );
+
+      const caller = workflowsRouter.createCaller(mockCtx);
+      const input = createValidWorkflowInput({
+        steps: [
+          { id: "start", type: "navigate" as const, order: 0, config: { url: "https://example.com" } },
+          { id: "check", type: "condition" as const, order: 1, config: { condition: "done", elseGoto: "start" } },
+        ],
+      });
+
+      await expect(caller.create(input as any)).rejects.toThrow(/Cycle detected/);
+    });
+
     it("should reject workflow with invalid description length", async () => {
       const db = createTestDb();
       const dbModule = await import("../../db");
@@ -1707,6 +1728,33 @@ describe("Workflows Router", () => {
       expect(result.output.data).toBe("extracted");
     });
 
+    it("should stream step results when given a runId", async () => {
+      const workflowExecService = await import(
+        "../../services/workflowExecution.service"
+      );
+      const sseManager = await import("../../_core/sse-manager");
+      const stepResult = { stepIndex: 0, type: "navigate", success: true, timestamp: new Date() };
+      vi.mocked(workflowExecService.testExecuteWorkflow).mockImplementation(async (options: any) => {
+        options.onStepStart(0, { type: "navigate", order: 0, config: {} });
+        options.onStepComplete(stepResult);
+        return { status: "completed", stepResults: [stepResult], output: {}, error: undefined } as any;
+      });
+
+      const caller = workflowsRouter.createCaller(mockCtx);
+      await caller.testRun({
+        steps: [{ type: "navigate", order: 0, config: { url: "https://example.com" } }],
+        runId: "run-1",
+      });
+
+      const events = vi.mocked(sseManager.sendWorkflowTestEvent).mock.calls;
+      expect(events.map(([, runId, event]) => [runId, event.type])).toEqual([
+        ["run-1", "step:start"],
+        ["run-1", "step:complete"],
+        ["run-1", "run:complete"],
+      ]);
+      expect(events[1][2].data).toBe(stepResult);
+    });
+
     it("should return error if test run fails", async () => {
       const workflowExecService = await import(
         "../../services/workflowExecution.service"
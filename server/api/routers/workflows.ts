@@ -5,79 +5,54 @@ import { getDb } from "../../db";
 import { eq, and, desc } from "drizzle-orm";
 import { Stagehand } from "@browserbasehq/stagehand";
 import { getBrowserbaseService } from "../../_core/browserbase";
+import { sendWorkflowTestEvent } from "../../_core/sse-manager";
 
 import { automationWorkflows, workflowExecutions, browserSessions } from "../../../drizzle/schema";
 import {
   executeWorkflow,
   getExecutionStatus,
   cancelExecution,
+  resumeExecution,
   testExecuteWorkflow,
 } from "../../services/workflowExecution.service";
-
-// Define Zod schemas for validation
-const workflowStepSchema = z.object({
-    type: z.enum([
-        "navigate",
-        "act",
-        "observe",
-        "extract",
-        "wait",
-        "condition",
-        "loop",
-        "apiCall",
-        "notification"
-    ]),
-    order: z.number().int().min(0),
-    config: z.object({
-        // Navigation step
-        url: z.string().optional(),
-
-        // Action step (act)
-        instruction: z.string().optional(),
-
-        // Observation step (observe)
-        observeInstruction: z.string().optional(),
-
-        // Extraction step (extract)
-        extractInstruction: z.string().optional(),
-        schemaType: z.enum(["contactInfo", "productInfo", "custom"]).optional(),
-
-        // Wait step
-        waitMs: z.number().int().min(0).max(60000).optional(), // Max 60 seconds
-        selector: z.string().optional(), // CSS selector to wait for
-
-        // Condition step
-        condition: z.string().optional(),
-
-        // Loop step
-        items: z.array(z.any()).optional(), // Array to iterate over
-
-        // API Call step
-        method: z.enum(["GET", "POST", "PUT", "DELETE", "PATCH"]).optional(),
-        headers: z.record(z.string(), z.string()).optional(),
-        body: z.any().optional(),
-        saveAs: z.string().optional(), // Variable name to save result
-
-        // Notification step
-        message: z.string().optional(),
-        type: z.enum(["info", "success", "warning", "error"]).optional(),
-
-        // Common config
-        modelName: z.string().optional(),
-        continueOnError: z.boolean().default(false),
-    }),
+import { workflowStepListSchema } from "@shared/workflowSteps";
+import {
+    WORKFLOW_EVENTS,
+    WORKFLOW_EVENT_DESCRIPTIONS,
+    createWebhookTriggerCredentials,
+    getWorkflowWebhookUrl,
+    validateEventFilter,
+    type WorkflowTrigger,
+    type WorkflowTriggerConfig,
+} from "../../services/workflowTriggers.service";
+
+// Event subscription for event-triggered workflows
+// The filter sees the event payload fields, e.g. `outcome == "interested"`
+const eventTriggerSchema = z.object({
+    event: z.enum(WORKFLOW_EVENTS),
+    filter: z.string().max(500).optional(),
+}).superRefine((trigger, ctx) => {
+    if (!trigger.filter?.trim()) return;
+    const error = validateEventFilter(trigger.filter);
+    if (error) {
+        ctx.addIssue({ code: "custom", path: ["filter"], message: `Invalid filter: ${error}` });
+    }
 });
 
 const createWorkflowSchema = z.object({
     name: z.string().min(1).max(255),
     description: z.string().max(1000).optional(),
     trigger: z.enum(["manual", "scheduled", "webhook", "event"]).default("manual"),
-    steps: z.array(workflowStepSchema).min(1).max(50), // Limit to 50 steps
+    eventTrigger: eventTriggerSchema.optional(),
+    steps: workflowStepListSchema,
     geolocation: z.object({
         city: z.string().optional(),
         state: z.string().optional(),
         country: z.string().optional(),
     }).optional(),
+}).refine((input) => input.trigger !== "event" || input.eventTrigger, {
+    message: "eventTrigger is required for event-triggered workflows",
+    path: ["eventTrigger"],
 });
 
 const updateWorkflowSchema = z.object({
@@ -85,10 +60,48 @@ const updateWorkflowSchema = z.object({
     name: z.string().min(1).max(255).optional(),
     description: z.string().max(1000).optional(),
     trigger: z.enum(["manual", "scheduled", "webhook", "event"]).optional(),
+    eventTrigger: eventTriggerSchema.optional(),
     status: z.enum(["active", "paused", "archived"]).optional(),
-    steps: z.array(workflowStepSchema).min(1).max(50).optional(),
+    steps: workflowStepListSchema.optional(),
 });
 
+type EventTriggerInput = z.infer<typeof eventTriggerSchema>;
+
+/**
+ * Columns for a workflow's trigger
+ * Webhook triggers keep their existing token and secret so the URL
+ * configured in other systems keeps working
+ */
+function buildTriggerFields(
+    trigger: WorkflowTrigger,
+    eventTrigger: EventTriggerInput | undefined,
+    existing?: Pick<typeof automationWorkflows.$inferSelect, "triggerConfig" | "webhookToken">
+): Pick<typeof automationWorkflows.$inferInsert, "trigger" | "triggerConfig" | "webhookToken"> {
+    if (trigger === "webhook") {
+        const existingConfig = (existing?.triggerConfig || {}) as WorkflowTriggerConfig;
+        if (existing?.webhookToken && existingConfig.secret) {
+            return { trigger, triggerConfig: { secret: existingConfig.secret }, webhookToken: existing.webhookToken };
+        }
+        const { webhookToken, secret } = createWebhookTriggerCredentials();
+        return { trigger, triggerConfig: { secret }, webhookToken };
+    }
+
+    if (trigger === "event") {
+        const config: WorkflowTriggerConfig = eventTrigger
+            ? { event: eventTrigger.event, filter: eventTrigger.filter?.trim() || undefined }
+            : (existing?.triggerConfig || {}) as WorkflowTriggerConfig;
+        if (!config.event) {
+            throw new TRPCError({
+                code: "BAD_REQUEST",
+                message: "eventTrigger is required for event-triggered workflows",
+            });
+        }
+        return { trigger, triggerConfig: config, webhookToken: null };
+    }
+
+    return { trigger, triggerConfig: null, webhookToken: null };
+}
+
 export const workflowsRouter = router({
     /**
      * Create a new workflow
@@ -116,6 +129,7 @@ export const workflowsRouter = router({
                         description: input.description,
                         steps: input.steps,
                         isActive: true,
+                        ...buildTriggerFields(input.trigger, input.eventTrigger),
                     })
                     .returning();
 
@@ -269,6 +283,13 @@ export const workflowsRouter = router({
                 if (input.description !== undefined) updateData.description = input.description;
                 if (input.status !== undefined) updateData.isActive = input.status === "active";
                 if (input.steps !== undefined) updateData.steps = input.steps;
+                if (input.trigger !== undefined || input.eventTrigger !== undefined) {
+                    Object.assign(updateData, buildTriggerFields(
+                        (input.trigger ?? existing.trigger) as WorkflowTrigger,
+                        input.eventTrigger,
+                        existing
+                    ));
+                }
 
                 const [updated] = await db
                     .update(automationWorkflows)
@@ -287,6 +308,117 @@ export const workflowsRouter = router({
             }
         }),
 
+    /**
+     * Get how a workflow is triggered
+     * Includes the inbound URL and signing secret for webhook triggers
+     */
+    getTrigger: protectedProcedure
+        .input(z.object({ id: z.number().int().positive() }))
+        .query(async ({ input, ctx }) => {
+            const userId = ctx.user.id;
+
+            const db = await getDb();
+            if (!db) {
+                throw new TRPCError({
+                    code: "INTERNAL_SERVER_ERROR",
+                    message: "Database not initialized",
+                });
+            }
+
+            const [workflow] = await db
+                .select({
+                    trigger: automationWorkflows.trigger,
+                    triggerConfig: automationWorkflows.triggerConfig,
+                    webhookToken: automationWorkflows.webhookToken,
+                })
+                .from(automationWorkflows)
+                .where(and(
+                    eq(automationWorkflows.id, input.id),
+                    eq(automationWorkflows.userId, userId)
+                ))
+                .limit(1);
+
+            if (!workflow) {
+                throw new TRPCError({
+                    code: "NOT_FOUND",
+                    message: "Workflow not found",
+                });
+            }
+
+            const config = (workflow.triggerConfig || {}) as WorkflowTriggerConfig;
+
+            return {
+                trigger: workflow.trigger,
+                webhookUrl: workflow.webhookToken ? getWorkflowWebhookUrl(workflow.webhookToken) : null,
+                webhookSecret: config.secret ?? null,
+                signatureHeader: workflow.trigger === "webhook" ? "X-Webhook-Signature" : null,
+                timestampHeader: workflow.trigger === "webhook" ? "X-Webhook-Timestamp" : null,
+                event: config.event ?? null,
+                filter: config.filter ?? null,
+            };
+        }),
+
+    /**
+     * Replace a webhook-triggered workflow's signing secret
+     * The URL stays the same; requests signed with the old secret are rejected
+     */
+    rotateWebhookSecret: protectedProcedure
+        .input(z.object({ id: z.number().int().positive() }))
+        .mutation(async ({ input, ctx }) => {
+            const userId = ctx.user.id;
+
+            const db = await getDb();
+            if (!db) {
+                throw new TRPCError({
+                    code: "INTERNAL_SERVER_ERROR",
+                    message: "Database not initialized",
+                });
+            }
+
+            const [workflow] = await db
+                .select()
+                .from(automationWorkflows)
+                .where(and(
+                    eq(automationWorkflows.id, input.id),
+                    eq(automationWorkflows.userId, userId)
+                ))
+                .limit(1);
+
+            if (!workflow) {
+                throw new TRPCError({
+                    code: "NOT_FOUND",
+                    message: "Workflow not found",
+                });
+            }
+            if (workflow.trigger !== "webhook") {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: "Workflow is not webhook-triggered",
+                });
+            }
+
+            const { secret } = createWebhookTriggerCredentials();
+            const webhookToken = workflow.webhookToken || createWebhookTriggerCredentials().webhookToken;
+
+            await db
+                .update(automationWorkflows)
+                .set({ triggerConfig: { secret }, webhookToken, updatedAt: new Date() })
+                .where(eq(automationWorkflows.id, input.id));
+
+            return { webhookUrl: getWorkflowWebhookUrl(webhookToken), webhookSecret: secret };
+        }),
+
+    /**
+     * List the internal events workflows can subscribe to
+     */
+    listTriggerEvents: protectedProcedure
+        .query(() => {
+            return WORKFLOW_EVENTS.map((event) => ({
+                event,
+                description: WORKFLOW_EVENT_DESCRIPTIONS[event],
+            }));
+        }),
+
     /**
      * Delete a workflow and all associated steps and executions
      * Soft delete by setting status to 'archived'
@@ -547,14 +679,76 @@ export const workflowsRouter = router({
             }
         }),
 
+    /**
+     * Resume a failed execution from the step that failed
+     * Restores the variables checkpointed before that step
+     */
+    resumeExecution: protectedProcedure
+        .input(z.object({ executionId: z.number().int().positive() }))
+        .mutation(async ({ input, ctx }) => {
+            const userId = ctx.user.id;
+
+            const db = await getDb();
+            if (!db) {
+                throw new TRPCError({
+                    code: "INTERNAL_SERVER_ERROR",
+                    message: "Database not initialized",
+                });
+            }
+
+            // Verify ownership and that the execution can be resumed
+            const [execution] = await db
+                .select()
+                .from(workflowExecutions)
+                .where(and(
+                    eq(workflowExecutions.id, input.executionId),
+                    eq(workflowExecutions.userId, userId)
+                ))
+                .limit(1);
+
+            if (!execution) {
+                throw new TRPCError({
+                    code: "NOT_FOUND",
+                    message: "Execution not found",
+                });
+            }
+
+            if (execution.status !== "failed") {
+                throw new TRPCError({
+                    code: "BAD_REQUEST",
+                    message: "Only failed executions can be resumed",
+                });
+            }
+
+            try {
+                const result = await resumeExecution(input.executionId, userId);
+
+                return {
+                    success: true,
+                    executionId: result.executionId,
+                    workflowId: result.workflowId,
+                    status: result.status,
+                    stepResults: result.stepResults,
+                    output: result.output,
+                };
+            } catch (error) {
+                console.error("Failed to resume execution:", error);
+                throw new TRPCError({
+                    code: "INTERNAL_SERVER_ERROR",
+                    message: `Failed to resume execution: ${error instanceof Error ? error.message : "Unknown error"}`,
+                });
+            }
+        }),
+
     /**
      * Test run a workflow without saving to database
-     * Executes workflow with provided configuration and returns step-by-step results
+     * Executes workflow with provided configuration and returns step-by-step results.
+     * With a runId, each step is also streamed to /api/workflows/test-runs/:runId/stream
      */
     testRun: protectedProcedure
         .input(
             z.object({
-                steps: z.array(workflowStepSchema).min(1).max(50),
+                steps: workflowStepListSchema,
                 variables: z.record(z.string(), z.any()).optional(),
                 geolocation: z.object({
                     city: z.string().optional(),
@@ -562,10 +756,12 @@ export const workflowsRouter = router({
                     country: z.string().optional(),
                 }).optional(),
                 stepByStep: z.boolean().default(false),
+                runId: z.string().min(1).max(100).optional(),
             })
         )
         .mutation(async ({ input, ctx }) => {
             const userId = ctx.user.id;
+            const { runId } = input;
 
             try {
                 const result = await testExecuteWorkflow({
@@ -574,8 +770,21 @@ export const workflowsRouter = router({
                     variables: input.variables,
                     geolocation: input.geolocation,
                     stepByStep: input.stepByStep,
+                    ...(runId && {
+                        onStepStart: (stepIndex, step) =>
+                            sendWorkflowTestEvent(userId, runId, { type: "step:start", data: { stepIndex, type: step.type } }),
+                        onStepComplete: (stepResult) =>
+                            sendWorkflowTestEvent(userId, runId, { type: "step:complete", data: stepResult }),
+                    }),
                 });
 
+                if (runId) {
+                    sendWorkflowTestEvent(userId, runId, {
+                        type: "run:complete",
+                        data: { status: result.status, error: result.error },
+                    });
+                }
+
                 return {
                     success: true,
                     status: result.status,
@@ -585,6 +794,12 @@ export const workflowsRouter = router({
                 };
             } catch (error) {
                 console.error("Test workflow execution failed:", error);
+                if (runId) {
+                    sendWorkflowTestEvent(userId, runId, {
+                        type: "run:error",
+                        data: { error: error instanceof Error ? error.message : "Unknown error" },
+                    });
+                }
                 throw new TRPCError({
                     code: "INTERNAL_SERVER_ERROR",
                     message: `Test workflow execution failed: ${error instanceof Error ? error.message : "Unknown error"}`,
@@ -4,11 +4,40 @@
  * These endpoints are public and authenticate via webhook token
  */
 
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, json, urlencoded } from "express";
+import type { IncomingMessage } from "http";
 import { webhookReceiverService } from "../services/webhookReceiver.service";
+import { getTwilioStatusCallbackUrl } from "../services/outboundDelivery.service";
+import { workflowTriggerService } from "../services/workflowTriggers.service";
 
 export const webhookEndpointsRouter = Router();
 
+// ========================================
+// MIDDLEWARE
+// ========================================
+
+type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+// Providers sign the raw bytes, not the parsed body, so this router is mounted
+// ahead of the app-wide body parsers (like the Stripe route) and keeps a copy.
+// Vercel parses bodies itself, see _core/index.ts
+if (process.env.VERCEL !== "1") {
+  webhookEndpointsRouter.use(json({
+    limit: "50mb",
+    verify: (req, _res, buf) => {
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  }));
+  webhookEndpointsRouter.use(urlencoded({ limit: "50mb", extended: true }));
+}
+
+/**
+ * Raw JSON body captured for signature verification
+ */
+export function getRawBody(req: Request): Buffer | undefined {
+  return (req as RawBodyRequest).rawBody;
+}
+
 /**
  * Inbound webhook receiver
  * POST /api/webhooks/inbound/:token
@@ -33,7 +62,8 @@ webhookEndpointsRouter.post("/inbound/:token", async (req: Request, res: Respons
     const result = await webhookReceiverService.processWebhook(
       token,
       req.body,
-      headers
+      headers,
+      getRawBody(req)
     );
 
     if (!result.success) {
@@ -56,7 +86,8 @@ webhookEndpointsRouter.post("/inbound/:token", async (req: Request, res: Respons
       // This is likely a Twilio webhook
       res.set("Content-Type", "text/xml");
 
-      if (result.reply) {
+      // Fall back to a TwiML reply when it couldn't be sent through the Twilio API
+      if (result.reply && !result.replyDelivered) {
         return res.send(`<?xml version="1.0" encoding="UTF-8"?>
 <Response>
   <Message>${escapeXml(result.reply)}</Message>
@@ -116,13 +147,62 @@ webhookEndpointsRouter.get("/inbound/:token", async (req: Request, res: Response
  */
 webhookEndpointsRouter.post("/twilio/status/:token", async (req: Request, res: Response) => {
   const { token } = req.params;
-  const { MessageSid, MessageStatus, ErrorCode, ErrorMessage } = req.body;
+  const signature = req.get("x-twilio-signature");
+  // Twilio signs the StatusCallback URL we registered when sending
+  const url = getTwilioStatusCallbackUrl(token) || `${req.protocol}://${req.get("host")}${req.originalUrl}`;
+
+  try {
+    const result = await webhookReceiverService.handleTwilioStatusCallback(token, req.body, signature, url);
+
+    if (!result.success) {
+      if (result.error === "Webhook not found") {
+        return res.status(404).json({ success: false, error: result.error });
+      }
+      return res.status(403).json({ success: false, error: result.error });
+    }
+
+    return res.status(200).send();
+  } catch (error) {
+    console.error("Twilio status callback error:", error);
+    return res.status(500).json({ success: false, error: "Internal server error" });
+  }
+});
+
+/**
+ * Email delivery status callback
+ * POST /api/webhooks/email/status/:token
+ *
+ * Receives delivery events (delivered, open, bounce, ...) for SMTP replies
+ * from the email provider. Mailgun bodies carry their own signature, SendGrid
+ * signed event webhooks are checked with the channel's verification key, and
+ * other providers must send an X-Webhook-Signature HMAC of the raw body made
+ * with the webhook secret
+ */
+webhookEndpointsRouter.post("/email/status/:token", async (req: Request, res: Response) => {
+  const { token } = req.params;
+  const headers: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (typeof value === "string") {
+      headers[key.toLowerCase()] = value;
+    }
+  }
 
-  console.log(`Twilio status update for ${MessageSid}: ${MessageStatus}`);
+  try {
+    const result = await webhookReceiverService.handleEmailStatusCallback(token, req.body, getRawBody(req), headers);
 
-  // TODO: Update outbound message delivery status
+    if (!result.success) {
+      if (result.error === "Webhook not found") {
+        return res.status(404).json({ success: false, error: result.error });
+      }
+      return res.status(403).json({ success: false, error: result.error });
+    }
 
-  return res.status(200).send();
+    return res.json({ success: true, updated: result.updated });
+  } catch (error) {
+    console.error("Email status callback error:", error);
+    return res.status(500).json({ success: false, error: "Internal server error" });
+  }
 });
 
 /**
@@ -155,7 +235,8 @@ webhookEndpointsRouter.post("/email/:token", async (req: Request, res: Response)
     const result = await webhookReceiverService.processWebhook(
       token,
       emailPayload,
-      headers
+      headers,
+      getRawBody(req)
     );
 
     if (!result.success) {
@@ -173,6 +254,36 @@ webhookEndpointsRouter.post("/email/:token", async (req: Request, res: Response)
   }
 });
 
+/**
+ * Workflow webhook trigger
+ * POST /api/webhooks/workflows/:token
+ *
+ * Starts a webhook-triggered automation workflow. The JSON body becomes the
+ * run's variables; requests must carry their Unix timestamp in
+ * X-Webhook-Timestamp and be signed with the workflow's secret in
+ * X-Webhook-Signature (hex HMAC-SHA256 of "<timestamp>.<raw body>").
+ */
+webhookEndpointsRouter.post("/workflows/:token", async (req: Request, res: Response) => {
+  const { token } = req.params;
+
+  try {
+    const result = await workflowTriggerService.handleWebhook(token, req.body, {
+      rawBody: getRawBody(req),
+      signature: req.get("x-webhook-signature"),
+      timestamp: req.get("x-webhook-timestamp"),
+    });
+
+    if (!result.success) {
+      return res.status(result.statusCode || 400).json({ success: false, error: result.error });
+    }
+
+    return res.status(202).json({ success: true, executionId: result.executionId });
+  } catch (error) {
+    console.error("Workflow webhook error:", error);
+    return res.status(500).json({ success: false, error: "Internal server error" });
+  }
+});
+
 /**
  * Helper function to escape XML special characters
  */
@@ -0,0 +1,187 @@
+/**
+ * Stripe Webhook Tests
+ * Signed events from the local Stripe stand-in posted to the webhook route
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type Stripe from "stripe";
+import { startLocalStripe, type LocalStripe } from "../../lib/localStripe";
+import { createCreditCheckoutSession, createCreditPaymentIntent, resetStripeClient } from "../../services/stripe.service";
+
+const grantStripePurchase = vi.fn();
+const reverseStripePurchase = vi.fn();
+
+vi.mock("../../services/credit.service", () => ({
+  CreditService: vi.fn(function () {
+    return { grantStripePurchase, reverseStripePurchase };
+  }),
+}));
+
+// Processed event statuses by event id, read back by the idempotency check
+const processedEvents = new Map<string, string>();
+const execute = vi.fn(async (query: { queryChunks: unknown[] }) => {
+  const eventId = query.queryChunks.find((chunk) => typeof chunk === "string" && chunk.startsWith("evt_")) as string;
+  const status = query.queryChunks.find((chunk) => chunk === "completed" || chunk === "failed" || chunk === "pending");
+
+  if (status) {
+    processedEvents.set(eventId, status as string);
+    return { rows: [] };
+  }
+  return { rows: processedEvents.has(eventId) ? [{ stripe_event_id: eventId, status: processedEvents.get(eventId) }] : [] };
+});
+
+vi.mock("../../db", () => ({
+  getDb: vi.fn(async () => ({
+    execute,
+    select: () => ({
+      from: () => ({
+        where: () => ({ limit: async () => [{ id: 3, name: "Starter Pack" }] }),
+      }),
+    }),
+  })),
+}));
+
+import { stripeWebhookRouter } from "./stripe";
+
+const WEBHOOK_SECRET = "whsec_local_test";
+const pkg = { id: 3, name: "Starter Pack", creditAmount: 500, price: 4900, creditType: "enrichment" };
+
+describe("Stripe Webhook", () => {
+  let stripe: LocalStripe;
+  let server: Server;
+  let endpoint: string;
+
+  const deliver = async (event: Stripe.Event, secret = WEBHOOK_SECRET) => {
+    const { payload, signature } = stripe.signEvent(event, secret);
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "stripe-signature": signature },
+      body: payload,
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeAll(async () => {
+    stripe = await startLocalStripe();
+
+    const app = express();
+    app.use("/api/webhooks/stripe", stripeWebhookRouter);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/stripe`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await stripe.close();
+    delete process.env.STRIPE_SECRET_KEY;
+    delete process.env.STRIPE_WEBHOOK_SECRET;
+    delete process.env.STRIPE_API_BASE_URL;
+    resetStripeClient();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    processedEvents.clear();
+    process.env.STRIPE_SECRET_KEY = "sk_test_local";
+    process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    process.env.STRIPE_API_BASE_URL = stripe.url;
+    resetStripeClient();
+    grantStripePurchase.mockResolvedValue(true);
+    reverseStripePurchase.mockResolvedValue(0);
+  });
+
+  it("should grant credits for a paid checkout session once per event", async () => {
+    const session = await createCreditCheckoutSession(7, pkg);
+    const event = stripe.completeCheckout(session.id);
+
+    const first = await deliver(event);
+    const redelivered = await deliver(event);
+
+    expect(first).toEqual({ status: 200, body: { received: true, eventId: event.id, eventType: "checkout.session.completed" } });
+    expect(redelivered.body).toEqual({ received: true, alreadyProcessed: true });
+    expect(grantStripePurchase).toHaveBeenCalledTimes(1);
+    expect(grantStripePurchase).toHaveBeenCalledWith(
+      event.id,
+      { userId: 7, packageId: 3, creditType: "enrichment", creditAmount: 500 },
+      expect.objectContaining({
+        packageName: "Starter Pack",
+        stripeSessionId: session.id,
+        stripePaymentIntentId: stripe.checkoutSessions.get(session.id)!.payment_intent,
+        amountPaid: 4900,
+      })
+    );
+  });
+
+  it("should wait for delayed checkout payments to clear", async () => {
+    const session = await createCreditCheckoutSession(7, pkg);
+
+    await deliver(stripe.completeCheckout(session.id, { asyncPayment: true }));
+    expect(grantStripePurchase).not.toHaveBeenCalled();
+
+    const cleared = stripe.succeedAsyncPayment(session.id);
+    await deliver(cleared);
+    expect(grantStripePurchase).toHaveBeenCalledWith(cleared.id, expect.objectContaining({ userId: 7 }), expect.anything());
+  });
+
+  it("should grant direct payment intents but not checkout payment intents", async () => {
+    const paymentIntent = await createCreditPaymentIntent(7, pkg, "pm_card_visa");
+    const direct = stripe.succeedPaymentIntent(paymentIntent.id);
+
+    const session = await createCreditCheckoutSession(7, pkg);
+    stripe.completeCheckout(session.id);
+    const viaCheckout = stripe.succeedPaymentIntent(stripe.checkoutSessions.get(session.id)!.payment_intent);
+
+    await deliver(direct);
+    await deliver(viaCheckout);
+
+    expect(grantStripePurchase).toHaveBeenCalledTimes(1);
+    expect(grantStripePurchase).toHaveBeenCalledWith(
+      direct.id,
+      expect.objectContaining({ creditAmount: 500 }),
+      expect.objectContaining({ stripePaymentIntentId: paymentIntent.id, amountPaid: 4900 })
+    );
+  });
+
+  it("should reverse refunded charges by payment intent", async () => {
+    const paymentIntent = await createCreditPaymentIntent(7, pkg, "pm_card_visa");
+    stripe.succeedPaymentIntent(paymentIntent.id);
+    const refund = stripe.refund(paymentIntent.id, 2450);
+
+    const response = await deliver(refund);
+
+    expect(response.status).toBe(200);
+    expect(reverseStripePurchase).toHaveBeenCalledWith(refund.id, {
+      stripePaymentIntentId: paymentIntent.id,
+      stripeChargeId: (refund.data.object as Stripe.Charge).id,
+      amount: 4900,
+      amountRefunded: 2450,
+    });
+  });
+
+  it("should retry events that failed before", async () => {
+    const session = await createCreditCheckoutSession(7, pkg);
+    const event = stripe.completeCheckout(session.id);
+    grantStripePurchase.mockRejectedValueOnce(new Error("connection reset"));
+
+    const failed = await deliver(event);
+    const retried = await deliver(event);
+
+    expect(failed.status).toBe(500);
+    expect(retried.status).toBe(200);
+    expect(grantStripePurchase).toHaveBeenCalledTimes(2);
+    expect(processedEvents.get(event.id)).toBe("completed");
+  });
+
+  it("should reject events with an invalid signature", async () => {
+    const session = await createCreditCheckoutSession(7, pkg);
+
+    const response = await deliver(stripe.completeCheckout(session.id), "whsec_wrong");
+
+    expect(response).toEqual({ status: 401, body: { error: "Invalid signature", received: false } });
+    expect(grantStripePurchase).not.toHaveBeenCalled();
+  });
+});
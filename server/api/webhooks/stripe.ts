@@ -16,16 +16,20 @@
  * 5. Copy webhook signing secret to .env: STRIPE_WEBHOOK_SECRET=whsec_...
  *
  * Events Handled:
- * - checkout.session.completed: Credits purchase completed
- * - payment_intent.succeeded: Payment succeeded
+ * - checkout.session.completed: Credits purchase completed (when already paid)
+ * - checkout.session.async_payment_succeeded: Delayed checkout payment cleared
+ * - payment_intent.succeeded: Direct credit purchase (purchaseCredits with a payment method)
  * - payment_intent.payment_failed: Payment failed
- * - charge.refunded: Handle refunds
+ * - charge.refunded: Reverse the refunded share of the purchased credits
+ *
+ * Credits are granted only here. Every grant and reversal is keyed by the
+ * event id, so redelivered events never apply twice.
  */
 
 import { Router, Request, Response, raw } from "express";
 import Stripe from "stripe";
-import { TRPCError } from "@trpc/server";
 import { CreditService } from "../../services/credit.service";
+import { getStripe, parseCreditPurchase, type CreditPurchase } from "../../services/stripe.service";
 import { getDb } from "../../db";
 import { credit_packages } from "../../../drizzle/schema";
 import { eq, sql } from "drizzle-orm";
@@ -59,7 +63,8 @@ interface ProcessedStripeEvent {
 
 /**
  * Check if Stripe event has already been processed
- * Prevents duplicate credit awards from webhook retries
+ * Prevents duplicate credit awards from webhook retries. Failed and pending
+ * events are returned too, but only completed ones are skipped.
  */
 async function checkProcessedEvent(eventId: string): Promise<ProcessedStripeEvent | null> {
   const db = await getDb();
@@ -118,76 +123,99 @@ async function markEventProcessed(
 }
 
 /**
- * Handle checkout session completed event
- * Awards credits to user account
+ * Award the credits of a paid purchase
  */
-async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session): Promise<void> {
-  const metadata = session.metadata;
-
-  if (!metadata || !metadata.userId || !metadata.packageId) {
-    console.error("Missing metadata in checkout session:", session.id);
-    throw new Error("Missing required metadata (userId, packageId)");
-  }
-
-  const userId = parseInt(metadata.userId);
-  const packageId = parseInt(metadata.packageId);
-  const creditType = metadata.creditType as "enrichment" | "calling" | "scraping";
-  const creditAmount = parseInt(metadata.creditAmount);
-
-  // Verify package exists
+async function grantPurchase(
+  eventId: string,
+  purchase: CreditPurchase,
+  payment: { paymentIntentId: string; sessionId?: string; amountPaid: number | null; currency: string | null }
+): Promise<void> {
   const db = await getDb();
   if (!db) {
     throw new Error("Database not available");
   }
 
+  // Verify package exists
   const packageResult = await db
     .select()
     .from(credit_packages)
-    .where(eq(credit_packages.id, packageId))
+    .where(eq(credit_packages.id, purchase.packageId))
     .limit(1);
 
   if (packageResult.length === 0) {
-    console.error("Package not found:", packageId);
-    throw new Error(`Package not found: ${packageId}`);
+    console.error("Package not found:", purchase.packageId);
+    throw new Error(`Package not found: ${purchase.packageId}`);
   }
 
-  const pkg = packageResult[0];
-
-  // Award credits using CreditService
   const creditService = new CreditService();
+  const granted = await creditService.grantStripePurchase(eventId, purchase, {
+    packageName: packageResult[0].name,
+    stripeSessionId: payment.sessionId,
+    stripePaymentIntentId: payment.paymentIntentId,
+    amountPaid: payment.amountPaid, // Amount in cents
+    currency: payment.currency,
+  });
 
-  try {
-    await creditService.addCredits(
-      userId,
-      creditAmount,
-      creditType,
-      `Purchased ${pkg.name} via Stripe`,
-      "purchase",
-      {
-        packageId,
-        packageName: pkg.name,
-        stripeSessionId: session.id,
-        stripePaymentIntentId: session.payment_intent,
-        amountPaid: session.amount_total, // Amount in cents
-        currency: session.currency,
-      }
-    );
-
+  if (granted) {
     console.log(
-      `[Stripe Webhook] Successfully awarded ${creditAmount} ${creditType} credits to user ${userId}`
+      `[Stripe Webhook] Successfully awarded ${purchase.creditAmount} ${purchase.creditType} credits to user ${purchase.userId}`
     );
-  } catch (error: any) {
-    console.error("[Stripe Webhook] Failed to award credits:", error);
-    throw error;
+  } else {
+    console.log(`[Stripe Webhook] Credits for event ${eventId} were already awarded`);
+  }
+}
+
+/**
+ * Handle checkout session completed and async payment succeeded events
+ * Awards credits once the session is paid
+ */
+async function handleCheckoutSessionPaid(eventId: string, session: Stripe.Checkout.Session): Promise<void> {
+  if (session.payment_status !== "paid") {
+    // Delayed payment methods finish with checkout.session.async_payment_succeeded
+    console.log(`[Stripe Webhook] Checkout session ${session.id} is ${session.payment_status}, waiting for payment`);
+    return;
+  }
+
+  const purchase = parseCreditPurchase(session.metadata);
+  if (!purchase) {
+    console.error("Missing metadata in checkout session:", session.id);
+    throw new Error("Missing required metadata (userId, packageId, creditType, creditAmount)");
   }
+
+  if (!session.payment_intent) {
+    throw new Error(`Checkout session ${session.id} has no payment intent`);
+  }
+
+  await grantPurchase(eventId, purchase, {
+    paymentIntentId: typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent.id,
+    sessionId: session.id,
+    amountPaid: session.amount_total,
+    currency: session.currency,
+  });
 }
 
 /**
  * Handle payment intent succeeded event
+ * Only PaymentIntents created by purchaseCredits carry a credit purchase;
+ * Checkout Session payments are granted from the session events.
  */
-async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
+async function handlePaymentIntentSucceeded(eventId: string, paymentIntent: Stripe.PaymentIntent): Promise<void> {
   console.log("[Stripe Webhook] Payment intent succeeded:", paymentIntent.id);
-  // Additional handling if needed (logging, analytics, etc.)
+
+  if (paymentIntent.metadata?.purpose !== "credit_purchase") {
+    return;
+  }
+
+  const purchase = parseCreditPurchase(paymentIntent.metadata);
+  if (!purchase) {
+    throw new Error(`Invalid credit purchase metadata on payment intent ${paymentIntent.id}`);
+  }
+
+  await grantPurchase(eventId, purchase, {
+    paymentIntentId: paymentIntent.id,
+    amountPaid: paymentIntent.amount_received,
+    currency: paymentIntent.currency,
+  });
 }
 
 /**
@@ -200,77 +228,28 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): P
 
 /**
  * Handle charge refunded event
+ * Reverses the refunded share of the credits granted for the payment
  */
-async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+async function handleChargeRefunded(eventId: string, charge: Stripe.Charge): Promise<void> {
   console.log("[Stripe Webhook] Charge refunded:", charge.id);
 
-  // Get the payment intent to find related session
   if (!charge.payment_intent) {
     console.error("No payment intent found for refunded charge");
     return;
   }
 
-  const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-  if (!stripeSecretKey) {
-    console.error("Stripe not configured");
-    return;
-  }
-
-  try {
-    const stripe = new Stripe(stripeSecretKey, {
-      apiVersion: "2024-12-18.acacia" as any,
-    });
-
-    // Find checkout sessions with this payment intent
-    const sessions = await stripe.checkout.sessions.list({
-      payment_intent: charge.payment_intent as string,
-      limit: 1,
-    });
-
-    if (sessions.data.length === 0) {
-      console.error("No checkout session found for payment intent");
-      return;
-    }
-
-    const session = sessions.data[0];
-    const metadata = session.metadata;
-
-    if (!metadata || !metadata.userId) {
-      console.error("Missing metadata in session");
-      return;
-    }
+  const creditService = new CreditService();
+  const reversed = await creditService.reverseStripePurchase(eventId, {
+    stripePaymentIntentId: typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent.id,
+    stripeChargeId: charge.id,
+    amount: charge.amount,
+    amountRefunded: charge.amount_refunded,
+  });
 
-    const userId = parseInt(metadata.userId);
-    const creditType = metadata.creditType as "enrichment" | "calling" | "scraping";
-    const creditAmount = parseInt(metadata.creditAmount);
-
-    // Deduct the credits back (refund)
-    const creditService = new CreditService();
-
-    try {
-      await creditService.deductCredits(
-        userId,
-        creditAmount,
-        creditType,
-        `Refund for Stripe charge ${charge.id}`,
-        charge.id,
-        "stripe_refund",
-        {
-          stripeChargeId: charge.id,
-          stripePaymentIntentId: charge.payment_intent,
-          refundAmount: charge.amount_refunded,
-        }
-      );
-
-      console.log(
-        `[Stripe Webhook] Successfully refunded ${creditAmount} ${creditType} credits from user ${userId}`
-      );
-    } catch (error: any) {
-      console.error("[Stripe Webhook] Failed to refund credits:", error);
-      // Don't throw - we don't want to fail the webhook
-    }
-  } catch (error: any) {
-    console.error("[Stripe Webhook] Error handling refund:", error);
+  if (reversed > 0) {
+    console.log(`[Stripe Webhook] Reversed ${reversed} credits for refunded charge ${charge.id}`);
+  } else {
+    console.log(`[Stripe Webhook] No credits to reverse for charge ${charge.id}`);
   }
 }
 
@@ -314,83 +293,15 @@ stripeWebhookRouter.post("/", async (req: Request, res: Response) => {
     });
   }
 
+  let event: Stripe.Event;
   try {
-    // Initialize Stripe
-    const stripe = new Stripe(stripeSecretKey, {
-      apiVersion: "2024-12-18.acacia" as any,
-    });
-
     // Verify webhook signature using raw body
     // IMPORTANT: req.body must be the raw request body, not parsed JSON
-    const event = stripe.webhooks.constructEvent(
+    event = getStripe().webhooks.constructEvent(
       req.body,
       signature,
       webhookSecret
     );
-
-    console.log(`[Stripe Webhook] Received event: ${event.type} (ID: ${event.id})`);
-
-    // Check idempotency - avoid duplicate processing
-    const processedEvent = await checkProcessedEvent(event.id);
-    if (processedEvent) {
-      console.log(`[Stripe Webhook] Event ${event.id} already processed, skipping`);
-      return res.json({
-        received: true,
-        alreadyProcessed: true,
-      });
-    }
-
-    // Mark as processing
-    await markEventProcessed(event.id, event.type, "pending");
-
-    // Handle the event
-    try {
-      switch (event.type) {
-        case "checkout.session.completed":
-          await handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session);
-          break;
-
-        case "payment_intent.succeeded":
-          await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
-          break;
-
-        case "payment_intent.payment_failed":
-          await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
-          break;
-
-        case "charge.refunded":
-          await handleChargeRefunded(event.data.object as Stripe.Charge);
-          break;
-
-        default:
-          console.log(`[Stripe Webhook] Unhandled event type: ${event.type}`);
-      }
-
-      // Mark as completed
-      await markEventProcessed(event.id, event.type, "completed");
-
-      return res.json({
-        received: true,
-        eventId: event.id,
-        eventType: event.type,
-      });
-    } catch (error: any) {
-      // Mark as failed
-      await markEventProcessed(
-        event.id,
-        event.type,
-        "failed",
-        error instanceof Error ? error.message : String(error)
-      );
-
-      console.error("[Stripe Webhook] Error processing event:", error);
-
-      // Return 500 so Stripe retries
-      return res.status(500).json({
-        error: error instanceof Error ? error.message : "Unknown error",
-        received: false,
-      });
-    }
   } catch (error: any) {
     // Signature verification failed
     console.error("[Stripe Webhook] Signature verification failed:", error.message);
@@ -400,6 +311,73 @@ stripeWebhookRouter.post("/", async (req: Request, res: Response) => {
       received: false,
     });
   }
+
+  console.log(`[Stripe Webhook] Received event: ${event.type} (ID: ${event.id})`);
+
+  // Check idempotency - avoid duplicate processing
+  // Failed and pending events are retried; grants are keyed by event id, so a
+  // partially applied event cannot award credits twice
+  const processedEvent = await checkProcessedEvent(event.id);
+  if (processedEvent?.status === "completed") {
+    console.log(`[Stripe Webhook] Event ${event.id} already processed, skipping`);
+    return res.json({
+      received: true,
+      alreadyProcessed: true,
+    });
+  }
+
+  // Mark as processing
+  await markEventProcessed(event.id, event.type, "pending");
+
+  // Handle the event
+  try {
+    switch (event.type) {
+      case "checkout.session.completed":
+      case "checkout.session.async_payment_succeeded":
+        await handleCheckoutSessionPaid(event.id, event.data.object as Stripe.Checkout.Session);
+        break;
+
+      case "payment_intent.succeeded":
+        await handlePaymentIntentSucceeded(event.id, event.data.object as Stripe.PaymentIntent);
+        break;
+
+      case "payment_intent.payment_failed":
+        await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
+        break;
+
+      case "charge.refunded":
+        await handleChargeRefunded(event.id, event.data.object as Stripe.Charge);
+        break;
+
+      default:
+        console.log(`[Stripe Webhook] Unhandled event type: ${event.type}`);
+    }
+
+    // Mark as completed
+    await markEventProcessed(event.id, event.type, "completed");
+
+    return res.json({
+      received: true,
+      eventId: event.id,
+      eventType: event.type,
+    });
+  } catch (error: any) {
+    // Mark as failed
+    await markEventProcessed(
+      event.id,
+      event.type,
+      "failed",
+      error instanceof Error ? error.message : String(error)
+    );
+
+    console.error("[Stripe Webhook] Error processing event:", error);
+
+    // Return 500 so Stripe retries
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+      received: false,
+    });
+  }
 });
 
 /**
@@ -0,0 +1,279 @@
+/**
+ * Local Stripe Stand-in
+ * A small in-process HTTP server that answers the Stripe API calls used for
+ * credit purchases, so tests and local development run without Stripe.
+ *
+ * Point the client at it with STRIPE_API_BASE_URL=<url>. Payments are settled
+ * by calling completeCheckout / succeedPaymentIntent / refund, which return
+ * the webhook event Stripe would send; sign it with signEvent and post it to
+ * /api/webhooks/stripe.
+ *
+ * Supported endpoints:
+ * - POST /v1/checkout/sessions, GET /v1/checkout/sessions/:id
+ * - POST /v1/payment_intents, GET /v1/payment_intents/:id
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import Stripe from "stripe";
+
+type StripeObject = Record<string, any>;
+
+export interface LocalStripe {
+  url: string;
+  checkoutSessions: Map<string, StripeObject>;
+  paymentIntents: Map<string, StripeObject>;
+  /** Pay a checkout session; returns checkout.session.completed */
+  completeCheckout(sessionId: string, options?: { asyncPayment?: boolean }): Stripe.Event;
+  /** Clear a delayed checkout payment; returns checkout.session.async_payment_succeeded */
+  succeedAsyncPayment(sessionId: string): Stripe.Event;
+  /** Settle a payment intent; returns payment_intent.succeeded */
+  succeedPaymentIntent(paymentIntentId: string): Stripe.Event;
+  /** Refund (part of) a payment; returns charge.refunded with the cumulative refunded amount */
+  refund(paymentIntentId: string, amount?: number): Stripe.Event;
+  /** Sign an event the way Stripe signs webhook deliveries */
+  signEvent(event: Stripe.Event, webhookSecret: string): { payload: string; signature: string };
+  close(): Promise<void>;
+}
+
+// ========================================
+// REQUEST PARSING
+// ========================================
+
+/**
+ * Decode Stripe's form encoding (metadata[userId]=1, line_items[0][quantity]=1)
+ */
+export function parseStripeForm(body: string): StripeObject {
+  const result: StripeObject = {};
+
+  for (const [key, value] of new URLSearchParams(body)) {
+    const path = key.replace(/\]/g, "").split("[");
+    let target: any = result;
+
+    path.forEach((segment, index) => {
+      if (index === path.length - 1) {
+        target[segment] = value;
+        return;
+      }
+      if (target[segment] === undefined) {
+        target[segment] = /^\d+$/.test(path[index + 1]) ? [] : {};
+      }
+      target = target[segment];
+    });
+  }
+
+  return result;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+// ========================================
+// SERVER
+// ========================================
+
+export async function startLocalStripe(): Promise<LocalStripe> {
+  const checkoutSessions = new Map<string, StripeObject>();
+  const paymentIntents = new Map<string, StripeObject>();
+  let counter = 0;
+  const nextId = (prefix: string) => `${prefix}_local_${++counter}`;
+  const now = () => Math.floor(Date.now() / 1000);
+
+  const createPaymentIntent = (params: StripeObject): StripeObject => {
+    const id = nextId("pi");
+    const paymentIntent = {
+      id,
+      object: "payment_intent",
+      amount: parseInt(params.amount, 10),
+      amount_received: 0,
+      currency: params.currency,
+      description: params.description ?? null,
+      metadata: params.metadata ?? {},
+      payment_method: params.payment_method ?? null,
+      client_secret: `${id}_secret_local`,
+      status: "requires_payment_method",
+      latest_charge: null as string | null,
+      created: now(),
+    };
+
+    if (params.payment_method) {
+      paymentIntent.status = params.confirm === "true" ? "processing" : "requires_confirmation";
+    }
+
+    paymentIntents.set(id, paymentIntent);
+    return paymentIntent;
+  };
+
+  const createCheckoutSession = (params: StripeObject): StripeObject => {
+    const id = nextId("cs");
+    const amountTotal = (params.line_items ?? []).reduce(
+      (sum: number, item: StripeObject) => sum + parseInt(item.price_data?.unit_amount ?? "0", 10) * parseInt(item.quantity ?? "1", 10),
+      0
+    );
+
+    const session = {
+      id,
+      object: "checkout.session",
+      mode: params.mode,
+      url: `https://checkout.local/pay/${id}`,
+      success_url: params.success_url?.replace("{CHECKOUT_SESSION_ID}", id),
+      cancel_url: params.cancel_url,
+      client_reference_id: params.client_reference_id ?? null,
+      metadata: params.metadata ?? {},
+      amount_total: amountTotal,
+      currency: params.line_items?.[0]?.price_data?.currency ?? "usd",
+      payment_intent: null as string | null,
+      payment_status: "unpaid",
+      status: "open",
+      created: now(),
+    };
+
+    checkoutSessions.set(id, session);
+    return session;
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    const notFound = (id: string) =>
+      send(404, { error: { type: "invalid_request_error", code: "resource_missing", message: `No such object: '${id}'` } });
+
+    try {
+      const params = parseStripeForm(await readBody(req));
+      const [, version, resource, ...rest] = (req.url ?? "").split("?")[0].split("/");
+      const path = [resource, ...rest].join("/");
+
+      if (version !== "v1") {
+        return notFound(req.url ?? "");
+      }
+
+      if (req.method === "POST" && path === "checkout/sessions") {
+        return send(200, createCheckoutSession(params));
+      }
+      if (req.method === "GET" && path.startsWith("checkout/sessions/")) {
+        const session = checkoutSessions.get(rest[1]);
+        return session ? send(200, session) : notFound(rest[1]);
+      }
+      if (req.method === "POST" && path === "payment_intents") {
+        return send(200, createPaymentIntent(params));
+      }
+      if (req.method === "GET" && path.startsWith("payment_intents/")) {
+        const paymentIntent = paymentIntents.get(rest[0]);
+        return paymentIntent ? send(200, paymentIntent) : notFound(rest[0]);
+      }
+
+      return notFound(path);
+    } catch (error: any) {
+      send(500, { error: { type: "api_error", message: error.message } });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const event = (type: string, object: StripeObject): Stripe.Event =>
+    ({
+      id: nextId("evt"),
+      object: "event",
+      type,
+      created: now(),
+      livemode: false,
+      api_version: "2024-12-18.acacia",
+      pending_webhooks: 1,
+      request: { id: null, idempotency_key: null },
+      data: { object: structuredClone(object) },
+    }) as unknown as Stripe.Event;
+
+  const settle = (paymentIntent: StripeObject) => {
+    paymentIntent.status = "succeeded";
+    paymentIntent.amount_received = paymentIntent.amount;
+    paymentIntent.latest_charge = paymentIntent.latest_charge ?? nextId("ch");
+  };
+
+  const getSession = (sessionId: string) => {
+    const session = checkoutSessions.get(sessionId);
+    if (!session) throw new Error(`Unknown checkout session ${sessionId}`);
+    return session;
+  };
+
+  const getPaymentIntent = (paymentIntentId: string) => {
+    const paymentIntent = paymentIntents.get(paymentIntentId);
+    if (!paymentIntent) throw new Error(`Unknown payment intent ${paymentIntentId}`);
+    return paymentIntent;
+  };
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    checkoutSessions,
+    paymentIntents,
+
+    completeCheckout(sessionId, options = {}) {
+      const session = getSession(sessionId);
+      // The session's PaymentIntent carries no metadata, like a real Checkout payment
+      const paymentIntent = createPaymentIntent({ amount: String(session.amount_total), currency: session.currency });
+      session.payment_intent = paymentIntent.id;
+      session.status = "complete";
+
+      if (options.asyncPayment) {
+        paymentIntent.status = "processing";
+      } else {
+        settle(paymentIntent);
+        session.payment_status = "paid";
+      }
+      return event("checkout.session.completed", session);
+    },
+
+    succeedAsyncPayment(sessionId) {
+      const session = getSession(sessionId);
+      settle(getPaymentIntent(session.payment_intent!));
+      session.payment_status = "paid";
+      return event("checkout.session.async_payment_succeeded", session);
+    },
+
+    succeedPaymentIntent(paymentIntentId) {
+      const paymentIntent = getPaymentIntent(paymentIntentId);
+      settle(paymentIntent);
+      return event("payment_intent.succeeded", paymentIntent);
+    },
+
+    refund(paymentIntentId, amount) {
+      const paymentIntent = getPaymentIntent(paymentIntentId);
+      if (paymentIntent.status !== "succeeded") {
+        throw new Error(`Payment intent ${paymentIntentId} has not succeeded`);
+      }
+
+      paymentIntent.amount_refunded = Math.min(
+        paymentIntent.amount,
+        (paymentIntent.amount_refunded ?? 0) + (amount ?? paymentIntent.amount)
+      );
+
+      return event("charge.refunded", {
+        id: paymentIntent.latest_charge,
+        object: "charge",
+        amount: paymentIntent.amount,
+        amount_refunded: paymentIntent.amount_refunded,
+        currency: paymentIntent.currency,
+        payment_intent: paymentIntent.id,
+        refunded: paymentIntent.amount_refunded === paymentIntent.amount,
+      });
+    },
+
+    signEvent(stripeEvent, webhookSecret) {
+      const payload = JSON.stringify(stripeEvent);
+      const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret: webhookSecret });
+      return { payload, signature };
+    },
+
+    close() {
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
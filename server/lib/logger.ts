@@ -63,6 +63,8 @@ export const serviceLoggers = {
   worker: logger.child({ service: 'worker' }),
   apify: logger.child({ service: 'apify' }),
   deployment: logger.child({ service: 'deployment' }),
+  sandbox: logger.child({ service: 'sandbox' }),
+  sop: logger.child({ service: 'sop' }),
 };
 
 /**
@@ -6,7 +6,12 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { evaluateExpression } from "./safeExpressionParser";
+import {
+  evaluateExpression,
+  evaluateExpressionValue,
+  getExpressionVariables,
+  validateExpression,
+} from "./safeExpressionParser";
 
 describe("SafeExpressionParser", () => {
   describe("Boolean Literals", () => {
@@ -575,6 +580,95 @@ describe("SafeExpressionParser", () => {
     });
   });
 
+  describe("Arithmetic", () => {
+    it("should respect operator precedence", () => {
+      expect(evaluateExpressionValue("2 + 3 * 4 - 10 / 5", {}).value).toBe(12);
+      expect(evaluateExpressionValue("(2 + 3) * 4 % 7", {}).value).toBe(6);
+    });
+
+    it("should tell subtraction from negative numbers", () => {
+      expect(evaluateExpressionValue("total -5", { total: 20 }).value).toBe(15);
+      expect(evaluateExpressionValue("-price * 2", { price: 4 }).value).toBe(-8);
+    });
+
+    it("should concatenate when either side is a string", () => {
+      expect(evaluateExpressionValue('first + " " + last', { first: "Ada", last: "Lovelace" }).value).toBe(
+        "Ada Lovelace"
+      );
+    });
+
+    it("should compare computed values", () => {
+      const result = evaluateExpression("price * quantity >= 100", { price: 25, quantity: 4 });
+      expect(result.result).toBe(true);
+    });
+
+    it("should reject non-numeric operands and division by zero", () => {
+      expect(evaluateExpressionValue("name * 2", { name: "Ada" }).error).toContain("non-numeric");
+      expect(evaluateExpressionValue("10 / count", { count: 0 }).error).toBe("Division by zero");
+    });
+  });
+
+  describe("Membership (in)", () => {
+    it("should check arrays, strings and object keys", () => {
+      const context = { tags: ["vip", "lead"], bio: "CTO at Acme", fields: { email: "a@b.co" } };
+      expect(evaluateExpression('"vip" in tags', context).result).toBe(true);
+      expect(evaluateExpression('"Acme" in bio', context).result).toBe(true);
+      expect(evaluateExpression('"phone" in fields', context).result).toBe(false);
+    });
+  });
+
+  describe("Indexing", () => {
+    it("should index arrays, strings and objects", () => {
+      const context = { items: [{ name: "first" }, { name: "second" }], row: { "first name": "Ada" }, i: 1 };
+      expect(evaluateExpressionValue("items[0].name", context).value).toBe("first");
+      expect(evaluateExpressionValue("items[i].name", context).value).toBe("second");
+      expect(evaluateExpressionValue("items[-1].name", context).value).toBe("second");
+      expect(evaluateExpressionValue('row["first name"]', context).value).toBe("Ada");
+    });
+
+    it("should reject prototype keys", () => {
+      const result = evaluateExpressionValue('items["constructor"]', { items: [] });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("unsafe");
+    });
+  });
+
+  describe("Functions", () => {
+    it("should call whitelisted functions", () => {
+      const context = { items: [1, 2, 3], email: "ada@acme.com" };
+      expect(evaluateExpressionValue("len(items) + 1", context).value).toBe(4);
+      expect(evaluateExpression('contains(email, "@acme.com")', context).result).toBe(true);
+      expect(evaluateExpression('startsWith(email, "ada")', context).result).toBe(true);
+      expect(evaluateExpressionValue("now()", {}).value).toEqual(expect.any(Number));
+    });
+
+    it("should not call functions from the context", () => {
+      const result = evaluateExpression("run()", { run: () => true });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("unsafe");
+    });
+
+    it("should not expose methods as values", () => {
+      expect(evaluateExpressionValue("items.map", { items: [] }).value).toBeUndefined();
+    });
+  });
+
+  describe("Validation", () => {
+    it("should validate syntax without evaluating", () => {
+      expect(validateExpression("amount * 2 > limit")).toBeUndefined();
+      expect(validateExpression("amount *")).toEqual(expect.any(String));
+      expect(validateExpression("amount limit")).toContain("Unexpected token");
+    });
+
+    it("should list the top-level variables", () => {
+      expect(getExpressionVariables('contact.email == owner.email && len(tags) > 0 && "x" in tags')).toEqual([
+        "contact",
+        "owner",
+        "tags",
+      ]);
+    });
+  });
+
   describe("Security - Code Injection Prevention", () => {
     it("should reject function calls", () => {
       const result = evaluateExpression("alert('xss')", {});
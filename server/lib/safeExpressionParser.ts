@@ -1,19 +1,26 @@
 /**
  * Safe Expression Parser
  *
- * A secure alternative to eval() for evaluating boolean expressions.
- * Supports comparison operators, logical operators, and property access
- * without the security risks of eval() or Function constructor.
+ * A secure alternative to eval() for evaluating expressions.
+ * Supports comparison, logical and arithmetic operators, property access
+ * and a small set of whitelisted functions without the security risks of
+ * eval() or Function constructor.
  *
  * Supported features:
  * - Comparison: ==, ===, !=, !==, <, >, <=, >=
+ * - Membership: item in list, "sub" in text, key in object
  * - Logical: &&, ||, !
+ * - Arithmetic: +, -, *, /, % (+ concatenates when either side is a string)
  * - Literals: true, false, numbers, strings
  * - Variables: from context object
  * - Property access: user.name, data.items.length
+ * - Indexing: items[0], items[-1] (last), row["first name"]
+ * - Functions: len(x), contains(haystack, needle), startsWith(text, prefix), now()
  * - Parentheses: for grouping expressions
  *
- * Security: NO eval(), NO Function(), NO arbitrary code execution
+ * Security: NO eval(), NO Function(), NO arbitrary code execution.
+ * Only the whitelisted functions can be called, and prototype keys
+ * (__proto__, constructor, prototype) can't be read.
  */
 
 // Token types for lexical analysis
@@ -27,6 +34,9 @@ enum TokenType {
   // Identifiers and property access
   IDENTIFIER = "IDENTIFIER",
   DOT = "DOT",
+  LBRACKET = "LBRACKET",
+  RBRACKET = "RBRACKET",
+  COMMA = "COMMA",
 
   // Comparison operators
   EQ = "EQ", // ==
@@ -37,6 +47,14 @@ enum TokenType {
   LTE = "LTE", // <=
   GT = "GT", // >
   GTE = "GTE", // >=
+  IN = "IN", // in
+
+  // Arithmetic operators
+  PLUS = "PLUS", // +
+  MINUS = "MINUS", // -
+  STAR = "STAR", // *
+  SLASH = "SLASH", // /
+  PERCENT = "PERCENT", // %
 
   // Logical operators
   AND = "AND", // &&
@@ -63,6 +81,37 @@ export interface ExpressionResult {
   error?: string;
 }
 
+export interface ExpressionValueResult {
+  success: boolean;
+  value: unknown;
+  error?: string;
+}
+
+/**
+ * Functions callable from expressions. Anything else followed by '(' is rejected.
+ */
+const SAFE_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  len: (value) => {
+    if (typeof value === "string" || Array.isArray(value)) return value.length;
+    if (value && typeof value === "object") return Object.keys(value).length;
+    return 0;
+  },
+  contains: (haystack, needle) => isMember(needle, haystack),
+  startsWith: (text, prefix) =>
+    typeof text === "string" && typeof prefix === "string" && text.startsWith(prefix),
+  now: () => Date.now(),
+};
+
+/**
+ * Keys that could reach an object's prototype
+ */
+const FORBIDDEN_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Upper bound on expression length, to keep parsing cheap
+ */
+const MAX_EXPRESSION_LENGTH = 2000;
+
 /**
  * Tokenize the input expression into a stream of tokens
  */
@@ -177,6 +226,39 @@ function tokenize(expression: string): Token[] {
       continue;
     }
 
+    const singleCharTokens: Record<string, TokenType> = {
+      "[": TokenType.LBRACKET,
+      "]": TokenType.RBRACKET,
+      ",": TokenType.COMMA,
+      "+": TokenType.PLUS,
+      "-": TokenType.MINUS,
+      "*": TokenType.STAR,
+      "/": TokenType.SLASH,
+      "%": TokenType.PERCENT,
+    };
+
+    // '-' before a digit is a negative number unless it follows a value (a - 1)
+    const previousType = tokens[tokens.length - 1]?.type;
+    const followsValue =
+      previousType === TokenType.NUMBER ||
+      previousType === TokenType.STRING ||
+      previousType === TokenType.IDENTIFIER ||
+      previousType === TokenType.TRUE ||
+      previousType === TokenType.FALSE ||
+      previousType === TokenType.RPAREN ||
+      previousType === TokenType.RBRACKET;
+    const isNegativeNumber = char === "-" && /[0-9]/.test(input[position + 1]) && !followsValue;
+
+    if (singleCharTokens[char] && !isNegativeNumber) {
+      // '++', '**' and the like are not supported
+      if ((char === "+" || char === "*") && input[position + 1] === char) {
+        throw new Error(`Unsupported operator '${char}${char}' at position ${position}`);
+      }
+      tokens.push({ type: singleCharTokens[char], value: char, position });
+      position++;
+      continue;
+    }
+
     // String literals (double or single quotes)
     if (char === '"' || char === "'") {
       const quote = char;
@@ -239,17 +321,23 @@ function tokenize(expression: string): Token[] {
       while (lookAhead < input.length && /\s/.test(input[lookAhead])) {
         lookAhead++;
       }
-      if (lookAhead < input.length && input[lookAhead] === "(") {
+      if (
+        lookAhead < input.length &&
+        input[lookAhead] === "(" &&
+        !Object.prototype.hasOwnProperty.call(SAFE_FUNCTIONS, value)
+      ) {
         throw new Error(
-          `unsafe function call detected: "${value}()". Function calls are not allowed.`
+          `unsafe function call detected: "${value}()". Only ${Object.keys(SAFE_FUNCTIONS).join(", ")} can be called.`
         );
       }
 
-      // Check for boolean keywords
+      // Check for keywords
       if (value === "true") {
         tokens.push({ type: TokenType.TRUE, value: true, position });
       } else if (value === "false") {
         tokens.push({ type: TokenType.FALSE, value: false, position });
+      } else if (value === "in") {
+        tokens.push({ type: TokenType.IN, value: "in", position });
       } else {
         tokens.push({ type: TokenType.IDENTIFIER, value, position });
       }
@@ -279,7 +367,14 @@ class Parser {
    * Parse the full expression
    */
   parse(): any {
-    return this.parseOrExpression();
+    const expr = this.parseOrExpression();
+
+    if (!this.isAtEnd()) {
+      const token = this.peek();
+      throw new Error(`Unexpected token: ${token.type} at position ${token.position}`);
+    }
+
+    return expr;
   }
 
   /**
@@ -314,10 +409,10 @@ class Parser {
 
   /**
    * Parse comparison expression
-   * comparison := unary ( ( '==' | '===' | '!=' | '!==' | '<' | '<=' | '>' | '>=' ) unary )?
+   * comparison := additive ( ( '==' | '===' | '!=' | '!==' | '<' | '<=' | '>' | '>=' | 'in' ) additive )?
    */
   private parseComparisonExpression(): any {
-    let left = this.parseUnaryExpression();
+    const left = this.parseAdditiveExpression();
 
     if (
       this.check(TokenType.EQ) ||
@@ -327,10 +422,11 @@ class Parser {
       this.check(TokenType.LT) ||
       this.check(TokenType.LTE) ||
       this.check(TokenType.GT) ||
-      this.check(TokenType.GTE)
+      this.check(TokenType.GTE) ||
+      this.check(TokenType.IN)
     ) {
       const operator = this.advance();
-      const right = this.parseUnaryExpression();
+      const right = this.parseAdditiveExpression();
       return { type: "comparison", operator: operator.type, left, right };
     }
 
@@ -338,8 +434,40 @@ class Parser {
   }
 
   /**
-   * Parse unary expression (NOT)
-   * unary := '!' unary | primary
+   * Parse additive expression
+   * additive := multiplicative ( ( '+' | '-' ) multiplicative )*
+   */
+  private parseAdditiveExpression(): any {
+    let left = this.parseMultiplicativeExpression();
+
+    while (this.check(TokenType.PLUS) || this.check(TokenType.MINUS)) {
+      const operator = this.advance();
+      const right = this.parseMultiplicativeExpression();
+      left = { type: "arithmetic", operator: operator.type, left, right };
+    }
+
+    return left;
+  }
+
+  /**
+   * Parse multiplicative expression
+   * multiplicative := unary ( ( '*' | '/' | '%' ) unary )*
+   */
+  private parseMultiplicativeExpression(): any {
+    let left = this.parseUnaryExpression();
+
+    while (this.check(TokenType.STAR) || this.check(TokenType.SLASH) || this.check(TokenType.PERCENT)) {
+      const operator = this.advance();
+      const right = this.parseUnaryExpression();
+      left = { type: "arithmetic", operator: operator.type, left, right };
+    }
+
+    return left;
+  }
+
+  /**
+   * Parse unary expression (NOT, negation)
+   * unary := ( '!' | '-' ) unary | postfix
    */
   private parseUnaryExpression(): any {
     if (this.match(TokenType.NOT)) {
@@ -347,12 +475,46 @@ class Parser {
       return { type: "not", operand };
     }
 
-    return this.parsePrimaryExpression();
+    if (this.match(TokenType.MINUS)) {
+      const operand = this.parseUnaryExpression();
+      return { type: "negate", operand };
+    }
+
+    return this.parsePostfixExpression();
+  }
+
+  /**
+   * Parse property access and indexing
+   * postfix := primary ( '.' IDENTIFIER | '[' or_expr ']' )*
+   */
+  private parsePostfixExpression(): any {
+    let expr = this.parsePrimaryExpression();
+
+    while (this.check(TokenType.DOT) || this.check(TokenType.LBRACKET)) {
+      if (this.match(TokenType.DOT)) {
+        if (!this.check(TokenType.IDENTIFIER)) {
+          throw new Error("Expected property name after '.'");
+        }
+        const property = this.advance().value;
+        expr = { type: "member", object: expr, property: { type: "literal", value: property } };
+        continue;
+      }
+
+      this.advance(); // '['
+      const property = this.parseOrExpression();
+      if (!this.match(TokenType.RBRACKET)) {
+        throw new Error("Expected ']' after index");
+      }
+      expr = { type: "member", object: expr, property, computed: true };
+    }
+
+    return expr;
   }
 
   /**
-   * Parse primary expression (literals, identifiers, grouped expressions)
-   * primary := TRUE | FALSE | NUMBER | STRING | identifier | '(' or_expr ')'
+   * Parse primary expression (literals, identifiers, function calls, grouped expressions)
+   * primary := TRUE | FALSE | NUMBER | STRING | IDENTIFIER | call | '(' or_expr ')'
+   * call := IDENTIFIER '(' ( or_expr ( ',' or_expr )* )? ')'
    */
   private parsePrimaryExpression(): any {
     // Boolean literals
@@ -374,21 +536,24 @@ class Parser {
       return { type: "literal", value: this.previous().value };
     }
 
-    // Identifiers (with property access)
+    // Identifiers and whitelisted function calls
     if (this.match(TokenType.IDENTIFIER)) {
-      const identifierToken = this.previous();
-      const path = [identifierToken.value];
-
-      // Handle property access (e.g., user.name.first)
-      while (this.match(TokenType.DOT)) {
-        if (!this.check(TokenType.IDENTIFIER)) {
-          throw new Error("Expected property name after '.'");
+      const name = this.previous().value;
+
+      if (this.match(TokenType.LPAREN)) {
+        const args: any[] = [];
+        if (!this.check(TokenType.RPAREN)) {
+          do {
+            args.push(this.parseOrExpression());
+          } while (this.match(TokenType.COMMA));
         }
-        this.advance();
-        path.push(this.previous().value);
+        if (!this.match(TokenType.RPAREN)) {
+          throw new Error(`Expected ')' after arguments to ${name}()`);
+        }
+        return { type: "call", name, args };
       }
 
-      return { type: "identifier", path };
+      return { type: "identifier", name };
     }
 
     // Grouped expressions
@@ -438,6 +603,82 @@ class Parser {
   }
 }
 
+/**
+ * Read a property or index without reaching the prototype chain's functions
+ */
+function readProperty(object: unknown, key: unknown): unknown {
+  if (object === null || object === undefined) {
+    return undefined;
+  }
+
+  if (typeof key !== "string" && typeof key !== "number") {
+    throw new Error(`Invalid property key: ${String(key)}`);
+  }
+
+  if (FORBIDDEN_KEYS.has(String(key))) {
+    throw new Error(`unsafe property access: "${key}"`);
+  }
+
+  // Negative indexes count from the end of arrays and strings
+  if (typeof key === "number" && key < 0 && (Array.isArray(object) || typeof object === "string")) {
+    key = object.length + key;
+  }
+
+  const value = (object as Record<string | number, unknown>)[key as string | number];
+  return typeof value === "function" ? undefined : value;
+}
+
+/**
+ * Membership test used by `in` and contains()
+ */
+function isMember(needle: unknown, haystack: unknown): boolean {
+  if (Array.isArray(haystack)) {
+    return haystack.includes(needle);
+  }
+  if (typeof haystack === "string") {
+    return haystack.includes(String(needle));
+  }
+  if (haystack && typeof haystack === "object") {
+    return Object.prototype.hasOwnProperty.call(haystack, String(needle));
+  }
+  return false;
+}
+
+function toNumber(value: unknown, operator: string): number {
+  const number = typeof value === "number" ? value : Number(value);
+  if (value === null || value === undefined || value === "" || Number.isNaN(number)) {
+    throw new Error(`Cannot apply '${operator}' to non-numeric value ${JSON.stringify(value) ?? "undefined"}`);
+  }
+  return number;
+}
+
+function evaluateArithmetic(operator: TokenType, left: unknown, right: unknown): unknown {
+  if (operator === TokenType.PLUS && (typeof left === "string" || typeof right === "string")) {
+    return `${left ?? ""}${right ?? ""}`;
+  }
+
+  const symbol = { PLUS: "+", MINUS: "-", STAR: "*", SLASH: "/", PERCENT: "%" }[operator as string] ?? operator;
+  const a = toNumber(left, symbol);
+  const b = toNumber(right, symbol);
+
+  switch (operator) {
+    case TokenType.PLUS:
+      return a + b;
+    case TokenType.MINUS:
+      return a - b;
+    case TokenType.STAR:
+      return a * b;
+    case TokenType.SLASH:
+    case TokenType.PERCENT:
+      if (b === 0) {
+        throw new Error("Division by zero");
+      }
+      return operator === TokenType.SLASH ? a / b : a % b;
+    default:
+      throw new Error(`Unknown arithmetic operator: ${operator}`);
+  }
+}
+
 /**
  * Evaluate the parsed AST
  */
@@ -446,18 +687,28 @@ function evaluateAST(node: any, context: Record<string, unknown>): any {
     case "literal":
       return node.value;
 
-    case "identifier": {
-      // Resolve variable from context using property path
-      let value: any = context;
-      for (const prop of node.path) {
-        if (value === null || value === undefined) {
-          return undefined;
-        }
-        value = value[prop];
-      }
-      return value;
+    case "identifier":
+      // Resolve variable from context
+      return readProperty(context, node.name);
+
+    case "member":
+      return readProperty(evaluateAST(node.object, context), evaluateAST(node.property, context));
+
+    case "call": {
+      const args = node.args.map((arg: any) => evaluateAST(arg, context));
+      return SAFE_FUNCTIONS[node.name](...args);
     }
 
+    case "negate":
+      return -toNumber(evaluateAST(node.operand, context), "-");
+
+    case "arithmetic":
+      return evaluateArithmetic(
+        node.operator,
+        evaluateAST(node.left, context),
+        evaluateAST(node.right, context)
+      );
+
     case "not": {
       const operand = evaluateAST(node.operand, context);
       return !operand;
@@ -498,6 +749,8 @@ function evaluateAST(node: any, context: Record<string, unknown>): any {
           return left > right;
         case TokenType.GTE:
           return left >= right;
+        case TokenType.IN:
+          return isMember(left, right);
         default:
           throw new Error(`Unknown comparison operator: ${node.operator}`);
       }
@@ -508,6 +761,34 @@ function evaluateAST(node: any, context: Record<string, unknown>): any {
   }
 }
 
+/**
+ * Tokenize and parse an expression into an AST
+ */
+function parseExpression(expression: string): any {
+  const trimmed = expression.trim();
+  if (!trimmed) {
+    throw new Error("Expression cannot be empty");
+  }
+
+  if (trimmed.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  // Tokenize
+  const tokens = tokenize(trimmed);
+
+  // Parse
+  const parser = new Parser(tokens);
+  return parser.parse();
+}
+
+/**
+ * Parse and evaluate an expression, returning its raw value
+ */
+function evaluate(expression: string, context: Record<string, unknown>): unknown {
+  return evaluateAST(parseExpression(expression), context);
+}
+
 /**
  * Safely evaluate a boolean expression
  *
@@ -520,30 +801,10 @@ export function evaluateExpression(
   context: Record<string, unknown>
 ): ExpressionResult {
   try {
-    // Validate input
-    const trimmed = expression.trim();
-    if (!trimmed) {
-      return {
-        success: false,
-        result: false,
-        error: "Expression cannot be empty",
-      };
-    }
-
-    // Tokenize
-    const tokens = tokenize(trimmed);
-
-    // Parse
-    const parser = new Parser(tokens);
-    const ast = parser.parse();
-
-    // Evaluate
-    const result = evaluateAST(ast, context);
-
     // Convert to boolean
     return {
       success: true,
-      result: Boolean(result),
+      result: Boolean(evaluate(expression, context)),
     };
   } catch (error) {
     return {
@@ -553,3 +814,62 @@ export function evaluateExpression(
     };
   }
 }
+
+/**
+ * Safely evaluate an expression to its value (number, string, array, ...)
+ * Used for computed values such as `{{price * quantity}}` in templates
+ *
+ * @param expression - The expression string to evaluate
+ * @param context - Object containing variables referenced in the expression
+ * @returns Result object with success flag, value, and optional error
+ */
+export function evaluateExpressionValue(
+  expression: string,
+  context: Record<string, unknown>
+): ExpressionValueResult {
+  try {
+    return {
+      success: true,
+      value: evaluate(expression, context),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      value: undefined,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Check an expression parses without evaluating it
+ *
+ * @returns The syntax error, or undefined when the expression is valid
+ */
+export function validateExpression(expression: string): string | undefined {
+  try {
+    parseExpression(expression);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Unknown error occurred";
+  }
+}
+
+/**
+ * List the top-level variables an expression reads
+ * e.g. `contact.email == owner.email` -> ["contact", "owner"]
+ */
+export function getExpressionVariables(expression: string): string[] {
+  const tokens = tokenize(expression.trim());
+  const names: string[] = [];
+
+  tokens.forEach((token, index) => {
+    const isProperty = tokens[index - 1]?.type === TokenType.DOT;
+    const isCall = tokens[index + 1]?.type === TokenType.LPAREN;
+    if (token.type === TokenType.IDENTIFIER && !isProperty && !isCall && !names.includes(token.value)) {
+      names.push(token.value);
+    }
+  });
+
+  return names;
+}
@@ -0,0 +1,99 @@
+/**
+ * Workflow Graph Validation Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { validateWorkflowGraph, type WorkflowGraphStep } from "@shared/workflowGraph";
+
+const step = (
+  order: number,
+  overrides: Partial<WorkflowGraphStep> = {}
+): WorkflowGraphStep => ({
+  type: "navigate",
+  order,
+  config: {},
+  ...overrides,
+});
+
+describe("validateWorkflowGraph", () => {
+  it("should accept a linear workflow", () => {
+    expect(validateWorkflowGraph([step(0), step(1), step(2)])).toEqual([]);
+  });
+
+  it("should accept forward jumps that branch and rejoin", () => {
+    const steps = [
+      step(0, { type: "condition", config: { condition: "exists", thenGoto: "update", elseGoto: "create" } }),
+      step(1, { id: "update", type: "condition", config: { condition: "true", thenGoto: "done", elseGoto: "done" } }),
+      step(2, { id: "create" }),
+      step(3, { id: "done" }),
+    ];
+
+    expect(validateWorkflowGraph(steps)).toEqual([]);
+  });
+
+  it("should reject backward jumps as cycles", () => {
+    const steps = [
+      step(0, { id: "start" }),
+      step(1, { type: "condition", config: { condition: "x", elseGoto: "start" } }),
+    ];
+
+    expect(validateWorkflowGraph(steps)).toEqual([
+      'Cycle detected: Step #2 jumps back to Step "start"',
+    ]);
+  });
+
+  it("should reject a condition that jumps to itself", () => {
+    const steps = [step(0, { id: "loop", type: "condition", config: { condition: "x", thenGoto: "loop" } })];
+
+    expect(validateWorkflowGraph(steps)[0]).toContain("Cycle detected");
+  });
+
+  it("should report steps skipped by every path as unreachable", () => {
+    const steps = [
+      step(0, { type: "condition", config: { condition: "x", thenGoto: "end", elseGoto: "end" } }),
+      step(1, { id: "orphan" }),
+      step(2, { id: "end" }),
+    ];
+
+    expect(validateWorkflowGraph(steps)).toEqual(['Step "orphan" is unreachable']);
+  });
+
+  it("should reject unknown jump targets and duplicate ids", () => {
+    const steps = [
+      step(0, { id: "a", type: "condition", config: { condition: "x", thenGoto: "missing" } }),
+      step(1, { id: "a" }),
+    ];
+
+    const errors = validateWorkflowGraph(steps);
+    expect(errors).toContain('Duplicate step id "a"');
+    expect(errors.some((e) => e.includes('unknown step id "missing"'))).toBe(true);
+  });
+
+  it("should validate nested branch and loop step lists", () => {
+    const steps = [
+      step(0, {
+        type: "loop",
+        config: {
+          steps: [
+            step(0, { id: "inner" }),
+            step(1, { type: "condition", config: { condition: "x", thenGoto: "inner" } }),
+          ],
+        },
+      }),
+    ];
+
+    expect(validateWorkflowGraph(steps)).toEqual([
+      'Step #1 steps > Cycle detected: Step #2 jumps back to Step "inner"',
+    ]);
+  });
+
+  it("should order steps by their order field", () => {
+    const steps = [
+      step(2, { id: "end" }),
+      step(0, { type: "condition", config: { condition: "x", thenGoto: "end" } }),
+      step(1),
+    ];
+
+    expect(validateWorkflowGraph(steps)).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Streaming XLSX Writer Tests
+ * Workbooks are unzipped from the written bytes and their parts checked
+ */
+
+import { describe, it, expect } from "vitest";
+import { PassThrough, Writable } from "stream";
+import { inflateRawSync } from "zlib";
+import { columnLetter, crc32, writeChunk, writeXlsx } from "./xlsxStream";
+
+/**
+ * Read every file of a ZIP through its central directory
+ */
+function unzip(zip: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(offset)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(offset + 16);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const content = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(content)).toBe(crc);
+
+    files.set(name, content.toString("utf8"));
+    offset += 46 + nameLength;
+  }
+
+  return files;
+}
+
+async function render(rows: unknown[][], sheetName?: string): Promise<Map<string, string>> {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on("data", (chunk) => chunks.push(chunk));
+
+  await writeXlsx(out, rows as never, { sheetName });
+  out.end();
+
+  return unzip(Buffer.concat(chunks));
+}
+
+describe("xlsxStream", () => {
+  it("should compute standard CRC-32 incrementally", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    expect(crc32(Buffer.from("6789"), crc32(Buffer.from("12345")))).toBe(0xcbf43926);
+  });
+
+  it("should name columns like a spreadsheet", () => {
+    expect([0, 25, 26, 27, 701, 702].map(columnLetter)).toEqual(["A", "Z", "AA", "AB", "ZZ", "AAA"]);
+  });
+
+  it("should write a workbook with typed, escaped cells", async () => {
+    const files = await render(
+      [
+        ["Name", "Score", "Active", "Notes"],
+        ["Ada & Co <ltd>", 42.5, true, null],
+        ["Bell\u0007", -1, false, "line\nbreak"],
+      ],
+      "Leads: Q1/Q2"
+    );
+
+    expect([...files.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    expect(files.get("xl/workbook.xml")).toContain('<sheet name="Leads  Q1 Q2" sheetId="1" r:id="rId1"/>');
+
+    const sheet = files.get("xl/worksheets/sheet1.xml")!;
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Ada &amp; Co &lt;ltd&gt;</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>42.5</v></c><c r="C2" t="b"><v>1</v></c></row>');
+    expect(sheet).toContain('<t xml:space="preserve">Bell</t>');
+    expect(sheet).toContain('<t xml:space="preserve">line\nbreak</t>');
+    expect(sheet.match(/<row /g)).toHaveLength(3);
+  });
+
+  it("should stream rows from an async source", async () => {
+    async function* rows() {
+      for (let i = 1; i <= 5000; i++) {
+        yield [`lead-${i}`, i];
+      }
+    }
+
+    const out = new PassThrough();
+    const chunks: Buffer[] = [];
+    out.on("data", (chunk) => chunks.push(chunk));
+    await writeXlsx(out, rows());
+
+    const sheet = unzip(Buffer.concat(chunks)).get("xl/worksheets/sheet1.xml")!;
+    expect(sheet.match(/<row /g)).toHaveLength(5000);
+    expect(sheet).toContain('<row r="5000"><c r="A5000" t="inlineStr"><is><t xml:space="preserve">lead-5000</t></is></c><c r="B5000"><v>5000</v></c></row>');
+  });
+
+  it("should stop when the output closes mid-write", async () => {
+    const out = new Writable({ highWaterMark: 1, write: () => undefined });
+    const writing = writeChunk(out, "pending");
+    out.destroy();
+
+    await expect(writing).rejects.toThrow("Output stream closed");
+    await expect(writeChunk(out, "more")).rejects.toThrow("Output stream closed");
+  });
+});
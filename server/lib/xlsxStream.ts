@@ -0,0 +1,333 @@
+/**
+ * Streaming XLSX Writer
+ * Writes a single-sheet workbook row by row, so large exports never sit in memory.
+ *
+ * An XLSX file is a ZIP of XML parts. Parts are deflated as they are written and
+ * sized afterwards through ZIP data descriptors, which lets the worksheet stream
+ * straight to the output (e.g. an HTTP response) with backpressure.
+ */
+
+import { createDeflateRaw } from "zlib";
+import type { Writable } from "stream";
+
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxOptions {
+  sheetName?: string;
+}
+
+// Excel rejects longer cell text
+const MAX_CELL_LENGTH = 32767;
+// Worksheet XML is buffered up to this size before it is deflated
+const SHEET_CHUNK_SIZE = 64 * 1024;
+
+// ========================================
+// OUTPUT
+// ========================================
+
+/**
+ * Write a chunk, waiting for the stream to drain when its buffer is full.
+ * Rejects if the stream closes first (e.g. the client disconnected).
+ */
+export async function writeChunk(out: Writable, chunk: string | Buffer): Promise<void> {
+  if (out.destroyed || out.writableEnded) {
+    throw new Error("Output stream closed");
+  }
+
+  if (out.write(chunk)) {
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      out.off("drain", onDrain);
+      out.off("close", onClose);
+      out.off("error", onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("Output stream closed"));
+    };
+
+    out.on("drain", onDrain);
+    out.on("close", onClose);
+    out.on("error", onClose);
+  });
+}
+
+// ========================================
+// ZIP
+// ========================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Incremental CRC-32 as used by ZIP
+ */
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// General purpose flags: sizes follow in a data descriptor (bit 3), UTF-8 names (bit 11)
+const ZIP_FLAGS = 0x0808;
+const ZIP_DEFLATE = 8;
+const ZIP_VERSION = 20;
+
+/**
+ * Minimal streaming ZIP writer (deflate only, no ZIP64)
+ */
+export class ZipStreamWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private readonly stamp = dosDateTime(new Date());
+
+  constructor(private readonly out: Writable) {}
+
+  private async push(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await writeChunk(this.out, chunk);
+  }
+
+  /**
+   * Add a file whose content is produced through the write callback
+   */
+  async addStream(name: string, produce: (write: (chunk: string) => Promise<void>) => Promise<void>): Promise<void> {
+    const entry: ZipEntry = { name: Buffer.from(name, "utf8"), crc: 0, compressedSize: 0, size: 0, offset: this.offset };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(ZIP_DEFLATE, 8);
+    header.writeUInt16LE(this.stamp.time, 10);
+    header.writeUInt16LE(this.stamp.date, 12);
+    header.writeUInt16LE(entry.name.length, 26);
+    await this.push(Buffer.concat([header, entry.name]));
+
+    const deflate = createDeflateRaw();
+    const write = async (chunk: string) => {
+      const data = Buffer.from(chunk, "utf8");
+      entry.crc = crc32(data, entry.crc);
+      entry.size += data.length;
+      await writeChunk(deflate, data);
+    };
+
+    const consume = async () => {
+      try {
+        for await (const compressed of deflate) {
+          entry.compressedSize += compressed.length;
+          await this.push(compressed);
+        }
+      } catch (error) {
+        // Stop the producer too, e.g. when the output went away
+        deflate.destroy();
+        throw error;
+      }
+    };
+    const producing = produce(write).then(
+      () => void deflate.end(),
+      (error) => {
+        deflate.destroy();
+        throw error;
+      }
+    );
+
+    await Promise.all([producing, consume()]);
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.push(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  async addFile(name: string, content: string): Promise<void> {
+    await this.addStream(name, (write) => write(content));
+  }
+
+  /**
+   * Write the central directory. The output stream is left open.
+   */
+  async finish(): Promise<void> {
+    const start = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(ZIP_FLAGS, 8);
+      header.writeUInt16LE(ZIP_DEFLATE, 10);
+      header.writeUInt16LE(this.stamp.time, 12);
+      header.writeUInt16LE(this.stamp.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.push(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.push(end);
+  }
+}
+
+// ========================================
+// XLSX
+// ========================================
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const CONTENT_TYPES =
+  XML_HEADER +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  "</Types>";
+
+const PACKAGE_RELS =
+  XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+  "</Relationships>";
+
+const WORKBOOK_RELS =
+  XML_HEADER +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+  "</Relationships>";
+
+/**
+ * Escape text for XML, dropping characters XML 1.0 cannot carry
+ */
+function escapeXml(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Spreadsheet column letters for a zero-based index (0 -> A, 26 -> AA)
+ */
+export function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function sheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet1";
+}
+
+function cellXml(value: XlsxCellValue, ref: string): string {
+  if (value === null || value === undefined || value === "") {
+    return "";
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text.slice(0, MAX_CELL_LENGTH))}</t></is></c>`;
+}
+
+/**
+ * Stream rows into a single-sheet XLSX workbook. Strings are written inline,
+ * so no shared string table has to be held in memory.
+ */
+export async function writeXlsx(
+  out: Writable,
+  rows: AsyncIterable<XlsxCellValue[]> | Iterable<XlsxCellValue[]>,
+  options: XlsxOptions = {}
+): Promise<void> {
+  const zip = new ZipStreamWriter(out);
+
+  await zip.addFile("[Content_Types].xml", CONTENT_TYPES);
+  await zip.addFile("_rels/.rels", PACKAGE_RELS);
+  await zip.addFile(
+    "xl/workbook.xml",
+    XML_HEADER +
+      `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">` +
+      `<sheets><sheet name="${escapeXml(sheetName(options.sheetName ?? "Sheet1"))}" sheetId="1" r:id="rId1"/></sheets>` +
+      "</workbook>"
+  );
+  await zip.addFile("xl/_rels/workbook.xml.rels", WORKBOOK_RELS);
+
+  await zip.addStream("xl/worksheets/sheet1.xml", async (write) => {
+    let buffer = XML_HEADER + `<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>`;
+    let rowNumber = 0;
+
+    for await (const row of rows) {
+      rowNumber++;
+      buffer += `<row r="${rowNumber}">`;
+      row.forEach((value, index) => {
+        buffer += cellXml(value, `${columnLetter(index)}${rowNumber}`);
+      });
+      buffer += "</row>";
+
+      if (buffer.length >= SHEET_CHUNK_SIZE) {
+        await write(buffer);
+        buffer = "";
+      }
+    }
+
+    await write(buffer + "</sheetData></worksheet>");
+  });
+
+  await zip.finish();
+}
@@ -1,75 +1,21 @@
 /**
  * Shell Execution Tools for MCP
  * Provides sandboxed shell command execution
+ *
+ * Commands run in a per-execution container under the calling tenant's shell
+ * policy (allowed commands, network, resource limits); see shellSandbox.service.
  */
 
-import type { MCPTool } from '../types';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
-
-// Security: Allowed commands (whitelist)
-const ALLOWED_COMMANDS = [
-  'ls',
-  'pwd',
-  'echo',
-  'cat',
-  'grep',
-  'find',
-  'wc',
-  'sort',
-  'uniq',
-  'head',
-  'tail',
-  'git',
-  'npm',
-  'node',
-  'pnpm',
-  'yarn',
-];
-
-// Security: Blocked patterns
-const BLOCKED_PATTERNS = [
-  /rm\s+-rf/,
-  /sudo/,
-  /chmod/,
-  /chown/,
-  /kill/,
-  /pkill/,
-  />\s*\/dev\//,
-  /&\s*$/,
-  /;\s*$/,
-  /\|\|/,
-  /&&/,
-];
-
-/**
- * Validate command for security
- */
-function validateCommand(command: string): void {
-  // Check for blocked patterns
-  for (const pattern of BLOCKED_PATTERNS) {
-    if (pattern.test(command)) {
-      throw new Error(`Command contains blocked pattern: ${pattern.toString()}`);
-    }
-  }
-
-  // Extract base command
-  const baseCommand = command.trim().split(/\s+/)[0];
-
-  // Check if command is in whitelist
-  if (!ALLOWED_COMMANDS.includes(baseCommand)) {
-    throw new Error(`Command not allowed: ${baseCommand}. Allowed commands: ${ALLOWED_COMMANDS.join(', ')}`);
-  }
-}
+import type { MCPContext, MCPTool } from '../types';
+import { getShellSandbox } from '../../services/shellSandbox.service';
+import { getAgentPermissionsService } from '../../services/agentPermissions.service';
 
 /**
  * Execute shell command tool
  */
 export const executeCommandTool: MCPTool = {
   name: 'shell/execute',
-  description: 'Execute a sandboxed shell command',
+  description: 'Execute a shell command in an isolated sandbox',
   inputSchema: {
     type: 'object',
     properties: {
@@ -79,57 +25,60 @@ export const executeCommandTool: MCPTool = {
       },
       cwd: {
         type: 'string',
-        description: 'Working directory for the command',
+        description: 'Working directory inside the sandbox workspace (relative path)',
       },
       timeout: {
         type: 'number',
         default: 30000,
-        description: 'Timeout in milliseconds (default: 30s)',
+        description: 'Timeout in milliseconds (default: 30s, capped by the shell policy)',
       },
       env: {
         type: 'object',
-        description: 'Additional environment variables',
+        description: 'Environment variables for the command',
       },
     },
     required: ['command'],
   },
-  handler: async (input: any) => {
+  handler: async (input: any, context?: MCPContext) => {
     const { command, cwd, timeout = 30000, env = {} } = input;
 
-    // Validate command for security
-    validateCommand(command);
+    const userId = Number(context?.userId);
+    if (!userId) {
+      throw new Error('Shell execution requires an authenticated user');
+    }
 
-    try {
-      const startTime = Date.now();
+    // Throws when the tenant has no shell access
+    const policy = await getAgentPermissionsService().requireShellAccess(userId);
 
-      const result = await execAsync(command, {
-        cwd: cwd || process.cwd(),
-        timeout,
-        maxBuffer: 1024 * 1024 * 10, // 10MB
-        env: {
-          ...process.env,
-          ...env,
-        },
-      });
+    // Policy violations (disallowed commands, cwd outside the workspace) throw
+    const sandbox = await getShellSandbox().start(command, {
+      userId,
+      policy,
+      cwd,
+      env,
+      timeoutMs: timeout,
+    });
 
-      const executionTime = Date.now() - startTime;
+    try {
+      const result = await sandbox.result;
 
       return {
         command,
-        exitCode: 0,
+        exitCode: result.exitCode,
         stdout: result.stdout,
         stderr: result.stderr,
-        executionTime,
-        cwd: cwd || process.cwd(),
+        executionTime: result.durationMs,
+        cwd: cwd || '.',
+        ...(result.timedOut && { error: `Command timed out after ${Math.min(timeout, policy.timeoutMs)}ms` }),
       };
     } catch (error: any) {
       return {
         command,
-        exitCode: error.code || 1,
-        stdout: error.stdout || '',
-        stderr: error.stderr || error.message,
+        exitCode: 1,
+        stdout: '',
+        stderr: error.message,
         error: error.message,
-        cwd: cwd || process.cwd(),
+        cwd: cwd || '.',
       };
     }
   },
@@ -4,7 +4,7 @@
  */
 
 import Anthropic from "@anthropic-ai/sdk";
-import { BaseProvider, BaseProviderOptions } from './base.provider';
+import { BaseProvider, BaseProviderOptions, parseToolArguments } from './base.provider';
 import {
   LLMProvider,
   LLMModel,
@@ -112,15 +112,66 @@ export class AnthropicProvider extends BaseProvider {
     });
   }
 
+  /**
+   * Convert unified messages to Anthropic format.
+   * Assistant tool calls become tool_use blocks and consecutive tool messages
+   * are grouped into a single user turn of tool_result blocks.
+   */
+  private toAnthropicMessages(request: LLMRequest): Anthropic.MessageParam[] {
+    const messages: Anthropic.MessageParam[] = [];
+
+    for (const m of request.messages) {
+      if (m.role === 'system') continue;
+
+      if (m.role === 'tool') {
+        const block: Anthropic.ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: m.toolCallId || '',
+          content: m.content,
+        };
+        const previous = messages[messages.length - 1];
+        if (
+          previous?.role === 'user' &&
+          Array.isArray(previous.content) &&
+          previous.content.every((b) => b.type === 'tool_result')
+        ) {
+          previous.content.push(block);
+        } else {
+          messages.push({ role: 'user', content: [block] });
+        }
+        continue;
+      }
+
+      if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
+        const content: Anthropic.ContentBlockParam[] = [];
+        if (m.content) {
+          content.push({ type: 'text', text: m.content });
+        }
+        for (const call of m.toolCalls) {
+          content.push({
+            type: 'tool_use',
+            id: call.id,
+            name: call.function.name,
+            input: parseToolArguments(call.function.arguments),
+          });
+        }
+        messages.push({ role: 'assistant', content });
+        continue;
+      }
+
+      messages.push({
+        role: m.role === 'assistant' ? 'assistant' : 'user',
+        content: m.content,
+      });
+    }
+
+    return messages;
+  }
+
   protected async doComplete(request: LLMRequest): Promise<LLMResponse> {
     // Extract system message
     const systemMessage = request.messages.find((m) => m.role === 'system');
-    const messages = request.messages
-      .filter((m) => m.role !== 'system')
-      .map((m) => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content,
-      }));
+    const messages = this.toAnthropicMessages(request);
 
     // Build request params
     const params: Anthropic.MessageCreateParams = {
@@ -182,9 +233,9 @@ export class AnthropicProvider extends BaseProvider {
     }
 
     // Calculate cost
-    const pricing = this.capabilities.pricing![response.model];
-    const promptCost = (response.usage.input_tokens / 1000) * pricing.promptCostPer1k;
-    const completionCost = (response.usage.output_tokens / 1000) * pricing.completionCostPer1k;
+    const pricing = this.capabilities.pricing![response.model] ?? this.capabilities.pricing![params.model];
+    const promptCost = (response.usage.input_tokens / 1000) * (pricing?.promptCostPer1k ?? 0);
+    const completionCost = (response.usage.output_tokens / 1000) * (pricing?.completionCostPer1k ?? 0);
 
     return {
       id: response.id,
@@ -212,12 +263,7 @@ export class AnthropicProvider extends BaseProvider {
   protected async *doStreamComplete(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
     // Extract system message
     const systemMessage = request.messages.find((m) => m.role === 'system');
-    const messages = request.messages
-      .filter((m) => m.role !== 'system')
-      .map((m) => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content,
-      }));
+    const messages = this.toAnthropicMessages(request);
 
     // Build request params
     const params: Anthropic.MessageCreateParams = {
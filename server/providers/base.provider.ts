@@ -21,6 +21,25 @@ import {
   ProviderUnavailableError,
 } from './types';
 
+/**
+ * Parse serialized tool-call arguments into an object
+ * Malformed or non-object arguments are wrapped as { raw } instead of throwing
+ */
+export function parseToolArguments(args: string | undefined): Record<string, unknown> {
+  if (!args) return {};
+
+  try {
+    const parsed = JSON.parse(args);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Fall through and keep the raw string
+  }
+
+  return { raw: args };
+}
+
 export interface BaseProviderOptions {
   config: LLMProviderConfig;
   cacheTTL?: number;
@@ -378,6 +397,17 @@ export abstract class BaseProvider implements ILLMProvider {
       return error;
     }
 
+    // SDK errors carry the HTTP status of the failed call
+    const status = (error as { status?: unknown })?.status;
+    if (error instanceof Error && typeof status === 'number') {
+      if (status === 429) {
+        return new RateLimitError(error.message, this.name);
+      }
+      if (status >= 500) {
+        return new ProviderUnavailableError(this.name, { originalError: error.message, status });
+      }
+    }
+
     if (error instanceof Error) {
       // Check for common error patterns
       if (error.message.includes('rate limit')) {
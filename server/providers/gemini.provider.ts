@@ -3,7 +3,7 @@
  * Supports Gemini 2.0 Flash, Gemini 1.5 Pro, and Gemini 1.5 Flash
  */
 
-import { BaseProvider, BaseProviderOptions } from './base.provider';
+import { BaseProvider, BaseProviderOptions, parseToolArguments } from './base.provider';
 import {
   LLMProvider,
   LLMModel,
@@ -81,18 +81,66 @@ export class GeminiProvider extends BaseProvider {
     this.baseUrl = this.config.apiUrl || 'https://generativelanguage.googleapis.com/v1beta';
   }
 
+  /**
+   * Convert unified messages to Gemini contents.
+   * System messages become the system instruction, assistant tool calls become
+   * functionCall parts and tool results become functionResponse parts.
+   */
+  private toGeminiContents(request: LLMRequest): {
+    systemInstruction?: { parts: Array<{ text: string }> };
+    contents: Array<{ role: 'user' | 'model'; parts: any[] }>;
+  } {
+    const systemText = request.messages
+      .filter((msg) => msg.role === 'system')
+      .map((msg) => msg.content)
+      .join('\n\n');
+
+    const contents = request.messages
+      .filter((msg) => msg.role !== 'system')
+      .map((msg) => {
+        if (msg.role === 'tool') {
+          return {
+            role: 'user' as const,
+            parts: [{
+              functionResponse: {
+                name: msg.name,
+                response: { content: msg.content },
+              },
+            }],
+          };
+        }
+
+        if (msg.role === 'assistant') {
+          const parts: any[] = msg.content ? [{ text: msg.content }] : [];
+          for (const call of msg.toolCalls || []) {
+            parts.push({
+              functionCall: {
+                name: call.function.name,
+                args: parseToolArguments(call.function.arguments),
+              },
+            });
+          }
+          return { role: 'model' as const, parts };
+        }
+
+        return { role: 'user' as const, parts: [{ text: msg.content }] };
+      });
+
+    return {
+      systemInstruction: systemText ? { parts: [{ text: systemText }] } : undefined,
+      contents,
+    };
+  }
+
   protected async doComplete(request: LLMRequest): Promise<LLMResponse> {
     const model = request.model || this.config.model;
     const url = `${this.baseUrl}/models/${model}:generateContent?key=${this.apiKey}`;
 
-    // Convert messages to Gemini format
-    const contents = request.messages.map((msg) => ({
-      role: msg.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: msg.content }],
-    }));
+    const { systemInstruction, contents } = this.toGeminiContents(request);
 
     const requestBody: any = {
       contents,
+      ...(systemInstruction && { systemInstruction }),
       generationConfig: {
         temperature: request.temperature ?? this.config.temperature,
         maxOutputTokens: request.maxTokens ?? this.config.maxTokens,
@@ -133,13 +181,13 @@ export class GeminiProvider extends BaseProvider {
 
       const data = await response.json();
       const candidate = data.candidates[0];
-      const content = candidate.content.parts.map((p: any) => p.text).join('');
+      const content = candidate.content.parts.map((p: any) => p.text ?? '').join('');
 
       // Extract tool calls if present
       const toolCalls = candidate.content.parts
         .filter((p: any) => p.functionCall)
         .map((p: any, index: number) => ({
-          id: `call_${index}`,
+          id: `call_${Date.now()}_${index}`,
           type: 'function' as const,
           function: {
             name: p.functionCall.name,
@@ -173,7 +221,8 @@ export class GeminiProvider extends BaseProvider {
           totalCost: promptCost + completionCost,
           currency: 'USD',
         },
-        finishReason: candidate.finishReason === 'STOP' ? 'stop' : 'length',
+        finishReason: toolCalls.length > 0 ? 'tool_calls' :
+                      candidate.finishReason === 'STOP' ? 'stop' : 'length',
       };
     } catch (error) {
       clearTimeout(timeout);
@@ -20,4 +20,10 @@ export { ProviderFactory } from './provider.factory';
 export { ProviderManager, ProviderManagerConfig } from './provider.manager';
 
 // Export utilities
-export { getDefaultProviderConfig, createProviderManager } from './utils';
+export {
+  getDefaultProviderConfig,
+  createProviderManager,
+  getProviderManager,
+  fromAnthropicMessages,
+  toAnthropicContent,
+} from './utils';
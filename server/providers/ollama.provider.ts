@@ -3,7 +3,7 @@
  * Supports local LLM models including Llama 3.2, Qwen 2.5, DeepSeek-V2, Mixtral
  */
 
-import { BaseProvider, BaseProviderOptions } from './base.provider';
+import { BaseProvider, BaseProviderOptions, parseToolArguments } from './base.provider';
 import {
   LLMProvider,
   LLMModel,
@@ -48,7 +48,7 @@ export class OllamaProvider extends BaseProvider {
     supportsSystemMessages: true,
     supportsVision: false,
     supportsAudio: false,
-    supportsTools: false,
+    supportsTools: true,
     supportsFineTuning: true,
     supportsEmbeddings: true,
     supportsLogprobs: false,
@@ -91,18 +91,44 @@ export class OllamaProvider extends BaseProvider {
     }
   }
 
+  /**
+   * Convert unified messages to Ollama chat format
+   */
+  private toOllamaMessages(request: LLMRequest): Array<Record<string, unknown>> {
+    return request.messages.map((msg) => {
+      if (msg.role === 'tool') {
+        return { role: 'tool', content: msg.content };
+      }
+
+      if (msg.role === 'assistant') {
+        return {
+          role: 'assistant',
+          content: msg.content,
+          ...(msg.toolCalls && msg.toolCalls.length > 0 && {
+            tool_calls: msg.toolCalls.map((call) => ({
+              function: {
+                name: call.function.name,
+                arguments: parseToolArguments(call.function.arguments),
+              },
+            })),
+          }),
+        };
+      }
+
+      return {
+        role: msg.role === 'system' ? 'system' : 'user',
+        content: msg.content,
+      };
+    });
+  }
+
   protected async doComplete(request: LLMRequest): Promise<LLMResponse> {
     const model = request.model || this.config.model;
 
-    // Convert messages to Ollama format
-    const messages = request.messages.map((msg) => ({
-      role: msg.role === 'system' ? 'system' : msg.role === 'assistant' ? 'assistant' : 'user',
-      content: msg.content,
-    }));
-
     const requestBody = {
       model,
-      messages,
+      messages: this.toOllamaMessages(request),
+      ...(request.tools && request.tools.length > 0 && { tools: request.tools }),
       options: {
         temperature: request.temperature ?? this.config.temperature,
         num_predict: request.maxTokens ?? this.config.maxTokens,
@@ -138,11 +164,22 @@ export class OllamaProvider extends BaseProvider {
       const completionTokens = this.estimateTokens(data.message.content);
       const totalTokens = promptTokens + completionTokens;
 
+      // Ollama returns tool arguments as objects and without call ids
+      const toolCalls = (data.message.tool_calls || []).map((call: any, index: number) => ({
+        id: `call_${Date.now()}_${index}`,
+        type: 'function' as const,
+        function: {
+          name: call.function.name,
+          arguments: JSON.stringify(call.function.arguments ?? {}),
+        },
+      }));
+
       return {
         id: `ollama-${Date.now()}`,
         model: model as LLMModel,
         provider: 'ollama',
         content: data.message.content,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         usage: {
           promptTokens,
           completionTokens,
@@ -154,7 +191,7 @@ export class OllamaProvider extends BaseProvider {
           totalCost: 0,
           currency: 'USD',
         },
-        finishReason: data.done ? 'stop' : 'length',
+        finishReason: toolCalls.length > 0 ? 'tool_calls' : data.done ? 'stop' : 'length',
       };
     } catch (error) {
       clearTimeout(timeout);
@@ -165,14 +202,9 @@ export class OllamaProvider extends BaseProvider {
   protected async *doStreamComplete(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
     const model = request.model || this.config.model;
 
-    const messages = request.messages.map((msg) => ({
-      role: msg.role === 'system' ? 'system' : msg.role === 'assistant' ? 'assistant' : 'user',
-      content: msg.content,
-    }));
-
     const requestBody = {
       model,
-      messages,
+      messages: this.toOllamaMessages(request),
       options: {
         temperature: request.temperature ?? this.config.temperature,
         num_predict: request.maxTokens ?? this.config.maxTokens,
@@ -16,6 +16,7 @@ import {
   AuthenticationError,
   RateLimitError,
   ModelNotFoundError,
+  ProviderUnavailableError,
 } from './types';
 
 interface OpenAIMessage {
@@ -191,15 +192,33 @@ export class OpenAIProvider extends BaseProvider {
     }
   }
 
-  protected async doComplete(request: LLMRequest): Promise<LLMResponse> {
-    const requestBody: any = {
-      model: request.model || this.config.model,
-      messages: request.messages.map((msg) => ({
+  /**
+   * Convert unified messages to the chat completions format
+   */
+  private toOpenAIMessages(request: LLMRequest): Array<Record<string, unknown>> {
+    return request.messages.map((msg) => {
+      if (msg.role === 'tool') {
+        return {
+          role: 'tool',
+          tool_call_id: msg.toolCallId,
+          content: msg.content,
+        };
+      }
+
+      return {
         role: msg.role,
-        content: msg.content,
+        content: msg.toolCalls && !msg.content ? null : msg.content,
         ...(msg.name && { name: msg.name }),
         ...(msg.functionCall && { function_call: msg.functionCall }),
-      })),
+        ...(msg.toolCalls && msg.toolCalls.length > 0 && { tool_calls: msg.toolCalls }),
+      };
+    });
+  }
+
+  protected async doComplete(request: LLMRequest): Promise<LLMResponse> {
+    const requestBody: any = {
+      model: request.model || this.config.model,
+      messages: this.toOpenAIMessages(request),
       temperature: request.temperature ?? this.config.temperature,
       max_tokens: request.maxTokens ?? this.config.maxTokens,
       top_p: request.topP ?? this.config.topP,
@@ -240,8 +259,8 @@ export class OpenAIProvider extends BaseProvider {
       // Calculate cost
       const model = request.model || this.config.model;
       const pricing = this.capabilities.pricing![model];
-      const promptCost = (data.usage.prompt_tokens / 1000) * pricing.promptCostPer1k;
-      const completionCost = (data.usage.completion_tokens / 1000) * pricing.completionCostPer1k;
+      const promptCost = (data.usage.prompt_tokens / 1000) * (pricing?.promptCostPer1k ?? 0);
+      const completionCost = (data.usage.completion_tokens / 1000) * (pricing?.completionCostPer1k ?? 0);
 
       return {
         id: data.id,
@@ -272,12 +291,7 @@ export class OpenAIProvider extends BaseProvider {
   protected async *doStreamComplete(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
     const requestBody: any = {
       model: request.model || this.config.model,
-      messages: request.messages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-        ...(msg.name && { name: msg.name }),
-        ...(msg.functionCall && { function_call: msg.functionCall }),
-      })),
+      messages: this.toOpenAIMessages(request),
       temperature: request.temperature ?? this.config.temperature,
       max_tokens: request.maxTokens ?? this.config.maxTokens,
       top_p: request.topP ?? this.config.topP,
@@ -475,6 +489,9 @@ export class OpenAIProvider extends BaseProvider {
       case 404:
         throw new ModelNotFoundError(this.config.model, 'openai', errorData);
       default:
+        if (response.status >= 500) {
+          throw new ProviderUnavailableError('openai', errorData);
+        }
         throw new Error(`OpenAI API error (${response.status}): ${message}`);
     }
   }
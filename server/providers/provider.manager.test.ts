@@ -0,0 +1,211 @@
+/**
+ * Provider Manager Tests
+ *
+ * Covers tool-aware provider selection, fallback when a provider is down,
+ * and conversion between Anthropic-format conversations and unified messages
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { ILLMProvider, LLMProvider, LLMRequest, LLMResponse } from "./types";
+import { ProviderUnavailableError } from "./types";
+
+const { mockCreateProviders } = vi.hoisted(() => ({
+  mockCreateProviders: vi.fn(),
+}));
+
+vi.mock("./provider.factory", () => ({
+  ProviderFactory: { createProviders: mockCreateProviders },
+}));
+
+import { ProviderManager, type ProviderManagerConfig } from "./provider.manager";
+import { fromAnthropicMessages, toAnthropicContent } from "./utils";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const createProvider = (
+  name: LLMProvider,
+  options: { supportsTools?: boolean; models?: string[] } = {}
+): ILLMProvider => ({
+  name,
+  capabilities: { supportsTools: options.supportsTools ?? true } as ILLMProvider["capabilities"],
+  config: { provider: name, model: (options.models?.[0] ?? `${name}-model`) as any },
+  initialize: vi.fn(),
+  complete: vi.fn(async (request: LLMRequest): Promise<LLMResponse> => ({
+    id: `${name}-resp`,
+    model: (request.model ?? `${name}-model`) as any,
+    provider: name,
+    content: `answer from ${name}`,
+    usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+  })),
+  streamComplete: vi.fn(),
+  listModels: vi.fn(),
+  getModelInfo: vi.fn(),
+  validateModel: vi.fn((model: string) => (options.models ?? []).includes(model)),
+  healthCheck: vi.fn(),
+  getStatus: vi.fn(() => ({ available: true, currentLoad: 0, queueLength: 0, activeRequests: 0 })),
+  estimateCost: vi.fn(),
+  destroy: vi.fn(),
+});
+
+const createManager = async (
+  providers: ILLMProvider[],
+  overrides: Partial<ProviderManagerConfig> = {}
+): Promise<ProviderManager> => {
+  mockCreateProviders.mockResolvedValue(new Map(providers.map((p) => [p.name, p])));
+  const manager = new ProviderManager({
+    providers: {} as ProviderManagerConfig["providers"],
+    defaultProvider: "anthropic",
+    fallbackStrategy: {
+      name: "test",
+      enabled: true,
+      maxAttempts: 2,
+      rules: [
+        { condition: "unavailable", fallbackProviders: ["openai"], retryOriginal: false },
+      ],
+    },
+    caching: { enabled: true, ttl: 60 },
+    ...overrides,
+  });
+  await manager.initialize();
+  return manager;
+};
+
+const toolRequest: LLMRequest = {
+  messages: [{ role: "user", content: "Find the contact" }],
+  tools: [
+    {
+      type: "function",
+      function: { name: "lookup", description: "Look up", parameters: { type: "object", properties: {} } },
+    },
+  ],
+};
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("ProviderManager", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("should fall back to another provider when the selected one is unavailable", async () => {
+    const anthropic = createProvider("anthropic", { models: ["claude-opus-4-5-20251101"] });
+    const openai = createProvider("openai", { models: ["gpt-4o"] });
+    vi.mocked(anthropic.complete).mockRejectedValue(new ProviderUnavailableError("anthropic"));
+    const manager = await createManager([anthropic, openai]);
+
+    const response = await manager.complete({ ...toolRequest, model: "claude-opus-4-5-20251101" });
+
+    expect(response.provider).toBe("openai");
+    // The Claude model is dropped so OpenAI uses its configured model
+    expect(vi.mocked(openai.complete).mock.calls[0][0].model).toBeUndefined();
+  });
+
+  it("should skip providers that cannot call tools", async () => {
+    const ollama = createProvider("ollama", { supportsTools: false });
+    const openai = createProvider("openai");
+    const manager = await createManager([ollama, openai], { defaultProvider: "ollama" });
+
+    const response = await manager.complete(toolRequest);
+
+    expect(response.provider).toBe("openai");
+    expect(ollama.complete).not.toHaveBeenCalled();
+  });
+
+  it("should honour the preferred provider", async () => {
+    const anthropic = createProvider("anthropic");
+    const google = createProvider("google");
+    const manager = await createManager([anthropic, google]);
+
+    const response = await manager.complete({
+      ...toolRequest,
+      providerOptions: { preferredProvider: "google" },
+    });
+
+    expect(response.provider).toBe("google");
+  });
+
+  it("should not serve tool-calling requests from cache", async () => {
+    const anthropic = createProvider("anthropic");
+    const manager = await createManager([anthropic]);
+
+    await manager.complete(toolRequest);
+    await manager.complete(toolRequest);
+
+    expect(anthropic.complete).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("Anthropic message conversion", () => {
+  it("should map tool_use and tool_result blocks to tool calls and tool messages", () => {
+    const messages = fromAnthropicMessages("You are an agent", [
+      { role: "user", content: "Update the contact" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Looking it up" },
+          { type: "tool_use", id: "tu-1", name: "lookup", input: { name: "Acme" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "tu-1", content: "Found Acme" }],
+      },
+    ]);
+
+    expect(messages).toEqual([
+      { role: "system", content: "You are an agent" },
+      { role: "user", content: "Update the contact" },
+      {
+        role: "assistant",
+        content: "Looking it up",
+        toolCalls: [
+          { id: "tu-1", type: "function", function: { name: "lookup", arguments: '{"name":"Acme"}' } },
+        ],
+      },
+      { role: "tool", toolCallId: "tu-1", name: "lookup", content: "Found Acme" },
+    ]);
+  });
+
+  it("should convert a provider response back to content blocks", () => {
+    const content = toAnthropicContent({
+      id: "resp-1",
+      model: "gpt-4o",
+      provider: "openai",
+      content: "Calling lookup",
+      toolCalls: [
+        { id: "call_1", type: "function", function: { name: "lookup", arguments: '{"name":"Acme"}' } },
+      ],
+      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    });
+
+    expect(content).toEqual([
+      { type: "text", text: "Calling lookup" },
+      { type: "tool_use", id: "call_1", name: "lookup", input: { name: "Acme" } },
+    ]);
+  });
+
+  it("should keep malformed tool-call arguments as a raw string instead of throwing", () => {
+    const content = toAnthropicContent({
+      id: "resp-2",
+      model: "llama3.1",
+      provider: "ollama",
+      content: "",
+      toolCalls: [
+        { id: "call_1", type: "function", function: { name: "lookup", arguments: '{"name":"Ac' } },
+        { id: "call_2", type: "function", function: { name: "list", arguments: "" } },
+      ],
+      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    });
+
+    expect(content).toEqual([
+      { type: "tool_use", id: "call_1", name: "lookup", input: { raw: '{"name":"Ac' } },
+      { type: "tool_use", id: "call_2", name: "list", input: {} },
+    ]);
+  });
+});
@@ -68,8 +68,11 @@ export class ProviderManager {
    * Complete a request using the appropriate provider
    */
   async complete(request: LLMRequest): Promise<LLMResponse> {
+    // Tool-calling turns drive side effects, so they are never served from cache
+    const cacheable = this.config.caching?.enabled && !request.tools?.length;
+
     // Check cache first
-    if (this.config.caching?.enabled) {
+    if (cacheable) {
       const cached = this.checkCache(request);
       if (cached) {
         console.log('[ProviderManager] Returning cached response');
@@ -81,12 +84,13 @@ export class ProviderManager {
     const provider = await this.selectProvider(request);
 
     try {
-      console.log(`[ProviderManager] Using ${provider.name} provider with model ${request.model || provider.config.model}`);
+      const providerRequest = this.adaptRequest(request, provider);
+      console.log(`[ProviderManager] Using ${provider.name} provider with model ${providerRequest.model || provider.config.model}`);
 
-      const response = await provider.complete(request);
+      const response = await provider.complete(providerRequest);
 
       // Cache successful response
-      if (this.config.caching?.enabled) {
+      if (cacheable) {
         this.cacheResponse(request, response);
       }
 
@@ -112,7 +116,7 @@ export class ProviderManager {
     try {
       console.log(`[ProviderManager] Streaming with ${provider.name} provider`);
 
-      yield* provider.streamComplete(request);
+      yield* provider.streamComplete(this.adaptRequest(request, provider));
 
       // Update request count
       const count = this.requestCount.get(provider.name) || 0;
@@ -122,10 +126,10 @@ export class ProviderManager {
       console.error(`[ProviderManager] Stream failed with ${provider.name}:`, error);
 
       // Try fallback
-      const fallbackProvider = await this.getFallbackProvider(error, provider);
+      const fallbackProvider = await this.getFallbackProvider(error, provider, request);
       if (fallbackProvider) {
         console.log(`[ProviderManager] Falling back to ${fallbackProvider.name}`);
-        yield* fallbackProvider.streamComplete(request);
+        yield* fallbackProvider.streamComplete(this.adaptRequest(request, fallbackProvider));
       } else {
         throw error;
       }
@@ -139,7 +143,7 @@ export class ProviderManager {
     // If specific provider requested
     if (request.providerOptions?.preferredProvider) {
       const provider = this.providers.get(request.providerOptions.preferredProvider);
-      if (provider && this.isProviderAvailable(provider)) {
+      if (provider && this.canServe(provider, request)) {
         return provider;
       }
     }
@@ -154,18 +158,18 @@ export class ProviderManager {
 
     // Load balancing
     if (this.config.loadBalancing?.enabled) {
-      return this.selectLoadBalancedProvider();
+      return this.selectLoadBalancedProvider(request);
     }
 
     // Default provider
     const defaultProvider = this.providers.get(this.config.defaultProvider);
-    if (defaultProvider && this.isProviderAvailable(defaultProvider)) {
+    if (defaultProvider && this.canServe(defaultProvider, request)) {
       return defaultProvider;
     }
 
     // First available provider
     for (const provider of Array.from(this.providers.values())) {
-      if (this.isProviderAvailable(provider)) {
+      if (this.canServe(provider, request)) {
         return provider;
       }
     }
@@ -181,7 +185,7 @@ export class ProviderManager {
     let bestCost = Infinity;
 
     for (const provider of Array.from(this.providers.values())) {
-      if (!this.isProviderAvailable(provider)) continue;
+      if (!this.canServe(provider, request)) continue;
 
       try {
         const estimate = await provider.estimateCost(request);
@@ -204,9 +208,9 @@ export class ProviderManager {
   /**
    * Select provider using load balancing
    */
-  private selectLoadBalancedProvider(): ILLMProvider {
+  private selectLoadBalancedProvider(request: LLMRequest): ILLMProvider {
     const availableProviders = Array.from(this.providers.values()).filter((p) =>
-      this.isProviderAvailable(p)
+      this.canServe(p, request)
     );
 
     if (availableProviders.length === 0) {
@@ -260,6 +264,26 @@ export class ProviderManager {
     return status.available;
   }
 
+  /**
+   * Check if provider is available and supports the features a request needs
+   */
+  private canServe(provider: ILLMProvider, request: LLMRequest): boolean {
+    if (request.tools?.length && !provider.capabilities.supportsTools) {
+      return false;
+    }
+    return this.isProviderAvailable(provider);
+  }
+
+  /**
+   * Drop a requested model the provider does not serve so it falls back to its configured model
+   */
+  private adaptRequest(request: LLMRequest, provider: ILLMProvider): LLMRequest {
+    if (!request.model || provider.validateModel(request.model)) {
+      return request;
+    }
+    return { ...request, model: undefined };
+  }
+
   /**
    * Handle request error with fallback
    */
@@ -269,11 +293,11 @@ export class ProviderManager {
     failedProvider: ILLMProvider
   ): Promise<LLMResponse> {
     // Try fallback
-    const fallbackProvider = await this.getFallbackProvider(error, failedProvider);
+    const fallbackProvider = await this.getFallbackProvider(error, failedProvider, request);
 
     if (fallbackProvider) {
       console.log(`[ProviderManager] Falling back to ${fallbackProvider.name} provider`);
-      return fallbackProvider.complete(request);
+      return fallbackProvider.complete(this.adaptRequest(request, fallbackProvider));
     }
 
     throw error;
@@ -284,7 +308,8 @@ export class ProviderManager {
    */
   private async getFallbackProvider(
     error: unknown,
-    failedProvider: ILLMProvider
+    failedProvider: ILLMProvider,
+    request: LLMRequest
   ): Promise<ILLMProvider | null> {
     if (!this.config.fallbackStrategy?.enabled) {
       return null;
@@ -302,7 +327,7 @@ export class ProviderManager {
     // Find first available fallback provider
     for (const providerName of fallbackRule.fallbackProviders) {
       const provider = this.providers.get(providerName);
-      if (provider && provider !== failedProvider && this.isProviderAvailable(provider)) {
+      if (provider && provider !== failedProvider && this.canServe(provider, request)) {
         return provider;
       }
     }
@@ -83,13 +83,26 @@ export interface LLMProviderConfig {
 }
 
 export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant' | 'function';
+  role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
   content: string;
   name?: string;
   functionCall?: {
     name: string;
     arguments: string;
   };
+
+  // Tool calling: calls made by an assistant message, and the call a tool message answers
+  toolCalls?: LLMToolCall[];
+  toolCallId?: string;
+}
+
+export interface LLMToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
 }
 
 export interface LLMRequest {
@@ -148,14 +161,7 @@ export interface LLMResponse {
     name: string;
     arguments: string;
   };
-  toolCalls?: Array<{
-    id: string;
-    type: 'function';
-    function: {
-      name: string;
-      arguments: string;
-    };
-  }>;
+  toolCalls?: LLMToolCall[];
 
   // Metadata
   usage: {
@@ -2,8 +2,17 @@
  * Utility functions for multi-LLM provider system
  */
 
-import { LLMProvider, LLMProviderConfig, FallbackStrategy, LLMModel } from './types';
+import type Anthropic from '@anthropic-ai/sdk';
+import {
+  LLMProvider,
+  LLMProviderConfig,
+  FallbackStrategy,
+  LLMModel,
+  LLMMessage,
+  LLMResponse,
+} from './types';
 import { ProviderManager, ProviderManagerConfig } from './provider.manager';
+import { parseToolArguments } from './base.provider';
 
 /**
  * Get default provider configuration
@@ -176,6 +185,109 @@ export async function createProviderManager(
   return manager;
 }
 
+let sharedManagerPromise: Promise<ProviderManager> | null = null;
+
+/**
+ * Get the shared provider manager, creating it with the default configuration on first use
+ */
+export function getProviderManager(): Promise<ProviderManager> {
+  if (!sharedManagerPromise) {
+    sharedManagerPromise = createProviderManager().catch((error) => {
+      // Allow a later call to retry once providers are configured
+      sharedManagerPromise = null;
+      throw error;
+    });
+  }
+  return sharedManagerPromise;
+}
+
+/**
+ * Convert an Anthropic-format conversation into unified provider messages.
+ * tool_use blocks become assistant tool calls and tool_result blocks become tool messages.
+ */
+export function fromAnthropicMessages(
+  system: string,
+  history: Anthropic.MessageParam[]
+): LLMMessage[] {
+  const messages: LLMMessage[] = [{ role: 'system', content: system }];
+  const toolNames = new Map<string, string>();
+
+  for (const message of history) {
+    if (typeof message.content === 'string') {
+      messages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const text = message.content
+      .filter((block): block is Anthropic.TextBlockParam => block.type === 'text')
+      .map((block) => block.text)
+      .join('\n');
+
+    if (message.role === 'assistant') {
+      const toolCalls = message.content
+        .filter((block): block is Anthropic.ToolUseBlockParam => block.type === 'tool_use')
+        .map((block) => {
+          toolNames.set(block.id, block.name);
+          return {
+            id: block.id,
+            type: 'function' as const,
+            function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+          };
+        });
+
+      messages.push({
+        role: 'assistant',
+        content: text,
+        ...(toolCalls.length > 0 && { toolCalls }),
+      });
+      continue;
+    }
+
+    for (const block of message.content) {
+      if (block.type !== 'tool_result') continue;
+      const content = typeof block.content === 'string'
+        ? block.content
+        : (block.content || [])
+            .map((part) => (part.type === 'text' ? part.text : ''))
+            .join('\n');
+      messages.push({
+        role: 'tool',
+        toolCallId: block.tool_use_id,
+        name: toolNames.get(block.tool_use_id),
+        content,
+      });
+    }
+
+    if (text) {
+      messages.push({ role: 'user', content: text });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Convert a provider response into Anthropic content blocks for the conversation history
+ */
+export function toAnthropicContent(response: LLMResponse): Anthropic.ContentBlockParam[] {
+  const content: Anthropic.ContentBlockParam[] = [];
+
+  if (response.content) {
+    content.push({ type: 'text', text: response.content });
+  }
+
+  for (const call of response.toolCalls || []) {
+    content.push({
+      type: 'tool_use',
+      id: call.id,
+      name: call.function.name,
+      input: parseToolArguments(call.function.arguments),
+    });
+  }
+
+  return content;
+}
+
 /**
  * Get model recommendations based on use case
  */
@@ -0,0 +1,241 @@
+/**
+ * Unit Tests for Structure-Aware Chunking
+ *
+ * Tests markdown sections, breadcrumbs, table and code block handling,
+ * HTML conversion, PDF page boundaries and token counting
+ */
+
+import { describe, it, expect } from "vitest";
+import { chunkStructuredDocument, countTokens, htmlToMarkdown } from "./chunking";
+
+const paragraph = (words: number, word = "lorem") =>
+  Array.from({ length: words }, (_, i) => `${word}${i}`).join(" ") + ".";
+
+describe("Structure-Aware Chunking", () => {
+  // ========================================
+  // TOKEN COUNTING TESTS
+  // ========================================
+
+  describe("countTokens", () => {
+    it("should count cl100k tokens", () => {
+      expect(countTokens("hello world")).toBe(2);
+      expect(countTokens("")).toBe(0);
+    });
+
+    it("should treat special-token markers as text", () => {
+      expect(countTokens("<|endoftext|>")).toBeGreaterThan(1);
+    });
+  });
+
+  // ========================================
+  // MARKDOWN TESTS
+  // ========================================
+
+  describe("markdown", () => {
+    it("should start a new chunk at each heading with a breadcrumb", () => {
+      const markdown = [
+        "# Contacts",
+        "Contacts hold lead information.",
+        "## Custom Fields",
+        "Custom fields store extra data.",
+        "### Lead Source",
+        "Use the lead_source field.",
+        "## Tags",
+        "Tags group contacts.",
+      ].join("\n\n");
+
+      const chunks = chunkStructuredDocument(markdown, "markdown");
+
+      expect(chunks.map((c) => c.breadcrumb.join(" > "))).toEqual([
+        "Contacts",
+        "Contacts > Custom Fields",
+        "Contacts > Custom Fields > Lead Source",
+        "Contacts > Tags",
+      ]);
+      expect(chunks[2].content).toBe("Contacts > Custom Fields > Lead Source\n\nUse the lead_source field.");
+    });
+
+    it("should keep a table whole when it fits", () => {
+      const markdown = [
+        "## Pipeline Stages",
+        "Stages in order:",
+        "| Stage | Owner |",
+        "| --- | --- |",
+        "| New Lead | SDR |",
+        "| Qualified | AE |",
+      ].join("\n");
+
+      const [chunk] = chunkStructuredDocument(markdown, "markdown");
+
+      expect(chunk.content).toContain("| New Lead | SDR |\n| Qualified | AE |");
+      expect(chunk.blockTypes).toEqual(["paragraph", "table"]);
+    });
+
+    it("should split oversized tables by rows and repeat the header", () => {
+      const rows = Array.from({ length: 60 }, (_, i) => `| field_${i} | Text field number ${i} |`);
+      const markdown = ["| Field | Description |", "| --- | --- |", ...rows].join("\n");
+
+      const chunks = chunkStructuredDocument(markdown, "markdown", { maxTokens: 120 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.content.startsWith("| Field | Description |\n| --- | --- |")).toBe(true);
+        expect(chunk.tokenCount).toBeLessThanOrEqual(120);
+      }
+      const allRows = chunks.flatMap((c) => c.content.split("\n").slice(2));
+      expect(allRows).toEqual(rows);
+    });
+
+    it("should not split inside a fenced code block that fits", () => {
+      const markdown = [
+        "## Webhook",
+        "```json",
+        "{",
+        '  "event": "contact.created",',
+        "",
+        '  "id": "abc"',
+        "}",
+        "```",
+      ].join("\n");
+
+      const [chunk] = chunkStructuredDocument(markdown, "markdown");
+
+      expect(chunk.blockTypes).toEqual(["code"]);
+      expect(chunk.content).toContain('```json\n{\n  "event": "contact.created",\n\n  "id": "abc"\n}\n```');
+    });
+
+    it("should reopen fences when a code block is split", () => {
+      const lines = Array.from({ length: 80 }, (_, i) => `const value${i} = compute(${i});`);
+      const markdown = ["```ts", ...lines, "```"].join("\n");
+
+      const chunks = chunkStructuredDocument(markdown, "markdown", { maxTokens: 150 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.content.startsWith("```ts\n")).toBe(true);
+        expect(chunk.content.endsWith("\n```")).toBe(true);
+      }
+    });
+
+    it("should pack paragraphs up to the token limit with overlap", () => {
+      const markdown = ["## Guide", paragraph(60, "a"), paragraph(60, "b"), paragraph(60, "c")].join("\n\n");
+
+      const chunks = chunkStructuredDocument(markdown, "markdown", { maxTokens: 200, overlapTokens: 0 });
+
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(200);
+        expect(chunk.tokenCount).toBe(countTokens(chunk.content));
+        expect(chunk.breadcrumb).toEqual(["Guide"]);
+      }
+      expect(chunks.length).toBeGreaterThan(1);
+    });
+
+    it("should carry trailing sentences into the next chunk", () => {
+      const sentences = Array.from({ length: 40 }, (_, i) => `Step ${i} updates the record.`).join(" ");
+
+      const chunks = chunkStructuredDocument(sentences, "markdown", { maxTokens: 100, overlapTokens: 20 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      const overlap = chunks[1].content.split("\n\n")[0];
+      expect(overlap.length).toBeGreaterThan(0);
+      expect(countTokens(overlap)).toBeLessThanOrEqual(20);
+      expect(chunks[0].content.endsWith(overlap)).toBe(true);
+    });
+  });
+
+  // ========================================
+  // HTML TESTS
+  // ========================================
+
+  describe("html", () => {
+    it("should convert headings, tables and code to markdown blocks", () => {
+      const html = `
+        <html><head><title>Docs</title></head><body>
+          <nav>Menu</nav>
+          <h1>API</h1>
+          <p>Use the <strong>contacts</strong> endpoint &amp; filters.</p>
+          <table><tr><th>Code</th><th>Meaning</th></tr><tr><td>E401</td><td>Unauthorized</td></tr></table>
+          <pre><code>if (a &lt; b) {\n  retry();\n}</code></pre>
+          <script>track()</script>
+        </body></html>`;
+
+      expect(htmlToMarkdown(html)).toBe(
+        [
+          "# API",
+          "Use the contacts endpoint & filters.",
+          "| Code | Meaning |\n| --- | --- |\n| E401 | Unauthorized |",
+          "```\nif (a < b) {\n  retry();\n}\n```",
+        ].join("\n\n")
+      );
+    });
+
+    it("should chunk html sections with breadcrumbs", () => {
+      const html = "<h1>Billing</h1><p>Intro.</p><h2>Invoices</h2><p>Invoices are monthly.</p>";
+
+      const chunks = chunkStructuredDocument(html, "html");
+
+      expect(chunks.map((c) => c.breadcrumb)).toEqual([["Billing"], ["Billing", "Invoices"]]);
+    });
+  });
+
+  // ========================================
+  // PDF TESTS
+  // ========================================
+
+  describe("pdf", () => {
+    it("should never merge text from different pages", () => {
+      const chunks = chunkStructuredDocument("", "pdf", {
+        pages: [
+          { pageNumber: 1, text: "Onboarding overview." },
+          { pageNumber: 2, text: "Second page details." },
+        ],
+      });
+
+      expect(chunks.map((c) => [c.page, c.content])).toEqual([
+        [1, "Onboarding overview."],
+        [2, "Second page details."],
+      ]);
+    });
+
+    it("should keep column-aligned lines together as a table", () => {
+      const text = [
+        "SOP: Lead follow-up",
+        "",
+        "Day    Channel    Template",
+        "1      SMS        welcome_sms",
+        "3      Email      nurture_1",
+        "7      Call       call_script_a",
+        "",
+        "Escalate to a manager after day 7.",
+      ].join("\n");
+
+      const chunks = chunkStructuredDocument("", "pdf", { pages: [{ pageNumber: 4, text }], maxTokens: 1000 });
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].blockTypes).toEqual(["paragraph", "table"]);
+      expect(chunks[0].content).toContain(
+        "Day    Channel    Template\n1      SMS        welcome_sms\n3      Email      nurture_1\n7      Call       call_script_a"
+      );
+    });
+
+    it("should treat content without pages as a single page", () => {
+      const [chunk] = chunkStructuredDocument("Just text.", "pdf");
+
+      expect(chunk.page).toBe(1);
+    });
+  });
+
+  // ========================================
+  // PLAIN TEXT TESTS
+  // ========================================
+
+  describe("text", () => {
+    it("should chunk plain text by paragraphs without breadcrumbs", () => {
+      const chunks = chunkStructuredDocument("First paragraph.\n\nSecond paragraph.", "text");
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].content).toBe("First paragraph.\n\nSecond paragraph.");
+      expect(chunks[0].breadcrumb).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,495 @@
+/**
+ * Structure-Aware Document Chunking
+ *
+ * Splits documents for RAG ingestion along their structure instead of raw
+ * character counts:
+ * - markdown: headings open sections; tables, fenced code blocks and
+ *   paragraphs are kept whole whenever they fit
+ * - html: converted to the same block structure (h1-h6, table, pre, p, li)
+ * - pdf: chunks never span pages; column-aligned lines are treated as tables
+ * - text: paragraphs
+ *
+ * Every chunk carries a breadcrumb of the headings above it ("Section > Subsection"),
+ * which is also prepended to the chunk text so retrieval keeps that context.
+ * Sizes are measured in real tokens (cl100k_base, the tokenizer used by the
+ * OpenAI embedding models). Oversized tables are split by rows with the header
+ * repeated, and oversized code blocks by lines with the fence re-opened.
+ */
+
+import { getEncoding, type Tiktoken } from "js-tiktoken";
+
+export type ChunkFormat = "markdown" | "html" | "pdf" | "text";
+
+export type BlockType = "paragraph" | "table" | "code";
+
+export interface PdfPage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  overlapTokens?: number;
+}
+
+export interface StructuredChunk {
+  content: string; // Breadcrumb line followed by the chunk text
+  tokenCount: number;
+  breadcrumb: string[];
+  blockTypes: BlockType[];
+  page?: number;
+}
+
+interface Block {
+  type: BlockType | "heading";
+  text: string;
+  level?: number; // Heading level
+  page?: number;
+}
+
+const DEFAULT_MAX_TOKENS = 400;
+const DEFAULT_OVERLAP_TOKENS = 40;
+
+// ========================================
+// TOKEN COUNTING
+// ========================================
+
+let _encoding: Tiktoken | null = null;
+
+function getTokenizer(): Tiktoken {
+  if (!_encoding) {
+    _encoding = getEncoding("cl100k_base");
+  }
+  return _encoding;
+}
+
+/**
+ * Count tokens in text (cl100k_base)
+ */
+export function countTokens(text: string): number {
+  if (!text) return 0;
+  // Special-token markers in documents are counted as ordinary text
+  return getTokenizer().encode(text, [], []).length;
+}
+
+// ========================================
+// BLOCK PARSING
+// ========================================
+
+const MD_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const MD_FENCE = /^\s*(```|~~~)/;
+const MD_TABLE_ROW = /^\s*\|.*\|\s*$/;
+
+/**
+ * Parse markdown into heading, paragraph, table and code blocks
+ */
+function parseMarkdownBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const text = paragraph.join("\n").trim();
+    if (text) blocks.push({ type: "paragraph", text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(MD_FENCE);
+    if (fence) {
+      flushParagraph();
+      const code = [line];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      code.push(i < lines.length ? lines[i] : fence[1]);
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(MD_HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", text: heading[2].trim(), level: heading[1].length });
+      continue;
+    }
+
+    if (MD_TABLE_ROW.test(line)) {
+      flushParagraph();
+      const rows = [line];
+      while (i + 1 < lines.length && MD_TABLE_ROW.test(lines[i + 1])) {
+        rows.push(lines[++i]);
+      }
+      blocks.push({ type: "table", text: rows.join("\n") });
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Convert HTML to markdown-style blocks: headings, tables, preformatted code,
+ * list items and paragraphs. Scripts, styles and page chrome are dropped.
+ */
+export function htmlToMarkdown(html: string): string {
+  // Preformatted code and tables are rendered up front and kept out of tag stripping
+  const preserved: string[] = [];
+  const preserve = (markdown: string) => `\n\n@@PRESERVED${preserved.push(markdown) - 1}@@\n\n`;
+
+  const text = html
+    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "")
+    .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, "")
+    .replace(/<(nav|footer|head)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) =>
+      preserve(`\`\`\`\n${decodeEntities(code.replace(/<[^>]+>/g, "")).trim()}\n\`\`\``)
+    )
+    // Tables become pipe tables with the first row as header
+    .replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_, table: string) => {
+      const rows = Array.from(table.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)).map((row) =>
+        Array.from(row[1].matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)).map((cell) =>
+          stripTags(cell[1]).replace(/\|/g, "\\|")
+        )
+      );
+      if (rows.length === 0) return "\n\n";
+      const lines = rows.map((cells) => `| ${cells.join(" | ")} |`);
+      lines.splice(1, 0, `| ${rows[0].map(() => "---").join(" | ")} |`);
+      return preserve(lines.join("\n"));
+    })
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${"#".repeat(Number(level))} ${stripTags(inner)}\n\n`
+    )
+    .replace(/<li\b[^>]*>([\s\S]*?)<\/li>/gi, (_, inner: string) => `\n- ${stripTags(inner)}\n`)
+    .replace(/<\/?(p|div|section|article|main|header|ul|ol|blockquote|br)\b[^>]*>/gi, "\n\n");
+
+  // Strip remaining inline tags line by line so block breaks survive
+  return text
+    .split("\n")
+    .map((line) => decodeEntities(line.replace(/<[^>]+>/g, " ")).replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/@@PRESERVED(\d+)@@/g, (_, index: string) => preserved[Number(index)])
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Cells separated by runs of two or more spaces or tabs
+const PDF_TABLE_ROW = /\S(?: {2,}|\t)+\S/;
+
+/**
+ * Parse PDF pages into paragraph and table blocks tagged with their page number
+ * Consecutive column-aligned lines are grouped into a single table block
+ */
+function parsePdfBlocks(pages: PdfPage[]): Block[] {
+  const blocks: Block[] = [];
+
+  for (const page of pages) {
+    const lines = page.text.replace(/\r\n?/g, "\n").split("\n");
+    let paragraph: string[] = [];
+    let table: string[] = [];
+
+    const flushParagraph = () => {
+      const text = paragraph.join("\n").trim();
+      if (text) blocks.push({ type: "paragraph", text, page: page.pageNumber });
+      paragraph = [];
+    };
+    const flushTable = () => {
+      // A single aligned line is more likely a label than a table
+      if (table.length >= 2) {
+        blocks.push({ type: "table", text: table.join("\n"), page: page.pageNumber });
+      } else if (table.length === 1) {
+        paragraph.push(table[0]);
+      }
+      table = [];
+    };
+
+    for (const line of lines) {
+      if (PDF_TABLE_ROW.test(line.trim())) {
+        if (table.length === 0) flushParagraph();
+        table.push(line.trimEnd());
+      } else {
+        flushTable();
+        if (line.trim() === "") {
+          flushParagraph();
+        } else {
+          paragraph.push(line.trim());
+        }
+      }
+    }
+    flushTable();
+    flushParagraph();
+  }
+
+  return blocks;
+}
+
+// ========================================
+// SPLITTING OVERSIZED BLOCKS
+// ========================================
+
+/**
+ * Split a block that exceeds the token budget into pieces that fit
+ */
+function splitBlock(block: Block, budget: number): Block[] {
+  if (block.type === "table") {
+    return splitTable(block, budget);
+  }
+  if (block.type === "code") {
+    return splitCode(block, budget);
+  }
+  return splitParagraph(block, budget);
+}
+
+function splitTable(block: Block, budget: number): Block[] {
+  const rows = block.text.split("\n");
+  // Keep the header (and markdown separator row) on every piece
+  const headerSize = rows.length > 1 && /^\s*\|?[\s:|-]+\|?\s*$/.test(rows[1]) && rows[1].includes("-") ? 2 : 1;
+  const header = rows.slice(0, headerSize);
+  const body = rows.slice(headerSize);
+
+  return packLines(body, header, [], budget).map((text) => ({ ...block, text }));
+}
+
+function splitCode(block: Block, budget: number): Block[] {
+  const lines = block.text.split("\n");
+  const fenced = MD_FENCE.test(lines[0]);
+  const open = fenced ? [lines[0]] : [];
+  const close = fenced ? [lines[lines.length - 1]] : [];
+  const body = fenced ? lines.slice(1, -1) : lines;
+
+  return packLines(body, open, close, budget).map((text) => ({ ...block, text }));
+}
+
+/**
+ * Group lines into pieces of at most `budget` tokens, wrapping each piece
+ * with the given prefix and suffix lines
+ */
+function packLines(lines: string[], prefix: string[], suffix: string[], budget: number): string[] {
+  const overhead = countTokens([...prefix, ...suffix].join("\n")) + 2;
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let tokens = overhead;
+
+  for (const line of lines) {
+    const lineTokens = countTokens(line) + 1;
+    if (current.length > 0 && tokens + lineTokens > budget) {
+      pieces.push([...prefix, ...current, ...suffix].join("\n"));
+      current = [];
+      tokens = overhead;
+    }
+    current.push(line);
+    tokens += lineTokens;
+  }
+  if (current.length > 0) {
+    pieces.push([...prefix, ...current, ...suffix].join("\n"));
+  }
+
+  return pieces;
+}
+
+function splitParagraph(block: Block, budget: number): Block[] {
+  const sentences = block.text.split(/(?<=[.!?])\s+/);
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const sentence of sentences) {
+    // Sentences longer than the budget are split on word boundaries
+    const parts = countTokens(sentence) > budget ? splitWords(sentence, budget) : [sentence];
+    for (const part of parts) {
+      const candidate = current ? `${current} ${part}` : part;
+      if (current && countTokens(candidate) > budget) {
+        pieces.push(current);
+        current = part;
+      } else {
+        current = candidate;
+      }
+    }
+  }
+  if (current) pieces.push(current);
+
+  return pieces.map((text) => ({ ...block, text }));
+}
+
+function splitWords(text: string, budget: number): string[] {
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const word of text.split(/\s+/)) {
+    const wordTokens = countTokens(` ${word}`);
+    if (current.length > 0 && tokens + wordTokens > budget) {
+      pieces.push(current.join(" "));
+      current = [];
+      tokens = 0;
+    }
+    current.push(word);
+    tokens += wordTokens;
+  }
+  if (current.length > 0) pieces.push(current.join(" "));
+
+  return pieces;
+}
+
+/**
+ * Trailing sentences of a paragraph that fit in the overlap budget
+ */
+function overlapTail(text: string, overlapTokens: number): string {
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  const tail: string[] = [];
+  let tokens = 0;
+
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const sentenceTokens = countTokens(sentences[i]);
+    if (tokens + sentenceTokens > overlapTokens) break;
+    tail.unshift(sentences[i]);
+    tokens += sentenceTokens;
+  }
+
+  return tail.join(" ");
+}
+
+// ========================================
+// PACKING
+// ========================================
+
+/**
+ * Pack blocks into chunks that respect section and page boundaries
+ */
+function packBlocks(blocks: Block[], options: ChunkOptions): StructuredChunk[] {
+  const maxTokens = options.maxTokens || DEFAULT_MAX_TOKENS;
+  const overlapTokens = options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS;
+
+  const chunks: StructuredChunk[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let current: Block[] = [];
+  let currentPage: number | undefined;
+
+  const breadcrumb = () => headings.map((h) => h.text);
+  const header = () => (headings.length > 0 ? `${breadcrumb().join(" > ")}\n\n` : "");
+  const render = (pieces: Block[]) => header() + pieces.map((b) => b.text).join("\n\n");
+
+  const flush = (carryOverlap: boolean) => {
+    if (current.length === 0) return;
+
+    const content = render(current);
+    chunks.push({
+      content,
+      tokenCount: countTokens(content),
+      breadcrumb: breadcrumb(),
+      blockTypes: Array.from(new Set(current.map((b) => b.type as BlockType))),
+      page: currentPage,
+    });
+
+    // Continue prose within the same section with a little context from the previous chunk
+    const last = current[current.length - 1];
+    current = [];
+    if (carryOverlap && overlapTokens > 0 && last.type === "paragraph") {
+      const tail = overlapTail(last.text, overlapTokens);
+      if (tail && tail !== last.text) {
+        current.push({ type: "paragraph", text: tail, page: last.page });
+      }
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.type === "heading") {
+      flush(false);
+      while (headings.length > 0 && headings[headings.length - 1].level >= block.level!) {
+        headings.pop();
+      }
+      headings.push({ level: block.level!, text: block.text });
+      continue;
+    }
+
+    if (block.page !== currentPage) {
+      flush(false);
+      currentPage = block.page;
+    }
+
+    const budget = Math.max(maxTokens - countTokens(header()), 1);
+    // Prose pieces leave room for the overlap carried into the next chunk
+    const splitBudget = block.type === "paragraph" ? Math.max(budget - overlapTokens, 1) : budget;
+    const pieces = countTokens(block.text) > budget ? splitBlock(block, splitBudget) : [block];
+
+    for (const piece of pieces) {
+      if (current.length > 0 && countTokens(render([...current, piece])) > maxTokens) {
+        flush(true);
+        // Drop the overlap again if it would push the piece over the limit
+        if (current.length > 0 && countTokens(render([...current, piece])) > maxTokens) {
+          current = [];
+        }
+      }
+      current.push(piece);
+    }
+  }
+  flush(false);
+
+  return chunks;
+}
+
+// ========================================
+// PUBLIC API
+// ========================================
+
+/**
+ * Chunk a document along its structure
+ *
+ * @param content - Raw document content (markdown, HTML or plain text)
+ * @param format - Document format
+ * @param options - Token limits; `pages` supplies per-page text for PDFs
+ */
+export function chunkStructuredDocument(
+  content: string,
+  format: ChunkFormat,
+  options: ChunkOptions & { pages?: PdfPage[] } = {}
+): StructuredChunk[] {
+  let blocks: Block[];
+
+  switch (format) {
+    case "markdown":
+      blocks = parseMarkdownBlocks(content);
+      break;
+    case "html":
+      blocks = parseMarkdownBlocks(htmlToMarkdown(content));
+      break;
+    case "pdf":
+      blocks = parsePdfBlocks(options.pages ?? [{ pageNumber: 1, text: content }]);
+      break;
+    case "text":
+    default:
+      blocks = content
+        .replace(/\r\n?/g, "\n")
+        .split(/\n\s*\n/)
+        .map((text) => text.trim())
+        .filter(Boolean)
+        .map((text) => ({ type: "paragraph" as const, text }));
+      break;
+  }
+
+  return packBlocks(blocks, options);
+}
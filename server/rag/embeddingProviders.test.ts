@@ -0,0 +1,195 @@
+/**
+ * Unit Tests for Embedding Providers
+ *
+ * Tests the offline local provider, HTTP-backed providers,
+ * provider selection and storage padding in the embeddings service
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  LocalEmbeddingProvider,
+  OllamaEmbeddingProvider,
+  GeminiEmbeddingProvider,
+  createEmbeddingProviderFromEnv,
+} from "./embeddingProviders";
+import {
+  generateEmbedding,
+  generateEmbeddings,
+  getEmbeddingModelId,
+  setEmbeddingProvider,
+  cosineSimilarity,
+  EMBEDDING_DIMENSIONS,
+} from "./embeddings";
+
+describe("Embedding Providers", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setEmbeddingProvider(null);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // ========================================
+  // LOCAL PROVIDER TESTS
+  // ========================================
+
+  describe("LocalEmbeddingProvider", () => {
+    it("should produce identical normalized vectors for identical text", async () => {
+      const provider = new LocalEmbeddingProvider();
+
+      const [a, b] = await provider.embed(["Create a contact in GHL", "Create a contact in GHL"]);
+
+      expect(a).toHaveLength(512);
+      expect(a).toEqual(b);
+      expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+    });
+
+    it("should rank related text above unrelated text", async () => {
+      const provider = new LocalEmbeddingProvider();
+
+      const [query, related, unrelated] = await provider.embed([
+        "update contact phone number",
+        "how to update the phone number on a contact",
+        "configure stripe invoice tax rates",
+      ]);
+
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    });
+
+    it("should honour a custom dimension count", async () => {
+      const provider = new LocalEmbeddingProvider({ dimensions: 64 });
+
+      const [vector] = await provider.embed(["hello world"]);
+
+      expect(vector).toHaveLength(64);
+      expect(provider.modelId).toBe("local/hash-v1");
+    });
+  });
+
+  // ========================================
+  // HTTP PROVIDER TESTS
+  // ========================================
+
+  describe("OllamaEmbeddingProvider", () => {
+    it("should call the Ollama embed endpoint", async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ embeddings: [Array(768).fill(0.1)] }),
+      });
+      vi.stubGlobal("fetch", fetchMock);
+      const provider = new OllamaEmbeddingProvider({ baseUrl: "http://ollama:11434" });
+
+      const [vector] = await provider.embed(["hello"]);
+
+      expect(vector).toHaveLength(768);
+      expect(fetchMock).toHaveBeenCalledWith(
+        "http://ollama:11434/api/embed",
+        expect.objectContaining({ method: "POST", body: JSON.stringify({ model: "nomic-embed-text", input: ["hello"] }) })
+      );
+    });
+
+    it("should reject vectors with unexpected dimensions", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ embeddings: [Array(1024).fill(0.1)] }),
+      }));
+      const provider = new OllamaEmbeddingProvider();
+
+      await expect(provider.embed(["hello"])).rejects.toThrow("returned 1024 dimensions, expected 768");
+    });
+  });
+
+  describe("GeminiEmbeddingProvider", () => {
+    it("should require an API key", async () => {
+      delete process.env.GEMINI_API_KEY;
+      const provider = new GeminiEmbeddingProvider();
+
+      await expect(provider.embed(["hello"])).rejects.toThrow("GEMINI_API_KEY");
+    });
+
+    it("should batch texts in a single request", async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ embeddings: [{ values: Array(768).fill(0.2) }, { values: Array(768).fill(0.3) }] }),
+      });
+      vi.stubGlobal("fetch", fetchMock);
+      const provider = new GeminiEmbeddingProvider({ apiKey: "test-key" });
+
+      const vectors = await provider.embed(["one", "two"]);
+
+      expect(vectors).toHaveLength(2);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).requests).toHaveLength(2);
+    });
+  });
+
+  // ========================================
+  // PROVIDER SELECTION TESTS
+  // ========================================
+
+  describe("createEmbeddingProviderFromEnv", () => {
+    it("should use the configured provider and model", () => {
+      process.env.EMBEDDING_PROVIDER = "ollama";
+      process.env.EMBEDDING_MODEL = "mxbai-embed-large";
+      process.env.EMBEDDING_DIMENSIONS = "1024";
+
+      const provider = createEmbeddingProviderFromEnv();
+
+      expect(provider.modelId).toBe("ollama/mxbai-embed-large");
+      expect(provider.dimensions).toBe(1024);
+    });
+
+    it("should fall back to local embeddings without an OpenAI key", () => {
+      delete process.env.EMBEDDING_PROVIDER;
+      delete process.env.OPENAI_API_KEY;
+
+      expect(createEmbeddingProviderFromEnv().name).toBe("local");
+    });
+
+    it("should default to OpenAI when a key is available", () => {
+      delete process.env.EMBEDDING_PROVIDER;
+      process.env.OPENAI_API_KEY = "test-key";
+
+      expect(createEmbeddingProviderFromEnv().modelId).toBe("openai/text-embedding-3-small");
+    });
+  });
+
+  // ========================================
+  // EMBEDDINGS SERVICE INTEGRATION
+  // ========================================
+
+  describe("embeddings service with a non-default provider", () => {
+    it("should pad vectors to the storage dimensions without changing similarity", async () => {
+      const provider = new LocalEmbeddingProvider();
+      setEmbeddingProvider(provider);
+
+      const [native] = await provider.embed(["pipeline stage automation", "pipeline automation"]);
+      const [padded, other] = await generateEmbeddings(["pipeline stage automation", "pipeline automation"]);
+      const [, nativeOther] = await provider.embed(["pipeline stage automation", "pipeline automation"]);
+
+      expect(padded).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(padded.slice(0, 512)).toEqual(native);
+      expect(cosineSimilarity(padded, other)).toBeCloseTo(cosineSimilarity(native, nativeOther));
+    });
+
+    it("should report the active model id", async () => {
+      setEmbeddingProvider(new LocalEmbeddingProvider());
+
+      await generateEmbedding("hello");
+
+      expect(getEmbeddingModelId()).toBe("local/hash-v1");
+    });
+
+    it("should reject providers wider than the storage columns", () => {
+      expect(() => setEmbeddingProvider(new LocalEmbeddingProvider({ dimensions: 3072 }))).toThrow(
+        "at most 1536 can be stored"
+      );
+    });
+  });
+});
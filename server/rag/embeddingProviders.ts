@@ -0,0 +1,294 @@
+/**
+ * Embedding Providers
+ *
+ * Pluggable backends for RAG embeddings:
+ * - openai: text-embedding-3-small via the OpenAI API (default when OPENAI_API_KEY is set)
+ * - gemini: text-embedding-004 via the Generative Language API
+ * - ollama: any embedding model served by a local Ollama instance
+ * - local:  deterministic feature-hashing model that runs fully offline
+ *
+ * Select a provider with EMBEDDING_PROVIDER (and optionally EMBEDDING_MODEL /
+ * EMBEDDING_DIMENSIONS). Every provider reports the model id it stores with
+ * each vector so vectors from different models are never compared.
+ */
+
+import OpenAI from "openai";
+import * as crypto from "crypto";
+
+export type EmbeddingProviderName = "openai" | "gemini" | "ollama" | "local";
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  /** Native vector length produced by the model */
+  readonly dimensions: number;
+  /** Identifier stored alongside vectors, e.g. "openai/text-embedding-3-small" */
+  readonly modelId: string;
+  /** Maximum characters sent per text */
+  readonly maxInputChars: number;
+
+  /**
+   * Embed a batch of non-empty texts, returning one vector per text in order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderOptions {
+  model?: string;
+  dimensions?: number;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+abstract class BaseEmbeddingProvider implements EmbeddingProvider {
+  abstract readonly name: EmbeddingProviderName;
+  abstract readonly model: string;
+  abstract readonly dimensions: number;
+  abstract readonly maxInputChars: number;
+
+  get modelId(): string {
+    return `${this.name}/${this.model}`;
+  }
+
+  abstract embed(texts: string[]): Promise<number[][]>;
+
+  /**
+   * Guard against providers returning vectors of an unexpected size
+   */
+  protected checkDimensions(vectors: number[][]): number[][] {
+    for (const vector of vectors) {
+      if (vector.length !== this.dimensions) {
+        throw new Error(
+          `${this.modelId} returned ${vector.length} dimensions, expected ${this.dimensions}`
+        );
+      }
+    }
+    return vectors;
+  }
+}
+
+// ========================================
+// OPENAI
+// ========================================
+
+export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = "openai" as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxInputChars = 8191 * 4; // Model limit of 8191 tokens (~4 chars each)
+
+  private apiKey?: string;
+  private client: OpenAI | null = null;
+
+  constructor(options: EmbeddingProviderOptions = {}) {
+    super();
+    this.model = options.model || "text-embedding-3-small";
+    this.dimensions = options.dimensions || 1536;
+    this.apiKey = options.apiKey;
+  }
+
+  private getClient(): OpenAI {
+    const apiKey = this.apiKey || process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is required for RAG embeddings. Please set it in your .env file.");
+    }
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey });
+    }
+    return this.client;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.getClient().embeddings.create({
+      model: this.model,
+      input: texts.length === 1 ? texts[0] : texts,
+      dimensions: this.dimensions,
+    });
+
+    return this.checkDimensions(response.data.map((d) => d.embedding));
+  }
+}
+
+// ========================================
+// GEMINI
+// ========================================
+
+export class GeminiEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = "gemini" as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxInputChars = 2048 * 4; // text-embedding-004 input limit of 2048 tokens
+
+  private apiKey?: string;
+  private baseUrl: string;
+
+  constructor(options: EmbeddingProviderOptions = {}) {
+    super();
+    this.model = options.model || "text-embedding-004";
+    this.dimensions = options.dimensions || 768;
+    this.apiKey = options.apiKey;
+    this.baseUrl = options.baseUrl || "https://generativelanguage.googleapis.com/v1beta";
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const apiKey = this.apiKey || process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY environment variable is required for Gemini embeddings");
+    }
+
+    const response = await fetch(
+      `${this.baseUrl}/models/${this.model}:batchEmbedContents?key=${apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          requests: texts.map((text) => ({
+            model: `models/${this.model}`,
+            content: { parts: [{ text }] },
+            outputDimensionality: this.dimensions,
+          })),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Gemini embedding request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data = (await response.json()) as { embeddings: Array<{ values: number[] }> };
+    return this.checkDimensions(data.embeddings.map((e) => e.values));
+  }
+}
+
+// ========================================
+// OLLAMA
+// ========================================
+
+export class OllamaEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = "ollama" as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxInputChars = 2048 * 4;
+
+  private baseUrl: string;
+
+  constructor(options: EmbeddingProviderOptions = {}) {
+    super();
+    this.model = options.model || "nomic-embed-text";
+    this.dimensions = options.dimensions || 768;
+    this.baseUrl = options.baseUrl || process.env.OLLAMA_API_URL || "http://localhost:11434";
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama embedding request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data = (await response.json()) as { embeddings: number[][] };
+    return this.checkDimensions(data.embeddings);
+  }
+}
+
+// ========================================
+// LOCAL (OFFLINE)
+// ========================================
+
+/**
+ * Deterministic offline embeddings using signed feature hashing of word
+ * unigrams, bigrams and character trigrams. Far weaker than a neural model,
+ * but needs no network, gives identical vectors for identical text and still
+ * ranks lexically related text above unrelated text.
+ */
+export class LocalEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = "local" as const;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxInputChars = 32000;
+
+  constructor(options: EmbeddingProviderOptions = {}) {
+    super();
+    this.model = options.model || "hash-v1";
+    this.dimensions = options.dimensions || 512;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = crypto.createHash("md5").update(feature).digest();
+      const index = hash.readUInt32LE(0) % this.dimensions;
+      const sign = hash[4] & 1 ? 1 : -1;
+      vector[index] += sign * weight;
+    };
+
+    words.forEach((word, i) => {
+      addFeature(`w:${word}`, 1);
+      if (i > 0) {
+        addFeature(`b:${words[i - 1]} ${word}`, 0.5);
+      }
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        addFeature(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
+
+// ========================================
+// FACTORY
+// ========================================
+
+/**
+ * Create an embedding provider by name
+ */
+export function createEmbeddingProvider(
+  name: EmbeddingProviderName,
+  options: EmbeddingProviderOptions = {}
+): EmbeddingProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIEmbeddingProvider(options);
+    case "gemini":
+      return new GeminiEmbeddingProvider(options);
+    case "ollama":
+      return new OllamaEmbeddingProvider(options);
+    case "local":
+      return new LocalEmbeddingProvider(options);
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
+
+/**
+ * Create the embedding provider configured in the environment
+ *
+ * Uses EMBEDDING_PROVIDER when set, otherwise OpenAI when OPENAI_API_KEY is
+ * available and the offline local provider as a last resort.
+ */
+export function createEmbeddingProviderFromEnv(): EmbeddingProvider {
+  const configured = process.env.EMBEDDING_PROVIDER as EmbeddingProviderName | undefined;
+  const name = configured || (process.env.OPENAI_API_KEY ? "openai" : "local");
+
+  if (!configured && name === "local") {
+    console.warn("[RAG Embeddings] OPENAI_API_KEY not set - using offline local embeddings");
+  }
+
+  return createEmbeddingProvider(name, {
+    model: process.env.EMBEDDING_MODEL || undefined,
+    dimensions: process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS, 10) : undefined,
+  });
+}
@@ -2,37 +2,63 @@
  * RAG Embeddings Service
  *
  * Generates vector embeddings for website knowledge, action sequences,
- * and support documents using OpenAI's embedding API.
+ * and support documents using the configured embedding provider
+ * (see embeddingProviders.ts).
  *
  * Used for semantic search to find relevant knowledge for browser automation.
  */
 
-import OpenAI from "openai";
+import {
+  createEmbeddingProviderFromEnv,
+  type EmbeddingProvider,
+} from "./embeddingProviders";
 
-// Validate API key at module load
-if (!process.env.OPENAI_API_KEY) {
-  console.warn("[RAG Embeddings] OPENAI_API_KEY not set - embedding functions will fail");
-}
+// Storage configuration: vector columns are vector(1536). Models with fewer
+// native dimensions are zero-padded, which leaves cosine similarity unchanged.
+const EMBEDDING_MODEL = "text-embedding-3-small";
+const EMBEDDING_DIMENSIONS = 1536;
 
-// Initialize OpenAI client (lazy to allow startup without key for non-RAG features)
-let _openai: OpenAI | null = null;
+let _provider: EmbeddingProvider | null = null;
 
-function getOpenAI(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY environment variable is required for RAG embeddings. Please set it in your .env file.");
+/**
+ * Get the active embedding provider (configured from the environment on first use)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!_provider) {
+    setEmbeddingProvider(createEmbeddingProviderFromEnv());
   }
-  if (!_openai) {
-    _openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+  return _provider!;
+}
+
+/**
+ * Replace the active embedding provider (pass null to re-read the environment)
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  if (provider && provider.dimensions > EMBEDDING_DIMENSIONS) {
+    throw new Error(
+      `${provider.modelId} produces ${provider.dimensions} dimensions; at most ${EMBEDDING_DIMENSIONS} can be stored`
+    );
   }
-  return _openai;
+  _provider = provider;
 }
 
-// Embedding model configuration
-const EMBEDDING_MODEL = "text-embedding-3-small";
-const EMBEDDING_DIMENSIONS = 1536;
-const MAX_TOKENS = 8191; // Model limit
+/**
+ * Identifier of the model behind the active provider, stored with each vector
+ * so that searches only compare vectors produced by the same model
+ */
+export function getEmbeddingModelId(): string {
+  return getEmbeddingProvider().modelId;
+}
+
+/**
+ * Zero-pad a vector to the storage dimensions
+ */
+function toStorageVector(embedding: number[]): number[] {
+  if (embedding.length === EMBEDDING_DIMENSIONS) {
+    return embedding;
+  }
+  return [...embedding, ...new Array<number>(EMBEDDING_DIMENSIONS - embedding.length).fill(0)];
+}
 
 /**
  * Generate embedding for a single text
@@ -42,21 +68,16 @@ export async function generateEmbedding(text: string): Promise<number[]> {
     throw new Error("Cannot generate embedding for empty text");
   }
 
-  // Truncate if too long (rough estimate: 1 token H 4 chars)
-  const maxChars = MAX_TOKENS * 4;
-  const truncatedText = text.length > maxChars ? text.slice(0, maxChars) : text;
+  const provider = getEmbeddingProvider();
+
+  // Truncate if too long for the model
+  const truncatedText = text.length > provider.maxInputChars ? text.slice(0, provider.maxInputChars) : text;
 
   try {
-    const openai = getOpenAI();
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: truncatedText,
-      dimensions: EMBEDDING_DIMENSIONS,
-    });
-
-    return response.data[0].embedding;
+    const [embedding] = await provider.embed([truncatedText]);
+    return toStorageVector(embedding);
   } catch (error) {
-    console.error("[RAG Embeddings] Failed to generate embedding:", error);
+    console.error(`[RAG Embeddings] Failed to generate embedding with ${provider.modelId}:`, error);
     throw error;
   }
 }
@@ -69,27 +90,22 @@ export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
     return [];
   }
 
+  const provider = getEmbeddingProvider();
+
   // Filter out empty texts and truncate
-  const maxChars = MAX_TOKENS * 4;
   const processedTexts = texts
     .filter((t) => t && t.trim().length > 0)
-    .map((t) => (t.length > maxChars ? t.slice(0, maxChars) : t));
+    .map((t) => (t.length > provider.maxInputChars ? t.slice(0, provider.maxInputChars) : t));
 
   if (processedTexts.length === 0) {
     return [];
   }
 
   try {
-    const openai = getOpenAI();
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: processedTexts,
-      dimensions: EMBEDDING_DIMENSIONS,
-    });
-
-    return response.data.map((d) => d.embedding);
+    const embeddings = await provider.embed(processedTexts);
+    return embeddings.map(toStorageVector);
   } catch (error) {
-    console.error("[RAG Embeddings] Failed to generate batch embeddings:", error);
+    console.error(`[RAG Embeddings] Failed to generate batch embeddings with ${provider.modelId}:`, error);
     throw error;
   }
 }
@@ -226,6 +242,7 @@ export function findTopK<T extends { embedding: number[] }>(
 
 /**
  * Chunk text for embedding (for long documents)
+ * Character-based; document ingestion uses the structure-aware chunker in chunking.ts
  */
 export function chunkText(
   text: string,
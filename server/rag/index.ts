@@ -51,6 +51,9 @@ export {
 export {
   generateEmbedding,
   generateEmbeddings,
+  getEmbeddingProvider,
+  setEmbeddingProvider,
+  getEmbeddingModelId,
   createPageKnowledgeText,
   createElementSelectorText,
   createActionSequenceText,
@@ -62,6 +65,30 @@ export {
   EMBEDDING_MODEL,
 } from "./embeddings";
 
+// Chunking exports
+export {
+  chunkStructuredDocument,
+  countTokens,
+  htmlToMarkdown,
+  type ChunkFormat,
+  type ChunkOptions,
+  type PdfPage,
+  type StructuredChunk,
+} from "./chunking";
+
+// Embedding provider exports
+export {
+  OpenAIEmbeddingProvider,
+  GeminiEmbeddingProvider,
+  OllamaEmbeddingProvider,
+  LocalEmbeddingProvider,
+  createEmbeddingProvider,
+  createEmbeddingProviderFromEnv,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+  type EmbeddingProviderOptions,
+} from "./embeddingProviders";
+
 // Retrieval exports
 export {
   getWebsiteByDomain,
@@ -45,6 +45,7 @@ import { blogRouter } from "./api/routers/blog";
 import { securityRouter } from "./api/routers/security";
 import { assetsRouter } from "./api/routers/assets";
 import { credentialRotationRouter } from "./api/routers/credentialRotation";
+import { sopRouter } from "./api/routers/sop";
 import { publicProcedure, router } from "./_core/trpc";
 
 export const appRouter = router({
@@ -105,6 +106,9 @@ export const appRouter = router({
   webhooks: webhooksRouter,
   agencyTasks: agencyTasksRouter,
 
+  // Standard Operating Procedures
+  sop: sopRouter,
+
   // Client Management
   clientProfiles: clientProfilesRouter,
   subAccounts: subAccountsRouter,
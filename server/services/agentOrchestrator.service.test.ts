@@ -0,0 +1,255 @@
+/**
+ * Agent Orchestrator Tests
+ *
+ * Covers pausing on ask_user, resuming with the user's response,
+ * and routing LLM calls through the provider manager
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockComplete, mockTrackProviderCall, mockCheckpointService, mockSendAgentEvent } = vi.hoisted(() => ({
+  mockComplete: vi.fn(),
+  mockTrackProviderCall: vi.fn(),
+  mockCheckpointService: {
+    createCheckpoint: vi.fn(),
+    getLatestCheckpoint: vi.fn(),
+    claimCheckpoint: vi.fn(),
+  },
+  mockSendAgentEvent: vi.fn(),
+}));
+
+vi.mock("../providers/utils", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../providers/utils")>()),
+  getProviderManager: vi.fn().mockResolvedValue({ complete: mockComplete }),
+}));
+
+vi.mock("../db", () => ({
+  getDb: vi.fn().mockResolvedValue({
+    update: vi.fn(() => ({ set: vi.fn(() => ({ where: vi.fn().mockResolvedValue(undefined) })) })),
+  }),
+}));
+
+vi.mock("../_core/sse-manager", () => ({
+  sendAgentEvent: mockSendAgentEvent,
+}));
+
+vi.mock("./memory", () => ({
+  getCheckpointService: () => mockCheckpointService,
+  getLearningEngine: () => ({ processFeedback: vi.fn() }),
+  getPatternReuseService: () => ({ recordPatternUsage: vi.fn() }),
+  getUserMemoryService: () => ({}),
+}));
+
+vi.mock("./rag.service", () => ({
+  ragService: {
+    buildSystemPrompt: vi.fn().mockResolvedValue({ retrievedChunks: [], detectedPlatforms: [] }),
+  },
+}));
+
+vi.mock("./agentPermissions.service", () => ({
+  getAgentPermissionsService: () => ({ requirePermission: vi.fn().mockResolvedValue(undefined) }),
+  PermissionDeniedError: class PermissionDeniedError extends Error {},
+}));
+
+vi.mock("./costTracking.service", () => ({
+  getCostTrackingService: () => ({ trackProviderCall: mockTrackProviderCall }),
+}));
+
+import { AgentOrchestratorService } from "./agentOrchestrator.service";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const createPausedCheckpoint = () => ({
+  checkpointId: "cp-1",
+  executionId: 42,
+  userId: 7,
+  checkpointReason: "awaiting_input",
+  partialResults: {
+    agentState: {
+      taskDescription: "Update the Acme contact",
+      plan: null,
+      currentPhaseId: 1,
+      thinkingSteps: [],
+      iterations: 3,
+      errorCount: 0,
+      toolHistory: [],
+      context: { contactName: "Acme" },
+      conversationHistory: [
+        { role: "user", content: "Please complete the following task" },
+        {
+          role: "assistant",
+          content: [
+            { type: "text", text: "I need to know the location." },
+            { type: "tool_use", id: "tu-0", name: "ask_user", input: { question: "Which location should I use?" } },
+          ],
+        },
+      ],
+      browserSessionId: "bb-session-1",
+      pendingQuestion: { question: "Which location should I use?", askedAt: new Date() },
+      maxIterations: 10,
+    },
+  },
+});
+
+const llmResponse = (overrides: Record<string, unknown> = {}) => ({
+  id: "resp-1",
+  model: "claude-opus-4-5-20251101",
+  provider: "anthropic",
+  content: "",
+  usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  ...overrides,
+});
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("AgentOrchestratorService - ask_user resumption", () => {
+  let orchestrator: AgentOrchestratorService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    orchestrator = new AgentOrchestratorService();
+    mockCheckpointService.claimCheckpoint.mockImplementation(async () => ({
+      checkpoint: createPausedCheckpoint(),
+      canResume: true,
+      resumeFromStep: 3,
+      context: { partialResults: {}, extractedData: {}, sessionState: {} },
+    }));
+  });
+
+  it("should inject the user's answer and continue the agent loop", async () => {
+    mockCheckpointService.getLatestCheckpoint.mockResolvedValue(createPausedCheckpoint());
+    mockComplete.mockResolvedValue(llmResponse({ content: "The task is complete." }));
+
+    const result = await orchestrator.resumeWithUserResponse({
+      executionId: 42,
+      userId: 7,
+      response: "Use the Denver location",
+    });
+
+    expect(result.status).toBe("completed");
+    expect(mockCheckpointService.claimCheckpoint).toHaveBeenCalledWith("cp-1");
+
+    const { messages } = mockComplete.mock.calls[0][0];
+    expect(messages[0].role).toBe("system");
+    expect(messages[2].toolCalls[0].function.name).toBe("ask_user");
+    // The answer is delivered as the result of the ask_user call
+    expect(messages[3].role).toBe("tool");
+    expect(messages[3].toolCallId).toBe("tu-0");
+    expect(messages[3].content).toContain("Which location should I use?");
+    expect(messages[3].content).toContain("Use the Denver location");
+    expect(result.output).toEqual({ contactName: "Acme" });
+  });
+
+  it("should persist state and emit input:required when the agent asks again", async () => {
+    mockCheckpointService.getLatestCheckpoint.mockResolvedValue(createPausedCheckpoint());
+    mockCheckpointService.createCheckpoint.mockResolvedValue("cp-2");
+    mockComplete.mockResolvedValue(llmResponse({
+      toolCalls: [
+        {
+          id: "tu-1",
+          type: "function",
+          function: { name: "ask_user", arguments: JSON.stringify({ question: "Which pipeline?" }) },
+        },
+      ],
+    }));
+
+    const result = await orchestrator.resumeWithUserResponse({
+      executionId: 42,
+      userId: 7,
+      response: "Use the Denver location",
+    });
+
+    expect(result.status).toBe("needs_input");
+
+    const checkpoint = mockCheckpointService.createCheckpoint.mock.calls[0][0];
+    expect(checkpoint.checkpointReason).toBe("awaiting_input");
+    expect(checkpoint.partialResults.agentState.pendingQuestion.question).toBe("Which pipeline?");
+    expect(checkpoint.partialResults.agentState.browserSessionId).toBe("bb-session-1");
+    expect(checkpoint.partialResults.agentState.conversationHistory).toHaveLength(4);
+
+    const inputEvent = mockSendAgentEvent.mock.calls.find(([, , event]) => event.type === "input:required");
+    expect(inputEvent?.[2].data.question).toBe("Which pipeline?");
+  });
+
+  it("should reject a response when the execution has no pending question", async () => {
+    mockCheckpointService.getLatestCheckpoint.mockResolvedValue({
+      ...createPausedCheckpoint(),
+      checkpointReason: "auto",
+    });
+
+    await expect(
+      orchestrator.resumeWithUserResponse({ executionId: 42, userId: 7, response: "hi" })
+    ).rejects.toThrow("No pending question found for this execution");
+    expect(mockComplete).not.toHaveBeenCalled();
+  });
+
+  it("should not resume when another response already claimed the checkpoint", async () => {
+    mockCheckpointService.getLatestCheckpoint.mockResolvedValue(createPausedCheckpoint());
+    mockCheckpointService.claimCheckpoint.mockResolvedValueOnce(null);
+
+    await expect(
+      orchestrator.resumeWithUserResponse({ executionId: 42, userId: 7, response: "Denver" })
+    ).rejects.toThrow("Checkpoint is no longer resumable");
+    expect(mockComplete).not.toHaveBeenCalled();
+  });
+
+  it("should reject a response from a different user", async () => {
+    mockCheckpointService.getLatestCheckpoint.mockResolvedValue(createPausedCheckpoint());
+
+    await expect(
+      orchestrator.resumeWithUserResponse({ executionId: 42, userId: 99, response: "hi" })
+    ).rejects.toThrow("No pending question found for this execution");
+  });
+});
+
+describe("AgentOrchestratorService - provider routing", () => {
+  let orchestrator: AgentOrchestratorService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    orchestrator = new AgentOrchestratorService();
+    mockCheckpointService.claimCheckpoint.mockResolvedValue({ canResume: true });
+  });
+
+  it("should request the execution's preferred provider with provider-neutral tools", async () => {
+    const checkpoint = createPausedCheckpoint();
+    Object.assign(checkpoint.partialResults.agentState, { llmProvider: "openai", llmModel: "gpt-4o" });
+    mockCheckpointService.getLatestCheckpoint.mockResolvedValue(checkpoint);
+    mockComplete.mockResolvedValue(llmResponse({ content: "The task is complete." }));
+
+    await orchestrator.resumeWithUserResponse({ executionId: 42, userId: 7, response: "Denver" });
+
+    const request = mockComplete.mock.calls[0][0];
+    expect(request.providerOptions).toEqual({ preferredProvider: "openai" });
+    expect(request.model).toBe("gpt-4o");
+    const askUser = request.tools.find((tool: any) => tool.function.name === "ask_user");
+    expect(askUser.type).toBe("function");
+    expect(askUser.function.parameters.type).toBe("object");
+  });
+
+  it("should attribute cost to the provider that served the call", async () => {
+    mockCheckpointService.getLatestCheckpoint.mockResolvedValue(createPausedCheckpoint());
+    const fallbackResponse = llmResponse({
+      provider: "google",
+      model: "gemini-2.0-flash",
+      content: "The task is complete.",
+    });
+    mockComplete.mockResolvedValue(fallbackResponse);
+
+    await orchestrator.resumeWithUserResponse({ executionId: 42, userId: 7, response: "Denver" });
+
+    expect(mockTrackProviderCall).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 7, executionId: 42, response: fallbackResponse })
+    );
+  });
+});
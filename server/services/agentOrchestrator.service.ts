@@ -1,6 +1,7 @@
 /**
  * Agent Orchestrator Service
- * Implements the Manus 1.5 autonomous agent using Claude API with function calling
+ * Implements the Manus 1.5 autonomous agent using LLM function calling
+ * (Claude by default, routed through the multi-provider ProviderManager)
  *
  * Architecture:
  * 1. Analyze Context - Understand current state and progress
@@ -21,6 +22,7 @@ import {
   buildTaskPrompt,
   buildObservationPrompt,
   buildErrorRecoveryPrompt,
+  buildUserResponsePrompt,
   type RAGContext
 } from "./agentPrompts";
 import { AgentSSEEmitter } from "../_core/agent-sse-events";
@@ -49,6 +51,14 @@ import {
 // Cost Tracking
 import { getCostTrackingService } from "./costTracking.service";
 
+// Multi-provider LLM routing
+import {
+  getProviderManager,
+  fromAnthropicMessages,
+  toAnthropicContent,
+} from "../providers/utils";
+import type { LLMProvider, LLMModel, LLMTool } from "../providers/types";
+
 // Memory & Learning Services
 import {
   getCheckpointService,
@@ -176,8 +186,15 @@ export interface AgentState {
   recommendedStrategy?: any;
   patternMatch?: any;
   // Browser Automation
+  browserSessionId?: string;
   activeTabIds?: string[];
   pendingUploads?: string[];
+  // Human-in-the-loop
+  pendingQuestion?: PendingQuestion;
+  pendingUserResponse?: string;
+  // LLM routing
+  llmProvider?: LLMProvider;
+  llmModel?: LLMModel;
   // Intelligence
   adaptedStrategy?: any;
   recoveryStrategiesUsed?: string[];
@@ -186,6 +203,44 @@ export interface AgentState {
   credentialsUsed?: number[];
 }
 
+/**
+ * Question the agent asked via ask_user that is waiting for an answer
+ */
+export interface PendingQuestion {
+  question: string;
+  context?: string;
+  askedAt: Date;
+}
+
+/**
+ * Agent state persisted in a checkpoint while waiting for user input
+ */
+interface PausedAgentSnapshot {
+  taskDescription: string;
+  plan: AgentPlan | null;
+  currentPhaseId: number;
+  thinkingSteps: ThinkingStep[];
+  iterations: number;
+  errorCount: number;
+  toolHistory: ToolHistoryEntry[];
+  context: Record<string, unknown>;
+  conversationHistory: Anthropic.MessageParam[];
+  browserSessionId?: string;
+  pendingQuestion: PendingQuestion;
+  maxIterations: number;
+  llmProvider?: LLMProvider;
+  llmModel?: LLMModel;
+}
+
+/**
+ * Options for resuming an execution that is waiting for user input
+ */
+export interface ResumeWithResponseOptions {
+  executionId: number;
+  userId: number;
+  response: string;
+}
+
 /**
  * Tool execution result
  */
@@ -205,6 +260,10 @@ export interface ExecuteTaskOptions {
   context?: Record<string, unknown>;
   maxIterations?: number;
   taskId?: number;
+  /** Preferred LLM provider; the provider manager falls back to others if it is unavailable */
+  llmProvider?: LLMProvider;
+  /** Model to request from the preferred provider */
+  llmModel?: LLMModel;
 }
 
 /**
@@ -228,7 +287,6 @@ export interface AgentExecutionResult {
 
 const MAX_ITERATIONS = 50;
 const MAX_CONSECUTIVE_ERRORS = 3;
-const CLAUDE_MODEL = "claude-opus-4-5-20251101"; // Latest Opus 4.5
 const MAX_TOKENS = 4096;
 
 // ========================================
@@ -236,16 +294,9 @@ const MAX_TOKENS = 4096;
 // ========================================
 
 export class AgentOrchestratorService {
-  private claude: Anthropic;
   private toolRegistry: Map<string, Function>;
 
   constructor() {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error("ANTHROPIC_API_KEY environment variable is required");
-    }
-
-    this.claude = new Anthropic({ apiKey });
     this.toolRegistry = new Map();
 
     // Register core tools
@@ -445,12 +496,14 @@ export class AgentOrchestratorService {
     const shellTool = toolRegistry.get('shell') as ShellTool;
     const fileTool = toolRegistry.get('file') as FileTool;
 
-    // Tool: Execute shell command
+    // Tool: Execute shell command (sandboxed under the user's shell policy)
     this.toolRegistry.set("shell_exec", async (params: {
       command: string;
       cwd?: string;
       timeout?: number;
       background?: boolean;
+      userId: number;
+      executionId?: number;
     }) => {
       const result = await shellTool.execute({
         action: 'exec',
@@ -458,7 +511,7 @@ export class AgentOrchestratorService {
         cwd: params.cwd,
         timeout: params.timeout?.toString(),
         background: params.background?.toString(),
-      }, { userId: 0, sessionId: 'agent' });
+      }, { userId: params.userId, sessionId: 'agent', executionId: params.executionId });
       return result;
     });
 
@@ -718,7 +771,7 @@ export class AgentOrchestratorService {
     tools.push(
       {
         name: "shell_exec",
-        description: "Execute a shell command. Use this to run system commands, install packages, run scripts, or interact with the operating system.",
+        description: "Execute a shell command in an isolated sandbox. Each command starts in its own empty working directory; network access and the commands you may run depend on the workspace's shell policy.",
         input_schema: {
           type: "object" as const,
           properties: {
@@ -728,7 +781,7 @@ export class AgentOrchestratorService {
             },
             cwd: {
               type: "string",
-              description: "Working directory for command execution"
+              description: "Working directory inside the sandbox workspace (relative path)"
             },
             timeout: {
               type: "number",
@@ -861,6 +914,51 @@ export class AgentOrchestratorService {
     return tools;
   }
 
+  /**
+   * Convert tool definitions to the provider-neutral function format
+   */
+  private getProviderTools(): LLMTool[] {
+    return this.getClaudeTools().map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description || '',
+        parameters: tool.input_schema as LLMTool['function']['parameters'],
+      },
+    }));
+  }
+
+  /**
+   * Build the next user turn. When the previous assistant turn called tools,
+   * the prompt is delivered as their tool results so every provider sees each
+   * call answered.
+   */
+  private buildUserTurn(
+    history: Anthropic.MessageParam[],
+    prompt: string
+  ): Anthropic.MessageParam {
+    const lastMessage = history[history.length - 1];
+    const toolUses = lastMessage?.role === 'assistant' && Array.isArray(lastMessage.content)
+      ? lastMessage.content.filter(
+          (block): block is Anthropic.ToolUseBlockParam => block.type === 'tool_use'
+        )
+      : [];
+
+    if (toolUses.length === 0) {
+      return { role: "user", content: prompt };
+    }
+
+    // Only the first tool call of a turn is executed
+    return {
+      role: "user",
+      content: toolUses.map((block, index) => ({
+        type: 'tool_result' as const,
+        tool_use_id: block.id,
+        content: index === 0 ? prompt : 'Not executed: only one tool call runs per turn.',
+      })),
+    };
+  }
+
   /**
    * Execute a tool and return the result
    */
@@ -901,7 +999,14 @@ export class AgentOrchestratorService {
 
       // Special handling for certain tools that need state
       let result: unknown;
-      if (toolName === "browser_create_session") {
+      if (toolName === "shell_exec") {
+        // Shell commands run under the user's own shell policy
+        result = await toolFunction({
+          ...parameters,
+          userId: state.userId,
+          executionId: state.executionId,
+        });
+      } else if (toolName === "browser_create_session") {
         // Pass userId and executionId for cost tracking
         result = await toolFunction({
           ...parameters,
@@ -912,6 +1017,7 @@ export class AgentOrchestratorService {
         // Emit browser session event with debug URL
         if (result && typeof result === 'object' && 'success' in result && result.success && 'sessionId' in result) {
           const sessionId = (result as any).sessionId;
+          state.browserSessionId = sessionId;
           // Import stagehand service to get debug URL
           const { stagehandService } = await import('./stagehand.service');
           const debugUrl = await stagehandService.getDebugUrl(sessionId);
@@ -1006,6 +1112,11 @@ export class AgentOrchestratorService {
       } else if (toolName === "ask_user") {
         result = await toolFunction(parameters);
         state.status = 'needs_input';
+        state.pendingQuestion = {
+          question: String(parameters.question ?? ''),
+          context: parameters.context as string | undefined,
+          askedAt: new Date(),
+        };
       } else {
         result = await toolFunction(parameters);
       }
@@ -1248,7 +1359,15 @@ export class AgentOrchestratorService {
       // Build the current prompt based on state
       let currentPrompt = "";
 
-      if (state.iterations === 0) {
+      if (state.pendingUserResponse !== undefined && state.pendingQuestion) {
+        // Resuming after ask_user - hand the user's answer back to the agent
+        currentPrompt = buildUserResponsePrompt(
+          state.pendingQuestion.question,
+          state.pendingUserResponse
+        );
+        state.pendingUserResponse = undefined;
+        state.pendingQuestion = undefined;
+      } else if (state.iterations === 0) {
         // First iteration - introduce the task
         currentPrompt = buildTaskPrompt(state.taskDescription);
       } else {
@@ -1270,16 +1389,16 @@ export class AgentOrchestratorService {
       }
 
       // Add current prompt to conversation
-      state.conversationHistory.push({
-        role: "user",
-        content: currentPrompt,
-      });
+      state.conversationHistory.push(
+        this.buildUserTurn(state.conversationHistory, currentPrompt)
+      );
 
       // Fetch RAG context on first iteration
       let ragContext: RAGContext | undefined;
       if (state.iterations === 0) {
         try {
           const ragResult = await ragService.buildSystemPrompt(state.taskDescription, {
+            userId: state.userId,
             maxDocumentationTokens: 3000,
             includeExamples: true,
           });
@@ -1297,25 +1416,30 @@ export class AgentOrchestratorService {
         }
       }
 
-      // Call Claude with function calling
+      // Call the LLM with function calling via the provider manager
       const systemPrompt = buildSystemPrompt({
         userId: state.userId,
         taskDescription: state.taskDescription,
         ragContext,
       });
 
+      const providerManager = await getProviderManager();
       const apiCallStartTime = Date.now();
-      const response = await this.claude.messages.create({
-        model: CLAUDE_MODEL,
-        max_tokens: MAX_TOKENS,
-        system: systemPrompt,
-        messages: state.conversationHistory,
-        tools: this.getClaudeTools(),
+      const llmResponse = await providerManager.complete({
+        messages: fromAnthropicMessages(systemPrompt, state.conversationHistory),
+        model: state.llmModel,
+        maxTokens: MAX_TOKENS,
+        tools: this.getProviderTools(),
+        toolChoice: 'auto',
+        providerOptions: state.llmProvider
+          ? { preferredProvider: state.llmProvider }
+          : undefined,
       });
       const apiCallDuration = Date.now() - apiCallStartTime;
+      const responseContent = toAnthropicContent(llmResponse);
 
       // ========================================
-      // COST TRACKING: Track Claude API token usage
+      // COST TRACKING: Track token usage for the provider that served the call
       // ========================================
       try {
         const costTrackingService = getCostTrackingService();
@@ -1334,15 +1458,12 @@ export class AgentOrchestratorService {
         }
 
         // Extract tool names used in this response
-        const toolsUsed = response.content
-          .filter((block): block is Anthropic.ToolUseBlock => block.type === "tool_use")
-          .map(block => block.name);
+        const toolsUsed = (llmResponse.toolCalls || []).map(call => call.function.name);
 
-        await costTrackingService.trackApiCall({
+        await costTrackingService.trackProviderCall({
           userId: state.userId,
           executionId: state.executionId,
-          response,
-          model: CLAUDE_MODEL,
+          response: llmResponse,
           promptType,
           toolsUsed: toolsUsed.length > 0 ? toolsUsed : undefined,
           responseTime: apiCallDuration,
@@ -1355,17 +1476,17 @@ export class AgentOrchestratorService {
       // Save assistant's response
       state.conversationHistory.push({
         role: "assistant",
-        content: response.content,
+        content: responseContent,
       });
 
       // Check if response contains tool use
-      const toolUse = response.content.find(
-        (block): block is Anthropic.ToolUseBlock => block.type === "tool_use"
+      const toolUse = responseContent.find(
+        (block): block is Anthropic.ToolUseBlockParam => block.type === "tool_use"
       );
 
       // Extract thinking from text blocks
-      const textBlocks = response.content.filter(
-        (block): block is Anthropic.TextBlock => block.type === "text"
+      const textBlocks = responseContent.filter(
+        (block): block is Anthropic.TextBlockParam => block.type === "text"
       );
 
       if (textBlocks.length > 0 && emitter) {
@@ -1378,8 +1499,8 @@ export class AgentOrchestratorService {
 
       if (!toolUse) {
         // No tool use - check if task is complete
-        const textBlock = response.content.find(
-          (block): block is Anthropic.TextBlock => block.type === "text"
+        const textBlock = responseContent.find(
+          (block): block is Anthropic.TextBlockParam => block.type === "text"
         );
 
         if (textBlock?.text.toLowerCase().includes("complete")) {
@@ -1388,7 +1509,7 @@ export class AgentOrchestratorService {
         }
 
         // Agent didn't use a tool - this is unexpected
-        console.warn("Agent response without tool use:", response);
+        console.warn("Agent response without tool use:", llmResponse);
         state.errorCount++;
         state.consecutiveErrors++;
         return true; // Continue but flag error
@@ -1466,6 +1587,8 @@ export class AgentOrchestratorService {
       context = {},
       maxIterations = MAX_ITERATIONS,
       taskId,
+      llmProvider,
+      llmModel,
     } = options;
 
     const db = await getDb();
@@ -1508,6 +1631,8 @@ export class AgentOrchestratorService {
       // Self-correction state
       failureAttempts: [],
       recoveryAttempts: 0,
+      llmProvider,
+      llmModel,
     };
 
     // ========================================
@@ -1674,268 +1799,451 @@ export class AgentOrchestratorService {
       state.status = 'executing';
       await this.updateExecutionRecord(state);
 
-      // Run agent loop
-      let continueLoop = true;
-      const loopStartTime = Date.now();
+      return await this.continueExecution(state, {
+        emitter,
+        progressTracker,
+        maxIterations,
+        startTime,
+      });
+    } catch (error) {
+      console.error("[Agent Execution] Fatal error:", error);
 
-      while (continueLoop && state.iterations < maxIterations) {
-        // ========================================
-        // SECURITY: Check execution control state
-        // ========================================
-        try {
-          const controlState = executionControl.getExecutionStatus(execution.id.toString());
+      // Mark progress tracker as failed
+      progressTracker.complete(false);
 
-          if (controlState?.status === 'cancelled') {
-            console.log(`[Security] Execution ${execution.id} was cancelled`);
-            state.status = 'failed';
-            break;
-          }
+      // Emit enhanced error event with explanation
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      emitExplainedError(userId, execution.id.toString(), errorMessage);
 
-          if (controlState?.status === 'paused') {
-            state.isPaused = true;
-            console.log(`[Security] Execution ${execution.id} is paused, waiting...`);
-            emitter.thinking({
-              thought: 'Execution paused by user. Waiting for resume...',
-              iteration: state.iterations,
-            });
+      await db.update(taskExecutions)
+        .set({
+          status: "failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+          completedAt: new Date(),
+        })
+        .where(eq(taskExecutions.id, execution.id));
 
-            // Wait for resume (check every 2 seconds, max 5 minutes)
-            let waitTime = 0;
-            const maxWait = 5 * 60 * 1000; // 5 minutes
-            while (waitTime < maxWait) {
-              await new Promise(resolve => setTimeout(resolve, 2000));
-              waitTime += 2000;
-              const newState = executionControl.getExecutionStatus(execution.id.toString());
-              if (newState?.status === 'running') {
-                state.isPaused = false;
-                console.log(`[Security] Execution ${execution.id} resumed`);
-                break;
-              }
-              if (newState?.status === 'cancelled') {
-                state.status = 'failed';
-                continueLoop = false;
-                break;
-              }
-            }
+      throw error;
+    }
+  }
 
-            if (state.isPaused) {
-              // Timed out waiting for resume
-              console.log(`[Security] Execution ${execution.id} pause timeout, saving checkpoint`);
-              await checkpointService.createCheckpoint({
-                executionId: execution.id,
-                userId,
-                phaseName: state.plan?.phases[state.currentPhaseId - 1]?.name || 'paused',
-                stepIndex: state.iterations,
-                completedSteps: state.toolHistory.filter(t => t.success).map(t => t.toolName),
-                partialResults: state.context as Record<string, any>,
-                checkpointReason: 'manual',
-              });
+  /**
+   * Run the agent loop until the task completes, fails, or pauses for user input,
+   * then record the final status. Shared by fresh executions and resumptions.
+   */
+  private async continueExecution(
+    state: AgentState,
+    options: {
+      emitter: AgentSSEEmitter;
+      progressTracker: AgentProgressTracker;
+      maxIterations: number;
+      startTime: number;
+    }
+  ): Promise<AgentExecutionResult> {
+    const { emitter, progressTracker, maxIterations, startTime } = options;
+    const { executionId, userId, taskDescription } = state;
+    const executionControl = getExecutionControl();
+    const checkpointService = getCheckpointService();
+    const learningEngine = getLearningEngine();
+    const patternReuse = getPatternReuseService();
+
+    // Run agent loop
+    let continueLoop = true;
+    const loopStartTime = Date.now();
+
+    while (continueLoop && state.iterations < maxIterations) {
+      // ========================================
+      // SECURITY: Check execution control state
+      // ========================================
+      try {
+        const controlState = executionControl.getExecutionStatus(executionId.toString());
+
+        if (controlState?.status === 'cancelled') {
+          console.log(`[Security] Execution ${executionId} was cancelled`);
+          state.status = 'failed';
+          break;
+        }
+
+        if (controlState?.status === 'paused') {
+          state.isPaused = true;
+          console.log(`[Security] Execution ${executionId} is paused, waiting...`);
+          emitter.thinking({
+            thought: 'Execution paused by user. Waiting for resume...',
+            iteration: state.iterations,
+          });
+
+          // Wait for resume (check every 2 seconds, max 5 minutes)
+          let waitTime = 0;
+          const maxWait = 5 * 60 * 1000; // 5 minutes
+          while (waitTime < maxWait) {
+            await new Promise(resolve => setTimeout(resolve, 2000));
+            waitTime += 2000;
+            const newState = executionControl.getExecutionStatus(executionId.toString());
+            if (newState?.status === 'running') {
+              state.isPaused = false;
+              console.log(`[Security] Execution ${executionId} resumed`);
+              break;
+            }
+            if (newState?.status === 'cancelled') {
               state.status = 'failed';
+              continueLoop = false;
               break;
             }
           }
-        } catch (controlError) {
-          console.warn('[Security] Execution control check error (continuing):', controlError);
-        }
 
-        // Get current action for progress tracking
-        let currentAction = 'Processing...';
-        let currentPhase = 'execution';
-        if (state.plan?.phases[state.currentPhaseId - 1]) {
-          currentPhase = state.plan.phases[state.currentPhaseId - 1].name;
-          currentAction = currentPhase;
+          if (state.isPaused) {
+            // Timed out waiting for resume
+            console.log(`[Security] Execution ${executionId} pause timeout, saving checkpoint`);
+            await checkpointService.createCheckpoint({
+              executionId: executionId,
+              userId,
+              phaseName: state.plan?.phases[state.currentPhaseId - 1]?.name || 'paused',
+              stepIndex: state.iterations,
+              completedSteps: state.toolHistory.filter(t => t.success).map(t => t.toolName),
+              partialResults: state.context as Record<string, any>,
+              checkpointReason: 'manual',
+            });
+            state.status = 'failed';
+            break;
+          }
         }
+      } catch (controlError) {
+        console.warn('[Security] Execution control check error (continuing):', controlError);
+      }
 
-        // Update progress tracker with current step
-        progressTracker.stepStarted(currentAction, currentPhase);
+      // Get current action for progress tracking
+      let currentAction = 'Processing...';
+      let currentPhase = 'execution';
+      if (state.plan?.phases[state.currentPhaseId - 1]) {
+        currentPhase = state.plan.phases[state.currentPhaseId - 1].name;
+        currentAction = currentPhase;
+      }
 
-        // Run the agent loop iteration
-        continueLoop = await this.runAgentLoop(state, emitter);
+      // Update progress tracker with current step
+      progressTracker.stepStarted(currentAction, currentPhase);
 
-        // Mark step completed for accurate ETA calculation
-        progressTracker.stepCompleted();
+      // Run the agent loop iteration
+      continueLoop = await this.runAgentLoop(state, emitter);
 
-        // Update total steps estimate if we have a plan
-        if (state.plan?.estimatedSteps) {
-          progressTracker.updateTotalSteps(state.plan.estimatedSteps);
-        }
+      // Mark step completed for accurate ETA calculation
+      progressTracker.stepCompleted();
 
-        // Periodic state save
-        if (state.iterations % 5 === 0) {
-          await this.updateExecutionRecord(state);
-        }
+      // Update total steps estimate if we have a plan
+      if (state.plan?.estimatedSteps) {
+        progressTracker.updateTotalSteps(state.plan.estimatedSteps);
       }
 
-      // Check completion status
-      if (state.iterations >= maxIterations && state.status === 'executing') {
-        state.status = 'failed';
-        progressTracker.complete(false);
-        await this.updateExecutionRecord(state, "Max iterations reached");
-
-        // Create error checkpoint
-        try {
-          await checkpointService.createCheckpoint({
-            executionId: execution.id,
-            userId,
-            phaseName: state.plan?.phases[state.currentPhaseId - 1]?.name || 'unknown',
-            stepIndex: state.iterations,
-            completedSteps: state.toolHistory.filter(t => t.success).map(t => t.toolName),
-            partialResults: state.context as Record<string, any>,
-            errorInfo: {
-              error: 'MAX_ITERATIONS',
-              message: 'Maximum iterations reached',
-              timestamp: new Date(),
-              retryable: true,
-            },
-            checkpointReason: 'error',
-          });
-        } catch (e) {
-          console.warn('[Memory] Failed to create error checkpoint:', e);
-        }
-      } else if (state.status === 'executing') {
-        // Didn't explicitly complete - check if plan is done
-        if (state.plan && state.plan.phases.every(p => p.status === 'completed')) {
-          state.status = 'completed';
-          progressTracker.complete(true);
-        }
+      // Periodic state save
+      if (state.iterations % 5 === 0) {
+        await this.updateExecutionRecord(state);
       }
+    }
 
-      // Final state save
-      await this.updateExecutionRecord(state);
+    // Check completion status
+    if (state.iterations >= maxIterations && state.status === 'executing') {
+      state.status = 'failed';
+      progressTracker.complete(false);
+      await this.updateExecutionRecord(state, "Max iterations reached");
 
-      const duration = Date.now() - startTime;
+      // Create error checkpoint
+      try {
+        await checkpointService.createCheckpoint({
+          executionId: executionId,
+          userId,
+          phaseName: state.plan?.phases[state.currentPhaseId - 1]?.name || 'unknown',
+          stepIndex: state.iterations,
+          completedSteps: state.toolHistory.filter(t => t.success).map(t => t.toolName),
+          partialResults: state.context as Record<string, any>,
+          errorInfo: {
+            error: 'MAX_ITERATIONS',
+            message: 'Maximum iterations reached',
+            timestamp: new Date(),
+            retryable: true,
+          },
+          checkpointReason: 'error',
+        });
+      } catch (e) {
+        console.warn('[Memory] Failed to create error checkpoint:', e);
+      }
+    } else if (state.status === 'executing') {
+      // Didn't explicitly complete - check if plan is done
+      if (state.plan && state.plan.phases.every(p => p.status === 'completed')) {
+        state.status = 'completed';
+        progressTracker.complete(true);
+      }
+    }
 
-      // Get progress statistics for logging
-      const progressStats = progressTracker.getStats();
-      console.log(`[Agent] Execution completed. Duration: ${progressStats.totalDuration}ms, Steps: ${progressStats.stepCount}, Avg step: ${progressStats.avgStepDuration.toFixed(0)}ms`);
+    // Final state save
+    await this.updateExecutionRecord(state);
 
-      // Determine final result status
-      // Note: state.status type is narrowed by TypeScript control flow analysis
-      // but it could have been set to 'needs_input' earlier in the execution
-      const currentStatus = state.status as AgentState['status'];
-      let resultStatus: 'completed' | 'failed' | 'needs_input' | 'max_iterations';
+    const duration = Date.now() - startTime;
 
-      if (currentStatus === 'completed') {
-        resultStatus = 'completed';
-        progressTracker.complete(true);
-        // Emit completion event
-        emitter.executionComplete({
-          result: state.context,
-          duration,
-          tokensUsed: progressStats.stepCount, // Approximate token usage
-        });
+    // Get progress statistics for logging
+    const progressStats = progressTracker.getStats();
+    console.log(`[Agent] Execution completed. Duration: ${progressStats.totalDuration}ms, Steps: ${progressStats.stepCount}, Avg step: ${progressStats.avgStepDuration.toFixed(0)}ms`);
 
-        // ========================================
-        // MEMORY & LEARNING: Record success feedback
-        // ========================================
-        try {
-          const taskType = inferTaskType(taskDescription);
+    // Determine final result status
+    // Note: state.status type is narrowed by TypeScript control flow analysis
+    // but it could have been set to 'needs_input' earlier in the execution
+    const currentStatus = state.status as AgentState['status'];
+    let resultStatus: 'completed' | 'failed' | 'needs_input' | 'max_iterations';
 
-          // Record task history and feedback
-          await learningEngine.processFeedback({
-            userId,
-            executionId: execution.id,
-            taskType,
-            success: true,
-            approach: state.recommendedStrategy?.approach || 'standard',
-            executionTime: duration,
-          });
+    if (currentStatus === 'completed') {
+      resultStatus = 'completed';
+      progressTracker.complete(true);
+      // Emit completion event
+      emitter.executionComplete({
+        result: state.context,
+        duration,
+        tokensUsed: progressStats.stepCount, // Approximate token usage
+      });
 
-          // Update pattern usage if we used one
-          if (state.patternMatch?.pattern?.patternId) {
-            await patternReuse.recordPatternUsage(
-              state.patternMatch.pattern.patternId,
-              true,
-              duration
-            );
-          }
+      // ========================================
+      // MEMORY & LEARNING: Record success feedback
+      // ========================================
+      try {
+        const taskType = inferTaskType(taskDescription);
 
-          // Invalidate checkpoint (execution complete)
-          if (state.checkpointId) {
-            await checkpointService.invalidateCheckpoint(state.checkpointId);
-          }
+        // Record task history and feedback
+        await learningEngine.processFeedback({
+          userId,
+          executionId: executionId,
+          taskType,
+          success: true,
+          approach: state.recommendedStrategy?.approach || 'standard',
+          executionTime: duration,
+        });
 
-          console.log(`[Memory] Recorded successful execution feedback for user ${userId}`);
-        } catch (feedbackError) {
-          console.warn('[Memory] Failed to record feedback:', feedbackError);
+        // Update pattern usage if we used one
+        if (state.patternMatch?.pattern?.patternId) {
+          await patternReuse.recordPatternUsage(
+            state.patternMatch.pattern.patternId,
+            true,
+            duration
+          );
         }
-      } else if (currentStatus === 'needs_input') {
-        resultStatus = 'needs_input';
-      } else if (currentStatus === 'failed') {
-        resultStatus = 'failed';
-        progressTracker.complete(false);
-        // Emit error event
-        emitter.executionError({
-          error: state.errorCount > 0 ? 'Execution failed after multiple errors' : 'Execution failed',
-        });
 
-        // ========================================
-        // MEMORY & LEARNING: Record failure feedback
-        // ========================================
-        try {
-          const taskType = inferTaskType(taskDescription);
-
-          // Record task history and feedback
-          await learningEngine.processFeedback({
-            userId,
-            executionId: execution.id,
-            taskType,
-            success: false,
-            approach: state.recommendedStrategy?.approach || 'standard',
-            executionTime: duration,
-          });
+        // Invalidate checkpoint (execution complete)
+        if (state.checkpointId) {
+          await checkpointService.invalidateCheckpoint(state.checkpointId);
+        }
 
-          // Update pattern usage if we used one (mark as failed)
-          if (state.patternMatch?.pattern?.patternId) {
-            await patternReuse.recordPatternUsage(
-              state.patternMatch.pattern.patternId,
-              false,
-              duration
-            );
-          }
+        console.log(`[Memory] Recorded successful execution feedback for user ${userId}`);
+      } catch (feedbackError) {
+        console.warn('[Memory] Failed to record feedback:', feedbackError);
+      }
+    } else if (currentStatus === 'needs_input') {
+      resultStatus = 'needs_input';
+      await this.persistPendingInput(state, maxIterations);
+    } else if (currentStatus === 'failed') {
+      resultStatus = 'failed';
+      progressTracker.complete(false);
+      // Emit error event
+      emitter.executionError({
+        error: state.errorCount > 0 ? 'Execution failed after multiple errors' : 'Execution failed',
+      });
 
-          console.log(`[Memory] Recorded failed execution feedback for user ${userId}`);
-        } catch (feedbackError) {
-          console.warn('[Memory] Failed to record failure feedback:', feedbackError);
-        }
-      } else {
-        // All other statuses (initializing, planning, executing) are treated as max_iterations
-        resultStatus = 'max_iterations';
-        progressTracker.complete(false);
-        // Emit error event
-        emitter.executionError({
-          error: 'Maximum iterations reached',
+      // ========================================
+      // MEMORY & LEARNING: Record failure feedback
+      // ========================================
+      try {
+        const taskType = inferTaskType(taskDescription);
+
+        // Record task history and feedback
+        await learningEngine.processFeedback({
+          userId,
+          executionId: executionId,
+          taskType,
+          success: false,
+          approach: state.recommendedStrategy?.approach || 'standard',
+          executionTime: duration,
         });
+
+        // Update pattern usage if we used one (mark as failed)
+        if (state.patternMatch?.pattern?.patternId) {
+          await patternReuse.recordPatternUsage(
+            state.patternMatch.pattern.patternId,
+            false,
+            duration
+          );
+        }
+
+        console.log(`[Memory] Recorded failed execution feedback for user ${userId}`);
+      } catch (feedbackError) {
+        console.warn('[Memory] Failed to record failure feedback:', feedbackError);
       }
+    } else {
+      // All other statuses (initializing, planning, executing) are treated as max_iterations
+      resultStatus = 'max_iterations';
+      progressTracker.complete(false);
+      // Emit error event
+      emitter.executionError({
+        error: 'Maximum iterations reached',
+      });
+    }
 
-      return {
-        executionId: execution.id,
-        status: resultStatus,
-        plan: state.plan,
-        output: state.context,
-        thinkingSteps: state.thinkingSteps,
-        toolHistory: state.toolHistory,
-        iterations: state.iterations,
-        duration,
-      };
+    return {
+      executionId: executionId,
+      status: resultStatus,
+      plan: state.plan,
+      output: state.context,
+      thinkingSteps: state.thinkingSteps,
+      toolHistory: state.toolHistory,
+      iterations: state.iterations,
+      duration,
+    };
 
-    } catch (error) {
-      console.error("[Agent Execution] Fatal error:", error);
+  }
 
-      // Mark progress tracker as failed
+  /**
+   * Checkpoint the agent state while it waits for an ask_user answer
+   * and notify the client that input is required
+   */
+  private async persistPendingInput(state: AgentState, maxIterations: number): Promise<void> {
+    if (!state.pendingQuestion) return;
+
+    const snapshot: PausedAgentSnapshot = {
+      taskDescription: state.taskDescription,
+      plan: state.plan,
+      currentPhaseId: state.currentPhaseId,
+      thinkingSteps: state.thinkingSteps,
+      iterations: state.iterations,
+      errorCount: state.errorCount,
+      toolHistory: state.toolHistory,
+      context: state.context,
+      conversationHistory: state.conversationHistory,
+      browserSessionId: state.browserSessionId,
+      pendingQuestion: state.pendingQuestion,
+      maxIterations,
+      llmProvider: state.llmProvider,
+      llmModel: state.llmModel,
+    };
+
+    try {
+      state.checkpointId = await getCheckpointService().createCheckpoint({
+        executionId: state.executionId,
+        userId: state.userId,
+        phaseId: state.currentPhaseId,
+        phaseName: state.plan?.phases[state.currentPhaseId - 1]?.name || 'awaiting_input',
+        stepIndex: state.iterations,
+        completedSteps: state.toolHistory.filter(t => t.success).map(t => t.toolName),
+        partialResults: { agentState: snapshot },
+        checkpointReason: 'awaiting_input',
+        ttlSeconds: 7 * 24 * 60 * 60, // 7 days to answer
+      });
+      console.log(`[Agent] Execution ${state.executionId} waiting for user input (checkpoint ${state.checkpointId})`);
+    } catch (checkpointError) {
+      console.error('[Agent] Failed to persist state for user input:', checkpointError);
+    }
+
+    this.createSSEEmitter(state.userId, state.executionId).inputRequired({
+      question: state.pendingQuestion.question,
+      context: state.pendingQuestion.context,
+    });
+  }
+
+  /**
+   * Resume an execution paused by ask_user, injecting the user's answer
+   * and continuing the agent loop from the persisted checkpoint
+   */
+  public async resumeWithUserResponse(
+    options: ResumeWithResponseOptions
+  ): Promise<AgentExecutionResult> {
+    const { executionId, userId, response } = options;
+    const checkpointService = getCheckpointService();
+
+    const checkpoint = await checkpointService.getLatestCheckpoint(executionId);
+    const snapshot = (checkpoint?.partialResults as { agentState?: PausedAgentSnapshot } | undefined)?.agentState;
+
+    if (
+      !checkpoint ||
+      checkpoint.userId !== userId ||
+      checkpoint.checkpointReason !== 'awaiting_input' ||
+      !snapshot
+    ) {
+      throw new Error("No pending question found for this execution");
+    }
+
+    // One answer per question - the claim succeeds for only one of several
+    // concurrent responses, so the same state is never replayed twice
+    const resumed = await checkpointService.claimCheckpoint(checkpoint.checkpointId);
+    if (!resumed) {
+      throw new Error("Checkpoint is no longer resumable");
+    }
+
+    const state: AgentState = {
+      executionId,
+      userId,
+      taskDescription: snapshot.taskDescription,
+      plan: snapshot.plan,
+      currentPhaseId: snapshot.currentPhaseId,
+      thinkingSteps: snapshot.thinkingSteps,
+      iterations: snapshot.iterations,
+      errorCount: snapshot.errorCount,
+      consecutiveErrors: 0,
+      toolHistory: snapshot.toolHistory,
+      context: snapshot.context,
+      conversationHistory: snapshot.conversationHistory,
+      status: 'executing',
+      failureAttempts: [],
+      recoveryAttempts: 0,
+      resumedFromCheckpoint: resumed,
+      browserSessionId: snapshot.browserSessionId,
+      activeTabIds: [],
+      pendingUploads: [],
+      recoveryStrategiesUsed: [],
+      isPaused: false,
+      credentialsUsed: [],
+      pendingQuestion: snapshot.pendingQuestion,
+      pendingUserResponse: response,
+      llmProvider: snapshot.llmProvider,
+      llmModel: snapshot.llmModel,
+    };
+
+    const startTime = Date.now();
+    const emitter = this.createSSEEmitter(userId, executionId);
+    const taskType = inferTaskType(state.taskDescription);
+    const progressTracker = createProgressTracker(
+      executionId.toString(),
+      userId,
+      taskType,
+      state.plan?.estimatedSteps || estimateStepCount(state.taskDescription, taskType)
+    );
+    state.progressTracker = progressTracker;
+
+    try {
+      getExecutionControl().registerExecution(executionId.toString(), userId);
+    } catch (securityError) {
+      console.warn('[Security] Execution control setup error (continuing):', securityError);
+    }
+
+    try {
+      await this.updateExecutionRecord(state);
+      progressTracker.startPhase('execution');
+
+      return await this.continueExecution(state, {
+        emitter,
+        progressTracker,
+        maxIterations: snapshot.maxIterations,
+        startTime,
+      });
+    } catch (error) {
+      console.error("[Agent Execution] Fatal error after resume:", error);
       progressTracker.complete(false);
 
-      // Emit enhanced error event with explanation
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      emitExplainedError(userId, execution.id.toString(), errorMessage);
-
-      await db.update(taskExecutions)
-        .set({
-          status: "failed",
-          error: error instanceof Error ? error.message : "Unknown error",
-          completedAt: new Date(),
-        })
-        .where(eq(taskExecutions.id, execution.id));
+      emitExplainedError(userId, executionId.toString(), errorMessage);
+
+      const db = await getDb();
+      if (db) {
+        await db.update(taskExecutions)
+          .set({
+            status: "failed",
+            error: errorMessage,
+            completedAt: new Date(),
+          })
+          .where(eq(taskExecutions.id, executionId));
+      }
 
       throw error;
     }
@@ -13,13 +13,25 @@
  * - User role + subscription tier determine base permissions
  * - API keys can have scoped permissions (subset of user permissions)
  * - Audit logging for all permission decisions
+ *
+ * Shell access:
+ * - Shell commands run in a sandbox under the tenant's shell policy
+ *   (allowed commands, network, resource limits; see shellSandbox.service)
+ * - Admins always have shell access; execute_advanced tenants only when an
+ *   admin has enabled a shell policy for them
  */
 
 import type { User } from "../../drizzle/schema";
 import { getDb } from "../db";
 import { users, userSubscriptions, subscriptionTiers, apiKeys } from "../../drizzle/schema";
 import { agencyTasks, taskExecutions } from "../../drizzle/schema-webhooks";
+import { agentShellPolicies } from "../../drizzle/schema-agent";
 import { eq, and, gte, inArray, sql } from "drizzle-orm";
+import {
+  DEFAULT_SHELL_SANDBOX_POLICY,
+  shellSandboxPolicySchema,
+  type ShellSandboxPolicy,
+} from "./shellSandbox.service";
 
 // ========================================
 // PERMISSION TYPES
@@ -74,6 +86,11 @@ export const TOOL_RISK_CATEGORIES = {
   ],
 } as const;
 
+/**
+ * Tools that run shell commands; governed by the tenant's shell policy
+ */
+export const SHELL_TOOLS = ["shell_exec", "shell/execute"] as const;
+
 /**
  * Permission check result
  */
@@ -101,6 +118,16 @@ export interface UserPermissionContext {
   apiKeyScopes?: string[];
 }
 
+/**
+ * Tenant shell policy, falling back to the default when none is stored
+ */
+export interface TenantShellPolicy {
+  enabled: boolean;
+  policy: ShellSandboxPolicy;
+  isDefault: boolean;
+  updatedAt?: Date;
+}
+
 // ========================================
 // PERMISSION SERVICE
 // ========================================
@@ -119,6 +146,10 @@ export class AgentPermissionsService {
     return "dangerous";
   }
 
+  private isShellTool(toolName: string): boolean {
+    return (SHELL_TOOLS as readonly string[]).includes(toolName);
+  }
+
   /**
    * Determine user's permission level based on role and subscription
    */
@@ -311,6 +342,9 @@ export class AgentPermissionsService {
         if (toolCategory === "safe" || toolCategory === "moderate") {
           return { allowed: true, permissionLevel, toolCategory };
         }
+        if (this.isShellTool(toolName) && (await this.getShellPolicy(userId)).enabled) {
+          return { allowed: true, permissionLevel, toolCategory };
+        }
         return {
           allowed: false,
           reason: `Advanced execution level cannot execute dangerous tools. Admin role required.`,
@@ -432,6 +466,74 @@ export class AgentPermissionsService {
     };
   }
 
+  /**
+   * Get the tenant's shell policy
+   * Stored policies are merged over the defaults so new limits apply to old rows
+   */
+  async getShellPolicy(userId: number): Promise<TenantShellPolicy> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+
+    const [row] = await db
+      .select()
+      .from(agentShellPolicies)
+      .where(eq(agentShellPolicies.userId, userId))
+      .limit(1);
+
+    const stored = shellSandboxPolicySchema.partial().safeParse(row?.policy);
+    if (!row || !stored.success) {
+      return { enabled: false, policy: { ...DEFAULT_SHELL_SANDBOX_POLICY }, isDefault: true };
+    }
+
+    return {
+      enabled: row.enabled === true,
+      policy: { ...DEFAULT_SHELL_SANDBOX_POLICY, ...stored.data },
+      isDefault: false,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Create or update the tenant's shell policy
+   * Policy fields that are left out keep their current value
+   */
+  async setShellPolicy(
+    userId: number,
+    update: { enabled?: boolean; policy?: Partial<ShellSandboxPolicy> },
+    updatedBy: number
+  ): Promise<TenantShellPolicy> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+
+    const current = await this.getShellPolicy(userId);
+    const enabled = update.enabled ?? current.enabled;
+    const policy = shellSandboxPolicySchema.parse({ ...current.policy, ...update.policy });
+    const now = new Date();
+
+    await db
+      .insert(agentShellPolicies)
+      .values({ userId, enabled, policy, updatedBy, updatedAt: now })
+      .onConflictDoUpdate({
+        target: agentShellPolicies.userId,
+        set: { enabled, policy, updatedBy, updatedAt: now },
+      });
+
+    return { enabled, policy, isDefault: false, updatedAt: now };
+  }
+
+  /**
+   * Require shell access and return the policy commands must run under
+   */
+  async requireShellAccess(userId: number, apiKeyId?: number): Promise<ShellSandboxPolicy> {
+    await this.requirePermission(userId, SHELL_TOOLS[0], apiKeyId);
+    const { policy } = await this.getShellPolicy(userId);
+    return policy;
+  }
+
   /**
    * Validate permission before tool execution (middleware-style)
    */
@@ -582,6 +684,11 @@ export class AgentPermissionsService {
 
     if (permissionLevel === AgentPermissionLevel.ADMIN) {
       allowedTools.dangerous = [...TOOL_RISK_CATEGORIES.dangerous];
+    } else if (
+      permissionLevel === AgentPermissionLevel.EXECUTE_ADVANCED &&
+      (await this.getShellPolicy(userId)).enabled
+    ) {
+      allowedTools.dangerous = [...SHELL_TOOLS];
     }
 
     return {
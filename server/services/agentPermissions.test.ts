@@ -180,6 +180,52 @@ describe("AgentPermissionsService", () => {
     });
   });
 
+  describe("Shell Policies", () => {
+    // The mocked db answers every select with mockUserData, so the policy row
+    // is configured on the same object
+    it("should fall back to the default policy when none is stored", async () => {
+      const shellPolicy = await service.getShellPolicy(1);
+      expect(shellPolicy.enabled).toBe(false);
+      expect(shellPolicy.isDefault).toBe(true);
+      expect(shellPolicy.policy.allowNetwork).toBe(false);
+    });
+
+    it("should merge a stored policy over the defaults", async () => {
+      mockUserData.enabled = true;
+      mockUserData.policy = { allowedCommands: ["python3"], allowNetwork: true };
+
+      const shellPolicy = await service.getShellPolicy(1);
+      expect(shellPolicy.enabled).toBe(true);
+      expect(shellPolicy.policy.allowedCommands).toEqual(["python3"]);
+      expect(shellPolicy.policy.allowNetwork).toBe(true);
+      expect(shellPolicy.policy.memoryMb).toBe(512);
+    });
+
+    it("should deny shell tools to execute_advanced without an enabled policy", async () => {
+      mockUserData.tierSlug = "enterprise";
+      const result = await service.checkToolExecutionPermission(1, "shell_exec");
+      expect(result.allowed).toBe(false);
+    });
+
+    it("should allow shell tools to execute_advanced with an enabled policy", async () => {
+      mockUserData.tierSlug = "enterprise";
+      mockUserData.enabled = true;
+      mockUserData.policy = { allowedCommands: ["ls"] };
+
+      expect((await service.checkToolExecutionPermission(1, "shell_exec")).allowed).toBe(true);
+      expect((await service.checkToolExecutionPermission(1, "shell/execute")).allowed).toBe(true);
+      expect((await service.checkToolExecutionPermission(1, "file_write")).allowed).toBe(false);
+      expect(await service.requireShellAccess(1)).toMatchObject({ allowedCommands: ["ls"] });
+    });
+
+    it("should not grant shell access to execute_basic even with a policy", async () => {
+      mockUserData.enabled = true;
+      mockUserData.policy = { allowedCommands: ["ls"] };
+
+      await expect(service.requireShellAccess(1)).rejects.toThrow(PermissionDeniedError);
+    });
+  });
+
   describe("Permission Summary", () => {
     it("should return correct summary for execute_basic level", async () => {
       mockUserData.tierSlug = "starter";
@@ -176,6 +176,13 @@ export function buildErrorRecoveryPrompt(error: string, attemptCount: number): s
   return OBSERVATION_PROMPTS.failure('previous_action', error, attemptCount);
 }
 
+/**
+ * Build a prompt that hands the user's answer back to the agent after ask_user
+ */
+export function buildUserResponsePrompt(question: string, response: string): string {
+  return `You asked the user: "${question}"\n\nThe user responded:\n${response}\n\nContinue the task using this answer.`;
+}
+
 /**
  * Build a GHL-specific task prompt
  */
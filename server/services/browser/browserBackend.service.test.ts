@@ -0,0 +1,164 @@
+/**
+ * Browser Backend Service Tests
+ * Covers backend resolution order, local launch options and the local pool
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockDb, mockGetDb } = vi.hoisted(() => {
+  const chain: any = {};
+  for (const method of ["select", "from", "where"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.limit = vi.fn();
+
+  return { mockDb: chain, mockGetDb: vi.fn() };
+});
+
+vi.mock("../../db", () => ({
+  getDb: mockGetDb,
+}));
+
+import {
+  resolveBrowserBackend,
+  createLocalSessionId,
+  isLocalSessionId,
+  getLocalBrowserLaunchOptions,
+  LocalBrowserPool,
+} from "./browserBackend.service";
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Browser Backend Service", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetDb.mockResolvedValue(mockDb);
+    mockDb.limit.mockResolvedValue([]);
+    process.env.BROWSERBASE_API_KEY = "bb-key";
+    process.env.BROWSERBASE_PROJECT_ID = "bb-project";
+    process.env.LOCAL_BROWSER_ENABLED = "true";
+    delete process.env.BROWSER_BACKEND;
+    delete process.env.LOCAL_BROWSER_CDP_URL;
+    delete process.env.LOCAL_BROWSER_SANDBOX;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  // ========================================
+  // RESOLUTION TESTS
+  // ========================================
+
+  describe("resolveBrowserBackend", () => {
+    it("should prefer the backend requested for the session", async () => {
+      await expect(resolveBrowserBackend({ requested: "local", userId: 1 })).resolves.toBe("local");
+      expect(mockGetDb).not.toHaveBeenCalled();
+    });
+
+    it("should use the tenant default stored as a JSON string", async () => {
+      mockDb.limit.mockResolvedValueOnce([{ defaultBrowserConfig: JSON.stringify({ backend: "local" }) }]);
+
+      await expect(resolveBrowserBackend({ userId: 1 })).resolves.toBe("local");
+    });
+
+    it("should fall back to BROWSER_BACKEND, then Browserbase when configured", async () => {
+      process.env.BROWSER_BACKEND = "local";
+      await expect(resolveBrowserBackend({ userId: 1 })).resolves.toBe("local");
+
+      delete process.env.BROWSER_BACKEND;
+      await expect(resolveBrowserBackend()).resolves.toBe("browserbase");
+    });
+
+    it("should default to local without Browserbase credentials when local browsers are enabled", async () => {
+      delete process.env.BROWSERBASE_API_KEY;
+
+      await expect(resolveBrowserBackend()).resolves.toBe("local");
+      await expect(resolveBrowserBackend({ requested: "browserbase" })).rejects.toThrow(
+        "BROWSERBASE_API_KEY and BROWSERBASE_PROJECT_ID are required"
+      );
+    });
+
+    it("should never fall back to local browsers unless the operator enables them", async () => {
+      delete process.env.LOCAL_BROWSER_ENABLED;
+      delete process.env.BROWSERBASE_API_KEY;
+
+      await expect(resolveBrowserBackend()).rejects.toThrow(
+        "BROWSERBASE_API_KEY and BROWSERBASE_PROJECT_ID are required"
+      );
+      await expect(resolveBrowserBackend({ requested: "local" })).rejects.toThrow("Local browsers are disabled");
+
+      mockDb.limit.mockResolvedValueOnce([{ defaultBrowserConfig: { backend: "local" } }]);
+      await expect(resolveBrowserBackend({ userId: 1 })).rejects.toThrow("Local browsers are disabled");
+    });
+  });
+
+  // ========================================
+  // LOCAL SESSION TESTS
+  // ========================================
+
+  describe("local sessions", () => {
+    it("should tell local session IDs apart from Browserbase IDs", () => {
+      expect(isLocalSessionId(createLocalSessionId())).toBe(true);
+      expect(isLocalSessionId("2d9c4e1a-5b6f-4c3d-9e8f-7a6b5c4d3e2f")).toBe(false);
+    });
+
+    it("should connect to a self-hosted pool over CDP when configured", () => {
+      process.env.LOCAL_BROWSER_CDP_URL = "ws://chromium-pool:9222";
+
+      const options = getLocalBrowserLaunchOptions("local_1");
+
+      expect(options).toMatchObject({ cdpUrl: "ws://chromium-pool:9222", acceptDownloads: true });
+      expect(options.downloadsPath).toMatch(/local_1$/);
+      expect(options.headless).toBeUndefined();
+    });
+
+    it("should launch headless Chromium on this host by default", () => {
+      const options = getLocalBrowserLaunchOptions("local_2", { viewport: { width: 1280, height: 720 } });
+
+      expect(options).toMatchObject({ headless: true, chromiumSandbox: true, viewport: { width: 1280, height: 720 } });
+      expect(options.cdpUrl).toBeUndefined();
+    });
+
+    it("should only turn off the Chromium sandbox when asked to", () => {
+      process.env.LOCAL_BROWSER_SANDBOX = "false";
+
+      expect(getLocalBrowserLaunchOptions("local_3").chromiumSandbox).toBe(false);
+    });
+
+    it("should cap concurrent local browsers", () => {
+      const pool = new LocalBrowserPool(2);
+      pool.acquire("local_a");
+      pool.acquire("local_b");
+      pool.acquire("local_b");
+
+      expect(() => pool.acquire("local_c")).toThrow("Local browser pool is full (2 sessions)");
+
+      pool.release("local_a");
+      pool.acquire("local_c");
+      expect(pool.size).toBe(2);
+    });
+
+    it("should cap local browsers per user", () => {
+      const pool = new LocalBrowserPool(5, 2);
+      pool.acquire("local_a", 1);
+      pool.acquire("local_b", 1);
+
+      expect(() => pool.acquire("local_c", 1)).toThrow("Local browser limit reached (2 sessions per user)");
+
+      pool.acquire("local_d", 2);
+      pool.release("local_a");
+      pool.acquire("local_c", 1);
+      expect(pool.countForUser(1)).toBe(2);
+      expect(pool.size).toBe(3);
+    });
+  });
+});
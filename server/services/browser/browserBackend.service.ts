@@ -0,0 +1,284 @@
+/**
+ * Browser Backend Service
+ *
+ * Chooses where a browser session runs:
+ * - browserbase: Browserbase cloud browsers (billed per session minute)
+ * - local: Playwright Chromium launched on this host, or a self-hosted
+ *   Chromium pool reached over CDP (LOCAL_BROWSER_CDP_URL)
+ *
+ * Resolution order: the backend requested for the session, the tenant's
+ * default (userPreferences.defaultBrowserConfig.backend), BROWSER_BACKEND,
+ * then Browserbase. Local browsers run on infrastructure the operator owns,
+ * so they are only available when LOCAL_BROWSER_ENABLED=true.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { eq } from 'drizzle-orm';
+import type { LocalBrowserLaunchOptions } from '@browserbasehq/stagehand';
+import { getDb } from '../../db';
+import { userPreferences } from '../../../drizzle/schema';
+
+// ========================================
+// TYPES
+// ========================================
+
+export const BROWSER_BACKENDS = ['browserbase', 'local'] as const;
+
+export type BrowserBackend = typeof BROWSER_BACKENDS[number];
+
+export interface LocalBrowserSettings {
+  viewport?: { width: number; height: number };
+  headless?: boolean;
+}
+
+export interface LocalDownload {
+  filename: string;
+  path: string;
+  timestamp: Date;
+  size: number;
+}
+
+const LOCAL_SESSION_PREFIX = 'local_';
+
+function isBrowserBackend(value: unknown): value is BrowserBackend {
+  return typeof value === 'string' && (BROWSER_BACKENDS as readonly string[]).includes(value);
+}
+
+// ========================================
+// BACKEND RESOLUTION
+// ========================================
+
+/**
+ * Whether Browserbase credentials are configured
+ */
+export function isBrowserbaseConfigured(): boolean {
+  return !!(process.env.BROWSERBASE_API_KEY && process.env.BROWSERBASE_PROJECT_ID);
+}
+
+/**
+ * Whether the operator allows local browsers (LOCAL_BROWSER_ENABLED, off by default)
+ */
+export function isLocalBrowserEnabled(): boolean {
+  return process.env.LOCAL_BROWSER_ENABLED === 'true';
+}
+
+/**
+ * Get a tenant's default backend from their browser preferences
+ */
+export async function getTenantBrowserBackend(userId: number): Promise<BrowserBackend | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [preferences] = await db
+    .select({ defaultBrowserConfig: userPreferences.defaultBrowserConfig })
+    .from(userPreferences)
+    .where(eq(userPreferences.userId, userId))
+    .limit(1);
+
+  // Preferences are written as JSON strings by the settings router
+  let config = preferences?.defaultBrowserConfig as Record<string, unknown> | string | null | undefined;
+  if (typeof config === 'string') {
+    try {
+      config = JSON.parse(config) as Record<string, unknown>;
+    } catch {
+      config = undefined;
+    }
+  }
+
+  const backend = config && typeof config === 'object' ? config.backend : undefined;
+  return isBrowserBackend(backend) ? backend : undefined;
+}
+
+/**
+ * Resolve the backend for a new session
+ * Throws when Browserbase is chosen but not configured, or local is chosen
+ * but not enabled
+ */
+export async function resolveBrowserBackend(options: {
+  requested?: BrowserBackend;
+  userId?: number;
+} = {}): Promise<BrowserBackend> {
+  let backend = options.requested;
+
+  if (!backend && options.userId) {
+    try {
+      backend = await getTenantBrowserBackend(options.userId);
+    } catch (error) {
+      console.warn('[BrowserBackend] Failed to load tenant browser preference:', error);
+    }
+  }
+
+  if (!backend && isBrowserBackend(process.env.BROWSER_BACKEND)) {
+    backend = process.env.BROWSER_BACKEND;
+  }
+
+  if (!backend) {
+    backend = !isBrowserbaseConfigured() && isLocalBrowserEnabled() ? 'local' : 'browserbase';
+  }
+
+  if (backend === 'browserbase' && !isBrowserbaseConfigured()) {
+    throw new Error('BROWSERBASE_API_KEY and BROWSERBASE_PROJECT_ID are required');
+  }
+
+  if (backend === 'local' && !isLocalBrowserEnabled()) {
+    throw new Error('Local browsers are disabled. Set LOCAL_BROWSER_ENABLED=true to allow them.');
+  }
+
+  return backend;
+}
+
+// ========================================
+// LOCAL SESSIONS
+// ========================================
+
+/**
+ * Create an ID for a local session
+ * Browserbase assigns its own session IDs; local IDs are prefixed so the
+ * backend can be told from the ID alone
+ */
+export function createLocalSessionId(): string {
+  return `${LOCAL_SESSION_PREFIX}${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+}
+
+export function isLocalSessionId(sessionId: string): boolean {
+  return sessionId.startsWith(LOCAL_SESSION_PREFIX);
+}
+
+/**
+ * Directory local Chromium saves a session's downloads to
+ */
+export function getLocalDownloadsDir(sessionId: string): string {
+  const baseDir = process.env.LOCAL_BROWSER_DOWNLOADS_DIR || path.join(os.tmpdir(), 'browser-downloads');
+  return path.join(baseDir, sessionId);
+}
+
+/**
+ * Stagehand launch options for a local session
+ * Connects to the self-hosted pool when LOCAL_BROWSER_CDP_URL is set,
+ * otherwise launches Chromium on this host
+ */
+export function getLocalBrowserLaunchOptions(
+  sessionId: string,
+  settings: LocalBrowserSettings = {}
+): LocalBrowserLaunchOptions {
+  const viewport = settings.viewport || { width: 1920, height: 1080 };
+  const downloadsPath = getLocalDownloadsDir(sessionId);
+
+  if (process.env.LOCAL_BROWSER_CDP_URL) {
+    return {
+      cdpUrl: process.env.LOCAL_BROWSER_CDP_URL,
+      viewport,
+      downloadsPath,
+      acceptDownloads: true,
+    };
+  }
+
+  return {
+    headless: settings.headless ?? process.env.LOCAL_BROWSER_HEADLESS !== 'false',
+    executablePath: process.env.LOCAL_BROWSER_EXECUTABLE_PATH || undefined,
+    // Containers that run Chromium as root can opt out with LOCAL_BROWSER_SANDBOX=false
+    chromiumSandbox: process.env.LOCAL_BROWSER_SANDBOX !== 'false',
+    viewport,
+    downloadsPath,
+    acceptDownloads: true,
+  };
+}
+
+/**
+ * List files downloaded by a local session, newest first
+ */
+export async function listLocalDownloads(sessionId: string): Promise<LocalDownload[]> {
+  const dir = getLocalDownloadsDir(sessionId);
+
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const downloads = await Promise.all(
+    entries.map(async (filename) => {
+      const filePath = path.join(dir, filename);
+      const stats = await fs.stat(filePath);
+      return stats.isFile()
+        ? { filename, path: filePath, timestamp: stats.mtime, size: stats.size }
+        : null;
+    })
+  );
+
+  return downloads
+    .filter((d): d is LocalDownload => d !== null)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+/**
+ * Remove a local session's download directory
+ */
+export async function removeLocalDownloads(sessionId: string): Promise<void> {
+  await fs.rm(getLocalDownloadsDir(sessionId), { recursive: true, force: true });
+}
+
+// ========================================
+// LOCAL BROWSER POOL
+// ========================================
+
+/**
+ * Caps concurrent local browsers so one host (or the self-hosted pool)
+ * isn't overloaded, and so one user can't take every slot. Sizes come from
+ * LOCAL_BROWSER_MAX_SESSIONS and LOCAL_BROWSER_MAX_SESSIONS_PER_USER.
+ */
+export class LocalBrowserPool {
+  private active = new Map<string, number | undefined>();
+
+  constructor(
+    private maxSessions: number = Number(process.env.LOCAL_BROWSER_MAX_SESSIONS) || 3,
+    private maxSessionsPerUser: number = Number(process.env.LOCAL_BROWSER_MAX_SESSIONS_PER_USER) || 1
+  ) {}
+
+  /**
+   * Reserve a slot for a session
+   */
+  acquire(sessionId: string, userId?: number): void {
+    if (this.active.has(sessionId)) return;
+    if (this.active.size >= this.maxSessions) {
+      throw new Error(`Local browser pool is full (${this.maxSessions} sessions). Close a session and try again.`);
+    }
+    if (userId !== undefined && this.countForUser(userId) >= this.maxSessionsPerUser) {
+      throw new Error(
+        `Local browser limit reached (${this.maxSessionsPerUser} sessions per user). Close a session and try again.`
+      );
+    }
+    this.active.set(sessionId, userId);
+  }
+
+  /**
+   * Free a session's slot
+   */
+  release(sessionId: string): void {
+    this.active.delete(sessionId);
+  }
+
+  /**
+   * Number of slots held by a user
+   */
+  countForUser(userId: number): number {
+    let count = 0;
+    for (const owner of this.active.values()) {
+      if (owner === userId) count++;
+    }
+    return count;
+  }
+
+  get size(): number {
+    return this.active.size;
+  }
+
+  get capacity(): number {
+    return this.maxSessions;
+  }
+}
+
+export const localBrowserPool = new LocalBrowserPool();
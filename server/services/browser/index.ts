@@ -34,8 +34,20 @@ export {
   type VerificationConfig,
   type DOMChange,
   type ScreenshotComparison,
+  type ScreenRegion,
+  compareScreenshots,
 } from './visualVerification.service';
 
+// Browser backend selection (Browserbase or local Chromium)
+export {
+  localBrowserPool,
+  resolveBrowserBackend,
+  isLocalSessionId,
+  BROWSER_BACKENDS,
+  type BrowserBackend,
+  type LocalDownload,
+} from './browserBackend.service';
+
 // Getter functions for lazy initialization
 import { multiTabService } from './multiTab.service';
 import { fileUploadService } from './fileUpload.service';
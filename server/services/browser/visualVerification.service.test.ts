@@ -0,0 +1,210 @@
+/**
+ * Visual Verification Service Tests
+ * Covers pixel diffing, ignore regions, before/after screenshot verification
+ * and smartVerify's check that a save took effect
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { PNG } from "pngjs";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockStagehandService } = vi.hoisted(() => ({
+  mockStagehandService: {
+    screenshot: vi.fn(),
+    getCurrentUrl: vi.fn(),
+    getElementRegions: vi.fn(),
+    extract: vi.fn(),
+  },
+}));
+
+vi.mock("../stagehand.service", () => ({
+  stagehandService: mockStagehandService,
+}));
+
+import { compareScreenshots, createVisualVerificationService } from "./visualVerification.service";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+type Box = { x: number; y: number; width: number; height: number };
+
+/**
+ * White PNG with black boxes drawn on it
+ */
+const makePng = (width: number, height: number, boxes: Box[] = []): Buffer => {
+  const png = new PNG({ width, height });
+  png.data.fill(255);
+  for (const box of boxes) {
+    for (let y = box.y; y < box.y + box.height; y++) {
+      for (let x = box.x; x < box.x + box.width; x++) {
+        const i = (y * width + x) * 4;
+        png.data[i] = png.data[i + 1] = png.data[i + 2] = 0;
+      }
+    }
+  }
+  return PNG.sync.write(png);
+};
+
+const screenshotResult = (screenshot: Buffer) => ({
+  success: true,
+  screenshot,
+  base64: screenshot.toString("base64"),
+});
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Visual Verification", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStagehandService.getCurrentUrl.mockResolvedValue("https://app.gohighlevel.com/settings");
+    mockStagehandService.getElementRegions.mockResolvedValue([]);
+  });
+
+  // ========================================
+  // PIXEL DIFF TESTS
+  // ========================================
+
+  describe("compareScreenshots", () => {
+    it("should report identical screenshots as unchanged", () => {
+      const image = makePng(64, 64, [{ x: 10, y: 10, width: 5, height: 5 }]);
+
+      const result = compareScreenshots(image, image);
+
+      expect(result).toMatchObject({ similarity: 1, pixelDifference: 0, changedPixelRatio: 0, regions: [] });
+    });
+
+    it("should box separate changed areas", () => {
+      const before = makePng(100, 100);
+      const after = makePng(100, 100, [
+        { x: 0, y: 0, width: 10, height: 10 },
+        { x: 70, y: 60, width: 20, height: 20 },
+      ]);
+
+      const result = compareScreenshots(before, after);
+
+      expect(result.pixelDifference).toBe(500);
+      expect(result.changedPixelRatio).toBeCloseTo(0.05);
+      expect(result.regions).toEqual([
+        { x: 64, y: 48, width: 32, height: 32, differencePercentage: 39.06 },
+        { x: 0, y: 0, width: 16, height: 16, differencePercentage: 39.06 },
+      ]);
+      expect(PNG.sync.read(Buffer.from(result.diffImage!, "base64")).width).toBe(100);
+    });
+
+    it("should skip ignored regions", () => {
+      const before = makePng(100, 100);
+      const after = makePng(100, 100, [
+        { x: 0, y: 0, width: 10, height: 10 },
+        { x: 80, y: 0, width: 20, height: 10 },
+      ]);
+
+      const result = compareScreenshots(before, after, {
+        ignoreRegions: [{ x: 80, y: 0, width: 20, height: 10 }],
+        includeDiffImage: false,
+      });
+
+      expect(result.pixelDifference).toBe(100);
+      expect(result.changedPixelRatio).toBeCloseTo(100 / 9800);
+      expect(result.regions).toHaveLength(1);
+      expect(result.diffImage).toBeUndefined();
+    });
+
+    it("should count area outside a smaller screenshot as changed", () => {
+      const result = compareScreenshots(makePng(100, 100), makePng(100, 80));
+
+      expect(result).toMatchObject({ width: 100, height: 100, pixelDifference: 2000 });
+    });
+  });
+
+  // ========================================
+  // BEFORE/AFTER VERIFICATION TESTS
+  // ========================================
+
+  describe("screenshot_comparison", () => {
+    it("should require a captured before state", async () => {
+      const service = createVisualVerificationService();
+
+      const result = await service.verify("session-1", { method: "screenshot_comparison", retries: 1 });
+
+      expect(result.success).toBe(false);
+      expect(result.details).toContain("captureBeforeState");
+    });
+
+    it("should pass when the page visibly changed after the action", async () => {
+      const service = createVisualVerificationService();
+      mockStagehandService.screenshot
+        .mockResolvedValueOnce(screenshotResult(makePng(200, 100)))
+        .mockResolvedValueOnce(screenshotResult(makePng(200, 100, [{ x: 150, y: 10, width: 40, height: 20 }])));
+
+      const { stateId } = await service.captureBeforeState("session-1");
+      const result = await service.verify("session-1", { method: "screenshot_comparison", stateId, retries: 1 });
+
+      expect(result.success).toBe(true);
+      expect(result.evidence?.changedPixelRatio).toBeCloseTo(0.04);
+      expect(result.evidence?.changedRegions).toHaveLength(1);
+      expect(result.evidence?.diffImage).toEqual(expect.any(String));
+    });
+
+    it("should resolve ignore selectors on the current page", async () => {
+      const service = createVisualVerificationService();
+      mockStagehandService.screenshot
+        .mockResolvedValueOnce(screenshotResult(makePng(200, 100)))
+        .mockResolvedValueOnce(screenshotResult(makePng(200, 100, [{ x: 150, y: 10, width: 40, height: 20 }])));
+      mockStagehandService.getElementRegions.mockResolvedValueOnce([{ x: 140, y: 0, width: 60, height: 40 }]);
+
+      await service.captureBeforeState("session-1");
+      const result = await service.verify("session-1", {
+        method: "screenshot_comparison",
+        ignoreSelectors: [".clock"],
+        retries: 1,
+      });
+
+      expect(mockStagehandService.getElementRegions).toHaveBeenCalledWith("session-1", [".clock"]);
+      expect(result.success).toBe(false);
+      expect(result.details).toContain("expected a visible change");
+    });
+  });
+
+  // ========================================
+  // SMART VERIFY TESTS
+  // ========================================
+
+  describe("smartVerify", () => {
+    it("should fail a save that left the page unchanged without asking the AI", async () => {
+      const service = createVisualVerificationService();
+      const unchanged = makePng(200, 100, [{ x: 10, y: 10, width: 30, height: 10 }]);
+      mockStagehandService.screenshot.mockResolvedValue(screenshotResult(unchanged));
+      vi.spyOn(service as any, "delay").mockResolvedValue(undefined);
+
+      await service.captureBeforeState("session-1");
+      const result = await service.smartVerify("session-1", "Click Save on the GHL workflow");
+
+      expect(result).toMatchObject({ success: false, method: "screenshot_comparison" });
+      expect(mockStagehandService.extract).not.toHaveBeenCalled();
+    });
+
+    it("should confirm a visible save with the AI check", async () => {
+      const service = createVisualVerificationService();
+      mockStagehandService.screenshot
+        .mockResolvedValueOnce(screenshotResult(makePng(200, 100)))
+        .mockResolvedValueOnce(screenshotResult(makePng(200, 100, [{ x: 120, y: 70, width: 70, height: 20 }])));
+      mockStagehandService.extract.mockResolvedValueOnce({
+        success: true,
+        data: { verified: true, confidence: 0.95, evidence: "Saved toast", reasoning: "Toast says Saved" },
+      });
+
+      await service.captureBeforeState("session-1");
+      const result = await service.smartVerify("session-1", "save the workflow", "the workflow was saved");
+
+      expect(result.success).toBe(true);
+      expect(result.confidence).toBe(0.95);
+      expect(result.evidence).toMatchObject({ actualValue: "Saved toast", diffImage: expect.any(String) });
+    });
+  });
+});
@@ -2,7 +2,7 @@
  * Visual Verification Service
  *
  * Provides visual verification capabilities:
- * - Screenshot comparison (before/after)
+ * - Screenshot comparison (before/after) with pixel diffing
  * - Element presence/state verification
  * - Visual regression detection
  * - Action success confirmation
@@ -11,6 +11,8 @@
 
 import { stagehandService } from '../stagehand.service';
 import * as crypto from 'crypto';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
 
 // ========================================
 // TYPES
@@ -28,6 +30,9 @@ export interface VerificationResult {
     expectedValue?: string;
     actualValue?: string;
     changes?: DOMChange[];
+    diffImage?: string; // base64 PNG highlighting changed pixels
+    changedPixelRatio?: number;
+    changedRegions?: ScreenshotComparison['regions'];
   };
   timestamp: Date;
 }
@@ -51,6 +56,19 @@ export interface VerificationConfig {
   expectedValue?: string;
   expectedUrl?: string;
   captureEvidence?: boolean;
+  // Screenshot comparison
+  stateId?: string; // From captureBeforeState; defaults to the latest capture
+  expectChange?: boolean; // Default true: the action should visibly change the page
+  minChangedRatio?: number; // Share of pixels that must change to count as a change (0-1)
+  ignoreRegions?: ScreenRegion[]; // Clocks, ads, carousels...
+  ignoreSelectors?: string[]; // Resolved to regions on the current page
+}
+
+export interface ScreenRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface DOMChange {
@@ -63,6 +81,9 @@ export interface DOMChange {
 export interface ScreenshotComparison {
   similarity: number; // 0-1
   pixelDifference: number;
+  changedPixelRatio: number; // 0-1, of the compared (non-ignored) pixels
+  width: number;
+  height: number;
   regions: Array<{
     x: number;
     y: number;
@@ -70,6 +91,19 @@ export interface ScreenshotComparison {
     height: number;
     differencePercentage: number;
   }>;
+  diffImage?: string; // base64 PNG: changed pixels in red over a faded copy of the before image
+}
+
+export interface ScreenshotCompareOptions {
+  ignoreRegions?: ScreenRegion[];
+  pixelThreshold?: number; // Per-pixel color tolerance (0-1), smaller is stricter
+  includeDiffImage?: boolean;
+}
+
+interface BeforeState {
+  screenshot: Buffer;
+  timestamp: Date;
+  url: string;
 }
 
 // ========================================
@@ -81,6 +115,180 @@ const DEFAULT_RETRIES = 3;
 const DEFAULT_THRESHOLD = 0.8;
 const RETRY_DELAY = 1000;
 
+// Screenshot diffing
+const DEFAULT_MIN_CHANGED_RATIO = 0.001; // 0.1% of the viewport
+const DEFAULT_PIXEL_THRESHOLD = 0.1;
+const DIFF_COLOR: [number, number, number] = [255, 0, 0];
+const REGION_CELL_SIZE = 16; // Changed pixels are grouped on a grid before boxing
+const MAX_DIFF_REGIONS = 20;
+const MAX_BEFORE_STATES = 5; // Per session
+
+// ========================================
+// SCREENSHOT DIFFING
+// ========================================
+
+/**
+ * Copy an image onto a width x height canvas; uncovered area stays transparent
+ */
+function toCanvas(png: PNG, width: number, height: number): Buffer {
+  if (png.width === width && png.height === height) {
+    return Buffer.from(png.data);
+  }
+
+  const canvas = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < png.height; y++) {
+    png.data.copy(canvas, y * width * 4, y * png.width * 4, (y + 1) * png.width * 4);
+  }
+  return canvas;
+}
+
+/**
+ * Group changed pixels into bounding boxes of neighbouring grid cells
+ */
+function findChangedRegions(
+  changed: Uint8Array,
+  width: number,
+  height: number
+): ScreenshotComparison['regions'] {
+  const cols = Math.ceil(width / REGION_CELL_SIZE);
+  const rows = Math.ceil(height / REGION_CELL_SIZE);
+  const cellCounts = new Uint32Array(cols * rows);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (changed[y * width + x]) {
+        cellCounts[Math.floor(y / REGION_CELL_SIZE) * cols + Math.floor(x / REGION_CELL_SIZE)]++;
+      }
+    }
+  }
+
+  const visited = new Uint8Array(cols * rows);
+  const regions: Array<ScreenshotComparison['regions'][number] & { changedPixels: number }> = [];
+
+  for (let start = 0; start < cellCounts.length; start++) {
+    if (!cellCounts[start] || visited[start]) continue;
+
+    // Flood fill over touching cells (including diagonals)
+    let minCol = cols, minRow = rows, maxCol = 0, maxRow = 0, changedPixels = 0;
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+      changedPixels += cellCounts[cell];
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= cols || r >= rows) continue;
+          const next = r * cols + c;
+          if (cellCounts[next] && !visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    const x = minCol * REGION_CELL_SIZE;
+    const y = minRow * REGION_CELL_SIZE;
+    const regionWidth = Math.min((maxCol + 1) * REGION_CELL_SIZE, width) - x;
+    const regionHeight = Math.min((maxRow + 1) * REGION_CELL_SIZE, height) - y;
+
+    regions.push({
+      x,
+      y,
+      width: regionWidth,
+      height: regionHeight,
+      differencePercentage: Math.round((changedPixels / (regionWidth * regionHeight)) * 10000) / 100,
+      changedPixels,
+    });
+  }
+
+  return regions
+    .sort((a, b) => b.changedPixels - a.changedPixels)
+    .slice(0, MAX_DIFF_REGIONS)
+    .map(({ changedPixels: _changedPixels, ...region }) => region);
+}
+
+/**
+ * Compare two PNG screenshots pixel by pixel
+ * Ignored regions are blanked in both images so they never count as changes.
+ * Screenshots of different sizes are compared on the larger canvas, so the
+ * uncovered area counts as changed.
+ */
+export function compareScreenshots(
+  before: Buffer,
+  after: Buffer,
+  options: ScreenshotCompareOptions = {}
+): ScreenshotComparison {
+  const beforePng = PNG.sync.read(before);
+  const afterPng = PNG.sync.read(after);
+  const width = Math.max(beforePng.width, afterPng.width);
+  const height = Math.max(beforePng.height, afterPng.height);
+
+  const img1 = toCanvas(beforePng, width, height);
+  const img2 = toCanvas(afterPng, width, height);
+
+  // Blank ignored regions in both images
+  const ignored = new Uint8Array(width * height);
+  for (const region of options.ignoreRegions || []) {
+    const x0 = Math.max(0, Math.floor(region.x));
+    const y0 = Math.max(0, Math.floor(region.y));
+    const x1 = Math.min(width, Math.ceil(region.x + region.width));
+    const y1 = Math.min(height, Math.ceil(region.y + region.height));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const pixel = y * width + x;
+        ignored[pixel] = 1;
+        img1.fill(0, pixel * 4, pixel * 4 + 4);
+        img2.fill(0, pixel * 4, pixel * 4 + 4);
+      }
+    }
+  }
+
+  const diff = new PNG({ width, height });
+  const pixelDifference = pixelmatch(img1, img2, diff.data, width, height, {
+    threshold: options.pixelThreshold ?? DEFAULT_PIXEL_THRESHOLD,
+    diffColor: DIFF_COLOR,
+    alpha: 0.1,
+  });
+
+  // Unchanged pixels are drawn in grayscale, so pure diff color marks a change
+  const changed = new Uint8Array(width * height);
+  let ignoredPixels = 0;
+  for (let pixel = 0; pixel < changed.length; pixel++) {
+    if (ignored[pixel]) {
+      ignoredPixels++;
+      continue;
+    }
+    const i = pixel * 4;
+    if (diff.data[i] === DIFF_COLOR[0] && diff.data[i + 1] === DIFF_COLOR[1] && diff.data[i + 2] === DIFF_COLOR[2]) {
+      changed[pixel] = 1;
+    }
+  }
+
+  const comparedPixels = width * height - ignoredPixels;
+  const changedPixelRatio = comparedPixels > 0 ? pixelDifference / comparedPixels : 0;
+
+  return {
+    similarity: 1 - changedPixelRatio,
+    pixelDifference,
+    changedPixelRatio,
+    width,
+    height,
+    regions: findChangedRegions(changed, width, height),
+    diffImage: options.includeDiffImage === false ? undefined : PNG.sync.write(diff).toString('base64'),
+  };
+}
+
 // ========================================
 // VISUAL VERIFICATION SERVICE
 // ========================================
@@ -101,6 +309,7 @@ class VisualVerificationService {
   ): Promise<VerificationResult> {
     const timeout = config.timeout || DEFAULT_TIMEOUT;
     const retries = config.retries || DEFAULT_RETRIES;
+    let lastResult: VerificationResult | undefined;
 
     for (let attempt = 0; attempt < retries; attempt++) {
       try {
@@ -147,6 +356,7 @@ class VisualVerificationService {
 
         // Store verification result
         this.storeVerificationResult(sessionId, result);
+        lastResult = result;
 
         if (result.success) {
           return result;
@@ -173,7 +383,8 @@ class VisualVerificationService {
       }
     }
 
-    return {
+    // Keep the last attempt's details and evidence
+    return lastResult || {
       success: false,
       confidence: 0,
       method: config.method,
@@ -461,22 +672,32 @@ class VisualVerificationService {
 
   /**
    * Compare screenshots before and after an action
+   * Uses the state from captureBeforeState (config.stateId, or the latest one)
    */
   private async verifyScreenshotComparison(
     sessionId: string,
     config: VerificationConfig
   ): Promise<VerificationResult> {
     try {
-      // This is a simplified implementation
-      // A full implementation would store the "before" screenshot
-      // and compare it with the current state
+      const beforeState = this.findBeforeState(sessionId, config.stateId);
+      if (!beforeState) {
+        return {
+          success: false,
+          confidence: 0,
+          method: 'screenshot_comparison',
+          details: config.stateId
+            ? `Before state not found: ${config.stateId}`
+            : 'No before state captured. Call captureBeforeState before the action.',
+          timestamp: new Date(),
+        };
+      }
 
       const screenshotResult = await stagehandService.screenshot(sessionId, {
         fullPage: false,
         returnBase64: true,
       });
 
-      if (!screenshotResult.success || !screenshotResult.base64) {
+      if (!screenshotResult.success || !screenshotResult.screenshot) {
         return {
           success: false,
           confidence: 0,
@@ -486,15 +707,32 @@ class VisualVerificationService {
         };
       }
 
-      // For now, just confirm we can take a screenshot
-      // A real implementation would compare pixel data
+      const ignoreRegions = [...(config.ignoreRegions || [])];
+      if (config.ignoreSelectors?.length) {
+        ignoreRegions.push(...await stagehandService.getElementRegions(sessionId, config.ignoreSelectors));
+      }
+
+      const comparison = compareScreenshots(beforeState.screenshot, screenshotResult.screenshot, { ignoreRegions });
+
+      const expectChange = config.expectChange ?? true;
+      const changed = comparison.changedPixelRatio >= (config.minChangedRatio ?? DEFAULT_MIN_CHANGED_RATIO);
+      const success = expectChange ? changed : !changed;
+
+      const summary = `${(comparison.changedPixelRatio * 100).toFixed(2)}% of pixels changed across ${comparison.regions.length} region(s)`;
+
       return {
-        success: true,
-        confidence: 0.7,
+        success,
+        confidence: success ? 0.9 : 0.1,
         method: 'screenshot_comparison',
-        details: 'Screenshot captured successfully (comparison pending full implementation)',
+        details: changed === expectChange
+          ? summary
+          : `${summary}; expected ${expectChange ? 'a visible change' : 'no visible change'}`,
         evidence: {
+          screenshotBefore: config.captureEvidence ? beforeState.screenshot.toString('base64') : undefined,
           screenshotAfter: screenshotResult.base64,
+          diffImage: comparison.diffImage,
+          changedPixelRatio: comparison.changedPixelRatio,
+          changedRegions: comparison.regions,
         },
         timestamp: new Date(),
       };
@@ -526,14 +764,16 @@ class VisualVerificationService {
 
       const stateId = `state-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-      // Store the state for later comparison
-      // In a full implementation, this would be stored in a cache/database
+      // Store the state for later comparison, keeping only the most recent captures
       const beforeStates = this.getBeforeStates(sessionId);
       beforeStates.set(stateId, {
         screenshot: screenshotResult.screenshot,
         timestamp: new Date(),
         url: await this.getCurrentUrl(sessionId),
       });
+      while (beforeStates.size > MAX_BEFORE_STATES) {
+        beforeStates.delete(beforeStates.keys().next().value!);
+      }
 
       return { success: true, stateId };
     } catch (error) {
@@ -544,15 +784,22 @@ class VisualVerificationService {
     }
   }
 
-  private beforeStates: Map<string, Map<string, any>> = new Map();
+  private beforeStates: Map<string, Map<string, BeforeState>> = new Map();
 
-  private getBeforeStates(sessionId: string): Map<string, any> {
+  private getBeforeStates(sessionId: string): Map<string, BeforeState> {
     if (!this.beforeStates.has(sessionId)) {
       this.beforeStates.set(sessionId, new Map());
     }
     return this.beforeStates.get(sessionId)!;
   }
 
+  private findBeforeState(sessionId: string, stateId?: string): BeforeState | undefined {
+    const states = this.beforeStates.get(sessionId);
+    if (!states) return undefined;
+    if (stateId) return states.get(stateId);
+    return Array.from(states.values()).pop();
+  }
+
   private async getCurrentUrl(sessionId: string): Promise<string> {
     try {
       const url = await stagehandService.getCurrentUrl(sessionId);
@@ -746,11 +993,36 @@ class VisualVerificationService {
   async smartVerify(
     sessionId: string,
     actionDescription: string,
-    expectedOutcome?: string
+    expectedOutcome?: string,
+    screenshotOptions: Pick<VerificationConfig, 'stateId' | 'ignoreRegions' | 'ignoreSelectors'> = {}
   ): Promise<VerificationResult> {
     // Determine best verification method based on the action
     const action = actionDescription.toLowerCase();
 
+    if (action.includes('submit') || action.includes('save')) {
+      const expectedValue = expectedOutcome || 'form submitted successfully';
+
+      // A save that left the screen unchanged didn't take effect
+      if (this.findBeforeState(sessionId, screenshotOptions.stateId)) {
+        const visual = await this.verify(sessionId, {
+          method: 'screenshot_comparison',
+          ...screenshotOptions,
+        });
+        if (!visual.success) {
+          return visual;
+        }
+
+        const ai = await this.verify(sessionId, { method: 'ai_verification', expectedValue });
+        return this.combineVisualAndAIResults(visual, ai);
+      }
+
+      // Use AI verification for complex actions
+      return this.verify(sessionId, {
+        method: 'ai_verification',
+        expectedValue,
+      });
+    }
+
     if (action.includes('navigate') || action.includes('go to') || action.includes('open')) {
       return this.verify(sessionId, {
         method: 'url_change',
@@ -772,14 +1044,6 @@ class VisualVerificationService {
       });
     }
 
-    if (action.includes('submit') || action.includes('save')) {
-      // Use AI verification for complex actions
-      return this.verify(sessionId, {
-        method: 'ai_verification',
-        expectedValue: expectedOutcome || 'form submitted successfully',
-      });
-    }
-
     // Default to AI verification
     return this.verify(sessionId, {
       method: 'ai_verification',
@@ -787,6 +1051,34 @@ class VisualVerificationService {
     });
   }
 
+  /**
+   * Merge a passing screenshot comparison with an AI check of the outcome
+   * The page changed, so the AI decides whether it changed the right way
+   * (e.g. a success toast rather than a validation error). When the AI
+   * can't tell, the visual change stands at reduced confidence.
+   */
+  private combineVisualAndAIResults(
+    visual: VerificationResult,
+    ai: VerificationResult
+  ): VerificationResult {
+    const aiUndetermined = !ai.success && ai.confidence <= 0.3;
+    const success = ai.success || aiUndetermined;
+
+    return {
+      success,
+      confidence: ai.success
+        ? Math.max(ai.confidence, visual.confidence)
+        : aiUndetermined ? 0.7 : ai.confidence,
+      method: 'screenshot_comparison',
+      details: `${visual.details}. AI check: ${ai.details}`,
+      evidence: {
+        ...visual.evidence,
+        actualValue: ai.evidence?.actualValue,
+      },
+      timestamp: new Date(),
+    };
+  }
+
   // ========================================
   // UTILITIES
   // ========================================
@@ -4,6 +4,7 @@
  *
  * Features:
  * - Track token usage from Claude API responses (input, output, cache tokens)
+ * - Track token usage from other LLM providers routed through the provider manager
  * - Calculate costs based on current pricing tiers
  * - Track Browserbase session duration and costs
  * - Aggregate daily cost summaries
@@ -27,6 +28,7 @@ import {
 } from "../../drizzle/schema-costs";
 import { eq, and, gte, lte, sum, count, sql } from "drizzle-orm";
 import Anthropic from "@anthropic-ai/sdk";
+import type { LLMResponse } from "../providers/types";
 
 // ========================================
 // PRICING CONSTANTS (as of 2025)
@@ -365,6 +367,62 @@ export class CostTrackingService {
     await this.checkBudgetLimits(params.userId);
   }
 
+  /**
+   * Track an LLM call served through the provider manager
+   * Claude calls use the Claude pricing table; other providers use the cost they report
+   */
+  async trackProviderCall(params: {
+    userId: number;
+    executionId?: number;
+    response: LLMResponse;
+    promptType?: string;
+    toolsUsed?: string[];
+    responseTime?: number;
+  }): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const { response } = params;
+    const tokens: TokenUsageData = {
+      inputTokens: response.usage.promptTokens,
+      outputTokens: response.usage.completionTokens,
+    };
+
+    const costs: CostCalculation = response.provider === "anthropic"
+      ? this.calculateCost(response.model, tokens)
+      : {
+          inputCost: response.cost?.promptCost ?? 0,
+          outputCost: response.cost?.completionCost ?? 0,
+          cacheCost: 0,
+          totalCost: response.cost?.totalCost ?? 0,
+        };
+
+    await db.insert(apiTokenUsage).values({
+      userId: params.userId,
+      executionId: params.executionId,
+      requestId: response.id,
+      provider: response.provider,
+      model: response.model,
+      inputTokens: tokens.inputTokens,
+      outputTokens: tokens.outputTokens,
+      totalTokens: tokens.inputTokens + tokens.outputTokens,
+      inputCost: costs.inputCost.toFixed(4),
+      outputCost: costs.outputCost.toFixed(4),
+      cacheCost: costs.cacheCost.toFixed(4),
+      totalCost: costs.totalCost.toFixed(4),
+      promptType: params.promptType,
+      toolsUsed: params.toolsUsed ? JSON.stringify(params.toolsUsed) : null,
+      responseTime: params.responseTime,
+      stopReason: response.finishReason,
+    });
+
+    // Update daily summary
+    await this.updateDailySummary(params.userId, new Date());
+
+    // Check budget limits
+    await this.checkBudgetLimits(params.userId);
+  }
+
   /**
    * Track Browserbase session cost
    */
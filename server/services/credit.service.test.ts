@@ -0,0 +1,155 @@
+/**
+ * Credit Service Tests
+ * Unit tests for idempotent Stripe grants and refund reversals
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { credit_transactions, user_credits } from "../../drizzle/schema-lead-enrichment";
+
+vi.mock("./cache.service", () => ({
+  cacheService: { delete: vi.fn(), getOrSet: vi.fn() },
+  CACHE_TTL: { SHORT: 60 },
+}));
+
+// Select results are served in call order; writes and row locks are recorded
+const selects: any[][] = [];
+const inserts: Array<{ table: unknown; values: any }> = [];
+const updates: Array<{ table: unknown; values: any }> = [];
+const locks: Array<{ query: number; strength: string }> = [];
+let queryCount = 0;
+let insertError: Error | null = null;
+
+function query(): any {
+  const rows = selects.shift() ?? [];
+  const index = queryCount++;
+  const chain: any = Object.assign(Promise.resolve(rows), {
+    where: () => chain,
+    limit: () =>
+      Object.assign(Promise.resolve(rows), {
+        for: (strength: string) => {
+          locks.push({ query: index, strength });
+          return Promise.resolve(rows);
+        },
+      }),
+  });
+  return chain;
+}
+
+const tx = {
+  select: () => ({ from: () => query() }),
+  insert: (table: unknown) => ({
+    values: async (values: any) => {
+      if (insertError && table === credit_transactions) throw insertError;
+      inserts.push({ table, values });
+    },
+  }),
+  update: (table: unknown) => ({
+    set: (values: any) => ({
+      where: async () => {
+        updates.push({ table, values });
+      },
+    }),
+  }),
+};
+
+vi.mock("../db", () => ({
+  getDb: vi.fn(async () => ({ ...tx, transaction: (fn: (t: typeof tx) => unknown) => fn(tx) })),
+}));
+
+import { CreditService, computeRefundReversal } from "./credit.service";
+
+const purchase = { userId: 7, packageId: 3, creditType: "enrichment" as const, creditAmount: 500 };
+const details = { packageName: "Starter Pack", stripePaymentIntentId: "pi_1", amountPaid: 4900, currency: "usd" };
+
+describe("Credit Service", () => {
+  const service = new CreditService();
+
+  beforeEach(() => {
+    selects.length = 0;
+    inserts.length = 0;
+    updates.length = 0;
+    locks.length = 0;
+    queryCount = 0;
+    insertError = null;
+  });
+
+  describe("grantStripePurchase", () => {
+    it("should record the purchase keyed by the event id", async () => {
+      selects.push([], [{ id: 1, balance: 20, totalPurchased: 100, totalUsed: 80 }]);
+
+      expect(await service.grantStripePurchase("evt_1", purchase, details)).toBe(true);
+
+      expect(updates[0].values).toMatchObject({ balance: 520, totalPurchased: 600 });
+      expect(inserts[0].values).toMatchObject({
+        transactionType: "purchase",
+        amount: 500,
+        balanceAfter: 520,
+        referenceId: "evt_1",
+        referenceType: "stripe_purchase",
+        metadata: { packageId: 3, stripePaymentIntentId: "pi_1" },
+      });
+    });
+
+    it("should skip events that were already granted", async () => {
+      selects.push([{ id: 9 }]);
+
+      expect(await service.grantStripePurchase("evt_1", purchase, details)).toBe(false);
+      expect(inserts).toHaveLength(0);
+      expect(updates).toHaveLength(0);
+    });
+
+    it("should treat a concurrent duplicate as already granted", async () => {
+      selects.push([], [{ id: 1, balance: 0, totalPurchased: 0, totalUsed: 0 }]);
+      insertError = Object.assign(new Error("duplicate key value"), { code: "23505" });
+
+      expect(await service.grantStripePurchase("evt_1", purchase, details)).toBe(false);
+    });
+  });
+
+  describe("reverseStripePurchase", () => {
+    const refund = { stripePaymentIntentId: "pi_1", stripeChargeId: "ch_1", amount: 4900, amountRefunded: 4900 };
+
+    it("should reverse what is left of a fully refunded purchase", async () => {
+      selects.push(
+        [{ id: 11, userId: 7, creditType: "enrichment", amount: 500 }],
+        [{ referenceId: "evt_partial", amount: -250 }],
+        [{ id: 1, balance: 100, totalPurchased: 500, totalUsed: 150 }]
+      );
+
+      expect(await service.reverseStripePurchase("evt_full", refund)).toBe(250);
+
+      // The purchase is locked by the first query, before earlier reversals are summed
+      expect(locks).toEqual([{ query: 0, strength: "update" }]);
+
+      // Spent credits leave the balance negative
+      expect(updates).toEqual([{ table: user_credits, values: expect.objectContaining({ balance: -150, totalPurchased: 250 }) }]);
+      expect(inserts[0].values).toMatchObject({
+        transactionType: "refund",
+        amount: -250,
+        balanceAfter: -150,
+        referenceId: "evt_full",
+        referenceType: "stripe_refund",
+        metadata: { originalTransactionId: 11, stripeChargeId: "ch_1" },
+      });
+    });
+
+    it("should ignore redelivered refund events and unknown payments", async () => {
+      selects.push([{ id: 11, userId: 7, creditType: "enrichment", amount: 500 }], [{ referenceId: "evt_full", amount: -500 }]);
+      expect(await service.reverseStripePurchase("evt_full", refund)).toBe(0);
+
+      selects.push([]);
+      expect(await service.reverseStripePurchase("evt_other", refund)).toBe(0);
+      expect(inserts).toHaveLength(0);
+    });
+  });
+
+  describe("computeRefundReversal", () => {
+    it("should reverse the refunded share not yet reversed", () => {
+      expect(computeRefundReversal(500, 4900, 2450, 0)).toBe(250);
+      expect(computeRefundReversal(500, 4900, 4900, 250)).toBe(250);
+      expect(computeRefundReversal(333, 1000, 500, 0)).toBe(166);
+      expect(computeRefundReversal(500, 4900, 1000, 250)).toBe(0);
+      expect(computeRefundReversal(500, 0, 0, 0)).toBe(0);
+    });
+  });
+});
@@ -2,7 +2,9 @@
  * Credit Service
  * Manages credit balances, transactions, and credit operations
  *
- * TODO: Implement actual credit management logic
+ * Stripe purchases are granted and reversed only from verified webhook
+ * events (server/api/webhooks/stripe.ts). Those transactions carry the event
+ * id as their reference, which makes redelivered events no-ops.
  */
 
 import { getDb } from "../db";
@@ -10,6 +12,7 @@ import { user_credits, credit_transactions } from "../../drizzle/schema-lead-enr
 import { eq, and, desc, sql } from "drizzle-orm";
 import { cacheService, CACHE_TTL } from "./cache.service";
 import { cacheKeys } from "../lib/cacheKeys";
+import type { CreditPurchase } from "./stripe.service";
 
 export type CreditType = "enrichment" | "calling" | "scraping";
 export type TransactionType = "purchase" | "usage" | "refund" | "adjustment";
@@ -34,6 +37,55 @@ export interface CreditTransaction {
   createdAt: Date;
 }
 
+/**
+ * Identifies the entity behind a transaction.
+ * A transaction with the same reference is only recorded once.
+ */
+export interface CreditReference {
+  id: string;
+  type: string;
+}
+
+export interface StripePurchaseDetails {
+  packageName: string;
+  stripeSessionId?: string;
+  stripePaymentIntentId: string;
+  amountPaid: number | null; // Cents
+  currency: string | null;
+}
+
+export interface StripeRefundDetails {
+  stripePaymentIntentId: string;
+  stripeChargeId: string;
+  amount: number; // Charge amount in cents
+  amountRefunded: number; // Cumulative refunded amount in cents
+}
+
+/**
+ * Credits to take back for a (partial) refund.
+ * Stripe reports the cumulative refunded amount, so the reversal is the
+ * proportional share of the purchase minus what was already reversed.
+ */
+export function computeRefundReversal(
+  creditAmount: number,
+  chargeAmount: number,
+  amountRefunded: number,
+  alreadyReversed: number
+): number {
+  if (chargeAmount <= 0 || amountRefunded <= 0) {
+    return 0;
+  }
+
+  const ratio = Math.min(1, amountRefunded / chargeAmount);
+  const totalReversal = ratio >= 1 ? creditAmount : Math.floor(creditAmount * ratio);
+  return Math.max(0, totalReversal - alreadyReversed);
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  const err = error as { code?: string; cause?: { code?: string } };
+  return err?.code === "23505" || err?.cause?.code === "23505";
+}
+
 export class CreditService {
   /**
    * Get all credit balances for a user
@@ -137,6 +189,7 @@ export class CreditService {
 
   /**
    * Add credits to user account
+   * Returns false when a transaction with the same reference was already recorded
    */
   async addCredits(
     userId: number,
@@ -144,8 +197,9 @@ export class CreditService {
     creditType: CreditType,
     description: string,
     transactionType: TransactionType,
-    metadata?: Record<string, any>
-  ): Promise<void> {
+    metadata?: Record<string, any>,
+    reference?: CreditReference
+  ): Promise<boolean> {
     if (amount <= 0) {
       throw new Error("Amount must be positive");
     }
@@ -156,62 +210,94 @@ export class CreditService {
     }
 
     // Use database transaction for atomicity
-    await db.transaction(async (tx) => {
-      // Get or create user credit record
-      const existingCredit = await tx
-        .select()
-        .from(user_credits)
-        .where(and(eq(user_credits.userId, userId), eq(user_credits.creditType, creditType)))
-        .limit(1);
-
-      let newBalance: number;
+    let added: boolean;
+    try {
+      added = await db.transaction(async (tx) => {
+        if (reference) {
+          const existing = await tx
+            .select({ id: credit_transactions.id })
+            .from(credit_transactions)
+            .where(
+              and(
+                eq(credit_transactions.referenceType, reference.type),
+                eq(credit_transactions.referenceId, reference.id)
+              )
+            )
+            .limit(1);
+
+          if (existing.length > 0) {
+            return false;
+          }
+        }
 
-      if (existingCredit.length > 0) {
-        const current = existingCredit[0];
-        newBalance = (current.balance || 0) + amount;
-        const newTotalPurchased = transactionType === "purchase"
-          ? (current.totalPurchased || 0) + amount
-          : current.totalPurchased || 0;
+        // Get or create user credit record
+        const existingCredit = await tx
+          .select()
+          .from(user_credits)
+          .where(and(eq(user_credits.userId, userId), eq(user_credits.creditType, creditType)))
+          .limit(1);
 
-        // Update existing record
-        await tx
-          .update(user_credits)
-          .set({
+        let newBalance: number;
+
+        if (existingCredit.length > 0) {
+          const current = existingCredit[0];
+          newBalance = (current.balance || 0) + amount;
+          const newTotalPurchased = transactionType === "purchase"
+            ? (current.totalPurchased || 0) + amount
+            : current.totalPurchased || 0;
+
+          // Update existing record
+          await tx
+            .update(user_credits)
+            .set({
+              balance: newBalance,
+              totalPurchased: newTotalPurchased,
+              updatedAt: new Date(),
+            })
+            .where(eq(user_credits.id, current.id));
+        } else {
+          // Create new record
+          newBalance = amount;
+          await tx.insert(user_credits).values({
+            userId,
+            creditType,
             balance: newBalance,
-            totalPurchased: newTotalPurchased,
+            totalPurchased: transactionType === "purchase" ? amount : 0,
+            totalUsed: 0,
+            createdAt: new Date(),
             updatedAt: new Date(),
-          })
-          .where(eq(user_credits.id, current.id));
-      } else {
-        // Create new record
-        newBalance = amount;
-        await tx.insert(user_credits).values({
+          });
+        }
+
+        // Create transaction record
+        await tx.insert(credit_transactions).values({
           userId,
           creditType,
-          balance: newBalance,
-          totalPurchased: transactionType === "purchase" ? amount : 0,
-          totalUsed: 0,
+          transactionType,
+          amount,
+          balanceAfter: newBalance,
+          description,
+          referenceId: reference?.id,
+          referenceType: reference?.type,
+          metadata,
           createdAt: new Date(),
-          updatedAt: new Date(),
         });
-      }
 
-      // Create transaction record
-      await tx.insert(credit_transactions).values({
-        userId,
-        creditType,
-        transactionType,
-        amount,
-        balanceAfter: newBalance,
-        description,
-        metadata,
-        createdAt: new Date(),
+        return true;
       });
-    });
+    } catch (error) {
+      // A concurrent delivery recorded the same reference first
+      if (reference && isUniqueViolation(error)) {
+        return false;
+      }
+      throw error;
+    }
 
     // Invalidate cache after adding credits
     const cacheKey = `${cacheKeys.userCredits(userId.toString())}:${creditType}`;
     await cacheService.delete(cacheKey);
+
+    return added;
   }
 
   /**
@@ -351,6 +437,126 @@ export class CreditService {
     );
   }
 
+  /**
+   * Grant a paid Stripe purchase, keyed by the webhook event id
+   * Returns false when the event was already applied
+   */
+  async grantStripePurchase(
+    eventId: string,
+    purchase: CreditPurchase,
+    details: StripePurchaseDetails
+  ): Promise<boolean> {
+    return this.addCredits(
+      purchase.userId,
+      purchase.creditAmount,
+      purchase.creditType,
+      `Purchased ${details.packageName} via Stripe`,
+      "purchase",
+      {
+        packageId: purchase.packageId,
+        ...details,
+      },
+      { id: eventId, type: "stripe_purchase" }
+    );
+  }
+
+  /**
+   * Reverse the credits of a refunded Stripe purchase, keyed by the webhook event id
+   * The balance may go negative when the refunded credits were already spent.
+   * Returns the number of credits reversed.
+   */
+  async reverseStripePurchase(eventId: string, refund: StripeRefundDetails): Promise<number> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+
+    const byPaymentIntent = sql`${credit_transactions.metadata}->>'stripePaymentIntentId' = ${refund.stripePaymentIntentId}`;
+
+    let reversal: { userId: number; creditType: CreditType; amount: number } | null;
+    try {
+      reversal = await db.transaction(async (tx) => {
+        // Lock the purchase so concurrent refund events for it are applied one at a time;
+        // otherwise each could sum the same earlier reversals and reverse the full amount
+        const [purchase] = await tx
+          .select()
+          .from(credit_transactions)
+          .where(and(eq(credit_transactions.referenceType, "stripe_purchase"), byPaymentIntent))
+          .limit(1)
+          .for("update");
+
+        if (!purchase) {
+          return null;
+        }
+
+        const previous = await tx
+          .select()
+          .from(credit_transactions)
+          .where(and(eq(credit_transactions.referenceType, "stripe_refund"), byPaymentIntent));
+
+        if (previous.some((t) => t.referenceId === eventId)) {
+          return null;
+        }
+
+        const alreadyReversed = previous.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+        const amount = computeRefundReversal(purchase.amount, refund.amount, refund.amountRefunded, alreadyReversed);
+        if (amount === 0) {
+          return null;
+        }
+
+        const [current] = await tx
+          .select()
+          .from(user_credits)
+          .where(and(eq(user_credits.userId, purchase.userId), eq(user_credits.creditType, purchase.creditType)))
+          .limit(1);
+
+        const newBalance = (current?.balance || 0) - amount;
+        if (current) {
+          await tx
+            .update(user_credits)
+            .set({
+              balance: newBalance,
+              totalPurchased: Math.max(0, (current.totalPurchased || 0) - amount),
+              updatedAt: new Date(),
+            })
+            .where(eq(user_credits.id, current.id));
+        }
+
+        await tx.insert(credit_transactions).values({
+          userId: purchase.userId,
+          creditType: purchase.creditType,
+          transactionType: "refund",
+          amount: -amount, // Negative for reversal
+          balanceAfter: newBalance,
+          description: `Refund for Stripe charge ${refund.stripeChargeId}`,
+          referenceId: eventId,
+          referenceType: "stripe_refund",
+          metadata: {
+            originalTransactionId: purchase.id,
+            ...refund,
+          },
+          createdAt: new Date(),
+        });
+
+        return { userId: purchase.userId, creditType: purchase.creditType as CreditType, amount };
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return 0;
+      }
+      throw error;
+    }
+
+    if (!reversal) {
+      return 0;
+    }
+
+    const cacheKey = `${cacheKeys.userCredits(reversal.userId.toString())}:${reversal.creditType}`;
+    await cacheService.delete(cacheKey);
+
+    return reversal.amount;
+  }
+
   /**
    * Adjust credits (admin function)
    */
@@ -23,8 +23,14 @@ async function getPdfParser() {
   }
 }
 
+export interface ParsedPage {
+  pageNumber: number;
+  text: string;
+}
+
 export interface ParsedDocument {
   text: string;
+  pages?: ParsedPage[]; // Per-page text for paginated formats (PDF)
   metadata: {
     pageCount?: number;
     wordCount: number;
@@ -49,21 +55,49 @@ class DocumentParserService {
     try {
       // Load pdf-parse dynamically
       const parser = await getPdfParser();
-      const data = await parser(buffer, {
-        max: options.maxPages || 0, // 0 means all pages
-      });
 
-      const text = data.text.trim();
+      let text: string;
+      let pageCount: number;
+      let info: any;
+      let pages: ParsedPage[] | undefined;
+
+      if (typeof parser.PDFParse === 'function') {
+        // pdf-parse v2: class API with per-page text
+        const pdf = new parser.PDFParse({ data: buffer });
+        try {
+          const result = await pdf.getText(options.maxPages ? { first: options.maxPages } : undefined);
+          const infoResult = await pdf.getInfo().catch(() => null);
+          const pageTexts: ParsedPage[] = result.pages.map((page: { num: number; text: string }) => ({
+            pageNumber: page.num,
+            text: page.text.trim(),
+          }));
+          pages = pageTexts;
+          text = pageTexts.map(page => page.text).join('\n\n');
+          pageCount = result.total;
+          info = infoResult?.info;
+        } finally {
+          await pdf.destroy();
+        }
+      } else {
+        // pdf-parse v1: function API, whole-document text only
+        const data = await parser(buffer, {
+          max: options.maxPages || 0, // 0 means all pages
+        });
+        text = data.text.trim();
+        pageCount = data.numpages;
+        info = data.info;
+      }
 
       return {
         text,
+        pages,
         metadata: {
-          pageCount: data.numpages,
+          pageCount,
           wordCount: text.split(/\s+/).filter(Boolean).length,
           charCount: text.length,
-          title: data.info?.Title || undefined,
-          author: data.info?.Author || undefined,
-          creationDate: data.info?.CreationDate || undefined,
+          title: info?.Title || undefined,
+          author: info?.Author || undefined,
+          creationDate: info?.CreationDate || undefined,
           format: 'pdf',
         },
       };
@@ -0,0 +1,283 @@
+/**
+ * Lead Export Service Tests
+ * Unit tests for lead flattening, GHL rows, CSV encoding and tenant-scoped streaming exports
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { PassThrough } from "stream";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { lead_export_profiles } from "../../drizzle/schema";
+
+vi.mock("../db");
+
+import { getDb } from "../db";
+import { getTenantService, TenantIsolationService } from "./tenantIsolation.service";
+import {
+  collectFields,
+  csvCell,
+  csvLine,
+  flattenLead,
+  ghlHeaders,
+  LeadExportService,
+  toGhlRow,
+  type LeadExportOptions,
+} from "./leadExport.service";
+
+const TENANT_A = 1;
+const TENANT_B = 2;
+
+const lead = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  listId: 10,
+  userId: TENANT_A,
+  enrichmentStatus: "enriched",
+  enrichedAt: new Date("2026-01-02T03:04:05Z"),
+  error: null,
+  rawData: { firstName: "Ada", email: "ada@raw.example.com", tags: ["vip", "q1"] },
+  enrichedData: {
+    email: "ada@example.com",
+    companyInfo: { name: "Analytical Engines", industry: "Computing" },
+    contactInfo: { phone: "+1 555 0100" },
+  },
+  ...overrides,
+});
+
+const asTenant = <T>(userId: number, fn: () => Promise<T>) =>
+  getTenantService().runInTenantContext(TenantIsolationService.createContext({ id: userId }), fn);
+
+const dialect = new PgDialect();
+
+/**
+ * Chainable db whose selects all end in limit(); queue their rows with limit.mockResolvedValueOnce
+ */
+const createExportDb = () => {
+  const chain: any = {};
+  for (const method of ["select", "from", "where", "orderBy", "insert", "values"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.limit = vi.fn().mockResolvedValue([]);
+  chain.onConflictDoUpdate = vi.fn().mockResolvedValue(undefined);
+  return chain;
+};
+
+/**
+ * Parameters of every where clause the service ran
+ */
+const whereParams = (db: ReturnType<typeof createExportDb>) =>
+  db.where.mock.calls.map(([condition]: [SQL]) => dialect.sqlToQuery(condition).params);
+
+describe("Lead Export Service", () => {
+  describe("flattenLead", () => {
+    it("should flatten raw and enriched data into dotted fields", () => {
+      expect(flattenLead(lead(1) as any)).toEqual({
+        id: 1,
+        enrichmentStatus: "enriched",
+        enrichedAt: "2026-01-02T03:04:05.000Z",
+        error: null,
+        "raw.firstName": "Ada",
+        "raw.email": "ada@raw.example.com",
+        "raw.tags": "vip; q1",
+        "enriched.email": "ada@example.com",
+        "enriched.companyInfo.name": "Analytical Engines",
+        "enriched.companyInfo.industry": "Computing",
+        "enriched.contactInfo.phone": "+1 555 0100",
+      });
+    });
+
+    it("should group discovered fields by source", () => {
+      const fields = collectFields([
+        flattenLead(lead(1, { enrichedData: { email: "a@example.com" } }) as any),
+        flattenLead(lead(2, { rawData: { city: "London" }, enrichedData: null }) as any),
+      ]);
+
+      expect(fields).toEqual([
+        "id",
+        "enrichmentStatus",
+        "enrichedAt",
+        "error",
+        "raw.firstName",
+        "raw.email",
+        "raw.tags",
+        "raw.city",
+        "enriched.email",
+      ]);
+    });
+  });
+
+  describe("toGhlRow", () => {
+    const noMapping = { ghlFields: {}, ghlCustomFields: [] };
+
+    it("should prefer enriched values and fill GHL columns in header order", () => {
+      const row = toGhlRow(flattenLead(lead(1) as any), noMapping, "Trade show");
+      const byHeader = Object.fromEntries(ghlHeaders(noMapping).map((header, i) => [header, row[i]]));
+
+      expect(byHeader).toMatchObject({
+        "First Name": "Ada",
+        Email: "ada@example.com",
+        Phone: "+1 555 0100",
+        "Company Name": "Analytical Engines",
+        Source: "Trade show",
+        Tags: "vip,q1",
+      });
+    });
+
+    it("should apply mapped and custom fields", () => {
+      const mapping = {
+        ghlFields: { email: "raw.email" },
+        ghlCustomFields: [{ field: "enriched.companyInfo.industry", name: "Industry" }],
+      };
+      const row = toGhlRow(flattenLead(lead(1) as any), mapping);
+
+      expect(ghlHeaders(mapping).at(-1)).toBe("Industry");
+      expect(row[2]).toBe("ada@raw.example.com");
+      expect(row.at(-1)).toBe("Computing");
+    });
+
+    it("should split a full name when no first or last name is known", () => {
+      const row = toGhlRow(
+        flattenLead(lead(1, { rawData: {}, enrichedData: { fullName: "Grace Brewster Hopper" } }) as any),
+        noMapping
+      );
+
+      expect(row.slice(0, 2)).toEqual(["Grace", "Brewster Hopper"]);
+    });
+  });
+
+  describe("csvCell", () => {
+    it("should quote cells and neutralise formulas", () => {
+      expect(csvCell('say "hi", then\nleave')).toBe('"say ""hi"", then\nleave"');
+      expect(csvCell("=HYPERLINK(\"x\")")).toBe('"\'=HYPERLINK(""x"")"');
+      expect(csvCell("@SUM(A1)")).toBe("'@SUM(A1)");
+      expect(csvCell("-2+3+cmd|' /C calc'!A0")).toBe("'-2+3+cmd|' /C calc'!A0");
+      expect(csvCell("+1 (555) 010-0100")).toBe("+1 (555) 010-0100");
+      expect(csvCell(-12.5)).toBe("-12.5");
+      expect(csvLine(["a", null, 3])).toBe("a,,3\r\n");
+    });
+  });
+
+  describe("export", () => {
+    let db: ReturnType<typeof createExportDb>;
+    const service = new LeadExportService();
+
+    const enrichedLeads = [
+      lead(1),
+      lead(2, { enrichmentStatus: "failed", enrichedData: null, error: "Not found" }),
+      lead(3, { rawData: { firstName: "Bob" }, enrichedData: { email: "bob@example.com" } }),
+    ];
+
+    const run = async (options: Omit<LeadExportOptions, "listId"> & { listId?: number }, userId = TENANT_A) => {
+      const out = new PassThrough();
+      const chunks: Buffer[] = [];
+      out.on("data", (chunk) => chunks.push(chunk));
+
+      const count = await asTenant(userId, () => service.export(out, { listId: 10, ...options }));
+      return { count, text: Buffer.concat(chunks).toString("utf8") };
+    };
+
+    const savedProfile = (columns: Array<{ field: string; header: string }>) => ({
+      id: 1,
+      listId: 10,
+      userId: TENANT_A,
+      columns,
+      ghlFields: {},
+      ghlCustomFields: [],
+    });
+
+    beforeEach(() => {
+      db = createExportDb();
+      vi.mocked(getDb).mockResolvedValue(db);
+    });
+
+    it("should export every discovered field without a saved profile", async () => {
+      // No profile, then the discovery sample, then the export itself
+      db.limit
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce(enrichedLeads)
+        .mockResolvedValueOnce(enrichedLeads);
+
+      const { count, text } = await run({ format: "csv" });
+      const [header, ...rows] = text.replace(/^\uFEFF/, "").trim().split("\r\n");
+
+      expect(count).toBe(3);
+      expect(header).toBe(
+        "id,enrichmentStatus,enrichedAt,error,raw.firstName,raw.email,raw.tags,enriched.email," +
+          "enriched.companyInfo.name,enriched.companyInfo.industry,enriched.contactInfo.phone"
+      );
+      expect(rows[1]).toBe("2,failed,2026-01-02T03:04:05.000Z,Not found,Ada,ada@raw.example.com,vip; q1,,,,");
+    });
+
+    it("should follow the saved profile and filter by status", async () => {
+      db.limit
+        .mockResolvedValueOnce([
+          savedProfile([
+            { field: "enriched.email", header: "Email" },
+            { field: "raw.firstName", header: "First" },
+          ]),
+        ])
+        .mockResolvedValueOnce([enrichedLeads[0], enrichedLeads[2]]);
+
+      const { count, text } = await run({ format: "csv", statuses: ["enriched"] });
+
+      expect(count).toBe(2);
+      expect(text).toBe("\uFEFFEmail,First\r\nada@example.com,Ada\r\nbob@example.com,Bob\r\n");
+      expect(whereParams(db)[1]).toEqual([TENANT_A, 10, 0, "enriched"]);
+    });
+
+    it("should write a GHL import with its exact headers and no byte order mark", async () => {
+      db.limit
+        .mockResolvedValueOnce([savedProfile([])])
+        .mockResolvedValueOnce([enrichedLeads[0], enrichedLeads[2]]);
+
+      const { text } = await run({ format: "ghl", statuses: ["enriched"], source: "Q1 Leads" });
+      const lines = text.trim().split("\r\n");
+
+      expect(lines[0]).toBe(
+        "First Name,Last Name,Email,Phone,Company Name,Website,Address,City,State,Postal Code,Country,Source,Tags"
+      );
+      expect(lines[1]).toBe("Ada,,ada@example.com,+1 555 0100,Analytical Engines,,,,,,,Q1 Leads,\"vip,q1\"");
+      expect(lines).toHaveLength(3);
+    });
+
+    it("should scope every query to the current tenant", async () => {
+      const { count } = await run({ format: "csv" }, TENANT_B);
+      expect(await asTenant(TENANT_B, () => service.getList(10))).toBeNull();
+
+      expect(count).toBe(0);
+      expect(whereParams(db)).toEqual([
+        [TENANT_B, 10],
+        [TENANT_B, 10, 0],
+        [TENANT_B, 10, 0],
+        [TENANT_B, 10],
+      ]);
+    });
+
+    it("should page through leads by id", async () => {
+      db.limit.mockResolvedValueOnce(enrichedLeads.slice(0, 2)).mockResolvedValueOnce(enrichedLeads.slice(2));
+
+      const ids: number[] = [];
+      await asTenant(TENANT_A, async () => {
+        for await (const row of service.iterateLeads(10, [], 2)) ids.push(row.id);
+      });
+
+      expect(ids).toEqual([1, 2, 3]);
+      expect(whereParams(db)).toEqual([
+        [TENANT_A, 10, 0],
+        [TENANT_A, 10, 2],
+      ]);
+    });
+
+    it("should replace a list's saved profile", async () => {
+      const mapping = { columns: [{ field: "id", header: "Lead ID" }], ghlFields: {}, ghlCustomFields: [] };
+
+      await asTenant(TENANT_A, () => service.saveProfile(TENANT_A, 10, mapping));
+
+      expect(db.insert).toHaveBeenCalledWith(lead_export_profiles);
+      expect(db.values).toHaveBeenCalledWith(expect.objectContaining({ listId: 10, userId: TENANT_A, ...mapping }));
+      expect(db.onConflictDoUpdate).toHaveBeenCalledWith({
+        target: lead_export_profiles.listId,
+        set: expect.objectContaining(mapping),
+      });
+    });
+  });
+});
@@ -0,0 +1,452 @@
+/**
+ * Lead Export Service
+ * Flattens raw and enriched lead data into columns and streams lead lists as
+ * CSV, XLSX or a GoHighLevel contact-import CSV.
+ *
+ * Each list can save an export profile: the exported columns and how lead
+ * fields map to GHL contact fields. Leads are read in id-ordered batches and
+ * written with backpressure, so lists of any size stream in constant memory.
+ */
+
+import type { Writable } from "stream";
+import { asc, eq, gt, inArray, type SQL } from "drizzle-orm";
+import { getDb } from "../db";
+import { lead_lists, lead_export_profiles, enrichedLeads as leads } from "../../drizzle/schema";
+import type { Lead } from "../../drizzle/schema-lead-enrichment";
+import { getTenantService } from "./tenantIsolation.service";
+import { writeChunk, writeXlsx, type XlsxCellValue } from "../lib/xlsxStream";
+
+// ========================================
+// TYPES
+// ========================================
+
+export const LEAD_EXPORT_FORMATS = ["csv", "xlsx", "ghl"] as const;
+export type LeadExportFormat = (typeof LEAD_EXPORT_FORMATS)[number];
+
+export const ENRICHMENT_STATUSES = ["pending", "enriched", "failed", "skipped"] as const;
+export type EnrichmentStatus = (typeof ENRICHMENT_STATUSES)[number];
+
+/**
+ * GoHighLevel contact import columns, with the headers GHL auto-maps on import
+ */
+export const GHL_CONTACT_FIELDS = [
+  { key: "firstName", header: "First Name" },
+  { key: "lastName", header: "Last Name" },
+  { key: "email", header: "Email" },
+  { key: "phone", header: "Phone" },
+  { key: "companyName", header: "Company Name" },
+  { key: "website", header: "Website" },
+  { key: "address1", header: "Address" },
+  { key: "city", header: "City" },
+  { key: "state", header: "State" },
+  { key: "postalCode", header: "Postal Code" },
+  { key: "country", header: "Country" },
+  { key: "source", header: "Source" },
+  { key: "tags", header: "Tags" },
+] as const;
+export type GhlContactField = (typeof GHL_CONTACT_FIELDS)[number]["key"];
+
+export interface ExportColumn {
+  field: string; // Flattened lead field, e.g. "enriched.companyInfo.name"
+  header: string;
+}
+
+export interface GhlCustomFieldMapping {
+  field: string;
+  name: string; // GHL custom field name; GHL maps columns to custom fields by name
+}
+
+export interface LeadExportMapping {
+  columns: ExportColumn[];
+  ghlFields: Partial<Record<GhlContactField, string>>;
+  ghlCustomFields: GhlCustomFieldMapping[];
+}
+
+export type FlatLead = Record<string, string | number | boolean | null>;
+
+export interface LeadExportOptions {
+  listId: number;
+  format: LeadExportFormat;
+  statuses?: EnrichmentStatus[];
+  source?: string; // GHL "Source" when no field is mapped to it
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const EXPORT_BATCH_SIZE = 1000;
+// Leads sampled to find the fields of a list without a saved profile
+const DISCOVERY_SAMPLE_SIZE = 1000;
+// CSV text is buffered up to this size between writes
+const CSV_CHUNK_SIZE = 64 * 1024;
+
+const LEAD_FIELDS = ["id", "enrichmentStatus", "enrichedAt", "error"];
+
+/**
+ * Fields tried in order for each GHL contact field when the profile maps none
+ */
+const GHL_FIELD_CANDIDATES: Record<GhlContactField, string[]> = {
+  firstName: ["enriched.firstName", "raw.firstName", "raw.first_name"],
+  lastName: ["enriched.lastName", "raw.lastName", "raw.last_name"],
+  email: ["enriched.email", "enriched.contactInfo.email", "raw.email"],
+  phone: ["enriched.phone", "enriched.contactInfo.phone", "enriched.contactInfo.mobilePhone", "raw.phone"],
+  companyName: ["enriched.companyInfo.name", "enriched.company", "raw.company", "raw.companyName"],
+  website: ["enriched.website", "enriched.companyInfo.domain", "raw.website"],
+  address1: ["enriched.address", "raw.address"],
+  city: ["enriched.city", "raw.city"],
+  state: ["enriched.state", "raw.state"],
+  postalCode: ["enriched.postalCode", "raw.postalCode", "raw.zip"],
+  country: ["enriched.country", "raw.country"],
+  source: [],
+  tags: ["raw.tags"],
+};
+
+const FULL_NAME_CANDIDATES = ["enriched.fullName", "raw.fullName", "raw.name"];
+
+const CONTENT_TYPES: Record<LeadExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ghl: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// ========================================
+// FLATTENING
+// ========================================
+
+function flattenInto(target: FlatLead, path: string, value: unknown): void {
+  if (value === null || value === undefined) {
+    return;
+  }
+
+  if (value instanceof Date) {
+    target[path] = value.toISOString();
+  } else if (Array.isArray(value)) {
+    const scalars = value.every((item) => item === null || typeof item !== "object");
+    target[path] = scalars ? value.filter((item) => item !== null && item !== "").join("; ") : JSON.stringify(value);
+  } else if (typeof value === "object") {
+    for (const [key, nested] of Object.entries(value)) {
+      flattenInto(target, `${path}.${key}`, nested);
+    }
+  } else {
+    target[path] = value as string | number | boolean;
+  }
+}
+
+/**
+ * Flatten a lead into dotted columns: lead fields, then raw.* and enriched.*
+ * Nested objects become paths, scalar arrays are joined with "; ".
+ */
+export function flattenLead(
+  lead: Pick<Lead, "id" | "enrichmentStatus" | "enrichedAt" | "error" | "rawData" | "enrichedData">
+): FlatLead {
+  const flat: FlatLead = {
+    id: lead.id,
+    enrichmentStatus: lead.enrichmentStatus,
+    enrichedAt: lead.enrichedAt ? new Date(lead.enrichedAt).toISOString() : null,
+    error: lead.error ?? null,
+  };
+
+  flattenInto(flat, "raw", lead.rawData);
+  flattenInto(flat, "enriched", lead.enrichedData);
+
+  return flat;
+}
+
+/**
+ * Fields present in a set of flattened leads: lead fields, raw.*, enriched.*,
+ * each group in first-seen order
+ */
+export function collectFields(flatLeads: FlatLead[]): string[] {
+  const raw = new Set<string>();
+  const enriched = new Set<string>();
+
+  for (const flat of flatLeads) {
+    for (const field of Object.keys(flat)) {
+      if (field.startsWith("raw.")) raw.add(field);
+      else if (field.startsWith("enriched.")) enriched.add(field);
+    }
+  }
+
+  return [...LEAD_FIELDS, ...raw, ...enriched];
+}
+
+/**
+ * Mapping used when a list has no saved profile: every field, named as is
+ */
+export function defaultMapping(fields: string[]): LeadExportMapping {
+  return { columns: fields.map((field) => ({ field, header: field })), ghlFields: {}, ghlCustomFields: [] };
+}
+
+function firstValue(flat: FlatLead, fields: string[]): string | number | boolean | null {
+  for (const field of fields) {
+    const value = flat[field];
+    if (value !== null && value !== undefined && value !== "") {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Headers of a GHL contact import: the standard fields, then custom fields
+ */
+export function ghlHeaders(mapping: Pick<LeadExportMapping, "ghlCustomFields">): string[] {
+  return [...GHL_CONTACT_FIELDS.map((field) => field.header), ...mapping.ghlCustomFields.map((field) => field.name)];
+}
+
+/**
+ * Build a GHL contact import row. Mapped fields win over the default
+ * candidates; first and last name fall back to splitting a full name.
+ */
+export function toGhlRow(
+  flat: FlatLead,
+  mapping: Pick<LeadExportMapping, "ghlFields" | "ghlCustomFields">,
+  source?: string
+): Array<string | number | boolean | null> {
+  const values = Object.fromEntries(
+    GHL_CONTACT_FIELDS.map(({ key }) => {
+      const mapped = mapping.ghlFields[key];
+      return [key, mapped ? (flat[mapped] ?? null) : firstValue(flat, GHL_FIELD_CANDIDATES[key])];
+    })
+  ) as Record<GhlContactField, string | number | boolean | null>;
+
+  if (!values.firstName && !values.lastName) {
+    const fullName = firstValue(flat, FULL_NAME_CANDIDATES);
+    if (typeof fullName === "string" && fullName.trim()) {
+      const [first, ...rest] = fullName.trim().split(/\s+/);
+      values.firstName = first;
+      values.lastName = rest.join(" ") || null;
+    }
+  }
+
+  if (!values.source && source) {
+    values.source = source;
+  }
+
+  // GHL expects comma separated tags
+  if (typeof values.tags === "string") {
+    values.tags = values.tags.split(";").map((tag) => tag.trim()).filter(Boolean).join(",");
+  }
+
+  return [
+    ...GHL_CONTACT_FIELDS.map(({ key }) => values[key]),
+    ...mapping.ghlCustomFields.map((custom) => flat[custom.field] ?? null),
+  ];
+}
+
+// ========================================
+// CSV
+// ========================================
+
+/**
+ * Quote a CSV cell (RFC 4180). Text that spreadsheets would run as a formula
+ * is prefixed with an apostrophe; signed numbers and phone numbers are kept.
+ */
+export function csvCell(value: XlsxCellValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (/^[=@\t\r]/.test(text) || (/^[+-]/.test(text) && !/^[+-][\d\s().-]*$/.test(text))) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvLine(values: XlsxCellValue[]): string {
+  return values.map(csvCell).join(",") + "\r\n";
+}
+
+// ========================================
+// SERVICE
+// ========================================
+
+const tenantService = getTenantService();
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  return db;
+}
+
+export function exportContentType(format: LeadExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+export function exportFileName(listName: string, format: LeadExportFormat): string {
+  const base = listName.replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "leads";
+  return format === "ghl" ? `${base}-ghl-contacts.csv` : `${base}.${format}`;
+}
+
+/**
+ * Lead export operations. All queries are scoped to the current tenant, so
+ * callers must run inside a tenant context.
+ */
+export class LeadExportService {
+  /**
+   * Lead list owned by the current tenant, or null
+   */
+  async getList(listId: number) {
+    const db = await requireDb();
+    const [list] = await db
+      .select()
+      .from(lead_lists)
+      .where(tenantService.createTenantWhereClause(lead_lists.userId, eq(lead_lists.id, listId)))
+      .limit(1);
+
+    return list ?? null;
+  }
+
+  /**
+   * Saved export profile of a list, or null
+   */
+  async getProfile(listId: number): Promise<LeadExportMapping | null> {
+    const db = await requireDb();
+    const [profile] = await db
+      .select()
+      .from(lead_export_profiles)
+      .where(tenantService.createTenantWhereClause(lead_export_profiles.userId, eq(lead_export_profiles.listId, listId)))
+      .limit(1);
+
+    if (!profile) {
+      return null;
+    }
+
+    return {
+      columns: profile.columns as ExportColumn[],
+      ghlFields: (profile.ghlFields ?? {}) as LeadExportMapping["ghlFields"],
+      ghlCustomFields: (profile.ghlCustomFields ?? []) as GhlCustomFieldMapping[],
+    };
+  }
+
+  /**
+   * Create or replace the export profile of a list
+   */
+  async saveProfile(userId: number, listId: number, mapping: LeadExportMapping): Promise<void> {
+    const db = await requireDb();
+    const values = {
+      columns: mapping.columns,
+      ghlFields: mapping.ghlFields,
+      ghlCustomFields: mapping.ghlCustomFields,
+      updatedAt: new Date(),
+    };
+
+    await db
+      .insert(lead_export_profiles)
+      .values({ listId, userId, ...values })
+      .onConflictDoUpdate({ target: lead_export_profiles.listId, set: values });
+  }
+
+  /**
+   * Fields found in a sample of the list's leads
+   */
+  async discoverFields(listId: number): Promise<string[]> {
+    const sample: FlatLead[] = [];
+    for await (const lead of this.iterateLeads(listId, [], DISCOVERY_SAMPLE_SIZE)) {
+      sample.push(flattenLead(lead));
+      if (sample.length >= DISCOVERY_SAMPLE_SIZE) break;
+    }
+
+    return collectFields(sample);
+  }
+
+  /**
+   * The saved profile, or a default exporting every discovered field
+   */
+  async resolveMapping(listId: number): Promise<{ mapping: LeadExportMapping; saved: boolean }> {
+    const profile = await this.getProfile(listId);
+    if (profile) {
+      return { mapping: profile, saved: true };
+    }
+
+    return { mapping: defaultMapping(await this.discoverFields(listId)), saved: false };
+  }
+
+  /**
+   * Leads of a list in id order, fetched in batches
+   */
+  async *iterateLeads(
+    listId: number,
+    statuses: EnrichmentStatus[] = [],
+    batchSize: number = EXPORT_BATCH_SIZE
+  ): AsyncGenerator<Lead> {
+    const db = await requireDb();
+    let lastId = 0;
+
+    while (true) {
+      const conditions: SQL[] = [eq(leads.listId, listId), gt(leads.id, lastId)];
+      if (statuses.length > 0) {
+        conditions.push(inArray(leads.enrichmentStatus, statuses));
+      }
+
+      const batch = await db
+        .select()
+        .from(leads)
+        .where(tenantService.createTenantWhereClause(leads.userId, ...conditions))
+        .orderBy(asc(leads.id))
+        .limit(batchSize);
+
+      yield* batch;
+
+      if (batch.length < batchSize) {
+        return;
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  /**
+   * Stream a list export to out and return the number of leads written.
+   * The output stream is left open.
+   */
+  async export(out: Writable, options: LeadExportOptions): Promise<number> {
+    const { mapping } = await this.resolveMapping(options.listId);
+    const ghl = options.format === "ghl";
+    let count = 0;
+
+    const header = ghl ? ghlHeaders(mapping) : mapping.columns.map((column) => column.header);
+    const toRow = (lead: Lead): XlsxCellValue[] => {
+      const flat = flattenLead(lead);
+      return ghl ? toGhlRow(flat, mapping, options.source) : mapping.columns.map((column) => flat[column.field] ?? null);
+    };
+
+    const leadRows = this.iterateLeads(options.listId, options.statuses);
+
+    if (options.format === "xlsx") {
+      async function* rows() {
+        yield header;
+        for await (const lead of leadRows) {
+          count++;
+          yield toRow(lead);
+        }
+      }
+
+      await writeXlsx(out, rows(), { sheetName: "Leads" });
+      return count;
+    }
+
+    // Excel needs the byte order mark to read UTF-8; GHL's importer takes plain UTF-8
+    let buffer = (ghl ? "" : "\uFEFF") + csvLine(header);
+    for await (const lead of leadRows) {
+      count++;
+      buffer += csvLine(toRow(lead));
+
+      if (buffer.length >= CSV_CHUNK_SIZE) {
+        await writeChunk(out, buffer);
+        buffer = "";
+      }
+    }
+    await writeChunk(out, buffer);
+
+    return count;
+  }
+}
+
+// Export singleton instance
+export const leadExportService = new LeadExportService();
@@ -26,7 +26,7 @@ export interface CheckpointOptions {
   sessionState?: SessionState;
   browserContext?: BrowserContext;
   errorInfo?: ErrorInfo;
-  checkpointReason?: 'error' | 'manual' | 'auto' | 'phase_complete';
+  checkpointReason?: 'error' | 'manual' | 'auto' | 'phase_complete' | 'awaiting_input';
   ttlSeconds?: number; // Time to live in seconds
 }
 
@@ -275,8 +275,58 @@ export class CheckpointService {
       })
       .where(eq(executionCheckpoints.checkpointId, checkpointId));
 
-    // Prepare resume context
-    const resumeResult: ResumeResult = {
+    console.log(
+      `[Checkpoint] Resuming from checkpoint ${checkpointId} (resume count: ${checkpoint.resumeCount + 1})`
+    );
+
+    return this.toResumeResult(checkpoint);
+  }
+
+  /**
+   * Atomically take a checkpoint for a single resume
+   * Marks it non-resumable in the same UPDATE that checks it still is, so
+   * only one of several concurrent callers gets the checkpoint back
+   */
+  async claimCheckpoint(checkpointId: string): Promise<ResumeResult | null> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+
+    const [claimed] = await db
+      .update(executionCheckpoints)
+      .set({
+        canResume: false,
+        resumeCount: sql`${executionCheckpoints.resumeCount} + 1`,
+      })
+      .where(
+        and(
+          eq(executionCheckpoints.checkpointId, checkpointId),
+          eq(executionCheckpoints.canResume, true),
+          sql`(${executionCheckpoints.expiresAt} IS NULL OR ${executionCheckpoints.expiresAt} > now())`
+        )
+      )
+      .returning();
+
+    this.checkpointCache.delete(checkpointId);
+
+    if (!claimed) {
+      return null;
+    }
+
+    const checkpoint = claimed as ExecutionCheckpoint;
+    console.log(
+      `[Checkpoint] Claimed checkpoint ${checkpointId} (resume count: ${checkpoint.resumeCount})`
+    );
+
+    return this.toResumeResult(checkpoint);
+  }
+
+  /**
+   * Build the resume context for a checkpoint
+   */
+  private toResumeResult(checkpoint: ExecutionCheckpoint): ResumeResult {
+    return {
       checkpoint,
       canResume: true,
       resumeFromStep: checkpoint.stepIndex,
@@ -293,12 +343,6 @@ export class CheckpointService {
         },
       },
     };
-
-    console.log(
-      `[Checkpoint] Resuming from checkpoint ${checkpointId} (resume count: ${checkpoint.resumeCount + 1})`
-    );
-
-    return resumeResult;
   }
 
   /**
@@ -142,6 +142,7 @@ export class MemorySystem {
     options?: {
       domain?: string;
       minConfidence?: number;
+      minSimilarity?: number;
       limit?: number;
       tags?: string[];
     }
@@ -279,10 +280,12 @@ export {
   memoryCleanupScheduler,
   queueMemoryCleanup,
   queueMemoryConsolidation,
+  queueReasoningEmbeddingBackfill,
 } from "./memoryCleanup.scheduler";
 export type {
   MemoryCleanupOptions,
   MemoryConsolidateOptions,
+  EmbeddingBackfillOptions,
   MemoryCleanupStats,
 } from "./memoryCleanup.scheduler";
 
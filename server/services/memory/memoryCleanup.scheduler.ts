@@ -5,7 +5,8 @@
  */
 
 import { getMemorySystem } from "./index";
-import { addJob, REDIS_AVAILABLE } from "../../_core/queue";
+import { getReasoningBank } from "./reasoningBank.service";
+import { addMemoryJob, JobType, REDIS_AVAILABLE } from "../../_core/queue";
 
 // ========================================
 // TYPES
@@ -45,6 +46,17 @@ export interface MemoryConsolidateOptions {
   threshold?: number;
 }
 
+export interface EmbeddingBackfillOptions {
+  /**
+   * Number of reasoning patterns embedded per API call
+   */
+  batchSize?: number;
+  /**
+   * Stop after this many batches (runs until done if not provided)
+   */
+  maxBatches?: number;
+}
+
 export interface MemoryCleanupStats {
   lastCleanupTime: Date | null;
   lastConsolidationTime: Date | null;
@@ -270,6 +282,31 @@ class MemoryCleanupSchedulerService {
     }
   }
 
+  /**
+   * Embed reasoning patterns that were stored without an embedding
+   */
+  async runEmbeddingBackfill(options?: EmbeddingBackfillOptions): Promise<{
+    processed: number;
+    failed: number;
+  }> {
+    const startTime = Date.now();
+    console.log("[Memory Cleanup] Starting reasoning embedding backfill...");
+
+    try {
+      const result = await getReasoningBank().backfillEmbeddings(options);
+
+      const duration = Date.now() - startTime;
+      console.log(`[Memory Cleanup] Embedding backfill completed in ${duration}ms`);
+      console.log(`  - Patterns embedded: ${result.processed}`);
+      console.log(`  - Patterns failed: ${result.failed}`);
+
+      return result;
+    } catch (error) {
+      console.error("[Memory Cleanup] Embedding backfill failed:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get scheduler statistics
    */
@@ -345,10 +382,10 @@ export async function queueMemoryCleanup(options?: MemoryCleanupOptions) {
   }
 
   // Queue the job using BullMQ
-  return await addJob("workflow", "MEMORY_CLEANUP" as any, {
+  return await addMemoryJob(JobType.MEMORY_CLEANUP, {
     type: "memory_cleanup",
     options,
-  } as any);
+  });
 }
 
 /**
@@ -361,8 +398,24 @@ export async function queueMemoryConsolidation(options?: MemoryConsolidateOption
   }
 
   // Queue the job using BullMQ
-  return await addJob("workflow", "MEMORY_CONSOLIDATION" as any, {
+  return await addMemoryJob(JobType.MEMORY_CONSOLIDATION, {
     type: "memory_consolidation",
     options,
-  } as any);
+  });
+}
+
+/**
+ * Queue a reasoning embedding backfill job (one-off migration for patterns stored before vector search)
+ */
+export async function queueReasoningEmbeddingBackfill(options?: EmbeddingBackfillOptions) {
+  if (!REDIS_AVAILABLE) {
+    console.log("[Memory Cleanup] Redis not available, running embedding backfill directly");
+    return await memoryCleanupScheduler.runEmbeddingBackfill(options);
+  }
+
+  // Queue the job using BullMQ
+  return await addMemoryJob(JobType.REASONING_EMBEDDING_BACKFILL, {
+    type: "reasoning_embedding_backfill",
+    options,
+  });
 }
@@ -2,6 +2,9 @@
 -- Creates tables for Agent Memory and Reasoning Bank
 -- Run this migration to add memory capabilities to your database
 
+-- pgvector for reasoning pattern embeddings
+CREATE EXTENSION IF NOT EXISTS vector;
+
 -- ========================================
 -- Memory Entries Table
 -- ========================================
@@ -47,7 +50,8 @@ CREATE TABLE IF NOT EXISTS reasoning_patterns (
   domain VARCHAR(255),
   tags JSONB DEFAULT '[]',
   metadata JSONB DEFAULT '{}',
-  embedding JSONB,
+  embedding vector(1536),
+  embedding_model VARCHAR(100),
   created_at TIMESTAMP NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
   last_used_at TIMESTAMP
@@ -59,6 +63,7 @@ CREATE INDEX IF NOT EXISTS reasoning_confidence_idx ON reasoning_patterns(confid
 CREATE INDEX IF NOT EXISTS reasoning_usage_count_idx ON reasoning_patterns(usage_count);
 CREATE INDEX IF NOT EXISTS reasoning_success_rate_idx ON reasoning_patterns(success_rate);
 CREATE INDEX IF NOT EXISTS reasoning_pattern_text_idx ON reasoning_patterns USING gin(to_tsvector('english', pattern));
+CREATE INDEX IF NOT EXISTS reasoning_embedding_hnsw_idx ON reasoning_patterns USING hnsw (embedding vector_cosine_ops);
 
 -- Composite index for common query patterns
 CREATE INDEX IF NOT EXISTS reasoning_domain_confidence_idx ON reasoning_patterns(domain, confidence DESC, usage_count DESC);
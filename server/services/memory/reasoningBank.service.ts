@@ -5,7 +5,7 @@
  */
 
 import { getDb } from "../../db";
-import { eq, and, desc, sql, gte, type SQL } from "drizzle-orm";
+import { eq, ne, or, and, desc, sql, gte, isNotNull, isNull, notInArray, type SQL } from "drizzle-orm";
 import { reasoningPatterns } from "./schema";
 import type {
   ReasoningPattern,
@@ -15,6 +15,23 @@ import type {
 } from "./types";
 import { v4 as uuidv4 } from "uuid";
 import { getTenantService } from "../tenantIsolation.service";
+import { generateEmbedding, generateEmbeddings, getEmbeddingModelId } from "../../rag/embeddings";
+
+/**
+ * Weight of vector similarity in the hybrid score (keyword overlap gets the rest)
+ */
+const VECTOR_WEIGHT = 0.7;
+
+/**
+ * Minimum hybrid score for semantic matches, so unrelated patterns
+ * in the same domain are not returned just because they are nearest
+ */
+const DEFAULT_MIN_SIMILARITY = 0.4;
+
+/**
+ * Vector candidates fetched per requested result before re-ranking
+ */
+const CANDIDATE_MULTIPLIER = 3;
 
 /**
  * Reasoning Bank Service - Manages reasoning patterns and learning
@@ -82,6 +99,8 @@ export class ReasoningBankService {
       throw new Error("Database not initialized");
     }
 
+    const embedding = options.embedding ?? await this.embedPattern(pattern);
+
     // Apply tenant isolation to domain
     const tenantDomain = this.getTenantDomain(options.domain);
 
@@ -126,7 +145,8 @@ export class ReasoningBankService {
       domain: tenantDomain,
       tags: (options.tags || []) as any,
       metadata: reasoningPattern.metadata as any,
-      embedding: options.embedding ? (options.embedding as any) : null,
+      embedding,
+      embeddingModel: embedding ? getEmbeddingModelId() : null,
       createdAt: now,
       updatedAt: now,
     });
@@ -146,6 +166,8 @@ export class ReasoningBankService {
 
   /**
    * Find similar reasoning patterns
+   * Ranks candidates by a hybrid of embedding similarity and keyword overlap,
+   * falling back to keyword matching when the query cannot be embedded.
    * Now with tenant isolation - only searches within tenant's patterns
    */
   async findSimilarReasoning(
@@ -153,6 +175,7 @@ export class ReasoningBankService {
     options: {
       domain?: string;
       minConfidence?: number;
+      minSimilarity?: number;
       limit?: number;
       tags?: string[];
     } = {}
@@ -162,6 +185,7 @@ export class ReasoningBankService {
       throw new Error("Database not initialized");
     }
 
+    const limit = options.limit || 10;
     const conditions: SQL<unknown>[] = [];
 
     // Add tenant domain filter
@@ -171,24 +195,141 @@ export class ReasoningBankService {
       conditions.push(gte(reasoningPatterns.confidence, options.minConfidence));
     }
 
-    // Simple text matching for now (can be enhanced with vector search later)
-    conditions.push(sql`${reasoningPatterns.pattern} ILIKE ${`%${query}%`}`);
+    const queryEmbedding = await this.embedPattern(query);
 
-    const dbQuery = db
+    // Keyword candidates
+    const keywordRows = await db
       .select()
       .from(reasoningPatterns)
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .where(and(...conditions, sql`${reasoningPatterns.pattern} ILIKE ${`%${query}%`}`))
       .orderBy(desc(reasoningPatterns.usageCount), desc(reasoningPatterns.confidence))
-      .limit(options.limit || 10);
+      .limit(limit);
 
-    const results = await dbQuery;
+    if (!queryEmbedding) {
+      return keywordRows.map(row => ({
+        id: row.patternId,
+        data: this.rowToReasoningPattern(row),
+        similarity: this.calculateSimilarity(query, row.pattern),
+        metadata: row.metadata as Record<string, any>,
+      }));
+    }
 
-    return results.map(row => ({
-      id: row.patternId,
-      data: this.rowToReasoningPattern(row),
-      similarity: this.calculateSimilarity(query, row.pattern),
-      metadata: row.metadata as Record<string, any>,
-    }));
+    // Vector candidates (nearest by cosine distance, same embedding model only)
+    const queryVector = JSON.stringify(queryEmbedding);
+    const distance = sql`${reasoningPatterns.embedding} <=> ${queryVector}::vector`;
+    const vectorRows = await db
+      .select({
+        row: reasoningPatterns,
+        vectorSimilarity: sql<number>`1 - (${distance})`,
+      })
+      .from(reasoningPatterns)
+      .where(and(
+        ...conditions,
+        isNotNull(reasoningPatterns.embedding),
+        eq(reasoningPatterns.embeddingModel, getEmbeddingModelId())
+      ))
+      .orderBy(distance)
+      .limit(limit * CANDIDATE_MULTIPLIER);
+
+    // Merge candidates and score them
+    const candidates = new Map<string, { row: typeof keywordRows[number]; vectorSimilarity?: number }>();
+    for (const row of keywordRows) {
+      candidates.set(row.patternId, { row });
+    }
+    for (const { row, vectorSimilarity } of vectorRows) {
+      candidates.set(row.patternId, { row, vectorSimilarity: Number(vectorSimilarity) });
+    }
+
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+
+    return Array.from(candidates.values())
+      .map(({ row, vectorSimilarity }) => {
+        const keywordSimilarity = this.calculateSimilarity(query, row.pattern);
+        // Rows not embedded with the current model are scored on keywords alone until the backfill reaches them
+        const similarity = vectorSimilarity === undefined
+          ? keywordSimilarity
+          : VECTOR_WEIGHT * vectorSimilarity + (1 - VECTOR_WEIGHT) * keywordSimilarity;
+
+        return {
+          id: row.patternId,
+          data: this.rowToReasoningPattern(row),
+          similarity,
+          metadata: row.metadata as Record<string, any>,
+        };
+      })
+      .filter(result => result.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Generate embeddings for patterns stored before vector search existed or
+   * embedded by a different model than the active embedding provider
+   * Processes rows in batches and returns counts
+   */
+  async backfillEmbeddings(options: {
+    batchSize?: number;
+    maxBatches?: number;
+  } = {}): Promise<{ processed: number; failed: number }> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+
+    const batchSize = options.batchSize || 50;
+    const maxBatches = options.maxBatches ?? Infinity;
+    let processed = 0;
+    let failed = 0;
+    const failedIds: string[] = [];
+    const modelId = getEmbeddingModelId();
+    const needsEmbedding = or(
+      isNull(reasoningPatterns.embedding),
+      isNull(reasoningPatterns.embeddingModel),
+      ne(reasoningPatterns.embeddingModel, modelId)
+    );
+
+    for (let batch = 0; batch < maxBatches; batch++) {
+      const rows = await db
+        .select({ patternId: reasoningPatterns.patternId, pattern: reasoningPatterns.pattern })
+        .from(reasoningPatterns)
+        .where(
+          failedIds.length > 0
+            ? and(needsEmbedding, notInArray(reasoningPatterns.patternId, failedIds))
+            : needsEmbedding
+        )
+        .limit(batchSize);
+
+      if (rows.length === 0) break;
+
+      let embeddings: number[][];
+      try {
+        embeddings = await generateEmbeddings(rows.map(row => row.pattern));
+      } catch (error) {
+        // Embedding API unavailable - stop and let the next run pick up the remaining rows
+        console.error("[ReasoningBank] Embedding backfill batch failed:", error);
+        failed += rows.length;
+        break;
+      }
+
+      // generateEmbeddings skips blank texts, so only pair up when counts match
+      if (embeddings.length !== rows.length) {
+        console.warn(`[ReasoningBank] Skipping backfill batch with blank patterns (${rows.length} rows)`);
+        failed += rows.length;
+        failedIds.push(...rows.map(row => row.patternId));
+        continue;
+      }
+
+      for (let i = 0; i < rows.length; i++) {
+        await db
+          .update(reasoningPatterns)
+          .set({ embedding: embeddings[i], embeddingModel: modelId })
+          .where(eq(reasoningPatterns.patternId, rows[i].patternId));
+      }
+      processed += rows.length;
+    }
+
+    // Cached patterns do not carry embeddings, so the cache stays valid
+    return { processed, failed };
   }
 
   /**
@@ -395,6 +536,23 @@ export class ReasoningBankService {
     return result.rowCount || 0;
   }
 
+  /**
+   * Embed pattern text, returning null when embeddings are unavailable
+   * (e.g. the provider is unreachable) so callers can fall back to keyword matching
+   */
+  private async embedPattern(text: string): Promise<number[] | null> {
+    if (!text || text.trim().length === 0) {
+      return null;
+    }
+
+    try {
+      return await generateEmbedding(text);
+    } catch (error) {
+      console.warn("[ReasoningBank] Embedding unavailable, using keyword matching:", error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
   /**
    * Calculate text similarity (simple implementation)
    */
@@ -0,0 +1,165 @@
+/**
+ * Reasoning Bank Tests
+ * Covers embedding on store, hybrid keyword + vector search and the embedding backfill
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockDb, mockGenerateEmbedding, mockGenerateEmbeddings } = vi.hoisted(() => {
+  const chain: any = {};
+  for (const method of ["select", "from", "where", "orderBy", "insert", "update", "set"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.limit = vi.fn();
+  chain.values = vi.fn().mockResolvedValue(undefined);
+
+  return {
+    mockDb: chain,
+    mockGenerateEmbedding: vi.fn(),
+    mockGenerateEmbeddings: vi.fn(),
+  };
+});
+
+vi.mock("../../db", () => ({
+  getDb: vi.fn().mockResolvedValue(mockDb),
+}));
+
+vi.mock("../../rag/embeddings", () => ({
+  generateEmbedding: mockGenerateEmbedding,
+  generateEmbeddings: mockGenerateEmbeddings,
+  getEmbeddingModelId: () => "openai/text-embedding-3-small",
+}));
+
+vi.mock("../tenantIsolation.service", () => ({
+  getTenantService: () => ({
+    hasTenantContext: () => false,
+    auditLog: vi.fn(),
+  }),
+}));
+
+import { ReasoningBankService } from "./reasoningBank.service";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const row = (patternId: string, pattern: string) => ({
+  patternId,
+  pattern,
+  result: { approach: patternId },
+  context: null,
+  confidence: 0.9,
+  usageCount: 3,
+  successRate: 1,
+  domain: "default",
+  tags: [],
+  metadata: {},
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastUsedAt: null,
+});
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("ReasoningBankService", () => {
+  let bank: ReasoningBankService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    bank = new ReasoningBankService();
+  });
+
+  it("should embed the pattern text when storing reasoning", async () => {
+    mockGenerateEmbedding.mockResolvedValue([0.1, 0.2, 0.3]);
+
+    await bank.storeReasoning("Update a GHL contact's phone number", { steps: 3 });
+
+    expect(mockGenerateEmbedding).toHaveBeenCalledWith("Update a GHL contact's phone number");
+    expect(mockDb.values.mock.calls[0][0].embedding).toEqual([0.1, 0.2, 0.3]);
+    expect(mockDb.values.mock.calls[0][0].embeddingModel).toBe("openai/text-embedding-3-small");
+  });
+
+  it("should still store reasoning when embeddings are unavailable", async () => {
+    mockGenerateEmbedding.mockRejectedValue(new Error("OPENAI_API_KEY environment variable is required"));
+
+    await bank.storeReasoning("Create a pipeline", { steps: 1 });
+
+    expect(mockDb.values.mock.calls[0][0].embedding).toBeNull();
+  });
+
+  it("should find a paraphrased pattern through vector similarity", async () => {
+    mockGenerateEmbedding.mockResolvedValue([0.5, 0.5]);
+    mockDb.limit
+      .mockResolvedValueOnce([]) // no keyword matches for the paraphrase
+      .mockResolvedValueOnce([
+        { row: row("p-phone", "update contact phone number in GHL"), vectorSimilarity: 0.86 },
+        { row: row("p-email", "send newsletter email campaign"), vectorSimilarity: 0.21 },
+      ]);
+
+    const results = await bank.findSimilarReasoning("change the phone of a GHL contact");
+
+    expect(results.map(r => r.id)).toEqual(["p-phone"]);
+    expect(results[0].similarity).toBeGreaterThan(0.6);
+  });
+
+  it("should rank by the hybrid of vector and keyword similarity", async () => {
+    mockGenerateEmbedding.mockResolvedValue([0.5, 0.5]);
+    mockDb.limit
+      .mockResolvedValueOnce([row("p-exact", "create ghl workflow")])
+      .mockResolvedValueOnce([
+        { row: row("p-close", "build an automation in ghl"), vectorSimilarity: 0.8 },
+        { row: row("p-exact", "create ghl workflow"), vectorSimilarity: 0.75 },
+      ]);
+
+    const results = await bank.findSimilarReasoning("create ghl workflow");
+
+    expect(results.map(r => r.id)).toEqual(["p-exact", "p-close"]);
+    expect(results[0].similarity).toBeCloseTo(0.7 * 0.75 + 0.3 * 1);
+  });
+
+  it("should fall back to keyword matching when the query cannot be embedded", async () => {
+    mockGenerateEmbedding.mockRejectedValue(new Error("rate limited"));
+    mockDb.limit.mockResolvedValueOnce([row("p-1", "create ghl workflow")]);
+
+    const results = await bank.findSimilarReasoning("create ghl workflow");
+
+    expect(results).toHaveLength(1);
+    expect(results[0].similarity).toBe(1);
+    expect(mockDb.limit).toHaveBeenCalledTimes(1);
+  });
+
+  it("should backfill embeddings for patterns stored without one", async () => {
+    mockDb.limit
+      .mockResolvedValueOnce([
+        { patternId: "p-1", pattern: "first pattern" },
+        { patternId: "p-2", pattern: "second pattern" },
+      ])
+      .mockResolvedValueOnce([]);
+    mockGenerateEmbeddings.mockResolvedValue([[0.1], [0.2]]);
+
+    const result = await bank.backfillEmbeddings({ batchSize: 2 });
+
+    expect(result).toEqual({ processed: 2, failed: 0 });
+    expect(mockGenerateEmbeddings).toHaveBeenCalledWith(["first pattern", "second pattern"]);
+    expect(mockDb.set).toHaveBeenCalledWith({ embedding: [0.1], embeddingModel: "openai/text-embedding-3-small" });
+    expect(mockDb.set).toHaveBeenCalledWith({ embedding: [0.2], embeddingModel: "openai/text-embedding-3-small" });
+  });
+
+  it("should stop the backfill when the embedding API fails", async () => {
+    mockDb.limit.mockResolvedValueOnce([{ patternId: "p-1", pattern: "first pattern" }]);
+    mockGenerateEmbeddings.mockRejectedValue(new Error("service unavailable"));
+
+    const result = await bank.backfillEmbeddings();
+
+    expect(result).toEqual({ processed: 0, failed: 1 });
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+});
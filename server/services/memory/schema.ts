@@ -3,7 +3,7 @@
  * Using Drizzle ORM for PostgreSQL
  */
 
-import { pgTable, text, integer, timestamp, jsonb, real, index, varchar, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, timestamp, jsonb, real, index, varchar, serial, vector } from "drizzle-orm/pg-core";
 
 /**
  * Memory entries table - stores agent context and data
@@ -44,7 +44,8 @@ export const reasoningPatterns = pgTable("reasoning_patterns", {
   domain: varchar("domain", { length: 255 }),
   tags: jsonb("tags").default([]),
   metadata: jsonb("metadata").default({}),
-  embedding: jsonb("embedding"),
+  embedding: vector("embedding", { dimensions: 1536 }), // Pattern text embedding for semantic search
+  embeddingModel: varchar("embedding_model", { length: 100 }), // Model that produced the embedding
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   lastUsedAt: timestamp("last_used_at"),
@@ -3,6 +3,7 @@
  * Parses incoming messages, extracts intent, and creates tasks
  * Uses AI to understand natural language instructions
  * Supports both Claude (Anthropic) and OpenAI for intent extraction
+ * Queues workflow runs requested by message and reports back when they finish
  */
 
 import { getDb } from "../db";
@@ -15,7 +16,8 @@ import {
 import { automationWorkflows } from "../../drizzle/schema";
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
-// import { addWorkflowExecutionJob } from "../workers/workflowWorker"; // Not exported
+import type { WorkflowExecutionJobData } from "../_core/queue";
+import { queueWorkflowRun } from "./workflowTriggers.service";
 
 // ========================================
 // TYPES
@@ -66,6 +68,43 @@ export interface ProcessingResult {
   error?: string;
 }
 
+export interface WorkflowOutcome {
+  executionId: number;
+  workflowId: number;
+  status: "completed" | "failed";
+  error?: string;
+  stepsCompleted?: number;
+}
+
+type InboundMessage = typeof inboundMessages.$inferSelect;
+
+// ========================================
+// HELPERS
+// ========================================
+
+/**
+ * Pull workflow variables out of a command without AI
+ * Supports "key: value" / "key=value" pairs and a trailing "for <target>",
+ * e.g. "run the onboarding workflow for Acme" -> { target: "Acme" }
+ * Keys must follow whitespace or the start of the message and "://" is not a
+ * separator, so URLs and their query strings aren't read as parameters
+ */
+export function extractWorkflowParameters(content: string, workflowName: string): Record<string, string> {
+  const parameters: Record<string, string> = {};
+
+  for (const match of content.matchAll(/(?<=^|\s)([a-zA-Z]\w*)\s*[:=](?!\/\/)\s*("[^"]*"|'[^']*'|[^\s,;]+)/g)) {
+    parameters[match[1]] = match[2].replace(/^["']|["']$/g, "");
+  }
+
+  const afterName = content.slice(content.toLowerCase().indexOf(workflowName.toLowerCase()) + workflowName.length);
+  const target = afterName.match(/\bfor\s+([^,;.!?\n]+?)\s*(?:[,;.!?\n]|$)/i);
+  if (target && !/[:=]/.test(target[1])) {
+    parameters.target = target[1].trim();
+  }
+
+  return parameters;
+}
+
 // ========================================
 // MESSAGE PROCESSING SERVICE
 // ========================================
@@ -134,6 +173,7 @@ export class MessageProcessingService {
         .where(eq(inboundMessages.id, messageId));
 
       let taskId: number | undefined;
+      let executionId: number | undefined;
       let reply: string;
 
       // Handle based on intent
@@ -145,14 +185,11 @@ export class MessageProcessingService {
               userId,
               parsed.workflowId,
               parsed.workflowParameters || {},
-              message.id
+              message
             );
             if (result.success) {
-              reply = `Starting workflow "${parsed.workflowName || parsed.workflowId}"...\n\nExecution ID: ${result.executionId}\nI'll notify you when it's complete.`;
-              await db
-                .update(inboundMessages)
-                .set({ processingStatus: "workflow_triggered" })
-                .where(eq(inboundMessages.id, messageId));
+              executionId = result.executionId;
+              reply = `Starting workflow "${result.workflowName || parsed.workflowName || parsed.workflowId}"...\n\nExecution ID: ${result.executionId}\nI'll notify you when it's complete.`;
             } else {
               reply = `Failed to start workflow: ${result.error}`;
             }
@@ -228,7 +265,7 @@ export class MessageProcessingService {
       await db
         .update(inboundMessages)
         .set({
-          processingStatus: taskId ? "task_created" : "responded",
+          processingStatus: taskId ? "task_created" : executionId ? "workflow_triggered" : "responded",
           processedAt: new Date(),
         })
         .where(eq(inboundMessages.id, messageId));
@@ -251,7 +288,7 @@ export class MessageProcessingService {
           .where(eq(botConversations.id, message.conversationId));
       }
 
-      return { success: true, taskId, reply };
+      return { success: true, taskId, executionId, reply };
     } catch (error) {
       console.error("Message processing error:", error);
 
@@ -621,7 +658,7 @@ Return only valid JSON, no markdown.`,
       urgency,
       workflowId: matchedWorkflow?.id,
       workflowName: matchedWorkflow?.name,
-      workflowParameters: {},
+      workflowParameters: matchedWorkflow ? extractWorkflowParameters(content, matchedWorkflow.name) : {},
       taskTitle,
       taskDescription: content,
       taskType,
@@ -772,20 +809,143 @@ You can:
 
   /**
    * Trigger a workflow execution
+   * Creates a pending execution so the sender gets its ID right away, then
+   * queues the run (see queueWorkflowRun).
    */
   private async triggerWorkflow(
     userId: number,
     workflowId: number,
     parameters: Record<string, any>,
-    messageId: number
-  ): Promise<{ success: boolean; executionId?: number; error?: string }> {
-    // TODO: Implement workflow triggering when addWorkflowExecutionJob is exported
-    return {
-      success: false,
-      error: "Workflow triggering not yet implemented"
-    };
+    message: InboundMessage
+  ): Promise<{ success: boolean; executionId?: number; workflowName?: string; error?: string }> {
+    const db = await getDb();
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    try {
+      const [workflow] = await db
+        .select({
+          id: automationWorkflows.id,
+          name: automationWorkflows.name,
+          isActive: automationWorkflows.isActive,
+        })
+        .from(automationWorkflows)
+        .where(and(eq(automationWorkflows.id, workflowId), eq(automationWorkflows.userId, userId)))
+        .limit(1);
+
+      if (!workflow) {
+        return { success: false, error: "Workflow not found" };
+      }
+      if (!workflow.isActive) {
+        return { success: false, error: `Workflow "${workflow.name}" is not active` };
+      }
+
+      const { executionId } = await queueWorkflowRun({
+        userId,
+        workflowId,
+        variables: parameters,
+        triggerId: `message-${message.id}`,
+        conversationId: message.conversationId ?? undefined,
+        messageId: message.id,
+      });
+
+      return { success: true, executionId, workflowName: workflow.name };
+    } catch (error) {
+      console.error("Failed to trigger workflow:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
   }
 
+  /**
+   * Tell the sender how a message-triggered workflow run ended
+   * Replies through the conversation's webhook, threaded to the triggering message
+   */
+  async notifyWorkflowOutcome(
+    job: Pick<WorkflowExecutionJobData, "conversationId" | "messageId">,
+    outcome: WorkflowOutcome
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!job.conversationId) {
+      return { success: false, error: "No conversation to notify" };
+    }
+
+    const db = await getDb();
+    if (!db) {
+      return { success: false, error: "Database not initialized" };
+    }
+
+    try {
+      const conversationId = parseInt(job.conversationId, 10);
+      const [conversation] = await db
+        .select()
+        .from(botConversations)
+        .where(eq(botConversations.id, conversationId))
+        .limit(1);
+
+      if (!conversation?.webhookId) {
+        return { success: false, error: "Conversation has no webhook" };
+      }
+
+      const [workflow] = await db
+        .select({ name: automationWorkflows.name })
+        .from(automationWorkflows)
+        .where(eq(automationWorkflows.id, outcome.workflowId))
+        .limit(1);
+      const workflowName = workflow?.name || `#${outcome.workflowId}`;
+
+      let inboundMessageId: number | undefined;
+      let inReplyTo: string | undefined;
+      if (job.messageId) {
+        inboundMessageId = parseInt(job.messageId, 10);
+        const [inbound] = await db
+          .select({ externalMessageId: inboundMessages.externalMessageId })
+          .from(inboundMessages)
+          .where(eq(inboundMessages.id, inboundMessageId))
+          .limit(1);
+        inReplyTo = inbound?.externalMessageId || undefined;
+      }
+
+      const content = outcome.status === "completed"
+        ? `Workflow "${workflowName}" completed.\n\nExecution ID: ${outcome.executionId}${
+          outcome.stepsCompleted !== undefined ? `\nSteps completed: ${outcome.stepsCompleted}` : ""}`
+        : `Workflow "${workflowName}" failed.\n\nExecution ID: ${outcome.executionId}\nError: ${outcome.error || "Unknown error"}`;
+
+      // Imported lazily: the webhook receiver depends on this service
+      const { webhookReceiverService } = await import("./webhookReceiver.service");
+      const result = await webhookReceiverService.sendReply(
+        conversation.webhookId,
+        conversation.participantIdentifier,
+        content,
+        {
+          inboundMessageId,
+          conversationId,
+          messageType: "notification",
+          subject: `Workflow "${workflowName}" ${outcome.status}`,
+          inReplyTo,
+        }
+      );
+
+      await db
+        .update(botConversations)
+        .set({
+          contextSummary: `Last update: workflow "${workflowName}" ${outcome.status} (execution ${outcome.executionId})`,
+          lastMessageAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(botConversations.id, conversationId));
+
+      return { success: result.success, error: result.error };
+    } catch (error) {
+      console.error("Failed to send workflow notification:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
 
   /**
    * Handle list workflows request
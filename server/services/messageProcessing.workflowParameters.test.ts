@@ -0,0 +1,49 @@
+/**
+ * Workflow Parameter Extraction Tests
+ * Covers pulling key/value pairs and targets out of workflow commands
+ */
+
+import { describe, it, expect, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+vi.mock("../db", () => ({
+  getDb: vi.fn(),
+}));
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: vi.fn(),
+}));
+
+vi.mock("openai", () => ({
+  default: vi.fn(),
+}));
+
+vi.mock("./workflowTriggers.service", () => ({
+  queueWorkflowRun: vi.fn(),
+}));
+
+import { extractWorkflowParameters } from "./messageProcessing.service";
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("extractWorkflowParameters", () => {
+  it("should read key/value pairs and a trailing target", () => {
+    expect(
+      extractWorkflowParameters('run onboarding for Acme Corp, plan: pro owner="Jane Doe"', "onboarding")
+    ).toEqual({ plan: "pro", owner: "Jane Doe", target: "Acme Corp" });
+  });
+
+  it("should not read URLs or their query strings as parameters", () => {
+    expect(
+      extractWorkflowParameters(
+        "run site audit on https://example.com/page?utm=ads&ref=email:promo url=https://example.com/a?b=c",
+        "site audit"
+      )
+    ).toEqual({ url: "https://example.com/a?b=c" });
+  });
+});
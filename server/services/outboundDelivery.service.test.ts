@@ -0,0 +1,420 @@
+/**
+ * Outbound Delivery Tests
+ * Covers reply delivery through Twilio, SMTP and custom webhooks, outbound
+ * message records, and Twilio/email delivery status callbacks
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import crypto from "crypto";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockDb, mockSendMail, mockCreateTransport } = vi.hoisted(() => {
+  const chain: any = {};
+  for (const method of ["select", "from", "where", "insert", "values", "update", "set"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.limit = vi.fn();
+  chain.returning = vi.fn();
+
+  const mockSendMail = vi.fn();
+  return {
+    mockDb: chain,
+    mockSendMail,
+    mockCreateTransport: vi.fn(() => ({ sendMail: mockSendMail })),
+  };
+});
+
+vi.mock("../db", () => ({
+  getDb: vi.fn().mockResolvedValue(mockDb),
+}));
+
+vi.mock("nodemailer", () => ({
+  default: { createTransport: mockCreateTransport },
+}));
+
+vi.mock("./messageProcessing.service", () => ({
+  MessageProcessingService: vi.fn(),
+}));
+
+import { outboundDeliveryService, type Webhook } from "./outboundDelivery.service";
+import {
+  webhookReceiverService,
+  parseEmailStatusEvents,
+  verifyMailgunSignature,
+  verifySendGridSignature,
+} from "./webhookReceiver.service";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const webhook = (overrides: Partial<Webhook> = {}): Webhook =>
+  ({
+    id: 3,
+    userId: 1,
+    webhookToken: "0b7c9d6e-1111-4222-8333-944455556666",
+    channelType: "sms",
+    outboundEnabled: true,
+    providerConfig: {
+      twilioAccountSid: "AC123",
+      twilioAuthToken: "twilio-token",
+      twilioPhoneNumber: "+15550001111",
+    },
+    outboundConfig: null,
+    secretKey: null,
+    totalMessagesSent: 0,
+    ...overrides,
+  }) as Webhook;
+
+const message = {
+  id: 42,
+  recipient: "+15552223333",
+  content: "Your task has been created",
+  messageType: "reply",
+};
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 200 || status === 201 ? "OK" : "Error",
+  json: async () => body,
+});
+
+const setCalls = () => mockDb.set.mock.calls.map(([values]: [Record<string, unknown>]) => values);
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Outbound Delivery", () => {
+  const originalAppUrl = process.env.APP_URL;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.APP_URL = "https://app.example.com";
+  });
+
+  afterEach(() => {
+    process.env.APP_URL = originalAppUrl;
+    vi.unstubAllGlobals();
+  });
+
+  // ========================================
+  // CHANNEL DELIVERY TESTS
+  // ========================================
+
+  describe("Twilio SMS", () => {
+    it("should send through the Messages API with a status callback", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(201, { sid: "SM999", status: "queued" }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await outboundDeliveryService.deliver(webhook(), message);
+
+      expect(result).toMatchObject({ status: "sent", externalMessageId: "SM999" });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json");
+      const body = new URLSearchParams(init.body);
+      expect(body.get("From")).toBe("+15550001111");
+      expect(body.get("To")).toBe("+15552223333");
+      expect(body.get("StatusCallback")).toBe(
+        "https://app.example.com/api/webhooks/twilio/status/0b7c9d6e-1111-4222-8333-944455556666"
+      );
+    });
+
+    it("should prefer a messaging service from the outbound config", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(201, { sid: "SM1" }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await outboundDeliveryService.deliver(webhook({ outboundConfig: { twilioMessagingServiceSid: "MG1" } }), message);
+
+      const body = new URLSearchParams(fetchMock.mock.calls[0][1].body);
+      expect(body.get("MessagingServiceSid")).toBe("MG1");
+      expect(body.has("From")).toBe(false);
+    });
+
+    it("should surface Twilio API errors", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse(400, { message: "Invalid 'To' Phone Number" })));
+
+      await expect(outboundDeliveryService.deliver(webhook(), message)).rejects.toThrow(
+        "Twilio API error (400): Invalid 'To' Phone Number"
+      );
+    });
+  });
+
+  describe("SMTP email", () => {
+    it("should send a threaded reply through the channel's SMTP server", async () => {
+      mockSendMail.mockResolvedValue({ messageId: "<abc@mail.example.com>", rejected: [], response: "250 OK" });
+      const emailWebhook = webhook({
+        channelType: "email",
+        providerConfig: null,
+        outboundConfig: { smtpHost: "smtp.example.com", smtpPort: 465, smtpUser: "bot", smtpPassword: "pw", fromAddress: "bot@example.com" },
+      });
+
+      const result = await outboundDeliveryService.deliver(emailWebhook, {
+        ...message,
+        recipient: "client@example.com",
+        subject: "Re: Website update",
+        inReplyTo: "<in-1@example.com>",
+      });
+
+      expect(result).toMatchObject({ status: "sent", externalMessageId: "abc@mail.example.com" });
+      expect(mockCreateTransport).toHaveBeenCalledWith(
+        expect.objectContaining({ host: "smtp.example.com", port: 465, secure: true, auth: { user: "bot", pass: "pw" } })
+      );
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({ from: "bot@example.com", to: "client@example.com", inReplyTo: "<in-1@example.com>" })
+      );
+    });
+
+    it("should require an SMTP host", async () => {
+      await expect(
+        outboundDeliveryService.deliver(webhook({ channelType: "email", providerConfig: null }), message)
+      ).rejects.toThrow("SMTP host is required");
+    });
+  });
+
+  describe("custom webhook", () => {
+    it("should POST a signed reply and mark it delivered", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { id: "ext-7" }));
+      vi.stubGlobal("fetch", fetchMock);
+      const customWebhook = webhook({
+        channelType: "custom_webhook",
+        secretKey: "secret",
+        providerConfig: null,
+        outboundConfig: { outboundWebhookUrl: "https://hooks.example.com/reply", authType: "bearer", authToken: "tok" },
+      });
+
+      const result = await outboundDeliveryService.deliver(customWebhook, message);
+
+      expect(result).toMatchObject({ status: "delivered", externalMessageId: "ext-7" });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://hooks.example.com/reply");
+      expect(init.headers.Authorization).toBe("Bearer tok");
+      expect(init.headers["X-Webhook-Signature"]).toBe(
+        crypto.createHmac("sha256", "secret").update(init.body).digest("hex")
+      );
+      expect(JSON.parse(init.body)).toMatchObject({ messageId: 42, content: "Your task has been created" });
+    });
+  });
+
+  // ========================================
+  // OUTBOUND RECORD TESTS
+  // ========================================
+
+  describe("sendReply", () => {
+    it("should record the provider message id", async () => {
+      mockDb.limit.mockResolvedValueOnce([webhook()]);
+      mockDb.returning.mockResolvedValueOnce([{ id: 42 }]);
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse(201, { sid: "SM999" })));
+
+      const result = await webhookReceiverService.sendReply(3, "+15552223333", "Done");
+
+      expect(result).toEqual({ success: true, messageId: 42, externalMessageId: "SM999" });
+      expect(setCalls()[0]).toMatchObject({ deliveryStatus: "sent", externalMessageId: "SM999" });
+    });
+
+    it("should mark the message failed when delivery fails", async () => {
+      mockDb.limit.mockResolvedValueOnce([webhook({ providerConfig: null })]);
+      mockDb.returning.mockResolvedValueOnce([{ id: 43 }]);
+
+      const result = await webhookReceiverService.sendReply(3, "+15552223333", "Done");
+
+      expect(result.success).toBe(false);
+      expect(setCalls()).toEqual([
+        expect.objectContaining({ deliveryStatus: "failed", deliveryError: expect.stringContaining("Twilio account SID") }),
+      ]);
+    });
+  });
+
+  // ========================================
+  // STATUS CALLBACK TESTS
+  // ========================================
+
+  describe("delivery status callbacks", () => {
+    const callbackUrl = "https://app.example.com/api/webhooks/twilio/status/0b7c9d6e-1111-4222-8333-944455556666";
+    const sign = (params: Record<string, string>) =>
+      crypto
+        .createHmac("sha1", "twilio-token")
+        .update(Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], callbackUrl))
+        .digest("base64");
+
+    it("should update an SMS to delivered from a signed Twilio callback", async () => {
+      const params = { MessageSid: "SM999", MessageStatus: "delivered" };
+      mockDb.limit
+        .mockResolvedValueOnce([webhook()])
+        .mockResolvedValueOnce([{ id: 42, deliveryStatus: "sent", deliveredAt: null, readAt: null }]);
+
+      const result = await webhookReceiverService.handleTwilioStatusCallback(
+        webhook().webhookToken, params, sign(params), callbackUrl
+      );
+
+      expect(result).toEqual({ success: true, updated: true });
+      expect(setCalls()[0]).toMatchObject({ deliveryStatus: "delivered", deliveredAt: expect.any(Date) });
+    });
+
+    it("should reject Twilio callbacks with a bad signature", async () => {
+      mockDb.limit.mockResolvedValueOnce([webhook()]);
+
+      const result = await webhookReceiverService.handleTwilioStatusCallback(
+        webhook().webhookToken, { MessageSid: "SM999", MessageStatus: "delivered" }, "bogus", callbackUrl
+      );
+
+      expect(result).toEqual({ success: false, error: "Authentication failed" });
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject Twilio callbacks for channels without an auth token", async () => {
+      const params = { MessageSid: "SM999", MessageStatus: "delivered" };
+      mockDb.limit.mockResolvedValueOnce([webhook({ providerConfig: { twilioAccountSid: "AC123" } })]);
+
+      const result = await webhookReceiverService.handleTwilioStatusCallback(
+        webhook().webhookToken, params, sign(params), callbackUrl
+      );
+
+      expect(result).toEqual({ success: false, error: "Authentication failed" });
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it("should not move status backwards on out-of-order callbacks", async () => {
+      const params = { MessageSid: "SM999", MessageStatus: "sent" };
+      mockDb.limit
+        .mockResolvedValueOnce([webhook()])
+        .mockResolvedValueOnce([{ id: 42, deliveryStatus: "delivered" }]);
+
+      const result = await webhookReceiverService.handleTwilioStatusCallback(
+        webhook().webhookToken, params, sign(params), callbackUrl
+      );
+
+      expect(result.updated).toBe(false);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it("should record bounces from email events signed over the raw body", async () => {
+      const rawBody = Buffer.from('[{"event":"bounce", "smtp-id":"<abc@mail.example.com>", "reason":"550 mailbox unavailable"}]');
+      const signature = crypto.createHmac("sha256", "whsec").update(rawBody).digest("hex");
+      mockDb.limit
+        .mockResolvedValueOnce([webhook({ channelType: "email", secretKey: "whsec" })])
+        .mockResolvedValueOnce([{ id: 50, deliveryStatus: "sent", deliveryError: null }]);
+
+      const result = await webhookReceiverService.handleEmailStatusCallback(
+        webhook().webhookToken, JSON.parse(rawBody.toString()), rawBody, { "x-webhook-signature": signature }
+      );
+
+      expect(result).toEqual({ success: true, updated: 1 });
+      expect(setCalls()[0]).toMatchObject({ deliveryStatus: "bounced", deliveryError: "550 mailbox unavailable" });
+    });
+
+    it("should reject email status events without a valid signature", async () => {
+      const events = [{ event: "delivered", "smtp-id": "<abc@mail.example.com>" }];
+      const rawBody = Buffer.from(JSON.stringify(events));
+      const cases: Array<[Buffer | undefined, string | undefined]> = [
+        [rawBody, undefined],
+        [rawBody, "bogus"],
+        [rawBody, crypto.createHmac("sha256", "other").update(rawBody).digest("hex")],
+        // A signature is only checked against the raw body, never re-serialized JSON
+        [undefined, crypto.createHmac("sha256", "whsec").update(rawBody).digest("hex")],
+      ];
+      for (const [body, signature] of cases) {
+        mockDb.limit.mockResolvedValueOnce([webhook({ channelType: "email", secretKey: "whsec" })]);
+        const headers: Record<string, string> = signature ? { "x-webhook-signature": signature } : {};
+        const result = await webhookReceiverService.handleEmailStatusCallback(webhook().webhookToken, events, body, headers);
+        expect(result).toEqual({ success: false, error: "Authentication failed" });
+      }
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it("should accept SendGrid signed event webhooks", async () => {
+      const { publicKey, privateKey } = crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+      const verificationKey = publicKey.export({ format: "der", type: "spki" }).toString("base64");
+      const rawBody = Buffer.from('[{"event":"delivered","sg_message_id":"sg1.filter","smtp-id":"<abc@mail.example.com>"}]');
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const signature = crypto.sign("sha256", Buffer.concat([Buffer.from(timestamp), rawBody]), privateKey).toString("base64");
+      const sendgridWebhook = webhook({
+        channelType: "email",
+        providerConfig: { sendgridVerificationKey: verificationKey },
+      });
+      const headers = (sig: string) => ({
+        "x-twilio-email-event-webhook-signature": sig,
+        "x-twilio-email-event-webhook-timestamp": timestamp,
+      });
+
+      mockDb.limit.mockResolvedValueOnce([sendgridWebhook]);
+      expect(
+        await webhookReceiverService.handleEmailStatusCallback(
+          sendgridWebhook.webhookToken, JSON.parse(rawBody.toString()), Buffer.from(rawBody.toString() + " "), headers(signature)
+        )
+      ).toEqual({ success: false, error: "Authentication failed" });
+
+      mockDb.limit
+        .mockResolvedValueOnce([sendgridWebhook])
+        .mockResolvedValueOnce([{ id: 52, deliveryStatus: "sent", deliveredAt: null }]);
+      expect(
+        await webhookReceiverService.handleEmailStatusCallback(
+          sendgridWebhook.webhookToken, JSON.parse(rawBody.toString()), rawBody, headers(signature)
+        )
+      ).toEqual({ success: true, updated: 1 });
+
+      expect(
+        verifySendGridSignature(rawBody, signature, timestamp, verificationKey, (Number(timestamp) + 3600) * 1000)
+      ).toBe(false);
+    });
+
+    it("should accept Mailgun events signed with the channel's signing key", async () => {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const mailgunSignature = (key: string) => ({
+        timestamp,
+        token: "tok123",
+        signature: crypto.createHmac("sha256", key).update(`${timestamp}tok123`).digest("hex"),
+      });
+      const payload = (key: string) => ({
+        signature: mailgunSignature(key),
+        "event-data": { event: "delivered", message: { headers: { "message-id": "m1@mg.example.com" } } },
+      });
+      const mailgunWebhook = webhook({
+        channelType: "email",
+        providerConfig: { mailgunSigningKey: "mg-key" },
+      });
+
+      mockDb.limit.mockResolvedValueOnce([mailgunWebhook]);
+      expect(
+        await webhookReceiverService.handleEmailStatusCallback(mailgunWebhook.webhookToken, payload("wrong"), undefined, {})
+      ).toEqual({ success: false, error: "Authentication failed" });
+
+      mockDb.limit
+        .mockResolvedValueOnce([mailgunWebhook])
+        .mockResolvedValueOnce([{ id: 51, deliveryStatus: "sent", deliveredAt: null }]);
+      expect(
+        await webhookReceiverService.handleEmailStatusCallback(mailgunWebhook.webhookToken, payload("mg-key"), undefined, {})
+      ).toEqual({ success: true, updated: 1 });
+    });
+
+    it("should reject stale Mailgun signatures", () => {
+      const timestamp = "1700000000";
+      const payload = {
+        signature: {
+          timestamp,
+          token: "tok",
+          signature: crypto.createHmac("sha256", "mg-key").update(`${timestamp}tok`).digest("hex"),
+        },
+      };
+
+      expect(verifyMailgunSignature(payload, "mg-key", 1700000000 * 1000)).toBe(true);
+      expect(verifyMailgunSignature(payload, "mg-key", (1700000000 + 3600) * 1000)).toBe(false);
+    });
+
+    it("should parse Mailgun and generic email events", () => {
+      expect(parseEmailStatusEvents({
+        "event-data": { event: "opened", message: { headers: { "message-id": "m1@mg.example.com" } } },
+      })).toEqual([{ externalMessageId: "m1@mg.example.com", status: "read", error: undefined }]);
+
+      expect(parseEmailStatusEvents({ messageId: "<m2@x>", status: "delivered" })).toEqual([
+        { externalMessageId: "m2@x", status: "delivered", error: undefined },
+      ]);
+
+      expect(parseEmailStatusEvents([{ event: "deferred", "smtp-id": "<m3@x>" }])).toEqual([]);
+    });
+  });
+});
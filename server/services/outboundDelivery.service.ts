@@ -0,0 +1,253 @@
+/**
+ * Outbound Delivery Service
+ * Sends bot replies through a webhook channel's outbound configuration
+ *
+ * - sms: Twilio Messages API, with a status callback for delivery updates
+ * - email: SMTP via nodemailer
+ * - custom_webhook: signed HTTP request to the configured outbound URL
+ *
+ * Channel config is providerConfig with outboundConfig overrides, using the
+ * keys accepted by the webhooks router (twilioAccountSid, smtpHost, ...)
+ */
+
+import crypto from "crypto";
+import nodemailer from "nodemailer";
+import { userWebhooks } from "../../drizzle/schema-webhooks";
+import { serviceLoggers } from "../lib/logger";
+
+const logger = serviceLoggers.webhook;
+
+const TWILIO_API_BASE = "https://api.twilio.com/2010-04-01";
+const DELIVERY_TIMEOUT_MS = 15000;
+
+export type Webhook = typeof userWebhooks.$inferSelect;
+
+export type DeliveryStatus = "pending" | "sent" | "delivered" | "read" | "failed" | "bounced";
+
+export interface OutboundDeliveryMessage {
+  id: number; // outboundMessages id
+  recipient: string;
+  content: string;
+  messageType: string;
+  subject?: string;
+  inReplyTo?: string; // Provider id of the message being answered
+  conversationId?: number;
+  taskId?: number;
+}
+
+export interface DeliveryResult {
+  status: DeliveryStatus;
+  externalMessageId?: string;
+  providerResponse?: Record<string, unknown>;
+}
+
+/**
+ * Merge inbound provider config with outbound overrides
+ */
+export function getChannelConfig(webhook: Webhook): Record<string, any> {
+  return {
+    ...((webhook.providerConfig as Record<string, any> | null) || {}),
+    ...((webhook.outboundConfig as Record<string, any> | null) || {}),
+  };
+}
+
+/**
+ * Public URL Twilio posts delivery status updates to
+ * Only available when APP_URL is configured, since Twilio needs a reachable URL
+ */
+export function getTwilioStatusCallbackUrl(webhookToken: string): string | undefined {
+  const baseUrl = process.env.APP_URL;
+  return baseUrl ? `${baseUrl.replace(/\/$/, "")}/api/webhooks/twilio/status/${webhookToken}` : undefined;
+}
+
+/**
+ * Strip angle brackets so SMTP Message-IDs match provider event ids
+ */
+export function normalizeEmailMessageId(messageId: string): string {
+  return messageId.trim().replace(/^<|>$/g, "");
+}
+
+export class OutboundDeliveryService {
+  /**
+   * Deliver a message through the webhook's channel
+   * Throws when the provider rejects the message or the channel isn't configured
+   */
+  async deliver(webhook: Webhook, message: OutboundDeliveryMessage): Promise<DeliveryResult> {
+    const config = getChannelConfig(webhook);
+
+    switch (webhook.channelType) {
+      case "sms":
+        return this.sendTwilioSms(webhook, config, message);
+      case "email":
+        return this.sendSmtpEmail(config, message);
+      case "custom_webhook":
+        return this.sendCustomWebhook(webhook, config, message);
+      default:
+        throw new Error(`Unknown channel type: ${webhook.channelType}`);
+    }
+  }
+
+  /**
+   * Send an SMS through the Twilio Messages API
+   */
+  private async sendTwilioSms(
+    webhook: Webhook,
+    config: Record<string, any>,
+    message: OutboundDeliveryMessage
+  ): Promise<DeliveryResult> {
+    const { twilioAccountSid, twilioAuthToken, twilioPhoneNumber, twilioMessagingServiceSid } = config;
+    if (!twilioAccountSid || !twilioAuthToken) {
+      throw new Error("Twilio account SID and auth token are required to send SMS");
+    }
+    if (!twilioPhoneNumber && !twilioMessagingServiceSid) {
+      throw new Error("A Twilio phone number or messaging service SID is required to send SMS");
+    }
+
+    const params = new URLSearchParams({ To: message.recipient, Body: message.content });
+    if (twilioMessagingServiceSid) {
+      params.set("MessagingServiceSid", twilioMessagingServiceSid);
+    } else {
+      params.set("From", twilioPhoneNumber);
+    }
+    const statusCallback = getTwilioStatusCallbackUrl(webhook.webhookToken);
+    if (statusCallback) {
+      params.set("StatusCallback", statusCallback);
+    }
+
+    const auth = Buffer.from(`${twilioAccountSid}:${twilioAuthToken}`).toString("base64");
+    const response = await fetch(`${TWILIO_API_BASE}/Accounts/${twilioAccountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${auth}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params.toString(),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    const data = await response.json().catch(() => ({})) as Record<string, any>;
+    if (!response.ok) {
+      throw new Error(`Twilio API error (${response.status}): ${data.message || response.statusText}`);
+    }
+
+    logger.info({ webhookId: webhook.id, sid: data.sid, status: data.status }, "SMS reply sent via Twilio");
+    return {
+      status: "sent",
+      externalMessageId: data.sid,
+      providerResponse: { sid: data.sid, status: data.status, statusCallback },
+    };
+  }
+
+  /**
+   * Send an email through the channel's SMTP server
+   */
+  private async sendSmtpEmail(
+    config: Record<string, any>,
+    message: OutboundDeliveryMessage
+  ): Promise<DeliveryResult> {
+    const { smtpHost, smtpPort, smtpUser, smtpPassword, fromAddress, replyToAddress } = config;
+    if (!smtpHost) {
+      throw new Error("SMTP host is required to send email");
+    }
+
+    const from = fromAddress || smtpUser;
+    if (!from) {
+      throw new Error("A from address is required to send email");
+    }
+
+    const port = smtpPort || 587;
+    const transporter = nodemailer.createTransport({
+      host: smtpHost,
+      port,
+      secure: port === 465,
+      auth: smtpUser ? { user: smtpUser, pass: smtpPassword } : undefined,
+      connectionTimeout: DELIVERY_TIMEOUT_MS,
+    });
+
+    const info = await transporter.sendMail({
+      from,
+      to: message.recipient,
+      replyTo: replyToAddress,
+      subject: message.subject || "Re: Your message",
+      text: message.content,
+      inReplyTo: message.inReplyTo,
+      references: message.inReplyTo,
+    });
+
+    if (info.rejected.length > 0) {
+      throw new Error(`SMTP server rejected recipient: ${info.rejected.join(", ")}`);
+    }
+
+    logger.info({ messageId: info.messageId }, "Email reply sent via SMTP");
+    return {
+      status: "sent",
+      externalMessageId: normalizeEmailMessageId(info.messageId),
+      providerResponse: { messageId: info.messageId, response: info.response },
+    };
+  }
+
+  /**
+   * POST the reply to the channel's outbound webhook URL
+   * A 2xx response means the receiver has the message, so it counts as delivered
+   */
+  private async sendCustomWebhook(
+    webhook: Webhook,
+    config: Record<string, any>,
+    message: OutboundDeliveryMessage
+  ): Promise<DeliveryResult> {
+    if (!config.outboundWebhookUrl) {
+      throw new Error("Outbound webhook URL is required to send replies");
+    }
+
+    const payloadString = JSON.stringify({
+      type: message.messageType,
+      messageId: message.id,
+      recipient: message.recipient,
+      content: message.content,
+      conversationId: message.conversationId,
+      taskId: message.taskId,
+      inReplyTo: message.inReplyTo,
+      timestamp: new Date().toISOString(),
+    });
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...(config.outboundHeaders || {}),
+    };
+    if (webhook.secretKey) {
+      headers["X-Webhook-Signature"] = crypto
+        .createHmac("sha256", webhook.secretKey)
+        .update(payloadString)
+        .digest("hex");
+    }
+    if (config.authType === "bearer" && config.authToken) {
+      headers["Authorization"] = `Bearer ${config.authToken}`;
+    } else if (config.authType === "api_key" && config.authToken) {
+      headers[config.authHeader || "X-API-Key"] = config.authToken;
+    }
+
+    const response = await fetch(config.outboundWebhookUrl, {
+      method: config.outboundMethod || "POST",
+      headers,
+      body: payloadString,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Outbound webhook returned ${response.status}: ${response.statusText}`);
+    }
+
+    // Use the receiver's id when it returns one, so it can report status later
+    const data = await response.json().catch(() => null) as Record<string, any> | null;
+    const externalId = data?.messageId ?? data?.id;
+
+    return {
+      status: "delivered",
+      externalMessageId: externalId !== undefined ? String(externalId) : undefined,
+      providerResponse: { statusCode: response.status, body: data },
+    };
+  }
+}
+
+// Export singleton instance
+export const outboundDeliveryService = new OutboundDeliveryService();
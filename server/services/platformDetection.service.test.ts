@@ -0,0 +1,204 @@
+/**
+ * Platform Detection Service Tests
+ * Covers keyword, URL and DOM scoring, DNS/domain flags, the DB-backed
+ * registry with tenant keywords, and seeding
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockDb, mockGetDb } = vi.hoisted(() => {
+  const chain: any = {};
+  for (const method of ["select", "from", "insert"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.where = vi.fn();
+  chain.values = vi.fn().mockResolvedValue(undefined);
+
+  return { mockDb: chain, mockGetDb: vi.fn() };
+});
+
+vi.mock("../db", () => ({
+  getDb: mockGetDb,
+}));
+
+import { PlatformDetectionService, getBuiltInSignals } from "./platformDetection.service";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const keywordRow = (platform: string, keyword: string, overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  platform,
+  keyword,
+  keywordType: "keyword",
+  weight: 5,
+  category: "custom",
+  userId: null,
+  isActive: true,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("PlatformDetectionService", () => {
+  let service: PlatformDetectionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetDb.mockResolvedValue(null);
+    service = new PlatformDetectionService();
+  });
+
+  // ========================================
+  // BUILT-IN REGISTRY TESTS
+  // ========================================
+
+  describe("detect with the built-in registry", () => {
+    it("should detect GoHighLevel from task keywords", async () => {
+      const result = await service.detect({ prompt: "Create a workflow in GHL that tags new contacts" });
+
+      expect(result.primaryPlatform).toBe("gohighlevel");
+      expect(result.confidence!.gohighlevel).toBeGreaterThan(0);
+    });
+
+    it("should match whole terms only", async () => {
+      const result = await service.detect({ prompt: "Highlight the wixed-up bullet points" });
+
+      expect(result.platforms).toEqual([]);
+    });
+
+    it("should detect platforms from URLs in the prompt and the url field", async () => {
+      const fromPrompt = await service.detect({ prompt: "Update the banner on mystore.myshopify.com/admin" });
+      const fromUrl = await service.detect({ prompt: "Log in and update the plugin", url: "https://example.com/wp-admin/plugins.php" });
+
+      expect(fromPrompt.primaryPlatform).toBe("shopify");
+      expect(fromUrl.primaryPlatform).toBe("wordpress");
+    });
+
+    it("should not treat lookalike hosts as platform domains", async () => {
+      const result = await service.detect({ prompt: "Open https://notshopify.com/page" });
+
+      expect(result.platforms).toEqual([]);
+    });
+
+    it("should detect platforms from DOM fingerprints", async () => {
+      const html = `<html><head><script src="//js.hs-scripts.com/123.js"></script></head>
+        <body><form id="hbspt.forms-1"></form></body></html>`;
+
+      const result = await service.detect({ prompt: "Fill in the contact form", html });
+
+      expect(result.platforms).toEqual(["hubspot"]);
+      expect(result.confidence!.hubspot).toBe(1);
+    });
+
+    it("should rank platforms by combined score", async () => {
+      const result = await service.detect({
+        prompt: "Point the GHL funnel domain at Cloudflare by adding a CNAME record",
+        url: "https://app.gohighlevel.com/settings/domain",
+      });
+
+      expect(result.platforms).toEqual(["gohighlevel", "cloudflare"]);
+      expect(result.isDnsRelated).toBe(true);
+      expect(result.isDomainRelated).toBe(true);
+    });
+
+    it("should ignore a lone ambiguous keyword", async () => {
+      const result = await service.detect({ prompt: "Install a plugin" });
+
+      expect(result.platforms).toEqual([]);
+      expect(result.isDnsRelated).toBe(false);
+    });
+  });
+
+  // ========================================
+  // DATABASE REGISTRY TESTS
+  // ========================================
+
+  describe("detect with the database registry", () => {
+    beforeEach(() => {
+      mockGetDb.mockResolvedValue(mockDb);
+    });
+
+    it("should apply a tenant's custom keywords", async () => {
+      mockDb.where.mockResolvedValueOnce([
+        keywordRow("gohighlevel", "ghl", { category: "built_in" }),
+        keywordRow("kajabi", "kajabi", { userId: 7 }),
+      ]);
+
+      const result = await service.detect({ prompt: "Add the member to the Kajabi course", userId: 7 });
+
+      expect(result.primaryPlatform).toBe("kajabi");
+    });
+
+    it("should use the built-in registry until global keywords are seeded", async () => {
+      mockDb.where.mockResolvedValueOnce([keywordRow("kajabi", "kajabi", { userId: 7 })]);
+
+      const result = await service.detect({ prompt: "Export the Shopify orders", userId: 7 });
+
+      expect(result.primaryPlatform).toBe("shopify");
+    });
+
+    it("should fall back to the built-in registry when the query fails", async () => {
+      mockDb.where.mockRejectedValueOnce(new Error("relation does not exist"));
+
+      const result = await service.detect({ prompt: "Edit the WordPress theme" });
+
+      expect(result.primaryPlatform).toBe("wordpress");
+    });
+
+    it("should list custom platforms as supported", async () => {
+      mockDb.where.mockResolvedValueOnce([keywordRow("kajabi", "kajabi", { userId: 7 })]);
+
+      const platforms = await service.getSupportedPlatforms(7);
+
+      expect(platforms).toContain("kajabi");
+      expect(platforms).toContain("gohighlevel");
+    });
+  });
+
+  // ========================================
+  // REGISTRY MANAGEMENT TESTS
+  // ========================================
+
+  describe("seedPlatformKeywords", () => {
+    it("should insert only missing built-in keywords", async () => {
+      mockGetDb.mockResolvedValue(mockDb);
+      mockDb.where.mockResolvedValueOnce([{ platform: "gohighlevel", keyword: "ghl", keywordType: "keyword" }]);
+
+      const inserted = await service.seedPlatformKeywords();
+
+      const rows = mockDb.values.mock.calls[0][0];
+      expect(inserted).toBe(getBuiltInSignals().length - 1);
+      expect(rows).toHaveLength(inserted);
+      expect(rows).not.toContainEqual(expect.objectContaining({ platform: "gohighlevel", keyword: "ghl" }));
+    });
+
+    it("should require a database", async () => {
+      await expect(service.seedPlatformKeywords()).rejects.toThrow("Database not available");
+    });
+  });
+
+  describe("addPlatformKeywords", () => {
+    it("should insert normalized, de-duplicated tenant keywords", async () => {
+      mockGetDb.mockResolvedValue(mockDb);
+      mockDb.where.mockResolvedValueOnce([{ keyword: "kajabi" }]);
+
+      const inserted = await service.addPlatformKeywords(" Kajabi ", ["Kajabi", "kajabi course", "Kajabi Course"], {
+        userId: 7,
+      });
+
+      expect(inserted).toBe(1);
+      expect(mockDb.values).toHaveBeenCalledWith([
+        expect.objectContaining({ platform: "kajabi", keyword: "kajabi course", keywordType: "keyword", userId: 7 }),
+      ]);
+    });
+  });
+});
@@ -1,10 +1,21 @@
 /**
  * Platform Detection Service
- * Detects platforms (GHL, WordPress, DNS providers, etc.) from user input
+ * Detects platforms (GHL, WordPress, Shopify, DNS providers, etc.) from user input
  *
- * TODO: Implement actual platform detection logic with ML or keyword matching
+ * Three kinds of signals are scored per platform:
+ * - keyword: terms in the task text or context ("ghl", "woocommerce")
+ * - url: hostnames and paths of URLs in the input ("myshopify.com", "/wp-admin")
+ * - dom: fingerprints in page HTML ("wp-content/", "cdn.shopify.com")
+ *
+ * The registry lives in platform_keywords. Global rows (userId null) are
+ * seeded from BUILT_IN_PLATFORMS; tenants can add their own rows, which only
+ * apply to their detections. Until the table is seeded the built-in
+ * definitions are used directly.
  */
 
+import { and, eq, isNull, or } from "drizzle-orm";
+import { getDb } from "../db";
+import { platformKeywords } from "../../drizzle/schema-rag";
 import { serviceLoggers } from '../lib/logger';
 
 const logger = serviceLoggers.platform;
@@ -13,6 +24,8 @@ export interface PlatformDetectionInput {
   prompt: string;
   url?: string;
   context?: string;
+  html?: string; // Page DOM, matched against dom fingerprints
+  userId?: number; // Includes the tenant's custom keywords
 }
 
 export interface PlatformDetectionResult {
@@ -23,86 +36,401 @@ export interface PlatformDetectionResult {
   confidence?: Record<string, number>;
 }
 
-class PlatformDetectionService {
+export type PlatformSignalType = "keyword" | "url" | "dom";
+
+export interface PlatformSignal {
+  platform: string;
+  type: PlatformSignalType;
+  value: string;
+  weight: number;
+}
+
+export interface AddPlatformKeywordsOptions {
+  userId?: number;
+  type?: PlatformSignalType;
+  weight?: number;
+}
+
+interface PlatformDefinition {
+  platform: string;
+  keywords: Record<string, number>;
+  urls: Record<string, number>;
+  dom: Record<string, number>;
+}
+
+/**
+ * Built-in platform registry, seeded into platform_keywords
+ * Weights: 1 = ambiguous term, 3 = strong hint, 5 = unambiguous
+ */
+export const BUILT_IN_PLATFORMS: PlatformDefinition[] = [
+  {
+    platform: "gohighlevel",
+    keywords: {
+      gohighlevel: 5, "go high level": 5, highlevel: 5, ghl: 5, leadconnector: 5,
+      "sub-account": 2, "sub account": 2, "smart list": 2, snapshot: 1, "conversation ai": 2,
+    },
+    urls: { "gohighlevel.com": 5, "leadconnectorhq.com": 5, "msgsndr.com": 5, "highlevel.com": 4 },
+    dom: { "leadconnectorhq.com": 4, msgsndr: 4, "widgets.leadconnectorhq.com": 5 },
+  },
+  {
+    platform: "shopify",
+    keywords: { shopify: 5, "shopify plus": 5, "liquid template": 3, "theme customizer": 2, "storefront api": 3 },
+    urls: { "myshopify.com": 5, "shopify.com": 5, "/admin/products": 2 },
+    dom: { "cdn.shopify.com": 5, "shopify.theme": 5, "shopify-section": 4 },
+  },
+  {
+    platform: "wordpress",
+    keywords: {
+      wordpress: 5, woocommerce: 5, "wp-admin": 5, elementor: 4, gutenberg: 3, yoast: 3, plugin: 1,
+    },
+    urls: { "wordpress.com": 5, "/wp-admin": 5, "/wp-login.php": 5, "/wp-content": 4 },
+    dom: { "wp-content/": 5, "wp-includes/": 5, "wp-json": 3 },
+  },
+  {
+    platform: "hubspot",
+    keywords: { hubspot: 5, "hubspot crm": 5, hubl: 4, "sales hub": 3, "marketing hub": 3 },
+    urls: { "hubspot.com": 5, "hs-sites.com": 5, "hubspotpagebuilder.com": 5 },
+    dom: { "js.hs-scripts.com": 5, "hs-analytics": 4, "hbspt.forms": 5 },
+  },
+  {
+    platform: "webflow",
+    keywords: { webflow: 5, "webflow cms": 5, "webflow designer": 5 },
+    urls: { "webflow.com": 5, "webflow.io": 5 },
+    dom: { "data-wf-site": 5, "data-wf-page": 5, "assets.website-files.com": 4 },
+  },
+  {
+    platform: "wix",
+    keywords: { wix: 5, "wix editor": 5, velo: 3 },
+    urls: { "wix.com": 5, "wixsite.com": 5 },
+    dom: { "static.wixstatic.com": 5, "wix-thunderbolt": 4 },
+  },
+  {
+    platform: "squarespace",
+    keywords: { squarespace: 5 },
+    urls: { "squarespace.com": 5 },
+    dom: { "static1.squarespace.com": 5, "squarespace-cdn.com": 5 },
+  },
+  {
+    platform: "cloudflare",
+    keywords: { cloudflare: 5, "cloudflare pages": 5, "cloudflare workers": 5, "proxied record": 3 },
+    urls: { "cloudflare.com": 5, "dash.cloudflare.com": 5, "pages.dev": 4, "workers.dev": 4 },
+    dom: { "cdn-cgi/": 3, "cf-ray": 3 },
+  },
+  {
+    platform: "namecheap",
+    keywords: { namecheap: 5, "advanced dns": 2 },
+    urls: { "namecheap.com": 5 },
+    dom: {},
+  },
+  {
+    platform: "godaddy",
+    keywords: { godaddy: 5, "go daddy": 5 },
+    urls: { "godaddy.com": 5 },
+    dom: { "img1.wsimg.com": 4 },
+  },
+  {
+    platform: "route53",
+    keywords: { route53: 5, "route 53": 5, "hosted zone": 3 },
+    urls: { "console.aws.amazon.com/route53": 5 },
+    dom: {},
+  },
+];
+
+// Terms that mark a DNS or domain-management task
+const DNS_TERMS = [
+  "dns", "a record", "aaaa record", "cname", "mx record", "txt record", "spf", "dkim", "dmarc",
+  "nameserver", "nameservers", "name server", "ttl", "dns propagation",
+];
+const DOMAIN_TERMS = [
+  "domain", "domains", "subdomain", "custom domain", "registrar", "whois", "domain transfer",
+  "ssl certificate", "ssl",
+];
+
+const MIN_SCORE = 2; // Lone ambiguous terms don't count as a detection
+const CONFIDENT_SCORE = 8; // Score at which confidence reaches 1
+const MAX_PLATFORMS = 3;
+const REGISTRY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s"'<>)]+/gi;
+const BARE_DOMAIN_PATTERN = /\b(?:[a-z0-9-]+\.)+[a-z]{2,}(?:\/[^\s"'<>)]*)?/gi;
+
+/**
+ * Flatten built-in definitions into registry signals
+ */
+export function getBuiltInSignals(): PlatformSignal[] {
+  const signals: PlatformSignal[] = [];
+  for (const definition of BUILT_IN_PLATFORMS) {
+    const groups: Array<[PlatformSignalType, Record<string, number>]> = [
+      ["keyword", definition.keywords],
+      ["url", definition.urls],
+      ["dom", definition.dom],
+    ];
+    for (const [type, values] of groups) {
+      for (const [value, weight] of Object.entries(values)) {
+        signals.push({ platform: definition.platform, type, value, weight });
+      }
+    }
+  }
+  return signals;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whole-term match, so "ghl" doesn't match inside "highlight"
+ */
+function containsTerm(text: string, term: string): boolean {
+  return new RegExp(`(?<![a-z0-9])${escapeRegExp(term)}(?![a-z0-9])`).test(text);
+}
+
+/**
+ * Extract "host/path" targets from an explicit URL and any URLs or bare
+ * domains mentioned in the text
+ */
+function extractUrlTargets(text: string, url?: string): string[] {
+  const candidates = [...(url ? [url] : []), ...(text.match(URL_PATTERN) || [])];
+  const bare = text.replace(URL_PATTERN, " ").match(BARE_DOMAIN_PATTERN) || [];
+  candidates.push(...bare.map((domain) => `https://${domain}`));
+
+  const targets: string[] = [];
+  for (const candidate of candidates) {
+    try {
+      const parsed = new URL(/^https?:\/\//i.test(candidate) ? candidate : `https://${candidate}`);
+      targets.push(`${parsed.hostname}${parsed.pathname}`.toLowerCase());
+    } catch {
+      // Not a URL
+    }
+  }
+  return targets;
+}
+
+/**
+ * Match a url signal against a "host/path" target. Patterns starting with "/"
+ * match paths; others match the hostname or any of its parent domains.
+ */
+function matchesUrl(target: string, pattern: string): boolean {
+  if (pattern.startsWith("/")) {
+    return target.slice(target.indexOf("/")).includes(pattern);
+  }
+  return `.${target}`.includes(`.${pattern}`);
+}
+
+export class PlatformDetectionService {
+  private registryCache = new Map<number, { signals: PlatformSignal[]; loadedAt: number }>();
+
   /**
    * Detect platforms from user input
-   * TODO: Implement keyword matching, URL analysis, and ML-based detection
    */
   async detect(input: PlatformDetectionInput): Promise<PlatformDetectionResult> {
-    // TODO:
-    // 1. Analyze prompt for platform-specific keywords
-    // 2. Parse URL if provided to detect platform
-    // 3. Check for DNS/domain-related terms
-    // 4. Calculate confidence scores
-    // 5. Return detected platforms with primary platform
+    const text = [input.prompt, input.context].filter(Boolean).join("\n").toLowerCase();
+    const urlTargets = extractUrlTargets(text, input.url);
+    const html = input.html?.toLowerCase() || "";
 
-    logger.debug({
-      prompt: input.prompt,
-      url: input.url,
-      hasContext: !!input.context
-    }, 'Platform detection requested - implementation pending');
-
-    // Default response
-    return {
-      platforms: [],
-      primaryPlatform: undefined,
-      isDnsRelated: false,
-      isDomainRelated: false,
-      confidence: {},
+    const signals = await this.getSignals(input.userId);
+    const scores = new Map<string, number>();
+
+    for (const signal of signals) {
+      const value = signal.value.toLowerCase();
+      let matched = false;
+      if (signal.type === "keyword") {
+        matched = containsTerm(text, value);
+      } else if (signal.type === "url") {
+        matched = urlTargets.some((target) => matchesUrl(target, value));
+      } else if (signal.type === "dom") {
+        matched = html.includes(value);
+      }
+
+      if (matched) {
+        scores.set(signal.platform, (scores.get(signal.platform) || 0) + signal.weight);
+      }
+    }
+
+    const ranked = Array.from(scores.entries())
+      .filter(([, score]) => score >= MIN_SCORE)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_PLATFORMS);
+
+    const confidence: Record<string, number> = {};
+    for (const [platform, score] of ranked) {
+      confidence[platform] = Math.round(Math.min(score / CONFIDENT_SCORE, 1) * 100) / 100;
+    }
+
+    const result: PlatformDetectionResult = {
+      platforms: ranked.map(([platform]) => platform),
+      primaryPlatform: ranked[0]?.[0],
+      isDnsRelated: DNS_TERMS.some((term) => containsTerm(text, term)),
+      isDomainRelated: DOMAIN_TERMS.some((term) => containsTerm(text, term)),
+      confidence,
     };
+
+    logger.debug({
+      platforms: result.platforms,
+      confidence,
+      urlCount: urlTargets.length,
+      hasHtml: !!input.html,
+    }, 'Platforms detected');
+
+    return result;
   }
 
   /**
-   * Seed platform keywords database
-   * TODO: Implement keyword seeding for common platforms
+   * Seed the global registry with the built-in platform definitions
+   * Existing rows are left untouched, so admin weight changes survive re-seeding
+   * @returns number of rows inserted
    */
-  async seedPlatformKeywords(): Promise<void> {
-    // TODO:
-    // 1. Define keyword sets for each platform (GHL, WordPress, Cloudflare, etc.)
-    // 2. Store in database or configuration
-    // 3. Include patterns for DNS/domain detection
-
-    logger.debug('Seed platform keywords requested - implementation pending');
-
-    // Example platforms to support:
-    // - GoHighLevel (GHL)
-    // - WordPress
-    // - Cloudflare
-    // - Namecheap
-    // - GoDaddy
-    // - Route53
-    // - Shopify
-    // - Webflow
+  async seedPlatformKeywords(): Promise<number> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+
+    const existing = await db
+      .select({
+        platform: platformKeywords.platform,
+        keyword: platformKeywords.keyword,
+        keywordType: platformKeywords.keywordType,
+      })
+      .from(platformKeywords)
+      .where(isNull(platformKeywords.userId));
+
+    const existingKeys = new Set(existing.map((row) => `${row.platform}|${row.keywordType}|${row.keyword}`));
+    const rows = getBuiltInSignals()
+      .filter((signal) => !existingKeys.has(`${signal.platform}|${signal.type}|${signal.value}`))
+      .map((signal) => ({
+        platform: signal.platform,
+        keyword: signal.value,
+        keywordType: signal.type,
+        weight: signal.weight,
+        category: "built_in",
+      }));
+
+    if (rows.length > 0) {
+      await db.insert(platformKeywords).values(rows);
+    }
+
+    this.registryCache.clear();
+    logger.info({ inserted: rows.length, existing: existing.length }, 'Platform keywords seeded');
+    return rows.length;
   }
 
   /**
-   * Get all supported platforms
-   * TODO: Implement platform registry
+   * Get all supported platforms, including a tenant's custom platforms
    */
-  async getSupportedPlatforms(): Promise<string[]> {
-    // TODO: Return list of all supported platforms
-    return [
-      "gohighlevel",
-      "wordpress",
-      "cloudflare",
-      "namecheap",
-      "godaddy",
-      "route53",
-      "shopify",
-      "webflow",
-    ];
+  async getSupportedPlatforms(userId?: number): Promise<string[]> {
+    const signals = await this.getSignals(userId);
+    return Array.from(new Set(signals.map((signal) => signal.platform))).sort();
   }
 
   /**
    * Add custom platform keywords
-   * TODO: Implement custom keyword addition
+   * With a userId the keywords only apply to that tenant's detections;
+   * without one they are added to the global registry.
+   * @returns number of rows inserted
    */
-  async addPlatformKeywords(platform: string, keywords: string[]): Promise<void> {
-    // TODO: Add custom keywords for a platform
-    logger.debug({
-      platform,
-      keywordCount: keywords.length
-    }, 'Add platform keywords requested - implementation pending');
+  async addPlatformKeywords(
+    platform: string,
+    keywords: string[],
+    options: AddPlatformKeywordsOptions = {}
+  ): Promise<number> {
+    const platformId = platform.trim().toLowerCase();
+    if (!platformId) {
+      throw new Error("Platform is required");
+    }
+
+    const type = options.type || "keyword";
+    const values = Array.from(new Set(keywords.map((k) => k.trim().toLowerCase()).filter(Boolean)));
+    if (values.length === 0) return 0;
+
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+
+    const existing = await db
+      .select({ keyword: platformKeywords.keyword })
+      .from(platformKeywords)
+      .where(and(
+        eq(platformKeywords.platform, platformId),
+        eq(platformKeywords.keywordType, type),
+        options.userId !== undefined
+          ? eq(platformKeywords.userId, options.userId)
+          : isNull(platformKeywords.userId)
+      ));
+
+    const existingValues = new Set(existing.map((row) => row.keyword));
+    const rows = values
+      .filter((value) => !existingValues.has(value))
+      .map((value) => ({
+        platform: platformId,
+        keyword: value,
+        keywordType: type,
+        weight: options.weight ?? 3,
+        category: "custom",
+        userId: options.userId ?? null,
+      }));
+
+    if (rows.length > 0) {
+      await db.insert(platformKeywords).values(rows);
+    }
+
+    this.registryCache.clear();
+    logger.info({
+      platform: platformId,
+      type,
+      userId: options.userId,
+      inserted: rows.length,
+    }, 'Platform keywords added');
+    return rows.length;
+  }
+
+  /**
+   * Load active registry signals: global rows plus the tenant's own rows
+   * Falls back to the built-in definitions when the table hasn't been seeded
+   * or the database is unavailable
+   */
+  private async getSignals(userId?: number): Promise<PlatformSignal[]> {
+    const cacheKey = userId ?? 0;
+    const cached = this.registryCache.get(cacheKey);
+    if (cached && Date.now() - cached.loadedAt < REGISTRY_CACHE_TTL_MS) {
+      return cached.signals;
+    }
+
+    let signals = getBuiltInSignals();
+
+    try {
+      const db = await getDb();
+      if (db) {
+        const ownerFilter = userId !== undefined
+          ? or(isNull(platformKeywords.userId), eq(platformKeywords.userId, userId))
+          : isNull(platformKeywords.userId);
+
+        const rows = await db
+          .select()
+          .from(platformKeywords)
+          .where(and(eq(platformKeywords.isActive, true), ownerFilter));
+
+        const toSignal = (row: typeof rows[number]): PlatformSignal => ({
+          platform: row.platform,
+          type: (row.keywordType || "keyword") as PlatformSignalType,
+          value: row.keyword,
+          weight: row.weight,
+        });
+
+        const globalRows = rows.filter((row) => row.userId === null);
+        const tenantRows = rows.filter((row) => row.userId !== null);
+        signals = [
+          ...(globalRows.length > 0 ? globalRows.map(toSignal) : signals),
+          ...tenantRows.map(toSignal),
+        ];
+      }
+    } catch (error) {
+      logger.warn({ error }, 'Failed to load platform keywords, using built-in registry');
+    }
+
+    this.registryCache.set(cacheKey, { signals, loadedAt: Date.now() });
+    return signals;
   }
 }
 
@@ -0,0 +1,133 @@
+/**
+ * RAG Service Tests
+ * Covers hybrid retrieval: reciprocal-rank fusion of vector and full-text
+ * results, per-retriever scores and the optional rerank stage
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { SQL } from "drizzle-orm";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockExecute, mockTryRerank } = vi.hoisted(() => ({
+  mockExecute: vi.fn(),
+  mockTryRerank: vi.fn(),
+}));
+
+vi.mock("../db", () => ({
+  getDb: vi.fn().mockResolvedValue({ execute: mockExecute }),
+}));
+
+vi.mock("../rag/embeddings", () => ({
+  generateEmbedding: vi.fn().mockResolvedValue([0.1, 0.2]),
+  generateEmbeddings: vi.fn(),
+  getEmbeddingModelId: () => "local/hash-v1",
+  chunkText: vi.fn(),
+}));
+
+vi.mock("./rerank.service", () => ({
+  tryRerank: mockTryRerank,
+}));
+
+import { ragService } from "./rag.service";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const dialect = new PgDialect();
+const isKeywordQuery = (query: SQL) => dialect.sqlToQuery(query).sql.includes("ts_rank_cd");
+
+const row = (id: number, score: number) => ({
+  id,
+  sourceId: 1,
+  chunkIndex: id,
+  content: `chunk ${id}`,
+  tokenCount: 10,
+  metadata: {},
+  score,
+});
+
+const mockResults = (vectorRows: ReturnType<typeof row>[], keywordRows: ReturnType<typeof row>[]) => {
+  mockExecute.mockImplementation(async (query: SQL) => ({
+    rows: isKeywordQuery(query) ? keywordRows : vectorRows,
+  }));
+};
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("RAGService.retrieve", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should fuse vector and keyword results and report which retriever found each", async () => {
+    mockResults([row(1, 0.9), row(2, 0.8)], [row(3, 0.5), row(1, 0.2)]);
+
+    const chunks = await ragService.retrieve("custom_field_lead_source", { topK: 3 });
+
+    expect(chunks.map((c) => c.id)).toEqual([1, 3, 2]);
+    expect(chunks[0].retrievers).toEqual(["vector", "keyword"]);
+    expect(chunks[0].scores).toMatchObject({ vector: 0.9, keyword: 0.2 });
+    expect(chunks[0].scores!.fused).toBeCloseTo(2 / 61);
+    expect(chunks[0].similarity).toBe(0.9);
+
+    // Exact-term match missed by the vector retriever
+    expect(chunks[1].retrievers).toEqual(["keyword"]);
+    expect(chunks[1].scores!.vector).toBeUndefined();
+  });
+
+  it("should search each query term in the full-text retriever", async () => {
+    mockResults([], []);
+
+    await ragService.retrieve("error E1042 /v2/contacts", { mode: "keyword" });
+
+    expect(mockExecute).toHaveBeenCalledTimes(1);
+    const { sql, params } = dialect.sqlToQuery(mockExecute.mock.calls[0][0]);
+    expect(sql.match(/plainto_tsquery/g)).toHaveLength(3);
+    expect(params).toEqual(expect.arrayContaining(["error", "E1042", "/v2/contacts"]));
+  });
+
+  it("should only run vector search in vector mode", async () => {
+    mockResults([row(1, 0.9)], [row(2, 0.5)]);
+
+    const chunks = await ragService.retrieve("pipelines", { mode: "vector" });
+
+    expect(mockExecute).toHaveBeenCalledTimes(1);
+    expect(chunks.map((c) => c.retrievers)).toEqual([["vector"]]);
+  });
+
+  it("should reorder fused candidates by rerank score", async () => {
+    mockResults([row(1, 0.9), row(2, 0.8)], []);
+    mockTryRerank.mockResolvedValue(new Map([[1, 0.1], [2, 0.95]]));
+
+    const chunks = await ragService.retrieve("pipelines", { rerank: "llm" });
+
+    expect(mockTryRerank).toHaveBeenCalledWith("llm", "pipelines", expect.any(Array));
+    expect(chunks.map((c) => c.id)).toEqual([2, 1]);
+    expect(chunks[0].scores!.rerank).toBe(0.95);
+  });
+
+  it("should keep the fused order when reranking fails", async () => {
+    mockResults([row(1, 0.9), row(2, 0.8)], []);
+    mockTryRerank.mockResolvedValue(null);
+
+    const chunks = await ragService.retrieve("pipelines", { rerank: "cross-encoder" });
+
+    expect(chunks.map((c) => c.id)).toEqual([1, 2]);
+    expect(chunks[0].scores!.rerank).toBeUndefined();
+  });
+
+  it("should describe retriever scores in built context", async () => {
+    mockResults([row(1, 0.82)], [row(1, 0.31)]);
+
+    const context = await ragService.buildContext("pipelines");
+
+    expect(context).toContain("[Document 1] (Found by vector 82.0%, keyword 0.31)");
+  });
+});
@@ -4,20 +4,29 @@
  */
 
 import { getDb } from "../db";
-import { eq, and, sql, desc, inArray } from "drizzle-orm";
+import { eq, and, sql, desc, inArray, type SQL } from "drizzle-orm";
 import {
   documentationSources,
   documentationChunks,
-  platformKeywords,
   type DocumentationSource,
   type DocumentationChunk,
 } from "../../drizzle/schema-rag";
-import { generateEmbedding, generateEmbeddings, chunkText } from "../rag/embeddings";
+import { generateEmbedding, generateEmbeddings, getEmbeddingModelId } from "../rag/embeddings";
+import { chunkStructuredDocument, type ChunkFormat, type PdfPage, type StructuredChunk } from "../rag/chunking";
 import * as crypto from "crypto";
 import { serviceLoggers } from "../lib/logger";
+import { tryRerank, type RerankerType } from "./rerank.service";
+import { platformDetectionService } from "./platformDetection.service";
 
 const logger = serviceLoggers.rag;
 
+// Reciprocal-rank fusion constant (standard value from Cormack et al.)
+const RRF_K = 60;
+// Candidates fetched from each retriever per requested result
+const FUSION_CANDIDATE_MULTIPLIER = 4;
+const RERANK_CANDIDATE_MULTIPLIER = 3;
+const MAX_KEYWORD_TERMS = 32;
+
 export interface IngestDocumentInput {
   platform: string;
   category: string;
@@ -25,10 +34,11 @@ export interface IngestDocumentInput {
   content: string;
   sourceUrl?: string;
   sourceType?: "markdown" | "html" | "pdf" | "docx";
+  pages?: PdfPage[]; // Per-page text for PDFs, keeps chunks within a page
   version?: string;
   userId: number;
   chunkingOptions?: {
-    maxTokens?: number;
+    maxTokens?: number; // Tokens per chunk
     overlapTokens?: number;
   };
 }
@@ -39,6 +49,15 @@ export interface IngestResult {
   totalTokens: number;
 }
 
+export type Retriever = "vector" | "keyword";
+
+export interface ChunkScores {
+  vector?: number; // Cosine similarity (0-1)
+  keyword?: number; // Full-text ts_rank_cd score
+  fused: number; // Reciprocal-rank fusion score
+  rerank?: number; // Reranker relevance (0-1), when a rerank stage ran
+}
+
 export interface DocumentChunk {
   id: number;
   sourceId: number;
@@ -47,13 +66,27 @@ export interface DocumentChunk {
   tokenCount: number;
   similarity?: number;
   metadata?: Record<string, any>;
+  scores?: ChunkScores;
+  retrievers?: Retriever[]; // Which retrievers found this chunk
 }
 
 export interface RetrieveOptions {
   topK?: number;
   platforms?: string[];
   categories?: string[];
-  minSimilarity?: number;
+  minSimilarity?: number; // Applies to vector candidates
+  mode?: "hybrid" | Retriever;
+  rerank?: RerankerType;
+}
+
+interface RetrievedRow {
+  id: number;
+  sourceId: number;
+  chunkIndex: number;
+  content: string;
+  tokenCount: number;
+  metadata?: Record<string, any>;
+  score: number;
 }
 
 export interface SystemPromptResult {
@@ -64,34 +97,66 @@ export interface SystemPromptResult {
 
 export interface BuildSystemPromptOptions {
   platform?: string;
+  url?: string; // Current page URL, used for platform detection
+  html?: string; // Current page DOM, used for platform detection
+  userId?: number; // Applies the tenant's custom platform keywords
   customTemplate?: string;
   maxDocumentationTokens?: number;
   includeExamples?: boolean;
 }
 
 /**
- * Estimate token count (rough approximation: 1 token ≈ 4 characters)
+ * Generate content hash for deduplication
  */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+function generateContentHash(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
 }
 
 /**
- * Generate content hash for deduplication
+ * Describe how a chunk was found, e.g. "vector 82.0%, keyword 0.31, rerank 90%"
  */
-function generateContentHash(content: string): string {
-  return crypto.createHash("sha256").update(content).digest("hex");
+function formatChunkScores(chunk: DocumentChunk): string {
+  const scores = chunk.scores;
+  if (!scores) {
+    return `Relevance: ${((chunk.similarity || 0) * 100).toFixed(1)}%`;
+  }
+
+  const parts: string[] = [];
+  if (scores.vector !== undefined) parts.push(`vector ${(scores.vector * 100).toFixed(1)}%`);
+  if (scores.keyword !== undefined) parts.push(`keyword ${scores.keyword.toFixed(2)}`);
+  if (scores.rerank !== undefined) parts.push(`rerank ${(scores.rerank * 100).toFixed(0)}%`);
+  return `Found by ${parts.join(", ")}`;
 }
 
 /**
- * Chunk document with custom options
+ * Chunk document along its structure (headings, tables, code blocks, PDF pages)
+ * Chunk sizes are in tokens
  */
 function chunkDocument(
   content: string,
-  chunkSize: number = 1000,
-  overlap: number = 200
-): string[] {
-  return chunkText(content, chunkSize, overlap);
+  sourceType: string | null | undefined,
+  options: { maxTokens?: number; overlapTokens?: number; pages?: PdfPage[] } = {}
+): StructuredChunk[] {
+  const formats: Record<string, ChunkFormat> = { markdown: "markdown", html: "html", pdf: "pdf" };
+  return chunkStructuredDocument(content, formats[sourceType || "markdown"] || "text", options);
+}
+
+/**
+ * Chunk metadata stored alongside each chunk
+ */
+function chunkMetadata(
+  chunk: StructuredChunk,
+  source: { platform: string; category: string; title: string }
+): Record<string, any> {
+  return {
+    platform: source.platform,
+    category: source.category,
+    title: source.title,
+    chunkSize: chunk.content.length,
+    breadcrumb: chunk.breadcrumb.join(" > "),
+    blockTypes: chunk.blockTypes,
+    ...(chunk.page !== undefined ? { page: chunk.page } : {}),
+  };
 }
 
 class RAGService {
@@ -151,27 +216,26 @@ class RAGService {
       logger.info({ sourceId: source.id, platform: input.platform, title: input.title }, 'Created documentation source');
 
       // Chunk the content
-      const chunkSize = input.chunkingOptions?.maxTokens || 1000;
-      const overlap = input.chunkingOptions?.overlapTokens || 200;
-      const chunks = chunkDocument(input.content, chunkSize, overlap);
+      const chunks = chunkDocument(input.content, input.sourceType, {
+        maxTokens: input.chunkingOptions?.maxTokens,
+        overlapTokens: input.chunkingOptions?.overlapTokens,
+        pages: input.pages,
+      });
 
       logger.info({ chunkCount: chunks.length, sourceId: source.id }, 'Generated chunks');
 
       // Generate embeddings for all chunks in batch
-      const embeddings = await generateEmbeddings(chunks);
+      const embeddings = await generateEmbeddings(chunks.map((chunk) => chunk.content));
+      const embeddingModel = getEmbeddingModelId();
 
       // Insert chunks with embeddings
       const chunkValues = chunks.map((chunk, index) => ({
         sourceId: source.id,
         chunkIndex: index,
-        content: chunk,
-        tokenCount: estimateTokens(chunk),
-        metadata: {
-          platform: input.platform,
-          category: input.category,
-          title: input.title,
-          chunkSize: chunk.length,
-        },
+        content: chunk.content,
+        tokenCount: chunk.tokenCount,
+        embeddingModel,
+        metadata: chunkMetadata(chunk, input),
       }));
 
       await db.insert(documentationChunks).values(chunkValues);
@@ -229,14 +293,8 @@ class RAGService {
 
       // Parse content based on type
       if (contentType.includes("text/html")) {
-        const html = await response.text();
-        // Basic HTML to text conversion (strip tags)
-        content = html
-          .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "")
-          .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, "")
-          .replace(/<[^>]+>/g, " ")
-          .replace(/\s+/g, " ")
-          .trim();
+        // Keep the markup so chunking can follow headings, tables and code blocks
+        content = await response.text();
         sourceType = "html";
       } else if (contentType.includes("text/plain") || contentType.includes("text/markdown")) {
         content = await response.text();
@@ -313,6 +371,12 @@ class RAGService {
 
   /**
    * Retrieve relevant documentation chunks for a query
+   *
+   * Hybrid mode (default) runs vector similarity and Postgres full-text search
+   * side by side and merges the two ranked lists with reciprocal-rank fusion,
+   * so exact terms (custom field names, error codes, URL paths) are found even
+   * when their embeddings are not close to the query. An optional rerank stage
+   * reorders the fused candidates before the top results are returned.
    */
   async retrieve(query: string, options: RetrieveOptions = {}): Promise<DocumentChunk[]> {
     const db = await getDb();
@@ -322,53 +386,159 @@ class RAGService {
 
     try {
       const topK = options.topK || 5;
-      const minSimilarity = options.minSimilarity || 0.5;
-
-      // Generate embedding for query
-      const queryEmbedding = await generateEmbedding(query);
-      const vectorLiteral = `[${queryEmbedding.join(",")}]`;
-
-      // Build SQL query with filters
-      let sqlQuery = sql`
-        SELECT
-          c.id,
-          c.source_id as "sourceId",
-          c.chunk_index as "chunkIndex",
-          c.content,
-          c.token_count as "tokenCount",
-          c.metadata,
-          1 - (c.embedding <=> ${sql.raw(vectorLiteral)}::vector) as similarity
-        FROM documentation_chunks c
-        INNER JOIN documentation_sources s ON c.source_id = s.id
-        WHERE c.embedding IS NOT NULL
-          AND s.is_active = true
-      `;
-
-      // Add platform filter
-      if (options.platforms && options.platforms.length > 0) {
-        sqlQuery = sql`${sqlQuery} AND s.platform IN ${sql.join(options.platforms.map(p => sql`${p}`), sql`, `)}`;
+      const mode = options.mode || "hybrid";
+      const candidateLimit = options.rerank ? topK * RERANK_CANDIDATE_MULTIPLIER : topK * FUSION_CANDIDATE_MULTIPLIER;
+
+      const [vectorRows, keywordRows] = await Promise.all([
+        mode === "keyword" ? [] : this.vectorSearch(db, query, options, mode === "vector" ? topK : candidateLimit),
+        mode === "vector" ? [] : this.keywordSearch(db, query, options, mode === "keyword" ? topK : candidateLimit),
+      ]);
+
+      // Reciprocal-rank fusion: score = sum of 1 / (k + rank) over the lists a chunk appears in
+      const fused = new Map<number, DocumentChunk>();
+      const addRanked = (rows: RetrievedRow[], retriever: Retriever) => {
+        rows.forEach((row, rank) => {
+          const chunk = fused.get(row.id) ?? {
+            id: row.id,
+            sourceId: row.sourceId,
+            chunkIndex: row.chunkIndex,
+            content: row.content,
+            tokenCount: row.tokenCount,
+            metadata: row.metadata,
+            scores: { fused: 0 },
+            retrievers: [],
+          };
+          chunk.scores!.fused += 1 / (RRF_K + rank + 1);
+          chunk.scores![retriever] = Number(row.score);
+          chunk.retrievers!.push(retriever);
+          if (retriever === "vector") {
+            chunk.similarity = Number(row.score);
+          }
+          fused.set(row.id, chunk);
+        });
+      };
+      addRanked(vectorRows, "vector");
+      addRanked(keywordRows, "keyword");
+
+      let results = Array.from(fused.values()).sort((a, b) => b.scores!.fused - a.scores!.fused);
+
+      if (options.rerank && results.length > 0) {
+        const rerankScores = await tryRerank(options.rerank, query, results);
+        if (rerankScores) {
+          for (const chunk of results) {
+            chunk.scores!.rerank = rerankScores.get(chunk.id) ?? 0;
+          }
+          results = results.sort((a, b) => b.scores!.rerank! - a.scores!.rerank!);
+        }
       }
 
-      // Add category filter
-      if (options.categories && options.categories.length > 0) {
-        sqlQuery = sql`${sqlQuery} AND s.category IN ${sql.join(options.categories.map(c => sql`${c}`), sql`, `)}`;
-      }
+      return results.slice(0, topK);
+    } catch (error) {
+      logger.error({ error, query }, 'Retrieve failed');
+      throw error;
+    }
+  }
 
-      // Add similarity threshold and ordering
-      sqlQuery = sql`
-        ${sqlQuery}
+  /**
+   * Vector similarity candidates, nearest first
+   */
+  private async vectorSearch(
+    db: NonNullable<Awaited<ReturnType<typeof getDb>>>,
+    query: string,
+    options: RetrieveOptions,
+    limit: number
+  ): Promise<RetrievedRow[]> {
+    const minSimilarity = options.minSimilarity || 0.5;
+
+    // Generate embedding for query
+    const queryEmbedding = await generateEmbedding(query);
+    const vectorLiteral = `[${queryEmbedding.join(",")}]`;
+    const embeddingModel = getEmbeddingModelId();
+
+    const sqlQuery = sql`
+      SELECT
+        c.id,
+        c.source_id as "sourceId",
+        c.chunk_index as "chunkIndex",
+        c.content,
+        c.token_count as "tokenCount",
+        c.metadata,
+        1 - (c.embedding <=> ${sql.raw(vectorLiteral)}::vector) as score
+      FROM documentation_chunks c
+      INNER JOIN documentation_sources s ON c.source_id = s.id
+      WHERE c.embedding IS NOT NULL
+        AND c."embeddingModel" = ${embeddingModel}
+        AND s.is_active = true
+        ${this.buildSourceFilters(options)}
         AND 1 - (c.embedding <=> ${sql.raw(vectorLiteral)}::vector) >= ${minSimilarity}
-        ORDER BY c.embedding <=> ${sql.raw(vectorLiteral)}::vector
-        LIMIT ${topK}
-      `;
+      ORDER BY c.embedding <=> ${sql.raw(vectorLiteral)}::vector
+      LIMIT ${limit}
+    `;
 
-      const results = await db.execute(sqlQuery);
+    const results = await db.execute(sqlQuery);
+    return results.rows as unknown as RetrievedRow[];
+  }
 
-      return results.rows as unknown as DocumentChunk[];
-    } catch (error) {
-      logger.error({ error, query }, 'Retrieve failed');
-      throw error;
+  /**
+   * Full-text candidates ranked by ts_rank_cd, best first
+   * Any query term may match, so a single exact identifier is enough to surface a chunk
+   */
+  private async keywordSearch(
+    db: NonNullable<Awaited<ReturnType<typeof getDb>>>,
+    query: string,
+    options: RetrieveOptions,
+    limit: number
+  ): Promise<RetrievedRow[]> {
+    const terms = Array.from(new Set(query.split(/\s+/).filter((t) => t.length > 0))).slice(0, MAX_KEYWORD_TERMS);
+    if (terms.length === 0) {
+      return [];
     }
+
+    const tsQuery = sql.join(
+      terms.map((term) => sql`plainto_tsquery('english', ${term})`),
+      sql` || `
+    );
+
+    const sqlQuery = sql`
+      SELECT
+        c.id,
+        c.source_id as "sourceId",
+        c.chunk_index as "chunkIndex",
+        c.content,
+        c.token_count as "tokenCount",
+        c.metadata,
+        ts_rank_cd(c."searchVector", q.query) as score
+      FROM documentation_chunks c
+      INNER JOIN documentation_sources s ON c.source_id = s.id
+      CROSS JOIN (SELECT ${tsQuery} AS query) q
+      WHERE c."searchVector" @@ q.query
+        AND s.is_active = true
+        ${this.buildSourceFilters(options)}
+      ORDER BY score DESC
+      LIMIT ${limit}
+    `;
+
+    const results = await db.execute(sqlQuery);
+    return results.rows as unknown as RetrievedRow[];
+  }
+
+  /**
+   * Platform and category filters shared by both retrievers
+   */
+  private buildSourceFilters(options: RetrieveOptions): SQL {
+    const filters: SQL[] = [];
+
+    // Add platform filter
+    if (options.platforms && options.platforms.length > 0) {
+      filters.push(sql`AND s.platform IN ${sql.join(options.platforms.map(p => sql`${p}`), sql`, `)}`);
+    }
+
+    // Add category filter
+    if (options.categories && options.categories.length > 0) {
+      filters.push(sql`AND s.category IN ${sql.join(options.categories.map(c => sql`${c}`), sql`, `)}`);
+    }
+
+    return sql.join(filters, sql` `);
   }
 
   /**
@@ -383,8 +553,7 @@ class RAGService {
 
     const context = chunks
       .map((chunk, index) => {
-        const similarity = ((chunk.similarity || 0) * 100).toFixed(1);
-        return `[Document ${index + 1}] (Relevance: ${similarity}%)\n${chunk.content}`;
+        return `[Document ${index + 1}] (${formatChunkScores(chunk)})\n${chunk.content}`;
       })
       .join("\n\n---\n\n");
 
@@ -414,7 +583,13 @@ class RAGService {
       if (options.platform) {
         platforms = [options.platform];
       } else {
-        platforms = await this.detectPlatforms(userPrompt);
+        const detection = await platformDetectionService.detect({
+          prompt: userPrompt,
+          url: options.url,
+          html: options.html,
+          userId: options.userId,
+        });
+        platforms = detection.platforms;
       }
 
       // Retrieve relevant documentation
@@ -441,8 +616,7 @@ class RAGService {
       if (relevantChunks.length > 0) {
         context = relevantChunks
           .map((chunk, index) => {
-            const similarity = ((chunk.similarity || 0) * 100).toFixed(1);
-            return `### Reference Document ${index + 1} (Relevance: ${similarity}%)\n${chunk.content}`;
+            return `### Reference Document ${index + 1} (${formatChunkScores(chunk)})\n${chunk.content}`;
           })
           .join("\n\n");
       }
@@ -470,41 +644,6 @@ class RAGService {
     }
   }
 
-  /**
-   * Detect platforms from user prompt using keyword matching
-   */
-  private async detectPlatforms(prompt: string): Promise<string[]> {
-    const db = await getDb();
-    if (!db) return [];
-
-    try {
-      const keywords = await db.select().from(platformKeywords).where(
-        eq(platformKeywords.isActive, true)
-      );
-
-      const promptLower = prompt.toLowerCase();
-      const platformScores = new Map<string, number>();
-
-      for (const keyword of keywords) {
-        if (promptLower.includes(keyword.keyword.toLowerCase())) {
-          const currentScore = platformScores.get(keyword.platform) || 0;
-          platformScores.set(keyword.platform, currentScore + (keyword.weight || 1));
-        }
-      }
-
-      // Return platforms sorted by score
-      const platforms = Array.from(platformScores.entries())
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 3)
-        .map(([platform]) => platform);
-
-      return platforms;
-    } catch (error) {
-      logger.error({ error, prompt }, 'Platform detection failed');
-      return [];
-    }
-  }
-
   /**
    * Get default system prompt template
    */
@@ -602,20 +741,21 @@ class RAGService {
           .where(eq(documentationSources.id, sourceId));
 
         // Re-chunk and re-embed
-        const chunks = chunkDocument(updates.content);
-        const embeddings = await generateEmbeddings(chunks);
+        const chunks = chunkDocument(updates.content, source.sourceType);
+        const embeddings = await generateEmbeddings(chunks.map((chunk) => chunk.content));
+        const embeddingModel = getEmbeddingModelId();
 
         const chunkValues = chunks.map((chunk, index) => ({
           sourceId: sourceId,
           chunkIndex: index,
-          content: chunk,
-          tokenCount: estimateTokens(chunk),
-          metadata: {
+          content: chunk.content,
+          tokenCount: chunk.tokenCount,
+          embeddingModel,
+          metadata: chunkMetadata(chunk, {
             platform: source.platform,
             category: source.category,
             title: updates.title || source.title,
-            chunkSize: chunk.length,
-          },
+          }),
         }));
 
         await db.insert(documentationChunks).values(chunkValues);
@@ -0,0 +1,135 @@
+/**
+ * Rerank Service
+ * Reorders retrieved documentation chunks by relevance to a query
+ *
+ * - llm: asks the configured LLM (via ProviderManager) to score each passage
+ * - cross-encoder: calls a cross-encoder rerank endpoint (RERANKER_URL) that
+ *   accepts { query, texts } and returns [{ index, score }], e.g. Hugging Face
+ *   text-embeddings-inference
+ */
+
+import { getProviderManager } from "../providers/utils";
+import { serviceLoggers } from "../lib/logger";
+
+const logger = serviceLoggers.rag;
+
+export type RerankerType = "llm" | "cross-encoder";
+
+export interface RerankCandidate {
+  id: number;
+  content: string;
+}
+
+export interface RerankScore {
+  id: number;
+  score: number; // Relevance between 0 and 1
+}
+
+export interface Reranker {
+  readonly type: RerankerType;
+  rerank(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]>;
+}
+
+const LLM_PASSAGE_CHARS = 1200;
+
+/**
+ * LLM-based reranker
+ * Scores passages 0-10 in a single call and normalizes to 0-1
+ */
+export class LLMReranker implements Reranker {
+  readonly type = "llm" as const;
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]> {
+    if (candidates.length === 0) return [];
+
+    const passages = candidates
+      .map((c, i) => `[${i}] ${c.content.slice(0, LLM_PASSAGE_CHARS)}`)
+      .join("\n\n");
+
+    const manager = await getProviderManager();
+    const response = await manager.complete({
+      messages: [
+        {
+          role: "system",
+          content:
+            "You rank documentation passages for a search query. Rate how well each passage answers the query from 0 (irrelevant) to 10 (directly answers it). Respond with only a JSON array of numbers, one per passage, in passage order.",
+        },
+        { role: "user", content: `Query: ${query}\n\nPassages:\n${passages}` },
+      ],
+      temperature: 0,
+      maxTokens: 20 + candidates.length * 6,
+    });
+
+    const match = response.content.match(/\[[\s\S]*\]/);
+    const ratings = match ? (JSON.parse(match[0]) as unknown[]) : [];
+    if (ratings.length !== candidates.length || !ratings.every((r) => typeof r === "number")) {
+      throw new Error(`LLM reranker returned ${ratings.length} scores for ${candidates.length} passages`);
+    }
+
+    return candidates.map((c, i) => ({
+      id: c.id,
+      score: Math.min(Math.max((ratings[i] as number) / 10, 0), 1),
+    }));
+  }
+}
+
+/**
+ * Cross-encoder reranker backed by an HTTP rerank endpoint
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly type = "cross-encoder" as const;
+
+  constructor(private url: string | undefined = process.env.RERANKER_URL) {}
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]> {
+    if (candidates.length === 0) return [];
+    if (!this.url) {
+      throw new Error("RERANKER_URL environment variable is required for cross-encoder reranking");
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query, texts: candidates.map((c) => c.content) }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Rerank request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const results = (await response.json()) as Array<{ index: number; score: number }>;
+    return results
+      .filter((r) => candidates[r.index])
+      .map((r) => ({ id: candidates[r.index].id, score: r.score }));
+  }
+}
+
+const rerankers: Partial<Record<RerankerType, Reranker>> = {};
+
+/**
+ * Get a reranker by type
+ */
+export function getReranker(type: RerankerType): Reranker {
+  if (!rerankers[type]) {
+    rerankers[type] = type === "llm" ? new LLMReranker() : new CrossEncoderReranker();
+  }
+  return rerankers[type]!;
+}
+
+/**
+ * Rerank candidates, returning null when the reranker fails so callers
+ * can keep their original ordering
+ */
+export async function tryRerank(
+  type: RerankerType,
+  query: string,
+  candidates: RerankCandidate[]
+): Promise<Map<number, number> | null> {
+  try {
+    const scores = await getReranker(type).rerank(query, candidates);
+    return new Map(scores.map((s) => [s.id, s.score]));
+  } catch (error) {
+    logger.warn({ error, type }, "Rerank failed, keeping fused order");
+    return null;
+  }
+}
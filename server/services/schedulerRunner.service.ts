@@ -8,6 +8,7 @@ import { eq, and, lte, or } from "drizzle-orm";
 import { scheduledBrowserTasks, scheduledTaskExecutions } from "../../drizzle/schema-scheduled-tasks";
 import { cronSchedulerService } from "./cronScheduler.service";
 import { credentialRotationService } from "./credentialRotation.service";
+import { taskNotificationService, type TaskNotificationChannel } from "./taskNotification.service";
 
 // ========================================
 // TYPES
@@ -360,9 +361,9 @@ class SchedulerRunnerService {
 
       // Send notifications if configured
       if (result.success && task.notifyOnSuccess) {
-        await this.sendNotification(task, "success", result);
+        await this.sendNotification(task, "success", result, { executionId, duration });
       } else if (!result.success && task.notifyOnFailure) {
-        await this.sendNotification(task, "failure", result);
+        await this.sendNotification(task, "failure", result, { executionId, duration });
       }
 
       // Retry logic
@@ -600,50 +601,47 @@ class SchedulerRunnerService {
   }
 
   /**
-   * Send notification about task execution
+   * Send task notifications and log each channel's delivery on the execution
    */
   private async sendNotification(
     task: typeof scheduledBrowserTasks.$inferSelect,
     status: "success" | "failure",
-    result: { success: boolean; output?: any; error?: string }
+    result: { success: boolean; output?: any; error?: string },
+    execution: { executionId: number; duration: number }
   ): Promise<void> {
     try {
       console.log(`Sending ${status} notification for task ${task.id} (${task.name})`);
 
-      // Get notification channels
-      const channels = task.notificationChannels as any[] || [];
-
-      for (const channel of channels) {
-        switch (channel.type) {
-          case "email":
-            // TODO: Implement email notification
-            console.log(`Email notification to ${channel.email}: Task ${status}`);
-            break;
-
-          case "webhook":
-            // Send webhook notification
-            await fetch(channel.url, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                taskId: task.id,
-                taskName: task.name,
-                status,
-                timestamp: new Date().toISOString(),
-                result,
-              }),
-            });
-            break;
-
-          case "slack":
-            // TODO: Implement Slack notification
-            console.log(`Slack notification to ${channel.webhookUrl}: Task ${status}`);
-            break;
-
-          default:
-            console.log(`Unknown notification channel type: ${channel.type}`);
-        }
-      }
+      const channels = (task.notificationChannels as TaskNotificationChannel[] | null) || [];
+      if (channels.length === 0) return;
+
+      const deliveries = await taskNotificationService.send(channels, {
+        task,
+        status,
+        executionId: execution.executionId,
+        duration: execution.duration,
+        error: result.error,
+        output: result.output,
+      });
+
+      const db = await getDb();
+      if (!db) return;
+
+      const [current] = await db
+        .select({ metadata: scheduledTaskExecutions.metadata })
+        .from(scheduledTaskExecutions)
+        .where(eq(scheduledTaskExecutions.id, execution.executionId))
+        .limit(1);
+
+      await db
+        .update(scheduledTaskExecutions)
+        .set({
+          metadata: {
+            ...((current?.metadata as Record<string, unknown>) || {}),
+            notifications: deliveries,
+          },
+        })
+        .where(eq(scheduledTaskExecutions.id, execution.executionId));
     } catch (error) {
       console.error("Error sending notification:", error);
     }
@@ -0,0 +1,130 @@
+/**
+ * Credential Vault Service Tests
+ * Unit tests for envelope encryption, master key rotation and key configuration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createCredentialVaultService } from './credentialVault.service';
+import {
+  EnvKeyProvider,
+  INSECURE_DEFAULT_VAULT_KEY,
+  LocalFileKeyProvider,
+  VaultKeyConfigurationError,
+  createKeyManagementProvider,
+} from './keyManagement.service';
+
+const hexKey = () => crypto.randomBytes(32).toString('hex');
+
+describe('Credential Vault Service', () => {
+  let keyringPath: string;
+  let kms: LocalFileKeyProvider;
+
+  beforeEach(() => {
+    keyringPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vault-test-')), 'keyring.json');
+    kms = new LocalFileKeyProvider(keyringPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(keyringPath), { recursive: true, force: true });
+  });
+
+  describe('envelope encryption', () => {
+    it('should encrypt each credential with its own wrapped data key', async () => {
+      const vault = createCredentialVaultService(kms);
+
+      const first = await vault.storeCredential(1, 'CRM', 'login', 'crm.example.com', { username: 'ops', password: 'hunter2' });
+      const second = await vault.storeCredential(1, 'Mail', 'api_key', 'mail.example.com', { apiKey: 'key-123' });
+
+      const stored = (vault as any).credentials;
+      const a = stored.get(first.credentialId);
+      const b = stored.get(second.credentialId);
+      expect(a).toMatchObject({ keyId: 'v1', wrappedDataKey: expect.any(String) });
+      expect(a.wrappedDataKey).not.toBe(b.wrappedDataKey);
+      expect(a.encryptedPassword).not.toContain('hunter2');
+      expect(JSON.parse(fs.readFileSync(keyringPath, 'utf8'))).toMatchObject({ activeKeyId: 'v1' });
+
+      const result = await vault.getCredential(first.credentialId!, 1, 'exec-1');
+      expect(result.credential).toMatchObject({ username: 'ops', password: 'hunter2' });
+    });
+
+    it('should not decrypt a data key wrapped under a different key id', async () => {
+      const vault = createCredentialVaultService(kms);
+      const { credentialId } = await vault.storeCredential(1, 'CRM', 'login', 'crm.example.com', { password: 'hunter2' });
+      await kms.rotateMasterKey();
+
+      // A wrapped key moved to another key id fails authentication
+      (vault as any).credentials.get(credentialId).keyId = 'v2';
+
+      const result = await vault.getCredential(credentialId!, 1, 'exec-1');
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('master key rotation', () => {
+    it('should re-key credentials online to the new master key version', async () => {
+      const vault = createCredentialVaultService(kms);
+      const ids: string[] = [];
+      for (let i = 0; i < 5; i++) {
+        const { credentialId } = await vault.storeCredential(1, `Site ${i}`, 'login', `site${i}.example.com`, { password: `secret-${i}` });
+        ids.push(credentialId!);
+      }
+
+      const started = await vault.rotateMasterKey();
+      expect(started).toMatchObject({ state: 'running', targetKeyId: 'v2', total: 5 });
+
+      // Credentials stay readable while the job runs
+      expect((await vault.getCredential(ids[4], 1, 'exec-1')).credential?.password).toBe('secret-4');
+
+      const finished = await vault.waitForRekeyJob();
+      expect(finished).toMatchObject({ state: 'completed', rekeyed: 5, failures: [] });
+      expect(vault.getKeyVersionCounts()).toEqual({ v2: 5 });
+
+      // The old master key is no longer needed
+      const keyring = JSON.parse(fs.readFileSync(keyringPath, 'utf8'));
+      delete keyring.keys.v1;
+      fs.writeFileSync(keyringPath, JSON.stringify(keyring));
+      const reloaded = createCredentialVaultService(new LocalFileKeyProvider(keyringPath));
+      (reloaded as any).credentials = (vault as any).credentials;
+
+      expect((await reloaded.getCredential(ids[0], 1, 'exec-2')).credential?.password).toBe('secret-0');
+    });
+
+    it('should re-key env credentials after the key is moved to the previous keys', async () => {
+      const oldKey = hexKey();
+      const vault = createCredentialVaultService(new EnvKeyProvider({ CREDENTIAL_VAULT_KEY: oldKey }));
+      const { credentialId } = await vault.storeCredential(1, 'CRM', 'login', 'crm.example.com', { password: 'hunter2' });
+
+      const rotated = createCredentialVaultService(new EnvKeyProvider({
+        CREDENTIAL_VAULT_KEY: hexKey(),
+        CREDENTIAL_VAULT_KEY_ID: 'v2',
+        CREDENTIAL_VAULT_PREVIOUS_KEYS: `v1:${oldKey}`,
+      }));
+      (rotated as any).credentials = (vault as any).credentials;
+
+      await rotated.startRekeyJob({ batchSize: 1 });
+      expect(await rotated.waitForRekeyJob()).toMatchObject({ state: 'completed', rekeyed: 1 });
+      expect((await rotated.getCredential(credentialId!, 1, 'exec-1')).credential?.password).toBe('hunter2');
+    });
+  });
+
+  describe('key configuration', () => {
+    it('should refuse the insecure default key outside development', () => {
+      expect(() => createKeyManagementProvider({ NODE_ENV: 'production', CREDENTIAL_VAULT_KEY: INSECURE_DEFAULT_VAULT_KEY }))
+        .toThrow(VaultKeyConfigurationError);
+      expect(() => createKeyManagementProvider({ NODE_ENV: 'production' })).toThrow('CREDENTIAL_VAULT_KEY is required');
+      expect(() => createKeyManagementProvider({ NODE_ENV: 'production', CREDENTIAL_VAULT_KEY: 'too-short' }))
+        .toThrow('64 hex characters');
+    });
+
+    it('should use the local keyring in development', () => {
+      expect(createKeyManagementProvider({ NODE_ENV: 'development', CREDENTIAL_VAULT_KEY: INSECURE_DEFAULT_VAULT_KEY }).name)
+        .toBe('local');
+      expect(createKeyManagementProvider({ NODE_ENV: 'production', CREDENTIAL_VAULT_KEY: hexKey() }).name).toBe('env');
+      expect(createKeyManagementProvider({ NODE_ENV: 'production', CREDENTIAL_VAULT_KMS: 'local' }).name).toBe('local');
+    });
+  });
+});
@@ -2,7 +2,9 @@
  * Credential Vault Service
  *
  * Secure credential management with:
- * - Encrypted storage
+ * - Envelope encryption: a data key per credential, wrapped by a versioned
+ *   master key from the key management provider
+ * - Online re-keying to a new master key
  * - Access control
  * - Credential rotation
  * - Audit logging
@@ -10,6 +12,10 @@
  */
 
 import * as crypto from 'crypto';
+import {
+  createKeyManagementProvider,
+  type KeyManagementProvider,
+} from './keyManagement.service';
 
 // ========================================
 // TYPES
@@ -24,6 +30,10 @@ export interface Credential {
   encryptedPassword?: string;
   encryptedApiKey?: string;
   encryptedToken?: string;
+  /** Master key version that wrapped the data key */
+  keyId: string;
+  /** This credential's data key, wrapped by the master key */
+  wrappedDataKey: string;
   metadata: CredentialMetadata;
   permissions: CredentialPermissions;
   createdAt: Date;
@@ -78,6 +88,17 @@ export interface DecryptedCredential {
   customFields?: Record<string, string>;
 }
 
+export interface RekeyJobStatus {
+  state: 'idle' | 'running' | 'completed' | 'failed';
+  targetKeyId?: string;
+  total: number;
+  rekeyed: number;
+  failures: Array<{ credentialId: string; error: string }>;
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+}
+
 // ========================================
 // CONSTANTS
 // ========================================
@@ -86,6 +107,7 @@ const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
 const KEY_LENGTH = 32;
 const IV_LENGTH = 16;
 const AUTH_TAG_LENGTH = 16;
+const REKEY_BATCH_SIZE = 50;
 
 // ========================================
 // CREDENTIAL VAULT SERVICE
@@ -95,13 +117,27 @@ class CredentialVaultService {
   private credentials: Map<string, Credential> = new Map();
   private usageLogs: CredentialUsageLog[] = [];
   private usageCount: Map<string, Map<string, number>> = new Map(); // credentialId -> date -> count
-  private encryptionKey: Buffer;
+  private kms: KeyManagementProvider | null;
+  private rekeyStatus: RekeyJobStatus = { state: 'idle', total: 0, rekeyed: 0, failures: [] };
+  private rekeyJob: Promise<void> = Promise.resolve();
+
+  constructor(kms?: KeyManagementProvider) {
+    // Resolved on first use so importing the vault never fails; startup calls assertKeyConfiguration
+    this.kms = kms ?? null;
+  }
+
+  private getKms(): KeyManagementProvider {
+    if (!this.kms) {
+      this.kms = createKeyManagementProvider();
+    }
+    return this.kms;
+  }
 
-  constructor() {
-    // In production, this should come from a secure key management service
-    // For development, we generate a key from environment or use a default
-    const keySource = process.env.CREDENTIAL_VAULT_KEY || 'default-development-key-change-in-prod';
-    this.encryptionKey = crypto.scryptSync(keySource, 'vault-salt', KEY_LENGTH);
+  /**
+   * Fail fast when the master key configuration is missing or insecure
+   */
+  assertKeyConfiguration(): void {
+    this.getKms();
   }
 
   // ========================================
@@ -132,16 +168,19 @@ class CredentialVaultService {
     try {
       const credentialId = this.generateCredentialId();
 
-      // Encrypt sensitive data
-      const encryptedPassword = data.password ? this.encrypt(data.password) : undefined;
-      const encryptedApiKey = data.apiKey ? this.encrypt(data.apiKey) : undefined;
-      const encryptedToken = data.token ? this.encrypt(data.token) : undefined;
+      // Encrypt sensitive data with a fresh data key, stored wrapped by the master key
+      const dataKey = crypto.randomBytes(KEY_LENGTH);
+      const { keyId, wrappedKey } = await this.getKms().wrapDataKey(dataKey);
+
+      const encryptedPassword = data.password ? this.encrypt(data.password, dataKey) : undefined;
+      const encryptedApiKey = data.apiKey ? this.encrypt(data.apiKey, dataKey) : undefined;
+      const encryptedToken = data.token ? this.encrypt(data.token, dataKey) : undefined;
 
       // Encrypt custom fields
       const encryptedCustomFields: Record<string, string> = {};
       if (data.customFields) {
         for (const [key, value] of Object.entries(data.customFields)) {
-          encryptedCustomFields[key] = this.encrypt(value);
+          encryptedCustomFields[key] = this.encrypt(value, dataKey);
         }
       }
 
@@ -154,6 +193,8 @@ class CredentialVaultService {
         encryptedPassword,
         encryptedApiKey,
         encryptedToken,
+        keyId,
+        wrappedDataKey: wrappedKey,
         metadata: {
           ...options.metadata,
           customFields: encryptedCustomFields,
@@ -236,18 +277,19 @@ class CredentialVaultService {
       }
 
       // Decrypt and return
+      const dataKey = await this.unwrapDataKey(credential);
       const decrypted: DecryptedCredential = {
         username: credential.username,
-        password: credential.encryptedPassword ? this.decrypt(credential.encryptedPassword) : undefined,
-        apiKey: credential.encryptedApiKey ? this.decrypt(credential.encryptedApiKey) : undefined,
-        token: credential.encryptedToken ? this.decrypt(credential.encryptedToken) : undefined,
+        password: credential.encryptedPassword ? this.decrypt(credential.encryptedPassword, dataKey) : undefined,
+        apiKey: credential.encryptedApiKey ? this.decrypt(credential.encryptedApiKey, dataKey) : undefined,
+        token: credential.encryptedToken ? this.decrypt(credential.encryptedToken, dataKey) : undefined,
       };
 
       // Decrypt custom fields
       if (credential.metadata.customFields) {
         decrypted.customFields = {};
         for (const [key, encryptedValue] of Object.entries(credential.metadata.customFields)) {
-          decrypted.customFields[key] = this.decrypt(encryptedValue);
+          decrypted.customFields[key] = this.decrypt(encryptedValue, dataKey);
         }
       }
 
@@ -387,14 +429,15 @@ class CredentialVaultService {
       }
 
       // Update encrypted values
+      const dataKey = await this.unwrapDataKey(credential);
       if (newData.password) {
-        credential.encryptedPassword = this.encrypt(newData.password);
+        credential.encryptedPassword = this.encrypt(newData.password, dataKey);
       }
       if (newData.apiKey) {
-        credential.encryptedApiKey = this.encrypt(newData.apiKey);
+        credential.encryptedApiKey = this.encrypt(newData.apiKey, dataKey);
       }
       if (newData.token) {
-        credential.encryptedToken = this.encrypt(newData.token);
+        credential.encryptedToken = this.encrypt(newData.token, dataKey);
       }
 
       credential.updatedAt = new Date();
@@ -519,9 +562,13 @@ class CredentialVaultService {
   // ENCRYPTION
   // ========================================
 
-  private encrypt(plaintext: string): string {
+  private unwrapDataKey(credential: Credential): Promise<Buffer> {
+    return this.getKms().unwrapDataKey({ keyId: credential.keyId, wrappedKey: credential.wrappedDataKey });
+  }
+
+  private encrypt(plaintext: string, dataKey: Buffer): string {
     const iv = crypto.randomBytes(IV_LENGTH);
-    const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, this.encryptionKey, iv);
+    const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, dataKey, iv);
 
     let encrypted = cipher.update(plaintext, 'utf8', 'hex');
     encrypted += cipher.final('hex');
@@ -532,7 +579,7 @@ class CredentialVaultService {
     return iv.toString('hex') + ':' + encrypted + ':' + authTag.toString('hex');
   }
 
-  private decrypt(ciphertext: string): string {
+  private decrypt(ciphertext: string, dataKey: Buffer): string {
     const parts = ciphertext.split(':');
     if (parts.length !== 3) {
       throw new Error('Invalid ciphertext format');
@@ -542,7 +589,7 @@ class CredentialVaultService {
     const encrypted = parts[1];
     const authTag = Buffer.from(parts[2], 'hex');
 
-    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, this.encryptionKey, iv);
+    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, dataKey, iv);
     decipher.setAuthTag(authTag);
 
     let decrypted = decipher.update(encrypted, 'hex', 'utf8');
@@ -551,6 +598,117 @@ class CredentialVaultService {
     return decrypted;
   }
 
+  // ========================================
+  // MASTER KEY ROTATION
+  // ========================================
+
+  /**
+   * Create a new master key version (where the provider supports it) and
+   * start re-keying credentials to it
+   */
+  async rotateMasterKey(): Promise<RekeyJobStatus> {
+    await this.getKms().rotateMasterKey();
+    return this.startRekeyJob();
+  }
+
+  /**
+   * Re-wrap every data key that isn't wrapped by the active master key.
+   * Runs in batches in the background; credentials stay readable throughout
+   * because each one records the key id that wrapped it.
+   */
+  async startRekeyJob(options: { batchSize?: number } = {}): Promise<RekeyJobStatus> {
+    if (this.rekeyStatus.state === 'running') {
+      return this.getRekeyJobStatus();
+    }
+
+    const targetKeyId = await this.getKms().getActiveKeyId();
+    const pending = Array.from(this.credentials.values()).filter((credential) => credential.keyId !== targetKeyId);
+
+    this.rekeyStatus = {
+      state: 'running',
+      targetKeyId,
+      total: pending.length,
+      rekeyed: 0,
+      failures: [],
+      startedAt: new Date(),
+    };
+
+    this.rekeyJob = this.runRekeyJob(pending, targetKeyId, options.batchSize ?? REKEY_BATCH_SIZE);
+    return this.getRekeyJobStatus();
+  }
+
+  /**
+   * Resolves when the current re-key job has finished
+   */
+  async waitForRekeyJob(): Promise<RekeyJobStatus> {
+    await this.rekeyJob;
+    return this.getRekeyJobStatus();
+  }
+
+  getRekeyJobStatus(): RekeyJobStatus {
+    return { ...this.rekeyStatus, failures: [...this.rekeyStatus.failures] };
+  }
+
+  /**
+   * Number of credentials per master key version
+   */
+  getKeyVersionCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const credential of Array.from(this.credentials.values())) {
+      counts[credential.keyId] = (counts[credential.keyId] || 0) + 1;
+    }
+    return counts;
+  }
+
+  private async runRekeyJob(pending: Credential[], targetKeyId: string, batchSize: number): Promise<void> {
+    try {
+      for (let i = 0; i < pending.length; i += batchSize) {
+        for (const credential of pending.slice(i, i + batchSize)) {
+          try {
+            await this.rewrapDataKey(credential);
+            this.rekeyStatus.rekeyed++;
+          } catch (error) {
+            this.rekeyStatus.failures.push({
+              credentialId: credential.id,
+              error: error instanceof Error ? error.message : 'Failed to re-key credential',
+            });
+          }
+        }
+
+        // Let other requests run between batches
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      this.rekeyStatus.state = this.rekeyStatus.failures.length > 0 ? 'failed' : 'completed';
+      if (this.rekeyStatus.failures.length > 0) {
+        this.rekeyStatus.error = `${this.rekeyStatus.failures.length} credentials could not be re-keyed to ${targetKeyId}`;
+      }
+    } catch (error) {
+      this.rekeyStatus.state = 'failed';
+      this.rekeyStatus.error = error instanceof Error ? error.message : 'Re-key job failed';
+    } finally {
+      this.rekeyStatus.completedAt = new Date();
+    }
+  }
+
+  /**
+   * Wrap a credential's data key with the active master key.
+   * The data key itself doesn't change, so field ciphertexts stay valid.
+   */
+  private async rewrapDataKey(credential: Credential): Promise<void> {
+    const previous = { keyId: credential.keyId, wrappedKey: credential.wrappedDataKey };
+    const dataKey = await this.getKms().unwrapDataKey(previous);
+    const { keyId, wrappedKey } = await this.getKms().wrapDataKey(dataKey);
+
+    // Skip if the credential was deleted or re-wrapped while we waited
+    if (this.credentials.get(credential.id) !== credential || credential.wrappedDataKey !== previous.wrappedKey) {
+      return;
+    }
+
+    credential.keyId = keyId;
+    credential.wrappedDataKey = wrappedKey;
+  }
+
   // ========================================
   // USAGE TRACKING
   // ========================================
@@ -702,6 +860,6 @@ class CredentialVaultService {
 export const credentialVaultService = new CredentialVaultService();
 
 // Export factory function for testing
-export function createCredentialVaultService(): CredentialVaultService {
-  return new CredentialVaultService();
+export function createCredentialVaultService(kms?: KeyManagementProvider): CredentialVaultService {
+  return new CredentialVaultService(kms);
 }
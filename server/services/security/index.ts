@@ -14,8 +14,19 @@ export {
   type CredentialPermissions,
   type CredentialUsageLog,
   type DecryptedCredential,
+  type RekeyJobStatus,
 } from './credentialVault.service';
 
+// Key Management
+export {
+  createKeyManagementProvider,
+  EnvKeyProvider,
+  LocalFileKeyProvider,
+  VaultKeyConfigurationError,
+  type KeyManagementProvider,
+  type WrappedDataKey,
+} from './keyManagement.service';
+
 // Execution Control
 export {
   executionControlService,
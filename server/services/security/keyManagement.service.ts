@@ -0,0 +1,278 @@
+/**
+ * Key Management Service
+ *
+ * Master keys for the credential vault's envelope encryption:
+ * - Each credential is encrypted with its own random data key
+ * - Data keys are wrapped (AES-256-GCM) by a versioned master key
+ * - Old master key versions stay available for unwrapping until every
+ *   credential has been re-keyed to the active version
+ *
+ * Providers:
+ * - env: master keys from CREDENTIAL_VAULT_KEY (active) and
+ *   CREDENTIAL_VAULT_PREVIOUS_KEYS (older versions)
+ * - local: a file-based keyring that stands in for a KMS so development
+ *   works offline
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface WrappedDataKey {
+  keyId: string;
+  wrappedKey: string;
+}
+
+export interface KeyManagementProvider {
+  readonly name: string;
+  /** Master key version new data keys are wrapped with */
+  getActiveKeyId(): Promise<string>;
+  wrapDataKey(dataKey: Buffer): Promise<WrappedDataKey>;
+  unwrapDataKey(wrapped: WrappedDataKey): Promise<Buffer>;
+  /** Create a new master key version and make it active */
+  rotateMasterKey(): Promise<string>;
+}
+
+interface LocalKeyring {
+  activeKeyId: string;
+  keys: Record<string, { key: string; createdAt: string }>;
+}
+
+export class VaultKeyConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultKeyConfigurationError';
+  }
+}
+
+// ========================================
+// CONSTANTS
+// ========================================
+
+const WRAP_ALGORITHM = 'aes-256-gcm';
+const MASTER_KEY_LENGTH = 32;
+const WRAP_IV_LENGTH = 12;
+
+/**
+ * The passphrase older builds fell back to when CREDENTIAL_VAULT_KEY was unset
+ */
+export const INSECURE_DEFAULT_VAULT_KEY = 'default-development-key-change-in-prod';
+
+const DEFAULT_KEYRING_PATH = path.join(process.cwd(), '.vault', 'keyring.json');
+
+// ========================================
+// KEY WRAPPING
+// ========================================
+
+/**
+ * Wrap a data key, binding the master key id as additional authenticated data
+ */
+function wrapWithMasterKey(masterKey: Buffer, keyId: string, dataKey: Buffer): string {
+  const iv = crypto.randomBytes(WRAP_IV_LENGTH);
+  const cipher = crypto.createCipheriv(WRAP_ALGORITHM, masterKey, iv);
+  cipher.setAAD(Buffer.from(keyId, 'utf8'));
+  const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  return [iv, wrapped, cipher.getAuthTag()].map((part) => part.toString('base64')).join(':');
+}
+
+function unwrapWithMasterKey(masterKey: Buffer, keyId: string, wrappedKey: string): Buffer {
+  const parts = wrappedKey.split(':');
+  if (parts.length !== 3) {
+    throw new Error('Invalid wrapped key format');
+  }
+
+  const [iv, wrapped, authTag] = parts.map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(WRAP_ALGORITHM, masterKey, iv);
+  decipher.setAAD(Buffer.from(keyId, 'utf8'));
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(wrapped), decipher.final()]);
+}
+
+function parseMasterKey(value: string, label: string): Buffer {
+  if (!/^[0-9a-fA-F]{64}$/.test(value)) {
+    throw new VaultKeyConfigurationError(
+      `${label} must be 64 hex characters (32 bytes). Generate with: openssl rand -hex 32`
+    );
+  }
+  return Buffer.from(value, 'hex');
+}
+
+// ========================================
+// ENV PROVIDER
+// ========================================
+
+/**
+ * Master keys supplied through the environment.
+ * Rotate by moving the current key into CREDENTIAL_VAULT_PREVIOUS_KEYS,
+ * setting a new CREDENTIAL_VAULT_KEY/CREDENTIAL_VAULT_KEY_ID and re-keying.
+ */
+export class EnvKeyProvider implements KeyManagementProvider {
+  readonly name = 'env';
+  private keys = new Map<string, Buffer>();
+  private activeKeyId: string;
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    this.activeKeyId = env.CREDENTIAL_VAULT_KEY_ID || 'v1';
+    this.keys.set(this.activeKeyId, parseMasterKey(env.CREDENTIAL_VAULT_KEY || '', 'CREDENTIAL_VAULT_KEY'));
+
+    // Format: "v1:<hex>,v2:<hex>"
+    for (const entry of (env.CREDENTIAL_VAULT_PREVIOUS_KEYS || '').split(',')) {
+      if (!entry.trim()) continue;
+      const [keyId, key] = entry.trim().split(':');
+      if (!keyId || !key) {
+        throw new VaultKeyConfigurationError('CREDENTIAL_VAULT_PREVIOUS_KEYS entries must look like "<keyId>:<hex key>"');
+      }
+      if (keyId === this.activeKeyId) {
+        throw new VaultKeyConfigurationError(`Key id "${keyId}" is both active and previous`);
+      }
+      this.keys.set(keyId, parseMasterKey(key, `CREDENTIAL_VAULT_PREVIOUS_KEYS (${keyId})`));
+    }
+  }
+
+  async getActiveKeyId(): Promise<string> {
+    return this.activeKeyId;
+  }
+
+  async wrapDataKey(dataKey: Buffer): Promise<WrappedDataKey> {
+    const masterKey = this.keys.get(this.activeKeyId)!;
+    return { keyId: this.activeKeyId, wrappedKey: wrapWithMasterKey(masterKey, this.activeKeyId, dataKey) };
+  }
+
+  async unwrapDataKey(wrapped: WrappedDataKey): Promise<Buffer> {
+    const masterKey = this.keys.get(wrapped.keyId);
+    if (!masterKey) {
+      throw new Error(`Master key "${wrapped.keyId}" is not configured`);
+    }
+    return unwrapWithMasterKey(masterKey, wrapped.keyId, wrapped.wrappedKey);
+  }
+
+  async rotateMasterKey(): Promise<string> {
+    throw new Error(
+      'Env master keys are rotated by deployment: move CREDENTIAL_VAULT_KEY into CREDENTIAL_VAULT_PREVIOUS_KEYS and set a new key and CREDENTIAL_VAULT_KEY_ID'
+    );
+  }
+}
+
+// ========================================
+// LOCAL FILE PROVIDER
+// ========================================
+
+/**
+ * File-based keyring standing in for a KMS. The file holds every master key
+ * version in plain form, so it is only meant for development and tests.
+ */
+export class LocalFileKeyProvider implements KeyManagementProvider {
+  readonly name = 'local';
+  private keyring: LocalKeyring | null = null;
+
+  constructor(private readonly keyringPath: string = DEFAULT_KEYRING_PATH) {}
+
+  async getActiveKeyId(): Promise<string> {
+    return this.load().activeKeyId;
+  }
+
+  async wrapDataKey(dataKey: Buffer): Promise<WrappedDataKey> {
+    const keyring = this.load();
+    const masterKey = Buffer.from(keyring.keys[keyring.activeKeyId].key, 'base64');
+    return { keyId: keyring.activeKeyId, wrappedKey: wrapWithMasterKey(masterKey, keyring.activeKeyId, dataKey) };
+  }
+
+  async unwrapDataKey(wrapped: WrappedDataKey): Promise<Buffer> {
+    const entry = this.load().keys[wrapped.keyId];
+    if (!entry) {
+      throw new Error(`Master key "${wrapped.keyId}" is not in the local keyring`);
+    }
+    return unwrapWithMasterKey(Buffer.from(entry.key, 'base64'), wrapped.keyId, wrapped.wrappedKey);
+  }
+
+  async rotateMasterKey(): Promise<string> {
+    const keyring = this.load();
+    const version = Math.max(0, ...Object.keys(keyring.keys).map((id) => parseInt(id.replace(/^v/, ''), 10) || 0)) + 1;
+    const keyId = `v${version}`;
+
+    keyring.keys[keyId] = { key: crypto.randomBytes(MASTER_KEY_LENGTH).toString('base64'), createdAt: new Date().toISOString() };
+    keyring.activeKeyId = keyId;
+    this.save(keyring);
+
+    return keyId;
+  }
+
+  private load(): LocalKeyring {
+    if (this.keyring) {
+      return this.keyring;
+    }
+
+    if (fs.existsSync(this.keyringPath)) {
+      const keyring = JSON.parse(fs.readFileSync(this.keyringPath, 'utf8')) as LocalKeyring;
+      if (!keyring.keys?.[keyring.activeKeyId]) {
+        throw new VaultKeyConfigurationError(`Local keyring ${this.keyringPath} has no active key`);
+      }
+      this.keyring = keyring;
+      return keyring;
+    }
+
+    // First use: create the keyring with a random v1 key
+    const keyring: LocalKeyring = {
+      activeKeyId: 'v1',
+      keys: { v1: { key: crypto.randomBytes(MASTER_KEY_LENGTH).toString('base64'), createdAt: new Date().toISOString() } },
+    };
+    this.save(keyring);
+    return keyring;
+  }
+
+  private save(keyring: LocalKeyring): void {
+    fs.mkdirSync(path.dirname(this.keyringPath), { recursive: true, mode: 0o700 });
+    const tmpPath = `${this.keyringPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(keyring, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpPath, this.keyringPath);
+    this.keyring = keyring;
+  }
+}
+
+// ========================================
+// CONFIGURATION
+// ========================================
+
+function isDevelopmentEnv(env: NodeJS.ProcessEnv): boolean {
+  return env.NODE_ENV === 'development' || env.NODE_ENV === 'test';
+}
+
+/**
+ * Pick the master key provider from the environment.
+ *
+ * CREDENTIAL_VAULT_KMS=env|local chooses explicitly; otherwise env keys are
+ * used when CREDENTIAL_VAULT_KEY is set and the local keyring in development.
+ * Outside development the insecure default key and an implicit local keyring
+ * are refused.
+ */
+export function createKeyManagementProvider(env: NodeJS.ProcessEnv = process.env): KeyManagementProvider {
+  const usesDefaultKey = env.CREDENTIAL_VAULT_KEY === INSECURE_DEFAULT_VAULT_KEY;
+  if (usesDefaultKey && !isDevelopmentEnv(env)) {
+    throw new VaultKeyConfigurationError(
+      'CREDENTIAL_VAULT_KEY is set to the insecure development default. Generate a key with: openssl rand -hex 32'
+    );
+  }
+
+  // In development the old default passphrase just means "no key configured"
+  const kms = env.CREDENTIAL_VAULT_KMS || (env.CREDENTIAL_VAULT_KEY && !usesDefaultKey ? 'env' : 'local');
+
+  switch (kms) {
+    case 'env':
+      return new EnvKeyProvider(env);
+
+    case 'local':
+      if (!isDevelopmentEnv(env) && env.CREDENTIAL_VAULT_KMS !== 'local') {
+        throw new VaultKeyConfigurationError(
+          'CREDENTIAL_VAULT_KEY is required outside development (or set CREDENTIAL_VAULT_KMS=local to use the file keyring)'
+        );
+      }
+      return new LocalFileKeyProvider(env.CREDENTIAL_VAULT_KEYRING_PATH || DEFAULT_KEYRING_PATH);
+
+    default:
+      throw new VaultKeyConfigurationError(`Unknown CREDENTIAL_VAULT_KMS "${kms}" (expected env or local)`);
+  }
+}
@@ -7,7 +7,7 @@ import { browserbaseSDK } from "../_core/browserbaseSDK";
 import { invokeLLM } from "../_core/llm";
 import { getDb } from "../db";
 import { jobs } from "../../drizzle/schema";
-import { eq, desc } from "drizzle-orm";
+import { eq, and, desc, sql } from "drizzle-orm";
 import type { Page } from "puppeteer-core";
 import puppeteer from "puppeteer-core";
 
@@ -864,9 +864,19 @@ Return as JSON array.`;
   }
 
   /**
-   * Get recent SEO reports
+   * Condition matching audit jobs stored for a user (the owner lives in the job payload)
    */
-  async getReports(userId?: number, limit: number = 20): Promise<any[]> {
+  private ownedReports(userId: number) {
+    return and(
+      eq(jobs.type, "seo_audit"),
+      sql`(${jobs.payload})::jsonb->>'userId' = ${String(userId)}`
+    );
+  }
+
+  /**
+   * Get a user's recent SEO reports
+   */
+  async getReports(userId: number, limit: number = 20): Promise<any[]> {
     const db = await getDb();
     if (!db) {
       return [];
@@ -876,7 +886,7 @@ Return as JSON array.`;
       const reports = await db
         .select()
         .from(jobs)
-        .where(eq(jobs.type, "seo_audit"))
+        .where(this.ownedReports(userId))
         .orderBy(desc(jobs.createdAt))
         .limit(limit);
 
@@ -894,9 +904,9 @@ Return as JSON array.`;
   }
 
   /**
-   * Get a specific report
+   * Get a specific report, or null when it does not belong to the user
    */
-  async getReport(reportId: number): Promise<any | null> {
+  async getReport(reportId: number, userId: number): Promise<any | null> {
     const db = await getDb();
     if (!db) {
       return null;
@@ -906,7 +916,7 @@ Return as JSON array.`;
       const reports = await db
         .select()
         .from(jobs)
-        .where(eq(jobs.id, reportId))
+        .where(and(eq(jobs.id, reportId), this.ownedReports(userId)))
         .limit(1);
 
       if (reports.length === 0) {
@@ -0,0 +1,386 @@
+/**
+ * Shell Sandbox Service
+ * Runs agent shell commands in a throwaway container instead of on the host
+ *
+ * Every execution gets:
+ * - its own working directory, mounted at /sandbox/workspace and deleted afterwards
+ * - no network unless the tenant's policy allows it
+ * - CPU, memory, process and time limits from the tenant's policy
+ * - a read-only root filesystem (only the workspace and /tmp are writable)
+ * - only the environment variables the caller passes, never the server's
+ *
+ * Before anything runs, every command in the line (pipelines, `;`, `&&`, ...)
+ * is checked against the tenant's allowlist. The container is the security
+ * boundary; the allowlist narrows what agents may attempt inside it.
+ */
+
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import { chmod, mkdir, mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { z } from "zod";
+import { serviceLoggers } from "../lib/logger";
+
+const logger = serviceLoggers.sandbox;
+
+const CONTAINER_WORKSPACE = "/sandbox/workspace";
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024; // Per stream
+const KILL_GRACE_MS = 5000;
+
+// ========================================
+// POLICY
+// ========================================
+
+export const shellSandboxPolicySchema = z.object({
+  // Command names agents may run; "*" allows any command inside the sandbox
+  allowedCommands: z.array(z.string().min(1).max(100)).max(200),
+  allowNetwork: z.boolean(),
+  cpus: z.number().min(0.1).max(4),
+  memoryMb: z.number().int().min(64).max(4096),
+  timeoutMs: z.number().int().min(1000).max(600000),
+  maxProcesses: z.number().int().min(8).max(512),
+});
+
+export type ShellSandboxPolicy = z.infer<typeof shellSandboxPolicySchema>;
+
+export const DEFAULT_SHELL_SANDBOX_POLICY: ShellSandboxPolicy = {
+  allowedCommands: [
+    "ls", "pwd", "echo", "cat", "grep", "find", "wc", "sort", "uniq", "head", "tail",
+    "cut", "tr", "jq", "git", "node", "npm", "pnpm", "yarn", "python3",
+  ],
+  allowNetwork: false,
+  cpus: 1,
+  memoryMb: 512,
+  timeoutMs: 30000,
+  maxProcesses: 64,
+};
+
+export class ShellCommandNotAllowedError extends Error {
+  public readonly code = "SHELL_COMMAND_NOT_ALLOWED";
+  public readonly deniedCommands: string[];
+
+  constructor(message: string, deniedCommands: string[] = []) {
+    super(message);
+    this.name = "ShellCommandNotAllowedError";
+    this.deniedCommands = deniedCommands;
+  }
+}
+
+// Words that start or continue a compound command rather than name a program
+const LEADING_KEYWORDS = new Set(["if", "then", "else", "elif", "do", "while", "until", "!", "{", "(", "fi", "done", "esac", "}", ")"]);
+// Compounds whose first segment names no program (`for f in *`, `case $x in`)
+const NON_COMMAND_KEYWORDS = new Set(["for", "case", "select"]);
+
+/**
+ * Name of the program a simple command runs, skipping keywords,
+ * VAR=value assignments and redirections
+ */
+function getCommandName(segment: string): string | undefined {
+  const words = segment.trim().split(/\s+/).filter(Boolean);
+
+  for (const raw of words) {
+    const word = raw.replace(/^[({]+|[)}]+$/g, "");
+    if (!word || LEADING_KEYWORDS.has(word)) continue;
+    if (NON_COMMAND_KEYWORDS.has(word)) return undefined;
+    if (/^\w+=/.test(word) || /^\d*[<>]/.test(word)) continue;
+    return word.replace(/^(['"])(.*)\1$/, "$2");
+  }
+
+  return undefined;
+}
+
+/**
+ * List the programs a shell command line runs.
+ * Returns null when it hides commands in `$(...)`, backticks or `<(...)`,
+ * which an allowlist cannot see into.
+ */
+export function listInvokedCommands(command: string): string[] | null {
+  const segments: string[] = [];
+  let current = "";
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    const next = command[i + 1];
+
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      current += char;
+      continue;
+    }
+
+    if (char === "\\") {
+      current += char + (next ?? "");
+      i++;
+      continue;
+    }
+
+    // Substitutions run even inside double quotes
+    if (char === "`" || (char === "$" && next === "(")) return null;
+
+    if (quote === '"') {
+      if (char === '"') quote = null;
+      current += char;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      current += char;
+    } else if ((char === "<" || char === ">") && next === "(") {
+      return null;
+    } else if (char === "&" && (next === ">" || /[<>]$/.test(current))) {
+      current += char; // Redirection such as 2>&1 or &>file
+    } else if (char === ";" || char === "|" || char === "&" || char === "\n") {
+      segments.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  segments.push(current);
+
+  return segments
+    .map(getCommandName)
+    .filter((name): name is string => name !== undefined);
+}
+
+/**
+ * Throw ShellCommandNotAllowedError unless every program the command line
+ * runs is on the allowlist
+ */
+export function assertCommandAllowed(command: string, allowedCommands: string[]): void {
+  if (allowedCommands.includes("*")) return;
+
+  const invoked = listInvokedCommands(command);
+  if (invoked === null) {
+    throw new ShellCommandNotAllowedError(
+      "Command substitution is not allowed by this workspace's shell policy"
+    );
+  }
+
+  const denied = Array.from(new Set(invoked.filter((name) => !allowedCommands.includes(name))));
+  if (denied.length > 0) {
+    throw new ShellCommandNotAllowedError(
+      `Command not allowed: ${denied.join(", ")}. Allowed commands: ${allowedCommands.join(", ")}`,
+      denied
+    );
+  }
+}
+
+/**
+ * Resolve a working directory relative to the sandbox workspace,
+ * rejecting anything that would leave it
+ */
+export function resolveWorkingDirectory(cwd?: string): string {
+  if (!cwd || cwd === "." || cwd === CONTAINER_WORKSPACE) return "";
+
+  const relative = cwd.startsWith(`${CONTAINER_WORKSPACE}/`)
+    ? cwd.slice(CONTAINER_WORKSPACE.length + 1)
+    : cwd;
+  const normalized = path.posix.normalize(relative);
+
+  if (path.posix.isAbsolute(normalized) || normalized === ".." || normalized.startsWith("../")) {
+    throw new Error(`Working directory must be inside the sandbox workspace: ${cwd}`);
+  }
+
+  return normalized === "." ? "" : normalized.replace(/\/$/, "");
+}
+
+// ========================================
+// RUNNER
+// ========================================
+
+export interface ShellSandboxConfig {
+  runtime: string; // Container CLI (docker or a compatible one such as podman)
+  image: string;
+  workspaceRoot: string; // Host directory holding the per-execution workspaces
+}
+
+export interface SandboxRunOptions {
+  userId: number;
+  policy: ShellSandboxPolicy;
+  cwd?: string; // Relative to the workspace
+  env?: Record<string, string>;
+  timeoutMs?: number; // Capped by the policy
+  onOutput?: (stream: "stdout" | "stderr", chunk: string) => void;
+}
+
+export interface SandboxRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+export interface SandboxProcess {
+  id: string; // Container name
+  pid?: number;
+  result: Promise<SandboxRunResult>;
+  kill(): void;
+}
+
+function getSandboxConfig(): ShellSandboxConfig {
+  return {
+    runtime: process.env.SHELL_SANDBOX_RUNTIME || "docker",
+    image: process.env.SHELL_SANDBOX_IMAGE || "agent-sandbox",
+    workspaceRoot: process.env.SHELL_SANDBOX_WORKSPACE_ROOT || path.join(os.tmpdir(), "shell-sandbox"),
+  };
+}
+
+// Run as the server's own user so it can clean up the workspace; never as root
+function getContainerUser(): string {
+  const uid = process.getuid?.();
+  return uid ? `${uid}:${process.getgid?.() ?? uid}` : "65534:65534";
+}
+
+export class ShellSandbox {
+  private readonly config: ShellSandboxConfig;
+
+  constructor(config: Partial<ShellSandboxConfig> = {}) {
+    this.config = { ...getSandboxConfig(), ...config };
+  }
+
+  /**
+   * Run a command and wait for it to finish
+   */
+  async run(command: string, options: SandboxRunOptions): Promise<SandboxRunResult> {
+    const sandboxProcess = await this.start(command, options);
+    return sandboxProcess.result;
+  }
+
+  /**
+   * Start a command; the returned process resolves its result on exit
+   */
+  async start(command: string, options: SandboxRunOptions): Promise<SandboxProcess> {
+    const { policy } = options;
+    assertCommandAllowed(command, policy.allowedCommands);
+    const workdir = resolveWorkingDirectory(options.cwd);
+    const timeoutMs = Math.min(options.timeoutMs ?? policy.timeoutMs, policy.timeoutMs);
+
+    const id = `shell-sandbox-${options.userId}-${randomUUID().slice(0, 8)}`;
+    await mkdir(this.config.workspaceRoot, { recursive: true, mode: 0o700 });
+    const workspace = await mkdtemp(path.join(this.config.workspaceRoot, `${id}-`));
+    await chmod(workspace, 0o777);
+    if (workdir) {
+      await mkdir(path.join(workspace, workdir), { recursive: true, mode: 0o777 });
+    }
+
+    const startedAt = Date.now();
+    const child = spawn(this.config.runtime, this.buildRunArgs(id, command, workspace, { ...options, cwd: workdir }), {
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    logger.info({ userId: options.userId, container: id, network: policy.allowNetwork }, "Started sandboxed shell command");
+
+    const output = { stdout: "", stderr: "" };
+    let truncated = false;
+    let timedOut = false;
+
+    const collect = (stream: "stdout" | "stderr") => (data: Buffer) => {
+      const chunk = data.toString();
+      options.onOutput?.(stream, chunk);
+
+      const room = MAX_OUTPUT_BYTES - output[stream].length;
+      if (chunk.length > room) truncated = true;
+      if (room > 0) output[stream] += chunk.slice(0, room);
+    };
+    child.stdout?.on("data", collect("stdout"));
+    child.stderr?.on("data", collect("stderr"));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      this.killContainer(id);
+      // The CLI exits once the container is gone; force it if the runtime hangs
+      setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_MS).unref();
+    }, timeoutMs);
+
+    const result = new Promise<SandboxRunResult>((resolve, reject) => {
+      const finish = async (error: Error | null, exitCode: number | null) => {
+        clearTimeout(timer);
+        await rm(workspace, { recursive: true, force: true }).catch((cleanupError) => {
+          logger.warn({ container: id, error: cleanupError }, "Failed to remove sandbox workspace");
+        });
+
+        if (error) {
+          reject(new Error(`Shell sandbox is unavailable: ${error.message}`));
+          return;
+        }
+
+        resolve({
+          stdout: output.stdout,
+          stderr: output.stderr,
+          exitCode,
+          timedOut,
+          truncated,
+          durationMs: Date.now() - startedAt,
+        });
+      };
+
+      child.once("error", (error) => void finish(error, null));
+      child.once("close", (code) => void finish(null, code));
+    });
+
+    return {
+      id,
+      pid: child.pid,
+      result,
+      kill: () => this.killContainer(id),
+    };
+  }
+
+  /**
+   * Container runtime arguments for one execution
+   */
+  buildRunArgs(id: string, command: string, workspace: string, options: SandboxRunOptions): string[] {
+    const { policy } = options;
+    const workdir = options.cwd ? `${CONTAINER_WORKSPACE}/${options.cwd}` : CONTAINER_WORKSPACE;
+    const env = { HOME: "/tmp", ...(options.env || {}) };
+
+    return [
+      "run",
+      "--rm",
+      "--init",
+      "--name", id,
+      "--network", policy.allowNetwork ? "bridge" : "none",
+      "--cpus", String(policy.cpus),
+      "--memory", `${policy.memoryMb}m`,
+      "--memory-swap", `${policy.memoryMb}m`,
+      "--pids-limit", String(policy.maxProcesses),
+      "--read-only",
+      "--tmpfs", "/tmp:rw,nosuid,nodev,size=64m",
+      "--cap-drop", "ALL",
+      "--security-opt", "no-new-privileges",
+      "--user", getContainerUser(),
+      "--volume", `${workspace}:${CONTAINER_WORKSPACE}:rw`,
+      "--workdir", workdir,
+      ...Object.entries(env).flatMap(([key, value]) => ["--env", `${key}=${value}`]),
+      "--entrypoint", "/bin/sh",
+      this.config.image,
+      "-c", command,
+    ];
+  }
+
+  private killContainer(id: string): void {
+    const killer = spawn(this.config.runtime, ["kill", id], { stdio: "ignore" });
+    killer.on("error", (error) => {
+      logger.warn({ container: id, error }, "Failed to kill sandbox container");
+    });
+  }
+}
+
+// ========================================
+// SINGLETON INSTANCE
+// ========================================
+
+let shellSandboxInstance: ShellSandbox | null = null;
+
+export function getShellSandbox(): ShellSandbox {
+  if (!shellSandboxInstance) {
+    shellSandboxInstance = new ShellSandbox();
+  }
+  return shellSandboxInstance;
+}
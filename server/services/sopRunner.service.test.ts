@@ -0,0 +1,338 @@
+/**
+ * SOP Runner Service Tests
+ * Unit tests for step ordering, validation and automated SOP runs
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { sopDocuments, sopExecutions, sopSteps } from "../../drizzle/schema-sop";
+
+const executeTask = vi.fn();
+
+vi.mock("./workflowExecution.service", () => ({
+  testExecuteWorkflow: vi.fn(),
+}));
+
+vi.mock("./agentOrchestrator.service", () => ({
+  getAgentOrchestrator: () => ({ executeTask }),
+}));
+
+// In-memory stand-in for the one SOP, its steps and one execution
+const state: { sop: any; steps: any[]; execution: any; executionWheres: SQL[] } = {
+  sop: null,
+  steps: [],
+  execution: null,
+  executionWheres: [],
+};
+
+function rowsFor(table: unknown): any[] {
+  if (table === sopDocuments) return [state.sop];
+  if (table === sopSteps) return state.steps;
+  if (table === sopExecutions) return [{ ...state.execution }];
+  return [];
+}
+
+function query(rows: any[]): any {
+  return Object.assign(Promise.resolve(rows), {
+    where: () => query(rows),
+    limit: () => Promise.resolve(rows),
+    orderBy: () => Promise.resolve(rows),
+  });
+}
+
+vi.mock("../db", () => ({
+  getDb: vi.fn(() =>
+    Promise.resolve({
+      select: () => ({ from: (table: unknown) => query(rowsFor(table)) }),
+      update: (table: unknown) => ({
+        set: (values: Record<string, unknown>) => ({
+          where: (condition: SQL) => {
+            const target = table === sopExecutions ? state.execution : state.sop;
+            if (table === sopExecutions) {
+              state.executionWheres.push(condition);
+              // Stands in for the runner's `status = 'running'` guard once an abort lands
+              if (target.status === "aborted") {
+                return Object.assign(Promise.resolve(undefined), { returning: () => Promise.resolve([]) });
+              }
+            }
+            Object.assign(target, values);
+            return Object.assign(Promise.resolve(undefined), {
+              returning: () => Promise.resolve([{ ...target }]),
+            });
+          },
+        }),
+      }),
+    })
+  ),
+}));
+
+import { testExecuteWorkflow } from "./workflowExecution.service";
+import {
+  compileSopStep,
+  confirmManualStep,
+  evaluateValidationCriteria,
+  failInterruptedSopExecutions,
+  INTERRUPTED_EXECUTION_ERROR,
+  resolveSopStepOrder,
+  runSopExecution,
+  SopExecutionError,
+} from "./sopRunner.service";
+
+const dialect = new PgDialect();
+
+const step = (id: number, stepNumber: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  sopId: 1,
+  stepNumber,
+  title: `Step ${stepNumber}`,
+  instructions: `Do step ${stepNumber}`,
+  actionType: "api",
+  actionConfig: { url: `https://api.example.com/${stepNumber}` },
+  conditions: null,
+  validationCriteria: null,
+  errorHandling: null,
+  timeout: null,
+  dependsOn: null,
+  ...overrides,
+});
+
+const apiResponse = (status: number, data: unknown = {}) => ({
+  executionId: -1,
+  workflowId: -1,
+  status: "completed",
+  stepResults: [{ stepIndex: 0, type: "apiCall", success: true, result: { status, statusText: "", data } }],
+  output: { extractedData: [], finalVariables: {}, duration: 1 },
+});
+
+describe("SOP Runner Service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.sop = { id: 1, userId: 7, title: "Onboard client", executionCount: 1, successRate: null };
+    state.steps = [];
+    state.executionWheres = [];
+    state.execution = {
+      id: 10,
+      sopId: 1,
+      userId: 7,
+      executorType: "hybrid",
+      status: "in_progress",
+      currentStepIndex: 0,
+      stepResults: [],
+      context: { client: "Acme" },
+      startedAt: new Date(Date.now() - 1000),
+    };
+    vi.mocked(testExecuteWorkflow).mockResolvedValue(apiResponse(200, { ok: true }) as any);
+  });
+
+  describe("resolveSopStepOrder", () => {
+    it("should order steps after their dependencies, then by step number", () => {
+      const ordered = resolveSopStepOrder([
+        step(1, 1, { dependsOn: [3] }),
+        step(2, 2),
+        step(3, 3),
+        step(4, 4, { dependsOn: [1, 2] }),
+      ]);
+
+      expect(ordered.map((s) => s.id)).toEqual([2, 3, 1, 4]);
+    });
+
+    it("should reject cycles and unknown dependencies", () => {
+      expect(() => resolveSopStepOrder([
+        step(1, 1, { dependsOn: [2] }),
+        step(2, 2, { dependsOn: [1] }),
+        step(3, 3),
+      ])).toThrow("Steps 1, 2 have circular dependencies");
+      expect(() => resolveSopStepOrder([step(1, 1, { dependsOn: [9] })])).toThrow("depends on unknown step 9");
+    });
+  });
+
+  describe("compileSopStep", () => {
+    it("should compile a browser step into navigate, act and extract steps", () => {
+      const steps = compileSopStep(step(1, 1, {
+        actionType: "browser",
+        actionConfig: { url: "https://crm.example.com", instruction: "Open contacts", extractInstruction: "List emails" },
+      }));
+
+      expect(steps.map((s) => [s.type, s.order])).toEqual([["navigate", 0], ["act", 1], ["extract", 2]]);
+    });
+
+    it("should post the run payload to webhooks by default", () => {
+      const [compiled] = compileSopStep(
+        step(1, 1, { actionType: "webhook", actionConfig: { url: "https://hooks.example.com" } }),
+        { sopId: 1 }
+      );
+
+      expect(compiled.config).toMatchObject({ type: "apiCall", method: "POST", body: { sopId: 1 } });
+    });
+  });
+
+  describe("evaluateValidationCriteria", () => {
+    it("should report every failed criterion", () => {
+      const result = evaluateValidationCriteria(
+        { contains: "created", requiredFields: ["data.id"], expectStatus: [200, 201], expression: "output.data.count > 0" },
+        { status: 500, data: { count: 0 } }
+      );
+
+      expect(result.passed).toBe(false);
+      expect(result.failures).toEqual([
+        'Output does not contain "created"',
+        'Output is missing "data.id"',
+        "Expected status 200 or 201, got 500",
+        'Expression "output.data.count > 0" is false',
+      ]);
+    });
+
+    it("should pass when the output matches", () => {
+      expect(evaluateValidationCriteria(
+        { contains: "Created", requiredFields: ["data.id"], expression: "output.data.id == client_id" },
+        { status: 201, data: { id: 5, message: "created" } },
+        { client_id: 5 }
+      )).toEqual({ passed: true, failures: [] });
+    });
+  });
+
+  describe("runSopExecution", () => {
+    it("should pause on manual steps and resume after confirmation", async () => {
+      state.steps = [
+        step(1, 1, { actionConfig: { url: "https://api.example.com/accounts", saveAs: "account" } }),
+        step(2, 2, { actionType: "manual", actionConfig: null, dependsOn: [1] }),
+        step(3, 3, { actionConfig: { url: "https://api.example.com/welcome" }, dependsOn: [2] }),
+        step(4, 4, { actionType: "ai_decision", actionConfig: { prompt: "Tier for {{client}}?", options: ["gold", "silver"] } }),
+      ];
+      executeTask.mockResolvedValue({ executionId: 55, status: "completed", output: "This is a Gold client" });
+
+      const paused = await runSopExecution(10, 7);
+
+      expect(paused.status).toBe("awaiting_input");
+      expect(paused.currentStepIndex).toBe(1);
+      expect(paused.stepResults).toEqual([
+        expect.objectContaining({ stepId: 1, status: "completed", output: { status: 200, statusText: "", data: { ok: true } } }),
+        expect.objectContaining({ stepId: 2, status: "awaiting_input" }),
+        expect.objectContaining({ stepId: 4, status: "completed", output: { decision: "gold", response: "This is a Gold client" } }),
+      ]);
+      expect(executeTask).toHaveBeenCalledWith(expect.objectContaining({
+        taskDescription: "Tier for Acme?\n\nAnswer with exactly one of: gold, silver.",
+      }));
+      expect(testExecuteWorkflow).toHaveBeenCalledTimes(1);
+
+      await expect(confirmManualStep(10, 7, 3, { outcome: "completed" })).rejects.toThrow(SopExecutionError);
+      const confirmed = await confirmManualStep(10, 7, 2, { outcome: "completed", notes: "Called the client" });
+      expect(confirmed.status).toBe("in_progress");
+
+      const finished = await runSopExecution(10, 7);
+
+      expect(finished.status).toBe("completed");
+      expect(finished.completedAt).toBeInstanceOf(Date);
+      expect(vi.mocked(testExecuteWorkflow).mock.calls[1][0].variables).toMatchObject({
+        client: "Acme",
+        account: { status: 200 },
+        step4: { decision: "gold" },
+      });
+      expect(state.sop.successRate).toBe("100.00");
+    });
+
+    it("should retry failed validation per the error handling policy", async () => {
+      state.steps = [
+        step(1, 1, { errorHandling: { retries: 2, retryDelayMs: 0 }, validationCriteria: { requiredFields: ["data.id"] } }),
+      ];
+      vi.mocked(testExecuteWorkflow)
+        .mockResolvedValueOnce(apiResponse(503) as any)
+        .mockResolvedValueOnce(apiResponse(200, {}) as any)
+        .mockResolvedValueOnce(apiResponse(200, { id: 1 }) as any);
+
+      const result = await runSopExecution(10, 7);
+
+      expect(result.status).toBe("completed");
+      expect((result.stepResults as any[])[0]).toMatchObject({ status: "completed", attempts: 3 });
+    });
+
+    it("should stop at a failed step by default", async () => {
+      state.steps = [step(1, 1), step(2, 2)];
+      vi.mocked(testExecuteWorkflow).mockResolvedValueOnce(apiResponse(500) as any);
+
+      const result = await runSopExecution(10, 7);
+
+      expect(result.status).toBe("failed");
+      expect(result.result).toEqual({ error: "Step 1 failed: Validation failed: Request failed with status 500" });
+      expect(result.stepResults).toHaveLength(1);
+      expect(state.sop.successRate).toBe("0.00");
+    });
+
+    it("should skip dependents of a failed step and keep running other branches", async () => {
+      state.steps = [
+        step(1, 1, { errorHandling: { onFailure: "continue" } }),
+        step(2, 2, { dependsOn: [1] }),
+        step(3, 3, { conditions: { expression: "client == 'Globex'" } }),
+        step(4, 4),
+      ];
+      vi.mocked(testExecuteWorkflow).mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+      const result = await runSopExecution(10, 7);
+
+      expect(result.status).toBe("failed");
+      expect((result.stepResults as any[]).map((r) => [r.stepId, r.status])).toEqual([
+        [1, "failed"],
+        [2, "skipped"],
+        [3, "skipped"],
+        [4, "completed"],
+      ]);
+      expect((result.stepResults as any[])[1].blocked).toBe(true);
+    });
+
+    it("should refuse executions that are not runnable", async () => {
+      state.execution.status = "completed";
+
+      await expect(runSopExecution(10, 7)).rejects.toThrow("Execution is completed");
+    });
+
+    it("should stop between steps once the execution is no longer running", async () => {
+      state.steps = [step(1, 1), step(2, 2)];
+      vi.mocked(testExecuteWorkflow).mockImplementationOnce(async () => {
+        state.execution.status = "failed";
+        return apiResponse(200) as any;
+      });
+
+      const result = await runSopExecution(10, 7);
+
+      expect(result.status).toBe("failed");
+      expect(testExecuteWorkflow).toHaveBeenCalledTimes(1);
+      expect(state.sop.successRate).toBeNull();
+    });
+
+    it("should not overwrite an abort that lands during the last step", async () => {
+      state.steps = [step(1, 1)];
+      vi.mocked(testExecuteWorkflow).mockImplementationOnce(async () => {
+        state.execution.status = "aborted";
+        return apiResponse(200) as any;
+      });
+
+      const result = await runSopExecution(10, 7);
+
+      expect(result.status).toBe("aborted");
+      expect(result.completedAt).toBeUndefined();
+      expect(state.sop.successRate).toBeNull();
+
+      const { sql, params } = dialect.sqlToQuery(state.executionWheres[state.executionWheres.length - 1]);
+      expect(sql).toContain('"sop_executions"."status" = $2');
+      expect(params).toEqual([10, "running"]);
+    });
+  });
+
+  describe("failInterruptedSopExecutions", () => {
+    it("should fail executions left running by a stopped process", async () => {
+      state.execution.status = "running";
+
+      const failed = await failInterruptedSopExecutions();
+
+      expect(failed).toEqual([10]);
+      expect(state.execution).toMatchObject({
+        status: "failed",
+        result: { error: INTERRUPTED_EXECUTION_ERROR },
+        completedAt: expect.any(Date),
+      });
+      expect(dialect.sqlToQuery(state.executionWheres[0]).params).toEqual(["running"]);
+      expect(state.sop.successRate).toBe("0.00");
+    });
+  });
+});
@@ -0,0 +1,887 @@
+/**
+ * SOP Runner Service
+ * Executes SOPs automatically from their steps
+ *
+ * - Steps run in dependency order: `dependsOn` lists the ids of steps that
+ *   must finish first, ties are broken by stepNumber
+ * - browser, api and webhook steps are compiled into workflow steps and run
+ *   through the workflow executor; ai_decision steps run as agent tasks
+ * - manual steps pause the execution (`awaiting_input`) until a person
+ *   confirms them; independent branches keep running in the meantime
+ * - each automated step is checked against its validationCriteria and
+ *   retried per its errorHandling before it counts as failed
+ *
+ * Progress is written to sopExecutions.stepResults after every step, so a
+ * run can be resumed after a manual confirmation from where it stopped.
+ */
+
+import { and, asc, eq, inArray, or } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  sopDocuments,
+  sopExecutions,
+  sopSteps,
+  type SopExecution,
+  type SopStep,
+} from "../../drizzle/schema-sop";
+import type { WorkflowStep } from "../types";
+import { testExecuteWorkflow } from "./workflowExecution.service";
+import { getAgentOrchestrator } from "./agentOrchestrator.service";
+import { evaluateExpression } from "../lib/safeExpressionParser";
+import { substituteStringVariables } from "../_core/variableSubstitution";
+import { serviceLoggers } from "../lib/logger";
+
+const logger = serviceLoggers.sop;
+
+// ========================================
+// TYPES
+// ========================================
+
+export const SOP_ACTION_TYPES = ["manual", "browser", "api", "webhook", "ai_decision"] as const;
+
+export type SopActionType = typeof SOP_ACTION_TYPES[number];
+
+export type SopStepStatus = "completed" | "failed" | "skipped" | "awaiting_input";
+
+/**
+ * One entry of sopExecutions.stepResults written by the runner
+ */
+export interface SopStepResult {
+  stepId: number;
+  stepNumber: number;
+  title: string;
+  actionType: string;
+  status: SopStepStatus;
+  output?: unknown;
+  error?: string;
+  /** Skipped because a step it depends on failed */
+  blocked?: boolean;
+  validation?: SopValidationResult;
+  attempts?: number;
+  agentExecutionId?: number;
+  notes?: string;
+  confirmedBy?: number;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Stored in sopSteps.validationCriteria
+ */
+export interface SopValidationCriteria {
+  /** Expression over the run variables plus `output` that must be true */
+  expression?: string;
+  /** Text that must appear in the step output */
+  contains?: string | string[];
+  /** Text that must not appear in the step output */
+  notContains?: string | string[];
+  /** Dotted paths that must be present in the step output */
+  requiredFields?: string[];
+  /** Accepted HTTP status codes for api and webhook steps (default: any below 400) */
+  expectStatus?: number | number[];
+}
+
+export interface SopValidationResult {
+  passed: boolean;
+  failures: string[];
+}
+
+/**
+ * Stored in sopSteps.errorHandling
+ */
+export interface SopErrorHandling {
+  /** Extra attempts after the first failure */
+  retries?: number;
+  retryDelayMs?: number;
+  /** stop the run (default), continue with the remaining steps, or hand the step to a person */
+  onFailure?: "stop" | "continue" | "manual";
+}
+
+/**
+ * Stored in sopSteps.conditions. A string or array is shorthand for `all`.
+ */
+export interface SopStepConditions {
+  expression?: string;
+  all?: string[];
+  any?: string[];
+}
+
+export type SopExecutionErrorCode = "NOT_FOUND" | "CONFLICT" | "BAD_REQUEST";
+
+/**
+ * Error thrown when an execution can't be run or confirmed.
+ * The code matches the tRPC error code the router responds with.
+ */
+export class SopExecutionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: SopExecutionErrorCode
+  ) {
+    super(message);
+    this.name = "SopExecutionError";
+  }
+}
+
+const MAX_STEP_RETRIES = 5;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_AGENT_ITERATIONS = 10;
+
+/**
+ * Statuses from which the runner may pick an execution up
+ */
+const RUNNABLE_STATUSES = ["in_progress", "awaiting_input"];
+
+export const INTERRUPTED_EXECUTION_ERROR = "Execution was interrupted: the server restarted while it was running";
+
+// ========================================
+// PLANNING
+// ========================================
+
+function toStepIds(value: unknown): number[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(Number).filter((id) => Number.isInteger(id));
+}
+
+/**
+ * Order steps so each one comes after the steps it depends on.
+ * Throws on unknown dependencies and dependency cycles.
+ */
+export function resolveSopStepOrder<T extends Pick<SopStep, "id" | "stepNumber" | "dependsOn">>(steps: T[]): T[] {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const remaining = new Map<number, number>();
+  const dependents = new Map<number, T[]>();
+
+  for (const step of steps) {
+    const deps = [...new Set(toStepIds(step.dependsOn))];
+    for (const dep of deps) {
+      if (!byId.has(dep)) {
+        throw new Error(`Step ${step.stepNumber} depends on unknown step ${dep}`);
+      }
+      dependents.set(dep, [...(dependents.get(dep) ?? []), step]);
+    }
+    remaining.set(step.id, deps.length);
+  }
+
+  const byStepNumber = (a: T, b: T) => a.stepNumber - b.stepNumber || a.id - b.id;
+  const ready = steps.filter((step) => remaining.get(step.id) === 0).sort(byStepNumber);
+  const ordered: T[] = [];
+
+  while (ready.length > 0) {
+    const step = ready.shift()!;
+    ordered.push(step);
+    for (const dependent of dependents.get(step.id) ?? []) {
+      const count = remaining.get(dependent.id)! - 1;
+      remaining.set(dependent.id, count);
+      if (count === 0) {
+        ready.push(dependent);
+        ready.sort(byStepNumber);
+      }
+    }
+  }
+
+  if (ordered.length < steps.length) {
+    const cyclic = steps
+      .filter((step) => !ordered.includes(step))
+      .map((step) => step.stepNumber)
+      .sort((a, b) => a - b);
+    throw new Error(`Steps ${cyclic.join(", ")} have circular dependencies`);
+  }
+
+  return ordered;
+}
+
+/**
+ * Compile a browser, api or webhook step into workflow steps
+ */
+export function compileSopStep(
+  step: Pick<SopStep, "id" | "stepNumber" | "actionType" | "actionConfig" | "instructions">,
+  payload: Record<string, unknown> = {}
+): WorkflowStep[] {
+  const config = (step.actionConfig ?? {}) as Record<string, any>;
+
+  switch (step.actionType) {
+    case "browser": {
+      if (Array.isArray(config.steps) && config.steps.length > 0) {
+        return config.steps.map((child: Omit<WorkflowStep, "order">, index: number) => ({
+          ...child,
+          order: index,
+        }));
+      }
+
+      const steps: WorkflowStep[] = [];
+      if (config.url) {
+        steps.push({ type: "navigate", order: steps.length, config: { type: "navigate", url: config.url } });
+      }
+      if (config.instruction) {
+        steps.push({ type: "act", order: steps.length, config: { type: "act", instruction: config.instruction } });
+      }
+      if (config.extractInstruction) {
+        steps.push({
+          type: "extract",
+          order: steps.length,
+          config: { type: "extract", extractInstruction: config.extractInstruction, schemaType: config.schemaType },
+        });
+      }
+      if (steps.length === 0) {
+        throw new Error(`Browser step ${step.stepNumber} needs a url, instruction, extractInstruction or steps`);
+      }
+      return steps;
+    }
+
+    case "api":
+    case "webhook": {
+      if (!config.url) {
+        throw new Error(`${step.actionType === "api" ? "API" : "Webhook"} step ${step.stepNumber} needs a url`);
+      }
+      const isWebhook = step.actionType === "webhook";
+      return [{
+        type: "apiCall",
+        order: 0,
+        config: {
+          type: "apiCall",
+          url: config.url,
+          method: config.method ?? (isWebhook ? "POST" : "GET"),
+          headers: config.headers,
+          body: config.body ?? (isWebhook ? payload : undefined),
+        },
+      }];
+    }
+
+    default:
+      throw new Error(`Step ${step.stepNumber} (${step.actionType}) can't be compiled into workflow steps`);
+  }
+}
+
+// ========================================
+// CONDITIONS AND VALIDATION
+// ========================================
+
+function getPath(value: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((current, key) => {
+    if (current === null || current === undefined) return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, value);
+}
+
+function toList<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function checkExpression(expression: string, context: Record<string, unknown>): boolean {
+  const result = evaluateExpression(expression, context);
+  if (!result.success) {
+    throw new Error(`Invalid expression "${expression}": ${result.error}`);
+  }
+  return result.result;
+}
+
+/**
+ * Whether a step's conditions allow it to run. Throws on invalid expressions.
+ */
+export function sopConditionsMet(conditions: unknown, variables: Record<string, unknown>): boolean {
+  if (!conditions) return true;
+
+  const parsed: SopStepConditions = typeof conditions === "string"
+    ? { expression: conditions }
+    : Array.isArray(conditions)
+      ? { all: conditions }
+      : conditions as SopStepConditions;
+
+  const all = [...toList(parsed.expression), ...toList(parsed.all)];
+  if (!all.every((expression) => checkExpression(expression, variables))) {
+    return false;
+  }
+
+  const any = toList(parsed.any);
+  return any.length === 0 || any.some((expression) => checkExpression(expression, variables));
+}
+
+/**
+ * Check a step output against its validation criteria
+ */
+export function evaluateValidationCriteria(
+  criteria: SopValidationCriteria | null | undefined,
+  output: unknown,
+  variables: Record<string, unknown> = {}
+): SopValidationResult {
+  const failures: string[] = [];
+  if (!criteria) {
+    return { passed: true, failures };
+  }
+
+  const text = (typeof output === "string" ? output : JSON.stringify(output ?? "")).toLowerCase();
+
+  for (const expected of toList(criteria.contains)) {
+    if (!text.includes(expected.toLowerCase())) {
+      failures.push(`Output does not contain "${expected}"`);
+    }
+  }
+
+  for (const unexpected of toList(criteria.notContains)) {
+    if (text.includes(unexpected.toLowerCase())) {
+      failures.push(`Output contains "${unexpected}"`);
+    }
+  }
+
+  for (const field of criteria.requiredFields ?? []) {
+    const value = getPath(output, field);
+    if (value === undefined || value === null || value === "") {
+      failures.push(`Output is missing "${field}"`);
+    }
+  }
+
+  const statuses = toList(criteria.expectStatus);
+  if (statuses.length > 0) {
+    const status = getPath(output, "status");
+    if (!statuses.includes(status as number)) {
+      failures.push(`Expected status ${statuses.join(" or ")}, got ${status}`);
+    }
+  }
+
+  if (criteria.expression) {
+    const result = evaluateExpression(criteria.expression, { ...variables, output });
+    if (!result.success) {
+      failures.push(`Invalid expression "${criteria.expression}": ${result.error}`);
+    } else if (!result.result) {
+      failures.push(`Expression "${criteria.expression}" is false`);
+    }
+  }
+
+  return { passed: failures.length === 0, failures };
+}
+
+// ========================================
+// STEP EXECUTION
+// ========================================
+
+interface StepRunContext {
+  userId: number;
+  executionId: number;
+  sop: { id: number; title: string };
+  variables: Record<string, unknown>;
+}
+
+interface StepOutcome {
+  output: unknown;
+  agentExecutionId?: number;
+  /** The step handed control back to a person (an agent asked for input) */
+  needsInput?: boolean;
+}
+
+async function runWorkflowSteps(step: SopStep, run: StepRunContext): Promise<StepOutcome> {
+  const steps = compileSopStep(step, {
+    sopId: run.sop.id,
+    executionId: run.executionId,
+    step: { id: step.id, stepNumber: step.stepNumber, title: step.title },
+    variables: run.variables,
+  });
+
+  const result = await testExecuteWorkflow({ userId: run.userId, steps, variables: run.variables });
+  if (result.status !== "completed") {
+    throw new Error(result.error || "Workflow steps failed");
+  }
+
+  const results = (result.stepResults ?? []) as Array<{ result?: unknown }>;
+  const last = results[results.length - 1]?.result;
+
+  if (step.actionType === "browser") {
+    const { extractedData = [] } = (result.output ?? {}) as { extractedData?: unknown[] };
+    return { output: { result: last, extractedData } };
+  }
+
+  const response = last as { status: number; statusText: string; data: unknown };
+  return { output: { status: response.status, statusText: response.statusText, data: response.data } };
+}
+
+async function runAgentDecision(step: SopStep, run: StepRunContext): Promise<StepOutcome> {
+  const config = (step.actionConfig ?? {}) as { prompt?: string; options?: string[]; maxIterations?: number };
+  const options = Array.isArray(config.options) ? config.options.map(String) : [];
+
+  let taskDescription = substituteStringVariables(config.prompt || step.instructions, run.variables);
+  if (options.length > 0) {
+    taskDescription += `\n\nAnswer with exactly one of: ${options.join(", ")}.`;
+  }
+
+  const result = await getAgentOrchestrator().executeTask({
+    userId: run.userId,
+    taskDescription,
+    context: { sop: run.sop, step: step.title, variables: run.variables },
+    maxIterations: config.maxIterations ?? DEFAULT_AGENT_ITERATIONS,
+  });
+
+  if (result.status === "needs_input") {
+    return { output: result.output, agentExecutionId: result.executionId, needsInput: true };
+  }
+  if (result.status !== "completed") {
+    throw new Error(result.error || `Agent run ended with status ${result.status}`);
+  }
+
+  if (options.length === 0) {
+    return { output: { response: result.output }, agentExecutionId: result.executionId };
+  }
+
+  const response = typeof result.output === "string" ? result.output : JSON.stringify(result.output);
+  const decision = options.find((option) => response.toLowerCase().includes(option.toLowerCase()));
+  if (!decision) {
+    throw new Error(`Agent decision did not match any of: ${options.join(", ")}`);
+  }
+
+  return { output: { decision, response: result.output }, agentExecutionId: result.executionId };
+}
+
+function withTimeout<T>(promise: Promise<T>, seconds: number | null): Promise<T> {
+  if (!seconds || seconds <= 0) return promise;
+
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Step timed out after ${seconds}s`)), seconds * 1000);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run an automated step with its timeout, validation and retry policy
+ */
+async function executeAutomatedStep(
+  step: SopStep,
+  run: StepRunContext
+): Promise<Omit<SopStepResult, "stepId" | "stepNumber" | "title" | "actionType" | "startedAt">> {
+  const policy = (step.errorHandling ?? {}) as SopErrorHandling;
+  const maxAttempts = 1 + Math.min(Math.max(policy.retries ?? 0, 0), MAX_STEP_RETRIES);
+  const retryDelayMs = policy.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const isHttp = step.actionType === "api" || step.actionType === "webhook";
+
+  let lastError = "";
+  let lastOutcome: StepOutcome | undefined;
+  let validation: SopValidationResult | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1 && retryDelayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+    }
+
+    try {
+      const execute = step.actionType === "ai_decision" ? runAgentDecision : runWorkflowSteps;
+      lastOutcome = await withTimeout(execute(step, run), step.timeout);
+
+      if (lastOutcome.needsInput) {
+        return {
+          status: "awaiting_input",
+          output: lastOutcome.output,
+          agentExecutionId: lastOutcome.agentExecutionId,
+          attempts: attempt,
+          notes: `Agent execution ${lastOutcome.agentExecutionId} is waiting for input`,
+        };
+      }
+
+      const criteria = (step.validationCriteria ?? {}) as SopValidationCriteria;
+      validation = evaluateValidationCriteria(criteria, lastOutcome.output, run.variables);
+      const status = getPath(lastOutcome.output, "status") as number;
+      if (isHttp && criteria.expectStatus === undefined && status >= 400) {
+        validation = { passed: false, failures: [...validation.failures, `Request failed with status ${status}`] };
+      }
+
+      if (validation.passed) {
+        return {
+          status: "completed",
+          output: lastOutcome.output,
+          agentExecutionId: lastOutcome.agentExecutionId,
+          validation,
+          attempts: attempt,
+        };
+      }
+      lastError = `Validation failed: ${validation.failures.join("; ")}`;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : "Unknown error";
+      validation = undefined;
+    }
+
+    logger.warn({ executionId: run.executionId, stepId: step.id, attempt, error: lastError }, "SOP step attempt failed");
+  }
+
+  return {
+    status: "failed",
+    output: lastOutcome?.output,
+    agentExecutionId: lastOutcome?.agentExecutionId,
+    error: lastError,
+    validation,
+    attempts: maxAttempts,
+  };
+}
+
+// ========================================
+// EXECUTION
+// ========================================
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not initialized");
+  }
+  return db;
+}
+
+function readStepResults(execution: SopExecution): Map<number, SopStepResult> {
+  const results = new Map<number, SopStepResult>();
+  for (const entry of (execution.stepResults ?? []) as Partial<SopStepResult>[]) {
+    if (typeof entry?.stepId === "number" && entry.status) {
+      results.set(entry.stepId, entry as SopStepResult);
+    }
+  }
+  return results;
+}
+
+/**
+ * Variables available to templates, conditions and validation expressions:
+ * the execution context, `step<N>` for each finished step, and actionConfig.saveAs names
+ */
+export function buildSopVariables(
+  context: unknown,
+  steps: Pick<SopStep, "id" | "stepNumber" | "actionConfig">[],
+  results: Map<number, SopStepResult>
+): Record<string, unknown> {
+  const variables: Record<string, unknown> = { ...((context ?? {}) as Record<string, unknown>) };
+  for (const step of steps) {
+    const result = results.get(step.id);
+    if (result?.status !== "completed") continue;
+    variables[`step${step.stepNumber}`] = result.output;
+    const saveAs = (step.actionConfig as { saveAs?: string } | null)?.saveAs;
+    if (saveAs) {
+      variables[saveAs] = result.output;
+    }
+  }
+  return variables;
+}
+
+/**
+ * Recompute a SOP's success rate from its finished executions
+ */
+export async function updateSopSuccessRate(sopId: number): Promise<void> {
+  const db = await requireDb();
+
+  const finished = await db
+    .select({ status: sopExecutions.status })
+    .from(sopExecutions)
+    .where(and(
+      eq(sopExecutions.sopId, sopId),
+      or(eq(sopExecutions.status, "completed"), eq(sopExecutions.status, "failed"))
+    ));
+
+  const successCount = finished.filter((e) => e.status === "completed").length;
+  const successRate = finished.length > 0 ? (successCount / finished.length) * 100 : 0;
+
+  await db
+    .update(sopDocuments)
+    .set({ successRate: successRate.toFixed(2) })
+    .where(eq(sopDocuments.id, sopId));
+}
+
+async function loadExecution(executionId: number, userId: number): Promise<SopExecution> {
+  const db = await requireDb();
+  const [execution] = await db
+    .select()
+    .from(sopExecutions)
+    .where(and(eq(sopExecutions.id, executionId), eq(sopExecutions.userId, userId)))
+    .limit(1);
+
+  if (!execution) {
+    throw new SopExecutionError("Execution not found", "NOT_FOUND");
+  }
+  return execution;
+}
+
+/**
+ * Walk the SOP's steps in dependency order and run everything that can run.
+ * Ends `completed`, `failed`, or `awaiting_input` when manual steps are pending.
+ */
+export async function runSopExecution(executionId: number, userId: number): Promise<SopExecution> {
+  const db = await requireDb();
+  const execution = await loadExecution(executionId, userId);
+
+  if (!RUNNABLE_STATUSES.includes(execution.status)) {
+    throw new SopExecutionError(`Execution is ${execution.status}`, "CONFLICT");
+  }
+
+  // Claim the execution so a second run can't walk the same steps
+  const [claimed] = await db
+    .update(sopExecutions)
+    .set({ status: "running" })
+    .where(and(eq(sopExecutions.id, executionId), inArray(sopExecutions.status, RUNNABLE_STATUSES)))
+    .returning();
+  if (!claimed) {
+    throw new SopExecutionError("Execution is already running", "CONFLICT");
+  }
+
+  const [sop] = await db
+    .select()
+    .from(sopDocuments)
+    .where(eq(sopDocuments.id, execution.sopId))
+    .limit(1);
+  const steps = await db
+    .select()
+    .from(sopSteps)
+    .where(eq(sopSteps.sopId, execution.sopId))
+    .orderBy(asc(sopSteps.stepNumber));
+
+  const results = readStepResults(execution);
+  // Only write while this run still owns the execution, so an abort (or the
+  // startup sweep failing it) is never overwritten
+  const persist = async (values: Partial<SopExecution>): Promise<SopExecution | undefined> => {
+    const [updated] = await db
+      .update(sopExecutions)
+      .set({ stepResults: [...results.values()], ...values })
+      .where(and(eq(sopExecutions.id, executionId), eq(sopExecutions.status, "running")))
+      .returning();
+    return updated;
+  };
+
+  let plan: SopStep[];
+  try {
+    plan = resolveSopStepOrder(steps);
+  } catch (error) {
+    return finish(execution, persist, "failed", { error: error instanceof Error ? error.message : "Invalid SOP" });
+  }
+
+  const run: StepRunContext = {
+    userId,
+    executionId,
+    sop: { id: execution.sopId, title: sop?.title ?? "" },
+    variables: buildSopVariables(execution.context, plan, results),
+  };
+
+  let stoppedBy: SopStepResult | undefined;
+
+  for (const [index, step] of plan.entries()) {
+    const existing = results.get(step.id);
+    if (existing) {
+      // A person marked a step failed that should stop the run
+      if (existing.status === "failed" && (((step.errorHandling ?? {}) as SopErrorHandling).onFailure ?? "stop") === "stop") {
+        stoppedBy = existing;
+        break;
+      }
+      continue;
+    }
+
+    const base = {
+      stepId: step.id,
+      stepNumber: step.stepNumber,
+      title: step.title,
+      actionType: step.actionType,
+      startedAt: new Date().toISOString(),
+    };
+
+    // Dependencies are ordered first, so a missing result means they are still waiting on a person
+    const deps = toStepIds(step.dependsOn).map((id) => results.get(id));
+    if (deps.some((dep) => !dep || dep.status === "awaiting_input")) continue;
+
+    const failedDep = deps.find((dep) => dep!.status === "failed" || dep!.blocked);
+    if (failedDep) {
+      results.set(step.id, {
+        ...base,
+        status: "skipped",
+        blocked: true,
+        error: `Depends on step ${failedDep.stepNumber}, which did not complete`,
+        completedAt: base.startedAt,
+      });
+      await persist({ currentStepIndex: index });
+      continue;
+    }
+
+    // Stop between steps if the execution was aborted (or failed) while we were running
+    const [current] = await db
+      .select({ status: sopExecutions.status })
+      .from(sopExecutions)
+      .where(eq(sopExecutions.id, executionId))
+      .limit(1);
+    if (current?.status !== "running") {
+      logger.info({ executionId, status: current?.status }, "SOP execution no longer running, stopping runner");
+      return loadExecution(executionId, userId);
+    }
+
+    let result: SopStepResult;
+    try {
+      if (!sopConditionsMet(step.conditions, run.variables)) {
+        results.set(step.id, { ...base, status: "skipped", notes: "Conditions not met", completedAt: base.startedAt });
+        await persist({ currentStepIndex: index });
+        continue;
+      }
+
+      if (step.actionType === "manual") {
+        result = { ...base, status: "awaiting_input" };
+      } else {
+        await persist({ currentStepIndex: index });
+        result = { ...base, ...(await executeAutomatedStep(step, run)) };
+      }
+    } catch (error) {
+      result = { ...base, status: "failed", error: error instanceof Error ? error.message : "Unknown error" };
+    }
+
+    if (result.status === "failed") {
+      const onFailure = ((step.errorHandling ?? {}) as SopErrorHandling).onFailure ?? "stop";
+      if (onFailure === "manual") {
+        result = { ...result, status: "awaiting_input", notes: "Automated attempt failed, confirm manually" };
+      } else if (onFailure === "stop") {
+        stoppedBy = result;
+      }
+    }
+
+    if (result.status !== "awaiting_input") {
+      result.completedAt = new Date().toISOString();
+    }
+    results.set(step.id, result);
+    run.variables = buildSopVariables(execution.context, plan, results);
+    await persist({ currentStepIndex: index });
+
+    logger.info(
+      { executionId, stepId: step.id, status: result.status, attempts: result.attempts },
+      "SOP step finished"
+    );
+
+    if (stoppedBy) break;
+  }
+
+  if (stoppedBy) {
+    return finish(execution, persist, "failed", {
+      error: `Step ${stoppedBy.stepNumber} failed: ${stoppedBy.error}`,
+    });
+  }
+
+  if (plan.some((step) => !results.has(step.id) || results.get(step.id)!.status === "awaiting_input")) {
+    const waiting = plan.find((step) => results.get(step.id)?.status === "awaiting_input");
+    const updated = await persist({
+      status: "awaiting_input",
+      currentStepIndex: waiting ? plan.indexOf(waiting) : execution.currentStepIndex,
+    });
+    return updated ?? loadExecution(executionId, userId);
+  }
+
+  const failed = [...results.values()].filter((result) => result.status === "failed");
+  return finish(execution, persist, failed.length > 0 ? "failed" : "completed", {
+    variables: run.variables,
+    ...(failed.length > 0 && { error: `Steps ${failed.map((r) => r.stepNumber).join(", ")} failed` }),
+  });
+}
+
+async function finish(
+  execution: SopExecution,
+  persist: (values: Partial<SopExecution>) => Promise<SopExecution | undefined>,
+  status: "completed" | "failed",
+  result: Record<string, unknown>
+): Promise<SopExecution> {
+  const completedAt = new Date();
+  const updated = await persist({
+    status,
+    result,
+    completedAt,
+    durationMs: completedAt.getTime() - execution.startedAt.getTime(),
+  });
+
+  if (!updated) {
+    logger.info({ executionId: execution.id }, "SOP execution stopped before it finished, keeping its status");
+    return loadExecution(execution.id, execution.userId);
+  }
+
+  await updateSopSuccessRate(execution.sopId);
+  logger.info({ executionId: execution.id, sopId: execution.sopId, status }, "SOP execution finished");
+  return updated;
+}
+
+/**
+ * Record a person's confirmation of a step the runner is waiting on.
+ * The caller resumes the run afterwards.
+ */
+export async function confirmManualStep(
+  executionId: number,
+  userId: number,
+  stepId: number,
+  confirmation: { outcome: "completed" | "failed"; notes?: string; output?: unknown }
+): Promise<SopExecution> {
+  const db = await requireDb();
+  const execution = await loadExecution(executionId, userId);
+
+  if (execution.status !== "awaiting_input") {
+    throw new SopExecutionError(`Execution is ${execution.status}, not awaiting input`, "CONFLICT");
+  }
+
+  const results = readStepResults(execution);
+  const pending = results.get(stepId);
+  if (!pending || pending.status !== "awaiting_input") {
+    throw new SopExecutionError("Step is not waiting for confirmation", "BAD_REQUEST");
+  }
+
+  results.set(stepId, {
+    ...pending,
+    status: confirmation.outcome,
+    output: confirmation.output ?? pending.output,
+    notes: confirmation.notes ?? pending.notes,
+    error: confirmation.outcome === "failed" ? (confirmation.notes || pending.error || "Marked as failed") : undefined,
+    confirmedBy: userId,
+    completedAt: new Date().toISOString(),
+  });
+
+  const [updated] = await db
+    .update(sopExecutions)
+    .set({ status: "in_progress", stepResults: [...results.values()] })
+    .where(and(eq(sopExecutions.id, executionId), eq(sopExecutions.status, "awaiting_input")))
+    .returning();
+
+  if (!updated) {
+    throw new SopExecutionError("Execution changed while confirming the step", "CONFLICT");
+  }
+  return updated;
+}
+
+/**
+ * Fail executions left `running` by a process that stopped
+ * Runs only happen in the process that started them, so after a restart
+ * nothing is working on these any more. Called once at startup.
+ */
+export async function failInterruptedSopExecutions(): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const interrupted = await db
+    .update(sopExecutions)
+    .set({
+      status: "failed",
+      result: { error: INTERRUPTED_EXECUTION_ERROR },
+      completedAt: new Date(),
+    })
+    .where(eq(sopExecutions.status, "running"))
+    .returning({ id: sopExecutions.id, sopId: sopExecutions.sopId });
+
+  for (const sopId of new Set(interrupted.map((execution) => execution.sopId))) {
+    await updateSopSuccessRate(sopId);
+  }
+
+  if (interrupted.length > 0) {
+    logger.warn({ executionIds: interrupted.map((execution) => execution.id) }, "Failed interrupted SOP executions");
+  }
+  return interrupted.map((execution) => execution.id);
+}
+
+/**
+ * Run an execution in this process without waiting for it
+ */
+export function startSopExecutionRun(executionId: number, userId: number): void {
+  void runSopExecution(executionId, userId).catch(async (error) => {
+    logger.error({ err: error, executionId }, "SOP execution run failed");
+    if (error instanceof SopExecutionError) return;
+
+    // Don't leave the execution claimed by a run that died
+    try {
+      const db = await requireDb();
+      await db
+        .update(sopExecutions)
+        .set({
+          status: "failed",
+          result: { error: error instanceof Error ? error.message : "Unknown error" },
+          completedAt: new Date(),
+        })
+        .where(and(eq(sopExecutions.id, executionId), eq(sopExecutions.status, "running")));
+    } catch (updateError) {
+      logger.error({ err: updateError, executionId }, "Failed to mark SOP execution as failed");
+    }
+  });
+}
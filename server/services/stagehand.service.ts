@@ -1,6 +1,7 @@
 /**
  * Stagehand AI Browser Automation Service
- * Combines Browserbase cloud browsers with Stagehand AI-powered automation
+ * Combines Browserbase cloud browsers or local Chromium with Stagehand
+ * AI-powered automation
  *
  * Features:
  * - AI-powered browser actions via natural language
@@ -8,6 +9,7 @@
  * - Automatic action caching (Stagehand v3 feature)
  * - Self-healing execution layer
  * - Session management and lifecycle
+ * - Per-session backend: Browserbase or local/self-hosted Chromium
  * - GHL-specific automation helpers
  *
  * Best Practices (Stagehand v3):
@@ -21,6 +23,14 @@ import { Stagehand } from '@browserbasehq/stagehand';
 import type { Page, BrowserContext } from 'playwright-core';
 import { browserbaseSDK, BrowserbaseSDKError } from '../_core/browserbaseSDK';
 import { getCostTrackingService } from './costTracking.service';
+import {
+  resolveBrowserBackend,
+  createLocalSessionId,
+  getLocalBrowserLaunchOptions,
+  listLocalDownloads,
+  localBrowserPool,
+  type BrowserBackend,
+} from './browser/browserBackend.service';
 
 // ========================================
 // TYPES & INTERFACES
@@ -33,6 +43,8 @@ export interface StagehandConfig {
   timeout?: number;
   userId?: number;
   executionId?: number;
+  // Where the browser runs; defaults to the tenant's preference (see browserBackend.service)
+  backend?: BrowserBackend;
   // Browserbase session settings (Stagehand v3)
   browserSettings?: {
     viewport?: { width: number; height: number };
@@ -82,6 +94,7 @@ export interface TabInfo {
 
 export interface StagehandSession {
   id: string;
+  backend: BrowserBackend;
   stagehand: Stagehand;
   page: any; // Stagehand's page type is compatible but not exact match with Page (default/primary tab)
   context: any; // Stagehand's context type is compatible but not exact match with BrowserContext
@@ -97,6 +110,8 @@ export interface StagehandSession {
   userId?: number;
   executionId?: number;
   screenshotCount: number;
+  // Registered by the browser router, which owns the browser's lifecycle
+  external?: boolean;
 }
 
 export interface ActResult {
@@ -270,7 +285,7 @@ export class StagehandService {
     const sessionsToCleanup = Array.from(this.sessions.entries())
       .filter(([_, session]) => {
         const idleTime = now.getTime() - session.lastActivityAt.getTime();
-        return idleTime > maxIdleTime && session.status === 'idle';
+        return idleTime > maxIdleTime && session.status === 'idle' && !session.external;
       })
       .map(([sessionId]) => sessionId);
 
@@ -293,18 +308,28 @@ export class StagehandService {
   public async createSession(config?: Partial<StagehandConfig>): Promise<StagehandSession> {
     const mergedConfig = { ...this.defaultConfig, ...config };
 
-    // Verify Browserbase credentials
-    if (!process.env.BROWSERBASE_API_KEY || !process.env.BROWSERBASE_PROJECT_ID) {
-      throw new Error('BROWSERBASE_API_KEY and BROWSERBASE_PROJECT_ID are required');
-    }
+    // Pick the browser backend (verifies Browserbase credentials when needed)
+    const backend = await resolveBrowserBackend({
+      requested: mergedConfig.backend,
+      userId: mergedConfig.userId,
+    });
 
     const modelConfig = getModelConfig(mergedConfig.model);
     if (!modelConfig.apiKey) {
       throw new Error(`API key not found for model type: ${mergedConfig.model}`);
     }
 
+    // Generate unique session ID
+    const sessionId = backend === 'local'
+      ? createLocalSessionId()
+      : `stagehand_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+    if (backend === 'local') {
+      localBrowserPool.acquire(sessionId, mergedConfig.userId);
+    }
+
     try {
-      console.log('[StagehandService] Creating new session with Stagehand v3 configuration...');
+      console.log(`[StagehandService] Creating new ${backend} session with Stagehand v3 configuration...`);
 
       // Build browserbaseSessionCreateParams (Stagehand v3)
       const browserbaseParams: Record<string, unknown> = {
@@ -347,10 +372,23 @@ export class StagehandService {
         };
       }
 
+      const backendOptions = backend === 'local'
+        ? {
+          env: 'LOCAL',
+          localBrowserLaunchOptions: getLocalBrowserLaunchOptions(sessionId, {
+            viewport: mergedConfig.browserSettings?.viewport,
+          }),
+        }
+        : {
+          env: 'BROWSERBASE',
+          apiKey: process.env.BROWSERBASE_API_KEY,
+          projectId: process.env.BROWSERBASE_PROJECT_ID,
+          // Browserbase session configuration
+          browserbaseSessionCreateParams: browserbaseParams,
+        };
+
       const stagehand = new Stagehand({
-        env: 'BROWSERBASE',
-        apiKey: process.env.BROWSERBASE_API_KEY,
-        projectId: process.env.BROWSERBASE_PROJECT_ID,
+        ...backendOptions,
         verbose: mergedConfig.verbose,
         // Model configuration
         model: {
@@ -361,8 +399,6 @@ export class StagehandService {
         cacheDir: mergedConfig.cacheDir || './stagehand-cache',
         // DOM stabilization timeout (500ms for static, up to 5000ms for dynamic content)
         domSettleTimeout: mergedConfig.domSettleTimeout || 1000,
-        // Browserbase session configuration
-        browserbaseSessionCreateParams: browserbaseParams,
       } as any);
 
       await stagehand.init();
@@ -372,9 +408,6 @@ export class StagehandService {
       const pages = context.pages();
       const page = pages[0] || await context.newPage();
 
-      // Generate unique session ID
-      const sessionId = `stagehand_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-
       // Initialize primary tab
       const primaryTabId = `tab_${Date.now()}_0`;
       const pagesMap = new Map<string, TabInfo>();
@@ -389,6 +422,7 @@ export class StagehandService {
 
       const session: StagehandSession = {
         id: sessionId,
+        backend,
         stagehand,
         page,
         context,
@@ -409,11 +443,68 @@ export class StagehandService {
       return session;
 
     } catch (error) {
+      localBrowserPool.release(sessionId);
       console.error('[StagehandService] Failed to create session:', error);
       throw new Error(`Failed to create Stagehand session: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Register a Stagehand instance created elsewhere (the browser router) so
+   * the session methods here can drive it. The caller keeps ownership: it
+   * closes the browser and calls unregisterSession when done.
+   */
+  public async registerSession(
+    sessionId: string,
+    stagehand: Stagehand,
+    options: { backend: BrowserBackend; userId?: number }
+  ): Promise<StagehandSession> {
+    const existing = this.sessions.get(sessionId);
+    if (existing) return existing;
+
+    const context = stagehand.context;
+    const page = context.pages()[0] || await context.newPage();
+
+    const primaryTabId = `tab_${Date.now()}_0`;
+    const pagesMap = new Map<string, TabInfo>();
+    pagesMap.set(primaryTabId, {
+      id: primaryTabId,
+      page,
+      title: await page.title().catch(() => 'New Tab'),
+      url: page.url(),
+      createdAt: new Date(),
+    });
+
+    const session: StagehandSession = {
+      id: sessionId,
+      backend: options.backend,
+      stagehand,
+      page,
+      context,
+      createdAt: new Date(),
+      lastActivityAt: new Date(),
+      status: 'active',
+      pages: pagesMap,
+      activeTabId: primaryTabId,
+      downloads: [],
+      userId: options.userId,
+      screenshotCount: 0,
+      external: true,
+    };
+
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  /**
+   * Forget a registered session without closing its browser
+   */
+  public unregisterSession(sessionId: string): void {
+    if (this.sessions.get(sessionId)?.external) {
+      this.sessions.delete(sessionId);
+    }
+  }
+
   /**
    * Get an existing session
    */
@@ -773,9 +864,12 @@ export class StagehandService {
     const session = this.sessions.get(sessionId);
     if (!session) return null;
 
+    // Local sessions have no hosted live view
+    if (session.backend === 'local') return null;
+
     try {
       // Extract Browserbase session ID from Stagehand
-      const browserbaseSessionId = (session.stagehand as any).sessionId;
+      const browserbaseSessionId = session.stagehand.browserbaseSessionID;
       if (!browserbaseSessionId) return null;
 
       const debugInfo = await browserbaseSDK.getSessionDebug(browserbaseSessionId);
@@ -796,13 +890,20 @@ export class StagehandService {
       return { success: false, error: 'Session not found' };
     }
 
+    // The browser router closes the browsers it registered
+    if (session.external) {
+      this.sessions.delete(sessionId);
+      return { success: true };
+    }
+
     try {
       console.log(`[StagehandService] Closing session: ${sessionId}`);
 
       // ========================================
       // COST TRACKING: Track Browserbase session cost
+      // Local sessions aren't billed by Browserbase
       // ========================================
-      if (session.userId) {
+      if (session.userId && session.backend === 'browserbase') {
         try {
           const costTrackingService = getCostTrackingService();
           const durationMs = Date.now() - session.createdAt.getTime();
@@ -811,7 +912,7 @@ export class StagehandService {
           let debugUrl: string | undefined;
           let recordingUrl: string | undefined;
           try {
-            const sessionInfo = await browserbaseSDK.getSession(sessionId);
+            const sessionInfo = await browserbaseSDK.getSession(session.stagehand.browserbaseSessionID || sessionId);
             debugUrl = sessionInfo.debuggerUrl;
             // Note: Recording URL would be obtained separately from Browserbase API
           } catch (e) {
@@ -842,6 +943,7 @@ export class StagehandService {
       await session.stagehand.close();
       session.status = 'closed';
       this.sessions.delete(sessionId);
+      localBrowserPool.release(sessionId);
 
       console.log(`[StagehandService] Session closed: ${sessionId}`);
       return { success: true };
@@ -850,6 +952,7 @@ export class StagehandService {
       console.error('[StagehandService] Failed to close session:', error);
       // Still remove from map even if close fails
       this.sessions.delete(sessionId);
+      localBrowserPool.release(sessionId);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -862,12 +965,14 @@ export class StagehandService {
    */
   public listSessions(): Array<{
     id: string;
+    backend: BrowserBackend;
     createdAt: Date;
     lastActivityAt: Date;
     status: string;
   }> {
     return Array.from(this.sessions.values()).map(s => ({
       id: s.id,
+      backend: s.backend,
       createdAt: s.createdAt,
       lastActivityAt: s.lastActivityAt,
       status: s.status,
@@ -1115,6 +1220,12 @@ export class StagehandService {
 
     try {
       this.updateActivity(session);
+
+      // Local Chromium saves downloads straight to the session's downloads directory
+      if (session.backend === 'local') {
+        return { success: true, downloads: await listLocalDownloads(sessionId) };
+      }
+
       return { success: true, downloads: session.downloads };
 
     } catch (error) {
@@ -1401,6 +1512,48 @@ export class StagehandService {
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
+
+  /**
+   * Get the on-screen regions of elements matching the selectors, in
+   * screenshot pixels (viewport coordinates scaled by devicePixelRatio)
+   */
+  public async getElementRegions(
+    sessionId: string,
+    selectors: string[]
+  ): Promise<Array<{ x: number; y: number; width: number; height: number }>> {
+    const session = this.sessions.get(sessionId);
+    if (!session || selectors.length === 0) return [];
+
+    this.updateActivity(session);
+
+    return session.page.evaluate((sels: string[]) => {
+      const scale = window.devicePixelRatio || 1;
+      const regions: Array<{ x: number; y: number; width: number; height: number }> = [];
+
+      for (const sel of sels) {
+        let elements: Element[];
+        try {
+          elements = Array.from(document.querySelectorAll(sel));
+        } catch {
+          continue; // Invalid selector
+        }
+
+        for (const el of elements) {
+          const rect = el.getBoundingClientRect();
+          if (rect.width > 0 && rect.height > 0) {
+            regions.push({
+              x: Math.floor(rect.left * scale),
+              y: Math.floor(rect.top * scale),
+              width: Math.ceil(rect.width * scale),
+              height: Math.ceil(rect.height * scale),
+            });
+          }
+        }
+      }
+
+      return regions;
+    }, selectors);
+  }
 }
 
 // ========================================
@@ -0,0 +1,81 @@
+/**
+ * Stripe Service Tests
+ * Credit purchase payments against the local Stripe stand-in
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { startLocalStripe, type LocalStripe } from "../lib/localStripe";
+import {
+  createCreditCheckoutSession,
+  createCreditPaymentIntent,
+  getStripe,
+  parseCreditPurchase,
+  resetStripeClient,
+  StripeNotConfiguredError,
+} from "./stripe.service";
+
+const pkg = { id: 3, name: "Starter Pack", creditAmount: 500, price: 4900, creditType: "enrichment" };
+
+describe("Stripe Service", () => {
+  let stripe: LocalStripe;
+
+  beforeAll(async () => {
+    stripe = await startLocalStripe();
+  });
+
+  afterAll(async () => {
+    await stripe.close();
+    delete process.env.STRIPE_SECRET_KEY;
+    delete process.env.STRIPE_API_BASE_URL;
+    resetStripeClient();
+  });
+
+  beforeEach(() => {
+    process.env.STRIPE_SECRET_KEY = "sk_test_local";
+    process.env.STRIPE_API_BASE_URL = stripe.url;
+    resetStripeClient();
+  });
+
+  it("should create a checkout session carrying the purchase", async () => {
+    const session = await createCreditCheckoutSession(7, pkg, { cancelUrl: "https://app.example.com/credits" });
+
+    expect(session.url).toMatch(/^https:\/\/checkout\.local\/pay\//);
+    expect(session.amount_total).toBe(4900);
+    expect(session.client_reference_id).toBe("7");
+    expect(session.cancel_url).toBe("https://app.example.com/credits");
+    expect(parseCreditPurchase(session.metadata)).toEqual({
+      userId: 7,
+      packageId: 3,
+      creditType: "enrichment",
+      creditAmount: 500,
+    });
+
+    // The session's payment intent must not grant credits on its own
+    stripe.completeCheckout(session.id);
+    const paymentIntent = stripe.paymentIntents.get(stripe.checkoutSessions.get(session.id)!.payment_intent);
+    expect(parseCreditPurchase(paymentIntent!.metadata)).toBeNull();
+  });
+
+  it("should confirm a payment intent when a payment method is given", async () => {
+    const confirmed = await createCreditPaymentIntent(7, pkg, "pm_card_visa");
+    const pending = await createCreditPaymentIntent(7, pkg);
+
+    expect(confirmed).toMatchObject({ amount: 4900, status: "processing", payment_method: "pm_card_visa" });
+    expect(confirmed.metadata).toMatchObject({ purpose: "credit_purchase", userId: "7", creditAmount: "500" });
+    expect(pending.status).toBe("requires_payment_method");
+    expect(pending.client_secret).toBeTruthy();
+  });
+
+  it("should reject metadata that is not a credit purchase", () => {
+    expect(parseCreditPurchase({ purpose: "subscription", userId: "7" })).toBeNull();
+    expect(parseCreditPurchase({ userId: "7", packageId: "3", creditType: "gold", creditAmount: "5" })).toBeNull();
+    expect(parseCreditPurchase(null)).toBeNull();
+  });
+
+  it("should require a secret key", () => {
+    delete process.env.STRIPE_SECRET_KEY;
+    resetStripeClient();
+
+    expect(() => getStripe()).toThrow(StripeNotConfiguredError);
+  });
+});
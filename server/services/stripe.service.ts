@@ -0,0 +1,172 @@
+/**
+ * Stripe Service
+ * Shared Stripe client and the payment objects behind credit purchases
+ *
+ * Purchases only create the Checkout Session or PaymentIntent. Credits are
+ * granted by the verified webhook in server/api/webhooks/stripe.ts once
+ * Stripe reports the payment, keyed by the event id.
+ *
+ * STRIPE_API_BASE_URL points the client at a local stand-in (see
+ * server/lib/localStripe.ts) or stripe-mock instead of api.stripe.com.
+ */
+
+import Stripe from "stripe";
+import type { CreditType } from "./credit.service";
+
+// ========================================
+// CLIENT
+// ========================================
+
+const STRIPE_API_VERSION = "2024-12-18.acacia";
+
+let stripeClient: Stripe | null = null;
+
+export class StripeNotConfiguredError extends Error {
+  constructor() {
+    super("Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.");
+    this.name = "StripeNotConfiguredError";
+  }
+}
+
+/**
+ * Get the shared Stripe client
+ */
+export function getStripe(): Stripe {
+  if (stripeClient) {
+    return stripeClient;
+  }
+
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    throw new StripeNotConfiguredError();
+  }
+
+  const baseUrl = process.env.STRIPE_API_BASE_URL ? new URL(process.env.STRIPE_API_BASE_URL) : null;
+
+  stripeClient = new Stripe(secretKey, {
+    apiVersion: STRIPE_API_VERSION as any,
+    ...(baseUrl && {
+      host: baseUrl.hostname,
+      port: baseUrl.port,
+      protocol: baseUrl.protocol === "http:" ? "http" : "https",
+    }),
+  });
+  return stripeClient;
+}
+
+/**
+ * Drop the cached client so the next call re-reads the environment
+ */
+export function resetStripeClient(): void {
+  stripeClient = null;
+}
+
+// ========================================
+// CREDIT PURCHASES
+// ========================================
+
+const CREDIT_PURCHASE = "credit_purchase";
+
+export interface CreditPackage {
+  id: number;
+  name: string;
+  creditAmount: number;
+  price: number; // Cents
+  creditType: string;
+}
+
+/**
+ * What a paid Checkout Session or PaymentIntent grants, read from its metadata
+ */
+export interface CreditPurchase {
+  userId: number;
+  packageId: number;
+  creditType: CreditType;
+  creditAmount: number;
+}
+
+function creditPurchaseMetadata(userId: number, pkg: CreditPackage): Record<string, string> {
+  return {
+    purpose: CREDIT_PURCHASE,
+    userId: userId.toString(),
+    packageId: pkg.id.toString(),
+    creditType: pkg.creditType,
+    creditAmount: pkg.creditAmount.toString(),
+  };
+}
+
+/**
+ * Read a credit purchase from Stripe metadata.
+ * Sessions created before `purpose` was added are accepted when the other fields are present.
+ */
+export function parseCreditPurchase(metadata: Stripe.Metadata | null | undefined): CreditPurchase | null {
+  if (!metadata || (metadata.purpose && metadata.purpose !== CREDIT_PURCHASE)) {
+    return null;
+  }
+
+  const userId = parseInt(metadata.userId, 10);
+  const packageId = parseInt(metadata.packageId, 10);
+  const creditAmount = parseInt(metadata.creditAmount, 10);
+  const creditType = metadata.creditType as CreditType;
+
+  if (!userId || !packageId || !creditAmount || !["enrichment", "calling", "scraping"].includes(creditType)) {
+    return null;
+  }
+
+  return { userId, packageId, creditType, creditAmount };
+}
+
+/**
+ * Create a hosted Checkout Session for a credit package
+ */
+export async function createCreditCheckoutSession(
+  userId: number,
+  pkg: CreditPackage,
+  urls: { successUrl?: string; cancelUrl?: string } = {}
+): Promise<Stripe.Checkout.Session> {
+  const appUrl = process.env.APP_URL || "http://localhost:3000";
+
+  return getStripe().checkout.sessions.create({
+    payment_method_types: ["card"],
+    line_items: [
+      {
+        price_data: {
+          currency: "usd",
+          product_data: {
+            name: pkg.name,
+            description: `${pkg.creditAmount} ${pkg.creditType} credits`,
+          },
+          unit_amount: pkg.price,
+        },
+        quantity: 1,
+      },
+    ],
+    mode: "payment",
+    success_url: urls.successUrl || `${appUrl}/marketplace/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: urls.cancelUrl || `${appUrl}/marketplace`,
+    client_reference_id: userId.toString(),
+    // Only the session carries the purchase; its PaymentIntent must not grant credits a second time
+    metadata: creditPurchaseMetadata(userId, pkg),
+  });
+}
+
+/**
+ * Create a PaymentIntent for a credit package.
+ * With a payment method it is confirmed right away; otherwise the client
+ * confirms it with the returned client secret.
+ */
+export async function createCreditPaymentIntent(
+  userId: number,
+  pkg: CreditPackage,
+  paymentMethodId?: string
+): Promise<Stripe.PaymentIntent> {
+  return getStripe().paymentIntents.create({
+    amount: pkg.price,
+    currency: "usd",
+    description: `${pkg.name} (${pkg.creditAmount} ${pkg.creditType} credits)`,
+    metadata: creditPurchaseMetadata(userId, pkg),
+    ...(paymentMethodId
+      ? { payment_method: paymentMethodId, confirm: true, automatic_payment_methods: { enabled: true, allow_redirects: "never" as const } }
+      : { automatic_payment_methods: { enabled: true } }),
+  });
+}
@@ -39,6 +39,7 @@ import {
   isGhlActionConfig,
   isReportConfig,
 } from "../types";
+import { workflowTriggerService } from "./workflowTriggers.service";
 
 // ========================================
 // TYPES
@@ -280,6 +281,14 @@ export class TaskExecutionService {
           if (task.notifyOnFailure) {
             await this.sendNotification(task, "failed", result);
           }
+
+          workflowTriggerService.publish(task.userId, "task.failed", {
+            taskId,
+            title: task.title,
+            taskType: task.taskType,
+            error: result.error,
+            attempts: newErrorCount,
+          });
         } else {
           await db
             .update(agencyTasks)
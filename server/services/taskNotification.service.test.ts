@@ -0,0 +1,193 @@
+/**
+ * Task Notification Service Tests
+ * Covers Slack, email (connected account and SMTP) and webhook delivery with
+ * per-channel retries
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockDb, mockGetDb, mockEmailService, mockSendMail, mockCreateTransport, mockFetch } = vi.hoisted(() => {
+  const chain: any = {};
+  for (const method of ["select", "from", "where", "orderBy", "update", "set"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.limit = vi.fn();
+
+  const mockSendMail = vi.fn();
+  return {
+    mockDb: chain,
+    mockGetDb: vi.fn(),
+    mockEmailService: { sendEmail: vi.fn(), refreshToken: vi.fn() },
+    mockSendMail,
+    mockCreateTransport: vi.fn(() => ({ sendMail: mockSendMail })),
+    mockFetch: vi.fn(),
+  };
+});
+
+vi.mock("../db", () => ({
+  getDb: mockGetDb,
+}));
+
+vi.mock("./email.service", () => ({
+  emailService: mockEmailService,
+}));
+
+vi.mock("nodemailer", () => ({
+  default: { createTransport: mockCreateTransport },
+}));
+
+import { TaskNotificationService, buildSlackMessage } from "./taskNotification.service";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const failure = {
+  task: { id: 3, userId: 1, name: "Nightly lead scrape" },
+  status: "failure" as const,
+  executionId: 88,
+  duration: 95000,
+  error: "Timed out waiting for selector .results",
+};
+
+const response = (status: number, body = "") => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: async () => body,
+});
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Task Notification Service", () => {
+  const originalEnv = { ...process.env };
+  let service: TaskNotificationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal("fetch", mockFetch);
+    mockGetDb.mockResolvedValue(mockDb);
+    mockDb.limit.mockResolvedValue([]);
+    process.env.APP_URL = "https://app.example.com";
+    delete process.env.SMTP_HOST;
+    service = new TaskNotificationService({ initialDelayMs: 1, maxDelayMs: 5 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    process.env = { ...originalEnv };
+  });
+
+  // ========================================
+  // SLACK TESTS
+  // ========================================
+
+  describe("slack", () => {
+    it("should format the task, status, duration, error and execution link", () => {
+      const message = buildSlackMessage(failure);
+
+      expect(message.text).toBe("[Scheduled task] Nightly lead scrape failed");
+      expect(JSON.stringify(message.blocks)).toContain("*Duration*\\n1m 35s");
+      expect(JSON.stringify(message.blocks)).toContain("Timed out waiting for selector .results");
+      expect(message.blocks.at(-1)).toMatchObject({
+        type: "actions",
+        elements: [{ url: "https://app.example.com/scheduled-tasks?taskId=3&executionId=88" }],
+      });
+    });
+
+    it("should retry server errors", async () => {
+      mockFetch.mockResolvedValueOnce(response(503)).mockResolvedValueOnce(response(200, "ok"));
+
+      const [result] = await service.send(
+        [{ type: "slack", config: { webhookUrl: "https://hooks.slack.com/services/T/B/X" } }],
+        failure
+      );
+
+      expect(result).toMatchObject({ channel: "slack", success: true, attempts: 2 });
+      expect(mockFetch).toHaveBeenCalledWith("https://hooks.slack.com/services/T/B/X", expect.objectContaining({ method: "POST" }));
+    });
+
+    it("should not retry a rejected webhook", async () => {
+      mockFetch.mockResolvedValue(response(404, "no_service"));
+
+      const [result] = await service.send([{ type: "slack", webhookUrl: "https://hooks.slack.com/x" }], failure);
+
+      expect(result).toMatchObject({ success: false, attempts: 1, error: "Slack webhook failed with status 404: no_service" });
+    });
+  });
+
+  // ========================================
+  // EMAIL TESTS
+  // ========================================
+
+  describe("email", () => {
+    it("should send from the user's connected account", async () => {
+      mockDb.limit.mockResolvedValueOnce([{
+        id: 4,
+        provider: "gmail",
+        accessToken: "enc-token",
+        refreshToken: "enc-refresh",
+        expiresAt: new Date(Date.now() + 3600000),
+      }]);
+      mockEmailService.sendEmail.mockResolvedValueOnce({ messageId: "m-1" });
+
+      const [result] = await service.send([{ type: "email", config: { recipients: ["ops@agency.com"] } }], failure);
+
+      expect(result).toMatchObject({ success: true, provider: "gmail", target: "ops@agency.com" });
+      expect(mockEmailService.sendEmail).toHaveBeenCalledWith("gmail", "enc-token", expect.objectContaining({
+        to: [{ email: "ops@agency.com" }],
+        subject: "[Scheduled task] Nightly lead scrape failed",
+        bodyType: "html",
+        body: expect.stringContaining("https://app.example.com/scheduled-tasks?taskId=3&amp;executionId=88"),
+      }));
+    });
+
+    it("should fall back to SMTP without a connected account", async () => {
+      process.env.SMTP_HOST = "smtp.example.com";
+      process.env.SMTP_FROM = "alerts@agency.com";
+      mockSendMail.mockResolvedValueOnce({ messageId: "<1@smtp>" });
+
+      const [result] = await service.send([{ type: "email", email: "ops@agency.com" }], failure);
+
+      expect(result).toMatchObject({ success: true, provider: "smtp" });
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({
+        from: "alerts@agency.com",
+        to: ["ops@agency.com"],
+        text: expect.stringContaining("Error: Timed out waiting for selector .results"),
+      }));
+    });
+
+    it("should report a failure when email can't be sent", async () => {
+      const [result] = await service.send([{ type: "email", config: { recipients: ["ops@agency.com"] } }], failure);
+
+      expect(result).toMatchObject({ success: false, error: "No connected email account or SMTP server configured" });
+    });
+  });
+
+  // ========================================
+  // MIXED CHANNEL TESTS
+  // ========================================
+
+  it("should deliver each channel independently", async () => {
+    mockFetch.mockResolvedValue(response(200));
+
+    const results = await service.send(
+      [
+        { type: "email", config: { recipients: [] } },
+        { type: "webhook", config: { url: "https://hooks.example.com/task" } },
+      ],
+      failure
+    );
+
+    expect(results.map((r) => r.success)).toEqual([false, true]);
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body).toMatchObject({ taskId: 3, status: "failure", executionId: 88, result: { success: false } });
+  });
+});
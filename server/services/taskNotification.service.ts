@@ -0,0 +1,362 @@
+/**
+ * Task Notification Service
+ * Delivers scheduled browser task notifications
+ *
+ * Channels (task.notificationChannels, config may be nested under `config`):
+ * - email: { recipients | email, connectionId? } - sent from the user's
+ *   connected Gmail/Outlook account, or SMTP_* when none is connected
+ * - slack: { webhookUrl } - Slack incoming webhook with Block Kit formatting
+ * - webhook: { url } - JSON POST
+ *
+ * Each channel is retried on its own; the per-channel outcome is returned so
+ * the caller can log it on the execution.
+ */
+
+import nodemailer from "nodemailer";
+import { and, desc, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { emailConnections } from "../../drizzle/schema-email";
+import type { ScheduledBrowserTask } from "../../drizzle/schema-scheduled-tasks";
+import { emailService, type EmailProvider } from "./email.service";
+import { withRetry, type RetryOptions } from "../lib/retry";
+import { serviceLoggers } from "../lib/logger";
+
+const logger = serviceLoggers.task;
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+// ========================================
+// TYPES
+// ========================================
+
+export type TaskNotificationChannelType = "email" | "slack" | "webhook";
+
+export interface TaskNotificationChannel {
+  type: TaskNotificationChannelType | string;
+  config?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface TaskNotification {
+  task: Pick<ScheduledBrowserTask, "id" | "userId" | "name">;
+  status: "success" | "failure";
+  executionId?: number;
+  duration?: number; // ms
+  error?: string;
+  output?: unknown;
+}
+
+export interface ChannelDeliveryResult {
+  channel: string;
+  target?: string;
+  success: boolean;
+  attempts: number;
+  provider?: string; // gmail, outlook or smtp for email
+  error?: string;
+  deliveredAt?: string;
+}
+
+// ========================================
+// FORMATTING
+// ========================================
+
+/**
+ * Link to the execution in the Scheduled Tasks page
+ */
+export function getExecutionUrl(taskId: number, executionId?: number): string {
+  const baseUrl = (process.env.APP_URL || "").replace(/\/$/, "");
+  const query = executionId ? `?taskId=${taskId}&executionId=${executionId}` : `?taskId=${taskId}`;
+  return `${baseUrl}/scheduled-tasks${query}`;
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return "n/a";
+  if (ms < 1000) return `${ms}ms`;
+
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function describe(notification: TaskNotification) {
+  const succeeded = notification.status === "success";
+  return {
+    statusLabel: succeeded ? "Succeeded" : "Failed",
+    subject: `[Scheduled task] ${notification.task.name} ${succeeded ? "succeeded" : "failed"}`,
+    duration: formatDuration(notification.duration),
+    url: getExecutionUrl(notification.task.id, notification.executionId),
+  };
+}
+
+/**
+ * Slack incoming-webhook payload
+ * `text` is the fallback shown in notifications
+ */
+export function buildSlackMessage(notification: TaskNotification) {
+  const { statusLabel, subject, duration, url } = describe(notification);
+  const icon = notification.status === "success" ? ":white_check_mark:" : ":x:";
+
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: `${icon} ${notification.task.name}`.slice(0, 150), emoji: true },
+    },
+    {
+      type: "section",
+      fields: [
+        { type: "mrkdwn", text: `*Status*\n${statusLabel}` },
+        { type: "mrkdwn", text: `*Duration*\n${duration}` },
+        { type: "mrkdwn", text: `*Task ID*\n${notification.task.id}` },
+        { type: "mrkdwn", text: `*Execution ID*\n${notification.executionId ?? "n/a"}` },
+      ],
+    },
+  ];
+
+  if (notification.error) {
+    blocks.push({
+      type: "section",
+      // Section text is capped at 3000 characters
+      text: { type: "mrkdwn", text: `*Error*\n\`\`\`${notification.error.slice(0, 2900)}\`\`\`` },
+    });
+  }
+
+  blocks.push({
+    type: "actions",
+    elements: [{ type: "button", text: { type: "plain_text", text: "View execution" }, url }],
+  });
+
+  return { text: subject, blocks };
+}
+
+/**
+ * Email subject and HTML/text bodies
+ */
+export function buildEmailMessage(notification: TaskNotification) {
+  const { statusLabel, subject, duration, url } = describe(notification);
+
+  const rows: Array<[string, string]> = [
+    ["Task", notification.task.name],
+    ["Status", statusLabel],
+    ["Duration", duration],
+    ["Execution", notification.executionId ? `#${notification.executionId}` : "n/a"],
+  ];
+  if (notification.error) rows.push(["Error", notification.error]);
+
+  const html = [
+    `<h2>${escapeHtml(subject)}</h2>`,
+    "<table cellpadding=\"6\">",
+    ...rows.map(([label, value]) => `<tr><td><strong>${label}</strong></td><td>${escapeHtml(value)}</td></tr>`),
+    "</table>",
+    `<p><a href="${escapeHtml(url)}">View execution</a></p>`,
+  ].join("\n");
+
+  const text = [...rows.map(([label, value]) => `${label}: ${value}`), "", `View execution: ${url}`].join("\n");
+
+  return { subject, html, text };
+}
+
+// ========================================
+// TASK NOTIFICATION SERVICE
+// ========================================
+
+export class TaskNotificationService {
+  private retryOptions: Partial<RetryOptions>;
+
+  constructor(retryOptions: Partial<RetryOptions> = {}) {
+    this.retryOptions = { maxAttempts: 3, initialDelayMs: 2000, maxDelayMs: 15000, ...retryOptions };
+  }
+
+  /**
+   * Deliver a notification to every channel
+   * Never throws; failures are reported per channel
+   */
+  async send(channels: TaskNotificationChannel[], notification: TaskNotification): Promise<ChannelDeliveryResult[]> {
+    const results: ChannelDeliveryResult[] = [];
+
+    for (const channel of channels) {
+      const config = { ...channel, ...(channel.config || {}) } as Record<string, any>;
+      const result: ChannelDeliveryResult = { channel: channel.type, success: false, attempts: 0 };
+
+      try {
+        await withRetry(async () => {
+          result.attempts++;
+          switch (channel.type) {
+            case "email":
+              result.target = this.getRecipients(config).join(", ");
+              result.provider = await this.sendEmail(notification, config);
+              break;
+
+            case "slack":
+              result.target = config.channel;
+              await this.sendSlack(notification, config);
+              break;
+
+            case "webhook":
+              result.target = config.url;
+              await this.sendWebhook(notification, config);
+              break;
+
+            default:
+              throw new Error(`Unknown notification channel type: ${channel.type}`);
+          }
+        }, this.retryOptions);
+
+        result.success = true;
+        result.deliveredAt = new Date().toISOString();
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : "Unknown error";
+      }
+
+      if (result.success) {
+        logger.info({ taskId: notification.task.id, ...result }, "Task notification delivered");
+      } else {
+        logger.error({ taskId: notification.task.id, ...result }, "Task notification failed");
+      }
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  private getRecipients(config: Record<string, any>): string[] {
+    const recipients = config.recipients ?? config.email ?? config.to;
+    return (Array.isArray(recipients) ? recipients : [recipients])
+      .filter((r): r is string => typeof r === "string" && r.trim().length > 0)
+      .map((r) => r.trim());
+  }
+
+  /**
+   * Send from the user's connected account, falling back to SMTP
+   * Returns the provider used
+   */
+  private async sendEmail(notification: TaskNotification, config: Record<string, any>): Promise<string> {
+    const recipients = this.getRecipients(config);
+    if (recipients.length === 0) {
+      throw new Error("Email channel has no recipients");
+    }
+
+    const message = buildEmailMessage(notification);
+
+    const connection = await this.getEmailConnection(notification.task.userId, config.connectionId);
+    if (connection) {
+      const provider = connection.provider as EmailProvider;
+      let accessToken = connection.accessToken;
+
+      // Refresh expired tokens like the email router does
+      if (new Date() >= connection.expiresAt) {
+        const refreshed = await emailService.refreshToken(provider, connection.refreshToken);
+        const db = await getDb();
+        await db
+          ?.update(emailConnections)
+          .set({ accessToken: refreshed.accessToken, expiresAt: refreshed.expiresAt, updatedAt: new Date() })
+          .where(eq(emailConnections.id, connection.id));
+        accessToken = refreshed.accessToken;
+      }
+
+      await emailService.sendEmail(provider, accessToken, {
+        to: recipients.map((email) => ({ email })),
+        subject: message.subject,
+        body: message.html,
+        bodyType: "html",
+      });
+      return provider;
+    }
+
+    if (!process.env.SMTP_HOST) {
+      throw new Error("No connected email account or SMTP server configured");
+    }
+
+    const port = Number(process.env.SMTP_PORT) || 587;
+    const transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE === "true" || port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+      connectionTimeout: REQUEST_TIMEOUT_MS,
+    });
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: recipients,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+    return "smtp";
+  }
+
+  private async getEmailConnection(userId: number, connectionId?: number) {
+    const db = await getDb();
+    if (!db) return undefined;
+
+    const conditions = [eq(emailConnections.userId, userId), eq(emailConnections.isActive, true)];
+    if (connectionId) conditions.push(eq(emailConnections.id, Number(connectionId)));
+
+    const [connection] = await db
+      .select()
+      .from(emailConnections)
+      .where(and(...conditions))
+      .orderBy(desc(emailConnections.updatedAt))
+      .limit(1);
+
+    return connection;
+  }
+
+  private async sendSlack(notification: TaskNotification, config: Record<string, any>): Promise<void> {
+    if (!config.webhookUrl) {
+      throw new Error("Slack channel has no webhook URL");
+    }
+
+    await this.post(config.webhookUrl, buildSlackMessage(notification), "Slack webhook");
+  }
+
+  private async sendWebhook(notification: TaskNotification, config: Record<string, any>): Promise<void> {
+    if (!config.url) {
+      throw new Error("Webhook channel has no URL");
+    }
+
+    await this.post(config.url, {
+      taskId: notification.task.id,
+      taskName: notification.task.name,
+      status: notification.status,
+      executionId: notification.executionId,
+      duration: notification.duration,
+      error: notification.error,
+      executionUrl: getExecutionUrl(notification.task.id, notification.executionId),
+      timestamp: new Date().toISOString(),
+      result: {
+        success: notification.status === "success",
+        output: notification.output,
+        error: notification.error,
+      },
+    }, "Webhook");
+  }
+
+  /**
+   * POST JSON; the status is in the error message so withRetry retries 5xx and 429
+   */
+  private async post(url: string, body: unknown, label: string): Promise<void> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`${label} failed with status ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const taskNotificationService = new TaskNotificationService();
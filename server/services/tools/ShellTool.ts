@@ -1,16 +1,18 @@
 /**
- * ShellTool - Execute shell commands in a controlled environment
+ * ShellTool - Execute shell commands in an isolated sandbox
  * Provides exec, wait, and view capabilities for agent automation
+ *
+ * Commands run in a per-execution container under the tenant's shell policy
+ * (see shellSandbox.service); nothing runs on the host.
  */
 
-import { spawn, exec as execCallback, ChildProcess } from 'child_process';
-import { promisify } from 'util';
-import { ITool, ToolDefinition, ToolResult, ToolExecutionContext, ShellCommandOptions } from './types';
-
-const execPromise = promisify(execCallback);
+import { ITool, ToolDefinition, ToolResult, ToolExecutionContext } from './types';
+import { getShellSandbox, type SandboxProcess, type SandboxRunResult } from '../shellSandbox.service';
+import { getAgentPermissionsService } from '../agentPermissions.service';
 
 interface ShellSession {
-  process: ChildProcess;
+  userId: number;
+  sandbox: SandboxProcess;
   output: string[];
   errors: string[];
   isRunning: boolean;
@@ -21,24 +23,24 @@ interface ShellSession {
 interface ShellExecParams {
   command: string;
   cwd?: string;
-  timeout?: number;
+  timeout?: number | string;
   env?: Record<string, string>;
-  background?: boolean;
+  background?: boolean | string;
 }
 
 interface ShellWaitParams {
   sessionId: string;
-  timeout?: number;
+  timeout?: number | string;
 }
 
 interface ShellViewParams {
   sessionId: string;
-  lines?: number;
+  lines?: number | string;
 }
 
 export class ShellTool implements ITool {
   name = 'shell';
-  description = 'Execute shell commands, manage background processes, and view output';
+  description = 'Execute shell commands in an isolated sandbox, manage background processes, and view output';
   category: 'shell' = 'shell';
   enabled = true;
 
@@ -46,24 +48,6 @@ export class ShellTool implements ITool {
   private defaultTimeout = 30000; // 30 seconds
   private maxOutputLines = 1000;
 
-  // Dangerous commands that should be blocked (exact matches or substrings)
-  private blockedCommands = [
-    'rm -rf ~',
-    'mkfs.',
-    'dd if=/dev/zero',
-    ':(){:|:&};:',
-    'chmod -R 777 /',
-    '> /dev/sda',
-  ];
-
-  // Restricted patterns
-  private restrictedPatterns = [
-    /rm\s+(-rf?|-fr?)\s+\/\s*$/i,     // rm -rf / (only root with nothing after)
-    /rm\s+(-rf?|-fr?)\s+\/\s+/i,      // rm -rf / something (root with space)
-    />\s*\/dev\/sd[a-z]/i,            // write to disk devices
-    /mkfs\./i,                         // format filesystems
-  ];
-
   getDefinition(): ToolDefinition {
     return {
       name: this.name,
@@ -86,11 +70,11 @@ export class ShellTool implements ITool {
           },
           cwd: {
             type: 'string',
-            description: 'Working directory for command execution',
+            description: 'Working directory inside the sandbox workspace (relative path)',
           },
           timeout: {
             type: 'string',
-            description: 'Timeout in milliseconds',
+            description: 'Timeout in milliseconds (capped by the shell policy)',
             default: '30000',
           },
           background: {
@@ -127,25 +111,6 @@ export class ShellTool implements ITool {
       errors.push(`Session ID is required for ${action} action`);
     }
 
-    // Security validation for exec
-    if (action === 'exec' && params.command) {
-      const command = params.command as string;
-
-      // Check blocked commands
-      for (const blocked of this.blockedCommands) {
-        if (command.includes(blocked)) {
-          errors.push(`Blocked dangerous command: ${blocked}`);
-        }
-      }
-
-      // Check restricted patterns
-      for (const pattern of this.restrictedPatterns) {
-        if (pattern.test(command)) {
-          errors.push(`Command matches restricted pattern: ${pattern.source}`);
-        }
-      }
-    }
-
     return { valid: errors.length === 0, errors: errors.length > 0 ? errors : undefined };
   }
 
@@ -171,16 +136,16 @@ export class ShellTool implements ITool {
           result = await this.execCommand(params as unknown as ShellExecParams, context);
           break;
         case 'wait':
-          result = await this.waitForSession(params as unknown as ShellWaitParams);
+          result = await this.waitForSession(params as unknown as ShellWaitParams, context);
           break;
         case 'view':
-          result = this.viewSession(params as unknown as ShellViewParams);
+          result = this.viewSession(params as unknown as ShellViewParams, context);
           break;
         case 'kill':
-          result = this.killSession(params.sessionId as string);
+          result = this.killSession(params.sessionId as string, context);
           break;
         case 'list':
-          result = this.listSessions();
+          result = this.listSessions(context);
           break;
         default:
           result = { success: false, error: `Unknown action: ${action}` };
@@ -199,156 +164,132 @@ export class ShellTool implements ITool {
   }
 
   /**
-   * Execute a shell command
+   * Execute a shell command in the sandbox
    */
   private async execCommand(params: ShellExecParams, context: ToolExecutionContext): Promise<ToolResult> {
-    const { command, background = false, timeout = this.defaultTimeout } = params;
-    const cwd = params.cwd || context.workingDirectory || process.cwd();
-    const env: Record<string, string> = {
-      ...(Object.fromEntries(
-        Object.entries(process.env).filter(([_, v]) => v !== undefined)
-      ) as Record<string, string>),
-      ...(params.env || {})
-    };
+    const { command, cwd, env } = params;
+    const timeout = Number(params.timeout) || this.defaultTimeout;
+    const background = params.background === true || params.background === 'true';
+    const sessionId = `shell_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    // Throws PermissionDeniedError when the tenant has no shell access
+    const policy = await getAgentPermissionsService().requireShellAccess(context.userId);
+    const sandbox = await getShellSandbox().start(command, {
+      userId: context.userId,
+      policy,
+      cwd,
+      env,
+      timeoutMs: timeout,
+      onOutput: background ? (stream, chunk) => this.appendOutput(sessionId, stream, chunk) : undefined,
+    });
 
     // Run in background
     if (background) {
-      return this.execBackground(command, { cwd, timeout, env });
+      return this.trackBackground(sessionId, sandbox, command, context);
     }
 
-    // Run synchronously
-    try {
-      const { stdout, stderr } = await execPromise(command, {
-        cwd,
-        timeout,
-        env,
-        maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-      });
-
-      return {
-        success: true,
-        data: {
-          stdout: stdout.trim(),
-          stderr: stderr.trim(),
-          exitCode: 0,
-        },
-        metadata: {
-          command,
-          cwd,
-          background: false,
-        },
-      };
-    } catch (error: unknown) {
-      const execError = error as { stdout?: string; stderr?: string; code?: number; killed?: boolean; signal?: string };
-
-      // Command failed but we still have output
-      if (execError.stdout !== undefined || execError.stderr !== undefined) {
-        return {
-          success: false,
-          data: {
-            stdout: execError.stdout?.trim() || '',
-            stderr: execError.stderr?.trim() || '',
-            exitCode: execError.code || 1,
-          },
-          error: execError.killed ? `Command timed out after ${timeout}ms` : `Exit code: ${execError.code}`,
-          metadata: {
-            command,
-            cwd,
-            signal: execError.signal,
-          },
-        };
-      }
+    const result = await sandbox.result;
+    return {
+      success: result.exitCode === 0 && !result.timedOut,
+      data: {
+        stdout: result.stdout.trim(),
+        stderr: result.stderr.trim(),
+        exitCode: result.exitCode,
+      },
+      error: this.describeFailure(result, timeout),
+      metadata: {
+        command,
+        cwd: cwd || '.',
+        sandbox: sandbox.id,
+        background: false,
+        truncated: result.truncated,
+      },
+    };
+  }
 
-      throw error;
-    }
+  private describeFailure(result: SandboxRunResult, timeout: number): string | undefined {
+    if (result.timedOut) return `Command timed out after ${timeout}ms`;
+    if (result.exitCode !== 0) return `Exit code: ${result.exitCode}`;
+    return undefined;
   }
 
   /**
-   * Execute command in background
+   * Keep a background sandbox run as a session for wait/view/kill
    */
-  private execBackground(command: string, options: ShellCommandOptions): ToolResult {
-    const sessionId = `shell_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    const childProcess = spawn('sh', ['-c', command], {
-      cwd: options.cwd,
-      env: { ...process.env, ...options.env },
-      detached: false,
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
+  private trackBackground(
+    sessionId: string,
+    sandbox: SandboxProcess,
+    command: string,
+    context: ToolExecutionContext
+  ): ToolResult {
     const session: ShellSession = {
-      process: childProcess,
+      userId: context.userId,
+      sandbox,
       output: [],
       errors: [],
       isRunning: true,
       startedAt: new Date(),
       command,
     };
-
-    // Collect stdout
-    childProcess.stdout?.on('data', (data: Buffer) => {
-      const lines = data.toString().split('\n');
-      session.output.push(...lines.filter(l => l));
-
-      // Limit output storage
-      if (session.output.length > this.maxOutputLines) {
-        session.output = session.output.slice(-this.maxOutputLines);
-      }
-    });
-
-    // Collect stderr
-    childProcess.stderr?.on('data', (data: Buffer) => {
-      const lines = data.toString().split('\n');
-      session.errors.push(...lines.filter(l => l));
-
-      if (session.errors.length > this.maxOutputLines) {
-        session.errors = session.errors.slice(-this.maxOutputLines);
-      }
-    });
-
-    // Handle completion
-    childProcess.on('close', (code) => {
-      session.isRunning = false;
-      session.output.push(`[Process exited with code ${code}]`);
-    });
-
-    childProcess.on('error', (error) => {
-      session.isRunning = false;
-      session.errors.push(`[Process error: ${error.message}]`);
-    });
-
     this.sessions.set(sessionId, session);
 
-    // Set timeout if specified
-    if (options.timeout) {
-      setTimeout(() => {
-        if (session.isRunning) {
-          childProcess.kill('SIGTERM');
-          session.errors.push(`[Process killed: timeout after ${options.timeout}ms]`);
+    sandbox.result
+      .then((result) => {
+        if (result.timedOut) {
+          session.errors.push(`[Process killed: timeout after ${result.durationMs}ms]`);
         }
-      }, options.timeout);
-    }
+        session.output.push(`[Process exited with code ${result.exitCode}]`);
+      })
+      .catch((error: Error) => {
+        session.errors.push(`[Process error: ${error.message}]`);
+      })
+      .finally(() => {
+        session.isRunning = false;
+      });
 
     return {
       success: true,
       data: {
         sessionId,
-        pid: childProcess.pid,
+        pid: sandbox.pid,
         command,
       },
       metadata: {
         background: true,
+        sandbox: sandbox.id,
         startedAt: session.startedAt.toISOString(),
       },
     };
   }
 
+  private appendOutput(sessionId: string, stream: 'stdout' | 'stderr', chunk: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    const target = stream === 'stdout' ? 'output' : 'errors';
+    session[target].push(...chunk.split('\n').filter(l => l));
+
+    // Limit output storage
+    if (session[target].length > this.maxOutputLines) {
+      session[target] = session[target].slice(-this.maxOutputLines);
+    }
+  }
+
   /**
-   * Wait for a background session to complete
+   * Sessions are only visible to the user that started them
    */
-  private async waitForSession(params: ShellWaitParams): Promise<ToolResult> {
-    const { sessionId, timeout = this.defaultTimeout } = params;
+  private getSession(sessionId: string, context: ToolExecutionContext): ShellSession | undefined {
     const session = this.sessions.get(sessionId);
+    return session?.userId === context.userId ? session : undefined;
+  }
+
+  /**
+   * Wait for a background session to complete
+   */
+  private async waitForSession(params: ShellWaitParams, context: ToolExecutionContext): Promise<ToolResult> {
+    const { sessionId } = params;
+    const timeout = Number(params.timeout) || this.defaultTimeout;
+    const session = this.getSession(sessionId, context);
 
     if (!session) {
       return {
@@ -405,9 +346,10 @@ export class ShellTool implements ITool {
   /**
    * View output from a session
    */
-  private viewSession(params: ShellViewParams): ToolResult {
-    const { sessionId, lines = 50 } = params;
-    const session = this.sessions.get(sessionId);
+  private viewSession(params: ShellViewParams, context: ToolExecutionContext): ToolResult {
+    const { sessionId } = params;
+    const lines = Number(params.lines) || 50;
+    const session = this.getSession(sessionId, context);
 
     if (!session) {
       return {
@@ -436,8 +378,8 @@ export class ShellTool implements ITool {
   /**
    * Kill a running session
    */
-  private killSession(sessionId: string): ToolResult {
-    const session = this.sessions.get(sessionId);
+  private killSession(sessionId: string, context: ToolExecutionContext): ToolResult {
+    const session = this.getSession(sessionId, context);
 
     if (!session) {
       return {
@@ -457,21 +399,14 @@ export class ShellTool implements ITool {
     }
 
     try {
-      session.process.kill('SIGTERM');
-
-      // Force kill after 5 seconds
-      setTimeout(() => {
-        if (session.isRunning) {
-          session.process.kill('SIGKILL');
-        }
-      }, 5000);
+      session.sandbox.kill();
 
       return {
         success: true,
         data: {
           message: 'Kill signal sent',
           sessionId,
-          pid: session.process.pid,
+          pid: session.sandbox.pid,
         },
       };
     } catch (error) {
@@ -483,18 +418,20 @@ export class ShellTool implements ITool {
   }
 
   /**
-   * List all sessions
+   * List the user's sessions
    */
-  private listSessions(): ToolResult {
-    const sessions = Array.from(this.sessions.entries()).map(([id, session]) => ({
-      sessionId: id,
-      command: session.command,
-      isRunning: session.isRunning,
-      startedAt: session.startedAt.toISOString(),
-      outputLines: session.output.length,
-      errorLines: session.errors.length,
-      pid: session.process.pid,
-    }));
+  private listSessions(context: ToolExecutionContext): ToolResult {
+    const sessions = Array.from(this.sessions.entries())
+      .filter(([, session]) => session.userId === context.userId)
+      .map(([id, session]) => ({
+        sessionId: id,
+        command: session.command,
+        isRunning: session.isRunning,
+        startedAt: session.startedAt.toISOString(),
+        outputLines: session.output.length,
+        errorLines: session.errors.length,
+        pid: session.sandbox.pid,
+      }));
 
     return {
       success: true,
@@ -15,6 +15,13 @@ import {
   outboundMessages,
 } from "../../drizzle/schema-webhooks";
 import { MessageProcessingService } from "./messageProcessing.service";
+import {
+  outboundDeliveryService,
+  getChannelConfig,
+  normalizeEmailMessageId,
+  type DeliveryStatus,
+} from "./outboundDelivery.service";
+import { workflowTriggerService } from "./workflowTriggers.service";
 
 // ========================================
 // TYPES
@@ -67,6 +74,168 @@ export interface WebhookResponse {
   conversationId?: number;
   error?: string;
   reply?: string;
+  replyDelivered?: boolean; // Reply was sent through the outbound channel
+}
+
+export interface DeliveryStatusEvent {
+  externalMessageId: string;
+  status: DeliveryStatus;
+  error?: string;
+}
+
+// Twilio MessageStatus values -> outbound deliveryStatus
+const TWILIO_STATUS_MAP: Record<string, DeliveryStatus> = {
+  queued: "pending",
+  accepted: "pending",
+  scheduled: "pending",
+  sending: "pending",
+  sent: "sent",
+  delivered: "delivered",
+  read: "read",
+  undelivered: "failed",
+  failed: "failed",
+  canceled: "failed",
+};
+
+// Email provider event names (SendGrid, Mailgun, generic) -> outbound deliveryStatus
+const EMAIL_EVENT_MAP: Record<string, DeliveryStatus> = {
+  processed: "sent",
+  sent: "sent",
+  delivered: "delivered",
+  open: "read",
+  opened: "read",
+  read: "read",
+  bounce: "bounced",
+  bounced: "bounced",
+  dropped: "failed",
+  failed: "failed",
+  rejected: "failed",
+};
+
+// Progress order; callbacks can arrive out of order and must not move status backwards
+const DELIVERY_STATUS_RANK: Record<DeliveryStatus, number> = {
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+  bounced: 4,
+};
+
+/**
+ * Decide whether a status callback should replace the current status
+ */
+function shouldApplyStatus(current: string, next: DeliveryStatus): boolean {
+  if (current === "failed" || current === "bounced") return false;
+  if (next === "failed" || next === "bounced") return current !== "read";
+  return DELIVERY_STATUS_RANK[next] > (DELIVERY_STATUS_RANK[current as DeliveryStatus] ?? 0);
+}
+
+// Provider signatures older than this are treated as replays
+const SIGNATURE_MAX_AGE_SECONDS = 15 * 60;
+
+// Headers SendGrid's Signed Event Webhook sends with each batch
+export const SENDGRID_SIGNATURE_HEADER = "x-twilio-email-event-webhook-signature";
+export const SENDGRID_TIMESTAMP_HEADER = "x-twilio-email-event-webhook-timestamp";
+
+/**
+ * Check a hex HMAC-SHA256 signature of the raw request body
+ */
+function verifyHmacSignature(body: string | Buffer, signature: string, secret: string): boolean {
+  const expectedSignature = crypto
+    .createHmac("sha256", secret)
+    .update(body)
+    .digest("hex");
+
+  // Timing-safe comparison to prevent timing attacks
+  try {
+    return crypto.timingSafeEqual(
+      Buffer.from(signature, "hex"),
+      Buffer.from(expectedSignature, "hex")
+    );
+  } catch {
+    // If signatures have different lengths, timingSafeEqual throws
+    return false;
+  }
+}
+
+/**
+ * Check the signature Mailgun embeds in webhook bodies:
+ * HMAC-SHA256 of timestamp + token with the domain's webhook signing key
+ */
+export function verifyMailgunSignature(payload: any, signingKey: string, now: number = Date.now()): boolean {
+  const { timestamp, token, signature } = payload?.signature || {};
+  if (!timestamp || !token || typeof signature !== "string") {
+    return false;
+  }
+  if (Math.abs(now / 1000 - Number(timestamp)) > SIGNATURE_MAX_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = crypto.createHmac("sha256", signingKey).update(`${timestamp}${token}`).digest("hex");
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+  return expectedBuffer.length === signatureBuffer.length && crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
+/**
+ * Check a SendGrid Signed Event Webhook signature:
+ * base64 ECDSA (P-256, SHA-256) over timestamp + raw body, verified with the
+ * public verification key from the SendGrid mail settings (base64 DER or PEM)
+ */
+export function verifySendGridSignature(
+  rawBody: string | Buffer,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  verificationKey: string,
+  now: number = Date.now()
+): boolean {
+  if (!signature || !timestamp) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - Number(timestamp)) > SIGNATURE_MAX_AGE_SECONDS) {
+    return false;
+  }
+
+  try {
+    const publicKey = verificationKey.includes("-----BEGIN")
+      ? crypto.createPublicKey(verificationKey)
+      : crypto.createPublicKey({ key: Buffer.from(verificationKey, "base64"), format: "der", type: "spki" });
+    const signedData = Buffer.concat([Buffer.from(timestamp), Buffer.from(rawBody)]);
+    return crypto.verify("sha256", signedData, publicKey, Buffer.from(signature, "base64"));
+  } catch {
+    // Malformed keys or signatures
+    return false;
+  }
+}
+
+/**
+ * Parse email delivery events from SendGrid (event array), Mailgun
+ * ({ "event-data": ... }) or a generic { messageId, status } payload
+ */
+export function parseEmailStatusEvents(body: any): DeliveryStatusEvent[] {
+  const items: any[] = Array.isArray(body) ? body : [body];
+  const events: DeliveryStatusEvent[] = [];
+
+  for (const item of items) {
+    if (!item || typeof item !== "object") continue;
+
+    const eventData = item["event-data"];
+    const eventName: string | undefined = eventData?.event ?? item.event ?? item.status;
+    const messageId: string | undefined =
+      eventData?.message?.headers?.["message-id"] ?? item["smtp-id"] ?? item.messageId ?? item.sg_message_id;
+    const status = eventName ? EMAIL_EVENT_MAP[eventName.toLowerCase()] : undefined;
+
+    if (!messageId || !status) continue;
+
+    events.push({
+      externalMessageId: normalizeEmailMessageId(messageId),
+      status,
+      error: eventData?.["delivery-status"]?.description || item.reason || item.error,
+    });
+  }
+
+  return events;
 }
 
 // ========================================
@@ -86,7 +255,8 @@ export class WebhookReceiverService {
   async processWebhook(
     webhookToken: string,
     payload: any,
-    headers: Record<string, string>
+    headers: Record<string, string>,
+    rawBody?: Buffer
   ): Promise<WebhookResponse> {
     const db = await getDb();
     if (!db) {
@@ -110,7 +280,7 @@ export class WebhookReceiverService {
       }
 
       // Validate authentication if configured
-      const isValid = await this.validateWebhookAuth(webhook, payload, headers);
+      const isValid = await this.validateWebhookAuth(webhook, payload, headers, rawBody);
       if (!isValid) {
         return { success: false, error: "Authentication failed" };
       }
@@ -141,7 +311,8 @@ export class WebhookReceiverService {
   private async validateWebhookAuth(
     webhook: typeof userWebhooks.$inferSelect,
     payload: any,
-    headers: Record<string, string>
+    headers: Record<string, string>,
+    rawBody?: Buffer
   ): Promise<boolean> {
     const config = webhook.providerConfig as Record<string, any> | null;
     if (!config?.authType || config.authType === "none") {
@@ -172,23 +343,11 @@ export class WebhookReceiverService {
           return false;
         }
 
-        // Calculate expected signature
-        const payloadString = typeof payload === "string" ? payload : JSON.stringify(payload);
-        const expectedSignature = crypto
-          .createHmac("sha256", secret)
-          .update(payloadString)
-          .digest("hex");
-
-        // Timing-safe comparison to prevent timing attacks
-        try {
-          return crypto.timingSafeEqual(
-            Buffer.from(signature, "hex"),
-            Buffer.from(expectedSignature, "hex")
-          );
-        } catch {
-          // If signatures have different lengths, timingSafeEqual throws
-          return false;
-        }
+        return verifyHmacSignature(
+          rawBody ?? (typeof payload === "string" ? payload : JSON.stringify(payload)),
+          signature,
+          secret
+        );
 
       default:
         return true;
@@ -268,12 +427,20 @@ export class WebhookReceiverService {
         webhook.userId
       );
 
+      // Deliver the reply through the channel's outbound config
+      const replyDelivered = await this.deliverReply(webhook, payload.From, processingResult.reply, {
+        inboundMessageId: message.id,
+        taskId: processingResult.taskId,
+        conversationId: conversation.id,
+      });
+
       return {
         success: true,
         messageId: message.id,
         taskId: processingResult.taskId,
         conversationId: conversation.id,
         reply: processingResult.reply,
+        replyDelivered,
       };
     } catch (error) {
       console.error("SMS webhook error:", error);
@@ -343,18 +510,38 @@ export class WebhookReceiverService {
         })
         .where(eq(userWebhooks.id, webhook.id));
 
+      workflowTriggerService.publish(webhook.userId, "email.received", {
+        webhookId: webhook.id,
+        messageId: message.id,
+        from: payload.from,
+        fromName: payload.fromName,
+        to: payload.to,
+        subject: payload.subject,
+        body: payload.body,
+      });
+
       // Process the message
       const processingResult = await this.messageProcessor.processMessage(
         message.id,
         webhook.userId
       );
 
+      // Deliver the reply through the channel's outbound config
+      const replyDelivered = await this.deliverReply(webhook, payload.from, processingResult.reply, {
+        inboundMessageId: message.id,
+        taskId: processingResult.taskId,
+        conversationId: conversation.id,
+        subject: payload.subject && !/^re:/i.test(payload.subject) ? `Re: ${payload.subject}` : payload.subject,
+        inReplyTo: payload.messageId,
+      });
+
       return {
         success: true,
         messageId: message.id,
         taskId: processingResult.taskId,
         conversationId: conversation.id,
         reply: processingResult.reply,
+        replyDelivered,
       };
     } catch (error) {
       console.error("Email webhook error:", error);
@@ -422,12 +609,20 @@ export class WebhookReceiverService {
         webhook.userId
       );
 
+      // Deliver the reply through the channel's outbound config
+      const replyDelivered = await this.deliverReply(webhook, payload.sender, processingResult.reply, {
+        inboundMessageId: message.id,
+        taskId: processingResult.taskId,
+        conversationId: conversation.id,
+      });
+
       return {
         success: true,
         messageId: message.id,
         taskId: processingResult.taskId,
         conversationId: conversation.id,
         reply: processingResult.reply,
+        replyDelivered,
       };
     } catch (error) {
       console.error("Custom webhook error:", error);
@@ -498,6 +693,33 @@ export class WebhookReceiverService {
     return newConversation;
   }
 
+  /**
+   * Send a processing reply back to the sender, if there is one
+   * Delivery failures are recorded on the outbound message, not thrown
+   */
+  private async deliverReply(
+    webhook: typeof userWebhooks.$inferSelect,
+    recipientIdentifier: string,
+    reply: string | undefined,
+    options: {
+      inboundMessageId: number;
+      taskId?: number;
+      conversationId: number;
+      subject?: string;
+      inReplyTo?: string;
+    }
+  ): Promise<boolean> {
+    if (!reply || !webhook.outboundEnabled) {
+      return false;
+    }
+
+    const result = await this.sendReply(webhook.id, recipientIdentifier, reply, options);
+    if (!result.success) {
+      console.warn(`Reply delivery failed for webhook ${webhook.id}:`, result.error);
+    }
+    return result.success;
+  }
+
   /**
    * Send a reply through the webhook's outbound channel
    */
@@ -510,8 +732,10 @@ export class WebhookReceiverService {
       taskId?: number;
       conversationId?: number;
       messageType?: string;
+      subject?: string;
+      inReplyTo?: string;
     }
-  ): Promise<{ success: boolean; messageId?: number; error?: string }> {
+  ): Promise<{ success: boolean; messageId?: number; externalMessageId?: string; error?: string }> {
     const db = await getDb();
     if (!db) {
       return { success: false, error: "Database not initialized" };
@@ -532,6 +756,8 @@ export class WebhookReceiverService {
         return { success: false, error: "Outbound messaging is disabled" };
       }
 
+      const messageType = options?.messageType || "reply";
+
       // Create outbound message record
       const [outbound] = await db
         .insert(outboundMessages)
@@ -541,33 +767,56 @@ export class WebhookReceiverService {
           inboundMessageId: options?.inboundMessageId,
           taskId: options?.taskId,
           conversationId: options?.conversationId,
-          messageType: options?.messageType || "reply",
+          messageType,
           content,
           recipientIdentifier,
           deliveryStatus: "pending",
         })
         .returning();
 
-      // TODO: Actually send the message through the provider
-      // For now, just mark as sent
-      await db
-        .update(outboundMessages)
-        .set({
-          deliveryStatus: "sent",
-          sentAt: new Date(),
-        })
-        .where(eq(outboundMessages.id, outbound.id));
-
-      // Update webhook stats
-      await db
-        .update(userWebhooks)
-        .set({
-          totalMessagesSent: (webhook.totalMessagesSent || 0) + 1,
-          updatedAt: new Date(),
-        })
-        .where(eq(userWebhooks.id, webhookId));
-
-      return { success: true, messageId: outbound.id };
+      try {
+        const delivery = await outboundDeliveryService.deliver(webhook, {
+          id: outbound.id,
+          recipient: recipientIdentifier,
+          content,
+          messageType,
+          subject: options?.subject,
+          inReplyTo: options?.inReplyTo,
+          conversationId: options?.conversationId,
+          taskId: options?.taskId,
+        });
+
+        const now = new Date();
+        await db
+          .update(outboundMessages)
+          .set({
+            deliveryStatus: delivery.status,
+            externalMessageId: delivery.externalMessageId,
+            providerResponse: delivery.providerResponse,
+            sentAt: now,
+            deliveredAt: delivery.status === "delivered" ? now : undefined,
+          })
+          .where(eq(outboundMessages.id, outbound.id));
+
+        // Update webhook stats
+        await db
+          .update(userWebhooks)
+          .set({
+            totalMessagesSent: (webhook.totalMessagesSent || 0) + 1,
+            updatedAt: now,
+          })
+          .where(eq(userWebhooks.id, webhookId));
+
+        return { success: true, messageId: outbound.id, externalMessageId: delivery.externalMessageId };
+      } catch (deliveryError) {
+        const error = deliveryError instanceof Error ? deliveryError.message : "Unknown error";
+        await db
+          .update(outboundMessages)
+          .set({ deliveryStatus: "failed", deliveryError: error })
+          .where(eq(outboundMessages.id, outbound.id));
+
+        return { success: false, messageId: outbound.id, error };
+      }
     } catch (error) {
       console.error("Failed to send reply:", error);
       return {
@@ -576,6 +825,165 @@ export class WebhookReceiverService {
       };
     }
   }
+
+  /**
+   * Validate a Twilio request signature (X-Twilio-Signature)
+   * Twilio signs the full callback URL followed by the sorted POST params
+   */
+  validateTwilioSignature(
+    params: Record<string, any>,
+    signature: string | undefined,
+    url: string,
+    authToken: string | undefined = process.env.TWILIO_AUTH_TOKEN
+  ): boolean {
+    if (!signature || !authToken) {
+      return false;
+    }
+
+    const data = Object.keys(params)
+      .sort()
+      .reduce((acc, key) => acc + key + (params[key] ?? ""), url);
+    const expected = crypto.createHmac("sha1", authToken).update(Buffer.from(data, "utf-8")).digest("base64");
+
+    const expectedBuffer = Buffer.from(expected);
+    const signatureBuffer = Buffer.from(signature);
+    return expectedBuffer.length === signatureBuffer.length && crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+  }
+
+  /**
+   * Handle a Twilio message status callback for an outbound SMS
+   */
+  async handleTwilioStatusCallback(
+    webhookToken: string,
+    payload: Record<string, any>,
+    signature: string | undefined,
+    url: string
+  ): Promise<{ success: boolean; updated?: boolean; error?: string }> {
+    const webhook = await this.findWebhookByToken(webhookToken);
+    if (!webhook) {
+      return { success: false, error: "Webhook not found" };
+    }
+
+    // Only signed callbacks are accepted, so channels without a Twilio auth token are rejected
+    const { twilioAuthToken } = getChannelConfig(webhook);
+    if (!twilioAuthToken || !this.validateTwilioSignature(payload, signature, url, twilioAuthToken)) {
+      return { success: false, error: "Authentication failed" };
+    }
+
+    const status = TWILIO_STATUS_MAP[String(payload.MessageStatus || "").toLowerCase()];
+    if (!payload.MessageSid || !status) {
+      return { success: true, updated: false };
+    }
+
+    const error = payload.ErrorCode
+      ? `Twilio error ${payload.ErrorCode}${payload.ErrorMessage ? `: ${payload.ErrorMessage}` : ""}`
+      : undefined;
+    const updated = await this.updateDeliveryStatus(webhook.id, {
+      externalMessageId: payload.MessageSid,
+      status,
+      error,
+    });
+
+    return { success: true, updated };
+  }
+
+  /**
+   * Handle delivery events from the email provider behind an SMTP channel
+   * Accepts Mailgun's body signature (channel mailgunSigningKey), SendGrid's
+   * signed event webhook (channel sendgridVerificationKey), or an
+   * X-Webhook-Signature HMAC of the raw body made with the webhook secret
+   */
+  async handleEmailStatusCallback(
+    webhookToken: string,
+    payload: unknown,
+    rawBody: Buffer | undefined,
+    headers: Record<string, string>
+  ): Promise<{ success: boolean; updated?: number; error?: string }> {
+    const webhook = await this.findWebhookByToken(webhookToken);
+    if (!webhook) {
+      return { success: false, error: "Webhook not found" };
+    }
+
+    const { mailgunSigningKey, sendgridVerificationKey } = getChannelConfig(webhook);
+    const signature = headers["x-webhook-signature"];
+    const authenticated =
+      (mailgunSigningKey && verifyMailgunSignature(payload, mailgunSigningKey)) ||
+      (sendgridVerificationKey && rawBody && verifySendGridSignature(
+        rawBody,
+        headers[SENDGRID_SIGNATURE_HEADER],
+        headers[SENDGRID_TIMESTAMP_HEADER],
+        sendgridVerificationKey
+      )) ||
+      (signature && rawBody && webhook.secretKey && verifyHmacSignature(rawBody, signature, webhook.secretKey));
+    if (!authenticated) {
+      return { success: false, error: "Authentication failed" };
+    }
+
+    let updated = 0;
+    for (const event of parseEmailStatusEvents(payload)) {
+      if (await this.updateDeliveryStatus(webhook.id, event)) {
+        updated++;
+      }
+    }
+
+    return { success: true, updated };
+  }
+
+  /**
+   * Apply a provider status update to an outbound message
+   * @returns true when the message was found and its status changed
+   */
+  async updateDeliveryStatus(webhookId: number, event: DeliveryStatusEvent): Promise<boolean> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+
+    const [message] = await db
+      .select()
+      .from(outboundMessages)
+      .where(and(
+        eq(outboundMessages.webhookId, webhookId),
+        eq(outboundMessages.externalMessageId, event.externalMessageId)
+      ))
+      .limit(1);
+
+    if (!message || !shouldApplyStatus(message.deliveryStatus, event.status)) {
+      return false;
+    }
+
+    const now = new Date();
+    const isFailure = event.status === "failed" || event.status === "bounced";
+    await db
+      .update(outboundMessages)
+      .set({
+        deliveryStatus: event.status,
+        deliveryError: isFailure ? event.error || message.deliveryError : message.deliveryError,
+        deliveredAt: event.status === "delivered" || event.status === "read" ? message.deliveredAt || now : message.deliveredAt,
+        readAt: event.status === "read" ? now : message.readAt,
+      })
+      .where(eq(outboundMessages.id, message.id));
+
+    return true;
+  }
+
+  /**
+   * Find a webhook by its URL token
+   */
+  private async findWebhookByToken(webhookToken: string): Promise<typeof userWebhooks.$inferSelect | undefined> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+
+    const [webhook] = await db
+      .select()
+      .from(userWebhooks)
+      .where(eq(userWebhooks.webhookToken, webhookToken))
+      .limit(1);
+
+    return webhook;
+  }
 }
 
 // Export singleton instance
@@ -1,18 +1,20 @@
 import { Stagehand } from "@browserbasehq/stagehand";
 import { z } from "zod";
 import { getDb } from "../db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, inArray, sql } from "drizzle-orm";
 import {
   automationWorkflows,
   workflowExecutions,
   browserSessions,
   extractedData,
+  type WorkflowExecution,
 } from "../../drizzle/schema";
 import { getBrowserbaseService } from "../_core/browserbase";
 import { browserbaseSDK } from "../_core/browserbaseSDK";
 import { cacheService, CACHE_TTL } from "./cache.service";
 import { cacheKeys } from "../lib/cacheKeys";
 import { evaluateExpression } from "../lib/safeExpressionParser";
+import { ErrorType, classifyError } from "../lib/errorTypes";
 
 // Import shared variable substitution utility
 import { substituteVariables as substituteVariablesUtil } from "../_core/variableSubstitution";
@@ -24,6 +26,9 @@ import type {
   ExecuteWorkflowOptions,
   ExecutionStatus,
   HttpMethod,
+  StepRetryPolicy,
+  StepRetryErrorClass,
+  WorkflowCheckpoint,
 } from "../types";
 
 /**
@@ -42,6 +47,8 @@ export type {
   StepResult,
   ExecuteWorkflowOptions,
   ExecutionStatus,
+  StepRetryPolicy,
+  WorkflowCheckpoint,
 };
 
 export interface TestExecuteWorkflowOptions {
@@ -54,6 +61,10 @@ export interface TestExecuteWorkflowOptions {
     country?: string;
   };
   stepByStep?: boolean;
+  /** Called before each top-level step runs, for streaming progress */
+  onStepStart?: (stepIndex: number, step: WorkflowStep) => void;
+  /** Called with each top-level step result as soon as it is recorded */
+  onStepComplete?: (stepResult: ExecutionContext["stepResults"][number]) => void;
 }
 
 // ========================================
@@ -109,6 +120,8 @@ async function updateExecutionStatus(
     error?: string;
     output?: unknown;
     stepResults?: unknown[];
+    checkpoint?: WorkflowCheckpoint;
+    heartbeatAt?: Date;
   }
 ): Promise<void> {
   const db = await getDb();
@@ -380,19 +393,176 @@ async function executeConditionStep(
     passed = false;
   }
 
+  // Run the inline branch for the outcome, if any
+  const branchName = passed ? "then" : "else";
+  const branchSteps = passed ? config.thenSteps : config.elseSteps;
+  const branch = branchSteps && branchSteps.length > 0
+    ? await executeNestedSteps(branchSteps, context)
+    : undefined;
+  const nextStepId = passed ? config.thenGoto : config.elseGoto;
+
   return {
-    success: true,
+    success: branch ? branch.success : true,
     result: {
       condition,
       passed,
+      branch: branchName,
       timestamp: new Date(),
+      ...(branch && { branchResults: branch.stepResults }),
+      ...(nextStepId && { nextStepId }),
       ...(evaluationError && { evaluationError })
     },
+    ...(branch && !branch.success && { error: `${branchName} branch failed: ${branch.error}` }),
+    ...((!branch || branch.success) && nextStepId && { nextStepId }),
   };
 }
 
 /**
- * Execute a loop step - Iterate over data
+ * Upper bound on loop iterations regardless of step config
+ */
+const MAX_LOOP_ITERATIONS = 1000;
+
+/**
+ * Upper bound on concurrently running loop iterations
+ */
+const MAX_LOOP_CONCURRENCY = 10;
+
+/**
+ * Step types that drive the shared browser page and therefore cannot run in parallel
+ */
+const BROWSER_STEP_TYPES: WorkflowStepType[] = ["navigate", "act", "observe", "extract", "wait"];
+
+interface LoopIterationResult {
+  index: number;
+  item: unknown;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  stepResults: ExecutionContext["stepResults"];
+}
+
+/**
+ * Resolve loop items from a literal array or a {{variable}} reference
+ */
+function resolveLoopItems(items: unknown, variables: Record<string, unknown>): unknown {
+  if (typeof items === "string") {
+    const reference = items.trim().match(/^\{\{\s*(\w+)\s*\}\}$/);
+    if (reference) {
+      return variables[reference[1]];
+    }
+  }
+  return substituteVariables(items, variables);
+}
+
+/**
+ * Evaluate a loop break/continue expression against the iteration variables.
+ * {{variable}} wrappers are unwrapped so both `{{item.done}}` and `item.done` work.
+ */
+function evaluateLoopCondition(
+  expression: string,
+  variables: Record<string, unknown>
+): boolean {
+  const normalized = expression.replace(/\{\{\s*([\w.]+)\s*\}\}/g, "$1");
+  const result = evaluateExpression(normalized, variables);
+
+  if (!result.success) {
+    throw new Error(`Invalid loop condition "${expression}": ${result.error}`);
+  }
+
+  return result.result;
+}
+
+/**
+ * Check whether any step (including steps nested in loops and condition branches) needs the browser
+ */
+function containsBrowserSteps(steps: WorkflowStep[]): boolean {
+  return steps.some((step) => {
+    if (BROWSER_STEP_TYPES.includes(step.type)) {
+      return true;
+    }
+    if (step.config.type === "loop" && Array.isArray(step.config.steps)) {
+      return containsBrowserSteps(step.config.steps);
+    }
+    if (step.config.type === "condition") {
+      return containsBrowserSteps([...(step.config.thenSteps ?? []), ...(step.config.elseSteps ?? [])]);
+    }
+    return false;
+  });
+}
+
+/**
+ * Resolve which step runs after the step at `currentIndex`.
+ * Jumps are forward-only, which keeps execution acyclic even for
+ * definitions that bypassed router validation.
+ */
+function resolveNextStepIndex(
+  steps: WorkflowStep[],
+  currentIndex: number,
+  result: StepResult
+): number {
+  if (!result.success || !result.nextStepId) {
+    return currentIndex + 1;
+  }
+
+  const targetIndex = steps.findIndex((candidate) => candidate.id === result.nextStepId);
+
+  if (targetIndex === -1) {
+    throw new Error(`Jump target step "${result.nextStepId}" not found`);
+  }
+
+  if (targetIndex <= currentIndex) {
+    throw new Error(`Jump target step "${result.nextStepId}" must come after the current step`);
+  }
+
+  return targetIndex;
+}
+
+/**
+ * Run a nested step list (loop body or condition branch) in the given context
+ */
+async function executeNestedSteps(
+  unsortedSteps: WorkflowStep[],
+  context: ExecutionContext
+): Promise<{ success: boolean; error?: string; stepResults: ExecutionContext["stepResults"] }> {
+  const steps = [...unsortedSteps].sort((a, b) => a.order - b.order);
+  const stepResults: ExecutionContext["stepResults"] = [];
+  let j = 0;
+
+  while (j < steps.length) {
+    const step = steps[j];
+    const result = await executeStepWithRetry(step, context);
+
+    stepResults.push({
+      stepIndex: j,
+      type: step.type,
+      success: result.success,
+      result: result.result,
+      error: result.error,
+      ...(result.attempts && { attempts: result.attempts }),
+      timestamp: new Date(),
+    });
+
+    if (step.config.saveAs && result.success && result.result) {
+      context.variables[step.config.saveAs] = result.result;
+    }
+
+    if (!result.success && !step.config.continueOnError) {
+      return { success: false, error: `Step ${j + 1} failed: ${result.error}`, stepResults };
+    }
+
+    j = resolveNextStepIndex(steps, j, result);
+  }
+
+  return { success: true, stepResults };
+}
+
+/**
+ * Execute a loop step - Run nested steps once per item
+ *
+ * Each iteration exposes `__loopItem` / `__loopIndex` (plus the optional
+ * `itemVariable` / `indexVariable` names). Sequential loops share the workflow
+ * variables so `saveAs` outputs remain visible after the loop; parallel loops
+ * give every iteration its own copy.
  */
 async function executeLoopStep(
   step: WorkflowStep,
@@ -404,28 +574,88 @@ async function executeLoopStep(
     throw new Error("Invalid step config type for loop");
   }
 
-  const items = substituteVariables(config.items, context.variables);
+  const items = resolveLoopItems(config.items, context.variables);
 
   if (!Array.isArray(items)) {
     throw new Error("Loop step requires items array");
   }
 
-  const results: any[] = [];
+  if (items.length > MAX_LOOP_ITERATIONS && !config.maxIterations) {
+    throw new Error(
+      `Loop has ${items.length} items, exceeding the maximum of ${MAX_LOOP_ITERATIONS} iterations`
+    );
+  }
 
-  for (let i = 0; i < items.length; i++) {
-    const item = items[i];
-    // Set loop variables
-    context.variables["__loopItem"] = item;
-    context.variables["__loopIndex"] = i;
+  const limit = Math.min(items.length, config.maxIterations ?? items.length, MAX_LOOP_ITERATIONS);
+  const childSteps = config.steps || [];
+  const concurrency = Math.max(1, Math.min(config.concurrency ?? 1, MAX_LOOP_CONCURRENCY));
+  const parallel = concurrency > 1;
 
-    // Note: In a full implementation, you would execute nested steps here
-    // For now, we just collect the items
-    results.push({ index: i, item });
+  if (parallel && containsBrowserSteps(childSteps)) {
+    throw new Error("Parallel loops cannot contain browser steps (navigate, act, observe, extract, wait)");
+  }
+
+  const results: LoopIterationResult[] = [];
+  let broke = false;
+
+  const processItem = async (index: number): Promise<void> => {
+    const item = items[index];
+    const variables = parallel ? { ...context.variables } : context.variables;
+
+    variables["__loopItem"] = item;
+    variables["__loopIndex"] = index;
+    if (config.itemVariable) variables[config.itemVariable] = item;
+    if (config.indexVariable) variables[config.indexVariable] = index;
+
+    if (config.breakCondition && evaluateLoopCondition(config.breakCondition, variables)) {
+      broke = true;
+      return;
+    }
+
+    if (config.continueCondition && evaluateLoopCondition(config.continueCondition, variables)) {
+      results[index] = { index, item, success: true, skipped: true, stepResults: [] };
+      return;
+    }
+
+    const iteration = await executeNestedSteps(childSteps, { ...context, variables });
+    results[index] = { index, item, ...iteration };
+
+    if (!iteration.success) {
+      broke = true;
+    }
+  };
+
+  let nextIndex = 0;
+  const worker = async (): Promise<void> => {
+    while (!broke && nextIndex < limit) {
+      await processItem(nextIndex++);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, limit) }, worker));
+
+  const completed = results.filter(Boolean);
+  const failed = completed.find((iteration) => !iteration.success);
+  const summary = {
+    iterations: completed.length,
+    skipped: completed.filter((iteration) => iteration.skipped).length,
+    truncated: limit < items.length,
+    broke: broke && !failed,
+    results: completed,
+    timestamp: new Date(),
+  };
+
+  if (failed) {
+    return {
+      success: false,
+      result: summary,
+      error: `Loop iteration ${failed.index} failed: ${failed.error}`,
+    };
   }
 
   return {
     success: true,
-    result: { iterations: results.length, results, timestamp: new Date() },
+    result: summary,
   };
 }
 
@@ -521,9 +751,12 @@ async function executeNotificationStep(
  * Execute a single workflow step
  */
 async function executeStep(
-  step: WorkflowStep,
+  definition: WorkflowStep,
   context: ExecutionContext
 ): Promise<StepResult> {
+  // Saved definitions only carry the type on the step; handlers narrow on config.type
+  const step = { ...definition, config: { ...definition.config, type: definition.type } } as WorkflowStep;
+
   console.log(`Executing step ${step.order}: ${step.type}`);
 
   try {
@@ -580,14 +813,133 @@ async function executeStep(
   }
 }
 
+/**
+ * Error classes retried when a policy doesn't list any
+ */
+const DEFAULT_RETRY_ON: StepRetryErrorClass[] = ["network", "timeout", "rateLimit", "server"];
+
+const RETRY_ERROR_TYPES: Record<Exclude<StepRetryErrorClass, "any">, ErrorType[]> = {
+  network: [ErrorType.NETWORK_ERROR, ErrorType.DNS_ERROR, ErrorType.CONNECTION_REFUSED],
+  timeout: [ErrorType.TIMEOUT, ErrorType.PAGE_LOAD_TIMEOUT, ErrorType.SCRIPT_TIMEOUT],
+  rateLimit: [ErrorType.RATE_LIMIT],
+  server: [ErrorType.HTTP_5XX],
+  element: [
+    ErrorType.ELEMENT_NOT_FOUND,
+    ErrorType.SELECTOR_AMBIGUOUS,
+    ErrorType.ELEMENT_NOT_INTERACTABLE,
+    ErrorType.ELEMENT_STALE,
+  ],
+};
+
+/**
+ * Check whether a step error belongs to one of the policy's retry classes
+ */
+export function isRetryableStepError(
+  error: string,
+  retryOn: StepRetryErrorClass[] = DEFAULT_RETRY_ON
+): boolean {
+  if (retryOn.includes("any")) {
+    return true;
+  }
+
+  const errorType = classifyError(error);
+  return retryOn.some(
+    (errorClass) => errorClass !== "any" && RETRY_ERROR_TYPES[errorClass].includes(errorType)
+  );
+}
+
+/**
+ * Delay before the retry that follows `attempt` (1-based)
+ */
+export function getStepRetryDelay(policy: StepRetryPolicy, attempt: number): number {
+  const delayMs = policy.delayMs ?? 1000;
+  const nextDelay = policy.backoff === "fixed" ? delayMs : delayMs * 2 ** (attempt - 1);
+  return Math.min(nextDelay, policy.maxDelayMs ?? 60000);
+}
+
+/**
+ * Failure message for a step result, if it should count as failed.
+ * API calls resolve on any HTTP status, so 429 and 5xx responses are
+ * reported here to make them retryable.
+ */
+function getStepFailure(step: WorkflowStep, result: StepResult): string | undefined {
+  if (!result.success) {
+    return result.error || "Unknown error";
+  }
+
+  if (step.type === "apiCall") {
+    const status = (result.result as { status?: number } | undefined)?.status;
+    if (status && (status === 429 || status >= 500)) {
+      return `Request failed with status ${status}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Execute a step, retrying it according to its retry policy
+ */
+async function executeStepWithRetry(
+  step: WorkflowStep,
+  context: ExecutionContext
+): Promise<StepResult> {
+  const policy = step.config.retry;
+  let result = await executeStep(step, context);
+
+  if (!policy) {
+    return result;
+  }
+
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  let attempt = 1;
+
+  while (attempt < maxAttempts) {
+    const failure = getStepFailure(step, result);
+    if (!failure || !isRetryableStepError(failure, policy.retryOn)) {
+      break;
+    }
+
+    const delayMs = getStepRetryDelay(policy, attempt);
+    console.log(`Step ${step.order} attempt ${attempt}/${maxAttempts} failed, retrying in ${delayMs}ms: ${failure}`);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+    attempt++;
+    result = await executeStep(step, context);
+  }
+
+  return { ...result, attempts: attempt };
+}
+
+/**
+ * Build the resume point for an execution
+ */
+function createCheckpoint(
+  nextStepIndex: number,
+  stepCount: number,
+  state: Pick<ExecutionContext, "variables" | "extractedData">
+): WorkflowCheckpoint {
+  return {
+    nextStepIndex,
+    stepCount,
+    variables: state.variables,
+    extractedData: state.extractedData,
+    savedAt: new Date().toISOString(),
+  };
+}
+
 /**
  * Handle step result and update context
+ * The checkpoint only advances when the run continues past the step, so a
+ * failed step is retried with the variables it originally ran with.
  */
 async function handleStepResult(
   step: WorkflowStep,
   stepIndex: number,
   result: StepResult,
-  context: ExecutionContext
+  context: ExecutionContext,
+  nextStepIndex: number | undefined,
+  stepCount: number
 ): Promise<void> {
   // Add result to context
   context.stepResults.push({
@@ -596,21 +948,37 @@ async function handleStepResult(
     success: result.success,
     result: result.result,
     error: result.error,
+    ...(result.attempts && { attempts: result.attempts }),
     timestamp: new Date(),
   });
 
+  // Store result in variables if saveAs is specified
+  if (step.config.saveAs && result.success && result.result) {
+    context.variables[step.config.saveAs] = result.result;
+  }
+
   // Update execution record with current progress
   await updateExecutionStatus(context.executionId, {
     currentStep: stepIndex + 1,
     stepResults: context.stepResults,
+    heartbeatAt: new Date(),
+    ...(nextStepIndex !== undefined && {
+      checkpoint: createCheckpoint(nextStepIndex, stepCount, context),
+    }),
   });
-
-  // Store result in variables if saveAs is specified
-  if (step.config.saveAs && result.success && result.result) {
-    context.variables[step.config.saveAs] = result.result;
-  }
 }
 
+/**
+ * How often a running execution refreshes its heartbeat
+ */
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.WORKFLOW_HEARTBEAT_INTERVAL_MS || "30000");
+
+/**
+ * Statuses an execution can be resumed from. Orphaned runs are reset to
+ * pending by the recovery sweep before they are resumed.
+ */
+const RESUMABLE_STATUSES = ["failed", "pending"];
+
 /**
  * Main workflow execution function
  */
@@ -618,6 +986,8 @@ export async function executeWorkflow(
   options: ExecuteWorkflowOptions
 ): Promise<ExecutionStatus> {
   const { workflowId, userId, variables = {}, geolocation } = options;
+  // A resumed execution is only ours once it has been reclaimed below
+  let executionId: number | undefined = options.resume ? undefined : options.executionId;
 
   const db = await getDb();
   if (!db) {
@@ -625,8 +995,8 @@ export async function executeWorkflow(
   }
 
   let sessionId: string | undefined;
-  let executionId: number | undefined;
   let stagehand: Stagehand | undefined;
+  let heartbeat: NodeJS.Timeout | undefined;
 
   try {
     // 1. Fetch workflow (with caching - 5 minutes TTL)
@@ -660,20 +1030,82 @@ export async function executeWorkflow(
     // Sort steps by order
     steps.sort((a, b) => a.order - b.order);
 
-    // 2. Create execution record
-    const [execution] = await db
-      .insert(workflowExecutions)
-      .values({
-        workflowId,
-        userId,
+    // 2. Create execution record, start the one created when the run was queued,
+    // or reclaim a failed/interrupted one to continue from its checkpoint
+    let execution: WorkflowExecution | undefined;
+
+    if (options.resume) {
+      if (!options.executionId) {
+        throw new Error("Resuming a workflow requires an execution ID");
+      }
+
+      [execution] = await db
+        .update(workflowExecutions)
+        .set({
+          status: "running",
+          startedAt: sql`COALESCE(${workflowExecutions.startedAt}, now())`,
+          completedAt: null,
+          error: null,
+          heartbeatAt: new Date(),
+          resumeCount: sql`${workflowExecutions.resumeCount} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(workflowExecutions.id, options.executionId),
+          eq(workflowExecutions.workflowId, workflowId),
+          eq(workflowExecutions.userId, userId),
+          inArray(workflowExecutions.status, RESUMABLE_STATUSES)
+        ))
+        .returning();
+
+      if (!execution) {
+        throw new Error("Execution not found or not resumable");
+      }
+    } else {
+      const initialState = {
         status: "running",
         startedAt: new Date(),
         input: variables,
-      })
-      .returning();
+        checkpoint: createCheckpoint(0, steps.length, { variables, extractedData: [] }),
+        heartbeatAt: new Date(),
+      };
+
+      [execution] = options.executionId
+        ? await db
+            .update(workflowExecutions)
+            .set({ ...initialState, error: null, updatedAt: new Date() })
+            .where(and(
+              eq(workflowExecutions.id, options.executionId),
+              eq(workflowExecutions.workflowId, workflowId),
+              eq(workflowExecutions.userId, userId)
+            ))
+            .returning()
+        : await db
+            .insert(workflowExecutions)
+            .values({ workflowId, userId, ...initialState })
+            .returning();
+
+      if (!execution) {
+        throw new Error("Execution not found");
+      }
+    }
 
     executionId = execution.id;
 
+    const checkpoint = options.resume ? (execution.checkpoint as WorkflowCheckpoint | null) : null;
+    if (checkpoint && checkpoint.stepCount !== steps.length) {
+      throw new Error("Workflow steps changed since this execution ran; start a new run instead");
+    }
+
+    // Keep the heartbeat fresh so the recovery sweep can tell this run is alive
+    const heartbeatExecutionId = executionId;
+    heartbeat = setInterval(() => {
+      updateExecutionStatus(heartbeatExecutionId, { heartbeatAt: new Date() }).catch((error) => {
+        console.error("Failed to update workflow heartbeat:", error);
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+
     // 3. Create browser session
     const session = geolocation
       ? await browserbaseSDK.createSessionWithGeoLocation(geolocation)
@@ -740,32 +1172,46 @@ export async function executeWorkflow(
 
     await stagehand.init();
 
-    // 5. Create execution context
+    // 5. Create execution context, restoring the checkpoint when resuming
+    // (browser state is not restored; resumed runs start on a fresh page)
+    const initialVariables = options.resume
+      ? checkpoint?.variables ?? (execution.input as Record<string, unknown> | null) ?? {}
+      : variables;
+
     const context: ExecutionContext = {
       workflowId,
       executionId,
       userId,
       sessionId: session.id,
       stagehand,
-      variables: { ...variables },
-      stepResults: [],
-      extractedData: [],
+      variables: { ...initialVariables },
+      stepResults: options.resume
+        ? [...((execution.stepResults as ExecutionContext["stepResults"] | null) ?? [])]
+        : [],
+      extractedData: [...(checkpoint?.extractedData ?? [])],
     };
 
-    // 6. Execute steps sequentially
-    for (let i = 0; i < steps.length; i++) {
+    // 6. Execute steps, following condition jumps
+    let i = checkpoint?.nextStepIndex ?? 0;
+    while (i < steps.length) {
       const step = steps[i];
 
-      // Execute step
-      const result = await executeStep(step, context);
+      // Execute step, retrying per its retry policy
+      const result = await executeStepWithRetry(step, context);
+
+      // A failed step stops execution unless it continues on error
+      const nextStepIndex = result.success || step.config.continueOnError
+        ? resolveNextStepIndex(steps, i, result)
+        : undefined;
 
       // Handle result
-      await handleStepResult(step, i, result, context);
+      await handleStepResult(step, i, result, context, nextStepIndex, steps.length);
 
-      // Check if step failed and should stop execution
-      if (!result.success && !step.config.continueOnError) {
+      if (nextStepIndex === undefined) {
         throw new Error(`Step ${i + 1} failed: ${result.error}`);
       }
+
+      i = nextStepIndex;
     }
 
     // 7. Clean up and mark as completed
@@ -845,9 +1291,45 @@ export async function executeWorkflow(
     }
 
     throw error;
+  } finally {
+    if (heartbeat) {
+      clearInterval(heartbeat);
+    }
   }
 }
 
+/**
+ * Resume a failed execution from the step that failed
+ * Variables and extracted data are restored from the last checkpoint
+ */
+export async function resumeExecution(executionId: number, userId: number): Promise<ExecutionStatus> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not initialized");
+  }
+
+  const [execution] = await db
+    .select()
+    .from(workflowExecutions)
+    .where(and(eq(workflowExecutions.id, executionId), eq(workflowExecutions.userId, userId)))
+    .limit(1);
+
+  if (!execution) {
+    throw new Error("Execution not found");
+  }
+
+  if (execution.status !== "failed") {
+    throw new Error("Only failed executions can be resumed");
+  }
+
+  return executeWorkflow({
+    workflowId: execution.workflowId,
+    userId,
+    executionId,
+    resume: true,
+  });
+}
+
 /**
  * Get execution status
  */
@@ -889,7 +1371,7 @@ export async function getExecutionStatus(executionId: number): Promise<Execution
 export async function testExecuteWorkflow(
   options: TestExecuteWorkflowOptions
 ): Promise<ExecutionStatus> {
-  const { userId, steps, variables = {}, geolocation, stepByStep = false } = options;
+  const { userId, steps, variables = {}, geolocation, stepByStep = false, onStepStart, onStepComplete } = options;
 
   let stagehand: Stagehand | undefined;
   let sessionId: string | undefined;
@@ -902,58 +1384,60 @@ export async function testExecuteWorkflow(
 
     const sortedSteps = [...steps].sort((a, b) => a.order - b.order);
 
-    // Create browser session
-    const session = geolocation
-      ? await browserbaseSDK.createSessionWithGeoLocation(geolocation)
-      : await browserbaseSDK.createSession({
-          projectId: process.env.BROWSERBASE_PROJECT_ID,
+    // Only open a browser session when a step drives the page
+    if (containsBrowserSteps(sortedSteps)) {
+      const session = geolocation
+        ? await browserbaseSDK.createSessionWithGeoLocation(geolocation)
+        : await browserbaseSDK.createSession({
+            projectId: process.env.BROWSERBASE_PROJECT_ID,
+            proxies: true,
+            timeout: 3600,
+            keepAlive: true,
+            browserSettings: {
+              viewport: { width: 1920, height: 1080 },
+            },
+          });
+
+      sessionId = session.id;
+      console.log(`Test workflow session created: ${session.id}`);
+
+      // Initialize Stagehand
+      stagehand = new Stagehand({
+        env: "BROWSERBASE",
+        verbose: 1,
+        disablePino: true,
+        apiKey: process.env.BROWSERBASE_API_KEY,
+        projectId: process.env.BROWSERBASE_PROJECT_ID,
+        browserbaseSessionCreateParams: {
+          projectId: process.env.BROWSERBASE_PROJECT_ID!,
           proxies: true,
+          region: "us-west-2",
           timeout: 3600,
           keepAlive: true,
           browserSettings: {
+            advancedStealth: false,
+            blockAds: true,
+            solveCaptchas: true,
+            recordSession: true,
             viewport: { width: 1920, height: 1080 },
           },
-        });
-
-    sessionId = session.id;
-    console.log(`Test workflow session created: ${session.id}`);
-
-    // Initialize Stagehand
-    stagehand = new Stagehand({
-      env: "BROWSERBASE",
-      verbose: 1,
-      disablePino: true,
-      apiKey: process.env.BROWSERBASE_API_KEY,
-      projectId: process.env.BROWSERBASE_PROJECT_ID,
-      browserbaseSessionCreateParams: {
-        projectId: process.env.BROWSERBASE_PROJECT_ID!,
-        proxies: true,
-        region: "us-west-2",
-        timeout: 3600,
-        keepAlive: true,
-        browserSettings: {
-          advancedStealth: false,
-          blockAds: true,
-          solveCaptchas: true,
-          recordSession: true,
-          viewport: { width: 1920, height: 1080 },
-        },
-        userMetadata: {
-          userId: `user-${userId}`,
-          testRun: "true",
-          environment: process.env.NODE_ENV || "development",
+          userMetadata: {
+            userId: `user-${userId}`,
+            testRun: "true",
+            environment: process.env.NODE_ENV || "development",
+          },
         },
-      },
-    });
+      });
 
-    await stagehand.init();
+      await stagehand.init();
+    }
 
     // Create execution context (no execution ID since we're not saving)
     const context: ExecutionContext = {
       workflowId: -1, // Dummy ID for test
       executionId: -1, // Dummy ID for test
       userId,
-      sessionId: session.id,
+      sessionId: sessionId ?? "",
       stagehand,
       variables: { ...variables },
       stepResults: [],
@@ -962,15 +1446,17 @@ export async function testExecuteWorkflow(
 
     const startTime = Date.now();
 
-    // Execute steps sequentially
-    for (let i = 0; i < sortedSteps.length; i++) {
+    // Execute steps, following condition jumps
+    let i = 0;
+    while (i < sortedSteps.length) {
       const step = sortedSteps[i];
       const stepStartTime = Date.now();
 
       console.log(`Test run - Executing step ${i + 1}/${sortedSteps.length}: ${step.type}`);
+      onStepStart?.(i, step);
 
-      // Execute step
-      const result = await executeStep(step, context);
+      // Execute step, retrying per its retry policy
+      const result = await executeStepWithRetry(step, context);
 
       // Calculate duration
       const duration = Date.now() - stepStartTime;
@@ -982,9 +1468,11 @@ export async function testExecuteWorkflow(
         success: result.success,
         result: result.result,
         error: result.error,
+        ...(result.attempts && { attempts: result.attempts }),
         timestamp: new Date(),
         duration,
       } as any);
+      onStepComplete?.(context.stepResults[context.stepResults.length - 1]);
 
       // Store result in variables if saveAs is specified
       if (step.config.saveAs && result.success && result.result) {
@@ -996,7 +1484,7 @@ export async function testExecuteWorkflow(
         const totalDuration = Date.now() - startTime;
 
         // Clean up
-        await stagehand.close();
+        await stagehand?.close();
 
         return {
           executionId: -1,
@@ -1018,12 +1506,14 @@ export async function testExecuteWorkflow(
       if (stepByStep && i < sortedSteps.length - 1) {
         await new Promise((resolve) => setTimeout(resolve, 500));
       }
+
+      i = resolveNextStepIndex(sortedSteps, i, result);
     }
 
     const totalDuration = Date.now() - startTime;
 
     // Clean up
-    await stagehand.close();
+    await stagehand?.close();
 
     return {
       executionId: -1,
@@ -10,6 +10,7 @@ import {
   testExecuteWorkflow,
   getExecutionStatus,
   cancelExecution,
+  getStepRetryDelay,
   type ExecuteWorkflowOptions,
   type TestExecuteWorkflowOptions,
   type WorkflowStep,
@@ -1431,6 +1432,371 @@ describe('Step Handlers - Loop', () => {
   });
 });
 
+describe('Loop Step Execution', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    (browserbaseSDK.createSession as any).mockResolvedValue(mockSession);
+    const { Stagehand: StagehandMock } = await import('@browserbasehq/stagehand');
+    (StagehandMock as any).mockImplementation(function () {
+      return mockStagehand;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const notifyStep = (message: string): WorkflowStep => ({
+    type: 'notification',
+    order: 1,
+    config: { type: 'notification', message },
+  });
+
+  const runLoop = async (config: Record<string, unknown>, variables: Record<string, unknown> = {}) => {
+    const result = await testExecuteWorkflow({
+      userId: 123,
+      variables,
+      steps: [{ type: 'loop', order: 1, config: { type: 'loop', ...config } as any }],
+    });
+    return { status: result, loop: (result.stepResults as any[])[0] };
+  };
+
+  it('should run nested steps once per item from a variable reference', async () => {
+    const { status, loop } = await runLoop(
+      { items: '{{contacts}}', itemVariable: 'contact', steps: [notifyStep('Hi {{contact}} #{{__loopIndex}}')] },
+      { contacts: ['Ann', 'Bob', 'Cy'] }
+    );
+
+    expect(status.status).toBe('completed');
+    expect(loop.result.iterations).toBe(3);
+    expect(loop.result.results.map((r: any) => r.stepResults[0].result.message)).toEqual([
+      'Hi Ann #0',
+      'Hi Bob #1',
+      'Hi Cy #2',
+    ]);
+  });
+
+  it('should skip items matching continueCondition and stop at breakCondition', async () => {
+    const { loop } = await runLoop({
+      items: [{ n: 1 }, { n: 2, skip: true }, { n: 3 }, { n: 4, stop: true }, { n: 5 }],
+      continueCondition: '{{__loopItem.skip}} === true',
+      breakCondition: '__loopItem.stop === true',
+      steps: [notifyStep('item {{__loopIndex}}')],
+    });
+
+    expect(loop.success).toBe(true);
+    expect(loop.result.broke).toBe(true);
+    expect(loop.result.iterations).toBe(3);
+    expect(loop.result.skipped).toBe(1);
+    expect(loop.result.results[1].skipped).toBe(true);
+  });
+
+  it('should only process maxIterations items', async () => {
+    const { loop } = await runLoop({
+      items: [1, 2, 3, 4, 5],
+      maxIterations: 2,
+      steps: [notifyStep('x')],
+    });
+
+    expect(loop.result.iterations).toBe(2);
+    expect(loop.result.truncated).toBe(true);
+  });
+
+  it('should reject loops above the hard iteration cap', async () => {
+    const { status, loop } = await runLoop({
+      items: Array.from({ length: 1001 }, (_, i) => i),
+      steps: [notifyStep('x')],
+    });
+
+    expect(status.status).toBe('failed');
+    expect(loop.error).toContain('exceeding the maximum');
+  });
+
+  it('should fail the loop when a nested step fails', async () => {
+    const { status, loop } = await runLoop({
+      items: ['a', 'b'],
+      steps: [notifyStep('')],
+    });
+
+    expect(status.status).toBe('failed');
+    expect(loop.error).toContain('Loop iteration 0 failed');
+    expect(loop.result.iterations).toBe(1);
+  });
+
+  it('should run iterations in parallel with isolated variables', async () => {
+    const fetchMock = vi.fn(async (url: string) => ({
+      status: 200,
+      statusText: 'OK',
+      json: async () => ({ url }),
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { loop } = await runLoop({
+      items: ['1', '2', '3', '4'],
+      concurrency: 2,
+      steps: [
+        {
+          type: 'apiCall',
+          order: 1,
+          config: { type: 'apiCall', url: 'https://api.example.com/contacts/{{__loopItem}}', saveAs: 'contact' },
+        },
+      ],
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(loop.result.results.map((r: any) => r.stepResults[0].result.data.url)).toEqual([
+      'https://api.example.com/contacts/1',
+      'https://api.example.com/contacts/2',
+      'https://api.example.com/contacts/3',
+      'https://api.example.com/contacts/4',
+    ]);
+    vi.unstubAllGlobals();
+  });
+
+  it('should reject parallel loops containing browser steps', async () => {
+    const { loop } = await runLoop({
+      items: [1, 2],
+      concurrency: 2,
+      steps: [{ type: 'navigate', order: 1, config: { type: 'navigate', url: 'https://example.com' } }],
+    });
+
+    expect(loop.success).toBe(false);
+    expect(loop.error).toContain('Parallel loops cannot contain browser steps');
+  });
+});
+
+describe('Condition Branching', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    (browserbaseSDK.createSession as any).mockResolvedValue(mockSession);
+    const { Stagehand: StagehandMock } = await import('@browserbasehq/stagehand');
+    (StagehandMock as any).mockImplementation(function () {
+      return mockStagehand;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const notifyStep = (order: number, message: string, id?: string): WorkflowStep => ({
+    id,
+    type: 'notification',
+    order,
+    config: { type: 'notification', message },
+  });
+
+  const messagesOf = (stepResults: any[]) =>
+    stepResults.filter((r) => r.type === 'notification').map((r) => r.result.message);
+
+  it('should run the then branch when the condition passes', async () => {
+    const result = await testExecuteWorkflow({
+      userId: 123,
+      variables: { contactExists: true },
+      steps: [
+        {
+          type: 'condition',
+          order: 1,
+          config: {
+            type: 'condition',
+            condition: 'contactExists === true',
+            thenSteps: [notifyStep(1, 'update')],
+            elseSteps: [notifyStep(1, 'create')],
+          },
+        },
+      ],
+    });
+
+    const condition = (result.stepResults as any[])[0];
+    expect(condition.result.branch).toBe('then');
+    expect(messagesOf(condition.result.branchResults)).toEqual(['update']);
+  });
+
+  it('should run the else branch when the condition fails', async () => {
+    const result = await testExecuteWorkflow({
+      userId: 123,
+      variables: { contactExists: false },
+      steps: [
+        {
+          type: 'condition',
+          order: 1,
+          config: {
+            type: 'condition',
+            condition: 'contactExists === true',
+            thenSteps: [notifyStep(1, 'update')],
+            elseSteps: [notifyStep(1, 'create')],
+          },
+        },
+      ],
+    });
+
+    const condition = (result.stepResults as any[])[0];
+    expect(condition.result.branch).toBe('else');
+    expect(messagesOf(condition.result.branchResults)).toEqual(['create']);
+  });
+
+  it('should jump to the target step id and skip the steps in between', async () => {
+    const result = await testExecuteWorkflow({
+      userId: 123,
+      variables: { contactExists: true },
+      steps: [
+        { type: 'condition', order: 1, config: { type: 'condition', condition: 'contactExists', thenGoto: 'update' } },
+        notifyStep(2, 'create', 'create'),
+        notifyStep(3, 'update', 'update'),
+      ],
+    });
+
+    expect(result.status).toBe('completed');
+    expect(messagesOf(result.stepResults as any[])).toEqual(['update']);
+  });
+
+  it('should fall through when the taken branch has no jump target', async () => {
+    const result = await testExecuteWorkflow({
+      userId: 123,
+      variables: { contactExists: false },
+      steps: [
+        { type: 'condition', order: 1, config: { type: 'condition', condition: 'contactExists', thenGoto: 'update' } },
+        notifyStep(2, 'create', 'create'),
+        notifyStep(3, 'update', 'update'),
+      ],
+    });
+
+    expect(messagesOf(result.stepResults as any[])).toEqual(['create', 'update']);
+  });
+
+  it('should refuse backward jumps at runtime', async () => {
+    await expect(
+      testExecuteWorkflow({
+        userId: 123,
+        variables: { again: true },
+        steps: [
+          notifyStep(1, 'start', 'start'),
+          { type: 'condition', order: 2, config: { type: 'condition', condition: 'again', thenGoto: 'start' } },
+        ],
+      })
+    ).rejects.toThrow('must come after the current step');
+  });
+});
+
+describe('Step Retry and Resume', () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('fetch', mockFetch);
+    (browserbaseSDK.createSession as any).mockResolvedValue(mockSession);
+    const { Stagehand: StagehandMock } = await import('@browserbasehq/stagehand');
+    (StagehandMock as any).mockImplementation(function () {
+      return mockStagehand;
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const apiResponse = (status: number) => ({
+    status,
+    statusText: String(status),
+    json: async () => ({ status }),
+  });
+
+  const notifyStep = (order: number, message: string): WorkflowStep => ({
+    type: 'notification',
+    order,
+    config: { type: 'notification', message },
+  });
+
+  it('should retry a step on a matching error class', async () => {
+    mockFetch.mockResolvedValueOnce(apiResponse(503)).mockResolvedValueOnce(apiResponse(200));
+
+    const result = await testExecuteWorkflow({
+      userId: 123,
+      steps: [{
+        type: 'apiCall',
+        order: 1,
+        config: { type: 'apiCall', url: 'https://api.example.com/leads', retry: { maxAttempts: 3, delayMs: 1 } },
+      }],
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect((result.stepResults as any[])[0]).toMatchObject({ success: true, attempts: 2, result: { status: 200 } });
+  });
+
+  it('should only retry the error classes the policy lists', async () => {
+    const step = (retryOn?: any[]): WorkflowStep => ({
+      type: 'notification',
+      order: 1,
+      config: { type: 'notification', message: '', retry: { maxAttempts: 3, delayMs: 1, retryOn } },
+    });
+
+    const transientOnly = await testExecuteWorkflow({ userId: 123, steps: [step()] });
+    const anyError = await testExecuteWorkflow({ userId: 123, steps: [step(['any'])] });
+
+    expect((transientOnly.stepResults as any[])[0]).toMatchObject({ success: false, attempts: 1 });
+    expect((anyError.stepResults as any[])[0]).toMatchObject({ success: false, attempts: 3 });
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const policy = { maxAttempts: 5, delayMs: 1000, maxDelayMs: 5000 };
+
+    expect([1, 2, 3, 4].map((attempt) => getStepRetryDelay(policy, attempt))).toEqual([1000, 2000, 4000, 5000]);
+    expect(getStepRetryDelay({ ...policy, backoff: 'fixed' }, 3)).toBe(1000);
+  });
+
+  it('should resume from the checkpoint with its variables', async () => {
+    const steps = [notifyStep(1, 'Found {{name}}'), notifyStep(2, 'Emailing {{name}}')];
+    const failedExecution = {
+      ...mockExecution,
+      status: 'failed',
+      input: { name: 'Original' },
+      stepResults: [{ stepIndex: 0, type: 'notification', success: true }],
+      checkpoint: { nextStepIndex: 1, stepCount: 2, variables: { name: 'Ann' }, extractedData: [] },
+    };
+
+    const db: any = {};
+    for (const method of ['select', 'from', 'where', 'limit', 'update', 'set', 'insert', 'values']) {
+      db[method] = vi.fn(() => db);
+    }
+    db.returning = vi.fn()
+      .mockResolvedValueOnce([failedExecution])
+      .mockResolvedValueOnce([mockBrowserSession]);
+    (getDb as any).mockResolvedValue(db);
+    (cacheService.getOrSet as any).mockResolvedValue({ ...mockWorkflow, steps });
+
+    const result = await executeWorkflow({ workflowId: 1, userId: 123, executionId: 1, resume: true });
+
+    expect(result.status).toBe('completed');
+    expect(db.set).toHaveBeenNthCalledWith(1, expect.objectContaining({ status: 'running', error: null }));
+    expect(result.stepResults).toHaveLength(2);
+    expect((result.stepResults as any[])[1]).toMatchObject({
+      stepIndex: 1,
+      result: { message: 'Emailing Ann' },
+    });
+  });
+
+  it('should not resume an execution whose steps changed', async () => {
+    const db: any = {};
+    for (const method of ['select', 'from', 'where', 'update', 'set']) {
+      db[method] = vi.fn(() => db);
+    }
+    db.returning = vi.fn().mockResolvedValueOnce([{
+      ...mockExecution,
+      checkpoint: { nextStepIndex: 1, stepCount: 3, variables: {}, extractedData: [] },
+    }]);
+    (getDb as any).mockResolvedValue(db);
+    (cacheService.getOrSet as any).mockResolvedValue({ ...mockWorkflow, steps: [notifyStep(1, 'Hi')] });
+
+    await expect(executeWorkflow({ workflowId: 1, userId: 123, executionId: 1, resume: true }))
+      .rejects.toThrow('Workflow steps changed since this execution ran');
+  });
+});
+
 describe('Step Handlers - HTTP/API', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -0,0 +1,117 @@
+/**
+ * Workflow Recovery Service Tests
+ * Covers resuming orphaned executions from their checkpoint and failing the
+ * ones that can't be resumed
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockDb, mockGetDb, mockAddJob, mockExecuteWorkflow } = vi.hoisted(() => {
+  const chain: any = {};
+  for (const method of ["select", "from", "where", "update", "set"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.limit = vi.fn();
+  chain.returning = vi.fn();
+
+  return {
+    mockDb: chain,
+    mockGetDb: vi.fn(),
+    mockAddJob: vi.fn(),
+    mockExecuteWorkflow: vi.fn(),
+  };
+});
+
+vi.mock("../db", () => ({
+  getDb: mockGetDb,
+}));
+
+vi.mock("../_core/queue", () => ({
+  addWorkflowExecutionJob: mockAddJob,
+}));
+
+vi.mock("./workflowExecution.service", () => ({
+  executeWorkflow: mockExecuteWorkflow,
+}));
+
+vi.mock("../lib/logger", () => ({
+  serviceLoggers: { workflow: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } },
+}));
+
+import { WorkflowRecoveryService, ORPHANED_EXECUTION_ERROR } from "./workflowRecovery.service";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const makeExecution = (overrides: Record<string, unknown> = {}) => ({
+  id: 42,
+  workflowId: 7,
+  userId: 1,
+  status: "running",
+  checkpoint: { nextStepIndex: 2, stepCount: 4, variables: { name: "Ann" }, extractedData: [] },
+  heartbeatAt: new Date(Date.now() - 10 * 60 * 1000),
+  resumeCount: 0,
+  ...overrides,
+});
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Workflow Recovery Service", () => {
+  let service: WorkflowRecoveryService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetDb.mockResolvedValue(mockDb);
+    mockDb.returning.mockResolvedValue([{ id: 42 }]);
+    mockAddJob.mockResolvedValue({ id: "workflow-resume-42-1" });
+    mockExecuteWorkflow.mockResolvedValue({ status: "completed" });
+    service = new WorkflowRecoveryService({ staleAfterMs: 120000, maxResumes: 3 });
+  });
+
+  it("should requeue an orphaned execution to resume from its checkpoint", async () => {
+    mockDb.limit.mockResolvedValueOnce([makeExecution()]);
+
+    const result = await service.sweep();
+
+    expect(result).toEqual({ resumed: [42], failed: [] });
+    expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ status: "pending" }));
+    expect(mockAddJob).toHaveBeenCalledWith(
+      { userId: "1", workflowId: "7", executionId: "42", triggerId: "recovery-42", resume: true },
+      { jobId: "workflow-resume-42-1" }
+    );
+  });
+
+  it("should resume in process without a queue", async () => {
+    mockDb.limit.mockResolvedValueOnce([makeExecution()]);
+    mockAddJob.mockResolvedValueOnce(null);
+
+    await service.sweep();
+
+    expect(mockExecuteWorkflow).toHaveBeenCalledWith({ workflowId: 7, userId: 1, executionId: 42, resume: true });
+  });
+
+  it("should fail orphans that used up their resumes", async () => {
+    mockDb.limit.mockResolvedValueOnce([makeExecution({ resumeCount: 3 })]);
+
+    const result = await service.sweep();
+
+    expect(result).toEqual({ resumed: [], failed: [42] });
+    expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ status: "failed", error: ORPHANED_EXECUTION_ERROR }));
+    expect(mockAddJob).not.toHaveBeenCalled();
+  });
+
+  it("should skip executions another sweep already claimed", async () => {
+    mockDb.limit.mockResolvedValueOnce([makeExecution()]);
+    mockDb.returning.mockResolvedValueOnce([]);
+
+    await expect(service.sweep()).resolves.toEqual({ resumed: [], failed: [] });
+    expect(mockAddJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Workflow Recovery Service
+ * Sweeps workflow executions left `running` by a process that stopped
+ * (crash, deploy, restart) and resumes them from their last checkpoint
+ *
+ * An execution is orphaned once its heartbeat is older than
+ * WORKFLOW_STALE_EXECUTION_MS. Orphans with a checkpoint are requeued with
+ * `resume` up to WORKFLOW_MAX_RESUMES times; the rest are marked failed so
+ * they can be resumed by hand.
+ */
+
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { getDb } from "../db";
+import { workflowExecutions, type WorkflowExecution } from "../../drizzle/schema";
+import { addWorkflowExecutionJob } from "../_core/queue";
+import { executeWorkflow } from "./workflowExecution.service";
+import { serviceLoggers } from "../lib/logger";
+
+const logger = serviceLoggers.workflow;
+
+const SWEEP_BATCH_SIZE = 100;
+
+export const ORPHANED_EXECUTION_ERROR = "Execution was interrupted: the process running it stopped responding";
+
+// ========================================
+// TYPES
+// ========================================
+
+export interface WorkflowRecoveryOptions {
+  staleAfterMs: number;
+  maxResumes: number;
+}
+
+export interface WorkflowRecoveryResult {
+  resumed: number[];
+  failed: number[];
+}
+
+// ========================================
+// WORKFLOW RECOVERY SERVICE
+// ========================================
+
+export class WorkflowRecoveryService {
+  private intervalId: NodeJS.Timeout | null = null;
+  private options: WorkflowRecoveryOptions;
+
+  constructor(options: Partial<WorkflowRecoveryOptions> = {}) {
+    this.options = {
+      staleAfterMs: parseInt(process.env.WORKFLOW_STALE_EXECUTION_MS || "120000"),
+      maxResumes: parseInt(process.env.WORKFLOW_MAX_RESUMES || "3"),
+      ...options,
+    };
+  }
+
+  /**
+   * Sweep immediately, then on an interval
+   * Runs keep checking after startup because a run only looks orphaned once
+   * its heartbeat has gone stale
+   */
+  start(intervalMs: number = 60000): void {
+    if (this.intervalId) {
+      return;
+    }
+
+    logger.info({ intervalMs, ...this.options }, "Starting workflow recovery sweep");
+
+    const sweep = () => {
+      this.sweep().catch((error) => logger.error({ err: error }, "Workflow recovery sweep failed"));
+    };
+
+    sweep();
+    this.intervalId = setInterval(sweep, intervalMs);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Resume or fail every orphaned execution
+   */
+  async sweep(): Promise<WorkflowRecoveryResult> {
+    const result: WorkflowRecoveryResult = { resumed: [], failed: [] };
+
+    const db = await getDb();
+    if (!db) {
+      return result;
+    }
+
+    const orphans = await db
+      .select()
+      .from(workflowExecutions)
+      .where(this.orphanedCondition())
+      .limit(SWEEP_BATCH_SIZE);
+
+    for (const execution of orphans) {
+      const resumable = Boolean(execution.checkpoint) && execution.resumeCount < this.options.maxResumes;
+
+      // Claim with a conditional update so concurrent sweeps don't both act on a run
+      const [claimed] = await db
+        .update(workflowExecutions)
+        .set(resumable
+          ? { status: "pending", heartbeatAt: new Date(), updatedAt: new Date() }
+          : { status: "failed", error: ORPHANED_EXECUTION_ERROR, completedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(workflowExecutions.id, execution.id), this.orphanedCondition()))
+        .returning({ id: workflowExecutions.id });
+
+      if (!claimed) {
+        continue;
+      }
+
+      if (resumable && (await this.requeue(execution))) {
+        result.resumed.push(execution.id);
+      } else {
+        result.failed.push(execution.id);
+      }
+    }
+
+    if (orphans.length > 0) {
+      logger.warn({ ...result }, "Recovered orphaned workflow executions");
+    }
+
+    return result;
+  }
+
+  private orphanedCondition() {
+    const staleBefore = new Date(Date.now() - this.options.staleAfterMs);
+
+    return and(
+      eq(workflowExecutions.status, "running"),
+      or(
+        lt(workflowExecutions.heartbeatAt, staleBefore),
+        and(isNull(workflowExecutions.heartbeatAt), lt(workflowExecutions.updatedAt, staleBefore))
+      )
+    );
+  }
+
+  /**
+   * Queue the execution to resume from its checkpoint, or resume it in
+   * process when no queue is available. Marks it failed if neither works.
+   */
+  private async requeue(execution: WorkflowExecution): Promise<boolean> {
+    try {
+      const job = await addWorkflowExecutionJob(
+        {
+          userId: String(execution.userId),
+          workflowId: String(execution.workflowId),
+          executionId: String(execution.id),
+          triggerId: `recovery-${execution.id}`,
+          resume: true,
+        },
+        { jobId: `workflow-resume-${execution.id}-${execution.resumeCount + 1}` }
+      );
+
+      if (!job) {
+        executeWorkflow({
+          workflowId: execution.workflowId,
+          userId: execution.userId,
+          executionId: execution.id,
+          resume: true,
+        }).catch((error) => {
+          logger.error({ err: error, executionId: execution.id }, "Resumed workflow execution failed");
+        });
+      }
+
+      return true;
+    } catch (error) {
+      logger.error({ err: error, executionId: execution.id }, "Failed to requeue orphaned workflow execution");
+
+      const db = await getDb();
+      await db
+        ?.update(workflowExecutions)
+        .set({ status: "failed", error: ORPHANED_EXECUTION_ERROR, completedAt: new Date(), updatedAt: new Date() })
+        .where(eq(workflowExecutions.id, execution.id));
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const workflowRecoveryService = new WorkflowRecoveryService();
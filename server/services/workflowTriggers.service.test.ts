@@ -0,0 +1,247 @@
+/**
+ * Workflow Triggers Service Tests
+ * Covers signed webhook triggers, event dispatch with filters and the
+ * in-process fallback when the queue is unavailable
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockDb, mockGetDb, mockAddJob, mockExecuteWorkflow, mockNotify } = vi.hoisted(() => {
+  const chain: any = {};
+  for (const method of ["select", "from", "where", "insert", "values"]) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.limit = vi.fn();
+  chain.returning = vi.fn();
+
+  return {
+    mockDb: chain,
+    mockGetDb: vi.fn(),
+    mockAddJob: vi.fn(),
+    mockExecuteWorkflow: vi.fn(),
+    mockNotify: vi.fn(),
+  };
+});
+
+vi.mock("../db", () => ({
+  getDb: mockGetDb,
+}));
+
+vi.mock("../_core/queue", () => ({
+  addWorkflowExecutionJob: mockAddJob,
+}));
+
+vi.mock("./workflowExecution.service", () => ({
+  executeWorkflow: mockExecuteWorkflow,
+}));
+
+vi.mock("./messageProcessing.service", () => ({
+  messageProcessingService: { notifyWorkflowOutcome: mockNotify },
+}));
+
+vi.mock("../lib/logger", () => ({
+  serviceLoggers: { workflow: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } },
+}));
+
+import {
+  WorkflowTriggerService,
+  queueWorkflowRun,
+  signWorkflowWebhookPayload,
+  WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS,
+  validateEventFilter,
+  buildLeadEnrichedPayload,
+} from "./workflowTriggers.service";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const SECRET = "a".repeat(64);
+
+const makeWorkflow = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  userId: 1,
+  name: "Follow up",
+  isActive: true,
+  trigger: "webhook",
+  triggerConfig: { secret: SECRET },
+  webhookToken: "token-1",
+  ...overrides,
+});
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Workflow Triggers Service", () => {
+  let service: WorkflowTriggerService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetDb.mockResolvedValue(mockDb);
+    mockDb.where.mockImplementation(() => mockDb);
+    mockDb.returning.mockResolvedValue([{ id: 42 }]);
+    mockAddJob.mockResolvedValue({ id: "workflow-execution-42" });
+    service = new WorkflowTriggerService();
+  });
+
+  // ========================================
+  // WEBHOOK TRIGGER TESTS
+  // ========================================
+
+  describe("handleWebhook", () => {
+    const signedRequest = (body: string, secret = SECRET, timestamp = String(Math.floor(Date.now() / 1000))) => ({
+      rawBody: Buffer.from(body),
+      timestamp,
+      signature: signWorkflowWebhookPayload(secret, timestamp, body),
+    });
+
+    it("should queue a run with the payload as variables", async () => {
+      const body = '{"email": "jane@acme.com", "plan": "pro"}';
+      const payload = JSON.parse(body);
+      mockDb.limit.mockResolvedValueOnce([makeWorkflow()]);
+
+      const result = await service.handleWebhook("token-1", payload, signedRequest(body));
+
+      expect(result).toEqual({ success: true, executionId: 42 });
+      expect(mockDb.values).toHaveBeenCalledWith({ workflowId: 7, userId: 1, status: "pending", input: payload });
+      expect(mockAddJob).toHaveBeenCalledWith(
+        expect.objectContaining({ workflowId: "7", executionId: "42", triggerId: "webhook-7", context: payload }),
+        { jobId: "workflow-execution-42" }
+      );
+    });
+
+    it("should reject a bad signature", async () => {
+      const body = '{"email":"jane@acme.com"}';
+      mockDb.limit.mockResolvedValueOnce([makeWorkflow()]);
+
+      const result = await service.handleWebhook("token-1", JSON.parse(body), signedRequest(body, "wrong"));
+
+      expect(result).toMatchObject({ success: false, statusCode: 401 });
+      expect(mockAddJob).not.toHaveBeenCalled();
+    });
+
+    it("should only accept signatures over the raw body as received", async () => {
+      const body = '{"email": "jane@acme.com"}';
+      const payload = JSON.parse(body);
+      const reserialized = signedRequest(JSON.stringify(payload));
+      mockDb.limit.mockResolvedValueOnce([makeWorkflow()]);
+
+      const result = await service.handleWebhook("token-1", payload, { ...reserialized, rawBody: Buffer.from(body) });
+
+      expect(result).toMatchObject({ success: false, statusCode: 401 });
+    });
+
+    it("should reject requests with a stale or missing timestamp", async () => {
+      const body = '{"email":"jane@acme.com"}';
+      const stale = String(Math.floor(Date.now() / 1000) - WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS - 60);
+
+      for (const request of [signedRequest(body, SECRET, stale), { ...signedRequest(body), timestamp: undefined }]) {
+        mockDb.limit.mockResolvedValueOnce([makeWorkflow()]);
+        const result = await service.handleWebhook("token-1", JSON.parse(body), request);
+        expect(result).toMatchObject({ success: false, statusCode: 401 });
+      }
+      expect(mockAddJob).not.toHaveBeenCalled();
+    });
+
+    it("should not run inactive workflows", async () => {
+      const body = '{"email":"jane@acme.com"}';
+      mockDb.limit.mockResolvedValueOnce([makeWorkflow({ isActive: false })]);
+
+      const result = await service.handleWebhook("token-1", JSON.parse(body), signedRequest(body));
+
+      expect(result).toMatchObject({ success: false, statusCode: 403, error: "Workflow is inactive" });
+    });
+  });
+
+  // ========================================
+  // EVENT TRIGGER TESTS
+  // ========================================
+
+  describe("dispatch", () => {
+    it("should queue subscribed workflows whose filter matches", async () => {
+      mockDb.where.mockResolvedValueOnce([
+        makeWorkflow({ id: 1, trigger: "event", triggerConfig: { event: "call.completed", filter: 'outcome == "interested"' } }),
+        makeWorkflow({ id: 2, trigger: "event", triggerConfig: { event: "call.completed", filter: "duration > 600" } }),
+        makeWorkflow({ id: 3, trigger: "event", triggerConfig: { event: "task.failed" } }),
+        makeWorkflow({ id: 4, trigger: "event", triggerConfig: { event: "call.completed" } }),
+      ]);
+
+      const executionIds = await service.dispatch(1, "call.completed", { callId: 5, outcome: "interested", duration: 90 });
+
+      expect(executionIds).toHaveLength(2);
+      expect(mockAddJob.mock.calls.map(([job]) => job.workflowId)).toEqual(["1", "4"]);
+      expect(mockAddJob.mock.calls[0][0].context).toEqual({
+        callId: 5,
+        outcome: "interested",
+        duration: 90,
+        triggerEvent: "call.completed",
+      });
+    });
+
+    it("should skip workflows whose filter fails to evaluate", async () => {
+      mockDb.where.mockResolvedValueOnce([
+        makeWorkflow({ trigger: "event", triggerConfig: { event: "email.received", filter: "subject ==" } }),
+      ]);
+
+      await expect(service.dispatch(1, "email.received", { subject: "Hi" })).resolves.toEqual([]);
+      expect(mockAddJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("buildLeadEnrichedPayload", () => {
+    it("should publish the same fields for lead rows and enrichment job leads", () => {
+      const enrichedData = { industry: "SaaS" };
+      const row = { id: 11, listId: 3, rawData: { email: "jane@acme.com" }, enrichmentStatus: "enriched" };
+      const jobLead = { id: "11", listId: 3, rawData: { email: "jane@acme.com" }, email: "jane@acme.com" };
+
+      const expected = { leadId: 11, listId: 3, lead: { email: "jane@acme.com" }, enrichedData };
+      expect(buildLeadEnrichedPayload(row, enrichedData)).toEqual(expected);
+      expect(buildLeadEnrichedPayload(jobLead, enrichedData)).toEqual(expected);
+    });
+  });
+
+  describe("validateEventFilter", () => {
+    it("should accept valid expressions and report invalid ones", () => {
+      expect(validateEventFilter('enrichedData.industry == "SaaS" && listId == 3')).toBeUndefined();
+      expect(validateEventFilter("subject ==")).toEqual(expect.any(String));
+    });
+  });
+
+  // ========================================
+  // QUEUE FALLBACK TESTS
+  // ========================================
+
+  describe("queueWorkflowRun", () => {
+    it("should run in process and notify the conversation without a queue", async () => {
+      mockAddJob.mockResolvedValueOnce(null);
+      mockExecuteWorkflow.mockResolvedValueOnce({ status: "completed", stepResults: [{}] });
+
+      const result = await queueWorkflowRun({
+        userId: 1,
+        workflowId: 7,
+        variables: { target: "Acme" },
+        triggerId: "message-9",
+        conversationId: 5,
+        messageId: 9,
+      });
+
+      expect(result).toEqual({ executionId: 42, queued: false });
+      await vi.waitFor(() => expect(mockNotify).toHaveBeenCalled());
+      expect(mockExecuteWorkflow).toHaveBeenCalledWith({
+        workflowId: 7,
+        userId: 1,
+        variables: { target: "Acme" },
+        executionId: 42,
+      });
+      expect(mockNotify).toHaveBeenCalledWith(
+        expect.objectContaining({ conversationId: "5", messageId: "9" }),
+        expect.objectContaining({ executionId: 42, status: "completed", stepsCompleted: 1 })
+      );
+    });
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Workflow Triggers Service
+ * Starts automation workflows from outside the app and from internal events
+ *
+ * - webhook: each workflow gets an inbound URL for timestamped, signed
+ *   requests; the JSON payload becomes the run's variables
+ * - event: workflows subscribe to internal events (lead enriched, call
+ *   completed, task failed, email received) with an optional filter
+ *   expression evaluated by evaluateExpression
+ *
+ * Runs are queued on the workflow queue, or started in this process when
+ * Redis isn't configured.
+ */
+
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import { and, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { automationWorkflows, workflowExecutions } from "../../drizzle/schema";
+import { addWorkflowExecutionJob, type WorkflowExecutionJobData } from "../_core/queue";
+import { evaluateExpression, validateExpression } from "../lib/safeExpressionParser";
+import { executeWorkflow } from "./workflowExecution.service";
+import { serviceLoggers } from "../lib/logger";
+
+const logger = serviceLoggers.workflow;
+
+// ========================================
+// TYPES
+// ========================================
+
+export const WORKFLOW_TRIGGERS = ["manual", "scheduled", "webhook", "event"] as const;
+
+export type WorkflowTrigger = typeof WORKFLOW_TRIGGERS[number];
+
+export const WORKFLOW_EVENTS = [
+  "lead.enriched",
+  "call.completed",
+  "task.failed",
+  "email.received",
+] as const;
+
+export type WorkflowEventName = typeof WORKFLOW_EVENTS[number];
+
+export const WORKFLOW_EVENT_DESCRIPTIONS: Record<WorkflowEventName, string> = {
+  "lead.enriched": "A lead finished enrichment (leadId, listId, lead, enrichedData)",
+  "call.completed": "An AI call completed (callId, campaignId, phoneNumber, duration, outcome, transcript)",
+  "task.failed": "An agency task failed after its last retry (taskId, title, taskType, error, attempts)",
+  "email.received": "An email arrived on an inbound webhook (webhookId, messageId, from, to, subject, body)",
+};
+
+/**
+ * Lead fields the lead.enriched event is built from: an enrichedLeads row,
+ * or a lead from an enrichment job
+ */
+export interface EnrichedLeadSource {
+  id: number | string;
+  listId?: number | null;
+  rawData?: unknown;
+}
+
+/**
+ * Stored in automationWorkflows.triggerConfig
+ */
+export interface WorkflowTriggerConfig {
+  // webhook
+  secret?: string;
+  // event
+  event?: WorkflowEventName;
+  filter?: string;
+}
+
+export interface QueueWorkflowRunOptions {
+  userId: number;
+  workflowId: number;
+  variables?: Record<string, unknown>;
+  triggerId: string;
+  conversationId?: number; // Bot conversation to notify when the run finishes
+  messageId?: number;
+}
+
+/**
+ * What a workflow webhook request was signed with
+ */
+export interface WorkflowWebhookRequest {
+  rawBody?: Buffer;
+  signature?: string;
+  timestamp?: string;
+}
+
+export interface WorkflowWebhookResult {
+  success: boolean;
+  executionId?: number;
+  error?: string;
+  statusCode?: number;
+}
+
+type AutomationWorkflow = typeof automationWorkflows.$inferSelect;
+
+// ========================================
+// WEBHOOK CREDENTIALS
+// ========================================
+
+/**
+ * Mint the inbound token and signing secret for a webhook-triggered workflow
+ */
+export function createWebhookTriggerCredentials(): { webhookToken: string; secret: string } {
+  return {
+    webhookToken: crypto.randomUUID(),
+    secret: crypto.randomBytes(32).toString("hex"),
+  };
+}
+
+/**
+ * Public URL a webhook-triggered workflow receives payloads on
+ */
+export function getWorkflowWebhookUrl(webhookToken: string): string {
+  const baseUrl = (process.env.APP_URL || "").replace(/\/$/, "");
+  return `${baseUrl}/api/webhooks/workflows/${webhookToken}`;
+}
+
+// Signed webhook requests whose timestamp is further than this from now are rejected
+export const WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<raw body>", sent as X-Webhook-Signature (hex)
+ * with the Unix timestamp in seconds as X-Webhook-Timestamp
+ */
+export function signWorkflowWebhookPayload(secret: string, timestamp: string | number, rawBody: string | Buffer): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.`).update(rawBody).digest("hex");
+}
+
+function isValidSignature(
+  secret: string,
+  request: WorkflowWebhookRequest,
+  now: number = Date.now()
+): boolean {
+  const { rawBody, signature, timestamp } = request;
+  if (!rawBody || !signature || !timestamp || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(now / 1000 - Number(timestamp)) > WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS) return false;
+
+  const expected = signWorkflowWebhookPayload(secret, timestamp, rawBody);
+  try {
+    return crypto.timingSafeEqual(Buffer.from(signature, "hex"), Buffer.from(expected, "hex"));
+  } catch {
+    // Different lengths
+    return false;
+  }
+}
+
+/**
+ * Payload of the lead.enriched event
+ * Every enrichment path publishes through this so workflow filters and
+ * variables see the same fields
+ */
+export function buildLeadEnrichedPayload(
+  lead: EnrichedLeadSource,
+  enrichedData: unknown
+): Record<string, unknown> {
+  return {
+    leadId: Number(lead.id),
+    listId: lead.listId ?? null,
+    lead: lead.rawData ?? null,
+    enrichedData,
+  };
+}
+
+/**
+ * Check a filter expression parses before saving it
+ */
+export function validateEventFilter(filter: string): string | undefined {
+  return validateExpression(filter);
+}
+
+// ========================================
+// RUN QUEUEING
+// ========================================
+
+/**
+ * Create a pending execution and queue the run
+ * Without Redis the run starts in the background in this process.
+ * Returns the execution ID right away.
+ */
+export async function queueWorkflowRun(options: QueueWorkflowRunOptions): Promise<{ executionId: number; queued: boolean }> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not initialized");
+  }
+
+  const variables = options.variables || {};
+
+  const [execution] = await db
+    .insert(workflowExecutions)
+    .values({
+      workflowId: options.workflowId,
+      userId: options.userId,
+      status: "pending",
+      input: variables,
+    })
+    .returning();
+
+  const jobData: WorkflowExecutionJobData = {
+    userId: String(options.userId),
+    workflowId: String(options.workflowId),
+    triggerId: options.triggerId,
+    context: variables,
+    executionId: String(execution.id),
+    conversationId: options.conversationId ? String(options.conversationId) : undefined,
+    messageId: options.messageId ? String(options.messageId) : undefined,
+  };
+
+  const job = await addWorkflowExecutionJob(jobData, { jobId: `workflow-execution-${execution.id}` });
+  if (job) {
+    return { executionId: execution.id, queued: true };
+  }
+
+  // Queue unavailable - run here and report back like the worker would
+  void executeWorkflow({
+    workflowId: options.workflowId,
+    userId: options.userId,
+    variables,
+    executionId: execution.id,
+  })
+    .then((result) => ({
+      status: result.status === "completed" ? "completed" as const : "failed" as const,
+      error: result.error,
+      stepsCompleted: result.stepResults?.length,
+    }))
+    .catch((error) => ({
+      status: "failed" as const,
+      error: error instanceof Error ? error.message : "Unknown error",
+      stepsCompleted: undefined,
+    }))
+    .then(async (outcome) => {
+      if (!options.conversationId) return;
+      // Imported lazily: message processing queues runs through this service
+      const { messageProcessingService } = await import("./messageProcessing.service");
+      await messageProcessingService.notifyWorkflowOutcome(jobData, {
+        executionId: execution.id,
+        workflowId: options.workflowId,
+        ...outcome,
+      });
+    })
+    .catch((error) => {
+      logger.error({ err: error, executionId: execution.id }, "Failed to report in-process workflow run");
+    });
+
+  return { executionId: execution.id, queued: false };
+}
+
+// ========================================
+// WORKFLOW TRIGGER SERVICE
+// ========================================
+
+export class WorkflowTriggerService extends EventEmitter {
+  constructor() {
+    super();
+    this.setMaxListeners(100);
+  }
+
+  /**
+   * Handle a payload posted to a workflow's inbound webhook
+   * The signature must cover the timestamp and the raw body as received
+   */
+  async handleWebhook(
+    webhookToken: string,
+    payload: unknown,
+    request: WorkflowWebhookRequest
+  ): Promise<WorkflowWebhookResult> {
+    const db = await getDb();
+    if (!db) {
+      return { success: false, error: "Database not initialized", statusCode: 500 };
+    }
+
+    const [workflow] = await db
+      .select()
+      .from(automationWorkflows)
+      .where(and(
+        eq(automationWorkflows.webhookToken, webhookToken),
+        eq(automationWorkflows.trigger, "webhook")
+      ))
+      .limit(1);
+
+    if (!workflow) {
+      return { success: false, error: "Workflow not found", statusCode: 404 };
+    }
+
+    const config = (workflow.triggerConfig || {}) as WorkflowTriggerConfig;
+    if (!config.secret || !isValidSignature(config.secret, request)) {
+      return { success: false, error: "Authentication failed", statusCode: 401 };
+    }
+
+    if (!workflow.isActive) {
+      return { success: false, error: "Workflow is inactive", statusCode: 403 };
+    }
+
+    if (!payload || typeof payload !== "object") {
+      return { success: false, error: "Payload must be a JSON object or array", statusCode: 400 };
+    }
+
+    // Objects map field-for-field onto variables; arrays are exposed as `payload`
+    const variables = Array.isArray(payload) ? { payload } : payload as Record<string, unknown>;
+
+    const { executionId } = await queueWorkflowRun({
+      userId: workflow.userId,
+      workflowId: workflow.id,
+      variables,
+      triggerId: `webhook-${workflow.id}`,
+    });
+
+    logger.info({ workflowId: workflow.id, executionId }, "Workflow triggered by webhook");
+    return { success: true, executionId };
+  }
+
+  /**
+   * Publish an internal event
+   * Listeners are notified synchronously; matching workflows are queued in
+   * the background so the caller never waits on (or fails because of) them.
+   */
+  publish(userId: number, event: WorkflowEventName, payload: Record<string, unknown>): void {
+    this.emit(event, { userId, payload });
+
+    this.dispatch(userId, event, payload).catch((error) => {
+      logger.error({ err: error, userId, event }, "Failed to dispatch workflow event");
+    });
+  }
+
+  /**
+   * Queue every active workflow of the user subscribed to the event whose
+   * filter matches the payload
+   */
+  async dispatch(
+    userId: number,
+    event: WorkflowEventName,
+    payload: Record<string, unknown>
+  ): Promise<number[]> {
+    const db = await getDb();
+    if (!db) return [];
+
+    const subscribed = await db
+      .select()
+      .from(automationWorkflows)
+      .where(and(
+        eq(automationWorkflows.userId, userId),
+        eq(automationWorkflows.trigger, "event"),
+        eq(automationWorkflows.isActive, true)
+      ));
+
+    const executionIds: number[] = [];
+
+    for (const workflow of subscribed) {
+      if (!this.matches(workflow, event, payload)) continue;
+
+      const { executionId } = await queueWorkflowRun({
+        userId,
+        workflowId: workflow.id,
+        variables: { ...payload, triggerEvent: event },
+        triggerId: `event-${event}`,
+      });
+
+      logger.info({ workflowId: workflow.id, executionId, event }, "Workflow triggered by event");
+      executionIds.push(executionId);
+    }
+
+    return executionIds;
+  }
+
+  /**
+   * Whether an event workflow should run for this event
+   * Filters see the payload fields directly plus `event` and `payload`
+   */
+  private matches(workflow: AutomationWorkflow, event: WorkflowEventName, payload: Record<string, unknown>): boolean {
+    const config = (workflow.triggerConfig || {}) as WorkflowTriggerConfig;
+    if (config.event !== event) return false;
+    if (!config.filter?.trim()) return true;
+
+    const result = evaluateExpression(config.filter, { ...payload, event, payload });
+    if (!result.success) {
+      logger.warn({ workflowId: workflow.id, error: result.error }, "Workflow event filter failed to evaluate");
+      return false;
+    }
+    return result.result;
+  }
+}
+
+// Export singleton instance
+export const workflowTriggerService = new WorkflowTriggerService();
@@ -291,6 +291,10 @@ export interface StepResult {
   success: boolean;
   result?: unknown;
   error?: string;
+  /** Id of the step to jump to next instead of falling through */
+  nextStepId?: string;
+  /** Attempts made when the step has a retry policy */
+  attempts?: number;
 }
 
 // ========================================
@@ -309,11 +313,36 @@ export type WorkflowStepType =
   | 'notification';
 
 export interface WorkflowStep {
+  /** Stable identifier used as a jump target by condition steps */
+  id?: string;
   type: WorkflowStepType;
   order: number;
   config: WorkflowStepConfig;
 }
 
+/**
+ * Error classes a step retry policy can retry on
+ * - network: connection, DNS and fetch failures
+ * - timeout: step, page load and script timeouts
+ * - rateLimit: 429 / rate limit responses
+ * - server: 5xx responses
+ * - element: element not found, not interactable or stale
+ * - any: every failure
+ */
+export type StepRetryErrorClass = 'network' | 'timeout' | 'rateLimit' | 'server' | 'element' | 'any';
+
+export interface StepRetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  backoff?: 'fixed' | 'exponential';
+  /** Delay before the first retry (default 1000ms) */
+  delayMs?: number;
+  /** Upper bound on the backoff delay (default 60000ms) */
+  maxDelayMs?: number;
+  /** Defaults to network, timeout, rateLimit and server */
+  retryOn?: StepRetryErrorClass[];
+}
+
 export type WorkflowStepConfig =
   | NavigateStepConfig
   | ActStepConfig
@@ -330,6 +359,7 @@ export interface NavigateStepConfig {
   url: string;
   saveAs?: string;
   continueOnError?: boolean;
+  retry?: StepRetryPolicy;
 }
 
 export interface ActStepConfig {
@@ -337,6 +367,7 @@ export interface ActStepConfig {
   instruction: string;
   saveAs?: string;
   continueOnError?: boolean;
+  retry?: StepRetryPolicy;
 }
 
 export interface ObserveStepConfig {
@@ -344,6 +375,7 @@ export interface ObserveStepConfig {
   observeInstruction: string;
   saveAs?: string;
   continueOnError?: boolean;
+  retry?: StepRetryPolicy;
 }
 
 export interface ExtractStepConfig {
@@ -352,6 +384,7 @@ export interface ExtractStepConfig {
   schemaType?: 'contactInfo' | 'productInfo' | 'custom';
   saveAs?: string;
   continueOnError?: boolean;
+  retry?: StepRetryPolicy;
 }
 
 export interface WaitStepConfig {
@@ -360,20 +393,46 @@ export interface WaitStepConfig {
   selector?: string;
   saveAs?: string;
   continueOnError?: boolean;
+  retry?: StepRetryPolicy;
 }
 
 export interface ConditionStepConfig {
   type: 'condition';
   condition: string;
+  /** Steps run inline when the condition passes */
+  thenSteps?: WorkflowStep[];
+  /** Steps run inline when the condition fails */
+  elseSteps?: WorkflowStep[];
+  /** Id of a later sibling step to jump to when the condition passes */
+  thenGoto?: string;
+  /** Id of a later sibling step to jump to when the condition fails */
+  elseGoto?: string;
   saveAs?: string;
   continueOnError?: boolean;
+  retry?: StepRetryPolicy;
 }
 
 export interface LoopStepConfig {
   type: 'loop';
-  items: unknown[];
+  /** Literal array, or a `{{variable}}` reference resolving to an array */
+  items: unknown[] | string;
+  /** Child steps executed once per item */
+  steps?: WorkflowStep[];
+  /** Extra variable name bound to the current item (alongside `__loopItem`) */
+  itemVariable?: string;
+  /** Extra variable name bound to the current index (alongside `__loopIndex`) */
+  indexVariable?: string;
+  /** Stop the loop when this expression is true for the current item */
+  breakCondition?: string;
+  /** Skip the current item when this expression is true */
+  continueCondition?: string;
+  /** Only process the first N items */
+  maxIterations?: number;
+  /** Number of iterations run at once; values > 1 only allow non-browser child steps */
+  concurrency?: number;
   saveAs?: string;
   continueOnError?: boolean;
+  retry?: StepRetryPolicy;
 }
 
 export interface ApiCallStepConfig {
@@ -384,6 +443,7 @@ export interface ApiCallStepConfig {
   body?: unknown;
   saveAs?: string;
   continueOnError?: boolean;
+  retry?: StepRetryPolicy;
 }
 
 export interface NotificationStepConfig {
@@ -392,6 +452,7 @@ export interface NotificationStepConfig {
   notificationType?: NotificationType;
   saveAs?: string;
   continueOnError?: boolean;
+  retry?: StepRetryPolicy;
 }
 
 // ========================================
@@ -411,6 +472,7 @@ export interface ExecutionContext {
     success: boolean;
     result?: unknown;
     error?: string;
+    attempts?: number;
     timestamp: Date;
   }>;
   extractedData: Array<{
@@ -441,6 +503,20 @@ export interface ExecuteWorkflowOptions {
     state?: string;
     country?: string;
   };
+  executionId?: number; // Pending execution record created when the run was queued
+  resume?: boolean; // Continue executionId from its last checkpoint instead of starting over
+}
+
+/**
+ * Saved after every completed step so an execution can resume from the
+ * step that failed or was interrupted
+ */
+export interface WorkflowCheckpoint {
+  nextStepIndex: number;
+  stepCount: number;
+  variables: Record<string, unknown>;
+  extractedData: ExecutionContext["extractedData"];
+  savedAt: string;
 }
 
 // ========================================
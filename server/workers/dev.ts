@@ -9,9 +9,10 @@ import { createEmailWorker } from "./emailWorker";
 import { createVoiceWorker } from "./voiceWorker";
 import { createEnrichmentWorker } from "./enrichmentWorker";
 import { createWorkflowWorker } from "./workflowWorker";
-import { Worker } from "bullmq";
+import { createMemoryWorker } from "./memoryCleanup.worker";
+import type { QueueWorker } from "./utils";
 
-let workers: Worker[] = [];
+let workers: QueueWorker[] = [];
 
 export async function startDevelopmentWorkers() {
     console.log("Initializing development workers...");
@@ -22,12 +23,13 @@ export async function startDevelopmentWorkers() {
         const voiceWorker = createVoiceWorker();
         const enrichmentWorker = createEnrichmentWorker();
         const workflowWorker = createWorkflowWorker();
+        const memoryWorker = createMemoryWorker();
 
-        workers = [emailWorker, voiceWorker, enrichmentWorker, workflowWorker];
+        workers = [emailWorker, voiceWorker, enrichmentWorker, workflowWorker, memoryWorker];
 
         // Add minimal logging for development
         workers.forEach((worker, index) => {
-            const workerNames = ["email", "voice", "enrichment", "workflow"];
+            const workerNames = ["email", "voice", "enrichment", "workflow", "memory"];
             const workerName = workerNames[index];
 
             worker.on("completed", (job) => {
@@ -44,6 +46,7 @@ export async function startDevelopmentWorkers() {
         console.log("  - Voice Worker");
         console.log("  - Enrichment Worker");
         console.log("  - Workflow Worker");
+        console.log("  - Memory Worker");
     } catch (error) {
         console.error("Error starting development workers:", error);
         throw error;
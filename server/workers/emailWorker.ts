@@ -3,9 +3,9 @@
  * Processes email-related background jobs including sync and AI draft generation
  */
 
-import { Worker, Job } from "bullmq";
+import { Job } from "bullmq";
 import { JobType, EmailSyncJobData, EmailDraftJobData } from "../_core/queue";
-import { getRedisConnection } from "./utils";
+import { createQueueWorker } from "./utils";
 import { getDb } from "../db";
 import { emailConnections, syncedEmails, emailDrafts, emailSyncHistory } from "../../drizzle/schema";
 import { eq, and, desc } from "drizzle-orm";
@@ -375,7 +375,7 @@ async function processEmailDraft(job: Job<EmailDraftJobData>) {
  * Create and configure the email worker
  */
 export function createEmailWorker() {
-    const worker = new Worker(
+    const worker = createQueueWorker(
         "email",
         async (job) => {
             console.log(`[Email Worker] Processing ${job.name} job (ID: ${job.id})`);
@@ -397,7 +397,6 @@ export function createEmailWorker() {
             }
         },
         {
-            connection: getRedisConnection(),
             concurrency: 5, // Process up to 5 jobs concurrently
             limiter: {
                 max: 10, // Max 10 jobs
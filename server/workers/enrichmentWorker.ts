@@ -3,10 +3,11 @@
  * Processes lead enrichment background jobs using Appify
  */
 
-import { Worker, Job } from "bullmq";
+import { Job } from "bullmq";
 import { JobType, LeadEnrichmentJobData } from "../_core/queue";
 import { AppifyService } from "../services/appify.service";
-import { getRedisConnection } from "./utils";
+import { workflowTriggerService, buildLeadEnrichedPayload } from "../services/workflowTriggers.service";
+import { createQueueWorker } from "./utils";
 
 /**
  * Process LEAD_ENRICHMENT jobs
@@ -67,6 +68,8 @@ async function processLeadEnrichment(job: Job<LeadEnrichmentJobData>) {
                 //   },
                 // });
 
+                workflowTriggerService.publish(Number(userId), "lead.enriched", buildLeadEnrichedPayload(lead, enrichedData));
+
                 results.successful++;
             } catch (error: any) {
                 console.error(`Failed to enrich lead ${lead.id}:`, error.message);
@@ -103,7 +106,7 @@ async function processLeadEnrichment(job: Job<LeadEnrichmentJobData>) {
  * Create and configure the enrichment worker
  */
 export function createEnrichmentWorker() {
-    const worker = new Worker(
+    const worker = createQueueWorker(
         "enrichment",
         async (job) => {
             console.log(`[Enrichment Worker] Processing ${job.name} job (ID: ${job.id})`);
@@ -122,7 +125,6 @@ export function createEnrichmentWorker() {
             }
         },
         {
-            connection: getRedisConnection(),
             concurrency: 2, // Process up to 2 enrichment jobs concurrently
             limiter: {
                 max: 10, // Max 10 API calls
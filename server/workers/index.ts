@@ -1,6 +1,8 @@
 /**
  * Worker Entry Point
- * Initializes all BullMQ workers for background job processing
+ * Initializes all workers for background job processing
+ * Workers use BullMQ when Redis is configured and poll the Postgres job
+ * queue otherwise
  *
  * Run with: NODE_ENV=production tsx server/workers/index.ts
  */
@@ -10,14 +12,15 @@ import { createEmailWorker } from "./emailWorker";
 import { createVoiceWorker } from "./voiceWorker";
 import { createEnrichmentWorker } from "./enrichmentWorker";
 import { createWorkflowWorker } from "./workflowWorker";
-import { shutdownQueues, shutdownQueueEvents } from "../_core/queue";
-import { Worker } from "bullmq";
+import { createMemoryWorker } from "./memoryCleanup.worker";
+import { shutdownQueues, shutdownQueueEvents, REDIS_AVAILABLE } from "../_core/queue";
+import type { QueueWorker } from "./utils";
 
 // Store all workers for graceful shutdown
-const workers: Worker[] = [];
+const workers: QueueWorker[] = [];
 
 async function startWorkers() {
-    console.log("Starting BullMQ workers...");
+    console.log(`Starting ${REDIS_AVAILABLE ? "BullMQ" : "Postgres queue"} workers...`);
     console.log(`Environment: ${process.env.NODE_ENV}`);
     console.log(`Redis URL: ${process.env.REDIS_URL ? "configured" : "not configured"}`);
 
@@ -27,12 +30,13 @@ async function startWorkers() {
         const voiceWorker = createVoiceWorker();
         const enrichmentWorker = createEnrichmentWorker();
         const workflowWorker = createWorkflowWorker();
+        const memoryWorker = createMemoryWorker();
 
-        workers.push(emailWorker, voiceWorker, enrichmentWorker, workflowWorker);
+        workers.push(emailWorker, voiceWorker, enrichmentWorker, workflowWorker, memoryWorker);
 
         // Add global error handlers
         workers.forEach((worker, index) => {
-            const workerNames = ["email", "voice", "enrichment", "workflow"];
+            const workerNames = ["email", "voice", "enrichment", "workflow", "memory"];
             const workerName = workerNames[index];
 
             worker.on("completed", (job) => {
@@ -58,6 +62,7 @@ async function startWorkers() {
         console.log("  - Voice Worker (voice_call)");
         console.log("  - Enrichment Worker (lead_enrichment)");
         console.log("  - Workflow Worker (workflow_execution)");
+        console.log("  - Memory Worker (memory_cleanup, memory_consolidation, reasoning_embedding_backfill)");
         console.log("\nPress Ctrl+C to stop workers");
     } catch (error) {
         console.error("Failed to start workers:", error);
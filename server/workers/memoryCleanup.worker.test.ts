@@ -0,0 +1,94 @@
+/**
+ * Memory Worker Tests
+ * Covers registering the memory queue worker and dispatching its jobs
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockBackfill, mockCleanup, captured } = vi.hoisted(() => ({
+  mockBackfill: vi.fn(),
+  mockCleanup: vi.fn(),
+  captured: {
+    queueName: undefined as string | undefined,
+    processor: undefined as undefined | ((job: any) => Promise<any>),
+  },
+}));
+
+vi.mock("./utils", () => ({
+  createQueueWorker: vi.fn((queueName: string, processor: (job: any) => Promise<any>) => {
+    captured.queueName = queueName;
+    captured.processor = processor;
+  }),
+}));
+
+vi.mock("../services/memory", () => ({
+  memoryCleanupScheduler: {
+    runEmbeddingBackfill: mockBackfill,
+    runCleanup: mockCleanup,
+    runConsolidation: vi.fn(),
+  },
+}));
+
+import { createMemoryWorker } from "./memoryCleanup.worker";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const makeJob = (data: Record<string, unknown>) => ({
+  id: "job-1",
+  name: data.type,
+  data,
+});
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Memory Worker", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    createMemoryWorker();
+  });
+
+  it("should consume the memory queue", () => {
+    expect(captured.queueName).toBe("memory");
+  });
+
+  it("should run reasoning embedding backfill jobs", async () => {
+    mockBackfill.mockResolvedValue({ processed: 12, failed: 1 });
+
+    const result = await captured.processor!(
+      makeJob({ type: "reasoning_embedding_backfill", options: { batchSize: 50 } })
+    );
+
+    expect(mockBackfill).toHaveBeenCalledWith({ batchSize: 50 });
+    expect(result).toEqual({
+      success: true,
+      type: "reasoning_embedding_backfill",
+      processed: 12,
+      failed: 1,
+    });
+  });
+
+  it("should run cleanup jobs", async () => {
+    mockCleanup.mockResolvedValue({ expiredCleaned: 3, lowPerformanceCleaned: 0 });
+
+    const result = await captured.processor!(makeJob({ type: "memory_cleanup" }));
+
+    expect(mockCleanup).toHaveBeenCalledWith(undefined);
+    expect(result).toMatchObject({ success: true, expiredCleaned: 3 });
+  });
+
+  it("should reject unknown job types", async () => {
+    await expect(captured.processor!(makeJob({ type: "bogus" }))).rejects.toThrow(
+      "Unknown memory job type: bogus"
+    );
+  });
+});
@@ -4,32 +4,11 @@
  */
 
 import { Job } from "bullmq";
+import type { MemoryJobData } from "../_core/queue";
 import { memoryCleanupScheduler } from "../services/memory";
+import { createQueueWorker } from "./utils";
 
-// ========================================
-// JOB DATA TYPES
-// ========================================
-
-export interface MemoryCleanupJobData {
-  type: "memory_cleanup";
-  options?: {
-    cleanupExpired?: boolean;
-    cleanupLowPerformance?: boolean;
-    minSuccessRate?: number;
-    minUsageCount?: number;
-  };
-}
-
-export interface MemoryConsolidationJobData {
-  type: "memory_consolidation";
-  options?: {
-    sessionId?: string;
-    agentId?: string;
-    threshold?: number;
-  };
-}
-
-export type MemoryJobData = MemoryCleanupJobData | MemoryConsolidationJobData;
+export type { MemoryJobData };
 
 // ========================================
 // WORKER PROCESSOR
@@ -66,6 +45,17 @@ export async function processMemoryJob(job: Job<MemoryJobData>): Promise<any> {
         };
       }
 
+      case "reasoning_embedding_backfill": {
+        const result = await memoryCleanupScheduler.runEmbeddingBackfill(data.options);
+
+        return {
+          success: true,
+          type: "reasoning_embedding_backfill",
+          processed: result.processed,
+          failed: result.failed,
+        };
+      }
+
       default: {
         throw new Error(`Unknown memory job type: ${(data as any).type}`);
       }
@@ -87,6 +77,9 @@ export function onMemoryJobCompleted(job: Job, result: any): void {
     console.log(`  - Low-performance patterns cleaned: ${result.lowPerformanceCleaned}`);
   } else if (result.type === "memory_consolidation") {
     console.log(`  - Entries consolidated: ${result.consolidatedCount}`);
+  } else if (result.type === "reasoning_embedding_backfill") {
+    console.log(`  - Patterns embedded: ${result.processed}`);
+    console.log(`  - Patterns failed: ${result.failed}`);
   }
 }
 
@@ -107,3 +100,20 @@ export function onMemoryJobFailed(job: Job | undefined, error: Error): void {
 export function onMemoryJobProgress(job: Job, progress: number | object): void {
   console.log(`[Memory Worker] Job ${job.id} progress:`, progress);
 }
+
+/**
+ * Create and configure the memory worker
+ * Jobs are dispatched on their data type, so the job name is only informational
+ */
+export function createMemoryWorker() {
+  const worker = createQueueWorker(
+    "memory",
+    (job) => processMemoryJob(job as Job<MemoryJobData>),
+    {
+      concurrency: 1, // Backfills call the embedding API in batches; run one job at a time
+    }
+  );
+
+  console.log("Memory worker initialized");
+  return worker;
+}
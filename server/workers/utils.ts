@@ -3,7 +3,19 @@
  * Shared utilities for all workers
  */
 
-import { ConnectionOptions } from "bullmq";
+import { Worker, Job, ConnectionOptions } from "bullmq";
+import { REDIS_AVAILABLE } from "../_core/queue";
+import { PostgresWorker } from "../_core/pgQueue";
+
+/**
+ * What the worker entry points need from a BullMQ Worker or PostgresWorker
+ */
+export interface QueueWorker {
+    on(event: "active" | "completed", listener: (job: { id?: string }) => void): unknown;
+    on(event: "failed", listener: (job: { id?: string } | undefined, error: Error) => void): unknown;
+    on(event: "error", listener: (error: Error) => void): unknown;
+    close(): Promise<void>;
+}
 
 /**
  * Parse Redis connection from URL or individual env vars
@@ -36,6 +48,27 @@ export function getRedisConnection(): ConnectionOptions {
     };
 }
 
+/**
+ * Create a worker for a queue
+ * Uses BullMQ when Redis is configured and polls the Postgres queue otherwise.
+ * The rate limiter only applies to BullMQ.
+ */
+export function createQueueWorker(
+    queueName: string,
+    processor: (job: Job) => Promise<any>,
+    options: { concurrency: number; limiter?: { max: number; duration: number } }
+): QueueWorker {
+    if (!REDIS_AVAILABLE) {
+        console.log(`[Queue] Redis not configured - ${queueName} worker polling Postgres`);
+        return new PostgresWorker(queueName, processor, { concurrency: options.concurrency });
+    }
+
+    return new Worker(queueName, processor, {
+        connection: getRedisConnection(),
+        ...options,
+    });
+}
+
 /**
  * Format duration in milliseconds to human-readable string
  */
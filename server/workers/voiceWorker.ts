@@ -3,10 +3,11 @@
  * Processes voice call background jobs using Vapi
  */
 
-import { Worker, Job } from "bullmq";
+import { Job } from "bullmq";
 import { JobType, VoiceCallJobData } from "../_core/queue";
-import { getRedisConnection } from "./utils";
+import { createQueueWorker } from "./utils";
 import { vapiService } from "../services/vapi.service";
+import { workflowTriggerService } from "../services/workflowTriggers.service";
 import { getDb } from "../db";
 import { eq, sql } from "drizzle-orm";
 import { ai_calls, ai_call_campaigns } from "../../drizzle/schema";
@@ -111,6 +112,17 @@ async function processVoiceCall(job: Job<VoiceCallJobData>) {
                         await updateCampaignStats(db, metadata.campaignId, status);
                     }
 
+                    if (status.status === "completed") {
+                        workflowTriggerService.publish(Number(userId), "call.completed", {
+                            callId: parseInt(callId),
+                            campaignId: metadata?.campaignId,
+                            phoneNumber,
+                            duration: status.duration || 0,
+                            outcome: status.outcome,
+                            transcript: status.transcript,
+                        });
+                    }
+
                     break;
                 }
 
@@ -202,7 +214,7 @@ async function updateCampaignStats(db: any, campaignId: number, callStatus: any)
  * Create and configure the voice worker
  */
 export function createVoiceWorker() {
-    const worker = new Worker(
+    const worker = createQueueWorker(
         "voice",
         async (job) => {
             console.log(`[Voice Worker] Processing ${job.name} job (ID: ${job.id})`);
@@ -221,7 +233,6 @@ export function createVoiceWorker() {
             }
         },
         {
-            connection: getRedisConnection(),
             concurrency: 3, // Process up to 3 calls concurrently
             limiter: {
                 max: 5, // Max 5 calls
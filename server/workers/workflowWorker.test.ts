@@ -0,0 +1,106 @@
+/**
+ * Workflow Worker Tests
+ * Covers running queued executions and notifying the conversation that
+ * triggered them when the run finishes
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+// ========================================
+// MOCKS SETUP
+// ========================================
+
+const { mockExecuteWorkflow, mockNotify, captured } = vi.hoisted(() => ({
+  mockExecuteWorkflow: vi.fn(),
+  mockNotify: vi.fn(),
+  captured: { processor: undefined as undefined | ((job: any) => Promise<any>) },
+}));
+
+vi.mock("./utils", () => ({
+  createQueueWorker: vi.fn((_name: string, processor: (job: any) => Promise<any>) => {
+    captured.processor = processor;
+  }),
+}));
+
+vi.mock("../_core/queue", () => ({
+  JobType: { WORKFLOW_EXECUTION: "workflow_execution" },
+}));
+
+vi.mock("../services/workflowExecution.service", () => ({
+  executeWorkflow: mockExecuteWorkflow,
+}));
+
+vi.mock("../services/messageProcessing.service", () => ({
+  messageProcessingService: { notifyWorkflowOutcome: mockNotify },
+}));
+
+import { createWorkflowWorker } from "./workflowWorker";
+
+// ========================================
+// FIXTURES
+// ========================================
+
+const makeJob = (data: Record<string, unknown>, attemptsMade = 0) => ({
+  id: "job-1",
+  name: "workflow_execution",
+  data: { userId: "1", workflowId: "7", ...data },
+  attemptsMade,
+  opts: { attempts: 3 },
+  updateProgress: vi.fn(),
+});
+
+// ========================================
+// TESTS
+// ========================================
+
+describe("Workflow Worker", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    createWorkflowWorker();
+  });
+
+  it("should run the pending execution and notify the conversation", async () => {
+    mockExecuteWorkflow.mockResolvedValue({ executionId: 42, workflowId: 7, status: "completed", stepResults: [{}, {}] });
+    const job = makeJob({ executionId: "42", conversationId: "5", messageId: "9", context: { target: "Acme" } });
+
+    const result = await captured.processor!(job);
+
+    expect(mockExecuteWorkflow).toHaveBeenCalledWith(
+      expect.objectContaining({ workflowId: 7, userId: 1, executionId: 42, variables: { target: "Acme" } })
+    );
+    expect(result).toMatchObject({ success: true, executionId: 42 });
+    expect(mockNotify).toHaveBeenCalledWith(job.data, {
+      executionId: 42,
+      workflowId: 7,
+      status: "completed",
+      error: undefined,
+      stepsCompleted: 2,
+    });
+  });
+
+  it("should not notify runs without a conversation", async () => {
+    mockExecuteWorkflow.mockResolvedValue({ executionId: 43, workflowId: 7, status: "completed", stepResults: [] });
+
+    await captured.processor!(makeJob({}));
+
+    expect(mockNotify).not.toHaveBeenCalled();
+  });
+
+  it("should report a failure only after the last retry", async () => {
+    mockExecuteWorkflow.mockRejectedValue(new Error("Step 2 failed: element not found"));
+    const data = { executionId: "42", conversationId: "5" };
+
+    await expect(captured.processor!(makeJob(data, 0))).rejects.toThrow("Step 2 failed");
+    expect(mockNotify).not.toHaveBeenCalled();
+
+    await expect(captured.processor!(makeJob(data, 2))).rejects.toThrow("Step 2 failed");
+    expect(mockNotify).toHaveBeenCalledWith(expect.objectContaining({ conversationId: "5" }), {
+      executionId: 42,
+      workflowId: 7,
+      status: "failed",
+      error: "Step 2 failed: element not found",
+    });
+  });
+});
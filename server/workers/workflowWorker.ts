@@ -3,18 +3,19 @@
  * Processes workflow execution background jobs using BullMQ
  */
 
-import { Worker, Job } from "bullmq";
+import { Job } from "bullmq";
 import { JobType, WorkflowExecutionJobData } from "../_core/queue";
-import { getRedisConnection } from "./utils";
+import { createQueueWorker } from "./utils";
 import { executeWorkflow } from "../services/workflowExecution.service";
 import type { ExecuteWorkflowOptions } from "../services/workflowExecution.service";
+import { messageProcessingService } from "../services/messageProcessing.service";
 
 /**
  * Process WORKFLOW_EXECUTION jobs
  * Executes automated workflows with browser automation steps
  */
 async function processWorkflowExecution(job: Job<WorkflowExecutionJobData>) {
-    const { userId, workflowId, triggerId, context = {} } = job.data;
+    const { userId, workflowId, triggerId, executionId, conversationId, context = {} } = job.data;
     const startTime = Date.now();
 
     console.log(`[Workflow Worker] Processing workflow execution`);
@@ -43,13 +44,31 @@ async function processWorkflowExecution(job: Job<WorkflowExecutionJobData>) {
         variables: context,
         // Extract geolocation from context if provided
         geolocation: context.geolocation as ExecuteWorkflowOptions["geolocation"],
+        executionId: executionId ? parseInt(executionId, 10) : undefined,
+        // Retries continue from the failed step instead of starting over
+        resume: Boolean(executionId) && (job.data.resume || job.attemptsMade > 0),
     };
 
     // Progress - starting execution
     await job.updateProgress(10);
 
     // Execute the workflow using the service
-    const result = await executeWorkflow(options);
+    let result: Awaited<ReturnType<typeof executeWorkflow>>;
+    try {
+        result = await executeWorkflow(options);
+    } catch (error: any) {
+        // Report the failure to the sender once retries are exhausted
+        const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+        if (conversationId && options.executionId && isFinalAttempt) {
+            await messageProcessingService.notifyWorkflowOutcome(job.data, {
+                executionId: options.executionId,
+                workflowId: workflowIdNum,
+                status: "failed",
+                error: error?.message,
+            });
+        }
+        throw error;
+    }
 
     // Progress - execution complete
     await job.updateProgress(100);
@@ -63,6 +82,17 @@ async function processWorkflowExecution(job: Job<WorkflowExecutionJobData>) {
     console.log(`[Workflow Worker] Steps completed: ${stepsCompleted}`);
     console.log(`[Workflow Worker] Duration: ${duration}ms`);
 
+    // Let the sender of a message-triggered run know it finished
+    if (conversationId) {
+        await messageProcessingService.notifyWorkflowOutcome(job.data, {
+            executionId: result.executionId,
+            workflowId: workflowIdNum,
+            status: result.status === "completed" ? "completed" : "failed",
+            error: result.error,
+            stepsCompleted,
+        });
+    }
+
     return {
         success: result.status === "completed",
         workflowId: workflowIdNum,
@@ -77,7 +107,7 @@ async function processWorkflowExecution(job: Job<WorkflowExecutionJobData>) {
  * Create and configure the workflow worker
  */
 export function createWorkflowWorker() {
-    const worker = new Worker(
+    const worker = createQueueWorker(
         "workflow",
         async (job) => {
             console.log(`[Workflow Worker] Processing ${job.name} job (ID: ${job.id})`);
@@ -96,7 +126,6 @@ export function createWorkflowWorker() {
             }
         },
         {
-            connection: getRedisConnection(),
             concurrency: 3, // Reduced from 5 - browser sessions are resource-intensive
             limiter: {
                 max: 10, // Max 10 jobs per duration
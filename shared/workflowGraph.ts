@@ -0,0 +1,161 @@
+/**
+ * Workflow Graph Validation
+ *
+ * Builds the control-flow graph of a workflow step list and rejects
+ * definitions the executor cannot run safely:
+ * - duplicate step ids
+ * - jump targets (thenGoto/elseGoto) that do not exist in the same step list
+ * - cycles (a jump back to the same or an earlier step)
+ * - steps that can never be reached from the first step
+ *
+ * Nested step lists (loop `steps`, condition `thenSteps`/`elseSteps`) are
+ * validated recursively; jumps only resolve within their own list.
+ */
+
+export interface WorkflowGraphStep {
+  id?: string;
+  type: string;
+  order: number;
+  config: {
+    thenGoto?: string;
+    elseGoto?: string;
+    thenSteps?: WorkflowGraphStep[];
+    elseSteps?: WorkflowGraphStep[];
+    steps?: WorkflowGraphStep[];
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Human readable label for a step in error messages
+ */
+function describeStep(step: WorkflowGraphStep, index: number): string {
+  return step.id ? `Step "${step.id}"` : `Step #${index + 1}`;
+}
+
+/**
+ * Indices of the steps that may run after the step at `index`
+ */
+function getSuccessors(
+  steps: WorkflowGraphStep[],
+  index: number,
+  idToIndex: Map<string, number>
+): number[] {
+  const step = steps[index];
+  const fallthrough = index + 1 < steps.length ? [index + 1] : [];
+
+  if (step.type !== "condition") {
+    return fallthrough;
+  }
+
+  const successors: number[] = [];
+  for (const target of [step.config.thenGoto, step.config.elseGoto]) {
+    if (target === undefined) {
+      successors.push(...fallthrough);
+    } else if (idToIndex.has(target)) {
+      successors.push(idToIndex.get(target)!);
+    }
+  }
+  return Array.from(new Set(successors));
+}
+
+function validateStepList(
+  unsortedSteps: WorkflowGraphStep[],
+  path: string,
+  seenIds: Set<string>,
+  errors: string[]
+): void {
+  const steps = [...unsortedSteps].sort((a, b) => a.order - b.order);
+  const prefix = path ? `${path} > ` : "";
+  const idToIndex = new Map<string, number>();
+
+  steps.forEach((step, index) => {
+    if (!step.id) return;
+    if (seenIds.has(step.id)) {
+      errors.push(`${prefix}Duplicate step id "${step.id}"`);
+    }
+    seenIds.add(step.id);
+    idToIndex.set(step.id, index);
+  });
+
+  steps.forEach((step, index) => {
+    if (step.type !== "condition") return;
+    for (const target of [step.config.thenGoto, step.config.elseGoto]) {
+      if (target !== undefined && !idToIndex.has(target)) {
+        errors.push(
+          `${prefix}${describeStep(step, index)} jumps to unknown step id "${target}" (targets must be in the same step list)`
+        );
+      }
+    }
+  });
+
+  // Cycle detection (iterative DFS with white/grey/black colouring)
+  const state = new Array<0 | 1 | 2>(steps.length).fill(0);
+  for (let start = 0; start < steps.length; start++) {
+    if (state[start] !== 0) continue;
+    const stack: Array<{ node: number; successors: number[] }> = [
+      { node: start, successors: getSuccessors(steps, start, idToIndex) },
+    ];
+    state[start] = 1;
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const next = frame.successors.shift();
+
+      if (next === undefined) {
+        state[frame.node] = 2;
+        stack.pop();
+      } else if (state[next] === 1) {
+        errors.push(
+          `${prefix}Cycle detected: ${describeStep(steps[frame.node], frame.node)} jumps back to ${describeStep(steps[next], next)}`
+        );
+      } else if (state[next] === 0) {
+        state[next] = 1;
+        stack.push({ node: next, successors: getSuccessors(steps, next, idToIndex) });
+      }
+    }
+  }
+
+  // Reachability from the first step
+  const reachable = new Set<number>();
+  const queue = steps.length > 0 ? [0] : [];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (reachable.has(node)) continue;
+    reachable.add(node);
+    queue.push(...getSuccessors(steps, node, idToIndex));
+  }
+
+  steps.forEach((step, index) => {
+    if (!reachable.has(index)) {
+      errors.push(`${prefix}${describeStep(step, index)} is unreachable`);
+    }
+  });
+
+  // Nested step lists
+  steps.forEach((step, index) => {
+    const label = `${prefix}${describeStep(step, index)}`;
+    const nested: Array<[string, WorkflowGraphStep[] | undefined]> = [
+      ["steps", step.config.steps],
+      ["thenSteps", step.config.thenSteps],
+      ["elseSteps", step.config.elseSteps],
+    ];
+    for (const [key, children] of nested) {
+      if (Array.isArray(children)) {
+        validateStepList(children, `${label} ${key}`, seenIds, errors);
+      }
+    }
+  });
+}
+
+/**
+ * Validate the control flow of a workflow definition
+ *
+ * @param steps - Top-level workflow steps
+ * @returns List of validation errors (empty when the graph is valid)
+ */
+export function validateWorkflowGraph(steps: WorkflowGraphStep[]): string[] {
+  const errors: string[] = [];
+  validateStepList(steps, "", new Set(), errors);
+  return errors;
+}
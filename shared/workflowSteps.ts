@@ -0,0 +1,136 @@
+/**
+ * Workflow Step Schema
+ *
+ * The step definition accepted by the workflows router. Shared with the
+ * workflow builder so steps are validated the same way while editing as
+ * when they are saved or test run.
+ */
+
+import { z } from "zod";
+import { validateWorkflowGraph } from "./workflowGraph";
+
+export const WORKFLOW_STEP_TYPES = [
+  "navigate",
+  "act",
+  "observe",
+  "extract",
+  "wait",
+  "condition",
+  "loop",
+  "apiCall",
+  "notification",
+] as const;
+
+export type WorkflowStepType = (typeof WORKFLOW_STEP_TYPES)[number];
+
+export const STEP_RETRY_ERROR_CLASSES = ["network", "timeout", "rateLimit", "server", "element", "any"] as const;
+
+const NOTIFICATION_TYPES = ["info", "success", "warning", "error"] as const;
+
+export const MAX_WORKFLOW_STEPS = 50;
+
+// Per-step retry: attempts include the first run, retryOn defaults to transient errors
+export const stepRetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10),
+  backoff: z.enum(["fixed", "exponential"]).optional(),
+  delayMs: z.number().int().min(0).max(300000).optional(), // Max 5 minutes
+  maxDelayMs: z.number().int().min(0).max(600000).optional(),
+  retryOn: z.array(z.enum(STEP_RETRY_ERROR_CLASSES)).min(1).optional(),
+});
+
+export const workflowStepSchema = z.object({
+  id: z.string().min(1).max(100).optional(), // Jump target for condition steps
+  type: z.enum(WORKFLOW_STEP_TYPES),
+  order: z.number().int().min(0),
+  config: z.object({
+    // Step type discriminator; the executor fills it in from the step type.
+    // Older notification steps stored their level here before notificationType
+    type: z.union([z.enum(WORKFLOW_STEP_TYPES), z.enum(NOTIFICATION_TYPES)]).optional(),
+
+    // Navigation step
+    url: z.string().optional(),
+
+    // Action step (act)
+    instruction: z.string().optional(),
+
+    // Observation step (observe)
+    observeInstruction: z.string().optional(),
+
+    // Extraction step (extract)
+    extractInstruction: z.string().optional(),
+    schemaType: z.enum(["contactInfo", "productInfo", "custom"]).optional(),
+
+    // Wait step
+    waitMs: z.number().int().min(0).max(60000).optional(), // Max 60 seconds
+    selector: z.string().optional(), // CSS selector to wait for
+
+    // Condition step
+    condition: z.string().optional(),
+    get thenSteps() {
+      return z.array(workflowStepSchema).min(1).max(MAX_WORKFLOW_STEPS).optional(); // Run when condition passes
+    },
+    get elseSteps() {
+      return z.array(workflowStepSchema).min(1).max(MAX_WORKFLOW_STEPS).optional(); // Run when condition fails
+    },
+    thenGoto: z.string().optional(), // Step id to jump to when condition passes
+    elseGoto: z.string().optional(), // Step id to jump to when condition fails
+
+    // Loop step
+    items: z.union([z.array(z.any()), z.string()]).optional(), // Array or {{variable}} reference
+    get steps() {
+      return z.array(workflowStepSchema).min(1).max(MAX_WORKFLOW_STEPS).optional(); // Steps run per item
+    },
+    itemVariable: z.string().optional(),
+    indexVariable: z.string().optional(),
+    breakCondition: z.string().optional(),
+    continueCondition: z.string().optional(),
+    maxIterations: z.number().int().min(1).max(1000).optional(),
+    concurrency: z.number().int().min(1).max(10).optional(),
+
+    // API Call step
+    method: z.enum(["GET", "POST", "PUT", "DELETE", "PATCH"]).optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+    body: z.any().optional(),
+    saveAs: z.string().optional(), // Variable name to save result
+
+    // Notification step
+    message: z.string().optional(),
+    notificationType: z.enum(NOTIFICATION_TYPES).optional(),
+
+    // Common config
+    modelName: z.string().optional(),
+    continueOnError: z.boolean().default(false),
+    retry: stepRetryPolicySchema.optional(),
+  }),
+});
+
+// Top-level step list with control-flow validation (cycles, unreachable steps, bad jump targets)
+export const workflowStepListSchema = z
+  .array(workflowStepSchema)
+  .min(1)
+  .max(MAX_WORKFLOW_STEPS)
+  .superRefine((steps, ctx) => {
+    for (const message of validateWorkflowGraph(steps)) {
+      ctx.addIssue({ code: "custom", message });
+    }
+  });
+
+export type WorkflowStepInput = z.input<typeof workflowStepSchema>;
+export type WorkflowStepConfigInput = WorkflowStepInput["config"];
+
+/**
+ * Config fields each step type needs before it can run
+ * The schema keeps config fields optional; the executor rejects steps
+ * missing these
+ */
+export const REQUIRED_STEP_FIELDS: Record<WorkflowStepType, Array<keyof WorkflowStepConfigInput>> = {
+  navigate: ["url"],
+  act: ["instruction"],
+  observe: ["observeInstruction"],
+  extract: ["extractInstruction"],
+  wait: [],
+  condition: ["condition"],
+  loop: ["items"],
+  apiCall: ["url"],
+  notification: ["message"],
+};